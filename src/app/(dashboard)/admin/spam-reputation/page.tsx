@@ -0,0 +1,45 @@
+import { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isPlatformAdmin } from "@/lib/security/platform-admin";
+import { listReputation, MIN_REPORTING_ORGS, REPUTATION_HALF_LIFE_DAYS } from "@/lib/spam/reputation";
+import { ReputationAdmin } from "./reputation-admin";
+
+export const metadata: Metadata = {
+  title: "Spam Reputation | Hola Recep",
+  description: "Shared spam reputation across all businesses",
+};
+
+export default async function SpamReputationPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  if (!isPlatformAdmin(user.email)) {
+    notFound();
+  }
+
+  const entries = await listReputation(createAdminClient());
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Spam Reputation</h1>
+        <p className="text-muted-foreground">
+          Numbers businesses have reported, across all organizations. A number adds to spam scores
+          once {MIN_REPORTING_ORGS} businesses have reported it recently; reports lose half their
+          weight every {REPUTATION_HALF_LIFE_DAYS} days. Overrides replace the computed score.
+        </p>
+      </div>
+
+      <ReputationAdmin entries={entries} />
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, ShieldAlert, X } from "lucide-react";
+import { format } from "date-fns";
+import type { ReputationSummary, ReputationVerdict } from "@/lib/spam/reputation";
+
+interface ReputationAdminProps {
+  entries: ReputationSummary[];
+}
+
+export function ReputationAdmin({ entries }: ReputationAdminProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [phone, setPhone] = useState("");
+  const [verdict, setVerdict] = useState<ReputationVerdict>("spam");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOverride = async () => {
+    if (!phone.trim()) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/v1/admin/spam-reputation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ phone: phone.trim(), verdict, note: note.trim() || null }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to save override");
+      }
+      setPhone("");
+      setNote("");
+      toast({ title: "Saved", description: "The override applies from the next call" });
+      router.refresh();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save override";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async (hash: string) => {
+    try {
+      const response = await fetch(`/api/v1/admin/spam-reputation?hash=${hash}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to clear override");
+      }
+      router.refresh();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to clear override";
+      toast({ variant: "destructive", title: "Error", description: message });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Override a Number</CardTitle>
+          <CardDescription>
+            Numbers are stored as hashes, so enter the full number to override it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-3 sm:grid-cols-[1fr_180px_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="override-phone">Phone number</Label>
+              <Input
+                id="override-phone"
+                placeholder="+19005550100"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-verdict">Verdict</Label>
+              <Select value={verdict} onValueChange={(value) => setVerdict(value as ReputationVerdict)}>
+                <SelectTrigger id="override-verdict">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="spam">Always spam</SelectItem>
+                  <SelectItem value="not_spam">Never spam</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-note">Note</Label>
+              <Input
+                id="override-note"
+                placeholder="Optional"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleOverride} disabled={isSaving || !phone.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reported Numbers</CardTitle>
+          <CardDescription>The most-reported numbers and every override.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <div className="py-12 text-center">
+              <ShieldAlert className="mx-auto h-8 w-8 text-muted-foreground" />
+              <p className="mt-2 text-sm text-muted-foreground">No numbers have been reported yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead className="text-right">Spam reports</TableHead>
+                  <TableHead className="text-right">Not spam</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead>Last reported</TableHead>
+                  <TableHead>Override</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.phoneHash}>
+                    <TableCell className="font-mono">{entry.phoneHint ?? "—"}</TableCell>
+                    <TableCell className="text-right">{entry.spamOrgs}</TableCell>
+                    <TableCell className="text-right">{entry.notSpamOrgs}</TableCell>
+                    <TableCell className="text-right">{entry.score}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(entry.lastReportedAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      {entry.override ? (
+                        <div className="flex items-center gap-1">
+                          <Badge
+                            variant={entry.override === "spam" ? "destructive" : "outline"}
+                            title={entry.overrideNote ?? undefined}
+                          >
+                            {entry.override === "spam" ? "Always spam" : "Never spam"}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => handleClear(entry.phoneHash)}
+                            title="Clear override"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -20,7 +20,12 @@ import {
   TrendingUp,
   ShieldAlert,
   Users,
+  UserX,
+  FlaskConical,
 } from "lucide-react";
+import { summarizeAttendance } from "@/lib/calendar/reminders";
+import { loadExperimentResults } from "@/lib/assistants/experiments";
+import { ExperimentResultsTable } from "@/components/experiments/ExperimentResultsTable";
 import { AnalyticsCharts } from "./analytics-charts";
 import { RecentCallsList } from "./recent-calls-list";
 
@@ -100,6 +105,28 @@ export default async function AnalyticsPage() {
     .eq("organization_id", organizationId)
     .gte("created_at", thirtyDaysAgo.toISOString());
 
+  // Past appointments from the last 30 days, for attendance
+  const { data: pastAppointments } = await (supabase as any)
+    .from("appointments")
+    .select("status, confirmed_by_caller_at")
+    .eq("organization_id", organizationId)
+    .gte("start_time", thirtyDaysAgo.toISOString())
+    .lte("start_time", new Date().toISOString());
+
+  const { count: remindersSent } = await (supabase as any)
+    .from("appointment_reminders")
+    .select("id", { count: "exact", head: true })
+    .eq("organization_id", organizationId)
+    .eq("status", "sent")
+    .gte("created_at", thirtyDaysAgo.toISOString());
+
+  const attendance = summarizeAttendance(pastAppointments || []);
+
+  // Prompt experiments running or stopped in the last 30 days
+  const experiments = await loadExperimentResults(supabase, organizationId, {
+    since: thirtyDaysAgo,
+  });
+
   // Calculate stats
   const callsList = calls || [];
   const appointmentsList = appointments || [];
@@ -387,6 +414,87 @@ export default async function AnalyticsPage() {
         </Card>
       </div>
 
+      {/* Attendance */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserX className="h-5 w-5" />
+            Appointment Attendance
+          </CardTitle>
+          <CardDescription>
+            No-shows from appointments marked attended or no-show on the calendar
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div>
+              <p className="text-sm text-muted-foreground">No-show Rate</p>
+              <p className="text-2xl font-bold">
+                {attendance.noShowRate !== null ? `${attendance.noShowRate}%` : "—"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {attendance.noShows} no-shows, {attendance.attended} attended
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Caller Confirmed</p>
+              <p className="text-2xl font-bold">
+                {attendance.confirmedNoShowRate !== null ? `${attendance.confirmedNoShowRate}%` : "—"}
+              </p>
+              <p className="text-xs text-muted-foreground">No-show rate after confirming</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Not Confirmed</p>
+              <p className="text-2xl font-bold">
+                {attendance.unconfirmedNoShowRate !== null ? `${attendance.unconfirmedNoShowRate}%` : "—"}
+              </p>
+              <p className="text-xs text-muted-foreground">No-show rate without confirming</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Reminders Sent</p>
+              <p className="text-2xl font-bold">{remindersSent ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Texts and calls</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Prompt Experiments */}
+      {experiments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Prompt Experiments
+            </CardTitle>
+            <CardDescription>
+              Calls split between prompt revisions, compared with the control (variant A).
+              Only calls on self-hosted numbers are split.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {experiments.map((experiment) => (
+              <div key={experiment.id} className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{experiment.name}</span>
+                  {experiment.assistantName && (
+                    <span className="text-sm text-muted-foreground">{experiment.assistantName}</span>
+                  )}
+                  <Badge variant={experiment.status === "running" ? "success" : "secondary"}>
+                    {experiment.status === "running" ? "Running" : "Stopped"}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    Since {format(new Date(experiment.startedAt), "MMM d")}
+                    {experiment.stoppedAt && `, stopped ${format(new Date(experiment.stoppedAt), "MMM d")}`}
+                  </span>
+                </div>
+                <ExperimentResultsTable experiment={experiment} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Hourly Heatmap */}
       <Card>
         <CardHeader>
@@ -36,12 +36,24 @@ import {
   Loader2,
   Plus,
   Trash2,
+  History,
 } from "lucide-react";
 import { getIndustryTemplates, DEFAULT_RECORDING_DISCLOSURE } from "@/lib/templates";
 import { PromptBuilder } from "@/components/prompt-builder";
-import type { PromptConfig } from "@/lib/prompt-builder/types";
+import type { PromptConfig, PromptConfigV1 } from "@/lib/prompt-builder/types";
+import { upgradePromptConfig } from "@/lib/prompt-builder/upgrade";
 import { VoiceSelector } from "@/components/voice-selector";
 import { resolveVoiceId } from "@/lib/voices";
+import {
+  LANGUAGE_CODES,
+  SUPPORTED_LANGUAGES,
+  resolveAssistantLanguages,
+  vapiSupportsLanguageSwitching,
+  type LanguageCode,
+} from "@/lib/languages/languages";
+import { MAX_REVISION_NOTE_LENGTH } from "@/lib/assistants/revisions";
+import { RevisionHistory } from "./revision-history";
+import { ExperimentPanel } from "./experiment-panel";
 
 // Industry templates
 const INDUSTRY_TEMPLATES = getIndustryTemplates();
@@ -103,6 +115,9 @@ export function AssistantBuilder({
   const [recordingEnabled, setRecordingEnabled] = useState(
     assistant.settings?.recordingEnabled ?? true
   );
+  const [languages, setLanguages] = useState<LanguageCode[]>(
+    resolveAssistantLanguages(assistant.settings)
+  );
   const [recordingDisclosure, setRecordingDisclosure] = useState(
     assistant.settings?.recordingDisclosure ?? DEFAULT_RECORDING_DISCLOSURE
   );
@@ -115,7 +130,9 @@ export function AssistantBuilder({
 
   // Prompt builder state
   const [promptConfig, setPromptConfig] = useState<PromptConfig | null>(
-    (assistant.prompt_config as PromptConfig) || null
+    assistant.prompt_config
+      ? upgradePromptConfig(assistant.prompt_config as PromptConfig | PromptConfigV1)
+      : null
   );
   const [useGuidedBuilder, setUseGuidedBuilder] = useState(
     assistant.prompt_config !== null
@@ -123,6 +140,8 @@ export function AssistantBuilder({
 
   // Saving state
   const [isSaving, setIsSaving] = useState(false);
+  const [revisionNote, setRevisionNote] = useState("");
+  const [historyKey, setHistoryKey] = useState(0);
 
   // Apply industry template
   const applyTemplate = (industryKey: string) => {
@@ -159,8 +178,10 @@ export function AssistantBuilder({
             spamFilterEnabled,
             recordingEnabled,
             recordingDisclosure,
+            languages,
           },
           promptConfig: useGuidedBuilder ? promptConfig : null,
+          note: revisionNote || undefined,
         }),
       });
 
@@ -174,6 +195,8 @@ export function AssistantBuilder({
         description: "Assistant settings have been updated.",
       });
 
+      setRevisionNote("");
+      setHistoryKey((key) => key + 1);
       router.refresh();
     } catch (error) {
       toast({
@@ -186,6 +209,29 @@ export function AssistantBuilder({
     }
   };
 
+  // A rollback replaces the saved prompt, so the builder picks it up too
+  const handleRolledBack = (revision: {
+    systemPrompt: string;
+    firstMessage: string;
+    promptConfig: Record<string, any> | null;
+  }) => {
+    setSystemPrompt(revision.systemPrompt);
+    setFirstMessage(revision.firstMessage);
+    setPromptConfig(
+      revision.promptConfig
+        ? upgradePromptConfig(revision.promptConfig as PromptConfig | PromptConfigV1)
+        : null
+    );
+    setUseGuidedBuilder(revision.promptConfig !== null);
+    router.refresh();
+  };
+
+  // Promoting a winner adds a revision, so the history reloads as well
+  const handlePromoted = (revision: Parameters<typeof handleRolledBack>[0]) => {
+    handleRolledBack(revision);
+    setHistoryKey((key) => key + 1);
+  };
+
   // Add transfer rule
   const addTransferRule = async () => {
     if (!newTransferPhone) {
@@ -288,6 +334,13 @@ export function AssistantBuilder({
               Test Call
             </Button>
           </Link>
+          <Input
+            placeholder="What changed? (optional)"
+            value={revisionNote}
+            onChange={(e) => setRevisionNote(e.target.value)}
+            maxLength={MAX_REVISION_NOTE_LENGTH}
+            className="w-56"
+          />
           <Button onClick={handleSave} disabled={isSaving}>
             {isSaving ? (
               <>
@@ -303,7 +356,7 @@ export function AssistantBuilder({
 
       {/* Tabs */}
       <Tabs defaultValue="basics" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="basics" className="flex items-center gap-2">
             <Bot className="h-4 w-4" />
             Basics
@@ -320,6 +373,10 @@ export function AssistantBuilder({
             <Settings className="h-4 w-4" />
             Settings
           </TabsTrigger>
+          <TabsTrigger value="history" className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </TabsTrigger>
         </TabsList>
 
         {/* Basics Tab */}
@@ -389,6 +446,7 @@ export function AssistantBuilder({
                     setPromptConfig(updates.promptConfig);
                   }}
                   variant="dashboard"
+                  language={languages[0]}
                 />
               ) : (
                 <>
@@ -463,6 +521,67 @@ export function AssistantBuilder({
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Languages</CardTitle>
+              <CardDescription>
+                Your assistant answers in its primary language and switches when a
+                caller speaks one of the others
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="primaryLanguage">Primary language</Label>
+                <Select
+                  value={languages[0]}
+                  onValueChange={(value) => {
+                    const primary = value as LanguageCode;
+                    setLanguages([primary, ...languages.filter((code) => code !== primary)]);
+                  }}
+                >
+                  <SelectTrigger id="primaryLanguage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGE_CODES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {SUPPORTED_LANGUAGES[code].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {LANGUAGE_CODES.filter((code) => code !== languages[0]).map((code) => (
+                <div key={code} className="flex items-center justify-between">
+                  <Label htmlFor={`language-${code}`}>
+                    Also speaks {SUPPORTED_LANGUAGES[code].name}{" "}
+                    <span className="text-muted-foreground">({SUPPORTED_LANGUAGES[code].nativeName})</span>
+                  </Label>
+                  <Switch
+                    id={`language-${code}`}
+                    checked={languages.includes(code)}
+                    onCheckedChange={(checked) =>
+                      setLanguages(
+                        checked ? [...languages, code] : languages.filter((other) => other !== code)
+                      )
+                    }
+                  />
+                </div>
+              ))}
+              {languages.length > 1 && !vapiSupportsLanguageSwitching(languages) && (
+                <p className="text-xs text-muted-foreground">
+                  Switching languages mid-call works on self-hosted numbers. Calls to Vapi
+                  numbers can only switch between English and Spanish, and otherwise stay
+                  in {SUPPORTED_LANGUAGES[languages[0]].name}.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Call summaries are written in the language set under Settings.
+              </p>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Transfers Tab */}
@@ -659,6 +778,20 @@ export function AssistantBuilder({
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* History Tab */}
+        <TabsContent value="history" className="space-y-6">
+          <RevisionHistory
+            assistantId={assistant.id}
+            refreshKey={historyKey}
+            onRolledBack={handleRolledBack}
+          />
+          <ExperimentPanel
+            assistantId={assistant.id}
+            refreshKey={historyKey}
+            onPromoted={handlePromoted}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
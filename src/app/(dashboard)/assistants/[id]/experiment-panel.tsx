@@ -0,0 +1,349 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { FlaskConical, Loader2, Plus, Square, Trash2, Trophy } from "lucide-react";
+import { ExperimentResultsTable } from "@/components/experiments/ExperimentResultsTable";
+import {
+  MAX_EXPERIMENT_VARIANTS,
+  variantLabel,
+  type ExperimentResult,
+} from "@/lib/assistants/experiments";
+
+interface RevisionOption {
+  id: string;
+  revision_number: number;
+  note: string | null;
+}
+
+interface VariantDraft {
+  revisionId: string;
+  weight: number;
+}
+
+interface ExperimentPanelProps {
+  assistantId: string;
+  /** Bumped by the builder after each save so new revisions can be picked */
+  refreshKey: number;
+  onPromoted: (revision: {
+    systemPrompt: string;
+    firstMessage: string;
+    promptConfig: Record<string, any> | null;
+  }) => void;
+}
+
+const EMPTY_VARIANTS: VariantDraft[] = [
+  { revisionId: "", weight: 50 },
+  { revisionId: "", weight: 50 },
+];
+
+export function ExperimentPanel({ assistantId, refreshKey, onPromoted }: ExperimentPanelProps) {
+  const { toast } = useToast();
+  const [experiments, setExperiments] = useState<ExperimentResult[]>([]);
+  const [revisions, setRevisions] = useState<RevisionOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [variants, setVariants] = useState<VariantDraft[]>(EMPTY_VARIANTS);
+
+  const load = useCallback(async () => {
+    try {
+      const [experimentsResponse, revisionsResponse] = await Promise.all([
+        fetch(`/api/v1/assistants/${assistantId}/experiments`),
+        fetch(`/api/v1/assistants/${assistantId}/revisions`),
+      ]);
+      if (!experimentsResponse.ok || !revisionsResponse.ok) throw new Error("Failed to load experiments");
+      setExperiments((await experimentsResponse.json()).experiments);
+      setRevisions((await revisionsResponse.json()).revisions);
+    } catch (error) {
+      console.error("[ExperimentPanel] Failed to load experiments:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to load experiments." });
+    } finally {
+      setLoading(false);
+    }
+  }, [assistantId, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const running = experiments.find((e) => e.status === "running");
+  const past = experiments.filter((e) => e.status === "stopped");
+
+  const updateVariant = (index: number, updates: Partial<VariantDraft>) => {
+    setVariants(variants.map((v, i) => (i === index ? { ...v, ...updates } : v)));
+  };
+
+  const startExperiment = async () => {
+    if (variants.some((v) => !v.revisionId)) {
+      toast({ variant: "destructive", title: "Error", description: "Pick a revision for every variant." });
+      return;
+    }
+
+    setBusy("start");
+    try {
+      const response = await fetch(`/api/v1/assistants/${assistantId}/experiments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, variants }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.details?.[0]?.message || data?.error || "Failed to start experiment");
+      }
+
+      toast({ title: "Experiment started", description: "New calls are now split between the variants." });
+      setName("");
+      setVariants(EMPTY_VARIANTS);
+      await load();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start experiment.",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const stopExperiment = async (experiment: ExperimentResult) => {
+    setBusy(experiment.id);
+    try {
+      const response = await fetch(
+        `/api/v1/assistants/${assistantId}/experiments/${experiment.id}/stop`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to stop experiment");
+      }
+
+      toast({ title: "Experiment stopped", description: "Every call gets the live prompt again." });
+      await load();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to stop experiment.",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const promoteVariant = async (experiment: ExperimentResult, variantId: string, label: string) => {
+    if (!confirm(`Make variant ${label} the live prompt? ${experiment.status === "running" ? "This also stops the experiment. " : ""}Unsaved changes in the builder will be lost.`)) {
+      return;
+    }
+
+    setBusy(experiment.id);
+    try {
+      const response = await fetch(
+        `/api/v1/assistants/${assistantId}/experiments/${experiment.id}/promote`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ variantId }),
+        }
+      );
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || "Failed to promote variant");
+
+      onPromoted({
+        systemPrompt: data.assistant.system_prompt,
+        firstMessage: data.assistant.first_message,
+        promptConfig: data.assistant.prompt_config,
+      });
+      toast({
+        title: "Winner promoted",
+        description: data.warning || `Variant ${label} is now the live prompt.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to promote variant.",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const renderExperiment = (experiment: ExperimentResult) => (
+    <div key={experiment.id} className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{experiment.name}</span>
+            <Badge variant={experiment.status === "running" ? "success" : "secondary"}>
+              {experiment.status === "running" ? "Running" : "Stopped"}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Started {format(new Date(experiment.startedAt), "MMM d, yyyy")}
+            {experiment.stoppedAt && `, stopped ${format(new Date(experiment.stoppedAt), "MMM d, yyyy")}`}
+          </p>
+        </div>
+        {experiment.status === "running" && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={busy !== null}
+            onClick={() => stopExperiment(experiment)}
+          >
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+        )}
+      </div>
+
+      <ExperimentResultsTable experiment={experiment} />
+
+      {!experiment.winnerVariantId && (
+        <div className="flex flex-wrap items-center gap-2">
+          {experiment.variants.map((variant) => (
+            <Button
+              key={variant.id}
+              variant="outline"
+              size="sm"
+              disabled={busy !== null}
+              onClick={() => promoteVariant(experiment, variant.id, variant.label)}
+            >
+              {busy === experiment.id ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Trophy className="h-4 w-4 mr-1" />
+              )}
+              Promote {variant.label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Experiments
+        </CardTitle>
+        <CardDescription>
+          Split inbound calls between revisions to test greetings or tone. Calls on Vapi numbers
+          always get the live prompt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {running ? (
+          renderExperiment(running)
+        ) : revisions.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            Save at least two revisions of the prompt to start an experiment.
+          </p>
+        ) : (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="experimentName">Experiment Name</Label>
+              <Input
+                id="experimentName"
+                placeholder="e.g., Shorter greeting"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+            {variants.map((variant, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label className="text-xs">Variant {variantLabel(index)}{index === 0 && " (control)"}</Label>
+                  <Select
+                    value={variant.revisionId}
+                    onValueChange={(revisionId) => updateVariant(index, { revisionId })}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue placeholder="Pick a revision" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={revision.id}>
+                          Revision {revision.revision_number}
+                          {revision.note && ` — ${revision.note}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="w-24 space-y-1">
+                  <Label className="text-xs">Weight</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(index, { weight: parseInt(e.target.value, 10) || 1 })}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={variants.length <= 2}
+                  onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={variants.length >= MAX_EXPERIMENT_VARIANTS}
+                onClick={() => setVariants([...variants, { revisionId: "", weight: 50 }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Variant
+              </Button>
+              <Button size="sm" disabled={busy !== null || !name.trim()} onClick={startExperiment}>
+                {busy === "start" && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Start Experiment
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {past.map(renderExperiment)}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { GitCompare, Loader2, RotateCcw } from "lucide-react";
+import {
+  diffSideBySide,
+  formatPromptConfig,
+  hasChanges,
+  type DiffCell,
+  type DiffRow,
+} from "@/lib/assistants/revisions";
+
+interface RevisionListItem {
+  id: string;
+  revision_number: number;
+  system_prompt: string;
+  prompt_config: Record<string, any> | null;
+  first_message: string | null;
+  note: string | null;
+  created_by: string | null;
+  restored_from_revision_id: string | null;
+  created_at: string;
+  author: { full_name: string | null; email: string } | null;
+}
+
+interface RevisionHistoryProps {
+  assistantId: string;
+  /** Bumped by the builder after each save so the list reloads */
+  refreshKey: number;
+  onRolledBack: (revision: {
+    systemPrompt: string;
+    firstMessage: string;
+    promptConfig: Record<string, any> | null;
+  }) => void;
+}
+
+const cellStyles: Record<DiffCell["type"], string> = {
+  unchanged: "",
+  removed: "bg-red-50 dark:bg-red-950/40",
+  added: "bg-green-50 dark:bg-green-950/30",
+};
+
+function DiffSide({ cell }: { cell: DiffCell | null }) {
+  return (
+    <div className={`flex min-w-0 ${cell ? cellStyles[cell.type] : "bg-muted/40"}`}>
+      <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">
+        {cell?.lineNumber ?? ""}
+      </span>
+      <span className="whitespace-pre-wrap break-words">{cell?.text ?? ""}</span>
+    </div>
+  );
+}
+
+function SideBySideDiff({ title, rows }: { title: string; rows: DiffRow[] }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h4 className="text-sm font-medium">{title}</h4>
+        {!hasChanges(rows) && <Badge variant="secondary">No changes</Badge>}
+      </div>
+      {rows.length > 0 && (
+        <div className="max-h-[480px] overflow-auto rounded-md border font-mono text-xs">
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-2 divide-x">
+              <DiffSide cell={row.left} />
+              <DiffSide cell={row.right} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Saves made with an API key (and the backfilled first revision) have no author
+function authorName(revision: RevisionListItem): string {
+  return revision.author?.full_name || revision.author?.email || "API or system";
+}
+
+export function RevisionHistory({ assistantId, refreshKey, onRolledBack }: RevisionHistoryProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<RevisionListItem[]>([]);
+  const [currentRevisionId, setCurrentRevisionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/v1/assistants/${assistantId}/revisions`);
+      if (!response.ok) throw new Error("Failed to load revisions");
+      const data = await response.json();
+      const list = data.revisions as RevisionListItem[];
+      setRevisions(list);
+      setCurrentRevisionId(data.currentRevisionId);
+      // Default to what the latest save changed
+      setCompareId(list[0]?.id ?? null);
+      setBaseId(list[1]?.id ?? null);
+    } catch (error) {
+      console.error("[RevisionHistory] Failed to load revisions:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to load prompt history." });
+    } finally {
+      setLoading(false);
+    }
+  }, [assistantId, toast]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, refreshKey]);
+
+  const base = revisions.find((r) => r.id === baseId) ?? null;
+  const compare = revisions.find((r) => r.id === compareId) ?? null;
+
+  const promptRows = useMemo(
+    () => (compare ? diffSideBySide(base?.system_prompt ?? "", compare.system_prompt) : []),
+    [base, compare]
+  );
+  const greetingRows = useMemo(
+    () => (compare ? diffSideBySide(base?.first_message ?? "", compare.first_message ?? "") : []),
+    [base, compare]
+  );
+  const configRows = useMemo(
+    () => (compare ? diffSideBySide(formatPromptConfig(base?.prompt_config), formatPromptConfig(compare.prompt_config)) : []),
+    [base, compare]
+  );
+
+  const showChanges = (revision: RevisionListItem) => {
+    const previous = revisions.find((r) => r.revision_number < revision.revision_number);
+    setCompareId(revision.id);
+    setBaseId(previous?.id ?? null);
+  };
+
+  const rollBack = async (revision: RevisionListItem) => {
+    if (!confirm(`Roll back to revision ${revision.revision_number}? Unsaved changes in the builder will be lost.`)) {
+      return;
+    }
+
+    setRollingBack(revision.id);
+    try {
+      const response = await fetch(
+        `/api/v1/assistants/${assistantId}/revisions/${revision.id}/rollback`,
+        { method: "POST" }
+      );
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || "Failed to roll back");
+
+      onRolledBack({
+        systemPrompt: data.assistant.system_prompt,
+        firstMessage: data.assistant.first_message,
+        promptConfig: data.assistant.prompt_config,
+      });
+      toast({
+        title: "Rolled back",
+        description: data.warning || `Revision ${revision.revision_number} is live again.`,
+      });
+      await loadRevisions();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to roll back.",
+      });
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Prompt History</CardTitle>
+          <CardDescription>
+            Every save keeps a copy of the prompt. Compare revisions or roll back to one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {revisions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No revisions yet. Save the assistant to start its history.</p>
+          )}
+          {revisions.map((revision) => {
+            const restoredFrom = revisions.find((r) => r.id === revision.restored_from_revision_id);
+            const isCurrent = revision.id === currentRevisionId;
+            return (
+              <div key={revision.id} className="flex items-center gap-3 rounded-md border px-3 py-2">
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium">Revision {revision.revision_number}</span>
+                    {isCurrent && <Badge variant="success">Live</Badge>}
+                    {restoredFrom && (
+                      <Badge variant="outline" className="text-xs font-normal">
+                        Restores revision {restoredFrom.revision_number}
+                      </Badge>
+                    )}
+                  </div>
+                  {revision.note && <p className="text-sm">{revision.note}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {authorName(revision)} · {format(new Date(revision.created_at), "MMM d, yyyy h:mm a")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => showChanges(revision)}>
+                    <GitCompare className="h-4 w-4 mr-1" />
+                    Changes
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isCurrent || rollingBack !== null}
+                    onClick={() => rollBack(revision)}
+                  >
+                    {rollingBack === revision.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    )}
+                    Roll back
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {compare && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare Revisions</CardTitle>
+            <CardDescription>The older revision is on the left</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <Select value={baseId ?? ""} onValueChange={setBaseId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Nothing (first revision)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((r) => (
+                    <SelectItem key={r.id} value={r.id}>
+                      Revision {r.revision_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={compare.id} onValueChange={setCompareId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((r) => (
+                    <SelectItem key={r.id} value={r.id}>
+                      Revision {r.revision_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <SideBySideDiff title="Greeting" rows={greetingRows} />
+            <SideBySideDiff title="Prompt" rows={promptRows} />
+            <SideBySideDiff title="Prompt Builder Config" rows={configRows} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,28 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { findSpecialHours, type SpecialHours } from "@/lib/calendar/special-hours";
+import { describeFrequency, type RecurrenceFrequency } from "@/lib/calendar/recurrence";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   CalendarDays,
@@ -26,6 +47,13 @@ import {
   FileText,
   AlertTriangle,
   Calendar as CalendarIcon,
+  CalendarClock,
+  Loader2,
+  Users,
+  Repeat,
+  XCircle,
+  CheckCircle2,
+  UserX,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { formatPhoneNumber } from "@/lib/utils";
@@ -54,6 +82,7 @@ interface Appointment {
   external_id: string | null;
   provider: string;
   event_type: string | null;
+  staff_member_id?: string | null;
   start_time: string;
   end_time: string;
   attendee_name: string;
@@ -62,6 +91,13 @@ interface Appointment {
   notes: string | null;
   status: "confirmed" | "cancelled" | "rescheduled" | "completed" | "no_show";
   metadata: Record<string, any>;
+  rescheduled_to_id?: string | null;
+  rescheduled_from_id?: string | null;
+  series_id?: string | null;
+  series_index?: number | null;
+  appointment_series?: { frequency: RecurrenceFrequency; occurrences: number } | null;
+  confirmed_by_caller_at?: string | null;
+  reschedule_requested_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -70,6 +106,11 @@ interface BusinessHours {
   [key: string]: { open: string; close: string } | null;
 }
 
+interface StaffMember {
+  id: string;
+  name: string;
+}
+
 interface Stats {
   today: number;
   thisWeek: number;
@@ -82,11 +123,18 @@ interface CalendarDashboardProps {
   initialAppointments: Appointment[];
   initialStats: Stats;
   businessHours: BusinessHours | null;
+  specialHours: SpecialHours[];
   timezone: string | null;
   businessName: string | null;
   calendarConnected: boolean;
+  staff: StaffMember[];
 }
 
+// "all", "unassigned" or a staff member id
+type StaffFilter = string;
+
+type CancelScope = "this" | "following";
+
 // --- Helpers ---
 
 const DAY_NAMES = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"];
@@ -110,13 +158,26 @@ function getVisibleDays(month: Date): Date[] {
 
 function getBusinessHoursForDay(
   hours: BusinessHours | null,
+  specialHours: SpecialHours[],
   date: Date
 ): { open: string; close: string } | null {
+  const special = findSpecialHours(specialHours, format(date, "yyyy-MM-dd"));
+  if (special) {
+    return special.open && special.close ? { open: special.open, close: special.close } : null;
+  }
   if (!hours) return null;
   const dayName = WEEKDAY_MAP[getDay(date)];
   return hours[dayName] ?? null;
 }
 
+/** "Repeats every week · 2 of 6" for an occurrence of a recurring series */
+function describeSeries(appt: Appointment): string | null {
+  if (!appt.series_id || !appt.appointment_series) return null;
+  const { frequency, occurrences } = appt.appointment_series;
+  const position = appt.series_index != null ? ` · ${appt.series_index + 1} of ${occurrences}` : "";
+  return `Repeats ${describeFrequency(frequency)}${position}`;
+}
+
 function getStatusVariant(
   status: Appointment["status"]
 ): "success" | "destructive" | "warning" | "secondary" {
@@ -150,6 +211,24 @@ function formatBusinessHoursTime(time: string): string {
   return `${hour12}:${m} ${ampm}`;
 }
 
+/**
+ * Format an ISO timestamp as a datetime-local input value ("2026-03-15T14:00")
+ * in the business timezone, which is how the reschedule API interprets it.
+ */
+function toDatetimeLocalValue(iso: string, timezone: string | null): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    ...(timezone && { timeZone: timezone }),
+  }).formatToParts(new Date(iso));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return `${get("year")}-${get("month")}-${get("day")}T${get("hour")}:${get("minute")}`;
+}
+
 function getAppointmentsForDate(
   appointments: Appointment[],
   date: Date
@@ -168,9 +247,11 @@ export function CalendarDashboard({
   initialAppointments,
   initialStats,
   businessHours,
+  specialHours,
   timezone,
   businessName,
   calendarConnected,
+  staff,
 }: CalendarDashboardProps) {
   const [currentMonth, setCurrentMonth] = useState(() => startOfMonth(new Date()));
   const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
@@ -179,52 +260,103 @@ export function CalendarDashboard({
   const [isLoading, setIsLoading] = useState(false);
   const [calendarView, setCalendarView] = useState<CalendarView>("days");
   const [yearRangeStart, setYearRangeStart] = useState(() => Math.floor(new Date().getFullYear() / 12) * 12);
+  const [rescheduleTarget, setRescheduleTarget] = useState<Appointment | null>(null);
+  const [rescheduleDatetime, setRescheduleDatetime] = useState("");
+  const [rescheduleReason, setRescheduleReason] = useState("");
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<Appointment | null>(null);
+  const [cancelScope, setCancelScope] = useState<CancelScope>("this");
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [staffFilter, setStaffFilter] = useState<StaffFilter>("all");
+  const [attendanceUpdating, setAttendanceUpdating] = useState<string | null>(null);
+  const { toast } = useToast();
 
   const visibleDays = useMemo(() => getVisibleDays(currentMonth), [currentMonth]);
 
+  const staffNames = useMemo(
+    () => new Map(staff.map((member) => [member.id, member.name])),
+    [staff]
+  );
+
+  const filteredAppointments = useMemo(() => {
+    if (staffFilter === "all") return appointments;
+    if (staffFilter === "unassigned") return appointments.filter((a) => !a.staff_member_id);
+    return appointments.filter((a) => a.staff_member_id === staffFilter);
+  }, [appointments, staffFilter]);
+
   const selectedDayAppointments = useMemo(() => {
     if (!selectedDate) return [];
-    return getAppointmentsForDate(appointments, selectedDate);
-  }, [appointments, selectedDate]);
+    return getAppointmentsForDate(filteredAppointments, selectedDate);
+  }, [filteredAppointments, selectedDate]);
+
+  // One column per staff member for the selected day, plus bookings made
+  // before staff were set up
+  const staffColumns = useMemo(() => {
+    if (staff.length === 0 || !selectedDate) return [];
+    const dayAppointments = getAppointmentsForDate(appointments, selectedDate).filter(
+      (a) => a.status !== "cancelled" && a.status !== "rescheduled"
+    );
+    const columns = staff
+      .filter((member) => staffFilter === "all" || staffFilter === member.id)
+      .map((member) => ({
+        key: member.id,
+        name: member.name,
+        appointments: dayAppointments.filter((a) => a.staff_member_id === member.id),
+      }));
+    const unassigned = dayAppointments.filter((a) => !a.staff_member_id);
+    if (unassigned.length > 0 && (staffFilter === "all" || staffFilter === "unassigned")) {
+      columns.push({ key: "unassigned", name: "Unassigned", appointments: unassigned });
+    }
+    return columns;
+  }, [appointments, staff, staffFilter, selectedDate]);
 
   const selectedDayHours = useMemo(() => {
     if (!selectedDate) return null;
-    return getBusinessHoursForDay(businessHours, selectedDate);
-  }, [businessHours, selectedDate]);
+    return getBusinessHoursForDay(businessHours, specialHours, selectedDate);
+  }, [businessHours, specialHours, selectedDate]);
+
+  const selectedDaySpecial = selectedDate
+    ? findSpecialHours(specialHours, format(selectedDate, "yyyy-MM-dd"))
+    : undefined;
 
   // Count appointments per day for dot indicators
   const appointmentCounts = useMemo(() => {
     const counts = new Map<string, number>();
-    for (const appt of appointments) {
-      if (appt.status === "cancelled") continue;
+    for (const appt of filteredAppointments) {
+      if (appt.status === "cancelled" || appt.status === "rescheduled") continue;
       const key = format(new Date(appt.start_time), "yyyy-MM-dd");
       counts.set(key, (counts.get(key) || 0) + 1);
     }
     return counts;
-  }, [appointments]);
+  }, [filteredAppointments]);
 
-  // Upcoming appointments (next 7 days, confirmed/rescheduled)
+  // Upcoming appointments (next 7 days). Rescheduled rows are the superseded
+  // originals — their replacement is a separate confirmed appointment.
   const upcomingAppointments = useMemo(() => {
     const now = new Date();
     const end = addDays(now, 7);
-    return appointments
+    return filteredAppointments
       .filter((a) => {
         const start = new Date(a.start_time);
         return (
           start >= now &&
           start <= end &&
-          (a.status === "confirmed" || a.status === "rescheduled")
+          a.status === "confirmed"
         );
       })
       .sort(
         (a, b) =>
           new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
       );
-  }, [appointments]);
+  }, [filteredAppointments]);
 
   async function goToMonth(targetMonth: Date) {
     setCurrentMonth(targetMonth);
     setCalendarView("days");
+    await loadMonth(targetMonth);
+  }
+
+  async function loadMonth(targetMonth: Date) {
     setIsLoading(true);
 
     try {
@@ -244,14 +376,127 @@ export function CalendarDashboard({
     }
   }
 
+  function openReschedule(appt: Appointment) {
+    setRescheduleTarget(appt);
+    setRescheduleDatetime(toDatetimeLocalValue(appt.start_time, timezone));
+    setRescheduleReason("");
+  }
+
+  async function handleReschedule() {
+    if (!rescheduleTarget || !rescheduleDatetime) return;
+    setIsRescheduling(true);
+
+    try {
+      const res = await fetch(
+        `/api/v1/calendar/appointments/${rescheduleTarget.id}/reschedule`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            datetime: `${rescheduleDatetime}:00`,
+            reason: rescheduleReason.trim() || undefined,
+          }),
+        }
+      );
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok || !body.success) {
+        throw new Error(body.message || body.error || "Failed to reschedule appointment");
+      }
+      toast({ title: "Rescheduled", description: body.message });
+      setRescheduleTarget(null);
+      await loadMonth(currentMonth);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to reschedule appointment";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsRescheduling(false);
+    }
+  }
+
+  function openCancel(appt: Appointment) {
+    setCancelTarget(appt);
+    setCancelScope("this");
+  }
+
+  async function handleCancel() {
+    if (!cancelTarget) return;
+    setIsCancelling(true);
+
+    try {
+      const res = await fetch(
+        `/api/v1/calendar/appointments/${cancelTarget.id}/cancel`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ scope: cancelScope }),
+        }
+      );
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok || !body.success) {
+        throw new Error(body.message || body.error || "Failed to cancel appointment");
+      }
+      toast({ title: "Cancelled", description: body.message });
+      setCancelTarget(null);
+      await loadMonth(currentMonth);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to cancel appointment";
+      toast({ variant: "destructive", title: "Error", description: message });
+      // A partly cancelled series still changed the calendar
+      await loadMonth(currentMonth);
+    } finally {
+      setIsCancelling(false);
+    }
+  }
+
+  async function handleAttendance(appt: Appointment, status: "completed" | "no_show") {
+    setAttendanceUpdating(appt.id);
+
+    try {
+      const res = await fetch(`/api/v1/calendar/appointments/${appt.id}/attendance`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || "Failed to update attendance");
+      }
+      setAppointments((prev) => prev.map((a) => (a.id === appt.id ? { ...a, status } : a)));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to update attendance";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setAttendanceUpdating(null);
+    }
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold">Calendar</h1>
-        <p className="text-muted-foreground">
-          View your appointment schedule and business hours
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Calendar</h1>
+          <p className="text-muted-foreground">
+            View your appointment schedule and business hours
+          </p>
+        </div>
+        {staff.length > 0 && (
+          <Select value={staffFilter} onValueChange={setStaffFilter}>
+            <SelectTrigger className="w-[200px]">
+              <Users className="mr-2 h-4 w-4 text-muted-foreground" />
+              <SelectValue placeholder="All staff" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All staff</SelectItem>
+              {staff.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.name}
+                </SelectItem>
+              ))}
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Stats Row */}
@@ -464,7 +709,8 @@ export function CalendarDashboard({
                     const dateKey = format(day, "yyyy-MM-dd");
                     const count = appointmentCounts.get(dateKey) || 0;
                     const isCurrentMonth = isSameMonth(day, currentMonth);
-                    const dayHours = getBusinessHoursForDay(businessHours, day);
+                    const dayHours = getBusinessHoursForDay(businessHours, specialHours, day);
+                    const special = findSpecialHours(specialHours, dateKey);
                     const isClosed = isCurrentMonth && dayHours === null;
                     const isSelected =
                       selectedDate && isSameDay(day, selectedDate);
@@ -473,6 +719,7 @@ export function CalendarDashboard({
                       <button
                         key={dateKey}
                         onClick={() => setSelectedDate(day)}
+                        title={special?.name}
                         className={cn(
                           "relative flex flex-col items-center justify-center py-2 h-14 text-sm transition-colors rounded-md",
                           !isCurrentMonth &&
@@ -535,9 +782,12 @@ export function CalendarDashboard({
                       Open{" "}
                       {formatBusinessHoursTime(selectedDayHours.open)} &ndash;{" "}
                       {formatBusinessHoursTime(selectedDayHours.close)}
+                      {selectedDaySpecial && ` (${selectedDaySpecial.name})`}
                     </span>
                   ) : (
-                    <Badge variant="secondary">Closed</Badge>
+                    <Badge variant="secondary">
+                      {selectedDaySpecial ? `Closed · ${selectedDaySpecial.name}` : "Closed"}
+                    </Badge>
                   )}
                 </div>
               </>
@@ -582,7 +832,28 @@ export function CalendarDashboard({
                           <span className="text-sm font-medium">
                             {appt.attendee_name}
                           </span>
+                          {appt.event_type && (
+                            <Badge variant="outline" className="text-xs">
+                              {appt.event_type}
+                            </Badge>
+                          )}
                         </div>
+                        {appt.staff_member_id && staffNames.has(appt.staff_member_id) && (
+                          <div className="flex items-center gap-2">
+                            <Users className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                            <span className="text-sm text-muted-foreground">
+                              with {staffNames.get(appt.staff_member_id)}
+                            </span>
+                          </div>
+                        )}
+                        {describeSeries(appt) && (
+                          <div className="flex items-center gap-2">
+                            <Repeat className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                            <span className="text-sm text-muted-foreground">
+                              {describeSeries(appt)}
+                            </span>
+                          </div>
+                        )}
                         {appt.attendee_phone && (
                           <div className="flex items-center gap-2">
                             <Phone className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
@@ -607,7 +878,70 @@ export function CalendarDashboard({
                             </span>
                           </div>
                         )}
+                        {appt.status === "confirmed" && appt.reschedule_requested_at ? (
+                          <div className="flex items-center gap-2">
+                            <CalendarClock className="h-3.5 w-3.5 text-amber-600 shrink-0" />
+                            <span className="text-sm text-amber-600">
+                              Asked to reschedule
+                            </span>
+                          </div>
+                        ) : appt.status === "confirmed" && appt.confirmed_by_caller_at ? (
+                          <div className="flex items-center gap-2">
+                            <CheckCircle2 className="h-3.5 w-3.5 text-green-600 shrink-0" />
+                            <span className="text-sm text-muted-foreground">
+                              Caller confirmed
+                            </span>
+                          </div>
+                        ) : null}
                       </div>
+                      {(appt.status === "confirmed" || appt.status === "completed" || appt.status === "no_show") &&
+                        new Date(appt.start_time) <= new Date() && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant={appt.status === "completed" ? "default" : "outline"}
+                              size="sm"
+                              className="flex-1"
+                              disabled={attendanceUpdating === appt.id}
+                              onClick={() => handleAttendance(appt, "completed")}
+                            >
+                              <CheckCircle2 className="mr-2 h-3.5 w-3.5" />
+                              Attended
+                            </Button>
+                            <Button
+                              variant={appt.status === "no_show" ? "destructive" : "outline"}
+                              size="sm"
+                              className="flex-1"
+                              disabled={attendanceUpdating === appt.id}
+                              onClick={() => handleAttendance(appt, "no_show")}
+                            >
+                              <UserX className="mr-2 h-3.5 w-3.5" />
+                              No-show
+                            </Button>
+                          </div>
+                        )}
+                      {appt.status === "confirmed" &&
+                        new Date(appt.start_time) > new Date() && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => openReschedule(appt)}
+                            >
+                              <CalendarClock className="mr-2 h-3.5 w-3.5" />
+                              Reschedule
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => openCancel(appt)}
+                            >
+                              <XCircle className="mr-2 h-3.5 w-3.5" />
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
                     </div>
                   ))}
                 </div>
@@ -617,6 +951,50 @@ export function CalendarDashboard({
         </Card>
       </div>
 
+      {/* Staff columns for the selected day */}
+      {staffColumns.length > 0 && selectedDate && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">By Staff</CardTitle>
+            <CardDescription>{format(selectedDate, "EEEE, MMMM d")}</CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <div
+              className="grid gap-3"
+              style={{ gridTemplateColumns: `repeat(${staffColumns.length}, minmax(160px, 1fr))` }}
+            >
+              {staffColumns.map((column) => (
+                <div key={column.key} className="space-y-2 min-w-0">
+                  <div className="flex items-center justify-between border-b pb-2">
+                    <span className="text-sm font-medium truncate">{column.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {column.appointments.length}
+                    </span>
+                  </div>
+                  {column.appointments.length === 0 ? (
+                    <p className="text-xs text-muted-foreground py-2">Free all day</p>
+                  ) : (
+                    column.appointments.map((appt) => (
+                      <div key={appt.id} className="rounded-md border p-2 space-y-0.5">
+                        <p className="text-xs font-medium text-muted-foreground">
+                          {formatTimeRange(appt.start_time, appt.end_time)}
+                        </p>
+                        <p className="text-sm font-medium truncate">{appt.attendee_name}</p>
+                        {appt.event_type && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {appt.event_type}
+                          </p>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Upcoming Appointments */}
       <Card>
         <CardHeader>
@@ -652,6 +1030,13 @@ export function CalendarDashboard({
                     </p>
                     <p className="text-xs text-muted-foreground">
                       {formatTimeRange(appt.start_time, appt.end_time)}
+                      {appt.event_type && ` · ${appt.event_type}`}
+                      {appt.staff_member_id &&
+                        staffNames.has(appt.staff_member_id) &&
+                        ` · ${staffNames.get(appt.staff_member_id)}`}
+                      {appt.series_id && (
+                        <Repeat className="ml-1.5 inline h-3 w-3 align-[-2px]" aria-label="Recurring" />
+                      )}
                     </p>
                   </div>
                   <Badge variant={getStatusVariant(appt.status)}>
@@ -663,6 +1048,109 @@ export function CalendarDashboard({
           )}
         </CardContent>
       </Card>
+
+      {/* Reschedule dialog */}
+      <Dialog
+        open={!!rescheduleTarget}
+        onOpenChange={(open) => !open && !isRescheduling && setRescheduleTarget(null)}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Reschedule Appointment</DialogTitle>
+            <DialogDescription>
+              Move {rescheduleTarget?.attendee_name}&apos;s appointment to a new time.
+              The caller gets an SMS with the new time.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="reschedule-datetime">New date and time</Label>
+              <Input
+                id="reschedule-datetime"
+                type="datetime-local"
+                value={rescheduleDatetime}
+                onChange={(e) => setRescheduleDatetime(e.target.value)}
+              />
+              {timezone && (
+                <p className="text-xs text-muted-foreground">
+                  In your business timezone ({timezone})
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reschedule-reason">Reason (optional)</Label>
+              <Input
+                id="reschedule-reason"
+                placeholder="e.g., Caller asked for a later slot"
+                value={rescheduleReason}
+                onChange={(e) => setRescheduleReason(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRescheduleTarget(null)}
+              disabled={isRescheduling}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReschedule}
+              disabled={isRescheduling || !rescheduleDatetime}
+            >
+              {isRescheduling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reschedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel dialog */}
+      <Dialog
+        open={!!cancelTarget}
+        onOpenChange={(open) => !open && !isCancelling && setCancelTarget(null)}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Cancel Appointment</DialogTitle>
+            <DialogDescription>
+              Cancel {cancelTarget?.attendee_name}&apos;s appointment on{" "}
+              {cancelTarget && format(new Date(cancelTarget.start_time), "EEEE, MMMM d 'at' h:mm a")}.
+            </DialogDescription>
+          </DialogHeader>
+          {cancelTarget?.series_id && (
+            <RadioGroup
+              value={cancelScope}
+              onValueChange={(value) => setCancelScope(value as CancelScope)}
+              className="space-y-2 py-2"
+            >
+              <Label htmlFor="cancel-this" className="flex items-center gap-3 font-normal">
+                <RadioGroupItem value="this" id="cancel-this" />
+                This appointment only
+              </Label>
+              <Label htmlFor="cancel-following" className="flex items-center gap-3 font-normal">
+                <RadioGroupItem value="following" id="cancel-following" />
+                This and all following appointments in the series
+              </Label>
+            </RadioGroup>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCancelTarget(null)}
+              disabled={isCancelling}
+            >
+              Keep
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={isCancelling}>
+              {isCancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancel {cancelScope === "following" ? "Appointments" : "Appointment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -57,6 +57,7 @@ export default async function CalendarPage() {
     appointmentsResult,
     orgResult,
     calendarResult,
+    staffResult,
     todayCount,
     weekCount,
     monthCount,
@@ -64,7 +65,7 @@ export default async function CalendarPage() {
     // Appointments for visible grid range
     (supabase as any)
       .from("appointments")
-      .select("*")
+      .select("*, appointment_series(frequency, occurrences)")
       .eq("organization_id", organizationId)
       .gte("start_time", gridStart.toISOString())
       .lte("start_time", gridEnd.toISOString())
@@ -73,7 +74,7 @@ export default async function CalendarPage() {
     // Organization details
     (supabase as any)
       .from("organizations")
-      .select("business_hours, timezone, business_name")
+      .select("business_hours, special_hours, timezone, business_name")
       .eq("id", organizationId)
       .single(),
 
@@ -85,12 +86,20 @@ export default async function CalendarPage() {
       .eq("is_active", true)
       .limit(1),
 
+    // Staff for the per-person filter and columns
+    (supabase as any)
+      .from("staff_members")
+      .select("id, name")
+      .eq("organization_id", organizationId)
+      .eq("is_active", true)
+      .order("name", { ascending: true }),
+
     // Stats: today
     (supabase as any)
       .from("appointments")
       .select("id", { count: "exact", head: true })
       .eq("organization_id", organizationId)
-      .neq("status", "cancelled")
+      .not("status", "in", "(cancelled,rescheduled)")
       .gte("start_time", todayStart.toISOString())
       .lte("start_time", todayEnd.toISOString()),
 
@@ -99,7 +108,7 @@ export default async function CalendarPage() {
       .from("appointments")
       .select("id", { count: "exact", head: true })
       .eq("organization_id", organizationId)
-      .neq("status", "cancelled")
+      .not("status", "in", "(cancelled,rescheduled)")
       .gte("start_time", thisWeekStart.toISOString())
       .lte("start_time", thisWeekEnd.toISOString()),
 
@@ -108,7 +117,7 @@ export default async function CalendarPage() {
       .from("appointments")
       .select("id", { count: "exact", head: true })
       .eq("organization_id", organizationId)
-      .neq("status", "cancelled")
+      .not("status", "in", "(cancelled,rescheduled)")
       .gte("start_time", monthStart.toISOString())
       .lte("start_time", monthEnd.toISOString()),
   ]);
@@ -129,9 +138,11 @@ export default async function CalendarPage() {
       initialAppointments={appointments}
       initialStats={stats}
       businessHours={org?.business_hours ?? null}
+      specialHours={org?.special_hours ?? []}
       timezone={org?.timezone ?? null}
       businessName={org?.business_name ?? null}
       calendarConnected={!!calendarConnected}
+      staff={staffResult.data || []}
     />
   );
 }
@@ -14,6 +14,7 @@ import {
   ShieldAlert,
   FileText,
   Mic,
+  Voicemail,
   BarChart3,
   Info,
 } from "lucide-react";
@@ -23,6 +24,7 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { formatPhoneNumber, formatDuration, formatCurrency } from "@/lib/utils";
+import { DEFAULT_LANGUAGE, languageName } from "@/lib/languages/languages";
 
 interface Call {
   id: string;
@@ -30,6 +32,7 @@ interface Call {
   status: string;
   caller_phone: string | null;
   caller_name: string | null;
+  contact_id: string | null;
   duration_seconds: number | null;
   recording_url: string | null;
   summary: string | null;
@@ -40,11 +43,17 @@ interface Call {
   ended_reason: string | null;
   sentiment: string | null;
   collected_data: Record<string, unknown> | null;
+  has_invalid_collected_data: boolean | null;
+  invalid_collected_fields: string[] | null;
   metadata: Record<string, unknown> | null;
   is_spam: boolean | null;
   spam_score: number | null;
+  caller_rule_action: "block" | "allow" | "transfer" | null;
+  language: string | null;
   created_at: string;
   assistants: { id: string; name: string } | null;
+  /** The prompt revision that answered the call */
+  assistant_revisions: { revision_number: number } | null;
   phone_numbers: {
     id: string;
     phone_number: string;
@@ -79,9 +88,17 @@ function getSentimentVariant(
   return "secondary";
 }
 
-export function CallDetail({ call }: { call: Call }) {
+interface CallDetailProps {
+  call: Call;
+  /** The call's recording: Vapi's URL, or a signed, expiring URL for self-hosted calls */
+  recordingUrl: string | null;
+  voicemailUrl: string | null;
+}
+
+export function CallDetail({ call, recordingUrl, voicemailUrl }: CallDetailProps) {
   const successEval = call.metadata?.successEvaluation as string | undefined;
   const collectedEntries = Object.entries(call.collected_data || {});
+  const invalidCollectedFields = new Set(call.invalid_collected_fields || []);
 
   return (
     <div className="space-y-6">
@@ -116,6 +133,15 @@ export function CallDetail({ call }: { call: Call }) {
               Spam
             </Badge>
           )}
+          {call.caller_rule_action && (
+            <Badge variant="outline">
+              {call.caller_rule_action === "block"
+                ? "Blocked by caller rule"
+                : call.caller_rule_action === "allow"
+                ? "Allowed by caller rule"
+                : "Transferred by caller rule"}
+            </Badge>
+          )}
         </div>
 
         <p className="text-muted-foreground mt-1 flex items-center gap-2 flex-wrap">
@@ -137,6 +163,20 @@ export function CallDetail({ call }: { call: Call }) {
               <span>{formatPhoneNumber(call.caller_phone)}</span>
             </>
           )}
+          {call.contact_id && (
+            <>
+              <span>&middot;</span>
+              <Link href={`/contacts/${call.contact_id}`} className="hover:underline">
+                View contact
+              </Link>
+            </>
+          )}
+          {call.language && call.language !== DEFAULT_LANGUAGE && (
+            <>
+              <span>&middot;</span>
+              <span>{languageName(call.language)}</span>
+            </>
+          )}
           <span>&middot;</span>
           <span>{format(new Date(call.created_at), "MMMM d, yyyy h:mm a")}</span>
         </p>
@@ -259,8 +299,13 @@ export function CallDetail({ call }: { call: Call }) {
               <CardTitle className="flex items-center gap-2">
                 <Info className="h-5 w-5" />
                 Collected Information
+                {call.has_invalid_collected_data && (
+                  <Badge variant="destructive" className="ml-auto">
+                    Needs review
+                  </Badge>
+                )}
                 {collectedEntries.length > 0 && (
-                  <Badge variant="secondary" className="ml-auto">
+                  <Badge variant="secondary" className={call.has_invalid_collected_data ? "" : "ml-auto"}>
                     {collectedEntries.length} field
                     {collectedEntries.length !== 1 ? "s" : ""}
                   </Badge>
@@ -273,14 +318,19 @@ export function CallDetail({ call }: { call: Call }) {
                   {collectedEntries.map(([key, value]) => (
                     <div
                       key={key}
-                      className="rounded-md border p-3"
+                      className={`rounded-md border p-3 ${invalidCollectedFields.has(key) ? "border-destructive" : ""}`}
                     >
                       <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
                         {formatFieldLabel(key)}
                       </p>
                       <p className="mt-1 text-sm font-medium">
-                        {String(value ?? "-")}
+                        {Array.isArray(value) ? value.join(", ") : String(value ?? "-")}
                       </p>
+                      {invalidCollectedFields.has(key) && (
+                        <p className="mt-1 text-xs text-destructive">
+                          Not one of the allowed answers
+                        </p>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -325,7 +375,7 @@ export function CallDetail({ call }: { call: Call }) {
         {/* Right Column */}
         <div className="space-y-6">
           {/* Recording */}
-          {call.recording_url && (
+          {recordingUrl && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -334,7 +384,24 @@ export function CallDetail({ call }: { call: Call }) {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <audio controls className="w-full" src={call.recording_url}>
+                <audio controls className="w-full" src={recordingUrl}>
+                  Your browser does not support the audio element.
+                </audio>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Voicemail (self-hosted calls) */}
+          {voicemailUrl && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Voicemail className="h-5 w-5" />
+                  Voicemail
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <audio controls className="w-full" src={voicemailUrl}>
                   Your browser does not support the audio element.
                 </audio>
               </CardContent>
@@ -410,6 +477,11 @@ export function CallDetail({ call }: { call: Call }) {
                 <p className="text-sm text-muted-foreground mb-1">Assistant</p>
                 <p className="text-sm">
                   {call.assistants?.name || "-"}
+                  {call.assistant_revisions && (
+                    <span className="text-muted-foreground">
+                      {" "}· revision {call.assistant_revisions.revision_number}
+                    </span>
+                  )}
                 </p>
               </div>
 
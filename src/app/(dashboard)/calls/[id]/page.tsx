@@ -1,6 +1,9 @@
 import { Metadata } from "next";
 import { notFound, redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createVoicemailUrl } from "@/lib/voicemail/voicemail";
+import { createRecordingUrl } from "@/lib/recordings/recordings";
 import { CallDetail } from "./call-detail";
 
 export const metadata: Metadata = {
@@ -42,6 +45,7 @@ export default async function CallDetailPage({
       `
       *,
       assistants (id, name),
+      assistant_revisions (revision_number),
       phone_numbers (id, phone_number, friendly_name)
     `
     )
@@ -53,5 +57,19 @@ export default async function CallDetailPage({
     notFound();
   }
 
-  return <CallDetail call={call} />;
+  // Self-hosted recordings and voicemails are in private buckets; sign
+  // short-lived URLs for playback
+  const admin = createAdminClient();
+  const [recordingUrl, voicemailUrl] = await Promise.all([
+    call.recording_path ? createRecordingUrl(admin, call.recording_path) : null,
+    call.voicemail_path ? createVoicemailUrl(admin, call.voicemail_path) : null,
+  ]);
+
+  return (
+    <CallDetail
+      call={call}
+      recordingUrl={recordingUrl ?? call.recording_url}
+      voicemailUrl={voicemailUrl}
+    />
+  );
 }
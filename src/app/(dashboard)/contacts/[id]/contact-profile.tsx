@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, X } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+
+interface ContactProfileProps {
+  contactId: string;
+  initialName: string | null;
+  initialEmail: string | null;
+  initialTags: string[];
+}
+
+export function ContactProfile({ contactId, initialName, initialEmail, initialTags }: ContactProfileProps) {
+  const [name, setName] = useState(initialName ?? "");
+  const [email, setEmail] = useState(initialEmail ?? "");
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const [newTag, setNewTag] = useState("");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddingNote, setIsAddingNote] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const saveProfile = async (nextTags: string[] = tags) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/v1/contacts/${contactId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name || null, email: email || null, tags: nextTags }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error === "Validation error" ? "Check the email address" : data.error || "Failed to save contact");
+      }
+
+      const updated = await response.json();
+      setTags(updated.tags);
+      router.refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save contact. Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (!tag) return;
+    setNewTag("");
+    saveProfile([...tags, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    saveProfile(tags.filter((t) => t !== tag));
+  };
+
+  const addNote = async () => {
+    if (!note.trim()) return;
+    setIsAddingNote(true);
+    try {
+      const response = await fetch(`/api/v1/contacts/${contactId}/notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: note }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to add note");
+      }
+
+      setNote("");
+      router.refresh();
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to add note. Please try again.",
+      });
+    } finally {
+      setIsAddingNote(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contact-name">Name</Label>
+            <Input id="contact-name" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="contact-email">Email</Label>
+            <Input id="contact-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+          <Button size="sm" disabled={isSaving} onClick={() => saveProfile()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-tag">Tags</Label>
+            <div className="flex flex-wrap gap-1">
+              {tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  {tag}
+                  <button type="button" aria-label={`Remove ${tag}`} disabled={isSaving} onClick={() => removeTag(tag)}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <Input
+              id="contact-tag"
+              value={newTag}
+              maxLength={30}
+              placeholder="Add a tag and press Enter"
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addTag();
+                }
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add a Note</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Textarea
+            value={note}
+            maxLength={2000}
+            rows={3}
+            placeholder="Only your team sees notes"
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Button size="sm" disabled={isAddingNote || !note.trim()} onClick={addNote}>
+            {isAddingNote && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Note
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
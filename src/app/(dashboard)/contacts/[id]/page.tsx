@@ -0,0 +1,223 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, CalendarDays, MessageSquare, PhoneCall, StickyNote } from "lucide-react";
+import { formatDuration, formatPhoneNumber } from "@/lib/utils";
+import { format } from "date-fns";
+import { buildContactTimeline, type TimelineItem } from "@/lib/contacts/contacts";
+import { ContactProfile } from "./contact-profile";
+
+export const metadata: Metadata = {
+  title: "Contact | Hola Recep",
+  description: "A caller's calls, appointments, texts and notes",
+};
+
+export default async function ContactDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    redirect("/onboarding");
+  }
+
+  const orgId = membership.organization_id as string;
+
+  const { data: contact, error } = await (supabase as any)
+    .from("contacts")
+    .select("id, phone, name, email, tags, call_count, first_seen_at, last_call_at")
+    .eq("id", id)
+    .eq("organization_id", orgId)
+    .single();
+
+  if (error || !contact) {
+    notFound();
+  }
+
+  const [callsResult, appointmentsResult, conversationsResult, notesResult, optOutResult] = await Promise.all([
+    (supabase as any)
+      .from("calls")
+      .select("id, created_at, status, summary, duration_seconds")
+      .eq("contact_id", id)
+      .order("created_at", { ascending: false })
+      .limit(100),
+    (supabase as any)
+      .from("appointments")
+      .select("id, created_at, status, start_time, event_type")
+      .eq("contact_id", id)
+      .order("start_time", { ascending: false })
+      .limit(100),
+    (supabase as any)
+      .from("sms_conversations")
+      .select("id")
+      .eq("contact_id", id),
+    (supabase as any)
+      .from("contact_notes")
+      .select("id, created_at, body")
+      .eq("contact_id", id)
+      .order("created_at", { ascending: false }),
+    (supabase as any)
+      .from("caller_sms_optouts")
+      .select("opted_out_at")
+      .eq("organization_id", orgId)
+      .eq("phone_number", contact.phone)
+      .maybeSingle(),
+  ]);
+
+  const conversationIds = ((conversationsResult.data ?? []) as { id: string }[]).map((c) => c.id);
+  const { data: messages } = conversationIds.length > 0
+    ? await (supabase as any)
+        .from("sms_messages")
+        .select("id, created_at, direction, author, body")
+        .in("conversation_id", conversationIds)
+        .order("created_at", { ascending: false })
+        .limit(100)
+    : { data: [] };
+
+  const appointments = appointmentsResult.data ?? [];
+  const now = new Date();
+  const upcoming = appointments
+    .filter((a: { status: string; start_time: string }) =>
+      ["confirmed", "pending"].includes(a.status) && new Date(a.start_time) > now)
+    .sort((a: { start_time: string }, b: { start_time: string }) => a.start_time.localeCompare(b.start_time))[0];
+
+  const timeline = buildContactTimeline({
+    calls: callsResult.data ?? [],
+    appointments,
+    messages: messages ?? [],
+    notes: notesResult.data ?? [],
+  });
+
+  return (
+    <div className="space-y-6">
+      <Link href="/contacts" className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Contacts
+      </Link>
+
+      <div>
+        <h1 className="text-2xl font-bold">{contact.name || "Unknown caller"}</h1>
+        <p className="text-muted-foreground">
+          {formatPhoneNumber(contact.phone)} · {contact.call_count} {contact.call_count === 1 ? "call" : "calls"}
+          {contact.first_seen_at && ` · first called ${format(new Date(contact.first_seen_at), "MMM d, yyyy")}`}
+        </p>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {upcoming && (
+            <Badge variant="secondary">
+              Next appointment {format(new Date(upcoming.start_time), "MMM d, h:mm a")}
+            </Badge>
+          )}
+          {optOutResult.data && <Badge variant="destructive">Opted out of texts</Badge>}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+            <CardDescription>Calls, appointments, texts and notes, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {timeline.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">Nothing here yet.</p>
+            ) : (
+              <ol className="space-y-4">
+                {timeline.map((item) => (
+                  <TimelineEntry key={`${item.type}-${item.id}`} item={item} />
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        <ContactProfile
+          contactId={contact.id}
+          initialName={contact.name}
+          initialEmail={contact.email}
+          initialTags={contact.tags ?? []}
+        />
+      </div>
+    </div>
+  );
+}
+
+function TimelineEntry({ item }: { item: TimelineItem }) {
+  const when = format(new Date(item.at), "MMM d, yyyy h:mm a");
+
+  switch (item.type) {
+    case "call":
+      return (
+        <li className="flex gap-3">
+          <PhoneCall className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="space-y-1">
+            <p className="text-sm">
+              <Link href={`/calls/${item.id}`} className="font-medium hover:underline">Call</Link>
+              {" · "}{item.status}
+              {item.durationSeconds ? ` · ${formatDuration(item.durationSeconds)}` : ""}
+            </p>
+            {item.summary && <p className="text-sm text-muted-foreground">{item.summary}</p>}
+            <p className="text-xs text-muted-foreground">{when}</p>
+          </div>
+        </li>
+      );
+    case "appointment":
+      return (
+        <li className="flex gap-3">
+          <CalendarDays className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="space-y-1">
+            <p className="text-sm">
+              <span className="font-medium">{item.service || "Appointment"}</span>
+              {" for "}{format(new Date(item.startTime), "MMM d, yyyy h:mm a")}
+              {" · "}{item.status.replace("_", " ")}
+            </p>
+            <p className="text-xs text-muted-foreground">Booked {when}</p>
+          </div>
+        </li>
+      );
+    case "message":
+      return (
+        <li className="flex gap-3">
+          <MessageSquare className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="space-y-1">
+            <p className="text-sm">
+              <span className="font-medium">
+                {item.direction === "inbound" ? "Text from caller" : item.author === "staff" ? "Text from team" : "Text from AI"}
+              </span>
+            </p>
+            <p className="whitespace-pre-wrap text-sm text-muted-foreground">{item.body}</p>
+            <p className="text-xs text-muted-foreground">{when}</p>
+          </div>
+        </li>
+      );
+    case "note":
+      return (
+        <li className="flex gap-3">
+          <StickyNote className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="space-y-1">
+            <p className="whitespace-pre-wrap text-sm">{item.body}</p>
+            <p className="text-xs text-muted-foreground">Note · {when}</p>
+          </div>
+        </li>
+      );
+  }
+}
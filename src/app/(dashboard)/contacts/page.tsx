@@ -0,0 +1,153 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Contact as ContactIcon } from "lucide-react";
+import { formatPhoneNumber } from "@/lib/utils";
+import { format } from "date-fns";
+
+export const metadata: Metadata = {
+  title: "Contacts | Hola Recep",
+  description: "Everyone who has called or texted your business",
+};
+
+interface Contact {
+  id: string;
+  phone: string;
+  name: string | null;
+  email: string | null;
+  tags: string[];
+  call_count: number;
+  last_call_at: string | null;
+}
+
+export default async function ContactsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string }>;
+}) {
+  const { q } = await searchParams;
+  const search = (q ?? "").trim();
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    redirect("/onboarding");
+  }
+
+  const organizationId = membership.organization_id as string;
+
+  let query = (supabase as any)
+    .from("contacts")
+    .select("id, phone, name, email, tags, call_count, last_call_at", { count: "exact" })
+    .eq("organization_id", organizationId)
+    .order("last_call_at", { ascending: false, nullsFirst: false })
+    .limit(100);
+
+  if (search) {
+    // Names match anywhere; numbers match on digits so any format works
+    const digits = search.replace(/\D/g, "");
+    const safe = search.replace(/[%,()]/g, "");
+    query = digits.length >= 3
+      ? query.or(`name.ilike.%${safe}%,phone_key.like.%${digits.slice(-9)}%`)
+      : query.ilike("name", `%${safe}%`);
+  }
+
+  const { data, count } = await query;
+  const contacts = (data ?? []) as Contact[];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Contacts</h1>
+        <p className="text-muted-foreground">
+          Everyone who has called your AI receptionist, with their calls, appointments and texts
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Contacts</CardTitle>
+          <CardDescription>{count ?? contacts.length} contacts</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form>
+            <Input name="q" defaultValue={search} placeholder="Search by name or phone number" className="max-w-sm" />
+          </form>
+
+          {contacts.length === 0 ? (
+            <div className="py-12 text-center">
+              <ContactIcon className="mx-auto h-8 w-8 text-muted-foreground" />
+              <p className="mt-2 text-sm text-muted-foreground">
+                {search ? "No contacts match your search." : "Contacts are added automatically after each call."}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead>Calls</TableHead>
+                  <TableHead>Last Call</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts.map((contact) => (
+                  <TableRow key={contact.id}>
+                    <TableCell>
+                      <Link href={`/contacts/${contact.id}`} className="font-medium hover:underline">
+                        {contact.name || "Unknown caller"}
+                      </Link>
+                      {contact.email && (
+                        <p className="text-xs text-muted-foreground">{contact.email}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatPhoneNumber(contact.phone)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {contact.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{contact.call_count}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {contact.last_call_at ? format(new Date(contact.last_call_at), "MMM d, yyyy") : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
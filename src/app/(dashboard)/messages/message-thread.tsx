@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Bot, Loader2, Send, UserRound } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/components/ui/use-toast";
+
+export interface ThreadMessage {
+  id: string;
+  direction: "inbound" | "outbound";
+  author: "caller" | "ai" | "staff";
+  body: string;
+  created_at: string;
+}
+
+interface MessageThreadProps {
+  conversationId: string;
+  status: "active" | "handed_off" | "closed";
+  messages: ThreadMessage[];
+}
+
+export function MessageThread({ conversationId, status, messages }: MessageThreadProps) {
+  const [reply, setReply] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleSend = async () => {
+    if (!reply.trim()) return;
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/v1/conversations/${conversationId}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: reply }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to send text");
+      }
+
+      setReply("");
+      router.refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send text. Please try again.",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const updateStatus = async (next: MessageThreadProps["status"]) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/v1/conversations/${conversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: next }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update conversation");
+      }
+
+      toast({
+        title: next === "active" ? "Handed back to AI" : next === "closed" ? "Conversation closed" : "You're replying",
+        description:
+          next === "active"
+            ? "Your AI receptionist will answer this caller's next text."
+            : next === "closed"
+              ? "A new text from this caller will reopen it."
+              : "Your AI won't reply to this caller until you hand the conversation back.",
+      });
+
+      router.refresh();
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update conversation. Please try again.",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[480px] space-y-3 overflow-y-auto">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={cn("flex", message.direction === "outbound" ? "justify-end" : "justify-start")}
+          >
+            <div
+              className={cn(
+                "max-w-[75%] rounded-lg px-3 py-2 text-sm",
+                message.direction === "outbound"
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted"
+              )}
+            >
+              <p className="whitespace-pre-wrap">{message.body}</p>
+              <p className="mt-1 flex items-center gap-1 text-xs opacity-70">
+                {message.author === "ai" && <Bot className="h-3 w-3" />}
+                {message.author === "staff" && <UserRound className="h-3 w-3" />}
+                {message.author === "ai" ? "AI · " : message.author === "staff" ? "Team · " : ""}
+                {format(new Date(message.created_at), "MMM d, h:mm a")}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          placeholder="Text the caller from your business number..."
+          maxLength={1600}
+          rows={3}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-2">
+            {status === "active" ? (
+              <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => updateStatus("handed_off")}>
+                Take over from AI
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => updateStatus("active")}>
+                <Bot className="mr-2 h-4 w-4" />
+                Hand back to AI
+              </Button>
+            )}
+            {status !== "closed" && (
+              <Button variant="ghost" size="sm" disabled={isUpdating} onClick={() => updateStatus("closed")}>
+                Close
+              </Button>
+            )}
+          </div>
+          <Button size="sm" disabled={isSending || !reply.trim()} onClick={handleSend}>
+            {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Send
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
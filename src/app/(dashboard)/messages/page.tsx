@@ -0,0 +1,166 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare } from "lucide-react";
+import { cn, formatPhoneNumber } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { MessageThread, type ThreadMessage } from "./message-thread";
+
+export const metadata: Metadata = {
+  title: "Messages | Hola Recep",
+  description: "Text conversations with your callers",
+};
+
+interface Conversation {
+  id: string;
+  caller_phone: string;
+  status: "active" | "handed_off" | "closed";
+  handoff_reason: string | null;
+  last_message_at: string;
+  last_message_preview: string | null;
+}
+
+const statusLabels: Record<Conversation["status"], string> = {
+  active: "AI replying",
+  handed_off: "Needs reply",
+  closed: "Closed",
+};
+
+export default async function MessagesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ c?: string }>;
+}) {
+  const { c: selectedId } = await searchParams;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    redirect("/onboarding");
+  }
+
+  const organizationId = membership.organization_id as string;
+
+  const { data: conversationRows } = await (supabase as any)
+    .from("sms_conversations")
+    .select("id, caller_phone, status, handoff_reason, last_message_at, last_message_preview")
+    .eq("organization_id", organizationId)
+    .order("last_message_at", { ascending: false })
+    .limit(50);
+
+  const conversations = (conversationRows ?? []) as Conversation[];
+  const selected = conversations.find((c) => c.id === selectedId) ?? conversations[0] ?? null;
+
+  const { data: messageRows } = selected
+    ? await (supabase as any)
+        .from("sms_messages")
+        .select("id, direction, author, body, created_at")
+        .eq("conversation_id", selected.id)
+        .order("created_at", { ascending: true })
+        .limit(200)
+    : { data: [] };
+
+  const needsReply = conversations.filter((c) => c.status === "handed_off").length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Messages</h1>
+        <p className="text-muted-foreground">
+          Text conversations your AI receptionist is having with callers
+          {needsReply > 0 && ` · ${needsReply} waiting on your team`}
+        </p>
+      </div>
+
+      {conversations.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <MessageSquare className="mx-auto h-8 w-8 text-muted-foreground" />
+            <p className="mt-2 text-sm text-muted-foreground">
+              No texts yet. When callers text your number, your AI replies and the conversation shows up here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-[320px_1fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle>Conversations</CardTitle>
+              <CardDescription>{conversations.length} callers</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1 p-2">
+              {conversations.map((conversation) => (
+                <Link
+                  key={conversation.id}
+                  href={`/messages?c=${conversation.id}`}
+                  className={cn(
+                    "block rounded-md px-3 py-2 hover:bg-muted",
+                    selected?.id === conversation.id && "bg-muted"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{formatPhoneNumber(conversation.caller_phone)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="truncate text-sm text-muted-foreground">
+                      {conversation.last_message_preview}
+                    </p>
+                    {conversation.status === "handed_off" && (
+                      <Badge variant="destructive" className="shrink-0">
+                        {statusLabels.handed_off}
+                      </Badge>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {formatPhoneNumber(selected.caller_phone)}
+                  <Badge variant={selected.status === "handed_off" ? "destructive" : "secondary"}>
+                    {statusLabels[selected.status]}
+                  </Badge>
+                </CardTitle>
+                {selected.status === "handed_off" && selected.handoff_reason && (
+                  <CardDescription>{selected.handoff_reason}</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <MessageThread
+                  key={selected.id}
+                  conversationId={selected.id}
+                  status={selected.status}
+                  messages={(messageRows ?? []) as ThreadMessage[]}
+                />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, Copy, KeyRound, RefreshCw, Trash2, AlertTriangle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/security/api-key-scopes";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface ApiKeysSettingsProps {
+  canManage: boolean;
+}
+
+export function ApiKeysSettings({ canManage }: ApiKeysSettingsProps) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["calls:read"]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+  const [rotatingId, setRotatingId] = useState<string | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<ApiKey | null>(null);
+  const { toast } = useToast();
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/v1/api-keys");
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to load");
+      }
+      setKeys(await response.json());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load API keys";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || scopes.length === 0) return;
+    setIsCreating(true);
+
+    try {
+      const response = await fetch("/api/v1/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to create API key");
+      }
+      const data = await response.json();
+      setRevealedKey(data.key);
+      loadKeys();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to create API key";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRotate = async (id: string) => {
+    setRotatingId(id);
+    try {
+      const response = await fetch(`/api/v1/api-keys/${id}/rotate`, { method: "POST" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to rotate API key");
+      }
+      const data = await response.json();
+      setShowCreate(true);
+      setRevealedKey(data.key);
+      loadKeys();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to rotate API key";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setRotatingId(null);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const response = await fetch(`/api/v1/api-keys/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to revoke API key");
+      }
+      setKeys((prev) => prev.filter((k) => k.id !== id));
+      toast({ title: "Revoked", description: "The API key can no longer be used" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to revoke API key";
+      toast({ variant: "destructive", title: "Error", description: message });
+    }
+  };
+
+  const closeCreate = () => {
+    setName("");
+    setScopes(["calls:read"]);
+    setRevealedKey(null);
+    setShowCreate(false);
+  };
+
+  const copyKey = () => {
+    if (revealedKey) {
+      navigator.clipboard.writeText(revealedKey);
+      toast({ title: "Copied!", description: "API key copied to clipboard" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Your API Keys</CardTitle>
+          <CardDescription>
+            Send the key as <code className="text-xs">Authorization: Bearer hr_...</code> when
+            calling /api/v1/calls, /api/v1/calendar/appointments or /api/v1/assistants.
+          </CardDescription>
+        </div>
+        {canManage && (
+          <Button onClick={() => setShowCreate(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Key
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex h-32 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : keys.length === 0 ? (
+          <div className="py-12 text-center">
+            <KeyRound className="mx-auto h-8 w-8 text-muted-foreground" />
+            <p className="mt-2 text-sm text-muted-foreground">
+              No API keys yet.
+              {canManage ? " Create one to start using the REST API." : " Ask an admin to create one."}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {keys.map((key) => (
+              <div key={key.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{key.name}</p>
+                    <code className="text-xs text-muted-foreground">{key.key_prefix}…</code>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {key.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="text-xs">
+                        {API_KEY_SCOPES.find((s) => s.value === scope)?.label ?? scope}
+                      </Badge>
+                    ))}
+                    {key.expires_at && (
+                      <Badge variant="secondary" className="text-xs">
+                        Expires {format(new Date(key.expires_at), "MMM d, HH:mm")}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created {format(new Date(key.created_at), "MMM d, yyyy")} ·{" "}
+                    {key.last_used_at
+                      ? `Last used ${formatDistanceToNow(new Date(key.last_used_at), { addSuffix: true })}`
+                      : "Never used"}
+                  </p>
+                </div>
+
+                {canManage && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRotate(key.id)}
+                      disabled={rotatingId === key.id}
+                      title="Rotate key"
+                    >
+                      {rotatingId === key.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRevokeTarget(key)}
+                      title="Revoke key"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create / reveal dialog */}
+      <Dialog open={showCreate} onOpenChange={(open) => !open && closeCreate()}>
+        <DialogContent className="sm:max-w-[500px]">
+          {revealedKey ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Copy Your API Key</DialogTitle>
+                <DialogDescription>
+                  Save this key now — you won&apos;t be able to see it again.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="rounded-lg bg-muted p-4">
+                  <Label className="text-xs text-muted-foreground">API Key</Label>
+                  <div className="mt-1 flex items-center justify-between gap-2">
+                    <code className="text-sm font-mono break-all">{revealedKey}</code>
+                    <Button variant="ghost" size="icon" onClick={copyKey} className="shrink-0">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-amber-600">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  If you rotated a key, the old one keeps working for 24 hours.
+                </div>
+              </div>
+              <DialogFooter>
+                <Button onClick={closeCreate}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>Create API Key</DialogTitle>
+                <DialogDescription>
+                  Give the key a name and only the access it needs.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="api-key-name">Name</Label>
+                  <Input
+                    id="api-key-name"
+                    placeholder="e.g., Back office sync"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  <div className="space-y-3">
+                    {API_KEY_SCOPES.map((scope) => (
+                      <div key={scope.value} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`scope-${scope.value}`}
+                          checked={scopes.includes(scope.value)}
+                          onCheckedChange={() => toggleScope(scope.value)}
+                          className="mt-0.5"
+                        />
+                        <label htmlFor={`scope-${scope.value}`} className="cursor-pointer">
+                          <span className="text-sm font-medium">{scope.label}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {scope.description}
+                          </span>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={closeCreate}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={isCreating || !name.trim() || scopes.length === 0}
+                >
+                  {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke confirmation dialog */}
+      <Dialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke API Key</DialogTitle>
+            <DialogDescription>
+              Scripts using &ldquo;{revokeTarget?.name}&rdquo; will stop working immediately.
+              This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (revokeTarget) {
+                  handleRevoke(revokeTarget.id);
+                  setRevokeTarget(null);
+                }
+              }}
+            >
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { ApiKeysSettings } from "./api-keys-settings";
+
+export const metadata: Metadata = {
+  title: "API Keys | Hola Recep",
+  description: "Manage API keys for the Hola Recep REST API",
+};
+
+export default async function ApiKeysPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    redirect("/onboarding");
+  }
+
+  const canManage = ["owner", "admin"].includes(membership.role);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">API Keys</h1>
+        <p className="text-muted-foreground">
+          Let your own scripts and back-office tools read calls, book
+          appointments and manage assistants through the REST API.
+        </p>
+      </div>
+
+      <ApiKeysSettings canManage={canManage} />
+    </div>
+  );
+}
@@ -29,6 +29,8 @@ import {
   getTimezonesForCountry,
 } from "@/lib/country-config";
 import { industryOptions } from "@/lib/templates";
+import type { SpecialHours } from "@/lib/calendar/special-hours";
+import { SpecialHoursEditor } from "./special-hours-editor";
 
 const DAYS = [
   { key: "monday", label: "Monday" },
@@ -65,6 +67,7 @@ interface BusinessSettingsFormProps {
     address: string;
     timezone: string;
     businessHours: BusinessHours | null;
+    specialHours: SpecialHours[];
     defaultAppointmentDuration: number;
   };
 }
@@ -95,6 +98,7 @@ export function BusinessSettingsForm({
       sunday: null,
     }
   );
+  const [specialHours, setSpecialHours] = useState<SpecialHours[]>(initialData.specialHours);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const { toast } = useToast();
   const supabase = createClient();
@@ -166,6 +170,7 @@ export function BusinessSettingsForm({
           business_address: address,
           timezone,
           business_hours: businessHours,
+          special_hours: specialHours,
           default_appointment_duration: appointmentDuration,
         })
         .eq("id", organizationId);
@@ -398,6 +403,15 @@ export function BusinessSettingsForm({
 
         <Separator />
 
+        {/* Holidays & Special Hours */}
+        <SpecialHoursEditor
+          country={country}
+          value={specialHours}
+          onChange={setSpecialHours}
+        />
+
+        <Separator />
+
         {/* Appointment Duration */}
         <div className="space-y-2">
           <Label className="flex items-center gap-2">
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
 import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Calendar,
   Check,
@@ -28,8 +29,38 @@ import {
   ExternalLink,
   Trash2,
   RefreshCw,
+  Link2,
 } from "lucide-react";
 
+type CalendarProviderId = "cal_com" | "google_calendar" | "microsoft_outlook";
+type OAuthProviderId = Exclude<CalendarProviderId, "cal_com">;
+
+const PROVIDER_OPTIONS: { value: CalendarProviderId; label: string; description: string }[] = [
+  {
+    value: "cal_com",
+    label: "Cal.com",
+    description: "Book into a Cal.com event type using its availability rules.",
+  },
+  {
+    value: "google_calendar",
+    label: "Google Calendar",
+    description: "Check free/busy and add events to your Google Workspace calendar.",
+  },
+  {
+    value: "microsoft_outlook",
+    label: "Microsoft Outlook",
+    description: "Check free/busy and add events to your Outlook / Microsoft 365 calendar.",
+  },
+];
+
+const OAUTH_ERROR_MESSAGES: Record<string, string> = {
+  not_configured: "This calendar provider hasn't been set up on the server yet.",
+  access_denied: "Access was not granted. Please try again and approve calendar access.",
+  invalid_state: "The connection request expired. Please try again.",
+  exchange_failed: "We couldn't complete the connection. Please try again.",
+  save_failed: "We couldn't save the connection. Please try again.",
+};
+
 interface CalendarIntegration {
   id: string;
   calendar_id: string | null;
@@ -51,17 +82,38 @@ interface EventType {
   length: number;
 }
 
+interface OAuthIntegration {
+  id: string;
+  provider: OAuthProviderId;
+  is_active: boolean;
+  settings: { accountEmail?: string | null } | null;
+}
+
 interface CalendarSettingsProps {
   organizationId: string;
   initialIntegration: CalendarIntegration | null;
+  oauthIntegrations: OAuthIntegration[];
+  oauthConfigured: Record<OAuthProviderId, boolean>;
+  oauthResult: { connected: string | null; error: string | null };
   assistants: Assistant[];
 }
 
 export function CalendarSettings({
   organizationId,
   initialIntegration,
+  oauthIntegrations,
+  oauthConfigured,
+  oauthResult,
   assistants,
 }: CalendarSettingsProps) {
+  const activeProvider: CalendarProviderId | null = initialIntegration?.is_active
+    ? "cal_com"
+    : oauthIntegrations.find((i) => i.is_active)?.provider ?? null;
+  const [selectedProvider, setSelectedProvider] = useState<CalendarProviderId>(
+    activeProvider ?? "cal_com"
+  );
+  const [disconnectingProvider, setDisconnectingProvider] = useState<OAuthProviderId | null>(null);
+
   // API key is not passed from server - user must enter it fresh for security
   const [apiKey, setApiKey] = useState("");
   const [selectedEventType, setSelectedEventType] = useState(
@@ -83,6 +135,24 @@ export function CalendarSettings({
   const router = useRouter();
   const { toast } = useToast();
 
+  // Report the result of an OAuth round-trip (?connected= / ?error=)
+  useEffect(() => {
+    if (oauthResult.connected) {
+      const label = PROVIDER_OPTIONS.find((p) => p.value === oauthResult.connected)?.label;
+      toast({
+        title: "Calendar Connected",
+        description: `${label ?? "Your calendar"} is now used for appointment booking.`,
+      });
+    } else if (oauthResult.error) {
+      toast({
+        variant: "destructive",
+        title: "Connection Failed",
+        description: OAUTH_ERROR_MESSAGES[oauthResult.error] || "Could not connect your calendar.",
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // Test the API key and fetch event types
   const testConnection = async () => {
     if (!apiKey) {
@@ -236,186 +306,351 @@ export function CalendarSettings({
     }
   };
 
+  const disconnectOAuthProvider = async (provider: OAuthProviderId) => {
+    const label = PROVIDER_OPTIONS.find((p) => p.value === provider)?.label;
+    if (!confirm(`Are you sure you want to disconnect ${label}? Your AI will no longer be able to book appointments in it.`)) {
+      return;
+    }
+
+    setDisconnectingProvider(provider);
+    try {
+      const response = await fetch("/api/v1/calendar/integration", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ organizationId, provider }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: "Calendar Disconnected",
+          description: `${label} integration has been removed.`,
+        });
+        router.refresh();
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: data.error || "Failed to disconnect calendar.",
+        });
+      }
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to disconnect calendar integration.",
+      });
+    } finally {
+      setDisconnectingProvider(null);
+    }
+  };
+
+  const selectedOAuth =
+    selectedProvider === "cal_com"
+      ? null
+      : oauthIntegrations.find((i) => i.provider === selectedProvider) ?? null;
+  const selectedLabel = PROVIDER_OPTIONS.find((p) => p.value === selectedProvider)?.label;
+
   return (
     <div className="space-y-6">
-      {/* Connection Status */}
+      {/* Provider chooser */}
       <Card>
         <CardHeader>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Calendar className="h-5 w-5" />
-              <CardTitle>Cal.com Integration</CardTitle>
-            </div>
-            {isConnected && (
-              <Badge variant="success" className="bg-green-100 text-green-800">
-                <Check className="h-3 w-3 mr-1" />
-                Connected
-              </Badge>
-            )}
-          </div>
+          <CardTitle>Calendar Provider</CardTitle>
           <CardDescription>
-            Connect your Cal.com account to enable automatic appointment booking
-            during calls.
+            Choose where your AI receptionist checks availability and books
+            appointments. Only one provider is active at a time.
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          {/* API Key */}
-          <div className="space-y-2">
-            <Label htmlFor="apiKey">Cal.com API Key</Label>
-            <div className="flex gap-2">
-              <Input
-                id="apiKey"
-                type="password"
-                placeholder={isConnected && !apiKey ? "API key configured (enter new key to update)" : "cal_live_..."}
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="flex-1"
-              />
-              <Button
-                variant="outline"
-                onClick={testConnection}
-                disabled={isTesting || !apiKey}
+        <CardContent>
+          <RadioGroup
+            value={selectedProvider}
+            onValueChange={(value) => setSelectedProvider(value as CalendarProviderId)}
+            className="grid gap-3 md:grid-cols-3"
+          >
+            {PROVIDER_OPTIONS.map((option) => (
+              <Label
+                key={option.value}
+                htmlFor={`provider-${option.value}`}
+                className={`cursor-pointer rounded-lg border p-4 transition-all hover:border-primary ${
+                  selectedProvider === option.value
+                    ? "border-primary bg-primary/5 ring-2 ring-primary"
+                    : ""
+                }`}
               >
-                {isTesting ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
+                <RadioGroupItem
+                  value={option.value}
+                  id={`provider-${option.value}`}
+                  className="sr-only"
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold">{option.label}</span>
+                  {activeProvider === option.value && (
+                    <Badge variant="success" className="text-xs">
+                      Active
+                    </Badge>
+                  )}
+                </div>
+                <p className="mt-1 text-sm font-normal text-muted-foreground">
+                  {option.description}
+                </p>
+              </Label>
+            ))}
+          </RadioGroup>
+        </CardContent>
+      </Card>
+
+      {selectedProvider !== "cal_com" ? (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                <CardTitle>{selectedLabel} Integration</CardTitle>
+              </div>
+              {selectedOAuth?.is_active && (
+                <Badge variant="success" className="bg-green-100 text-green-800">
+                  <Check className="h-3 w-3 mr-1" />
+                  Connected
+                </Badge>
+              )}
+            </div>
+            <CardDescription>
+              Sign in with {selectedLabel} to let your AI read your free/busy
+              times and add booked appointments to your primary calendar.
+              Appointments are offered within your business hours.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selectedOAuth?.settings?.accountEmail && (
+              <div className="p-3 bg-muted rounded-lg">
+                <p className="text-sm">
+                  Connected as <strong>{selectedOAuth.settings.accountEmail}</strong>
+                  {!selectedOAuth.is_active && " (inactive — reconnect to use it again)"}
+                </p>
+              </div>
+            )}
+
+            {!oauthConfigured[selectedProvider] && (
+              <p className="text-sm text-muted-foreground">
+                {selectedLabel} sign-in isn&apos;t available yet. Ask your
+                administrator to configure the OAuth app credentials.
+              </p>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button asChild={oauthConfigured[selectedProvider]} disabled={!oauthConfigured[selectedProvider]}>
+                {oauthConfigured[selectedProvider] ? (
+                  <a href={`/api/v1/calendar/oauth/${selectedProvider}`}>
+                    <Link2 className="h-4 w-4 mr-2" />
+                    {selectedOAuth ? "Reconnect" : `Connect ${selectedLabel}`}
+                  </a>
                 ) : (
-                  <RefreshCw className="h-4 w-4" />
+                  <span>
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Connect {selectedLabel}
+                  </span>
                 )}
-                {isTesting ? "Testing..." : "Test"}
               </Button>
+
+              {selectedOAuth && (
+                <Button
+                  variant="destructive"
+                  onClick={() => disconnectOAuthProvider(selectedOAuth.provider)}
+                  disabled={disconnectingProvider === selectedOAuth.provider}
+                >
+                  {disconnectingProvider === selectedOAuth.provider ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-2" />
+                  )}
+                  Disconnect
+                </Button>
+              )}
             </div>
-            <p className="text-xs text-muted-foreground">
-              {isConnected && !apiKey
-                ? "Your API key is stored securely. Enter a new key to update it."
-                : <>Get your API key from{" "}
-                  <a
-                    href="https://app.cal.com/settings/developer/api-keys"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-primary hover:underline"
-                  >
-                    Cal.com Settings
-                    <ExternalLink className="inline h-3 w-3 ml-1" />
-                  </a>
-                </>
-              }
-            </p>
-          </div>
-
-          {/* Account Info */}
-          {accountInfo && (
-            <div className="p-3 bg-muted rounded-lg">
-              <p className="text-sm">
-                Connected as <strong>{accountInfo.username}</strong> (
-                {accountInfo.email})
-              </p>
+          </CardContent>
+        </Card>
+      ) : (
+        /* Connection Status */
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                <CardTitle>Cal.com Integration</CardTitle>
+              </div>
+              {isConnected && (
+                <Badge variant="success" className="bg-green-100 text-green-800">
+                  <Check className="h-3 w-3 mr-1" />
+                  Connected
+                </Badge>
+              )}
             </div>
-          )}
-
-          {/* Event Type Selection */}
-          {eventTypes.length > 0 && (
+            <CardDescription>
+              Connect your Cal.com account to enable automatic appointment booking
+              during calls.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* API Key */}
             <div className="space-y-2">
-              <Label htmlFor="eventType">Event Type for Bookings</Label>
-              <Select
-                value={selectedEventType}
-                onValueChange={setSelectedEventType}
-              >
-                <SelectTrigger id="eventType">
-                  <SelectValue placeholder="Select an event type" />
-                </SelectTrigger>
-                <SelectContent>
-                  {eventTypes.map((et) => (
-                    <SelectItem key={et.id} value={et.id.toString()}>
-                      {et.title} ({et.length} min)
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Label htmlFor="apiKey">Cal.com API Key</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="apiKey"
+                  type="password"
+                  placeholder={isConnected && !apiKey ? "API key configured (enter new key to update)" : "cal_live_..."}
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  onClick={testConnection}
+                  disabled={isTesting || !apiKey}
+                >
+                  {isTesting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                  {isTesting ? "Testing..." : "Test"}
+                </Button>
+              </div>
               <p className="text-xs text-muted-foreground">
-                This is the type of appointment your AI will book when callers
-                request an appointment.
+                {isConnected && !apiKey
+                  ? "Your API key is stored securely. Enter a new key to update it."
+                  : <>Get your API key from{" "}
+                    <a
+                      href="https://app.cal.com/settings/developer/api-keys"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline"
+                    >
+                      Cal.com Settings
+                      <ExternalLink className="inline h-3 w-3 ml-1" />
+                    </a>
+                  </>
+                }
               </p>
             </div>
-          )}
 
-          {/* Assistant Selection */}
-          {assistants.length > 0 && (
+            {/* Account Info */}
+            {accountInfo && (
+              <div className="p-3 bg-muted rounded-lg">
+                <p className="text-sm">
+                  Connected as <strong>{accountInfo.username}</strong> (
+                  {accountInfo.email})
+                </p>
+              </div>
+            )}
+
+            {/* Event Type Selection */}
+            {eventTypes.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="eventType">Event Type for Bookings</Label>
+                <Select
+                  value={selectedEventType}
+                  onValueChange={setSelectedEventType}
+                >
+                  <SelectTrigger id="eventType">
+                    <SelectValue placeholder="Select an event type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {eventTypes.map((et) => (
+                      <SelectItem key={et.id} value={et.id.toString()}>
+                        {et.title} ({et.length} min)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  This is the type of appointment your AI will book when callers
+                  request an appointment.
+                </p>
+              </div>
+            )}
+
+            {/* Assistant Selection */}
+            {assistants.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="assistant">Link to Assistant (Optional)</Label>
+                <Select
+                  value={selectedAssistant}
+                  onValueChange={setSelectedAssistant}
+                >
+                  <SelectTrigger id="assistant">
+                    <SelectValue placeholder="All assistants" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All assistants</SelectItem>
+                    {assistants.map((a) => (
+                      <SelectItem key={a.id} value={a.id}>
+                        {a.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Optionally link this calendar to a specific assistant. If not
+                  selected, all assistants can use this calendar.
+                </p>
+              </div>
+            )}
+
+            {/* Booking URL */}
             <div className="space-y-2">
-              <Label htmlFor="assistant">Link to Assistant (Optional)</Label>
-              <Select
-                value={selectedAssistant}
-                onValueChange={setSelectedAssistant}
-              >
-                <SelectTrigger id="assistant">
-                  <SelectValue placeholder="All assistants" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All assistants</SelectItem>
-                  {assistants.map((a) => (
-                    <SelectItem key={a.id} value={a.id}>
-                      {a.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Label htmlFor="bookingUrl">Public Booking URL (Optional)</Label>
+              <Input
+                id="bookingUrl"
+                type="url"
+                placeholder="https://cal.com/yourname/appointment"
+                value={bookingUrl}
+                onChange={(e) => setBookingUrl(e.target.value)}
+              />
               <p className="text-xs text-muted-foreground">
-                Optionally link this calendar to a specific assistant. If not
-                selected, all assistants can use this calendar.
+                Your public Cal.com booking URL. This can be shared with callers
+                if they prefer to book online.
               </p>
             </div>
-          )}
-
-          {/* Booking URL */}
-          <div className="space-y-2">
-            <Label htmlFor="bookingUrl">Public Booking URL (Optional)</Label>
-            <Input
-              id="bookingUrl"
-              type="url"
-              placeholder="https://cal.com/yourname/appointment"
-              value={bookingUrl}
-              onChange={(e) => setBookingUrl(e.target.value)}
-            />
-            <p className="text-xs text-muted-foreground">
-              Your public Cal.com booking URL. This can be shared with callers
-              if they prefer to book online.
-            </p>
-          </div>
-
-          {/* Actions */}
-          <div className="flex gap-2 pt-4">
-            <Button
-              onClick={saveIntegration}
-              disabled={isLoading || !apiKey || !selectedEventType}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Saving...
-                </>
-              ) : isConnected ? (
-                "Update Integration"
-              ) : (
-                "Connect Calendar"
-              )}
-            </Button>
 
-            {isConnected && (
+            {/* Actions */}
+            <div className="flex gap-2 pt-4">
               <Button
-                variant="destructive"
-                onClick={deleteIntegration}
-                disabled={isDeleting}
+                onClick={saveIntegration}
+                disabled={isLoading || !apiKey || !selectedEventType}
               >
-                {isDeleting ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : isConnected ? (
+                  "Update Integration"
                 ) : (
-                  <Trash2 className="h-4 w-4 mr-2" />
+                  "Connect Calendar"
                 )}
-                Disconnect
               </Button>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+
+              {isConnected && (
+                <Button
+                  variant="destructive"
+                  onClick={deleteIntegration}
+                  disabled={isDeleting}
+                >
+                  {isDeleting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-2" />
+                  )}
+                  Disconnect
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* How It Works */}
       <Card>
@@ -425,10 +660,12 @@ export function CalendarSettings({
         <CardContent>
           <ol className="list-decimal list-inside space-y-2 text-sm text-muted-foreground">
             <li>
-              Connect your Cal.com account by entering your API key above.
+              Choose a provider, then connect Cal.com with an API key or sign
+              in with Google or Microsoft.
             </li>
             <li>
-              Select which event type should be used for appointment bookings.
+              For Cal.com, select which event type should be used for
+              appointment bookings.
             </li>
             <li>
               When callers ask to schedule an appointment, your AI receptionist
@@ -436,7 +673,7 @@ export function CalendarSettings({
             </li>
             <li>
               The AI will collect the caller&apos;s information and book the
-              appointment directly in your Cal.com calendar.
+              appointment directly in your calendar.
             </li>
             <li>
               Both you and the caller will receive confirmation notifications.
@@ -1,6 +1,7 @@
 import { Metadata } from "next";
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
+import { isOAuthProviderConfigured } from "@/lib/calendar/providers/oauth";
 import { CalendarSettings } from "./calendar-settings";
 
 export const metadata: Metadata = {
@@ -8,7 +9,12 @@ export const metadata: Metadata = {
   description: "Connect your calendar for automatic appointment booking",
 };
 
-export default async function CalendarSettingsPage() {
+export default async function CalendarSettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ connected?: string; error?: string }>;
+}) {
+  const { connected, error } = await searchParams;
   const supabase = await createClient();
 
   const {
@@ -30,13 +36,17 @@ export default async function CalendarSettingsPage() {
     redirect("/onboarding");
   }
 
-  // Get existing calendar integration (excluding sensitive fields)
-  const { data: integration } = await (supabase as any)
+  // Get existing calendar integrations (excluding sensitive fields)
+  const { data: integrations } = await (supabase as any)
     .from("calendar_integrations")
-    .select("id, calendar_id, booking_url, assistant_id, is_active, settings")
-    .eq("organization_id", membership.organization_id)
-    .eq("provider", "cal_com")
-    .single();
+    .select("id, provider, calendar_id, booking_url, assistant_id, is_active, settings")
+    .eq("organization_id", membership.organization_id);
+
+  const integration =
+    (integrations || []).find((i: { provider: string }) => i.provider === "cal_com") ?? null;
+  const oauthIntegrations = (integrations || []).filter(
+    (i: { provider: string }) => i.provider === "google_calendar" || i.provider === "microsoft_outlook"
+  );
 
   // Get assistants for the assistant selector
   const { data: assistants } = await (supabase as any)
@@ -50,14 +60,20 @@ export default async function CalendarSettingsPage() {
       <div>
         <h1 className="text-2xl font-semibold">Calendar Integration</h1>
         <p className="text-muted-foreground">
-          Connect your Cal.com account to let your AI receptionist book
-          appointments automatically.
+          Connect Cal.com, Google Calendar or Outlook to let your AI
+          receptionist book appointments automatically.
         </p>
       </div>
 
       <CalendarSettings
         organizationId={membership.organization_id}
         initialIntegration={integration}
+        oauthIntegrations={oauthIntegrations}
+        oauthConfigured={{
+          google_calendar: isOAuthProviderConfigured("google_calendar"),
+          microsoft_outlook: isOAuthProviderConfigured("microsoft_outlook"),
+        }}
+        oauthResult={{ connected: connected ?? null, error: error ?? null }}
         assistants={assistants || []}
       />
     </div>
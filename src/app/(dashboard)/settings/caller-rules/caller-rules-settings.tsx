@@ -0,0 +1,396 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, Pencil, Trash2, ShieldCheck } from "lucide-react";
+import type { CallerRule, CallerRuleAction, CallerRuleMatchType } from "@/lib/spam/caller-rules";
+
+interface RuleForm {
+  match_type: CallerRuleMatchType;
+  phone_pattern: string;
+  action: CallerRuleAction;
+  transfer_to_phone: string;
+  transfer_to_name: string;
+  label: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  match_type: "exact",
+  phone_pattern: "",
+  action: "block",
+  transfer_to_phone: "",
+  transfer_to_name: "",
+  label: "",
+};
+
+const ACTION_LABELS: Record<CallerRuleAction, string> = {
+  block: "Block",
+  allow: "Allow",
+  transfer: "Transfer",
+};
+
+interface CallerRulesSettingsProps {
+  canManage: boolean;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => ({}));
+  return body.error || fallback;
+}
+
+function describeRule(rule: CallerRule): string {
+  const target = rule.match_type === "prefix" ? `Numbers starting ${rule.phone_pattern}` : rule.phone_pattern;
+  if (rule.action === "block") return `${target} are rejected`;
+  if (rule.action === "allow") return `${target} are answered without spam checks`;
+  return `${target} go straight to ${rule.transfer_to_name || rule.transfer_to_phone}`;
+}
+
+export function CallerRulesSettings({ canManage }: CallerRulesSettingsProps) {
+  const [rules, setRules] = useState<CallerRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<CallerRule | "new" | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<CallerRule | null>(null);
+  const { toast } = useToast();
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/v1/caller-rules");
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to load caller rules"));
+      }
+      setRules(await response.json());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load caller rules";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const openEditor = (rule: CallerRule | "new") => {
+    setForm(
+      rule === "new"
+        ? EMPTY_FORM
+        : {
+            match_type: rule.match_type,
+            phone_pattern: rule.phone_pattern,
+            action: rule.action,
+            transfer_to_phone: rule.transfer_to_phone || "",
+            transfer_to_name: rule.transfer_to_name || "",
+            label: rule.label || "",
+          }
+    );
+    setEditing(rule);
+  };
+
+  const canSave =
+    !!form.phone_pattern.trim() && (form.action !== "transfer" || !!form.transfer_to_phone.trim());
+
+  const handleSave = async () => {
+    if (!editing || !canSave) return;
+    setIsSaving(true);
+
+    try {
+      const isNew = editing === "new";
+      const response = await fetch(isNew ? "/api/v1/caller-rules" : `/api/v1/caller-rules/${editing.id}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          match_type: form.match_type,
+          phone_pattern: form.phone_pattern.trim(),
+          action: form.action,
+          transfer_to_phone: form.action === "transfer" ? form.transfer_to_phone.replace(/[\s()-]/g, "") : null,
+          transfer_to_name: form.action === "transfer" ? form.transfer_to_name.trim() || null : null,
+          label: form.label.trim() || null,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to save rule"));
+      }
+      setEditing(null);
+      toast({ title: "Saved", description: "The rule applies from the next call" });
+      loadRules();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save rule";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: CallerRule) => {
+    try {
+      const response = await fetch(`/api/v1/caller-rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: !rule.is_active }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to update rule"));
+      }
+      const updated: CallerRule = await response.json();
+      setRules((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to update rule";
+      toast({ variant: "destructive", title: "Error", description: message });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/v1/caller-rules/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to delete rule"));
+      }
+      setRules((prev) => prev.filter((r) => r.id !== id));
+      toast({ title: "Deleted", description: "Past calls keep their recorded rule" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to delete rule";
+      toast({ variant: "destructive", title: "Error", description: message });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Rules</CardTitle>
+            <CardDescription>
+              A rule for an exact number wins over a prefix, and a longer prefix wins over a
+              shorter one. Withheld numbers never match.
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button onClick={() => openEditor("new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rule
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="py-12 text-center">
+              <ShieldCheck className="mx-auto h-8 w-8 text-muted-foreground" />
+              <p className="mt-2 text-sm text-muted-foreground">No caller rules yet.</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{rule.label || rule.phone_pattern}</p>
+                      <Badge
+                        variant={rule.action === "block" ? "destructive" : "outline"}
+                        className="text-xs"
+                      >
+                        {ACTION_LABELS[rule.action]}
+                      </Badge>
+                      {rule.match_type === "prefix" && (
+                        <Badge variant="secondary" className="text-xs">
+                          Prefix
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">{describeRule(rule)}</p>
+                  </div>
+
+                  {canManage && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={() => handleToggle(rule)}
+                        title={rule.is_active ? "Turn off" : "Turn on"}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditor(rule)}
+                        title="Edit rule"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleteTarget(rule)}
+                        title="Delete rule"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Rule" : "Edit Rule"}</DialogTitle>
+            <DialogDescription>
+              Prefixes need the + and country code, e.g. +1900.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="rule-match-type">Match</Label>
+                <Select
+                  value={form.match_type}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, match_type: value as CallerRuleMatchType }))
+                  }
+                >
+                  <SelectTrigger id="rule-match-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="exact">This number</SelectItem>
+                    <SelectItem value="prefix">Numbers starting with</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-pattern">
+                  {form.match_type === "prefix" ? "Prefix" : "Phone number"}
+                </Label>
+                <Input
+                  id="rule-pattern"
+                  placeholder={form.match_type === "prefix" ? "+1900" : "+61 412 345 678"}
+                  value={form.phone_pattern}
+                  onChange={(e) => setForm((prev) => ({ ...prev, phone_pattern: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-action">Action</Label>
+              <Select
+                value={form.action}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, action: value as CallerRuleAction }))}
+              >
+                <SelectTrigger id="rule-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="block">Block — reject the call</SelectItem>
+                  <SelectItem value="allow">Allow — answer without spam checks</SelectItem>
+                  <SelectItem value="transfer">Transfer — put straight through to a person</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.action === "transfer" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-transfer-phone">Transfer to</Label>
+                  <Input
+                    id="rule-transfer-phone"
+                    placeholder="+61412345678"
+                    value={form.transfer_to_phone}
+                    onChange={(e) => setForm((prev) => ({ ...prev, transfer_to_phone: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-transfer-name">Their name</Label>
+                  <Input
+                    id="rule-transfer-name"
+                    placeholder="Optional"
+                    value={form.transfer_to_name}
+                    onChange={(e) => setForm((prev) => ({ ...prev, transfer_to_name: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="rule-label">Label</Label>
+              <Input
+                id="rule-label"
+                placeholder="e.g., Sam (owner's partner)"
+                value={form.label}
+                onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !canSave}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Rule</DialogTitle>
+            <DialogDescription>
+              Calls from {deleteTarget?.phone_pattern} will be answered by your assistant and spam
+              checked as usual.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (deleteTarget) {
+                  handleDelete(deleteTarget.id);
+                  setDeleteTarget(null);
+                }
+              }}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { CallerRulesSettings } from "./caller-rules-settings";
+
+export const metadata: Metadata = {
+  title: "Caller Rules | Hola Recep",
+  description: "Block, allow or transfer specific callers",
+};
+
+export default async function CallerRulesPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    redirect("/onboarding");
+  }
+
+  const canManage = ["owner", "admin"].includes(membership.role);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Caller Rules</h1>
+        <p className="text-muted-foreground">
+          Decide what happens to specific numbers before your assistant answers: block them,
+          let them through without spam checks, or put them straight through to a person.
+        </p>
+      </div>
+
+      <CallerRulesSettings canManage={canManage} />
+    </div>
+  );
+}
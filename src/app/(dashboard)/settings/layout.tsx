@@ -8,6 +8,10 @@ const settingsTabs = [
   { name: "General", href: "/settings" },
   { name: "Notifications", href: "/settings/notifications" },
   { name: "Calendar", href: "/settings/calendar" },
+  { name: "Services", href: "/settings/services" },
+  { name: "Caller Rules", href: "/settings/caller-rules" },
+  { name: "Spam", href: "/settings/spam" },
+  { name: "API Keys", href: "/settings/api-keys" },
   { name: "Profile", href: "/settings/profile" },
 ];
 
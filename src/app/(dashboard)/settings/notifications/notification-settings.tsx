@@ -21,8 +21,22 @@ interface NotificationPreferences {
   webhook_url: string | null;
   sms_textback_on_missed_call: boolean;
   sms_appointment_confirmation: boolean;
+  sms_appointment_reminders: boolean;
+  call_appointment_reminders: boolean;
+  appointment_reminder_offsets: number[];
+  sms_ai_conversations: boolean;
 }
 
+// Minutes before the appointment
+const REMINDER_OFFSET_OPTIONS = [
+  { minutes: 10080, label: "1 week" },
+  { minutes: 2880, label: "2 days" },
+  { minutes: 1440, label: "24 hours" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: 120, label: "2 hours" },
+  { minutes: 60, label: "1 hour" },
+];
+
 interface NotificationSettingsProps {
   organizationId: string;
   initialPreferences: NotificationPreferences | null;
@@ -45,6 +59,10 @@ export function NotificationSettings({
     webhook_url: initialPreferences?.webhook_url ?? "",
     sms_textback_on_missed_call: initialPreferences?.sms_textback_on_missed_call ?? false,
     sms_appointment_confirmation: initialPreferences?.sms_appointment_confirmation ?? false,
+    sms_appointment_reminders: initialPreferences?.sms_appointment_reminders ?? false,
+    call_appointment_reminders: initialPreferences?.call_appointment_reminders ?? false,
+    appointment_reminder_offsets: initialPreferences?.appointment_reminder_offsets ?? [1440, 120],
+    sms_ai_conversations: initialPreferences?.sms_ai_conversations ?? true,
   });
   const [isSaving, setIsSaving] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -66,6 +84,13 @@ export function NotificationSettings({
       newErrors.sms_phone_number = "Phone number is required when SMS notifications are enabled";
     }
 
+    if (
+      (preferences.sms_appointment_reminders || preferences.call_appointment_reminders) &&
+      preferences.appointment_reminder_offsets.length === 0
+    ) {
+      newErrors.appointment_reminder_offsets = "Choose at least one reminder time";
+    }
+
     if (preferences.webhook_url) {
       try {
         const url = new URL(preferences.webhook_url);
@@ -96,6 +121,16 @@ export function NotificationSettings({
     }));
   };
 
+  const toggleReminderOffset = (minutes: number) => {
+    setPreferences((prev) => ({
+      ...prev,
+      appointment_reminder_offsets: prev.appointment_reminder_offsets.includes(minutes)
+        ? prev.appointment_reminder_offsets.filter((m) => m !== minutes)
+        : [...prev.appointment_reminder_offsets, minutes].sort((a, b) => b - a),
+    }));
+    clearError("appointment_reminder_offsets");
+  };
+
   const handleInputChange = (key: keyof NotificationPreferences, value: string) => {
     setPreferences((prev) => ({
       ...prev,
@@ -320,6 +355,69 @@ export function NotificationSettings({
               onCheckedChange={() => handleToggle("sms_appointment_confirmation")}
             />
           </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>AI Text Replies</Label>
+              <p className="text-sm text-muted-foreground">
+                Let your AI answer texts to your number, book appointments and hand off to your team in Messages
+              </p>
+            </div>
+            <Switch
+              checked={preferences.sms_ai_conversations}
+              onCheckedChange={() => handleToggle("sms_ai_conversations")}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Appointment Reminders</Label>
+              <p className="text-sm text-muted-foreground">
+                Text callers before their appointment. They can reply C to confirm, R to reschedule or X to cancel
+              </p>
+            </div>
+            <Switch
+              checked={preferences.sms_appointment_reminders}
+              onCheckedChange={() => handleToggle("sms_appointment_reminders")}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Reminder Calls</Label>
+              <p className="text-sm text-muted-foreground">
+                Have your AI call callers to remind them and confirm, reschedule or cancel (8am–8pm their time)
+              </p>
+            </div>
+            <Switch
+              checked={preferences.call_appointment_reminders}
+              onCheckedChange={() => handleToggle("call_appointment_reminders")}
+            />
+          </div>
+
+          {(preferences.sms_appointment_reminders || preferences.call_appointment_reminders) && (
+            <div className="space-y-2">
+              <Label>Remind callers</Label>
+              <div className="flex flex-wrap gap-2">
+                {REMINDER_OFFSET_OPTIONS.map((option) => (
+                  <Button
+                    key={option.minutes}
+                    type="button"
+                    size="sm"
+                    variant={
+                      preferences.appointment_reminder_offsets.includes(option.minutes) ? "default" : "outline"
+                    }
+                    onClick={() => toggleReminderOffset(option.minutes)}
+                  >
+                    {option.label} before
+                  </Button>
+                ))}
+              </div>
+              {errors.appointment_reminder_offsets && (
+                <p className="text-xs text-destructive">{errors.appointment_reminder_offsets}</p>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+import { LANGUAGE_CODES, SUPPORTED_LANGUAGES, type LanguageCode } from "@/lib/languages/languages";
+
+interface OwnerLanguageFormProps {
+  initialLanguage: LanguageCode;
+}
+
+export function OwnerLanguageForm({ initialLanguage }: OwnerLanguageFormProps) {
+  const [language, setLanguage] = useState<LanguageCode>(initialLanguage);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/v1/owner-language", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language }),
+      });
+
+      if (!response.ok) throw new Error(`Failed to save owner language (${response.status})`);
+
+      toast({ title: "Language updated", description: "New call summaries will be written in this language." });
+    } catch (error) {
+      console.error("[OwnerLanguageForm] Failed to save owner language:", error);
+      toast({ title: "Error", description: "Failed to save language.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Language</CardTitle>
+        <CardDescription>
+          Call summaries are written in this language, whatever language the caller spoke
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="ownerLanguage">Summary language</Label>
+          <Select value={language} onValueChange={(value) => setLanguage(value as LanguageCode)}>
+            <SelectTrigger id="ownerLanguage">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGE_CODES.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {SUPPORTED_LANGUAGES[code].name} ({SUPPORTED_LANGUAGES[code].nativeName})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Separator />
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Language
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,12 @@
 import { Metadata } from "next";
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
+import type { SpecialHours } from "@/lib/calendar/special-hours";
+import { DEFAULT_LANGUAGE, isLanguageCode } from "@/lib/languages/languages";
 import { BusinessSettingsForm } from "./business-settings-form";
 import { BrandingForm } from "./branding-form";
+import { RecordingRetentionForm } from "./recording-retention-form";
+import { OwnerLanguageForm } from "./owner-language-form";
 import { DeleteAccountCard } from "./delete-account-card";
 
 export const metadata: Metadata = {
@@ -25,7 +29,10 @@ interface Organization {
   timezone: string | null;
   country: string | null;
   business_hours: Record<string, { open: string; close: string } | null> | null;
+  special_hours: SpecialHours[] | null;
   default_appointment_duration: number | null;
+  recording_retention_days: number | null;
+  owner_language: string | null;
 }
 
 interface Membership {
@@ -51,7 +58,8 @@ export default async function SettingsPage() {
       organizations (
         id, name, slug, type, logo_url, primary_color,
         business_name, industry, business_website, business_phone, business_address,
-        timezone, country, business_hours, default_appointment_duration
+        timezone, country, business_hours, special_hours, default_appointment_duration,
+        recording_retention_days, owner_language
       )
     `
     )
@@ -77,6 +85,7 @@ export default async function SettingsPage() {
           address: organization.business_address || "",
           timezone: organization.timezone || "America/New_York",
           businessHours: organization.business_hours || null,
+          specialHours: organization.special_hours || [],
           defaultAppointmentDuration: organization.default_appointment_duration ?? 30,
         }}
       />
@@ -87,6 +96,15 @@ export default async function SettingsPage() {
         initialPrimaryColor={organization.primary_color || "#3B82F6"}
       />
 
+      <OwnerLanguageForm
+        initialLanguage={isLanguageCode(organization.owner_language) ? organization.owner_language : DEFAULT_LANGUAGE}
+      />
+
+      <RecordingRetentionForm
+        organizationId={organization.id}
+        initialRetentionDays={organization.recording_retention_days}
+      />
+
       {membership.role === "owner" && (
         <DeleteAccountCard
           organizationId={organization.id}
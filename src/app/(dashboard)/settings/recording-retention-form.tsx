@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+import { RECORDING_RETENTION_OPTIONS } from "@/lib/recordings/recordings";
+
+interface RecordingRetentionFormProps {
+  organizationId: string;
+  initialRetentionDays: number | null;
+}
+
+const KEEP_INDEFINITELY = "indefinitely";
+
+function retentionLabel(days: number | null): string {
+  if (days === null) return "Keep indefinitely";
+  if (days === 365) return "1 year";
+  return `${days} days`;
+}
+
+export function RecordingRetentionForm({
+  organizationId,
+  initialRetentionDays,
+}: RecordingRetentionFormProps) {
+  const [retentionDays, setRetentionDays] = useState<number | null>(initialRetentionDays);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Orgs with a custom value set outside the dashboard still see it selected
+  const options = RECORDING_RETENTION_OPTIONS.includes(initialRetentionDays)
+    ? RECORDING_RETENTION_OPTIONS
+    : [initialRetentionDays, ...RECORDING_RETENTION_OPTIONS];
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const supabase = createClient();
+      const { error } = await (supabase as any)
+        .from("organizations")
+        .update({ recording_retention_days: retentionDays })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast({ title: "Retention updated", description: "Your recording retention has been saved." });
+    } catch (error) {
+      console.error("[RecordingRetentionForm] Failed to save recording retention:", error);
+      toast({ title: "Error", description: "Failed to save recording retention.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Call Recordings</CardTitle>
+        <CardDescription>
+          How long call recordings and voicemails are kept before they are deleted
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="recordingRetention">Keep recordings for</Label>
+          <Select
+            value={retentionDays === null ? KEEP_INDEFINITELY : String(retentionDays)}
+            onValueChange={(value) =>
+              setRetentionDays(value === KEEP_INDEFINITELY ? null : Number(value))
+            }
+          >
+            <SelectTrigger id="recordingRetention">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((days) => (
+                <SelectItem
+                  key={days ?? KEEP_INDEFINITELY}
+                  value={days === null ? KEEP_INDEFINITELY : String(days)}
+                >
+                  {retentionLabel(days)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Recordings older than this are deleted each night, including ones already saved
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Retention
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { ServicesSettings } from "./services-settings";
+
+export const metadata: Metadata = {
+  title: "Services | Hola Recep",
+  description: "Manage the services callers can book",
+};
+
+export default async function ServicesPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    redirect("/onboarding");
+  }
+
+  const canManage = ["owner", "admin"].includes(membership.role);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Services</h1>
+        <p className="text-muted-foreground">
+          List what callers can book, how long each service takes and who
+          performs it. Your assistant offers these when scheduling.
+        </p>
+      </div>
+
+      <ServicesSettings canManage={canManage} />
+    </div>
+  );
+}
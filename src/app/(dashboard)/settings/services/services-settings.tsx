@@ -0,0 +1,501 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, Pencil, Trash2, Scissors, Users } from "lucide-react";
+import { StaffDialog, type EditableStaffMember } from "./staff-dialog";
+
+type StaffMember = EditableStaffMember;
+
+interface Service {
+  id: string;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  is_active: boolean;
+  staff: { id: string; name: string }[];
+}
+
+interface ServiceForm {
+  name: string;
+  description: string;
+  duration_minutes: string;
+  buffer_before_minutes: string;
+  buffer_after_minutes: string;
+  staff_ids: string[];
+}
+
+const EMPTY_FORM: ServiceForm = {
+  name: "",
+  description: "",
+  duration_minutes: "30",
+  buffer_before_minutes: "0",
+  buffer_after_minutes: "0",
+  staff_ids: [],
+};
+
+interface ServicesSettingsProps {
+  canManage: boolean;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => ({}));
+  return body.error || fallback;
+}
+
+export function ServicesSettings({ canManage }: ServicesSettingsProps) {
+  const [services, setServices] = useState<Service[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<Service | "new" | null>(null);
+  const [form, setForm] = useState<ServiceForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Service | null>(null);
+  const [staffName, setStaffName] = useState("");
+  const [isAddingStaff, setIsAddingStaff] = useState(false);
+  const [staffTarget, setStaffTarget] = useState<StaffMember | null>(null);
+  const { toast } = useToast();
+
+  const loadAll = useCallback(async () => {
+    try {
+      const [servicesResponse, staffResponse] = await Promise.all([
+        fetch("/api/v1/services"),
+        fetch("/api/v1/staff"),
+      ]);
+      if (!servicesResponse.ok) {
+        throw new Error(await readError(servicesResponse, "Failed to load services"));
+      }
+      if (!staffResponse.ok) {
+        throw new Error(await readError(staffResponse, "Failed to load staff"));
+      }
+      setServices(await servicesResponse.json());
+      setStaff(await staffResponse.json());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to load services";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  const openEditor = (service: Service | "new") => {
+    setForm(
+      service === "new"
+        ? EMPTY_FORM
+        : {
+            name: service.name,
+            description: service.description || "",
+            duration_minutes: String(service.duration_minutes),
+            buffer_before_minutes: String(service.buffer_before_minutes),
+            buffer_after_minutes: String(service.buffer_after_minutes),
+            staff_ids: service.staff.map((s) => s.id),
+          }
+    );
+    setEditing(service);
+  };
+
+  const toggleStaff = (id: string) => {
+    setForm((prev) => ({
+      ...prev,
+      staff_ids: prev.staff_ids.includes(id)
+        ? prev.staff_ids.filter((s) => s !== id)
+        : [...prev.staff_ids, id],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!editing || !form.name.trim()) return;
+    setIsSaving(true);
+
+    try {
+      const isNew = editing === "new";
+      const response = await fetch(isNew ? "/api/v1/services" : `/api/v1/services/${editing.id}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          description: form.description.trim() || null,
+          duration_minutes: Number(form.duration_minutes),
+          buffer_before_minutes: Number(form.buffer_before_minutes) || 0,
+          buffer_after_minutes: Number(form.buffer_after_minutes) || 0,
+          staff_ids: form.staff_ids,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to save service"));
+      }
+      setEditing(null);
+      toast({ title: "Saved", description: `${form.name.trim()} is ready to book` });
+      loadAll();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save service";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/v1/services/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to delete service"));
+      }
+      setServices((prev) => prev.filter((s) => s.id !== id));
+      toast({ title: "Deleted", description: "Existing appointments are kept" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to delete service";
+      toast({ variant: "destructive", title: "Error", description: message });
+    }
+  };
+
+  const handleAddStaff = async () => {
+    if (!staffName.trim()) return;
+    setIsAddingStaff(true);
+
+    try {
+      const response = await fetch("/api/v1/staff", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: staffName.trim() }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to add staff member"));
+      }
+      const created: StaffMember = await response.json();
+      setStaff((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setStaffName("");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to add staff member";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsAddingStaff(false);
+    }
+  };
+
+  const handleRemoveStaff = async (id: string) => {
+    try {
+      const response = await fetch(`/api/v1/staff/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to remove staff member"));
+      }
+      setStaff((prev) => prev.filter((s) => s.id !== id));
+      setServices((prev) =>
+        prev.map((s) => ({ ...s, staff: s.staff.filter((m) => m.id !== id) }))
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to remove staff member";
+      toast({ variant: "destructive", title: "Error", description: message });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Services</CardTitle>
+            <CardDescription>
+              Buffers block time before and after an appointment without showing it to the
+              caller. Without services, bookings use the default appointment duration.
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button onClick={() => openEditor("new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Service
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {services.length === 0 ? (
+            <div className="py-12 text-center">
+              <Scissors className="mx-auto h-8 w-8 text-muted-foreground" />
+              <p className="mt-2 text-sm text-muted-foreground">No services yet.</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {services.map((service) => (
+                <div key={service.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{service.name}</p>
+                      <Badge variant="outline" className="text-xs">
+                        {service.duration_minutes} min
+                      </Badge>
+                      {!service.is_active && (
+                        <Badge variant="secondary" className="text-xs">
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                    {service.description && (
+                      <p className="text-sm text-muted-foreground truncate">{service.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {service.buffer_before_minutes || service.buffer_after_minutes
+                        ? `Buffer ${service.buffer_before_minutes} min before · ${service.buffer_after_minutes} min after`
+                        : "No buffer"}
+                      {service.staff.length > 0 &&
+                        ` · ${service.staff.map((s) => s.name).join(", ")}`}
+                    </p>
+                  </div>
+
+                  {canManage && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditor(service)}
+                        title="Edit service"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleteTarget(service)}
+                        title="Delete service"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff</CardTitle>
+          <CardDescription>
+            People who perform your services. Each has their own calendar, so two people can be
+            booked at the same time. Click a name to set working hours and time off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {staff.length === 0 ? (
+            <div className="py-6 text-center">
+              <Users className="mx-auto h-8 w-8 text-muted-foreground" />
+              <p className="mt-2 text-sm text-muted-foreground">No staff members yet.</p>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {staff.map((member) => (
+                <Badge key={member.id} variant="secondary" className="gap-1 py-1">
+                  <button
+                    type="button"
+                    onClick={() => setStaffTarget(member)}
+                    className="hover:underline"
+                    title={`Hours and time off for ${member.name}`}
+                  >
+                    {member.name}
+                  </button>
+                  {member.working_hours && (
+                    <span className="text-xs text-muted-foreground">· custom hours</span>
+                  )}
+                  {canManage && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveStaff(member.id)}
+                      className="ml-1 text-muted-foreground hover:text-destructive"
+                      title={`Remove ${member.name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {canManage && (
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g., Dr. Smith"
+                value={staffName}
+                onChange={(e) => setStaffName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddStaff()}
+              />
+              <Button
+                variant="outline"
+                onClick={handleAddStaff}
+                disabled={isAddingStaff || !staffName.trim()}
+              >
+                {isAddingStaff && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <StaffDialog
+        member={staffTarget}
+        canManage={canManage}
+        onClose={() => setStaffTarget(null)}
+        onSaved={(updated) =>
+          setStaff((prev) => prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)))
+        }
+      />
+
+      {/* Create / edit dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Service" : "Edit Service"}</DialogTitle>
+            <DialogDescription>
+              Use the name callers would say — your assistant matches on it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="service-name">Name</Label>
+              <Input
+                id="service-name"
+                placeholder="e.g., Full Groom"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="service-description">Description</Label>
+              <Input
+                id="service-description"
+                placeholder="Optional"
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="service-duration">Duration (min)</Label>
+                <Input
+                  id="service-duration"
+                  type="number"
+                  min={5}
+                  max={480}
+                  value={form.duration_minutes}
+                  onChange={(e) => setForm((prev) => ({ ...prev, duration_minutes: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="service-buffer-before">Buffer before</Label>
+                <Input
+                  id="service-buffer-before"
+                  type="number"
+                  min={0}
+                  max={120}
+                  value={form.buffer_before_minutes}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, buffer_before_minutes: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="service-buffer-after">Buffer after</Label>
+                <Input
+                  id="service-buffer-after"
+                  type="number"
+                  min={0}
+                  max={120}
+                  value={form.buffer_after_minutes}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, buffer_after_minutes: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+            {staff.length > 0 && (
+              <div className="space-y-2">
+                <Label>Performed by</Label>
+                <div className="space-y-2">
+                  {staff.map((member) => (
+                    <div key={member.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`staff-${member.id}`}
+                        checked={form.staff_ids.includes(member.id)}
+                        onCheckedChange={() => toggleStaff(member.id)}
+                      />
+                      <label htmlFor={`staff-${member.id}`} className="cursor-pointer text-sm">
+                        {member.name}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Service</DialogTitle>
+            <DialogDescription>
+              Callers will no longer be able to book &ldquo;{deleteTarget?.name}&rdquo;.
+              Appointments already booked stay on the calendar.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (deleteTarget) {
+                  handleDelete(deleteTarget.id);
+                  setDeleteTarget(null);
+                }
+              }}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
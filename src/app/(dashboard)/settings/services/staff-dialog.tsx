@@ -0,0 +1,331 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+const DAYS = [
+  { key: "monday", label: "Monday" },
+  { key: "tuesday", label: "Tuesday" },
+  { key: "wednesday", label: "Wednesday" },
+  { key: "thursday", label: "Thursday" },
+  { key: "friday", label: "Friday" },
+  { key: "saturday", label: "Saturday" },
+  { key: "sunday", label: "Sunday" },
+];
+
+type WorkingHours = Record<string, { open: string; close: string } | null>;
+
+export interface EditableStaffMember {
+  id: string;
+  name: string;
+  is_active: boolean;
+  working_hours: WorkingHours | null;
+}
+
+interface TimeOff {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+}
+
+const DEFAULT_HOURS: WorkingHours = {
+  monday: { open: "09:00", close: "17:00" },
+  tuesday: { open: "09:00", close: "17:00" },
+  wednesday: { open: "09:00", close: "17:00" },
+  thursday: { open: "09:00", close: "17:00" },
+  friday: { open: "09:00", close: "17:00" },
+  saturday: null,
+  sunday: null,
+};
+
+interface StaffDialogProps {
+  member: EditableStaffMember | null;
+  canManage: boolean;
+  onClose: () => void;
+  onSaved: (member: EditableStaffMember) => void;
+}
+
+export function StaffDialog({ member, canManage, onClose, onSaved }: StaffDialogProps) {
+  const [customHours, setCustomHours] = useState(false);
+  const [hours, setHours] = useState<WorkingHours>(DEFAULT_HOURS);
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const [newStart, setNewStart] = useState("");
+  const [newEnd, setNewEnd] = useState("");
+  const [newReason, setNewReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddingTimeOff, setIsAddingTimeOff] = useState(false);
+  const { toast } = useToast();
+
+  const loadTimeOff = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/v1/staff/${id}/time-off`);
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}));
+          throw new Error(body.error || "Failed to load time off");
+        }
+        setTimeOff(await response.json());
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to load time off";
+        toast({ variant: "destructive", title: "Error", description: message });
+      }
+    },
+    [toast]
+  );
+
+  useEffect(() => {
+    if (!member) return;
+    setCustomHours(!!member.working_hours);
+    setHours(member.working_hours ?? DEFAULT_HOURS);
+    setTimeOff([]);
+    setNewStart("");
+    setNewEnd("");
+    setNewReason("");
+    loadTimeOff(member.id);
+  }, [member, loadTimeOff]);
+
+  const toggleDay = (day: string) => {
+    setHours((prev) => ({
+      ...prev,
+      [day]: prev[day] ? null : { open: "09:00", close: "17:00" },
+    }));
+  };
+
+  const updateDay = (day: string, field: "open" | "close", value: string) => {
+    setHours((prev) => ({
+      ...prev,
+      [day]: prev[day] ? { ...prev[day]!, [field]: value } : null,
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!member) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/v1/staff/${member.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ working_hours: customHours ? hours : null }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to save working hours");
+      }
+      onSaved(await response.json());
+      toast({ title: "Saved", description: `${member.name}'s hours were updated` });
+      onClose();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save working hours";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!member || !newStart || !newEnd) return;
+    setIsAddingTimeOff(true);
+
+    try {
+      const response = await fetch(`/api/v1/staff/${member.id}/time-off`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          starts_at: new Date(newStart).toISOString(),
+          ends_at: new Date(newEnd).toISOString(),
+          reason: newReason.trim() || undefined,
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to add time off");
+      }
+      const created: TimeOff = await response.json();
+      setTimeOff((prev) =>
+        [...prev, created].sort((a, b) => a.starts_at.localeCompare(b.starts_at))
+      );
+      setNewStart("");
+      setNewEnd("");
+      setNewReason("");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to add time off";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsAddingTimeOff(false);
+    }
+  };
+
+  const handleRemoveTimeOff = async (timeOffId: string) => {
+    if (!member) return;
+    try {
+      const response = await fetch(`/api/v1/staff/${member.id}/time-off/${timeOffId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to remove time off");
+      }
+      setTimeOff((prev) => prev.filter((t) => t.id !== timeOffId));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to remove time off";
+      toast({ variant: "destructive", title: "Error", description: message });
+    }
+  };
+
+  return (
+    <Dialog open={!!member} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{member?.name}</DialogTitle>
+          <DialogDescription>
+            When this person works and when they&apos;re away. Callers are only offered times
+            when someone who performs the service is free.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="custom-hours">Custom working hours</Label>
+              <Switch
+                id="custom-hours"
+                checked={customHours}
+                onCheckedChange={setCustomHours}
+                disabled={!canManage}
+              />
+            </div>
+            {!customHours ? (
+              <p className="text-sm text-muted-foreground">Works your business hours.</p>
+            ) : (
+              <div className="space-y-2">
+                {DAYS.map((day) => (
+                  <div key={day.key} className="flex items-center gap-3">
+                    <div className="w-32 flex items-center gap-2">
+                      <Switch
+                        checked={!!hours[day.key]}
+                        onCheckedChange={() => toggleDay(day.key)}
+                        disabled={!canManage}
+                      />
+                      <span className="text-sm">{day.label}</span>
+                    </div>
+                    {hours[day.key] ? (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Input
+                          type="time"
+                          value={hours[day.key]?.open || "09:00"}
+                          onChange={(e) => updateDay(day.key, "open", e.target.value)}
+                          className="w-28"
+                          disabled={!canManage}
+                        />
+                        <span className="text-muted-foreground">to</span>
+                        <Input
+                          type="time"
+                          value={hours[day.key]?.close || "17:00"}
+                          onChange={(e) => updateDay(day.key, "close", e.target.value)}
+                          className="w-28"
+                          disabled={!canManage}
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Off</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Time off</Label>
+            {timeOff.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No upcoming time off.</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {timeOff.map((t) => (
+                  <div key={t.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="text-sm">
+                      {format(new Date(t.starts_at), "MMM d, h:mm a")} –{" "}
+                      {format(new Date(t.ends_at), "MMM d, h:mm a")}
+                      {t.reason && <span className="text-muted-foreground"> · {t.reason}</span>}
+                    </div>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveTimeOff(t.id)}
+                        title="Remove time off"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {canManage && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="datetime-local"
+                  value={newStart}
+                  onChange={(e) => setNewStart(e.target.value)}
+                  aria-label="Time off starts"
+                />
+                <Input
+                  type="datetime-local"
+                  value={newEnd}
+                  onChange={(e) => setNewEnd(e.target.value)}
+                  aria-label="Time off ends"
+                />
+                <Input
+                  placeholder="Reason (optional)"
+                  value={newReason}
+                  onChange={(e) => setNewReason(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleAddTimeOff}
+                  disabled={isAddingTimeOff || !newStart || !newEnd}
+                >
+                  {isAddingTimeOff ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  Add time off
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {canManage ? "Cancel" : "Close"}
+          </Button>
+          {canManage && (
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save hours
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { normalizeSpamPolicy } from "@/lib/spam/spam-policy";
+import { SpamPolicySettings } from "./spam-policy-settings";
+
+export const metadata: Metadata = {
+  title: "Spam | Hola Recep",
+  description: "Tune how spam calls are detected and handled",
+};
+
+export default async function SpamPolicyPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    redirect("/onboarding");
+  }
+
+  const { data: org } = await (supabase as any)
+    .from("organizations")
+    .select("spam_policy")
+    .eq("id", membership.organization_id)
+    .single();
+
+  const canManage = ["owner", "admin"].includes(membership.role);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Spam</h1>
+        <p className="text-muted-foreground">
+          Choose how strict spam detection is, which words count as spam, and what happens to
+          suspicious callers. Preview a change against your last 30 days of calls before saving it.
+        </p>
+      </div>
+
+      <SpamPolicySettings initialPolicy={normalizeSpamPolicy(org?.spam_policy)} canManage={canManage} />
+    </div>
+  );
+}
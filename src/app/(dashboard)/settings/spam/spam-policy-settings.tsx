@@ -0,0 +1,373 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, X } from "lucide-react";
+import { format } from "date-fns";
+import {
+  DEFAULT_SPAM_KEYWORDS,
+  MAX_ADDED_KEYWORDS,
+  spamThresholds,
+  type SpamAction,
+  type SpamPolicy,
+  type SpamSensitivity,
+} from "@/lib/spam/spam-policy";
+import type { SpamPolicyPreview } from "@/lib/spam/spam-detector";
+
+const SENSITIVITY_LABELS: Record<SpamSensitivity, string> = {
+  low: "Low — only obvious spam",
+  standard: "Standard",
+  high: "High — catch more, at the risk of false positives",
+};
+
+const ACTION_LABELS: Record<SpamAction, string> = {
+  block: "Block",
+  flag: "Flag",
+  allow: "Allow",
+};
+
+const ACTION_DESCRIPTIONS: Record<SpamAction, string> = {
+  block: "Rejected before your assistant answers and marked as spam",
+  flag: "Caller must press 1 to get through; marked as spam past the spam threshold",
+  allow: "Answered normally and never marked as spam",
+};
+
+interface SpamPolicySettingsProps {
+  initialPolicy: SpamPolicy;
+  canManage: boolean;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => ({}));
+  return body.error || fallback;
+}
+
+export function SpamPolicySettings({ initialPolicy, canManage }: SpamPolicySettingsProps) {
+  const [policy, setPolicy] = useState<SpamPolicy>(initialPolicy);
+  const [newKeyword, setNewKeyword] = useState("");
+  const [preview, setPreview] = useState<SpamPolicyPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const thresholds = spamThresholds(policy.sensitivity);
+
+  const updatePolicy = (changes: Partial<SpamPolicy>) => {
+    setPolicy((current) => ({ ...current, ...changes }));
+    setPreview(null);
+  };
+
+  const toggleDefaultKeyword = (keyword: string) => {
+    const removed = policy.removedKeywords.includes(keyword);
+    updatePolicy({
+      removedKeywords: removed
+        ? policy.removedKeywords.filter((k) => k !== keyword)
+        : [...policy.removedKeywords, keyword],
+    });
+  };
+
+  const handleAddKeyword = () => {
+    const keyword = newKeyword.trim().toLowerCase();
+    if (!keyword) return;
+    setNewKeyword("");
+
+    if (DEFAULT_SPAM_KEYWORDS.includes(keyword)) {
+      updatePolicy({ removedKeywords: policy.removedKeywords.filter((k) => k !== keyword) });
+      return;
+    }
+    if (!policy.addedKeywords.includes(keyword)) {
+      updatePolicy({ addedKeywords: [...policy.addedKeywords, keyword] });
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const response = await fetch("/api/v1/spam-policy/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(policy),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to preview changes"));
+      }
+      setPreview(await response.json());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to preview changes";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/v1/spam-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(policy),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to save spam settings"));
+      }
+      setPolicy(await response.json());
+      setPreview(null);
+      toast({ title: "Saved", description: "New calls will be checked with these settings" });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to save spam settings";
+      toast({ variant: "destructive", title: "Error", description: message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Sensitivity and Actions</CardTitle>
+          <CardDescription>
+            Every call gets a spam score from 0 to 100. Sensitivity sets the scores at which a
+            call counts as possible or likely spam.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2 max-w-md">
+            <Label htmlFor="spam-sensitivity">Sensitivity</Label>
+            <Select
+              value={policy.sensitivity}
+              onValueChange={(value) => updatePolicy({ sensitivity: value as SpamSensitivity })}
+              disabled={!canManage}
+            >
+              <SelectTrigger id="spam-sensitivity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SENSITIVITY_LABELS) as SpamSensitivity[]).map((sensitivity) => (
+                  <SelectItem key={sensitivity} value={sensitivity}>
+                    {SENSITIVITY_LABELS[sensitivity]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {(["block", "flag"] as const).map((recommendation) => (
+              <div key={recommendation} className="space-y-2">
+                <Label htmlFor={`spam-action-${recommendation}`}>
+                  {recommendation === "block"
+                    ? `Likely spam (score ${thresholds.block}+)`
+                    : `Possible spam (score ${thresholds.flag}–${thresholds.block - 1})`}
+                </Label>
+                <Select
+                  value={policy.actions[recommendation]}
+                  onValueChange={(value) =>
+                    updatePolicy({ actions: { ...policy.actions, [recommendation]: value as SpamAction } })
+                  }
+                  disabled={!canManage}
+                >
+                  <SelectTrigger id={`spam-action-${recommendation}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACTION_LABELS) as SpamAction[]).map((action) => (
+                      <SelectItem key={action} value={action}>
+                        {ACTION_LABELS[action]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {ACTION_DESCRIPTIONS[policy.actions[recommendation]]}
+                </p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spam Keywords</CardTitle>
+          <CardDescription>
+            Each keyword heard in a call transcript adds to its spam score. Click a built-in
+            keyword to turn it off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {DEFAULT_SPAM_KEYWORDS.map((keyword) => {
+              const removed = policy.removedKeywords.includes(keyword);
+              return (
+                <Badge
+                  key={keyword}
+                  variant={removed ? "outline" : "secondary"}
+                  className={removed ? "line-through text-muted-foreground" : undefined}
+                  onClick={canManage ? () => toggleDefaultKeyword(keyword) : undefined}
+                  role={canManage ? "button" : undefined}
+                >
+                  {keyword}
+                </Badge>
+              );
+            })}
+          </div>
+
+          {policy.addedKeywords.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {policy.addedKeywords.map((keyword) => (
+                <Badge key={keyword} className="gap-1">
+                  {keyword}
+                  {canManage && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updatePolicy({ addedKeywords: policy.addedKeywords.filter((k) => k !== keyword) })
+                      }
+                      title="Remove keyword"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {canManage && (
+            <div className="flex max-w-md gap-2">
+              <Input
+                placeholder="Add a keyword or phrase"
+                value={newKeyword}
+                maxLength={50}
+                onChange={(e) => setNewKeyword(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddKeyword();
+                  }
+                }}
+              />
+              <Button
+                variant="outline"
+                onClick={handleAddKeyword}
+                disabled={!newKeyword.trim() || policy.addedKeywords.length >= MAX_ADDED_KEYWORDS}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePreview} disabled={isPreviewing}>
+            {isPreviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Preview on last 30 days
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      )}
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>
+              {preview.totalCalls === 0
+                ? "There are no scored calls from the last 30 days to compare."
+                : `${preview.changedCount} of ${preview.totalCalls} ${preview.truncated ? "most recent calls" : "calls from the last 30 days"} would be handled differently.`}
+              {preview.estimatedCount > 0 &&
+                ` ${preview.estimatedCount} older ${preview.estimatedCount === 1 ? "call was" : "calls were"} scored before the keyword part of the score was kept, so ${preview.estimatedCount === 1 ? "its" : "their"} new score is an estimate.`}
+            </CardDescription>
+          </CardHeader>
+          {preview.totalCalls > 0 && (
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {(Object.keys(ACTION_LABELS) as SpamAction[]).map((action) => (
+                      <TableHead key={action} className="text-right">{ACTION_LABELS[action]}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>Current settings</TableCell>
+                    {(Object.keys(ACTION_LABELS) as SpamAction[]).map((action) => (
+                      <TableCell key={action} className="text-right">{preview.before[action]}</TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>New settings</TableCell>
+                    {(Object.keys(ACTION_LABELS) as SpamAction[]).map((action) => (
+                      <TableCell key={action} className="text-right">{preview.after[action]}</TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              {preview.changes.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Call</TableHead>
+                      <TableHead>Caller</TableHead>
+                      <TableHead className="text-right">Score</TableHead>
+                      <TableHead>Outcome</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.changes.map((change) => (
+                      <TableRow key={change.callId}>
+                        <TableCell className="text-muted-foreground">
+                          {format(new Date(change.createdAt), "MMM d, h:mm a")}
+                        </TableCell>
+                        <TableCell className="font-mono">{change.callerPhone ?? "Unknown"}</TableCell>
+                        <TableCell className="text-right">
+                          {change.scoreBefore === change.scoreAfter
+                            ? change.scoreAfter
+                            : `${change.scoreBefore} → ${change.scoreAfter}`}
+                        </TableCell>
+                        <TableCell>
+                          {ACTION_LABELS[change.actionBefore]} → {ACTION_LABELS[change.actionAfter]}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Trash2 } from "lucide-react";
+import { getCountryConfig, getPublicHolidays } from "@/lib/country-config";
+import type { SpecialHours } from "@/lib/calendar/special-hours";
+
+interface SpecialHoursEditorProps {
+  country: string;
+  value: SpecialHours[];
+  onChange: (value: SpecialHours[]) => void;
+}
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function sortByDate(entries: SpecialHours[]): SpecialHours[] {
+  return [...entries].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function SpecialHoursEditor({ country, value, onChange }: SpecialHoursEditorProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const [closed, setClosed] = useState(true);
+  const [open, setOpen] = useState("09:00");
+  const [close, setClose] = useState("13:00");
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const byDate = new Map(value.map((entry) => [entry.date, entry]));
+  const upcoming = sortByDate(value.filter((entry) => entry.date >= today));
+  const presetYear = month.getFullYear();
+  const countryName = getCountryConfig(country).name;
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  });
+
+  const selectDay = (day: Date) => {
+    const iso = format(day, "yyyy-MM-dd");
+    const existing = byDate.get(iso);
+    setDate(iso);
+    setName(existing?.name ?? "");
+    setClosed(!existing?.open || !existing?.close);
+    if (existing?.open && existing?.close) {
+      setOpen(existing.open);
+      setClose(existing.close);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!date || !name.trim()) return;
+    const entry: SpecialHours = closed
+      ? { date, name: name.trim() }
+      : { date, name: name.trim(), open, close };
+    // One entry per date: adding to a date that already has one replaces it
+    onChange(sortByDate([...value.filter((e) => e.date !== date), entry]));
+    setDate("");
+    setName("");
+  };
+
+  const handleRemove = (iso: string) => {
+    onChange(value.filter((entry) => entry.date !== iso));
+  };
+
+  const handleAddPreset = () => {
+    const holidays = getPublicHolidays(country, presetYear).filter((h) => !byDate.has(h.date));
+    onChange(sortByDate([...value, ...holidays.map((h) => ({ date: h.date, name: h.name }))]));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Label className="flex items-center gap-2">
+        <CalendarDays className="h-4 w-4" />
+        Holidays &amp; Special Hours
+      </Label>
+      <p className="text-sm text-muted-foreground">
+        Dates that don&apos;t follow your weekly hours. Your AI tells callers you&apos;re closed
+        and won&apos;t book appointments outside these hours.
+      </p>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="icon" onClick={() => setMonth((m) => subMonths(m, 1))} title="Previous month">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium">{format(month, "MMMM yyyy")}</span>
+            <Button variant="ghost" size="icon" onClick={() => setMonth((m) => addMonths(m, 1))} title="Next month">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+            {WEEKDAY_LABELS.map((label) => (
+              <div key={label} className="py-1 text-muted-foreground">
+                {label}
+              </div>
+            ))}
+            {days.map((day) => {
+              const iso = format(day, "yyyy-MM-dd");
+              const entry = byDate.get(iso);
+              const isClosed = entry && (!entry.open || !entry.close);
+              return (
+                <button
+                  key={iso}
+                  type="button"
+                  onClick={() => selectDay(day)}
+                  title={entry?.name}
+                  className={[
+                    "rounded-md py-1.5",
+                    !isSameMonth(day, month) && "text-muted-foreground/50",
+                    entry && isClosed && "bg-destructive/15 text-destructive font-medium",
+                    entry && !isClosed && "bg-primary/15 text-primary font-medium",
+                    date === iso && "ring-2 ring-primary",
+                    !entry && "hover:bg-muted",
+                  ]
+                    .filter(Boolean)
+                    .join(" ")}
+                >
+                  {format(day, "d")}
+                </button>
+              );
+            })}
+          </div>
+          <Button variant="outline" size="sm" className="w-full" onClick={handleAddPreset}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add {countryName} public holidays for {presetYear}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              aria-label="Date"
+            />
+            <Input
+              placeholder="Name (e.g. Stocktake)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="special-closed" checked={closed} onCheckedChange={setClosed} />
+            <Label htmlFor="special-closed" className="font-normal">
+              Closed all day
+            </Label>
+          </div>
+          {!closed && (
+            <div className="flex items-center gap-2 text-sm">
+              <Input type="time" value={open} onChange={(e) => setOpen(e.target.value)} className="w-32" />
+              <span className="text-muted-foreground">to</span>
+              <Input type="time" value={close} onChange={(e) => setClose(e.target.value)} className="w-32" />
+            </div>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!date || !name.trim() || (!closed && open >= close)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {byDate.has(date) ? "Update date" : "Add date"}
+          </Button>
+
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No upcoming holidays or special hours.</p>
+          ) : (
+            <div className="max-h-64 divide-y overflow-y-auto rounded-md border">
+              {upcoming.map((entry) => (
+                <div key={entry.date} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <div className="text-sm">
+                    <span className="font-medium">{format(parseISO(entry.date), "EEE, MMM d, yyyy")}</span>
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {entry.name} ·{" "}
+                      {entry.open && entry.close ? `${entry.open}–${entry.close}` : "Closed"}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(entry.date)}
+                    title="Remove date"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { processAppointmentReminders } from "@/lib/calendar/reminders";
+import { verifyCronSecret } from "@/lib/security/cron";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled worker (see vercel.json) that texts and calls callers ahead of
+ * their appointments at each org's reminder offsets.
+ */
+export async function GET(request: Request) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await processAppointmentReminders();
+    if (result.sent > 0 || result.failed > 0) {
+      console.log("[Cron] Appointment reminders processed:", result);
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[Cron] Appointment reminder worker failed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
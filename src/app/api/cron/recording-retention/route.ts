@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { purgeExpiredRecordings } from "@/lib/recordings/recordings";
+import { verifyCronSecret } from "@/lib/security/cron";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled worker (see vercel.json) that deletes call recordings and
+ * voicemails older than each organization's retention period.
+ */
+export async function GET(request: Request) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeExpiredRecordings(createAdminClient());
+    if (result.calls > 0) {
+      console.log("[Cron] Expired recordings purged:", result);
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[Cron] Recording retention worker failed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { processWebhookRetryQueue } from "@/lib/integrations/retry";
+import { verifyCronSecret } from "@/lib/security/cron";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Scheduled worker (see vercel.json) that re-sends failed webhook deliveries
+ * whose backoff has elapsed, dead-letters exhausted ones and auto-pauses
+ * integrations that keep failing.
+ */
+export async function GET(request: Request) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await processWebhookRetryQueue();
+    if (result.processed > 0) {
+      console.log("[Cron] Webhook retries processed:", result);
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[Cron] Webhook retry worker failed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
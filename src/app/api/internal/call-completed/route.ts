@@ -5,10 +5,20 @@ import { analyzeCall, type CallMetadata } from "@/lib/spam/spam-detector";
 import {
   sendMissedCallNotification,
   sendFailedCallNotification,
+  sendVoicemailNotification,
 } from "@/lib/notifications/notification-service";
 import { sendMissedCallTextBack } from "@/lib/sms/caller-sms";
-import { deliverWebhooks } from "@/lib/integrations/webhook-delivery";
+import {
+  deliverWebhooks,
+  deliverWebhookEvent,
+  buildWebhookPayload,
+} from "@/lib/integrations/webhook-delivery";
 import { withRateLimit } from "@/lib/security/rate-limiter";
+import { upsertContactFromCall } from "@/lib/contacts/contacts";
+import { voicemailCallUrl } from "@/lib/voicemail/voicemail";
+import { createRecordingUrl, WEBHOOK_RECORDING_URL_TTL_SECONDS } from "@/lib/recordings/recordings";
+import { checkCollectedData, upgradePromptConfig } from "@/lib/prompt-builder";
+import type { CollectedDataCheck, PromptConfig, PromptConfigV1 } from "@/lib/prompt-builder";
 
 function verifyInternalSecret(request: Request): boolean {
   const secret = process.env.INTERNAL_API_SECRET;
@@ -40,11 +50,32 @@ interface CallCompletedPayload {
   callerName?: string;
   collectedData?: Record<string, unknown>;
   successEvaluation?: string;
+  /** Set by the voice server when the call ended in a transfer_call handoff */
+  transfer?: {
+    transferTo: string;
+    transferToName?: string | null;
+    reason?: string | null;
+  };
+  /** Storage path of the call recording, already saved on the call */
+  recordingPath?: string;
+  /** Language the caller spoke, already saved on the call */
+  language?: string;
+  /**
+   * Set by the voice server when the call switched to voicemail. A recorded
+   * message is already stored on the call's voicemail_path.
+   */
+  voicemail?: {
+    reason: "caller-request" | "llm-error" | "over-limit";
+    recorded: boolean;
+    transcript?: string | null;
+  };
 }
 
 /**
  * Internal endpoint called by the self-hosted voice server after a call ends.
- * Runs spam analysis, updates call record, increments billing, sends notifications, and delivers webhooks.
+ * Checks collected answers against the assistant's field options, runs spam analysis, updates call record, updates the caller's contact, increments billing, sends notifications, and delivers webhooks.
+ * Calls that ended in a recorded voicemail notify as voicemails, and voicemails
+ * taken because the org is over its call limit are not billed.
  */
 export async function POST(request: Request) {
   // Rate limit
@@ -75,8 +106,12 @@ export async function POST(request: Request) {
     endedReason,
     summary,
     callerName,
-    collectedData,
+    collectedData: rawCollectedData,
     successEvaluation,
+    transfer,
+    recordingPath,
+    language,
+    voicemail,
   } = payload;
 
   if (!organizationId || typeof organizationId !== "string") {
@@ -94,6 +129,49 @@ export async function POST(request: Request) {
 
   const supabase = createAdminClient();
 
+  // The assistant's name (for webhooks) and prompt config (for checking collected answers)
+  let assistantRecord: { name: string; prompt_config: Record<string, any> | null } | null = null;
+  if (assistantId) {
+    const { data, error: assistantError } = await (supabase as any)
+      .from("assistants")
+      .select("name, prompt_config")
+      .eq("id", assistantId)
+      .single();
+    if (assistantError) {
+      console.error("[Internal] Failed to look up assistant:", { assistantId, error: assistantError });
+    }
+    assistantRecord = data ?? null;
+  }
+
+  // Check select answers against the assistant's field options. Matched
+  // answers are stored as the option value; the call is flagged otherwise.
+  let collectedDataCheck: CollectedDataCheck | null = null;
+  if (rawCollectedData && assistantRecord?.prompt_config) {
+    collectedDataCheck = checkCollectedData(
+      upgradePromptConfig(assistantRecord.prompt_config as PromptConfig | PromptConfigV1),
+      rawCollectedData
+    );
+    if (callId) {
+      const { error: checkUpdateError } = await (supabase as any)
+        .from("calls")
+        .update({
+          collected_data: collectedDataCheck.data,
+          has_invalid_collected_data: collectedDataCheck.invalidKeys.length > 0,
+          invalid_collected_fields: collectedDataCheck.invalidKeys,
+        })
+        .eq("id", callId);
+      if (checkUpdateError) {
+        console.error("[Internal] Failed to save collected data check:", { callId, error: checkUpdateError });
+      }
+    }
+    if (collectedDataCheck.invalidKeys.length > 0) {
+      console.warn("[Internal] Collected data did not match field options:", {
+        callId, invalidKeys: collectedDataCheck.invalidKeys,
+      });
+    }
+  }
+  const collectedData = collectedDataCheck?.data ?? rawCollectedData;
+
   // 1. Run spam analysis
   let spamAnalysis = null;
   let spamAnalysisFailed = false;
@@ -141,6 +219,7 @@ export async function POST(request: Request) {
     const updatePayload: Record<string, unknown> = {
       is_spam: spamAnalysis.isSpam,
       spam_score: spamAnalysis.spamScore,
+      spam_base_score: spamAnalysis.baseScore,
     };
     // Add structured analysis fields if provided by voice server
     if (summary) updatePayload.summary = summary;
@@ -155,6 +234,7 @@ export async function POST(request: Request) {
           reasons: spamAnalysis.reasons,
           confidence: spamAnalysis.confidence,
           recommendation: spamAnalysis.recommendation,
+          action: spamAnalysis.action,
         },
       };
     }
@@ -168,9 +248,27 @@ export async function POST(request: Request) {
     }
   }
 
+  // 2b. Remember the caller (skip spam calls)
+  if (callerPhone && !spamAnalysis?.isSpam) {
+    try {
+      await upsertContactFromCall(supabase, {
+        organizationId,
+        callId,
+        callerPhone,
+        callerName,
+        collectedData,
+      });
+    } catch (err) {
+      console.error("[Internal] Failed to update caller contact:", {
+        callId, organizationId, error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
   // 3. Increment billing (skip spam calls, matching Vapi flow)
   const shouldTrackUsage = status === "completed" &&
-    (!spamAnalysis?.isSpam || spamAnalysis?.recommendation !== "block");
+    (!spamAnalysis?.isSpam || spamAnalysis?.action !== "block") &&
+    voicemail?.reason !== "over-limit";
 
   if (shouldTrackUsage) {
     try {
@@ -208,9 +306,22 @@ export async function POST(request: Request) {
 
   // 4. Send notifications (skip spam calls)
   let notificationStatus = "skipped";
+  const hasVoicemail = Boolean(voicemail?.recorded && callId);
   if (!spamAnalysis?.isSpam) {
     try {
-      if (status === "failed") {
+      if (hasVoicemail && callId) {
+        await sendVoicemailNotification({
+          organizationId,
+          callId,
+          callerPhone: callerPhone || "Unknown",
+          callerName,
+          timestamp: new Date(),
+          duration: durationSeconds,
+          voicemailUrl: voicemailCallUrl(callId),
+          voicemailTranscript: voicemail?.transcript ?? undefined,
+        });
+        notificationStatus = "sent";
+      } else if (status === "failed") {
         await sendFailedCallNotification({
           organizationId,
           callId: callId || "unknown",
@@ -245,32 +356,29 @@ export async function POST(request: Request) {
     }
 
     // 4b. Send text-back SMS to caller for failed calls or short calls (<10s, likely missed)
-    if ((status === "failed" || durationSeconds < 10) && !spamAnalysisFailed && callerPhone && callerPhone !== "Unknown") {
+    if ((status === "failed" || durationSeconds < 10) && !hasVoicemail && !spamAnalysisFailed && callerPhone && callerPhone !== "Unknown") {
       sendMissedCallTextBack(organizationId, callerPhone, spamAnalysis?.isSpam)
         .catch((err) => console.error("[Internal] Caller text-back failed:", { callId, organizationId, error: err }));
     }
   }
 
   // 5. Deliver webhooks to user integrations
-  let assistantName: string | null = null;
-  if (assistantId) {
-    const { data: assistantRecord, error: assistantError } = await (supabase as any)
-      .from("assistants")
-      .select("name")
-      .eq("id", assistantId)
-      .single();
-    if (assistantError) {
-      console.error("[Internal] Failed to look up assistant name for webhook:", { assistantId, error: assistantError });
-    }
-    if (assistantRecord) assistantName = assistantRecord.name;
-  }
+  const assistantName = assistantRecord?.name ?? null;
 
+  // A recorded voicemail is "voicemail.received", matching the Vapi flow.
   // Map "failed" status to "call.missed" webhook event since there is no
   // "call.failed" event type — from the customer's perspective, a failed
   // call is functionally equivalent to a missed one.
-  const webhookEvent = (status === "failed" || status === "missed")
-    ? "call.missed" as const
-    : "call.completed" as const;
+  const webhookEvent = hasVoicemail
+    ? "voicemail.received" as const
+    : (status === "failed" || status === "missed")
+      ? "call.missed" as const
+      : "call.completed" as const;
+
+  // Recordings are private; integrations get a signed link that expires after a week
+  const recordingUrl = recordingPath
+    ? await createRecordingUrl(supabase, recordingPath, WEBHOOK_RECORDING_URL_TTL_SECONDS)
+    : null;
 
   deliverWebhooks(organizationId, webhookEvent, {
     callId: callId || "unknown",
@@ -279,10 +387,36 @@ export async function POST(request: Request) {
     duration: durationSeconds,
     assistantName,
     outcome: status,
+    recordingUrl: recordingUrl ?? undefined,
+    language,
   }).catch((err) => console.error("[Internal] Webhook delivery failed:", {
     organizationId, callId: callId || "unknown", webhookEvent, error: err,
   }));
 
+  if (transfer?.transferTo) {
+    deliverWebhookEvent(organizationId, buildWebhookPayload("call.transferred", {
+      call_id: callId,
+      caller_phone: callerPhone || "Unknown",
+      transfer_to: transfer.transferTo,
+      transfer_to_name: transfer.transferToName ?? null,
+      reason: transfer.reason ?? null,
+    })).catch((err) => console.error("[Internal] call.transferred webhook failed:", {
+      organizationId, callId, error: err,
+    }));
+  }
+
+  if (spamAnalysis?.isSpam && spamAnalysis.action === "block") {
+    deliverWebhookEvent(organizationId, buildWebhookPayload("spam.blocked", {
+      call_id: callId,
+      caller_phone: callerPhone || "Unknown",
+      spam_score: spamAnalysis.spamScore,
+      confidence: spamAnalysis.confidence,
+      reasons: spamAnalysis.reasons,
+    })).catch((err) => console.error("[Internal] spam.blocked webhook failed:", {
+      organizationId, callId, error: err,
+    }));
+  }
+
   return NextResponse.json({ received: true, notificationStatus });
 }
 
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { deliverWebhookEvent } from "@/lib/integrations/webhook-delivery";
+import { STOPPED_CALL_COLUMNS, stoppedCallWebhook, type StoppedCall } from "@/lib/spam/stopped-calls";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+
+function verifyInternalSecret(request: Request): boolean {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) {
+    console.error("[CallStopped] INTERNAL_API_SECRET is not configured");
+    return false;
+  }
+
+  const headerSecret = request.headers.get("X-Internal-Secret");
+  if (!headerSecret) return false;
+
+  const secretBuffer = Buffer.from(secret);
+  const headerBuffer = Buffer.from(headerSecret);
+  if (secretBuffer.length !== headerBuffer.length) return false;
+
+  return crypto.timingSafeEqual(secretBuffer, headerBuffer);
+}
+
+interface CallStoppedPayload {
+  callId: string;
+}
+
+/**
+ * Internal endpoint called by the self-hosted voice server after it records a
+ * call that was stopped before the assistant answered. Sends the call's
+ * webhook, since these calls never reach call-completed.
+ */
+export async function POST(request: Request) {
+  const { allowed, headers: rlHeaders } = withRateLimit(request, "/api/internal/call-stopped", "webhook");
+  if (!allowed) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429, headers: rlHeaders });
+  }
+
+  if (!verifyInternalSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: CallStoppedPayload;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const { callId } = payload;
+  if (!callId || !isValidUUID(callId)) {
+    return NextResponse.json({ error: "Missing or invalid callId" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createAdminClient() as any;
+    const { data: call, error } = await supabase
+      .from("calls")
+      .select(STOPPED_CALL_COLUMNS)
+      .eq("id", callId)
+      .single();
+
+    if (error || !call) {
+      return NextResponse.json({ error: "Call not found" }, { status: 404 });
+    }
+
+    // Transfers report where the call went, which only the rule records
+    let rule = null;
+    if (call.caller_rule_action === "transfer" && call.caller_rule_id) {
+      const { data } = await supabase
+        .from("caller_rules")
+        .select("transfer_to_phone, transfer_to_name, label")
+        .eq("id", call.caller_rule_id)
+        .eq("organization_id", call.organization_id)
+        .maybeSingle();
+      rule = data;
+    }
+
+    const webhook = stoppedCallWebhook(call as StoppedCall, rule);
+    if (webhook) {
+      await deliverWebhookEvent(call.organization_id, webhook);
+    }
+
+    return NextResponse.json({ received: true, event: webhook?.event ?? null });
+  } catch (error) {
+    console.error("[CallStopped] Webhook delivery failed:", { callId, error });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { screenCall } from "@/lib/spam/spam-detector";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+
+function verifyInternalSecret(request: Request): boolean {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) {
+    console.error("[ScreenCall] INTERNAL_API_SECRET is not configured");
+    return false;
+  }
+
+  const headerSecret = request.headers.get("X-Internal-Secret");
+  if (!headerSecret) return false;
+
+  const secretBuffer = Buffer.from(secret);
+  const headerBuffer = Buffer.from(headerSecret);
+  if (secretBuffer.length !== headerBuffer.length) return false;
+
+  return crypto.timingSafeEqual(secretBuffer, headerBuffer);
+}
+
+interface ScreenCallPayload {
+  organizationId: string;
+  callerPhone: string;
+}
+
+/**
+ * Internal endpoint called by the self-hosted voice server from /twiml,
+ * before the assistant answers. Returns whether to answer the call, ask the
+ * caller to press 1 first, or reject it.
+ */
+export async function POST(request: Request) {
+  const { allowed, headers: rlHeaders } = withRateLimit(request, "/api/internal/screen-call", "webhook");
+  if (!allowed) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429, headers: rlHeaders });
+  }
+
+  if (!verifyInternalSecret(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: ScreenCallPayload;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const { organizationId, callerPhone } = payload;
+
+  if (!organizationId || !isValidUUID(organizationId)) {
+    return NextResponse.json({ error: "Missing or invalid organizationId" }, { status: 400 });
+  }
+  if (!callerPhone || typeof callerPhone !== "string") {
+    return NextResponse.json({ error: "Missing or invalid callerPhone" }, { status: 400 });
+  }
+
+  try {
+    const { data: org } = await (createAdminClient() as any)
+      .from("organizations")
+      .select("country")
+      .eq("id", organizationId)
+      .single();
+
+    const result = await screenCall({
+      callerPhone,
+      organizationId,
+      countryCode: org?.country,
+      timestamp: new Date(),
+    });
+
+    if (result.action !== "answer") {
+      console.log("[ScreenCall] Screened call:", { organizationId, action: result.action, score: result.spamScore });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[ScreenCall] Screening failed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
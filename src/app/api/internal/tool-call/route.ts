@@ -5,6 +5,9 @@ import {
   handleCheckAvailability,
   handleBookAppointment,
   handleCancelAppointment,
+  handleConfirmAppointment,
+  handleRescheduleAppointment,
+  handleJoinWaitlist,
 } from "@/lib/calendar/tool-handlers";
 import { withRateLimit } from "@/lib/security/rate-limiter";
 
@@ -89,6 +92,8 @@ export async function POST(request: Request) {
       case "check_availability":
         result = await handleCheckAvailability(organizationId, {
           date: parsedArgs.date,
+          service: parsedArgs.service,
+          staff: parsedArgs.staff,
         });
         break;
 
@@ -99,6 +104,11 @@ export async function POST(request: Request) {
           phone: parsedArgs.phone,
           email: parsedArgs.email,
           notes: parsedArgs.notes,
+          service: parsedArgs.service,
+          staff: parsedArgs.staff,
+          recurrence: parsedArgs.recurrence,
+          occurrences: parsedArgs.occurrences,
+          skip_conflicts: parsedArgs.skip_conflicts,
         });
         break;
 
@@ -109,6 +119,33 @@ export async function POST(request: Request) {
         });
         break;
 
+      case "confirm_appointment":
+        result = await handleConfirmAppointment(organizationId, {
+          phone: parsedArgs.phone,
+        });
+        break;
+
+      case "reschedule_appointment":
+        result = await handleRescheduleAppointment(organizationId, {
+          phone: parsedArgs.phone,
+          name: parsedArgs.name,
+          datetime: parsedArgs.datetime,
+          reason: parsedArgs.reason,
+        });
+        break;
+
+      case "join_waitlist":
+        result = await handleJoinWaitlist(organizationId, {
+          name: parsedArgs.name,
+          phone: parsedArgs.phone,
+          start_date: parsedArgs.start_date,
+          end_date: parsedArgs.end_date,
+          service: parsedArgs.service,
+          staff: parsedArgs.staff,
+          notes: parsedArgs.notes,
+        });
+        break;
+
       default:
         return NextResponse.json(
           { error: `Unknown function: ${functionName}` },
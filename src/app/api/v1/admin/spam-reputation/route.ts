@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isPlatformAdmin } from "@/lib/security/platform-admin";
+import { setReputationOverride } from "@/lib/spam/reputation";
+
+const overrideSchema = z.object({
+  phone: z.string().trim().min(7).max(30),
+  verdict: z.enum(["spam", "not_spam"]),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+/** The signed-in platform admin, or a 404 so the endpoint isn't advertised */
+async function requirePlatformAdmin(request: Request) {
+  const { allowed, headers } = withRateLimit(request, "/api/v1/admin/spam-reputation", "standard");
+  if (!allowed) {
+    return { response: NextResponse.json({ error: "Too many requests" }, { status: 429, headers }) };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  if (!isPlatformAdmin(user.email)) {
+    return { response: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+  }
+
+  return { user };
+}
+
+// POST /api/v1/admin/spam-reputation - Override a number's shared reputation
+export async function POST(request: Request) {
+  try {
+    const auth = await requirePlatformAdmin(request);
+    if ("response" in auth) return auth.response;
+
+    const body = await request.json();
+    const validated = overrideSchema.parse(body);
+
+    const saved = await setReputationOverride(
+      createAdminClient(),
+      validated.phone,
+      validated.verdict,
+      validated.note || null,
+      auth.user.id
+    );
+
+    if (!saved) {
+      return NextResponse.json({ error: "Enter a full phone number" }, { status: 400 });
+    }
+
+    return NextResponse.json({ saved: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error saving spam reputation override:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/v1/admin/spam-reputation?hash= - Go back to the computed reputation
+export async function DELETE(request: Request) {
+  try {
+    const auth = await requirePlatformAdmin(request);
+    if ("response" in auth) return auth.response;
+
+    const hash = new URL(request.url).searchParams.get("hash") || "";
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      return NextResponse.json({ error: "Invalid number hash" }, { status: 400 });
+    }
+
+    const { data: deleted, error } = await (createAdminClient() as any)
+      .from("spam_reputation_overrides")
+      .delete()
+      .eq("phone_hash", hash)
+      .select("phone_hash")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Failed to clear spam reputation override:", error);
+      return NextResponse.json({ error: "Failed to clear override" }, { status: 500 });
+    }
+    if (!deleted) {
+      return NextResponse.json({ error: "Override not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error clearing spam reputation override:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
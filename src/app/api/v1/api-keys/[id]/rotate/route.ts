@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import { issueApiKey, ROTATION_GRACE_PERIOD_MS } from "@/lib/security/api-keys";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const API_KEY_COLUMNS = "id, name, key_prefix, scopes, last_used_at, expires_at, is_active, created_at";
+
+// POST /api/v1/api-keys/[id]/rotate - Issue a replacement key with the same
+// name and scopes. The old key keeps working for a grace period so scripts
+// can be switched over without downtime.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid API key ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/api-keys", "auth");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { data: current, error: fetchError } = await (supabase.from("api_keys") as any)
+      .select("id, name, scopes, expires_at")
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .eq("is_active", true)
+      .single();
+
+    if (fetchError || !current) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    const { key, keyHash, keyPrefix } = issueApiKey();
+
+    const { data: replacement, error: insertError } = await (supabase.from("api_keys") as any)
+      .insert({
+        organization_id: membership.organization_id,
+        name: current.name,
+        key_hash: keyHash,
+        key_prefix: keyPrefix,
+        scopes: current.scopes,
+        expires_at: current.expires_at,
+        created_by: user.id,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (insertError || !replacement) {
+      console.error("Failed to issue replacement API key:", insertError);
+      return NextResponse.json({ error: "Failed to rotate API key" }, { status: 500 });
+    }
+
+    // Never extend an expiry that is already sooner than the grace period
+    const graceEnd = new Date(Date.now() + ROTATION_GRACE_PERIOD_MS);
+    const oldExpiry = current.expires_at && new Date(current.expires_at) < graceEnd
+      ? current.expires_at
+      : graceEnd.toISOString();
+
+    const { error: updateError } = await (supabase.from("api_keys") as any)
+      .update({ expires_at: oldExpiry, replaced_by: replacement.id })
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id);
+
+    if (updateError) {
+      console.error("Failed to schedule expiry of rotated API key:", { id, error: updateError });
+    }
+
+    return NextResponse.json(
+      { ...replacement, key, previous_key_expires_at: oldExpiry },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error rotating API key:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import { API_KEY_SCOPE_VALUES } from "@/lib/security/api-key-scopes";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const updateApiKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPE_VALUES)).min(1).optional(),
+});
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// PATCH /api/v1/api-keys/[id] - Rename or re-scope a key
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid API key ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/api-keys", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validated = updateApiKeySchema.parse(body);
+
+    const update: Record<string, unknown> = {};
+    if (validated.name !== undefined) update.name = validated.name;
+    if (validated.scopes !== undefined) update.scopes = [...new Set(validated.scopes)];
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const { data: updated, error } = await (supabase.from("api_keys") as any)
+      .update(update)
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .eq("is_active", true)
+      .select("id, name, key_prefix, scopes, last_used_at, expires_at, is_active, created_at")
+      .single();
+
+    if (error || !updated) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating API key:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/v1/api-keys/[id] - Revoke a key (kept for audit, never reactivated)
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid API key ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/api-keys", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { data: revoked, error } = await (supabase.from("api_keys") as any)
+      .update({ is_active: false, revoked_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .eq("is_active", true)
+      .select("id")
+      .single();
+
+    if (error || !revoked) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ revoked: true });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { issueApiKey } from "@/lib/security/api-keys";
+import { API_KEY_SCOPE_VALUES } from "@/lib/security/api-key-scopes";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPE_VALUES)).min(1),
+  expires_at: z.string().datetime().nullable().optional(),
+});
+
+const API_KEY_COLUMNS = "id, name, key_prefix, scopes, last_used_at, expires_at, is_active, created_at";
+
+// GET /api/v1/api-keys - List active API keys for the org (never returns hashes)
+export async function GET(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/api-keys", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const { data: keys, error } = await (supabase.from("api_keys") as any)
+      .select(API_KEY_COLUMNS)
+      .eq("organization_id", membership.organization_id)
+      .eq("is_active", true)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Failed to list API keys:", error);
+      return NextResponse.json({ error: "Failed to load API keys" }, { status: 500 });
+    }
+
+    return NextResponse.json(keys || []);
+  } catch (error) {
+    console.error("Error listing API keys:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/v1/api-keys - Issue a new API key
+export async function POST(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/api-keys", "auth");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validated = createApiKeySchema.parse(body);
+
+    if (validated.expires_at && new Date(validated.expires_at).getTime() <= Date.now()) {
+      return NextResponse.json({ error: "Expiry must be in the future" }, { status: 400 });
+    }
+
+    const { key, keyHash, keyPrefix } = issueApiKey();
+
+    const { data: apiKey, error } = await (supabase.from("api_keys") as any)
+      .insert({
+        organization_id: membership.organization_id,
+        name: validated.name,
+        key_hash: keyHash,
+        key_prefix: keyPrefix,
+        scopes: [...new Set(validated.scopes)],
+        expires_at: validated.expires_at ?? null,
+        created_by: user.id,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Failed to create API key:", error);
+      return NextResponse.json({ error: "Failed to create API key" }, { status: 500 });
+    }
+
+    // The plaintext key is only ever returned here
+    return NextResponse.json({ ...apiKey, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating API key:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { isValidUUID } from "@/lib/security/validation";
+import { z } from "zod";
+import { promotionNote } from "@/lib/assistants/experiments";
+import type { AssistantRevision } from "@/lib/assistants/revisions";
+import { restoreAssistantRevision } from "@/lib/assistants/restore";
+
+const promoteSchema = z.object({
+  variantId: z.string().uuid(),
+});
+
+// POST /api/v1/assistants/[id]/experiments/[experimentId]/promote - Stop the experiment and make a variant's prompt live
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; experimentId: string }> }
+) {
+  try {
+    const { id, experimentId } = await params;
+    if (!isValidUUID(experimentId)) {
+      return NextResponse.json({ error: "Invalid experiment ID" }, { status: 400 });
+    }
+
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
+
+    const body = await request.json();
+    const { variantId } = promoteSchema.parse(body);
+
+    const { data: experiment } = await (supabase
+      .from("assistant_experiments") as any)
+      .select("id, name, status, stopped_at, winner_variant_id")
+      .eq("id", experimentId)
+      .eq("assistant_id", id)
+      .eq("organization_id", organizationId)
+      .single() as {
+        data: { id: string; name: string; status: string; stopped_at: string | null; winner_variant_id: string | null } | null;
+      };
+
+    if (!experiment) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+    }
+    if (experiment.winner_variant_id) {
+      return NextResponse.json({ error: "A winner has already been promoted" }, { status: 409 });
+    }
+
+    const { data: variant } = await (supabase
+      .from("assistant_experiment_variants") as any)
+      .select("id, label, assistant_revisions (*)")
+      .eq("id", variantId)
+      .eq("experiment_id", experimentId)
+      .single() as { data: { id: string; label: string; assistant_revisions: AssistantRevision | null } | null };
+
+    if (!variant?.assistant_revisions) {
+      return NextResponse.json({ error: "Variant not found" }, { status: 404 });
+    }
+
+    // Stop first so no more calls are split while the winner goes live
+    const { error: stopError } = await (supabase
+      .from("assistant_experiments") as any)
+      .update({
+        status: "stopped",
+        stopped_at: experiment.stopped_at ?? new Date().toISOString(),
+        winner_variant_id: variant.id,
+      })
+      .eq("id", experimentId)
+      .eq("organization_id", organizationId);
+
+    if (stopError) {
+      return NextResponse.json({ error: stopError.message }, { status: 500 });
+    }
+
+    const result = await restoreAssistantRevision(supabase, organizationId, variant.assistant_revisions, {
+      note: promotionNote(variant.label, experiment.name),
+      createdBy: auth.context.userId,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error promoting experiment variant:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { isValidUUID } from "@/lib/security/validation";
+
+// POST /api/v1/assistants/[id]/experiments/[experimentId]/stop - Stop splitting calls; the live prompt answers every call again
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; experimentId: string }> }
+) {
+  try {
+    const { id, experimentId } = await params;
+    if (!isValidUUID(experimentId)) {
+      return NextResponse.json({ error: "Invalid experiment ID" }, { status: 400 });
+    }
+
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
+
+    const { data: experiment, error } = await (supabase
+      .from("assistant_experiments") as any)
+      .update({ status: "stopped", stopped_at: new Date().toISOString() })
+      .eq("id", experimentId)
+      .eq("assistant_id", id)
+      .eq("organization_id", organizationId)
+      .eq("status", "running")
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!experiment) {
+      return NextResponse.json({ error: "Running experiment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(experiment);
+  } catch (error) {
+    console.error("Error stopping experiment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { z } from "zod";
+import { createExperimentSchema, loadExperimentResults, variantLabel } from "@/lib/assistants/experiments";
+
+// GET /api/v1/assistants/[id]/experiments - List an assistant's experiments with per-variant results
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
+
+    const experiments = await loadExperimentResults(supabase, organizationId, { assistantId: id });
+    return NextResponse.json({ experiments });
+  } catch (error) {
+    console.error("Error listing experiments:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v1/assistants/[id]/experiments - Start splitting calls between prompt revisions
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
+
+    const body = await request.json();
+    const validatedData = createExperimentSchema.parse(body);
+
+    const revisionIds = validatedData.variants.map((v) => v.revisionId);
+    const { data: revisions } = await (supabase
+      .from("assistant_revisions") as any)
+      .select("id")
+      .eq("assistant_id", id)
+      .eq("organization_id", organizationId)
+      .in("id", revisionIds);
+
+    if ((revisions || []).length !== revisionIds.length) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    const { data: experiment, error } = await (supabase
+      .from("assistant_experiments") as any)
+      .insert({
+        assistant_id: id,
+        organization_id: organizationId,
+        name: validatedData.name,
+        created_by: auth.context.userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // idx_assistant_experiments_one_running
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "This assistant already has a running experiment. Stop it first." },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { data: variants, error: variantsError } = await (supabase
+      .from("assistant_experiment_variants") as any)
+      .insert(
+        validatedData.variants.map((variant, index) => ({
+          experiment_id: experiment.id,
+          organization_id: organizationId,
+          revision_id: variant.revisionId,
+          label: variantLabel(index),
+          weight: variant.weight,
+          position: index,
+        }))
+      )
+      .select();
+
+    if (variantsError) {
+      // An experiment without variants would never split anything
+      await (supabase.from("assistant_experiments") as any).delete().eq("id", experiment.id);
+      return NextResponse.json({ error: variantsError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ...experiment, variants }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating experiment:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { isValidUUID } from "@/lib/security/validation";
+import { rollbackNote, type AssistantRevision } from "@/lib/assistants/revisions";
+import { restoreAssistantRevision } from "@/lib/assistants/restore";
+
+// POST /api/v1/assistants/[id]/revisions/[revisionId]/rollback - Restore an earlier prompt
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+    if (!isValidUUID(revisionId)) {
+      return NextResponse.json({ error: "Invalid revision ID" }, { status: 400 });
+    }
+
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
+
+    const { data: revision } = await (supabase
+      .from("assistant_revisions") as any)
+      .select("*")
+      .eq("id", revisionId)
+      .eq("assistant_id", id)
+      .eq("organization_id", organizationId)
+      .single() as { data: AssistantRevision | null };
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    // The rollback is itself a new revision, so history only ever grows
+    const result = await restoreAssistantRevision(supabase, organizationId, revision, {
+      note: rollbackNote(revision.revision_number),
+      createdBy: auth.context.userId,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error rolling back assistant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
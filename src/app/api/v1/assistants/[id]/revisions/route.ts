@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { REVISION_HISTORY_LIMIT } from "@/lib/assistants/revisions";
+
+// GET /api/v1/assistants/[id]/revisions - List an assistant's prompt revisions, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
+
+    const { data: assistant } = await (supabase
+      .from("assistants") as any)
+      .select("id, current_revision_id")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single() as { data: { id: string; current_revision_id: string | null } | null };
+
+    if (!assistant) {
+      return NextResponse.json({ error: "Assistant not found" }, { status: 404 });
+    }
+
+    const { data: revisions, error } = await (supabase
+      .from("assistant_revisions") as any)
+      .select("id, revision_number, system_prompt, prompt_config, first_message, note, created_by, restored_from_revision_id, created_at, author:user_profiles(full_name, email)")
+      .eq("assistant_id", id)
+      .eq("organization_id", organizationId)
+      .order("revision_number", { ascending: false })
+      .limit(REVISION_HISTORY_LIMIT);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      currentRevisionId: assistant.current_revision_id,
+      revisions: revisions || [],
+    });
+  } catch (error) {
+    console.error("Error listing assistant revisions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,22 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { authenticateApiRequest, canManageOrg } from "@/lib/security/api-auth";
 import { getVapiClient, ensureCalendarTools, buildVapiServerConfig } from "@/lib/vapi";
-import { buildAnalysisPlan, buildPromptFromConfig, buildSchedulingSection, promptConfigSchema } from "@/lib/prompt-builder";
+import { buildAnalysisPlan, buildPromptFromConfig, buildSchedulingSection, promptConfigSchema, upgradePromptConfig } from "@/lib/prompt-builder";
 import type { PromptContext } from "@/lib/prompt-builder";
 import { RECORDING_DECLINE_SYSTEM_INSTRUCTION, buildFirstMessageWithDisclosure, resolveRecordingSettings } from "@/lib/templates";
-import type { PromptConfig } from "@/lib/prompt-builder/types";
+import type { PromptConfig, PromptConfigV1 } from "@/lib/prompt-builder/types";
 import { getOrgScheduleContext } from "@/lib/supabase/get-org-schedule-context";
 import { getAggregatedKnowledgeBase } from "@/lib/knowledge-base";
 import { z } from "zod";
 import { resolveVoiceId } from "@/lib/voices";
-
-interface Membership {
-  organization_id: string;
-  role?: string;
-}
+import {
+  assistantLanguagesSchema,
+  buildLanguageSection,
+  buildSummaryPrompt,
+  buildVapiTranscriber,
+  resolveAssistantLanguages,
+} from "@/lib/languages/languages";
+import { MAX_REVISION_NOTE_LENGTH, createAssistantRevision } from "@/lib/assistants/revisions";
 
 interface Assistant {
   id: string;
@@ -47,7 +50,10 @@ const updateAssistantSchema = z.object({
     maxCallDuration: z.number().optional(),
     spamFilterEnabled: z.boolean().optional(),
     industry: z.string().optional(),
+    languages: assistantLanguagesSchema.optional(),
   }).passthrough().optional(),
+  /** Short note recorded on the prompt revision this save creates */
+  note: z.string().trim().max(MAX_REVISION_NOTE_LENGTH).optional(),
 });
 
 // GET /api/v1/assistants/[id] - Get a single assistant
@@ -57,29 +63,15 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user's organization
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("organization_id")
-      .eq("user_id", user.id)
-      .single() as { data: Membership | null };
-
-    if (!membership) {
-      return NextResponse.json({ error: "No organization found" }, { status: 404 });
-    }
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
     const { data: assistant, error } = await (supabase
       .from("assistants") as any)
       .select("*")
       .eq("id", id)
-      .eq("organization_id", membership.organization_id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (error || !assistant) {
@@ -103,30 +95,16 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user's organization
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("organization_id")
-      .eq("user_id", user.id)
-      .single() as { data: Membership | null };
-
-    if (!membership) {
-      return NextResponse.json({ error: "No organization found" }, { status: 404 });
-    }
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
     // Get current assistant
     const { data: currentAssistant } = await (supabase
       .from("assistants") as any)
       .select("*")
       .eq("id", id)
-      .eq("organization_id", membership.organization_id)
+      .eq("organization_id", organizationId)
       .single() as { data: Assistant | null };
 
     if (!currentAssistant) {
@@ -147,6 +125,7 @@ export async function PATCH(
       ...(validatedData.settings || {}),
     };
     const { recordingEnabled, recordingDisclosure } = resolveRecordingSettings(mergedSettings);
+    const languages = resolveAssistantLanguages(mergedSettings);
 
     // Sync relevant changes to Vapi
     if (currentAssistant.vapi_assistant_id) {
@@ -157,13 +136,14 @@ export async function PATCH(
         vapiUpdate.name = validatedData.name;
       }
 
-      // Only rebuild model when prompt, model, or recording settings change
+      // Only rebuild model when prompt, model, recording or language settings change
       const needsModelUpdate =
         validatedData.systemPrompt ||
         validatedData.promptConfig !== undefined ||
         validatedData.model ||
         validatedData.modelProvider ||
-        validatedData.settings?.recordingEnabled !== undefined;
+        validatedData.settings?.recordingEnabled !== undefined ||
+        validatedData.settings?.languages !== undefined;
 
       if (needsModelUpdate) {
         let toolIds: string[];
@@ -187,16 +167,22 @@ export async function PATCH(
           timezone: orgTimezone,
           businessHours: orgBusinessHours,
           defaultAppointmentDuration,
-        } = await getOrgScheduleContext(supabase, membership.organization_id, "assistant update");
+          services,
+          staffNames,
+          specialHours,
+          ownerLanguage,
+        } = await getOrgScheduleContext(supabase, organizationId, "assistant update");
 
         const aggregatedKB = await getAggregatedKnowledgeBase(
           supabase,
-          membership.organization_id
+          organizationId
         );
 
         let vapiSystemPrompt = rawPrompt;
+        let analysisPlan: ReturnType<typeof buildAnalysisPlan> = null;
         if (promptConfig) {
-          const config = promptConfig as PromptConfig;
+          const config = upgradePromptConfig(promptConfig as PromptConfig | PromptConfigV1);
+          analysisPlan = buildAnalysisPlan(config);
           const industry = mergedSettings.industry || "other";
           const promptContext: PromptContext = {
             businessName: validatedData.name || currentAssistant.name,
@@ -205,6 +191,10 @@ export async function PATCH(
             timezone: orgTimezone,
             businessHours: orgBusinessHours,
             defaultAppointmentDuration,
+            services,
+            staffNames,
+            specialHours,
+            languages,
           };
           vapiSystemPrompt = buildPromptFromConfig(config, promptContext);
         } else {
@@ -216,7 +206,9 @@ export async function PATCH(
             }
           }
           // For legacy prompts, append scheduling context
-          vapiSystemPrompt += `\n\n${buildSchedulingSection(orgTimezone, orgBusinessHours, defaultAppointmentDuration)}`;
+          vapiSystemPrompt += `\n\n${buildSchedulingSection(orgTimezone, orgBusinessHours, defaultAppointmentDuration, services, staffNames, specialHours)}`;
+          const languageSection = buildLanguageSection(languages[0], languages);
+          if (languageSection) vapiSystemPrompt += `\n\n${languageSection}`;
         }
 
         // When recording is on, instruct the AI to handle opt-out requests
@@ -230,6 +222,7 @@ export async function PATCH(
           messages: [{ role: "system", content: vapiSystemPrompt }],
           toolIds,
         };
+        vapiUpdate.analysisPlan = { ...analysisPlan, summaryPrompt: buildSummaryPrompt(ownerLanguage) };
       }
 
       if (validatedData.voiceId || validatedData.voiceProvider) {
@@ -255,20 +248,16 @@ export async function PATCH(
         vapiUpdate.recordingEnabled = recordingEnabled;
       }
 
+      if (validatedData.settings?.languages !== undefined) {
+        vapiUpdate.transcriber = buildVapiTranscriber(languages);
+      }
+
       // Attach webhook server config if APP_URL is configured
       const serverConfig = buildVapiServerConfig();
       if (serverConfig) {
         vapiUpdate.server = serverConfig;
       }
 
-      // Build analysis plan from prompt config if provided
-      if (validatedData.promptConfig) {
-        const analysisPlan = buildAnalysisPlan(validatedData.promptConfig);
-        if (analysisPlan) {
-          vapiUpdate.analysisPlan = analysisPlan;
-        }
-      }
-
       if (Object.keys(vapiUpdate).length > 0) {
         try {
           await vapi.updateAssistant(currentAssistant.vapi_assistant_id, vapiUpdate);
@@ -298,7 +287,7 @@ export async function PATCH(
       .from("assistants") as any)
       .update(updateData)
       .eq("id", id)
-      .eq("organization_id", membership.organization_id)
+      .eq("organization_id", organizationId)
       .select()
       .single();
 
@@ -306,6 +295,15 @@ export async function PATCH(
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    // Every prompt save is kept as a revision that can be diffed and rolled back to
+    if (validatedData.systemPrompt || validatedData.firstMessage || validatedData.promptConfig !== undefined) {
+      const revision = await createAssistantRevision(supabase, id, {
+        note: validatedData.note,
+        createdBy: auth.context.userId,
+      });
+      if (revision) assistant.current_revision_id = revision.id;
+    }
+
     return NextResponse.json(assistant);
   } catch (error) {
     console.error("Error updating assistant:", error);
@@ -329,25 +327,11 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user's organization and check admin role
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("organization_id, role")
-      .eq("user_id", user.id)
-      .single() as { data: Membership | null };
-
-    if (!membership) {
-      return NextResponse.json({ error: "No organization found" }, { status: 404 });
-    }
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
-    if (!["owner", "admin"].includes(membership.role || "")) {
+    if (!canManageOrg(auth.context)) {
       return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
     }
 
@@ -356,7 +340,7 @@ export async function DELETE(
       .from("assistants") as any)
       .select("vapi_assistant_id")
       .eq("id", id)
-      .eq("organization_id", membership.organization_id)
+      .eq("organization_id", organizationId)
       .single() as { data: { vapi_assistant_id: string | null } | null };
 
     if (!assistant) {
@@ -378,7 +362,7 @@ export async function DELETE(
       .from("assistants") as any)
       .delete()
       .eq("id", id)
-      .eq("organization_id", membership.organization_id);
+      .eq("organization_id", organizationId);
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
 import { getVapiClient, ensureCalendarTools, buildVapiServerConfig } from "@/lib/vapi";
 import { buildAnalysisPlan, buildPromptFromConfig, buildSchedulingSection, promptConfigSchema } from "@/lib/prompt-builder";
 import type { PromptContext } from "@/lib/prompt-builder";
@@ -9,10 +9,14 @@ import { getOrgScheduleContext } from "@/lib/supabase/get-org-schedule-context";
 import { getAggregatedKnowledgeBase } from "@/lib/knowledge-base";
 import { z } from "zod";
 import { resolveVoiceId, DEFAULT_VOICE_ID } from "@/lib/voices";
-
-interface Membership {
-  organization_id: string;
-}
+import {
+  assistantLanguagesSchema,
+  buildLanguageSection,
+  buildSummaryPrompt,
+  buildVapiTranscriber,
+  resolveAssistantLanguages,
+} from "@/lib/languages/languages";
+import { createAssistantRevision } from "@/lib/assistants/revisions";
 
 const createAssistantSchema = z.object({
   name: z.string().min(1).max(100),
@@ -31,6 +35,7 @@ const createAssistantSchema = z.object({
     maxCallDuration: z.number().optional(),
     spamFilterEnabled: z.boolean().optional(),
     industry: z.string().optional(),
+    languages: assistantLanguagesSchema.optional(),
   }).passthrough().optional(),
 });
 
@@ -44,30 +49,16 @@ function normalizeVoiceProvider(provider: string): string {
 }
 
 // GET /api/v1/assistants - List all assistants
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user's organization
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("organization_id")
-      .eq("user_id", user.id)
-      .single() as { data: Membership | null };
-
-    if (!membership) {
-      return NextResponse.json({ error: "No organization found" }, { status: 404 });
-    }
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
     const { data: assistants, error } = await (supabase
       .from("assistants") as any)
       .select("*")
-      .eq("organization_id", membership.organization_id)
+      .eq("organization_id", organizationId)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -87,23 +78,9 @@ export async function GET() {
 // POST /api/v1/assistants - Create a new assistant
 export async function POST(request: Request) {
   try {
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user's organization
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("organization_id")
-      .eq("user_id", user.id)
-      .single() as { data: Membership | null };
-
-    if (!membership) {
-      return NextResponse.json({ error: "No organization found" }, { status: 404 });
-    }
+    const auth = await authenticateApiRequest(request, "assistants:manage", "/api/v1/assistants");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
     const body = await request.json();
     const validatedData = createAssistantSchema.parse(body);
@@ -115,7 +92,7 @@ export async function POST(request: Request) {
     const { data: assistant, error } = await (supabase
       .from("assistants") as any)
       .insert({
-        organization_id: membership.organization_id,
+        organization_id: organizationId,
         name: validatedData.name,
         vapi_assistant_id: null, // Will be updated if Vapi creation succeeds
         system_prompt: validatedData.systemPrompt,
@@ -137,6 +114,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    // The initial prompt is revision 1
+    const revision = await createAssistantRevision(supabase, assistant.id, {
+      note: "Assistant created",
+      createdBy: auth.context.userId,
+    });
+    if (revision) assistant.current_revision_id = revision.id;
+
     // 2. Attempt Vapi creation silently (non-fatal — self-hosted is primary)
     try {
       const serverConfig = buildVapiServerConfig();
@@ -144,14 +128,16 @@ export async function POST(request: Request) {
         ? buildAnalysisPlan(validatedData.promptConfig)
         : null;
 
-      const { timezone: orgTimezone, businessHours: orgBusinessHours, defaultAppointmentDuration } =
-        await getOrgScheduleContext(supabase, membership.organization_id, "assistant creation");
+      const { timezone: orgTimezone, businessHours: orgBusinessHours, defaultAppointmentDuration, services, staffNames, specialHours, ownerLanguage } =
+        await getOrgScheduleContext(supabase, organizationId, "assistant creation");
 
       const aggregatedKB = await getAggregatedKnowledgeBase(
         supabase,
-        membership.organization_id
+        organizationId
       );
 
+      const languages = resolveAssistantLanguages(validatedData.settings);
+
       let vapiSystemPrompt = validatedData.systemPrompt;
       if (validatedData.promptConfig) {
         const config = validatedData.promptConfig as PromptConfig;
@@ -163,6 +149,10 @@ export async function POST(request: Request) {
           timezone: orgTimezone,
           businessHours: orgBusinessHours,
           defaultAppointmentDuration,
+          services,
+          staffNames,
+          specialHours,
+          languages,
         };
         vapiSystemPrompt = buildPromptFromConfig(config, promptContext);
       } else if (aggregatedKB) {
@@ -177,7 +167,9 @@ export async function POST(request: Request) {
       }
 
       if (!validatedData.promptConfig) {
-        vapiSystemPrompt += `\n\n${buildSchedulingSection(orgTimezone, orgBusinessHours, defaultAppointmentDuration)}`;
+        vapiSystemPrompt += `\n\n${buildSchedulingSection(orgTimezone, orgBusinessHours, defaultAppointmentDuration, services, staffNames, specialHours)}`;
+        const languageSection = buildLanguageSection(languages[0], languages);
+        if (languageSection) vapiSystemPrompt += `\n\n${languageSection}`;
       }
 
       const toolIds = await ensureCalendarTools();
@@ -206,16 +198,12 @@ export async function POST(request: Request) {
           voiceId: validatedData.voiceId,
         },
         firstMessage: vapiFirstMessage,
-        transcriber: {
-          provider: "deepgram",
-          model: "nova-2",
-          language: "en",
-        },
+        transcriber: buildVapiTranscriber(languages),
         server: serverConfig,
         recordingEnabled,
-        ...(analysisPlan && { analysisPlan }),
+        analysisPlan: { ...analysisPlan, summaryPrompt: buildSummaryPrompt(ownerLanguage) },
         metadata: {
-          organizationId: membership.organization_id,
+          organizationId: organizationId,
         },
       });
 
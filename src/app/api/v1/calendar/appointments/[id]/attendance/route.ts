@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { isValidUUID } from "@/lib/security/validation";
+
+const attendanceSchema = z.object({
+  status: z.enum(["completed", "no_show"]),
+});
+
+/**
+ * POST /api/v1/calendar/appointments/[id]/attendance
+ *
+ * Record whether the caller turned up to a past appointment. Feeds the
+ * no-show rate on the analytics page.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid appointment ID" }, { status: 400 });
+    }
+
+    const auth = await authenticateApiRequest(
+      request,
+      "appointments:write",
+      "/api/v1/calendar/appointments"
+    );
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
+
+    const body = await request.json().catch(() => ({}));
+    const validated = attendanceSchema.parse(body);
+
+    const { data: appointment, error: loadError } = await (supabase as any)
+      .from("appointments")
+      .select("id, status, start_time")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+
+    if (loadError) throw loadError;
+    if (!appointment) {
+      return NextResponse.json({ error: "Appointment not found" }, { status: 404 });
+    }
+
+    if (!["confirmed", "pending", "completed", "no_show"].includes(appointment.status)) {
+      return NextResponse.json(
+        { error: `Attendance can't be recorded for a ${appointment.status} appointment` },
+        { status: 422 }
+      );
+    }
+
+    if (new Date(appointment.start_time) > new Date()) {
+      return NextResponse.json(
+        { error: "Attendance can only be recorded once the appointment has started" },
+        { status: 422 }
+      );
+    }
+
+    const { data: updated, error: updateError } = await (supabase as any)
+      .from("appointments")
+      .update({ status: validated.status })
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .select("*")
+      .single();
+
+    if (updateError) throw updateError;
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error recording attendance:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { isValidUUID } from "@/lib/security/validation";
+import { cancelAppointmentById } from "@/lib/calendar/tool-handlers";
+
+const cancelSchema = z.object({
+  scope: z.enum(["this", "following"]).default("this"),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/v1/calendar/appointments/[id]/cancel
+ *
+ * Cancel an appointment. For a recurring series, `scope: "following"`
+ * also cancels every later occurrence.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid appointment ID" }, { status: 400 });
+    }
+
+    const auth = await authenticateApiRequest(
+      request,
+      "appointments:write",
+      "/api/v1/calendar/appointments"
+    );
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json().catch(() => ({}));
+    const validated = cancelSchema.parse(body);
+
+    const result = await cancelAppointmentById(auth.context.organizationId, id, validated);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 422 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error cancelling appointment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { isValidUUID } from "@/lib/security/validation";
+import { rescheduleAppointmentById } from "@/lib/calendar/tool-handlers";
+
+const rescheduleSchema = z.object({
+  datetime: z.string().min(1),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/v1/calendar/appointments/[id]/reschedule
+ *
+ * Move an appointment to a new time. The original row is marked
+ * `rescheduled` and the response carries the id of the replacement.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid appointment ID" }, { status: 400 });
+    }
+
+    const auth = await authenticateApiRequest(
+      request,
+      "appointments:write",
+      "/api/v1/calendar/appointments"
+    );
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    const validated = rescheduleSchema.parse(body);
+
+    const result = await rescheduleAppointmentById(auth.context.organizationId, id, validated);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 422 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error rescheduling appointment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
+import { handleBookAppointment } from "@/lib/calendar/tool-handlers";
+import { MAX_OCCURRENCES, RECURRENCE_FREQUENCIES } from "@/lib/calendar/recurrence";
 import {
   startOfMonth,
   endOfMonth,
@@ -10,39 +13,34 @@ import {
   parseISO,
 } from "date-fns";
 
+const createAppointmentSchema = z.object({
+  datetime: z.string().min(1),
+  name: z.string().min(1).max(100),
+  phone: z.string().min(1).max(30),
+  email: z.string().email().optional(),
+  notes: z.string().max(500).optional(),
+  service: z.string().min(1).max(100).optional(),
+  staff: z.string().min(1).max(100).optional(),
+  recurrence: z.enum(RECURRENCE_FREQUENCIES).optional(),
+  occurrences: z.number().int().min(1).max(MAX_OCCURRENCES).optional(),
+  skip_conflicts: z.boolean().optional(),
+});
+
 /**
  * GET /api/v1/calendar/appointments?month=2026-02
  *
  * Returns appointments for the visible calendar grid range and stats.
+ * Accepts a session or an API key with the appointments:write scope.
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user's organization
-    const { data: membership } = await (supabase as any)
-      .from("org_members")
-      .select("organization_id")
-      .eq("user_id", user.id)
-      .single();
-
-    if (!membership) {
-      return NextResponse.json(
-        { error: "No organization found" },
-        { status: 404 }
-      );
-    }
-
-    const organizationId = membership.organization_id as string;
+    const auth = await authenticateApiRequest(
+      request,
+      "appointments:write",
+      "/api/v1/calendar/appointments"
+    );
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
     // Parse month param (YYYY-MM format)
     const monthParam = request.nextUrl.searchParams.get("month");
@@ -69,7 +67,7 @@ export async function GET(request: NextRequest) {
     // Fetch appointments in range
     const { data: appointments, error: apptError } = await (supabase as any)
       .from("appointments")
-      .select("*")
+      .select("*, appointment_series(frequency, occurrences)")
       .eq("organization_id", organizationId)
       .gte("start_time", gridStart.toISOString())
       .lte("start_time", gridEnd.toISOString())
@@ -82,7 +80,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Compute stats (today / this week / this month), excluding cancelled
+    // Compute stats (today / this week / this month), excluding cancelled and superseded (rescheduled) rows
     const now = new Date();
     const todayStart = startOfDay(now);
     const todayEnd = endOfDay(now);
@@ -96,21 +94,21 @@ export async function GET(request: NextRequest) {
         .from("appointments")
         .select("id", { count: "exact", head: true })
         .eq("organization_id", organizationId)
-        .neq("status", "cancelled")
+        .not("status", "in", "(cancelled,rescheduled)")
         .gte("start_time", todayStart.toISOString())
         .lte("start_time", todayEnd.toISOString()),
       (supabase as any)
         .from("appointments")
         .select("id", { count: "exact", head: true })
         .eq("organization_id", organizationId)
-        .neq("status", "cancelled")
+        .not("status", "in", "(cancelled,rescheduled)")
         .gte("start_time", weekStart.toISOString())
         .lte("start_time", weekEnd.toISOString()),
       (supabase as any)
         .from("appointments")
         .select("id", { count: "exact", head: true })
         .eq("organization_id", organizationId)
-        .neq("status", "cancelled")
+        .not("status", "in", "(cancelled,rescheduled)")
         .gte("start_time", thisMonthStart.toISOString())
         .lte("start_time", thisMonthEnd.toISOString()),
     ]);
@@ -130,3 +128,39 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * POST /api/v1/calendar/appointments
+ *
+ * Book an appointment from the back office. Goes through the same
+ * validation (business hours, overlaps, Cal.com) as the voice agent.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(
+      request,
+      "appointments:write",
+      "/api/v1/calendar/appointments"
+    );
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    const validated = createAppointmentSchema.parse(body);
+
+    const result = await handleBookAppointment(auth.context.organizationId, validated);
+
+    return NextResponse.json(result, { status: result.success ? 201 : 422 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating appointment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,11 @@ import {
   saveCalendarIntegration,
   deleteCalendarIntegration,
 } from "@/lib/calendar/cal-com";
+import {
+  CALENDAR_PROVIDER_IDS,
+  deactivateOtherCalendarProviders,
+  type CalendarProviderId,
+} from "@/lib/calendar/providers";
 
 /**
  * POST /api/v1/calendar/integration
@@ -89,6 +94,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Only one calendar provider is active at a time
+    await deactivateOtherCalendarProviders(organizationId, "cal_com");
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     console.error("Save calendar integration error:", error);
@@ -102,7 +110,7 @@ export async function POST(request: NextRequest) {
 /**
  * DELETE /api/v1/calendar/integration
  *
- * Remove Cal.com integration
+ * Remove a calendar integration (Cal.com by default, or body.provider)
  */
 export async function DELETE(request: NextRequest) {
   try {
@@ -119,7 +127,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { organizationId } = body;
+    const { organizationId, provider = "cal_com" } = body;
 
     if (!organizationId) {
       return NextResponse.json(
@@ -128,6 +136,13 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    if (!CALENDAR_PROVIDER_IDS.includes(provider as CalendarProviderId)) {
+      return NextResponse.json(
+        { error: "Unsupported calendar provider" },
+        { status: 400 }
+      );
+    }
+
     // Verify user belongs to this organization
     const { data: membership } = await (supabase as any)
       .from("org_members")
@@ -144,7 +159,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Delete the integration
-    const success = await deleteCalendarIntegration(organizationId);
+    const success = await deleteCalendarIntegration(organizationId, provider);
 
     if (!success) {
       return NextResponse.json(
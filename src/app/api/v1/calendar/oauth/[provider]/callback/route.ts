@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { timingSafeCompare } from "@/lib/security/validation";
+import {
+  OAUTH_STATE_COOKIE,
+  exchangeAuthorizationCode,
+  fetchAccountEmail,
+  isOAuthCalendarProvider,
+  saveOAuthCalendarIntegration,
+} from "@/lib/calendar/providers/oauth";
+import { deactivateOtherCalendarProviders } from "@/lib/calendar/providers";
+
+/**
+ * GET /api/v1/calendar/oauth/[provider]/callback
+ *
+ * OAuth redirect target. Verifies the state cookie, stores the tokens for
+ * the user's organization and sends them back to calendar settings.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const settingsUrl = new URL("/settings/calendar", request.url);
+
+  const redirectWith = (key: "connected" | "error", value: string) => {
+    settingsUrl.searchParams.set(key, value);
+    const response = NextResponse.redirect(settingsUrl);
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/v1/calendar/oauth" });
+    return response;
+  };
+
+  if (!isOAuthCalendarProvider(provider)) {
+    return redirectWith("error", "unsupported_provider");
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const code = searchParams.get("code");
+  const state = searchParams.get("state");
+
+  // User declined consent (or the provider rejected the request)
+  if (searchParams.get("error")) {
+    return redirectWith("error", "access_denied");
+  }
+
+  const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!code || !state || !expectedState || !timingSafeCompare(expectedState, `${provider}:${state}`)) {
+    return redirectWith("error", "invalid_state");
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.redirect(new URL("/login", request.url));
+  }
+
+  const { data: membership } = await (supabase as any)
+    .from("org_members")
+    .select("organization_id")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!membership) {
+    return redirectWith("error", "no_organization");
+  }
+
+  try {
+    const tokens = await exchangeAuthorizationCode(provider, code);
+    const accountEmail = await fetchAccountEmail(provider, tokens.accessToken);
+
+    const saved = await saveOAuthCalendarIntegration(
+      membership.organization_id,
+      provider,
+      tokens,
+      accountEmail
+    );
+    if (!saved) {
+      return redirectWith("error", "save_failed");
+    }
+
+    await deactivateOtherCalendarProviders(membership.organization_id, provider);
+
+    return redirectWith("connected", provider);
+  } catch (error) {
+    console.error("[CalendarOAuth] Callback failed:", {
+      provider,
+      organizationId: membership.organization_id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return redirectWith("error", "exchange_failed");
+  }
+}
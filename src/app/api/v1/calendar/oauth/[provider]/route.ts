@@ -0,0 +1,58 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import {
+  OAUTH_STATE_COOKIE,
+  buildAuthorizationUrl,
+  isOAuthCalendarProvider,
+  isOAuthProviderConfigured,
+} from "@/lib/calendar/providers/oauth";
+
+/**
+ * GET /api/v1/calendar/oauth/[provider]
+ *
+ * Start connecting Google Calendar or Outlook: set a CSRF state cookie and
+ * redirect to the provider's consent screen.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  if (!isOAuthCalendarProvider(provider)) {
+    return NextResponse.json({ error: "Unsupported calendar provider" }, { status: 400 });
+  }
+
+  const { allowed, headers } = withRateLimit(request, "/api/v1/calendar/oauth", "standard");
+  if (!allowed) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.redirect(new URL("/login", request.url));
+  }
+
+  const settingsUrl = new URL("/settings/calendar", request.url);
+
+  if (!isOAuthProviderConfigured(provider)) {
+    settingsUrl.searchParams.set("error", "not_configured");
+    return NextResponse.redirect(settingsUrl);
+  }
+
+  const state = crypto.randomBytes(24).toString("hex");
+  const response = NextResponse.redirect(buildAuthorizationUrl(provider, state));
+  response.cookies.set(OAUTH_STATE_COOKIE, `${provider}:${state}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/api/v1/calendar/oauth",
+    maxAge: 10 * 60,
+  });
+
+  return response;
+}
@@ -0,0 +1,166 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import {
+  CALLER_RULE_ACTIONS,
+  CALLER_RULE_COLUMNS,
+  CALLER_RULE_MATCH_TYPES,
+  normalizeRulePattern,
+  type CallerRule,
+} from "@/lib/spam/caller-rules";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const updateCallerRuleSchema = z.object({
+  match_type: z.enum(CALLER_RULE_MATCH_TYPES).optional(),
+  phone_pattern: z.string().trim().min(1).max(30).optional(),
+  action: z.enum(CALLER_RULE_ACTIONS).optional(),
+  transfer_to_phone: z.string().trim().regex(/^\+[1-9]\d{6,14}$/, "Use + and the country code").nullable().optional(),
+  transfer_to_name: z.string().trim().max(100).nullable().optional(),
+  label: z.string().trim().max(100).nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// PATCH /api/v1/caller-rules/[id]
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid rule ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/caller-rules", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validated = updateCallerRuleSchema.parse(body);
+
+    const { data: existing } = (await (supabase.from("caller_rules") as any)
+      .select(CALLER_RULE_COLUMNS)
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .single()) as { data: CallerRule | null };
+
+    if (!existing) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    // Validate the rule as it will be after the update
+    const merged = { ...existing, ...validated };
+    const pattern = normalizeRulePattern(merged.match_type, merged.phone_pattern);
+    if (!pattern) {
+      return NextResponse.json(
+        {
+          error: merged.match_type === "prefix"
+            ? "Prefixes must start with + and the country code"
+            : "Enter a full phone number",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (merged.action === "transfer" && !merged.transfer_to_phone) {
+      return NextResponse.json({ error: "Transfer rules need a number to transfer to" }, { status: 400 });
+    }
+
+    const { data: rule, error } = await (supabase.from("caller_rules") as any)
+      .update({
+        match_type: merged.match_type,
+        phone_pattern: pattern,
+        action: merged.action,
+        transfer_to_phone: merged.action === "transfer" ? merged.transfer_to_phone : null,
+        transfer_to_name: merged.action === "transfer" ? merged.transfer_to_name || null : null,
+        label: merged.label || null,
+        is_active: merged.is_active,
+      })
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .select(CALLER_RULE_COLUMNS)
+      .single();
+
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: "There is already a rule for this number" }, { status: 409 });
+    }
+    if (error || !rule) {
+      console.error("Failed to update caller rule:", error);
+      return NextResponse.json({ error: "Failed to update caller rule" }, { status: 500 });
+    }
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating caller rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/v1/caller-rules/[id] - Calls already matched keep their recorded action
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid rule ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/caller-rules", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { data: deleted, error } = await (supabase.from("caller_rules") as any)
+      .delete()
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .select("id")
+      .single();
+
+    if (error || !deleted) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting caller rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
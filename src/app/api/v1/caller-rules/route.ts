@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import {
+  CALLER_RULE_ACTIONS,
+  CALLER_RULE_COLUMNS,
+  CALLER_RULE_MATCH_TYPES,
+  MAX_CALLER_RULES,
+  normalizeRulePattern,
+} from "@/lib/spam/caller-rules";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const createCallerRuleSchema = z.object({
+  match_type: z.enum(CALLER_RULE_MATCH_TYPES),
+  phone_pattern: z.string().trim().min(1).max(30),
+  action: z.enum(CALLER_RULE_ACTIONS),
+  transfer_to_phone: z.string().trim().regex(/^\+[1-9]\d{6,14}$/, "Use + and the country code").nullable().optional(),
+  transfer_to_name: z.string().trim().max(100).nullable().optional(),
+  label: z.string().trim().max(100).nullable().optional(),
+  is_active: z.boolean().default(true),
+});
+
+// GET /api/v1/caller-rules - List the org's block, allow and transfer rules
+export async function GET(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/caller-rules", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const { data: rules, error } = await (supabase.from("caller_rules") as any)
+      .select(CALLER_RULE_COLUMNS)
+      .eq("organization_id", membership.organization_id)
+      .order("action", { ascending: true })
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Failed to list caller rules:", error);
+      return NextResponse.json({ error: "Failed to load caller rules" }, { status: 500 });
+    }
+
+    return NextResponse.json(rules || []);
+  } catch (error) {
+    console.error("Error listing caller rules:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/v1/caller-rules - Add a number or prefix rule
+export async function POST(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/caller-rules", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validated = createCallerRuleSchema.parse(body);
+
+    const pattern = normalizeRulePattern(validated.match_type, validated.phone_pattern);
+    if (!pattern) {
+      return NextResponse.json(
+        {
+          error: validated.match_type === "prefix"
+            ? "Prefixes must start with + and the country code"
+            : "Enter a full phone number",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (validated.action === "transfer" && !validated.transfer_to_phone) {
+      return NextResponse.json({ error: "Transfer rules need a number to transfer to" }, { status: 400 });
+    }
+
+    const { count } = await (supabase.from("caller_rules") as any)
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", membership.organization_id);
+
+    if ((count ?? 0) >= MAX_CALLER_RULES) {
+      return NextResponse.json({ error: `You can have up to ${MAX_CALLER_RULES} caller rules` }, { status: 400 });
+    }
+
+    const { data: rule, error } = await (supabase.from("caller_rules") as any)
+      .insert({
+        organization_id: membership.organization_id,
+        match_type: validated.match_type,
+        phone_pattern: pattern,
+        action: validated.action,
+        transfer_to_phone: validated.action === "transfer" ? validated.transfer_to_phone : null,
+        transfer_to_name: validated.action === "transfer" ? validated.transfer_to_name || null : null,
+        label: validated.label || null,
+        is_active: validated.is_active,
+        created_by: user.id,
+      })
+      .select(CALLER_RULE_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json({ error: "There is already a rule for this number" }, { status: 409 });
+      }
+      console.error("Failed to create caller rule:", error);
+      return NextResponse.json({ error: "Failed to create caller rule" }, { status: 500 });
+    }
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating caller rule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,35 +1,16 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
 
-// Type for org_members query result
-interface Membership {
-  organization_id: string;
-  role?: string;
-}
-
-// GET /api/v1/calls/[id] - Get a single call
+// GET /api/v1/calls/[id] - Get a single call (session or API key with calls:read)
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("organization_id")
-      .eq("user_id", user.id)
-      .single() as { data: Membership | null };
-
-    if (!membership) {
-      return NextResponse.json({ error: "No organization found" }, { status: 404 });
-    }
+    const auth = await authenticateApiRequest(request, "calls:read", "/api/v1/calls");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
     const { data: call, error } = await (supabase
       .from("calls") as any)
@@ -39,7 +20,7 @@ export async function GET(
         phone_numbers (id, phone_number, friendly_name)
       `)
       .eq("id", id)
-      .eq("organization_id", membership.organization_id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (error || !call) {
@@ -1,31 +1,12 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { authenticateApiRequest } from "@/lib/security/api-auth";
 
-// Type for org_members query result
-interface Membership {
-  organization_id: string;
-  role?: string;
-}
-
-// GET /api/v1/calls - List all calls
+// GET /api/v1/calls - List all calls (session or API key with calls:read)
 export async function GET(request: Request) {
   try {
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { data: membership } = await supabase
-      .from("org_members")
-      .select("organization_id")
-      .eq("user_id", user.id)
-      .single() as { data: Membership | null };
-
-    if (!membership) {
-      return NextResponse.json({ error: "No organization found" }, { status: 404 });
-    }
+    const auth = await authenticateApiRequest(request, "calls:read", "/api/v1/calls");
+    if (!auth.ok) return auth.response;
+    const { supabase, organizationId } = auth.context;
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
@@ -33,8 +14,8 @@ export async function GET(request: Request) {
     const phoneNumberId = searchParams.get("phoneNumberId");
     const status = searchParams.get("status");
     const direction = searchParams.get("direction");
-    const limit = parseInt(searchParams.get("limit") || "50", 10);
-    const offset = parseInt(searchParams.get("offset") || "0", 10);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get("offset") || "0", 10) || 0, 0);
 
     // Build query
     let query = (supabase
@@ -44,7 +25,7 @@ export async function GET(request: Request) {
         assistants (id, name),
         phone_numbers (id, phone_number, friendly_name)
       `, { count: "exact" })
-      .eq("organization_id", membership.organization_id)
+      .eq("organization_id", organizationId)
       .order("created_at", { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const noteSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// POST /api/v1/contacts/[id]/notes - Add a note to a caller's timeline
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/contacts", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    const body = await request.json();
+    const validated = noteSchema.parse(body);
+
+    const { data: contact } = await (supabase.from("contacts") as any)
+      .select("id")
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .maybeSingle();
+
+    if (!contact) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    const { data: note, error } = await (supabase.from("contact_notes") as any)
+      .insert({
+        contact_id: id,
+        organization_id: membership.organization_id,
+        body: validated.body,
+        created_by: user.id,
+      })
+      .select("id, body, created_at")
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(note, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error adding contact note:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import { MAX_CONTACT_TAGS, MAX_TAG_LENGTH, normalizeTags } from "@/lib/contacts/contacts";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const updateContactSchema = z.object({
+  name: z.string().trim().max(100).nullable().optional(),
+  email: z.string().trim().email().max(254).nullable().optional().or(z.literal("")),
+  tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_CONTACT_TAGS).optional(),
+});
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// PATCH /api/v1/contacts/[id] - Edit a caller's name, email or tags
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/contacts", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    const body = await request.json();
+    const validated = updateContactSchema.parse(body);
+
+    const update: Record<string, unknown> = {};
+    if (validated.name !== undefined) update.name = validated.name || null;
+    if (validated.email !== undefined) update.email = validated.email ? validated.email.toLowerCase() : null;
+    if (validated.tags !== undefined) update.tags = normalizeTags(validated.tags);
+
+    const { data: updated, error } = await (supabase.from("contacts") as any)
+      .update(update)
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .select("id, name, email, tags")
+      .single();
+
+    if (error || !updated) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating contact:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
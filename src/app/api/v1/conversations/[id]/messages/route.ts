@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import { sendStaffReply } from "@/lib/sms/conversation";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const replySchema = z.object({
+  body: z.string().trim().min(1).max(1600),
+});
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// POST /api/v1/conversations/[id]/messages - Text the caller from the org's number
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid conversation ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/conversations", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    const body = await request.json();
+    const validated = replySchema.parse(body);
+
+    try {
+      await sendStaffReply(supabase, membership.organization_id, id, validated.body, user.id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (message === "Conversation not found") {
+        return NextResponse.json({ error: message }, { status: 404 });
+      }
+      console.error("Failed to send staff SMS reply:", { conversationId: id, error: message });
+      return NextResponse.json({ error: "The text couldn't be sent" }, { status: 422 });
+    }
+
+    return NextResponse.json({ sent: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error sending conversation reply:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
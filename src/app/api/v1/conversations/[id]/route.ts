@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const updateConversationSchema = z.object({
+  // active hands the thread back to the AI
+  status: z.enum(["active", "handed_off", "closed"]),
+});
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// PATCH /api/v1/conversations/[id] - Take over, hand back to the AI or close a text thread
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid conversation ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/conversations", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    const body = await request.json();
+    const { status } = updateConversationSchema.parse(body);
+
+    const { data: updated, error } = await (supabase.from("sms_conversations") as any)
+      .update({
+        status,
+        handoff_reason: status === "handed_off" ? "Taken over by a team member" : null,
+      })
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .select("id, status")
+      .single();
+
+    if (error || !updated) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating conversation:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -52,7 +52,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
     const offset = Number.isNaN(rawOffset) ? 0 : Math.max(0, rawOffset);
 
     const { data: logs, error, count } = await (supabase.from("integration_logs") as any)
-      .select("id, event_type, response_status, success, attempted_at, retry_count", {
+      .select("id, event_type, response_status, success, attempted_at, retry_count, next_retry_at, dead_lettered_at", {
         count: "exact",
       })
       .eq("integration_id", id)
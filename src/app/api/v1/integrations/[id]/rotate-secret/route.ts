@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { createClient } from "@/lib/supabase/server";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { safeEncrypt } from "@/lib/security/encryption";
+import { isValidUUID } from "@/lib/security/validation";
+import { SECRET_ROTATION_GRACE_PERIOD_MS } from "@/lib/integrations/webhook-delivery";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+// POST /api/v1/integrations/[id]/rotate-secret — issue a new signing secret.
+// The old one keeps signing alongside it for 24 hours.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid integration ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/integrations/rotate-secret", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { data: integration, error: fetchError } = await (supabase.from("integrations") as any)
+      .select("id, signing_secret")
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .single();
+
+    if (fetchError || !integration) {
+      return NextResponse.json({ error: "Integration not found" }, { status: 404 });
+    }
+
+    const signingSecret = crypto.randomBytes(32).toString("hex");
+    const now = new Date();
+    const previousExpiresAt = new Date(now.getTime() + SECRET_ROTATION_GRACE_PERIOD_MS);
+
+    // Rotating again inside the grace period drops the oldest secret —
+    // only the current and the immediately previous secret are ever valid.
+    const { error: updateError } = await (supabase.from("integrations") as any)
+      .update({
+        signing_secret: safeEncrypt(signingSecret),
+        previous_signing_secret: integration.signing_secret,
+        previous_secret_expires_at: previousExpiresAt.toISOString(),
+        secret_rotated_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id);
+
+    if (updateError) {
+      console.error("Failed to rotate integration signing secret:", { integrationId: id, error: updateError });
+      return NextResponse.json({ error: "Failed to rotate signing secret" }, { status: 500 });
+    }
+
+    // Return the new secret once, like on creation
+    return NextResponse.json({
+      id,
+      signing_secret: signingSecret,
+      previous_secret_expires_at: previousExpiresAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("Error rotating integration signing secret:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
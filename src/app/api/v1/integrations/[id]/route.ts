@@ -4,13 +4,13 @@ import { z } from "zod";
 import { withRateLimit } from "@/lib/security/rate-limiter";
 import { safeEncrypt, safeDecrypt } from "@/lib/security/encryption";
 import { isUrlAllowed, isValidUUID } from "@/lib/security/validation";
-import type { OrgMembership } from "@/lib/integrations/types";
+import { INTEGRATION_EVENT_VALUES, type OrgMembership } from "@/lib/integrations/types";
 
 const updateIntegrationSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   webhook_url: z.string().url().max(2000).optional(),
   events: z
-    .array(z.enum(["call.completed", "call.started", "call.missed", "voicemail.received"]))
+    .array(z.enum(INTEGRATION_EVENT_VALUES))
     .min(1)
     .optional(),
   is_active: z.boolean().optional(),
@@ -78,6 +78,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
       // Don't return the actual encrypted values or signing secret
       webhook_url: undefined,
       signing_secret: undefined,
+      previous_signing_secret: undefined,
     });
   } catch (error) {
     console.error("Error fetching integration:", error);
@@ -119,7 +120,12 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
 
     if (validated.name !== undefined) update.name = validated.name;
     if (validated.events !== undefined) update.events = validated.events;
-    if (validated.is_active !== undefined) update.is_active = validated.is_active;
+    if (validated.is_active !== undefined) {
+      update.is_active = validated.is_active;
+      // Any manual toggle clears an auto-pause and gives the endpoint a fresh start
+      update.auto_paused_at = null;
+      update.consecutive_failures = 0;
+    }
     if (validated.metadata !== undefined) update.metadata = validated.metadata;
 
     if (validated.webhook_url !== undefined) {
@@ -136,7 +142,7 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       .update(update)
       .eq("id", id)
       .eq("organization_id", membership.organization_id)
-      .select("id, name, platform, events, is_active, metadata, updated_at")
+      .select("id, name, platform, events, is_active, auto_paused_at, metadata, updated_at")
       .single();
 
     if (error || !updated) {
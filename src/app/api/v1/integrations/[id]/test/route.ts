@@ -4,26 +4,24 @@ import { createAdminClient } from "@/lib/supabase/admin";
 import { withRateLimit } from "@/lib/security/rate-limiter";
 import { safeDecrypt } from "@/lib/security/encryption";
 import { isUrlAllowed, isValidUUID } from "@/lib/security/validation";
-import { signPayload } from "@/lib/integrations/webhook-delivery";
+import { buildWebhookPayload, getSigningSecrets } from "@/lib/integrations/webhook-delivery";
+import { buildSignatureHeader, SIGNATURE_HEADER } from "@/lib/integrations/signature";
 import type { OrgMembership } from "@/lib/integrations/types";
 
 function buildSamplePayload() {
-  return {
-    event: "call.completed",
-    timestamp: new Date().toISOString(),
-    data: {
-      call_id: "00000000-0000-0000-0000-000000000000",
-      caller_phone: "+61400000000",
-      caller_name: "Test Caller",
-      summary: "This is a test webhook delivery from Hola Recep.",
-      transcript: "AI: Hello, how can I help you today?\nCaller: This is a test call.",
-      duration_seconds: 30,
-      assistant_name: "Test Assistant",
-      outcome: "completed",
-      recording_url: null,
-      collected_data: { test: true },
-    },
-  };
+  return buildWebhookPayload("call.completed", {
+    call_id: "00000000-0000-0000-0000-000000000000",
+    caller_phone: "+61400000000",
+    caller_name: "Test Caller",
+    summary: "This is a test webhook delivery from Hola Recep.",
+    transcript: "AI: Hello, how can I help you today?\nCaller: This is a test call.",
+    duration_seconds: 30,
+    assistant_name: "Test Assistant",
+    outcome: "completed",
+    recording_url: null,
+    collected_data: { test: true },
+    language: "en",
+  });
 }
 
 // POST /api/v1/integrations/[id]/test
@@ -60,7 +58,7 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
     }
 
     const { data: integration, error } = await (supabase.from("integrations") as any)
-      .select("id, webhook_url, signing_secret")
+      .select("id, webhook_url, signing_secret, previous_signing_secret, previous_secret_expires_at")
       .eq("id", id)
       .eq("organization_id", membership.organization_id)
       .single();
@@ -70,7 +68,7 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
     }
 
     const url = safeDecrypt(integration.webhook_url);
-    const secret = safeDecrypt(integration.signing_secret);
+    const secrets = getSigningSecrets(integration);
 
     if (!url || !isUrlAllowed(url)) {
       return NextResponse.json(
@@ -79,7 +77,7 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
       );
     }
 
-    if (!secret) {
+    if (secrets.length === 0) {
       return NextResponse.json(
         { error: "Failed to decrypt signing secret" },
         { status: 500 }
@@ -88,7 +86,7 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
 
     const samplePayload = buildSamplePayload();
     const payloadStr = JSON.stringify(samplePayload);
-    const signature = signPayload(payloadStr, secret);
+    const signature = buildSignatureHeader(payloadStr, secrets);
 
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 10000);
@@ -98,7 +96,7 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "X-HolaRecep-Signature": signature,
+          [SIGNATURE_HEADER]: signature,
           "X-HolaRecep-Event": "call.completed",
           "User-Agent": "HolaRecep-Webhooks/1.0",
         },
@@ -48,7 +48,7 @@ export async function GET(request: Request) {
     );
 
     const { data: logs, error, count } = await (supabase.from("integration_logs") as any)
-      .select("id, integration_id, event_type, response_status, success, attempted_at, retry_count", {
+      .select("id, integration_id, event_type, response_status, success, attempted_at, retry_count, next_retry_at, dead_lettered_at", {
         count: "exact",
       })
       .in("integration_id", integrationIds)
@@ -5,14 +5,14 @@ import crypto from "crypto";
 import { withRateLimit } from "@/lib/security/rate-limiter";
 import { safeEncrypt, safeDecrypt } from "@/lib/security/encryption";
 import { isUrlAllowed } from "@/lib/security/validation";
-import type { OrgMembership } from "@/lib/integrations/types";
+import { INTEGRATION_EVENT_VALUES, type OrgMembership } from "@/lib/integrations/types";
 
 const createIntegrationSchema = z.object({
   name: z.string().min(1).max(100),
   platform: z.enum(["zapier", "make", "google_sheets", "webhook"]).default("webhook"),
   webhook_url: z.string().url().max(2000),
   events: z
-    .array(z.enum(["call.completed", "call.started", "call.missed", "voicemail.received"]))
+    .array(z.enum(INTEGRATION_EVENT_VALUES))
     .min(1)
     .default(["call.completed"]),
   metadata: z.record(z.unknown()).optional().default({}),
@@ -46,7 +46,7 @@ export async function GET(request: Request) {
     }
 
     const { data: integrations, error } = await (supabase.from("integrations") as any)
-      .select("id, name, platform, webhook_url, events, is_active, metadata, created_at, updated_at")
+      .select("id, name, platform, webhook_url, events, is_active, auto_paused_at, metadata, created_at, updated_at")
       .eq("organization_id", membership.organization_id)
       .order("created_at", { ascending: false });
 
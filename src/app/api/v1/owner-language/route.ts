@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { languageCodeSchema } from "@/lib/languages/languages";
+import { resyncOrgAssistants } from "@/lib/knowledge-base";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const ownerLanguageSchema = z.object({
+  language: languageCodeSchema,
+});
+
+// PUT /api/v1/owner-language - Set the language call summaries are written in
+export async function PUT(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/owner-language", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { language } = ownerLanguageSchema.parse(await request.json());
+
+    const { error } = await (supabase.from("organizations") as any)
+      .update({ owner_language: language })
+      .eq("id", membership.organization_id);
+
+    if (error) {
+      console.error("Failed to save owner language:", error);
+      return NextResponse.json({ error: "Failed to save language" }, { status: 500 });
+    }
+
+    // Vapi writes its own summaries, so its assistants get the new summary prompt
+    try {
+      await resyncOrgAssistants(supabase, membership.organization_id);
+    } catch (resyncError) {
+      console.error("Failed to resync assistants after owner language change:", resyncError);
+    }
+
+    return NextResponse.json({ language });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error saving owner language:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import {
+  MAX_SERVICE_BUFFER_MINUTES,
+  SERVICE_COLUMNS,
+  staffBelongToOrg,
+  toServiceResponse,
+} from "@/lib/calendar/services";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const updateServiceSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  duration_minutes: z.number().int().min(5).max(480).optional(),
+  buffer_before_minutes: z.number().int().min(0).max(MAX_SERVICE_BUFFER_MINUTES).optional(),
+  buffer_after_minutes: z.number().int().min(0).max(MAX_SERVICE_BUFFER_MINUTES).optional(),
+  sort_order: z.number().int().min(0).optional(),
+  is_active: z.boolean().optional(),
+  // Replaces the full set of staff who perform this service
+  staff_ids: z.array(z.string().uuid()).max(50).optional(),
+});
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// PATCH /api/v1/services/[id]
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid service ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/services", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { staff_ids, ...validated } = updateServiceSchema.parse(body);
+
+    if (staff_ids && !(await staffBelongToOrg(supabase, membership.organization_id, staff_ids))) {
+      return NextResponse.json({ error: "Unknown staff member" }, { status: 400 });
+    }
+
+    const update: Record<string, unknown> = { ...validated, updated_at: new Date().toISOString() };
+    if (validated.description !== undefined) update.description = validated.description || null;
+
+    const { data: updated, error } = await (supabase.from("services") as any)
+      .update(update)
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .select("id")
+      .single();
+
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: "A service with this name already exists" }, { status: 409 });
+    }
+    if (error || !updated) {
+      return NextResponse.json({ error: "Service not found" }, { status: 404 });
+    }
+
+    if (staff_ids) {
+      const { error: unlinkError } = await (supabase.from("service_staff") as any)
+        .delete()
+        .eq("service_id", id);
+
+      const { error: linkError } = staff_ids.length > 0
+        ? await (supabase.from("service_staff") as any).insert(
+            staff_ids.map((staffId) => ({ service_id: id, staff_member_id: staffId }))
+          )
+        : { error: null };
+
+      if (unlinkError || linkError) {
+        console.error("Failed to update service staff:", unlinkError || linkError);
+        return NextResponse.json({ error: "Failed to assign staff" }, { status: 500 });
+      }
+    }
+
+    const { data: service } = await (supabase.from("services") as any)
+      .select(SERVICE_COLUMNS)
+      .eq("id", id)
+      .single();
+
+    return NextResponse.json(toServiceResponse(service));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error updating service:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/v1/services/[id] - Existing appointments keep their time but lose the service link
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid service ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/services", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { data: deleted, error } = await (supabase.from("services") as any)
+      .delete()
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .select("id")
+      .single();
+
+    if (error || !deleted) {
+      return NextResponse.json({ error: "Service not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting service:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
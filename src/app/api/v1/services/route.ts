@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import {
+  MAX_SERVICE_BUFFER_MINUTES,
+  SERVICE_COLUMNS,
+  staffBelongToOrg,
+  toServiceResponse,
+} from "@/lib/calendar/services";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const createServiceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  duration_minutes: z.number().int().min(5).max(480),
+  buffer_before_minutes: z.number().int().min(0).max(MAX_SERVICE_BUFFER_MINUTES).default(0),
+  buffer_after_minutes: z.number().int().min(0).max(MAX_SERVICE_BUFFER_MINUTES).default(0),
+  sort_order: z.number().int().min(0).default(0),
+  is_active: z.boolean().default(true),
+  staff_ids: z.array(z.string().uuid()).max(50).default([]),
+});
+
+// GET /api/v1/services - List the org's services catalog
+export async function GET(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/services", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const { data: services, error } = await (supabase.from("services") as any)
+      .select(SERVICE_COLUMNS)
+      .eq("organization_id", membership.organization_id)
+      .order("sort_order", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Failed to list services:", error);
+      return NextResponse.json({ error: "Failed to load services" }, { status: 500 });
+    }
+
+    return NextResponse.json((services || []).map(toServiceResponse));
+  } catch (error) {
+    console.error("Error listing services:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/v1/services - Add a service to the catalog
+export async function POST(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/services", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { staff_ids, ...validated } = createServiceSchema.parse(body);
+
+    if (!(await staffBelongToOrg(supabase, membership.organization_id, staff_ids))) {
+      return NextResponse.json({ error: "Unknown staff member" }, { status: 400 });
+    }
+
+    const { data: service, error } = await (supabase.from("services") as any)
+      .insert({
+        organization_id: membership.organization_id,
+        ...validated,
+        description: validated.description || null,
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json({ error: "A service with this name already exists" }, { status: 409 });
+      }
+      console.error("Failed to create service:", error);
+      return NextResponse.json({ error: "Failed to create service" }, { status: 500 });
+    }
+
+    if (staff_ids.length > 0) {
+      const { error: linkError } = await (supabase.from("service_staff") as any).insert(
+        staff_ids.map((staffId) => ({ service_id: service.id, staff_member_id: staffId }))
+      );
+      if (linkError) {
+        console.error("Failed to link service staff:", linkError);
+        return NextResponse.json({ error: "Failed to assign staff" }, { status: 500 });
+      }
+    }
+
+    const { data: created } = await (supabase.from("services") as any)
+      .select(SERVICE_COLUMNS)
+      .eq("id", service.id)
+      .single();
+
+    return NextResponse.json(toServiceResponse(created), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating service:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { normalizeSpamPolicy, spamPolicySchema } from "@/lib/spam/spam-policy";
+import { previewSpamPolicy, type SpamPreviewCall } from "@/lib/spam/spam-detector";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+/** How far back the what-if preview looks */
+const PREVIEW_DAYS = 30;
+
+/** Most recent calls the preview re-scores, fetched a page at a time */
+const MAX_PREVIEW_CALLS = 2000;
+const PAGE_SIZE = 500;
+
+// POST /api/v1/spam-policy/preview - Re-score the last 30 days of calls with an unsaved policy
+export async function POST(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/spam-policy/preview", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const newPolicy = normalizeSpamPolicy(spamPolicySchema.parse(body));
+
+    const { data: org } = await (supabase.from("organizations") as any)
+      .select("spam_policy")
+      .eq("id", membership.organization_id)
+      .single();
+
+    // Only scored calls not decided by a caller rule can change
+    const since = new Date(Date.now() - PREVIEW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const calls: SpamPreviewCall[] = [];
+    while (calls.length < MAX_PREVIEW_CALLS) {
+      const { data: page, error } = await (supabase.from("calls") as any)
+        .select("id, created_at, caller_phone, spam_score, spam_base_score, transcript, caller_rule_action")
+        .eq("organization_id", membership.organization_id)
+        .eq("direction", "inbound")
+        .gte("created_at", since)
+        .not("spam_score", "is", null)
+        .is("caller_rule_action", null)
+        .order("created_at", { ascending: false })
+        .range(calls.length, Math.min(calls.length + PAGE_SIZE, MAX_PREVIEW_CALLS) - 1);
+
+      if (error) {
+        console.error("Failed to load calls for spam preview:", error);
+        return NextResponse.json({ error: "Failed to load calls" }, { status: 500 });
+      }
+
+      calls.push(...((page || []) as SpamPreviewCall[]));
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    const currentPolicy = normalizeSpamPolicy(org?.spam_policy);
+    return NextResponse.json({
+      ...previewSpamPolicy(calls, currentPolicy, newPolicy),
+      truncated: calls.length >= MAX_PREVIEW_CALLS,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error previewing spam policy:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { normalizeSpamPolicy, spamPolicySchema } from "@/lib/spam/spam-policy";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+// GET /api/v1/spam-policy - The org's spam policy, with defaults filled in
+export async function GET(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/spam-policy", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const { data: org, error } = await (supabase.from("organizations") as any)
+      .select("spam_policy")
+      .eq("id", membership.organization_id)
+      .single();
+
+    if (error) {
+      console.error("Failed to load spam policy:", error);
+      return NextResponse.json({ error: "Failed to load spam policy" }, { status: 500 });
+    }
+
+    return NextResponse.json(normalizeSpamPolicy(org?.spam_policy));
+  } catch (error) {
+    console.error("Error loading spam policy:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/v1/spam-policy - Replace the org's spam policy
+export async function PUT(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/spam-policy", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const policy = normalizeSpamPolicy(spamPolicySchema.parse(body));
+
+    const { error } = await (supabase.from("organizations") as any)
+      .update({ spam_policy: policy })
+      .eq("id", membership.organization_id);
+
+    if (error) {
+      console.error("Failed to save spam policy:", error);
+      return NextResponse.json({ error: "Failed to save spam policy" }, { status: 500 });
+    }
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error saving spam policy:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
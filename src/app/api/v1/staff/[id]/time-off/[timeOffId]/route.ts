@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+// DELETE /api/v1/staff/[id]/time-off/[timeOffId]
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; timeOffId: string }> }
+) {
+  try {
+    const { id, timeOffId } = await params;
+    if (!isValidUUID(id) || !isValidUUID(timeOffId)) {
+      return NextResponse.json({ error: "Invalid time off ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/staff", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { data: deleted, error } = await (supabase.from("staff_time_off") as any)
+      .delete()
+      .eq("id", timeOffId)
+      .eq("staff_member_id", id)
+      .eq("organization_id", membership.organization_id)
+      .select("id")
+      .single();
+
+    if (error || !deleted) {
+      return NextResponse.json({ error: "Time off not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting staff time off:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import { isValidUUID } from "@/lib/security/validation";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const createTimeOffSchema = z
+  .object({
+    starts_at: z.string().datetime({ offset: true }),
+    ends_at: z.string().datetime({ offset: true }),
+    reason: z.string().max(200).optional(),
+  })
+  .refine((t) => new Date(t.ends_at) > new Date(t.starts_at), {
+    message: "End must be after start",
+    path: ["ends_at"],
+  });
+
+async function getOrgMembership(supabase: Awaited<ReturnType<typeof createClient>>, userId: string) {
+  const { data } = (await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .single()) as { data: OrgMembership | null };
+  return data;
+}
+
+// GET /api/v1/staff/[id]/time-off - Current and upcoming time off
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid staff ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/staff", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    const { data: timeOff, error } = await (supabase.from("staff_time_off") as any)
+      .select("id, starts_at, ends_at, reason, created_at")
+      .eq("organization_id", membership.organization_id)
+      .eq("staff_member_id", id)
+      .gt("ends_at", new Date().toISOString())
+      .order("starts_at", { ascending: true });
+
+    if (error) {
+      console.error("Failed to list staff time off:", error);
+      return NextResponse.json({ error: "Failed to load time off" }, { status: 500 });
+    }
+
+    return NextResponse.json(timeOff || []);
+  } catch (error) {
+    console.error("Error listing staff time off:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/v1/staff/[id]/time-off - Block out time for a staff member
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid staff ID" }, { status: 400 });
+    }
+
+    const { allowed, headers } = withRateLimit(request, "/api/v1/staff", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const membership = await getOrgMembership(supabase, user.id);
+    if (!membership) return NextResponse.json({ error: "No organization found" }, { status: 404 });
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validated = createTimeOffSchema.parse(body);
+
+    const { data: member } = await (supabase.from("staff_members") as any)
+      .select("id")
+      .eq("id", id)
+      .eq("organization_id", membership.organization_id)
+      .single();
+
+    if (!member) {
+      return NextResponse.json({ error: "Staff member not found" }, { status: 404 });
+    }
+
+    const { data: timeOff, error } = await (supabase.from("staff_time_off") as any)
+      .insert({
+        organization_id: membership.organization_id,
+        staff_member_id: id,
+        starts_at: validated.starts_at,
+        ends_at: validated.ends_at,
+        reason: validated.reason || null,
+      })
+      .select("id, starts_at, ends_at, reason, created_at")
+      .single();
+
+    if (error) {
+      console.error("Failed to create staff time off:", error);
+      return NextResponse.json({ error: "Failed to add time off" }, { status: 500 });
+    }
+
+    return NextResponse.json(timeOff, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating staff time off:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
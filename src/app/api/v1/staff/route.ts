@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { withRateLimit } from "@/lib/security/rate-limiter";
+import type { OrgMembership } from "@/lib/integrations/types";
+
+const createStaffSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+// GET /api/v1/staff - List the org's staff members
+export async function GET(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/staff", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    const { data: staff, error } = await (supabase.from("staff_members") as any)
+      .select("id, name, is_active, working_hours, created_at")
+      .eq("organization_id", membership.organization_id)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Failed to list staff members:", error);
+      return NextResponse.json({ error: "Failed to load staff" }, { status: 500 });
+    }
+
+    return NextResponse.json(staff || []);
+  } catch (error) {
+    console.error("Error listing staff members:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/v1/staff - Add a staff member
+export async function POST(request: Request) {
+  try {
+    const { allowed, headers } = withRateLimit(request, "/api/v1/staff", "standard");
+    if (!allowed) {
+      return NextResponse.json({ error: "Too many requests" }, { status: 429, headers });
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: membership } = (await supabase
+      .from("org_members")
+      .select("organization_id, role")
+      .eq("user_id", user.id)
+      .single()) as { data: OrgMembership | null };
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization found" }, { status: 404 });
+    }
+
+    if (!["owner", "admin"].includes(membership.role || "")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validated = createStaffSchema.parse(body);
+
+    const { data: staff, error } = await (supabase.from("staff_members") as any)
+      .insert({
+        organization_id: membership.organization_id,
+        name: validated.name,
+      })
+      .select("id, name, is_active, working_hours, created_at")
+      .single();
+
+    if (error) {
+      console.error("Failed to create staff member:", error);
+      return NextResponse.json({ error: "Failed to create staff member" }, { status: 500 });
+    }
+
+    return NextResponse.json(staff, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 });
+    }
+    console.error("Error creating staff member:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
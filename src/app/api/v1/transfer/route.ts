@@ -11,6 +11,7 @@ import {
   isValidUUID,
   sanitizeString,
 } from "@/lib/security/validation";
+import { deliverWebhookEvent, buildWebhookPayload } from "@/lib/integrations/webhook-delivery";
 
 // Verify Vapi tool request (shared secret)
 function verifyVapiRequest(request: NextRequest): { valid: boolean; error?: string } {
@@ -126,6 +127,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    if (result.action === "transfer" && result.transferTo) {
+      deliverWebhookEvent(organizationId, buildWebhookPayload("call.transferred", {
+        call_id: callId || null,
+        caller_phone: callerPhone || "Unknown",
+        transfer_to: result.transferTo,
+        transfer_to_name: result.transferToName ?? null,
+        reason: sanitizedReason,
+      })).catch((err) => console.error("[Webhooks] Failed to deliver call.transferred:", err));
+    }
+
     // Return result for Vapi to use
     // The message is what the AI will say to the caller
     // For actual transfers, Vapi will use the transferTo phone number
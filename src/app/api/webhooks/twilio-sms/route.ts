@@ -1,14 +1,32 @@
 import { NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import Twilio from "twilio";
+import { isYesReply } from "@/lib/calendar/waitlist";
+import { handleWaitlistReply } from "@/lib/calendar/tool-handlers";
+import { parseReminderReply, handleReminderReply } from "@/lib/calendar/reminders";
+import { handleInboundSms } from "@/lib/sms/conversation";
 
 const OPT_OUT_KEYWORDS = ["stop", "unsubscribe", "cancel", "end", "quit"];
 
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
 /**
  * POST /api/webhooks/twilio-sms
  *
  * Receives inbound SMS from Twilio. Twilio auto-handles STOP at carrier level,
  * but we record opt-outs locally for pre-send checks and audit.
+ *
+ * A YES reply to a waitlist offer books the offered slot, and C/R/X replies
+ * to an appointment reminder confirm, flag for rescheduling or cancel. Both
+ * are answered with the outcome. Any other text goes to the assistant on the
+ * number, which answers it as part of the caller's SMS conversation.
  */
 export async function POST(request: Request) {
   // 1. Validate Twilio signature
@@ -45,23 +63,27 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid signature" }, { status: 403 });
   }
 
-  const body = (params.Body || "").trim().toLowerCase();
+  const text = (params.Body || "").trim();
+  const body = text.toLowerCase();
   const from = params.From || "";
   const to = params.To || "";
 
-  // 2. Only process opt-out keywords
-  if (!OPT_OUT_KEYWORDS.includes(body)) {
+  if (!text) {
     return new Response("<Response></Response>", {
       status: 200,
       headers: { "Content-Type": "text/xml" },
     });
   }
 
+  // 2. Opt-out keywords, reminder replies and waitlist replies come first
+  const isOptOut = OPT_OUT_KEYWORDS.includes(body);
+  const reminderReply = parseReminderReply(body);
+
   // 3. Look up org by the `To` number (the org's Twilio number)
   const supabase = createAdminClient();
   const { data: phoneRecord } = await (supabase as any)
     .from("phone_numbers")
-    .select("organization_id")
+    .select("organization_id, assistant_id")
     .eq("phone_number", to)
     .eq("is_active", true)
     .maybeSingle();
@@ -74,7 +96,46 @@ export async function POST(request: Request) {
     });
   }
 
-  // 4. Upsert opt-out record
+  // 4. Reminder reply (C/R/X) or waitlist reply (YES), otherwise the conversation
+  if (!isOptOut) {
+    try {
+      let reply: string | null = null;
+      if (reminderReply) {
+        reply = await handleReminderReply(phoneRecord.organization_id, from, reminderReply);
+        if (reply) console.log("[TwilioSMS] Reminder reply:", { from, orgId: phoneRecord.organization_id, reminderReply });
+      } else if (isYesReply(body)) {
+        const result = await handleWaitlistReply(phoneRecord.organization_id, from);
+        reply = result?.message ?? null;
+        if (result) console.log("[TwilioSMS] Waitlist reply:", { from, orgId: phoneRecord.organization_id, booked: result.success });
+      }
+      // Not a reply to a reminder or offer (or nothing to reply to): the assistant answers
+      if (!reply) {
+        reply = await handleInboundSms(phoneRecord.organization_id, {
+          from,
+          body: text,
+          assistantId: phoneRecord.assistant_id ?? null,
+        });
+      }
+      if (reply) {
+        return new Response(`<Response><Message>${escapeXml(reply)}</Message></Response>`, {
+          status: 200,
+          headers: { "Content-Type": "text/xml" },
+        });
+      }
+    } catch (err) {
+      console.error("[TwilioSMS] Failed to handle reply:", {
+        from,
+        orgId: phoneRecord.organization_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    return new Response("<Response></Response>", {
+      status: 200,
+      headers: { "Content-Type": "text/xml" },
+    });
+  }
+
+  // 5. Upsert opt-out record
   const { error } = await (supabase as any)
     .from("caller_sms_optouts")
     .upsert(
@@ -5,13 +5,24 @@ import { analyzeCall, type CallMetadata } from "@/lib/spam/spam-detector";
 import { sendMissedCallNotification, sendVoicemailNotification, sendFailedCallNotification } from "@/lib/notifications/notification-service";
 import { incrementCallUsage } from "@/lib/stripe/billing-service";
 import { withRateLimit } from "@/lib/security/rate-limiter";
+import { upsertContactFromCall } from "@/lib/contacts/contacts";
+import { checkCollectedData, upgradePromptConfig } from "@/lib/prompt-builder";
+import type { CollectedDataCheck, PromptConfig, PromptConfigV1 } from "@/lib/prompt-builder";
+import { findCallerRule, type CallerRule } from "@/lib/spam/caller-rules";
 import {
   handleBookAppointment,
   handleCheckAvailability,
   handleCancelAppointment,
+  handleConfirmAppointment,
+  handleRescheduleAppointment,
+  handleJoinWaitlist,
   handleGetCurrentDatetime,
 } from "@/lib/calendar/tool-handlers";
-import { deliverWebhooks } from "@/lib/integrations/webhook-delivery";
+import {
+  deliverWebhooks,
+  deliverWebhookEvent,
+  buildWebhookPayload,
+} from "@/lib/integrations/webhook-delivery";
 import { getVapiClient, type VapiCall as VapiCallType } from "@/lib/vapi";
 
 // Verify Vapi webhook using custom header secret
@@ -52,6 +63,9 @@ interface VapiCall {
   customer?: {
     number?: string;
   };
+  monitor?: {
+    controlUrl?: string;
+  };
   transcript?: string;
   recordingUrl?: string;
   summary?: string;
@@ -205,9 +219,11 @@ async function resolveCallContext(
 function buildCallInsertPayload(
   phoneNumber: { id: string; organization_id: string },
   assistantId: string | null,
-  call: VapiCall
+  call: VapiCall,
+  callerRule: CallerRule | null = null
 ) {
   return {
+    ...(callerRule && { caller_rule_id: callerRule.id, caller_rule_action: callerRule.action }),
     organization_id: phoneNumber.organization_id,
     assistant_id: assistantId,
     phone_number_id: phoneNumber.id,
@@ -219,6 +235,41 @@ function buildCallInsertPayload(
   };
 }
 
+/**
+ * Apply a block or transfer caller rule to a live call. Blocked calls are
+ * ended; transfers go through the call's live control URL. Failures are
+ * logged and the assistant keeps the call.
+ */
+async function enforceCallerRule(call: VapiCall, rule: CallerRule): Promise<void> {
+  try {
+    if (rule.action === "block") {
+      await getVapiClient().endCall(call.id);
+      console.log("[CallerRules] Ended blocked call:", { vapiCallId: call.id, ruleId: rule.id });
+    } else if (rule.action === "transfer" && rule.transfer_to_phone) {
+      const controlUrl = call.monitor?.controlUrl;
+      if (!controlUrl) {
+        console.warn("[CallerRules] No control URL to transfer call — assistant will answer:", { vapiCallId: call.id });
+        return;
+      }
+      const response = await fetch(controlUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: "transfer",
+          destination: { type: "number", number: rule.transfer_to_phone },
+        }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        throw new Error(`Control URL returned ${response.status}`);
+      }
+      console.log("[CallerRules] Transferred call:", { vapiCallId: call.id, ruleId: rule.id });
+    }
+  } catch (error) {
+    console.error("[CallerRules] Failed to enforce caller rule:", { vapiCallId: call.id, ruleId: rule.id, error });
+  }
+}
+
 function isLikelyVoicemail(recordingUrl: string | undefined, durationSeconds: number | null): boolean {
   return !!recordingUrl && !!durationSeconds && durationSeconds > 10 && durationSeconds < 120;
 }
@@ -275,6 +326,14 @@ export async function POST(request: Request) {
             break;
           }
 
+          // Blocked and transferred callers are handled before the assistant gets going
+          const callerRule = call.type !== "outbound"
+            ? await findCallerRule(supabase, phoneNumber.organization_id, call.customer?.number)
+            : null;
+          if (callerRule && callerRule.action !== "allow") {
+            await enforceCallerRule(call, callerRule);
+          }
+
           // Check if call record already exists, create if not
           const { data: existingCall, error: lookupErr } = await (supabase
             .from("calls") as any)
@@ -291,7 +350,7 @@ export async function POST(request: Request) {
 
           if (!existingCall) {
             const { error: insertError } = await (supabase.from("calls") as any)
-              .insert(buildCallInsertPayload(phoneNumber, assistantId, call));
+              .insert(buildCallInsertPayload(phoneNumber, assistantId, call, callerRule));
 
             if (insertError) {
               console.error("Failed to create call record:", {
@@ -306,7 +365,11 @@ export async function POST(request: Request) {
             }
           } else {
             const { error: updateError } = await (supabase.from("calls") as any)
-              .update({ status: "in-progress", started_at: call.startedAt })
+              .update({
+                status: "in-progress",
+                started_at: call.startedAt,
+                ...(callerRule && { caller_rule_id: callerRule.id, caller_rule_action: callerRule.action }),
+              })
               .eq("vapi_call_id", call.id);
 
             if (updateError) {
@@ -469,8 +532,31 @@ export async function POST(request: Request) {
 
         const callStatus = mapEndedReason(endedReason);
 
-        // Extract structured caller data from Vapi analysis (uses merged analysis)
-        const collectedData = analysis?.structuredData ?? null;
+        const { data: assistantRecord, error: assistantLookupError } = await (supabase.from("assistants") as any)
+          .select("name, prompt_config")
+          .eq("vapi_assistant_id", call.assistantId)
+          .single();
+        if (assistantLookupError && assistantLookupError.code !== "PGRST116") {
+          console.error("Failed to look up assistant for end-of-call report:", assistantLookupError);
+        }
+
+        // Extract structured caller data from Vapi analysis (uses merged analysis),
+        // checking select answers against the assistant's field options
+        const structuredData = (analysis?.structuredData ?? null) as Record<string, unknown> | null;
+        let collectedDataCheck: CollectedDataCheck | null = null;
+        if (structuredData && assistantRecord?.prompt_config) {
+          collectedDataCheck = checkCollectedData(
+            upgradePromptConfig(assistantRecord.prompt_config as PromptConfig | PromptConfigV1),
+            structuredData
+          );
+          if (collectedDataCheck.invalidKeys.length > 0) {
+            console.warn("Collected data did not match field options:", {
+              vapiCallId: call.id,
+              invalidKeys: collectedDataCheck.invalidKeys,
+            });
+          }
+        }
+        const collectedData = collectedDataCheck?.data ?? structuredData;
         const successEvaluation = analysis?.successEvaluation ?? null;
 
         // Extract caller_name from structured data if available
@@ -492,7 +578,12 @@ export async function POST(request: Request) {
             cost_cents: cost ? Math.round(cost * 100) : null,
             is_spam: spamAnalysis?.isSpam ?? false,
             spam_score: spamAnalysis?.spamScore ?? null,
+            spam_base_score: spamAnalysis?.baseScore ?? null,
             ...(collectedData && { collected_data: collectedData }),
+            ...(collectedDataCheck && {
+              has_invalid_collected_data: collectedDataCheck.invalidKeys.length > 0,
+              invalid_collected_fields: collectedDataCheck.invalidKeys,
+            }),
             ...(callerName && { caller_name: callerName }),
             metadata: {
               endedReason,
@@ -502,6 +593,7 @@ export async function POST(request: Request) {
                 reasons: spamAnalysis.reasons,
                 confidence: spamAnalysis.confidence,
                 recommendation: spamAnalysis.recommendation,
+                action: spamAnalysis.action,
               } : null,
             },
           })
@@ -514,9 +606,29 @@ export async function POST(request: Request) {
           });
         }
 
+        // Remember the caller (skip for spam)
+        if (existingCall && call.customer?.number && !spamAnalysis?.isSpam) {
+          try {
+            await upsertContactFromCall(supabase, {
+              organizationId: existingCall.organization_id,
+              callId: existingCall.id,
+              callerPhone: call.customer.number,
+              callerName,
+              collectedData: collectedData as Record<string, unknown> | null,
+              calledAt: startedAt ? new Date(startedAt) : undefined,
+            });
+          } catch (err) {
+            console.error("Failed to update caller contact:", {
+              organizationId: existingCall.organization_id,
+              callId: existingCall.id,
+              error: err instanceof Error ? err.message : String(err),
+            });
+          }
+        }
+
         // Increment call usage for billing (skip for spam calls)
         const shouldTrackUsage = callStatus === "completed" &&
-          (!spamAnalysis?.isSpam || spamAnalysis?.recommendation !== "block");
+          (!spamAnalysis?.isSpam || spamAnalysis?.action !== "block");
 
         if (shouldTrackUsage && existingCall) {
           const { success, shouldUpgrade } = await incrementCallUsage(existingCall.organization_id);
@@ -531,6 +643,16 @@ export async function POST(request: Request) {
           }
         }
 
+        if (existingCall && spamAnalysis?.isSpam && spamAnalysis.action === "block") {
+          deliverWebhookEvent(existingCall.organization_id, buildWebhookPayload("spam.blocked", {
+            call_id: existingCall.id,
+            caller_phone: call.customer?.number || "Unknown",
+            spam_score: spamAnalysis.spamScore,
+            confidence: spamAnalysis.confidence,
+            reasons: spamAnalysis.reasons,
+          })).catch((err) => console.error("[Webhooks] Failed to deliver spam.blocked:", err));
+        }
+
         // Send notifications based on call outcome (skip for spam)
         if (existingCall && !spamAnalysis?.isSpam) {
           try {
@@ -578,15 +700,7 @@ export async function POST(request: Request) {
 
         // Fire-and-forget webhook delivery to user integrations
         if (existingCall) {
-          let assistantName: string | null = null;
-          const { data: assistantRecord, error: assistantLookupError } = await (supabase.from("assistants") as any)
-            .select("name")
-            .eq("vapi_assistant_id", call.assistantId)
-            .single();
-          if (assistantLookupError && assistantLookupError.code !== "PGRST116") {
-            console.error("Failed to look up assistant name for webhook:", assistantLookupError);
-          }
-          if (assistantRecord) assistantName = assistantRecord.name;
+          const assistantName: string | null = assistantRecord?.name ?? null;
 
           const voicemail = isLikelyVoicemail(recordingUrl, durationSeconds);
           const isMissed = callStatus === "no-answer" || callStatus === "busy";
@@ -719,6 +833,15 @@ export async function POST(request: Request) {
             case "cancel_appointment":
               result = await handleCancelAppointment(organizationId, args);
               break;
+            case "confirm_appointment":
+              result = await handleConfirmAppointment(organizationId, args);
+              break;
+            case "reschedule_appointment":
+              result = await handleRescheduleAppointment(organizationId, args);
+              break;
+            case "join_waitlist":
+              result = await handleJoinWaitlist(organizationId, args);
+              break;
             case "get_current_datetime":
               result = await handleGetCurrentDatetime(organizationId);
               break;
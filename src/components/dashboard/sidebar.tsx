@@ -8,6 +8,8 @@ import {
   Bot,
   Phone,
   PhoneCall,
+  MessageSquare,
+  Contact,
   CalendarDays,
   Settings,
   CreditCard,
@@ -52,6 +54,16 @@ export const navigation = [
     href: "/calls",
     icon: PhoneCall,
   },
+  {
+    name: "Messages",
+    href: "/messages",
+    icon: MessageSquare,
+  },
+  {
+    name: "Contacts",
+    href: "/contacts",
+    icon: Contact,
+  },
   {
     name: "Calendar",
     href: "/calendar",
@@ -93,7 +105,8 @@ function NavLink({ item, pathname }: { item: typeof navigation[number]; pathname
       ? pathname === "/settings" ||
         pathname === "/settings/profile" ||
         pathname === "/settings/notifications" ||
-        pathname === "/settings/calendar"
+        pathname === "/settings/calendar" ||
+        pathname === "/settings/api-keys"
       : pathname === item.href || pathname.startsWith(`${item.href}/`);
 
   return (
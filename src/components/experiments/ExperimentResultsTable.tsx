@@ -0,0 +1,103 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Trophy } from "lucide-react";
+import type { ExperimentResult, RateComparison } from "@/lib/assistants/experiments";
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function duration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/** Significance of a variant's difference from the control */
+function Significance({ comparison }: { comparison: RateComparison | undefined }) {
+  if (!comparison) return null;
+  if (comparison.pValue === null) {
+    return <span className="block text-xs text-muted-foreground">Too few calls</span>;
+  }
+  if (comparison.significant) {
+    return (
+      <Badge variant="success" className="mt-0.5 text-xs font-normal">
+        Significant (p={comparison.pValue.toFixed(3)})
+      </Badge>
+    );
+  }
+  return <span className="block text-xs text-muted-foreground">Not significant</span>;
+}
+
+interface ExperimentResultsTableProps {
+  experiment: ExperimentResult;
+}
+
+/**
+ * Per-variant comparison of an experiment. Rates are compared with the first
+ * variant (the control) by a two-proportion z-test.
+ */
+export function ExperimentResultsTable({ experiment }: ExperimentResultsTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Variant</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Booking Rate</TableHead>
+          <TableHead className="text-right">Transfer Rate</TableHead>
+          <TableHead className="text-right">Avg Duration</TableHead>
+          <TableHead className="text-right">Success (pass / fail / n/a)</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {experiment.variants.map((variant, index) => {
+          const evaluated = variant.stats.successEvaluation.pass + variant.stats.successEvaluation.fail;
+          return (
+            <TableRow key={variant.id}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{variant.label}</span>
+                  {index === 0 && <Badge variant="outline" className="text-xs font-normal">Control</Badge>}
+                  {variant.id === experiment.winnerVariantId && (
+                    <Trophy className="h-4 w-4 text-yellow-500" />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {variant.revisionNumber !== null ? `Revision ${variant.revisionNumber}` : "Revision"} · weight {variant.weight}
+                </p>
+                {variant.revisionNote && (
+                  <p className="text-xs text-muted-foreground truncate max-w-[220px]">{variant.revisionNote}</p>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{variant.stats.calls}</TableCell>
+              <TableCell className="text-right">
+                {percent(variant.stats.bookingRate)}
+                <Significance comparison={variant.comparison?.booking} />
+              </TableCell>
+              <TableCell className="text-right">
+                {percent(variant.stats.transferRate)}
+                <Significance comparison={variant.comparison?.transfer} />
+              </TableCell>
+              <TableCell className="text-right">{duration(variant.stats.averageDuration)}</TableCell>
+              <TableCell className="text-right">
+                {variant.stats.successEvaluation.pass} / {variant.stats.successEvaluation.fail} / {variant.stats.successEvaluation.unknown}
+                {evaluated > 0 && (
+                  <span className="block text-xs text-muted-foreground">
+                    {percent(variant.stats.successEvaluation.pass / evaluated)} passed
+                  </span>
+                )}
+                <Significance comparison={variant.comparison?.success} />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
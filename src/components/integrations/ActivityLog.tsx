@@ -21,6 +21,7 @@ import {
   RotateCcw,
 } from "lucide-react";
 import { format } from "date-fns";
+import { MAX_RETRIES } from "@/lib/integrations/backoff";
 
 interface LogEntry {
   id: string;
@@ -31,6 +32,8 @@ interface LogEntry {
   success: boolean;
   attempted_at: string;
   retry_count: number;
+  next_retry_at: string | null;
+  dead_lettered_at: string | null;
 }
 
 export function ActivityLog() {
@@ -115,6 +118,7 @@ export function ActivityLog() {
                   <TableHead>Integration</TableHead>
                   <TableHead>Event</TableHead>
                   <TableHead>Response</TableHead>
+                  <TableHead>Retries</TableHead>
                   <TableHead>Time</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -147,6 +151,23 @@ export function ActivityLog() {
                         <span className="text-xs text-muted-foreground">—</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      {log.success ? (
+                        <span className="text-xs text-muted-foreground">
+                          {log.retry_count > 0 ? `${log.retry_count}` : "—"}
+                        </span>
+                      ) : log.dead_lettered_at ? (
+                        <Badge variant="destructive" className="text-xs">
+                          Dead-lettered
+                        </Badge>
+                      ) : log.next_retry_at ? (
+                        <span className="text-xs text-muted-foreground">
+                          {log.retry_count}/{MAX_RETRIES} · next {format(new Date(log.next_retry_at), "HH:mm")}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">{log.retry_count}</span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
                       {format(new Date(log.attempted_at), "MMM d, HH:mm:ss")}
                     </TableCell>
@@ -21,21 +21,24 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2, Copy, AlertTriangle } from "lucide-react";
+import { Loader2, Copy, AlertTriangle, KeyRound } from "lucide-react";
 import { SUPPORTED_PLATFORMS, INTEGRATION_EVENTS } from "@/lib/integrations/types";
 
 interface IntegrationFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onCreated: () => void;
+  /** When set, the dialog rotates this integration's signing secret instead of creating one */
+  rotateTarget?: { id: string; name: string } | null;
 }
 
-export function IntegrationForm({ open, onOpenChange, onCreated }: IntegrationFormProps) {
+export function IntegrationForm({ open, onOpenChange, onCreated, rotateTarget }: IntegrationFormProps) {
   const [name, setName] = useState("");
   const [platform, setPlatform] = useState("webhook");
   const [webhookUrl, setWebhookUrl] = useState("");
   const [events, setEvents] = useState<string[]>(["call.completed"]);
   const [isCreating, setIsCreating] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
   const [signingSecret, setSigningSecret] = useState<string | null>(null);
   const { toast } = useToast();
 
@@ -75,6 +78,34 @@ export function IntegrationForm({ open, onOpenChange, onCreated }: IntegrationFo
     }
   };
 
+  const handleRotate = async () => {
+    if (!rotateTarget) return;
+    setIsRotating(true);
+
+    try {
+      const response = await fetch(`/api/v1/integrations/${rotateTarget.id}/rotate-secret`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to rotate signing secret");
+      }
+
+      const data = await response.json();
+      setSigningSecret(data.signing_secret);
+      onCreated();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rotate signing secret",
+      });
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
   const handleClose = () => {
     setName("");
     setPlatform("webhook");
@@ -97,7 +128,7 @@ export function IntegrationForm({ open, onOpenChange, onCreated }: IntegrationFo
         {signingSecret ? (
           <>
             <DialogHeader>
-              <DialogTitle>Integration Created</DialogTitle>
+              <DialogTitle>{rotateTarget ? "Signing Secret Rotated" : "Integration Created"}</DialogTitle>
               <DialogDescription>
                 Save your signing secret — you won&apos;t be able to see it again.
               </DialogDescription>
@@ -114,13 +145,45 @@ export function IntegrationForm({ open, onOpenChange, onCreated }: IntegrationFo
               </div>
               <div className="flex items-center gap-2 text-sm text-amber-600">
                 <AlertTriangle className="h-4 w-4 shrink-0" />
-                Use this secret to verify webhook signatures on your server.
+                {rotateTarget
+                  ? "Deliveries are signed with both the old and new secret for the next 24 hours. Update your server before then."
+                  : "Use this secret to verify webhook signatures on your server."}
               </div>
             </div>
             <DialogFooter>
               <Button onClick={handleClose}>Done</Button>
             </DialogFooter>
           </>
+        ) : rotateTarget ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Rotate Signing Secret</DialogTitle>
+              <DialogDescription>
+                Generate a new signing secret for &ldquo;{rotateTarget.name}&rdquo;.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3 py-4 text-sm text-muted-foreground">
+              <p>
+                The current secret stays valid for 24 hours. During that window every delivery
+                carries a signature for each secret, so your server keeps verifying while you
+                switch it over.
+              </p>
+              <p>Rotate again only after the grace period — at most two secrets are active at once.</p>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleRotate} disabled={isRotating}>
+                {isRotating ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <KeyRound className="mr-2 h-4 w-4" />
+                )}
+                Rotate Secret
+              </Button>
+            </DialogFooter>
+          </>
         ) : (
           <>
             <DialogHeader>
@@ -169,7 +232,7 @@ export function IntegrationForm({ open, onOpenChange, onCreated }: IntegrationFo
 
               <div className="space-y-2">
                 <Label>Events</Label>
-                <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-2">
                   {INTEGRATION_EVENTS.map((evt) => (
                     <div key={evt.value} className="flex items-center gap-2">
                       <Checkbox
@@ -16,6 +16,7 @@ import {
   CheckCircle2,
   XCircle,
   Webhook,
+  KeyRound,
 } from "lucide-react";
 import {
   Dialog,
@@ -36,6 +37,7 @@ interface Integration {
   webhook_url_display: string;
   events: string[];
   is_active: boolean;
+  auto_paused_at: string | null;
   created_at: string;
 }
 
@@ -46,6 +48,8 @@ interface LogEntry {
   success: boolean;
   attempted_at: string;
   retry_count: number;
+  next_retry_at: string | null;
+  dead_lettered_at: string | null;
 }
 
 export function IntegrationList() {
@@ -56,6 +60,7 @@ export function IntegrationList() {
   const [logs, setLogs] = useState<Record<string, LogEntry[]>>({});
   const [testingId, setTestingId] = useState<string | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<Integration | null>(null);
+  const [rotateTarget, setRotateTarget] = useState<Integration | null>(null);
   const { toast } = useToast();
 
   const loadIntegrations = useCallback(async () => {
@@ -91,7 +96,7 @@ export function IntegrationList() {
         throw new Error(body.error || "Failed to update");
       }
       setIntegrations((prev) =>
-        prev.map((i) => (i.id === id ? { ...i, is_active: isActive } : i))
+        prev.map((i) => (i.id === id ? { ...i, is_active: isActive, auto_paused_at: null } : i))
       );
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to update integration";
@@ -200,9 +205,18 @@ export function IntegrationList() {
                       ))}
                     </div>
 
-                    <Badge variant={integration.is_active ? "success" : "secondary"}>
-                      {integration.is_active ? "Active" : "Paused"}
-                    </Badge>
+                    {!integration.is_active && integration.auto_paused_at ? (
+                      <Badge
+                        variant="destructive"
+                        title={`Paused automatically on ${format(new Date(integration.auto_paused_at), "MMM d, HH:mm")} after repeated delivery failures`}
+                      >
+                        Auto-paused
+                      </Badge>
+                    ) : (
+                      <Badge variant={integration.is_active ? "success" : "secondary"}>
+                        {integration.is_active ? "Active" : "Paused"}
+                      </Badge>
+                    )}
 
                     <Switch
                       checked={integration.is_active}
@@ -234,6 +248,15 @@ export function IntegrationList() {
                       )}
                     </Button>
 
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRotateTarget(integration)}
+                      title="Rotate signing secret"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+
                     <Button
                       variant="ghost"
                       size="icon"
@@ -268,6 +291,16 @@ export function IntegrationList() {
                               </span>
                             </div>
                             <div className="flex items-center gap-2">
+                              {!log.success && log.dead_lettered_at && (
+                                <Badge variant="destructive" className="text-xs">
+                                  Dead-lettered
+                                </Badge>
+                              )}
+                              {!log.success && !log.dead_lettered_at && log.next_retry_at && (
+                                <Badge variant="warning" className="text-xs">
+                                  Retry {log.retry_count + 1} at {format(new Date(log.next_retry_at), "HH:mm")}
+                                </Badge>
+                              )}
                               {log.response_status !== null && (
                                 <Badge variant="outline" className="text-xs">
                                   {log.response_status}
@@ -327,6 +360,15 @@ export function IntegrationList() {
           loadIntegrations();
         }}
       />
+
+      <IntegrationForm
+        open={!!rotateTarget}
+        onOpenChange={(open) => !open && setRotateTarget(null)}
+        onCreated={() => {
+          loadIntegrations();
+        }}
+        rotateTarget={rotateTarget}
+      />
     </div>
   );
 }
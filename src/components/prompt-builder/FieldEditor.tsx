@@ -12,9 +12,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { Plus, X } from "lucide-react";
 import type {
   CollectionField,
+  FieldOption,
   FieldType,
   VerificationMethod,
 } from "@/lib/prompt-builder/types";
@@ -22,8 +24,12 @@ import type {
 interface FieldEditorProps {
   onAdd: (field: CollectionField) => void;
   onCancel: () => void;
+  /** Earlier fields the new one can be conditional on; omit to hide the condition */
+  conditionFields?: CollectionField[];
 }
 
+const ALWAYS_ASK = "__always";
+
 const fieldTypes: { value: FieldType; label: string }[] = [
   { value: "text", label: "Text" },
   { value: "phone", label: "Phone Number" },
@@ -32,8 +38,30 @@ const fieldTypes: { value: FieldType; label: string }[] = [
   { value: "number", label: "Number" },
   { value: "address", label: "Address" },
   { value: "select", label: "Selection / Choice" },
+  { value: "multiselect", label: "Multiple Choice" },
 ];
 
+/**
+ * One option per line, synonyms after a colon:
+ *   Yes: yeah, yep, I do
+ *   No
+ * Repeated options (ignoring case) are dropped.
+ */
+function parseOptions(text: string): FieldOption[] {
+  const options: FieldOption[] = [];
+  for (const line of text.split("\n")) {
+    const [value, synonymText] = line.split(":", 2);
+    if (!value.trim()) continue;
+    if (options.some((o) => o.value.toLowerCase() === value.trim().toLowerCase())) continue;
+    const synonyms = (synonymText ?? "")
+      .split(",")
+      .map((synonym) => synonym.trim())
+      .filter(Boolean);
+    options.push({ value: value.trim(), ...(synonyms.length > 0 && { synonyms }) });
+  }
+  return options;
+}
+
 const verificationOptions: { value: VerificationMethod; label: string }[] = [
   { value: "none", label: "None" },
   { value: "repeat-confirm", label: "Repeat back & confirm" },
@@ -55,11 +83,18 @@ function getDefaultVerification(type: FieldType): VerificationMethod {
   }
 }
 
-export function FieldEditor({ onAdd, onCancel }: FieldEditorProps) {
+export function FieldEditor({ onAdd, onCancel, conditionFields }: FieldEditorProps) {
   const [label, setLabel] = useState("");
   const [type, setType] = useState<FieldType>("text");
   const [required, setRequired] = useState(false);
   const [verification, setVerification] = useState<VerificationMethod>("none");
+  const [conditionFieldId, setConditionFieldId] = useState(ALWAYS_ASK);
+  const [conditionValue, setConditionValue] = useState("");
+  const [optionsText, setOptionsText] = useState("");
+
+  const hasOptions = type === "select" || type === "multiselect";
+
+  const hasCondition = conditionFieldId !== ALWAYS_ASK;
 
   const handleTypeChange = (newType: FieldType) => {
     setType(newType);
@@ -68,6 +103,7 @@ export function FieldEditor({ onAdd, onCancel }: FieldEditorProps) {
 
   const handleAdd = () => {
     if (!label.trim()) return;
+    if (hasCondition && !conditionValue.trim()) return;
 
     const field: CollectionField = {
       id: `custom_${Date.now()}`,
@@ -76,6 +112,10 @@ export function FieldEditor({ onAdd, onCancel }: FieldEditorProps) {
       required,
       verification,
       category: "other",
+      ...(hasOptions && parseOptions(optionsText).length > 0 && { options: parseOptions(optionsText) }),
+      ...(hasCondition && {
+        condition: { fieldId: conditionFieldId, equals: conditionValue.trim() },
+      }),
     };
 
     onAdd(field);
@@ -148,7 +188,56 @@ export function FieldEditor({ onAdd, onCancel }: FieldEditorProps) {
         </div>
       </div>
 
-      <Button size="sm" onClick={handleAdd} disabled={!label.trim()}>
+      {hasOptions && (
+        <div className="space-y-1">
+          <Label className="text-xs">Options (one per line, synonyms after a colon)</Label>
+          <Textarea
+            placeholder={"Yes: yeah, yep, I do\nNo: nope"}
+            value={optionsText}
+            onChange={(e) => setOptionsText(e.target.value)}
+            rows={3}
+            className="text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Leave empty to accept any answer
+          </p>
+        </div>
+      )}
+
+      {conditionFields && conditionFields.length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Ask</Label>
+            <Select value={conditionFieldId} onValueChange={setConditionFieldId}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALWAYS_ASK}>Always</SelectItem>
+                {conditionFields.map((f) => (
+                  <SelectItem key={f.id} value={f.id}>
+                    Only if {f.label} is...
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {hasCondition && (
+            <div className="space-y-1">
+              <Label className="text-xs">Answer</Label>
+              <Input
+                placeholder="e.g., yes"
+                value={conditionValue}
+                onChange={(e) => setConditionValue(e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <Button size="sm" onClick={handleAdd} disabled={!label.trim() || (hasCondition && !conditionValue.trim())}>
         <Plus className="h-4 w-4 mr-1" />
         Add Field
       </Button>
@@ -75,6 +75,11 @@ export function FieldPicker({ fields, onChange }: FieldPickerProps) {
     >
       <div className="flex-1 min-w-0">
         <span className="text-sm font-medium">{field.label}</span>
+        {field.options && field.options.length > 0 && (
+          <p className="text-xs text-muted-foreground truncate">
+            {field.options.map((o) => o.value).join(" / ")}
+          </p>
+        )}
       </div>
 
       <div className="flex items-center gap-2 shrink-0">
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Trash2 } from "lucide-react";
+import { FieldEditor } from "./FieldEditor";
+import { getIntentPresets } from "@/lib/prompt-builder/intent-presets";
+import type { CallIntent, CollectionField, IntentOutcome } from "@/lib/prompt-builder/types";
+
+const outcomeOptions: { value: IntentOutcome; label: string }[] = [
+  { value: "book", label: "Book appointment" },
+  { value: "transfer", label: "Transfer call" },
+  { value: "take_message", label: "Take message" },
+];
+
+const BLANK_INTENT = "__blank";
+
+interface IntentEditorProps {
+  intents: CallIntent[];
+  /** Fields asked on every call; intent fields can be conditional on them */
+  sharedFields: CollectionField[];
+  industry: string;
+  onChange: (intents: CallIntent[]) => void;
+}
+
+export function IntentEditor({ intents, sharedFields, industry, onChange }: IntentEditorProps) {
+  const [editingFieldsFor, setEditingFieldsFor] = useState<string | null>(null);
+
+  const presets = getIntentPresets(industry).filter(
+    (preset) => !intents.some((intent) => intent.id === preset.id)
+  );
+
+  const updateIntent = (id: string, updates: Partial<CallIntent>) => {
+    onChange(intents.map((intent) => (intent.id === id ? { ...intent, ...updates } : intent)));
+  };
+
+  const removeIntent = (id: string) => {
+    onChange(intents.filter((intent) => intent.id !== id));
+  };
+
+  const addIntent = (presetId: string) => {
+    if (presetId === BLANK_INTENT) {
+      onChange([
+        ...intents,
+        { id: `custom_${Date.now()}`, label: "New call type", description: "", fields: [], outcome: "take_message" },
+      ]);
+      return;
+    }
+    const preset = presets.find((p) => p.id === presetId);
+    if (preset) onChange([...intents, preset]);
+  };
+
+  const addField = (intent: CallIntent, field: CollectionField) => {
+    updateIntent(intent.id, { fields: [...intent.fields, field] });
+    setEditingFieldsFor(null);
+  };
+
+  // Removing a field also drops conditions that depended on it
+  const removeField = (intent: CallIntent, fieldId: string) => {
+    updateIntent(intent.id, {
+      fields: intent.fields
+        .filter((f) => f.id !== fieldId)
+        .map((f) => (f.condition?.fieldId === fieldId ? { ...f, condition: undefined } : f)),
+    });
+  };
+
+  const toggleRequired = (intent: CallIntent, fieldId: string, required: boolean) => {
+    updateIntent(intent.id, {
+      fields: intent.fields.map((f) => (f.id === fieldId ? { ...f, required } : f)),
+    });
+  };
+
+  const labelFor = (intent: CallIntent, fieldId: string) =>
+    [...sharedFields, ...intent.fields].find((f) => f.id === fieldId)?.label ?? fieldId;
+
+  return (
+    <div className="space-y-4">
+      {intents.map((intent) => (
+        <div key={intent.id} className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="grid flex-1 gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Call Type</Label>
+                <Input
+                  value={intent.label}
+                  onChange={(e) => updateIntent(intent.id, { label: e.target.value })}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Outcome</Label>
+                <Select
+                  value={intent.outcome}
+                  onValueChange={(v) => updateIntent(intent.id, { outcome: v as IntentOutcome })}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {outcomeOptions.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 sm:col-span-2">
+                <Label className="text-xs">How to recognize it</Label>
+                <Input
+                  placeholder="e.g., A new patient wants to book their first appointment"
+                  value={intent.description}
+                  onChange={(e) => updateIntent(intent.id, { description: e.target.value })}
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => removeIntent(intent.id)}
+            >
+              <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+            </Button>
+          </div>
+
+          {intent.fields.length > 0 && (
+            <div className="space-y-1.5">
+              {intent.fields.map((field) => (
+                <div key={field.id} className="flex items-center gap-3 rounded-md border px-3 py-2">
+                  <div className="flex-1 min-w-0 flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium">{field.label}</span>
+                    {field.options && field.options.length > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        {field.options.map((o) => o.value).join(" / ")}
+                      </span>
+                    )}
+                    {field.condition && (
+                      <Badge variant="outline" className="text-xs font-normal">
+                        Only if {labelFor(intent, field.condition.fieldId)} is &quot;{field.condition.equals}&quot;
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <Switch
+                      checked={field.required}
+                      onCheckedChange={(v) => toggleRequired(intent, field.id, v)}
+                      className="scale-75"
+                    />
+                    <span className="text-xs text-muted-foreground w-14">
+                      {field.required ? "Required" : "Optional"}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => removeField(intent, field.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {editingFieldsFor === intent.id ? (
+            <FieldEditor
+              onAdd={(field) => addField(intent, field)}
+              onCancel={() => setEditingFieldsFor(null)}
+              conditionFields={[...sharedFields, ...intent.fields]}
+            />
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setEditingFieldsFor(intent.id)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Field
+            </Button>
+          )}
+        </div>
+      ))}
+
+      <Select value="" onValueChange={addIntent}>
+        <SelectTrigger className="h-8 w-[220px] text-sm">
+          <SelectValue placeholder="Add call type" />
+        </SelectTrigger>
+        <SelectContent>
+          {presets.map((preset) => (
+            <SelectItem key={preset.id} value={preset.id}>
+              {preset.label}
+            </SelectItem>
+          ))}
+          <SelectItem value={BLANK_INTENT}>Blank call type</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -5,11 +5,13 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { FieldPicker } from "./FieldPicker";
 import { BehaviorToggles } from "./BehaviorToggles";
+import { IntentEditor } from "./IntentEditor";
 import { ToneSelector } from "./ToneSelector";
 import { AdvancedPromptEditor } from "./AdvancedPromptEditor";
-import type { PromptConfig, CollectionField, BehaviorToggles as BehaviorTogglesType, TonePreset } from "@/lib/prompt-builder/types";
+import type { PromptConfig, CollectionField, CallIntent, BehaviorToggles as BehaviorTogglesType, TonePreset } from "@/lib/prompt-builder/types";
 import { buildPromptFromConfig, generateGreeting } from "@/lib/prompt-builder/generate-prompt";
 import { getDefaultConfig } from "@/lib/prompt-builder/defaults";
+import type { LanguageCode } from "@/lib/languages/languages";
 
 interface PromptBuilderProps {
   config: PromptConfig | null;
@@ -23,6 +25,8 @@ interface PromptBuilderProps {
     promptConfig: PromptConfig;
   }) => void;
   variant?: "onboarding" | "dashboard";
+  /** Primary language, used for generated greetings */
+  language?: LanguageCode;
 }
 
 export function PromptBuilder({
@@ -33,6 +37,7 @@ export function PromptBuilder({
   firstMessage,
   onChange,
   variant = "onboarding",
+  language,
 }: PromptBuilderProps) {
   // Initialize config from prop or defaults
   const [localConfig, setLocalConfig] = useState<PromptConfig>(
@@ -77,15 +82,34 @@ export function PromptBuilder({
 
       onChange({
         systemPrompt: generated,
-        firstMessage: firstMessage || generateGreeting(cfg.tone, businessName),
+        firstMessage: firstMessage || generateGreeting(cfg.tone, businessName, language),
         promptConfig: cfg,
       });
     },
-    [businessName, industry, firstMessage, manualPrompt, onChange]
+    [businessName, industry, firstMessage, manualPrompt, onChange, language]
   );
 
   const updateFields = (fields: CollectionField[]) => {
-    const updated = { ...localConfig, fields, isManuallyEdited: false };
+    // Removing a shared field also drops intent conditions that depended on it
+    const sharedIds = new Set(fields.map((f) => f.id));
+    const intents = localConfig.intents.map((intent) => ({
+      ...intent,
+      fields: intent.fields.map((f) =>
+        f.condition &&
+        !sharedIds.has(f.condition.fieldId) &&
+        !intent.fields.some((other) => other.id === f.condition?.fieldId)
+          ? { ...f, condition: undefined }
+          : f
+      ),
+    }));
+    const updated = { ...localConfig, fields, intents, isManuallyEdited: false };
+    setLocalConfig(updated);
+    setManualPrompt(null);
+    regenerate(updated);
+  };
+
+  const updateIntents = (intents: CallIntent[]) => {
+    const updated = { ...localConfig, intents, isManuallyEdited: false };
     setLocalConfig(updated);
     setManualPrompt(null);
     regenerate(updated);
@@ -108,7 +132,7 @@ export function PromptBuilder({
       businessName: businessName || "{business_name}",
       industry,
     });
-    const greeting = generateGreeting(tone, businessName);
+    const greeting = generateGreeting(tone, businessName, language);
 
     onChange({
       systemPrompt: generated,
@@ -152,7 +176,25 @@ export function PromptBuilder({
 
       <Separator />
 
-      {/* Section B: Receptionist Behaviors */}
+      {/* Section B: Call Types */}
+      <div className="space-y-3">
+        <div>
+          <Label className="text-base font-semibold">Call Types</Label>
+          <p className="text-sm text-muted-foreground">
+            Why people call, what to ask for each, and how each call should end
+          </p>
+        </div>
+        <IntentEditor
+          intents={localConfig.intents}
+          sharedFields={localConfig.fields}
+          industry={industry}
+          onChange={updateIntents}
+        />
+      </div>
+
+      <Separator />
+
+      {/* Section C: Receptionist Behaviors */}
       <div className="space-y-3">
         <div>
           <Label className="text-base font-semibold">Receptionist Behaviors</Label>
@@ -165,7 +207,7 @@ export function PromptBuilder({
 
       <Separator />
 
-      {/* Section C: Tone */}
+      {/* Section D: Tone */}
       <div className="space-y-3">
         <div>
           <Label className="text-base font-semibold">Tone & Personality</Label>
@@ -178,7 +220,7 @@ export function PromptBuilder({
 
       <Separator />
 
-      {/* Section D: Advanced */}
+      {/* Section E: Advanced */}
       <AdvancedPromptEditor
         generatedPrompt={currentPrompt}
         isManuallyEdited={localConfig.isManuallyEdited}
@@ -1,6 +1,7 @@
 export { PromptBuilder } from "./PromptBuilder";
 export { FieldPicker } from "./FieldPicker";
 export { FieldEditor } from "./FieldEditor";
+export { IntentEditor } from "./IntentEditor";
 export { BehaviorToggles } from "./BehaviorToggles";
 export { ToneSelector } from "./ToneSelector";
 export { AdvancedPromptEditor } from "./AdvancedPromptEditor";
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  compareRates,
+  compareWithControl,
+  createExperimentSchema,
+  loadExperimentResults,
+  normalizeSuccessEvaluation,
+  summarizeVariantCalls,
+  variantLabel,
+  type ExperimentCall,
+} from "../experiments";
+
+function call(overrides: Partial<ExperimentCall> = {}): ExperimentCall {
+  return {
+    duration_seconds: 60,
+    action_taken: null,
+    ended_reason: "customer-ended-call",
+    success_evaluation: null,
+    booked: false,
+    ...overrides,
+  };
+}
+
+function calls(count: number, overrides: Partial<ExperimentCall> = {}): ExperimentCall[] {
+  return Array.from({ length: count }, () => call(overrides));
+}
+
+describe("summarizeVariantCalls", () => {
+  it("counts bookings, transfers, duration and success evaluations", () => {
+    const stats = summarizeVariantCalls([
+      call({ booked: true, duration_seconds: 120, success_evaluation: "Pass" }),
+      call({ action_taken: "transferred", success_evaluation: "false" }),
+      call({ ended_reason: "transferred", duration_seconds: null }),
+      call(),
+    ]);
+    expect(stats).toEqual({
+      calls: 4,
+      bookings: 1,
+      bookingRate: 0.25,
+      transfers: 2,
+      transferRate: 0.5,
+      averageDuration: 60,
+      successEvaluation: { pass: 1, fail: 1, unknown: 2 },
+    });
+  });
+
+  it("handles variants without calls", () => {
+    expect(summarizeVariantCalls([]).bookingRate).toBe(0);
+    expect(summarizeVariantCalls([]).averageDuration).toBe(0);
+  });
+});
+
+describe("normalizeSuccessEvaluation", () => {
+  it("maps the rubric's spellings", () => {
+    expect(normalizeSuccessEvaluation("passed")).toBe("pass");
+    expect(normalizeSuccessEvaluation(true)).toBe("pass");
+    expect(normalizeSuccessEvaluation("FAIL")).toBe("fail");
+    expect(normalizeSuccessEvaluation("8")).toBe("unknown");
+    expect(normalizeSuccessEvaluation(undefined)).toBe("unknown");
+  });
+});
+
+describe("compareRates", () => {
+  it("waits for enough calls on both sides", () => {
+    expect(compareRates(20, 29, 0, 100)).toEqual({ pValue: null, significant: false });
+  });
+
+  it("flags a clear difference", () => {
+    const result = compareRates(60, 100, 30, 100);
+    expect(result.significant).toBe(true);
+    expect(result.pValue).toBeLessThan(0.001);
+  });
+
+  it("doesn't flag a small difference", () => {
+    const result = compareRates(32, 100, 30, 100);
+    expect(result.significant).toBe(false);
+    expect(result.pValue).toBeGreaterThan(0.7);
+  });
+
+  it("treats identical all-or-nothing rates as no difference", () => {
+    expect(compareRates(0, 50, 0, 50)).toEqual({ pValue: 1, significant: false });
+  });
+});
+
+describe("compareWithControl", () => {
+  it("compares success on evaluated calls only", () => {
+    const control = summarizeVariantCalls([
+      ...calls(40, { success_evaluation: "fail" }),
+      ...calls(10, { success_evaluation: "pass" }),
+    ]);
+    const variant = summarizeVariantCalls([
+      ...calls(10, { success_evaluation: "fail" }),
+      ...calls(40, { success_evaluation: "pass", booked: true }),
+    ]);
+    const comparison = compareWithControl(control, variant);
+    expect(comparison.success.significant).toBe(true);
+    expect(comparison.booking.significant).toBe(true);
+    expect(comparison.transfer.significant).toBe(false);
+  });
+});
+
+describe("createExperimentSchema", () => {
+  const revisionA = "6f1c1c1e-8f4e-4d5a-9d8e-0a1b2c3d4e5f";
+  const revisionB = "7a2d2d2f-9a5f-4e6b-8e9f-1b2c3d4e5f6a";
+
+  it("needs two to four variants on different revisions", () => {
+    const variant = (revisionId: string) => ({ revisionId, weight: 50 });
+    expect(createExperimentSchema.safeParse({ name: "Greeting", variants: [variant(revisionA), variant(revisionB)] }).success).toBe(true);
+    expect(createExperimentSchema.safeParse({ name: "Greeting", variants: [variant(revisionA)] }).success).toBe(false);
+    expect(createExperimentSchema.safeParse({ name: "Greeting", variants: [variant(revisionA), variant(revisionA)] }).success).toBe(false);
+  });
+});
+
+describe("variantLabel", () => {
+  it("letters variants in order", () => {
+    expect([0, 1, 2, 3].map(variantLabel)).toEqual(["A", "B", "C", "D"]);
+  });
+});
+
+function query(result: unknown) {
+  const chain: Record<string, unknown> = {};
+  for (const method of ["select", "eq", "in", "not", "or", "order", "range"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return chain;
+}
+
+describe("loadExperimentResults", () => {
+  it("pages through calls and looks up bookings for those calls only", async () => {
+    const experiment = {
+      id: "exp-1",
+      assistant_id: "assistant-1",
+      name: "Greeting",
+      status: "running",
+      started_at: "2026-03-01T00:00:00Z",
+      stopped_at: null,
+      winner_variant_id: null,
+      assistants: { name: "Front Desk" },
+      assistant_experiment_variants: [
+        { id: "variant-a", label: "A", weight: 50, position: 0, revision_id: "rev-1", assistant_revisions: null },
+      ],
+    };
+    const callRow = (i: number) => ({
+      id: `call-${i}`,
+      experiment_variant_id: "variant-a",
+      duration_seconds: 60,
+      action_taken: null,
+      ended_reason: null,
+      success_evaluation: null,
+    });
+    const firstPage = Array.from({ length: 1000 }, (_, i) => callRow(i));
+    const appointments = Array.from({ length: 11 }, () => query({ data: [], error: null }));
+    appointments[0] = query({ data: [{ call_id: "call-0" }], error: null });
+    const tables = [
+      query({ data: [experiment], error: null }),
+      query({ data: firstPage, error: null }),
+      query({ data: [callRow(1000)], error: null }),
+      ...appointments,
+    ];
+    const supabase = { from: vi.fn(() => tables.shift()) };
+
+    const [result] = await loadExperimentResults(supabase, "org-1");
+    expect(result.variants[0].stats.calls).toBe(1001);
+    expect(result.variants[0].stats.bookings).toBe(1);
+    expect(appointments[0].in).toHaveBeenCalledWith("call_id", firstPage.slice(0, 100).map((c) => c.id));
+    expect(tables).toHaveLength(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { diffSideBySide, formatPromptConfig, hasChanges, rollbackNote } from "../revisions";
+
+describe("diffSideBySide", () => {
+  it("keeps unchanged lines side by side", () => {
+    const rows = diffSideBySide("a\nb", "a\nb");
+    expect(rows).toHaveLength(2);
+    expect(hasChanges(rows)).toBe(false);
+    expect(rows[1]).toEqual({
+      left: { lineNumber: 2, text: "b", type: "unchanged" },
+      right: { lineNumber: 2, text: "b", type: "unchanged" },
+    });
+  });
+
+  it("pairs a changed line with its replacement", () => {
+    const rows = diffSideBySide("Be friendly.\nBook appointments.", "Be formal.\nBook appointments.");
+    expect(rows).toHaveLength(2);
+    expect(rows[0].left).toEqual({ lineNumber: 1, text: "Be friendly.", type: "removed" });
+    expect(rows[0].right).toEqual({ lineNumber: 1, text: "Be formal.", type: "added" });
+    expect(rows[1].left?.type).toBe("unchanged");
+  });
+
+  it("leaves the other side empty for pure additions and removals", () => {
+    const rows = diffSideBySide("a\nc", "a\nb\nc\nd");
+    expect(rows.map((r) => [r.left?.text ?? null, r.right?.text ?? null])).toEqual([
+      ["a", "a"],
+      [null, "b"],
+      ["c", "c"],
+      [null, "d"],
+    ]);
+    expect(rows[2].right?.lineNumber).toBe(3);
+
+    const removed = diffSideBySide("a\nb", "");
+    expect(removed.every((r) => r.right === null && r.left?.type === "removed")).toBe(true);
+  });
+});
+
+describe("formatPromptConfig", () => {
+  it("upgrades v1 configs so the upgrade isn't a change", () => {
+    const v1 = {
+      version: 1,
+      fields: [],
+      behaviors: {},
+      tone: "professional",
+      customInstructions: "",
+    };
+    expect(formatPromptConfig(v1)).toContain('"version": 2');
+    expect(formatPromptConfig(v1)).toContain('"intents": []');
+    expect(formatPromptConfig(null)).toBe("");
+  });
+});
+
+describe("rollbackNote", () => {
+  it("names the restored revision", () => {
+    expect(rollbackNote(3)).toBe("Rolled back to revision 3");
+  });
+});
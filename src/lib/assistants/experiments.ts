@@ -0,0 +1,353 @@
+/**
+ * Prompt experiments
+ *
+ * An experiment splits an assistant's inbound calls by weight between prompt
+ * revisions (see revisions.ts), e.g. two greetings or two tone presets. The
+ * voice server picks a variant as each call starts (voice-server/lib/
+ * experiments.js) and records it on the call; Vapi numbers always answer with
+ * the live prompt. The analytics page compares the variants, and stopping an
+ * experiment can promote its winner to the live prompt.
+ */
+
+import { z } from "zod";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+/** Most variants in one experiment */
+export const MAX_EXPERIMENT_VARIANTS = 4;
+
+/** Calls each variant needs before a difference can be called significant */
+export const MIN_CALLS_FOR_SIGNIFICANCE = 30;
+
+/** Two-sided p-value below which a difference is significant */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export type ExperimentStatus = "running" | "stopped";
+
+export const createExperimentSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  variants: z
+    .array(
+      z.object({
+        revisionId: z.string().uuid(),
+        weight: z.number().int().min(1).max(100),
+      })
+    )
+    .min(2)
+    .max(MAX_EXPERIMENT_VARIANTS)
+    .refine(
+      (variants) => new Set(variants.map((v) => v.revisionId)).size === variants.length,
+      "Each variant must use a different revision"
+    ),
+});
+
+export type CreateExperimentInput = z.infer<typeof createExperimentSchema>;
+
+/** Variant labels in order: A, B, C, D */
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/** Note recorded on the revision promoting a variant makes live */
+export function promotionNote(variantLabel: string, experimentName: string): string {
+  return `Promoted variant ${variantLabel} of experiment "${experimentName}"`;
+}
+
+/** A call answered by an experiment variant, with what came of it */
+export interface ExperimentCall {
+  duration_seconds: number | null;
+  action_taken: string | null;
+  ended_reason: string | null;
+  /** calls.metadata.successEvaluation */
+  success_evaluation: unknown;
+  /** Whether an appointment was booked on the call */
+  booked: boolean;
+}
+
+export type SuccessEvaluation = "pass" | "fail" | "unknown";
+
+/**
+ * Vapi's PassFail rubric and the voice server's analysis both report
+ * successEvaluation in calls.metadata, as "pass"/"fail", "true"/"false" or
+ * similar. Anything else, or no evaluation, is unknown.
+ */
+export function normalizeSuccessEvaluation(value: unknown): SuccessEvaluation {
+  const normalized = String(value ?? "").trim().toLowerCase();
+  if (["pass", "passed", "success", "true"].includes(normalized)) return "pass";
+  if (["fail", "failed", "failure", "false"].includes(normalized)) return "fail";
+  return "unknown";
+}
+
+export interface VariantStats {
+  calls: number;
+  bookings: number;
+  bookingRate: number;
+  transfers: number;
+  transferRate: number;
+  /** Seconds; 0 when there are no calls */
+  averageDuration: number;
+  successEvaluation: Record<SuccessEvaluation, number>;
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+export function summarizeVariantCalls(calls: ExperimentCall[]): VariantStats {
+  const bookings = calls.filter((c) => c.booked).length;
+  const transfers = calls.filter(
+    (c) => c.action_taken === "transferred" || c.ended_reason === "transferred"
+  ).length;
+  const totalDuration = calls.reduce((sum, c) => sum + (c.duration_seconds || 0), 0);
+
+  const successEvaluation: Record<SuccessEvaluation, number> = { pass: 0, fail: 0, unknown: 0 };
+  for (const call of calls) {
+    successEvaluation[normalizeSuccessEvaluation(call.success_evaluation)]++;
+  }
+
+  return {
+    calls: calls.length,
+    bookings,
+    bookingRate: rate(bookings, calls.length),
+    transfers,
+    transferRate: rate(transfers, calls.length),
+    averageDuration: calls.length > 0 ? Math.round(totalDuration / calls.length) : 0,
+    successEvaluation,
+  };
+}
+
+/** Standard normal CDF (Abramowitz and Stegun 26.2.17, error < 7.5e-8) */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+export interface RateComparison {
+  /** Two-sided p-value of a two-proportion z-test; null without enough calls */
+  pValue: number | null;
+  significant: boolean;
+}
+
+/**
+ * Whether two rates differ by more than chance, by a two-proportion z-test.
+ * Needs MIN_CALLS_FOR_SIGNIFICANCE calls on each side.
+ */
+export function compareRates(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): RateComparison {
+  if (totalA < MIN_CALLS_FOR_SIGNIFICANCE || totalB < MIN_CALLS_FOR_SIGNIFICANCE) {
+    return { pValue: null, significant: false };
+  }
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) {
+    return { pValue: 1, significant: false };
+  }
+
+  const z = (successesA / totalA - successesB / totalB) / standardError;
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+  return { pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+export interface VariantComparison {
+  booking: RateComparison;
+  transfer: RateComparison;
+  /** Share of evaluated calls that passed */
+  success: RateComparison;
+}
+
+/** Compare a variant's rates with the control (the experiment's first variant) */
+export function compareWithControl(control: VariantStats, variant: VariantStats): VariantComparison {
+  const evaluated = (s: VariantStats) => s.successEvaluation.pass + s.successEvaluation.fail;
+  return {
+    booking: compareRates(variant.bookings, variant.calls, control.bookings, control.calls),
+    transfer: compareRates(variant.transfers, variant.calls, control.transfers, control.calls),
+    success: compareRates(
+      variant.successEvaluation.pass,
+      evaluated(variant),
+      control.successEvaluation.pass,
+      evaluated(control)
+    ),
+  };
+}
+
+export interface ExperimentVariantResult {
+  id: string;
+  label: string;
+  weight: number;
+  revisionId: string;
+  revisionNumber: number | null;
+  revisionNote: string | null;
+  stats: VariantStats;
+  /** Null for the control */
+  comparison: VariantComparison | null;
+}
+
+export interface ExperimentResult {
+  id: string;
+  assistantId: string;
+  assistantName: string | null;
+  name: string;
+  status: ExperimentStatus;
+  startedAt: string;
+  stoppedAt: string | null;
+  winnerVariantId: string | null;
+  variants: ExperimentVariantResult[];
+}
+
+/** Rows per request; PostgREST caps unbounded selects at 1000 */
+const PAGE_SIZE = 1000;
+
+/** Call ids per appointments lookup, to keep the request URL short */
+const CALL_ID_CHUNK_SIZE = 100;
+
+/** Every row of a query, fetched PAGE_SIZE at a time */
+async function selectAllPages<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, error } = await query(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+type VariantCallRow = Omit<ExperimentCall, "booked"> & { id: string; experiment_variant_id: string };
+
+/** Finished, non-spam calls answered by the variants, with their bookings */
+async function loadVariantCalls(
+  supabase: SupabaseAny,
+  organizationId: string,
+  variantIds: string[]
+): Promise<Map<string, ExperimentCall[]>> {
+  const calls = await selectAllPages<VariantCallRow>((from, to) =>
+    supabase
+      .from("calls")
+      .select("id, experiment_variant_id, duration_seconds, action_taken, ended_reason, success_evaluation:metadata->successEvaluation")
+      .eq("organization_id", organizationId)
+      .in("experiment_variant_id", variantIds)
+      .not("ended_at", "is", null)
+      .not("is_spam", "is", true)
+      .order("id")
+      .range(from, to)
+  );
+
+  const bookedCallIds = new Set<string>();
+  for (let i = 0; i < calls.length; i += CALL_ID_CHUNK_SIZE) {
+    const callIds = calls.slice(i, i + CALL_ID_CHUNK_SIZE).map((c) => c.id);
+    const appointments = await selectAllPages<{ call_id: string }>((from, to) =>
+      supabase
+        .from("appointments")
+        .select("call_id")
+        .eq("organization_id", organizationId)
+        .in("call_id", callIds)
+        .order("id")
+        .range(from, to)
+    );
+    for (const appointment of appointments) bookedCallIds.add(appointment.call_id);
+  }
+
+  const callsByVariant = new Map<string, ExperimentCall[]>();
+  for (const call of calls) {
+    const list = callsByVariant.get(call.experiment_variant_id) ?? [];
+    list.push({ ...call, booked: bookedCallIds.has(call.id) });
+    callsByVariant.set(call.experiment_variant_id, list);
+  }
+  return callsByVariant;
+}
+
+interface ExperimentRow {
+  id: string;
+  assistant_id: string;
+  name: string;
+  status: ExperimentStatus;
+  started_at: string;
+  stopped_at: string | null;
+  winner_variant_id: string | null;
+  assistants: { name: string } | null;
+  assistant_experiment_variants: {
+    id: string;
+    label: string;
+    weight: number;
+    position: number;
+    revision_id: string;
+    assistant_revisions: { revision_number: number; note: string | null } | null;
+  }[];
+}
+
+/**
+ * Experiments with per-variant stats, newest first: running ones plus those
+ * stopped since `since`. Spam and unfinished calls are left out of the stats.
+ */
+export async function loadExperimentResults(
+  supabase: SupabaseAny,
+  organizationId: string,
+  { assistantId, since }: { assistantId?: string; since?: Date } = {}
+): Promise<ExperimentResult[]> {
+  let query = supabase
+    .from("assistant_experiments")
+    .select(`
+      id, assistant_id, name, status, started_at, stopped_at, winner_variant_id,
+      assistants (name),
+      assistant_experiment_variants (
+        id, label, weight, position, revision_id,
+        assistant_revisions (revision_number, note)
+      )
+    `)
+    .eq("organization_id", organizationId)
+    .order("started_at", { ascending: false });
+  if (assistantId) query = query.eq("assistant_id", assistantId);
+  if (since) query = query.or(`status.eq.running,stopped_at.gte.${since.toISOString()}`);
+
+  const { data: experiments, error } = await query;
+  if (error) {
+    console.error("[Experiments] Failed to load experiments:", { organizationId, error });
+    return [];
+  }
+  const rows = (experiments || []) as ExperimentRow[];
+  if (rows.length === 0) return [];
+
+  const variantIds = rows.flatMap((e) => e.assistant_experiment_variants.map((v) => v.id));
+  let callsByVariant: Map<string, ExperimentCall[]>;
+  try {
+    callsByVariant = await loadVariantCalls(supabase, organizationId, variantIds);
+  } catch (callsError) {
+    console.error("[Experiments] Failed to load experiment calls:", { organizationId, error: callsError });
+    return [];
+  }
+
+  return rows.map((experiment) => {
+    const variants = [...experiment.assistant_experiment_variants].sort((a, b) => a.position - b.position);
+    const stats = variants.map((v) => summarizeVariantCalls(callsByVariant.get(v.id) ?? []));
+    return {
+      id: experiment.id,
+      assistantId: experiment.assistant_id,
+      assistantName: experiment.assistants?.name ?? null,
+      name: experiment.name,
+      status: experiment.status,
+      startedAt: experiment.started_at,
+      stoppedAt: experiment.stopped_at,
+      winnerVariantId: experiment.winner_variant_id,
+      variants: variants.map((v, i) => ({
+        id: v.id,
+        label: v.label,
+        weight: v.weight,
+        revisionId: v.revision_id,
+        revisionNumber: v.assistant_revisions?.revision_number ?? null,
+        revisionNote: v.assistant_revisions?.note ?? null,
+        stats: stats[i],
+        comparison: i === 0 ? null : compareWithControl(stats[0], stats[i]),
+      })),
+    };
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Restoring assistant revisions
+ *
+ * Server-only counterpart to revisions.ts, used by rollbacks and by promoting
+ * an experiment's winning variant.
+ */
+
+import { resyncOrgAssistants } from "@/lib/knowledge-base";
+import { createAssistantRevision, type AssistantRevision } from "./revisions";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+export interface RestoreRevisionResult {
+  assistant: Record<string, any>;
+  revision: AssistantRevision | null;
+  /** Set when the database was updated but Vapi may not have been */
+  warning?: string;
+}
+
+/**
+ * Make an earlier revision's prompt live again: copy it onto the assistant,
+ * record that as a new revision (history only ever grows) and resync the
+ * org's assistants to Vapi. Throws if the assistant can't be updated.
+ */
+export async function restoreAssistantRevision(
+  supabase: SupabaseAny,
+  organizationId: string,
+  revision: AssistantRevision,
+  { note, createdBy }: { note: string; createdBy: string | null }
+): Promise<RestoreRevisionResult> {
+  const { data: assistant, error } = await supabase
+    .from("assistants")
+    .update({
+      system_prompt: revision.system_prompt,
+      prompt_config: revision.prompt_config,
+      ...(revision.first_message !== null && { first_message: revision.first_message }),
+    })
+    .eq("id", revision.assistant_id)
+    .eq("organization_id", organizationId)
+    .select()
+    .single();
+
+  if (error || !assistant) {
+    throw new Error(`Failed to restore revision ${revision.id}: ${error?.message ?? "assistant not found"}`);
+  }
+
+  const newRevision = await createAssistantRevision(supabase, revision.assistant_id, {
+    note,
+    createdBy,
+    restoredFromRevisionId: revision.id,
+  });
+  if (newRevision) assistant.current_revision_id = newRevision.id;
+
+  try {
+    await resyncOrgAssistants(supabase, organizationId);
+  } catch (err) {
+    console.error("[Revisions] Failed to resync assistants after restoring a revision:", err);
+    return {
+      assistant,
+      revision: newRevision,
+      warning: "Prompt restored, but the assistant may take a moment to reflect it.",
+    };
+  }
+
+  return { assistant, revision: newRevision };
+}
@@ -0,0 +1,179 @@
+/**
+ * Assistant revisions
+ *
+ * Every save of an assistant's prompt snapshots its system_prompt,
+ * prompt_config and greeting as an immutable revision
+ * (create_assistant_revision in the assistant revisions migration), with the
+ * author and an optional note.
+ * The history tab diffs revisions side by side and can roll back to one
+ * (restore.ts), which restores its prompt, records a new revision and
+ * resyncs Vapi.
+ * Calls record the revision that answered them (assistant_revision_id).
+ */
+
+import { upgradePromptConfig } from "@/lib/prompt-builder";
+import type { PromptConfig, PromptConfigV1 } from "@/lib/prompt-builder/types";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+/** Longest revision note */
+export const MAX_REVISION_NOTE_LENGTH = 200;
+
+/** Revisions listed in the history tab */
+export const REVISION_HISTORY_LIMIT = 50;
+
+export interface AssistantRevision {
+  id: string;
+  assistant_id: string;
+  organization_id: string;
+  revision_number: number;
+  system_prompt: string;
+  prompt_config: Record<string, any> | null;
+  /** NULL for revisions saved before greetings were kept */
+  first_message: string | null;
+  note: string | null;
+  created_by: string | null;
+  restored_from_revision_id: string | null;
+  created_at: string;
+}
+
+export interface CreateRevisionOptions {
+  note?: string | null;
+  /** The saving user; null for API keys */
+  createdBy: string | null;
+  restoredFromRevisionId?: string | null;
+}
+
+/**
+ * Snapshot the assistant's saved prompt as its next revision and make it the
+ * current one. Call after the assistant row has been updated. Returns null
+ * (and logs) on failure; the save itself has already gone through.
+ */
+export async function createAssistantRevision(
+  supabase: SupabaseAny,
+  assistantId: string,
+  { note, createdBy, restoredFromRevisionId }: CreateRevisionOptions
+): Promise<AssistantRevision | null> {
+  const { data, error } = await supabase.rpc("create_assistant_revision", {
+    p_assistant_id: assistantId,
+    p_note: note ?? null,
+    p_created_by: createdBy,
+    p_restored_from: restoredFromRevisionId ?? null,
+  });
+
+  if (error) {
+    console.error("[Revisions] Failed to create assistant revision:", { assistantId, error });
+    return null;
+  }
+
+  return data as AssistantRevision;
+}
+
+/** Note recorded on the revision a rollback creates */
+export function rollbackNote(revisionNumber: number): string {
+  return `Rolled back to revision ${revisionNumber}`;
+}
+
+/**
+ * Prompt config as stable, indented text for diffing. v1 configs are
+ * upgraded first so the upgrade alone doesn't show as a change.
+ */
+export function formatPromptConfig(config: Record<string, any> | null | undefined): string {
+  if (!config) return "";
+  return JSON.stringify(upgradePromptConfig(config as PromptConfig | PromptConfigV1), null, 2);
+}
+
+export type DiffLineType = "unchanged" | "removed" | "added";
+
+export interface DiffCell {
+  lineNumber: number;
+  text: string;
+  type: DiffLineType;
+}
+
+/**
+ * One row of a side-by-side diff. Removed lines sit next to the lines that
+ * replaced them; a side is null where the other side only added or removed.
+ */
+export interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+type DiffOp = { type: DiffLineType; text: string };
+
+/** Line diff from the longest common subsequence of the two texts' lines */
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: "unchanged", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "removed", text: before[i++] });
+    } else {
+      ops.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < before.length) ops.push({ type: "removed", text: before[i++] });
+  while (j < after.length) ops.push({ type: "added", text: after[j++] });
+  return ops;
+}
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/** Side-by-side line diff of two texts, old on the left */
+export function diffSideBySide(before: string, after: string): DiffRow[] {
+  const ops = diffOps(splitLines(before), splitLines(after));
+  const rows: DiffRow[] = [];
+  let leftLine = 0;
+  let rightLine = 0;
+
+  for (let k = 0; k < ops.length; ) {
+    if (ops[k].type === "unchanged") {
+      rows.push({
+        left: { lineNumber: ++leftLine, text: ops[k].text, type: "unchanged" },
+        right: { lineNumber: ++rightLine, text: ops[k].text, type: "unchanged" },
+      });
+      k++;
+      continue;
+    }
+
+    // Pair a run of removals with the additions that follow it
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === "removed") removed.push(ops[k++].text);
+    while (k < ops.length && ops[k].type === "added") added.push(ops[k++].text);
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      rows.push({
+        left: n < removed.length ? { lineNumber: ++leftLine, text: removed[n], type: "removed" } : null,
+        right: n < added.length ? { lineNumber: ++rightLine, text: added[n], type: "added" } : null,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/** Whether a diff has any changed lines */
+export function hasChanges(rows: DiffRow[]): boolean {
+  return rows.some((row) => row.left?.type !== "unchanged" || row.right?.type !== "unchanged");
+}
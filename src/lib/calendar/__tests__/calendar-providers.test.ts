@@ -0,0 +1,340 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GoogleCalendarProvider } from "../providers/google-calendar";
+import { MicrosoftGraphProvider } from "../providers/microsoft-graph";
+import { CalendarSlotUnavailableError } from "../providers/types";
+import {
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+} from "../providers/oauth";
+import { removeBusySlots } from "../tool-handlers";
+
+import googleFreeBusy from "./fixtures/google-freebusy.json";
+import googleFreeBusyEmpty from "./fixtures/google-freebusy-empty.json";
+import googleEvent from "./fixtures/google-event.json";
+import googleToken from "./fixtures/google-token.json";
+import microsoftCalendarView from "./fixtures/microsoft-calendar-view.json";
+import microsoftEvent from "./fixtures/microsoft-event.json";
+import microsoftToken from "./fixtures/microsoft-token.json";
+
+// Replays recorded API responses in order and keeps the requests for assertions
+function replay(...responses: Array<{ status?: number; body?: unknown }>) {
+  const queue = [...responses];
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => {
+    const next = queue.shift();
+    if (!next) throw new Error("Unexpected fetch: no recorded response left");
+    const status = next.status ?? 200;
+    return new Response(status === 204 ? null : JSON.stringify(next.body ?? {}), { status });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function requestAt(fetchMock: ReturnType<typeof replay>, index: number) {
+  const [url, init] = fetchMock.mock.calls[index];
+  return {
+    url: String(url),
+    method: init?.method ?? "GET",
+    headers: (init?.headers ?? {}) as Record<string, string>,
+    body: typeof init?.body === "string" ? init.body : undefined,
+  };
+}
+
+const getAccessToken = async () => "test-access-token";
+
+const bookingRequest = {
+  organizationId: "org-1",
+  start: "2026-03-16T11:00:00-04:00",
+  durationMinutes: 30,
+  timezone: "America/New_York",
+  name: "Maria Lopez",
+  email: "maria@example.com",
+  phone: "+15551234567",
+  notes: "First visit",
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("GoogleCalendarProvider", () => {
+  it("reads busy intervals from the free/busy response", async () => {
+    const fetchMock = replay({ body: googleFreeBusy });
+    const provider = new GoogleCalendarProvider(getAccessToken);
+
+    const availability = await provider.getAvailability({
+      start: "2026-03-16T00:00:00-04:00",
+      end: "2026-03-16T23:59:59-04:00",
+    });
+
+    expect(availability).toEqual({
+      type: "busy",
+      busy: [
+        { start: "2026-03-16T14:00:00Z", end: "2026-03-16T15:00:00Z" },
+        { start: "2026-03-16T17:30:00Z", end: "2026-03-16T18:00:00Z" },
+      ],
+    });
+
+    const request = requestAt(fetchMock, 0);
+    expect(request.url).toBe("https://www.googleapis.com/calendar/v3/freeBusy");
+    expect(request.method).toBe("POST");
+    expect(request.headers.Authorization).toBe("Bearer test-access-token");
+    expect(JSON.parse(request.body!)).toEqual({
+      timeMin: "2026-03-16T04:00:00.000Z",
+      timeMax: "2026-03-17T03:59:59.000Z",
+      items: [{ id: "primary" }],
+    });
+  });
+
+  it("checks free/busy and then creates the event", async () => {
+    const fetchMock = replay({ body: googleFreeBusyEmpty }, { body: googleEvent });
+    const provider = new GoogleCalendarProvider(getAccessToken);
+
+    const booking = await provider.createBooking(bookingRequest);
+
+    expect(booking).toEqual({
+      externalId: "7k2m1q9v3h5n8c0r4t6p2s1d0a",
+      startTime: "2026-03-16T11:00:00-04:00",
+      endTime: "2026-03-16T11:30:00-04:00",
+      metadata: {
+        googleCalendarId: "primary",
+        htmlLink: googleEvent.htmlLink,
+      },
+    });
+
+    const create = requestAt(fetchMock, 1);
+    expect(create.url).toBe("https://www.googleapis.com/calendar/v3/calendars/primary/events?sendUpdates=none");
+    expect(create.method).toBe("POST");
+    const body = JSON.parse(create.body!);
+    expect(body.summary).toBe("Appointment: Maria Lopez");
+    expect(body.start).toEqual({ dateTime: "2026-03-16T11:00:00-04:00", timeZone: "America/New_York" });
+    expect(body.description).toContain("+15551234567");
+    expect(body.extendedProperties.private.organizationId).toBe("org-1");
+  });
+
+  it("refuses to book over a busy block", async () => {
+    const fetchMock = replay({ body: googleFreeBusy });
+    const provider = new GoogleCalendarProvider(getAccessToken);
+
+    await expect(
+      provider.createBooking({ ...bookingRequest, start: "2026-03-16T10:00:00-04:00" })
+    ).rejects.toBeInstanceOf(CalendarSlotUnavailableError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores the event's own block when rescheduling over it", async () => {
+    const ownBlock = {
+      ...googleFreeBusyEmpty,
+      calendars: { primary: { busy: [{ start: "2026-03-16T15:00:00Z", end: "2026-03-16T15:30:00Z" }] } },
+    };
+    const fetchMock = replay({ body: ownBlock }, { body: googleEvent }, { body: googleEvent });
+    const provider = new GoogleCalendarProvider(getAccessToken);
+
+    const booking = await provider.rescheduleBooking(
+      { externalId: googleEvent.id, metadata: {} },
+      "2026-03-16T11:15:00-04:00",
+      30,
+      "America/New_York"
+    );
+
+    expect(booking.externalId).toBe(googleEvent.id);
+    expect(requestAt(fetchMock, 2).method).toBe("PATCH");
+  });
+
+  it("treats an already-deleted event as cancelled", async () => {
+    replay({ status: 410, body: { error: { code: 410, message: "Resource has been deleted" } } });
+    const provider = new GoogleCalendarProvider(getAccessToken);
+
+    await expect(provider.cancelBooking({ externalId: "gone", metadata: {} })).resolves.toBeUndefined();
+  });
+});
+
+describe("MicrosoftGraphProvider", () => {
+  it("drops free and cancelled events and converts times to UTC", async () => {
+    const fetchMock = replay({ body: microsoftCalendarView });
+    const provider = new MicrosoftGraphProvider(getAccessToken);
+
+    const availability = await provider.getAvailability({
+      start: "2026-03-16T00:00:00-04:00",
+      end: "2026-03-16T23:59:59-04:00",
+    });
+
+    expect(availability).toEqual({
+      type: "busy",
+      busy: [{ start: "2026-03-16T14:00:00.000Z", end: "2026-03-16T15:00:00.000Z" }],
+    });
+
+    const request = requestAt(fetchMock, 0);
+    const url = new URL(request.url);
+    expect(url.pathname).toBe("/v1.0/me/calendar/calendarView");
+    expect(url.searchParams.get("startDateTime")).toBe("2026-03-16T04:00:00.000Z");
+    expect(request.headers.Prefer).toBe('outlook.timezone="UTC"');
+  });
+
+  it("creates the event in UTC when the slot is free", async () => {
+    const fetchMock = replay({ body: { value: [] } }, { body: microsoftEvent });
+    const provider = new MicrosoftGraphProvider(getAccessToken);
+
+    const booking = await provider.createBooking(bookingRequest);
+
+    expect(booking).toEqual({
+      externalId: "AAMkAGI2TGuOAAA=",
+      startTime: "2026-03-16T15:00:00.000Z",
+      endTime: "2026-03-16T15:30:00.000Z",
+      metadata: { webLink: microsoftEvent.webLink },
+    });
+
+    const create = requestAt(fetchMock, 1);
+    expect(create.url).toBe("https://graph.microsoft.com/v1.0/me/calendar/events");
+    const body = JSON.parse(create.body!);
+    expect(body.subject).toBe("Appointment: Maria Lopez");
+    expect(body.start).toEqual({ dateTime: "2026-03-16T15:00:00.000", timeZone: "UTC" });
+    expect(body.end).toEqual({ dateTime: "2026-03-16T15:30:00.000", timeZone: "UTC" });
+    expect(body.showAs).toBe("busy");
+  });
+
+  it("refuses to book over a busy event", async () => {
+    replay({ body: microsoftCalendarView });
+    const provider = new MicrosoftGraphProvider(getAccessToken);
+
+    await expect(
+      provider.createBooking({ ...bookingRequest, start: "2026-03-16T10:00:00-04:00" })
+    ).rejects.toBeInstanceOf(CalendarSlotUnavailableError);
+  });
+
+  it("addresses a named calendar by id", async () => {
+    const fetchMock = replay({ body: { value: [] } });
+    const provider = new MicrosoftGraphProvider(getAccessToken, "AQMkADAw");
+
+    await provider.getAvailability({
+      start: "2026-03-16T00:00:00Z",
+      end: "2026-03-17T00:00:00Z",
+    });
+
+    expect(new URL(requestAt(fetchMock, 0).url).pathname).toBe("/v1.0/me/calendars/AQMkADAw/calendarView");
+  });
+});
+
+describe("calendar OAuth", () => {
+  beforeEach(() => {
+    vi.stubEnv("GOOGLE_CLIENT_ID", "google-client-id");
+    vi.stubEnv("GOOGLE_CLIENT_SECRET", "google-client-secret");
+    vi.stubEnv("MICROSOFT_CLIENT_ID", "microsoft-client-id");
+    vi.stubEnv("MICROSOFT_CLIENT_SECRET", "microsoft-client-secret");
+    vi.stubEnv("NEXT_PUBLIC_APP_URL", "https://app.example.com");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("builds a Google consent URL that asks for offline access", () => {
+    const url = new URL(buildAuthorizationUrl("google_calendar", "state-123"));
+
+    expect(url.origin + url.pathname).toBe("https://accounts.google.com/o/oauth2/v2/auth");
+    expect(url.searchParams.get("client_id")).toBe("google-client-id");
+    expect(url.searchParams.get("redirect_uri")).toBe(
+      "https://app.example.com/api/v1/calendar/oauth/google_calendar/callback"
+    );
+    expect(url.searchParams.get("state")).toBe("state-123");
+    expect(url.searchParams.get("access_type")).toBe("offline");
+    expect(url.searchParams.get("scope")).toContain("https://www.googleapis.com/auth/calendar.events");
+  });
+
+  it("throws when the provider has no client credentials", () => {
+    vi.stubEnv("MICROSOFT_CLIENT_SECRET", "");
+    expect(() => buildAuthorizationUrl("microsoft_outlook", "state")).toThrow(/MICROSOFT_CLIENT_SECRET/);
+  });
+
+  it("exchanges an authorization code for tokens", async () => {
+    const fetchMock = replay({ body: googleToken });
+
+    const tokens = await exchangeAuthorizationCode("google_calendar", "auth-code");
+
+    expect(tokens.accessToken).toBe(googleToken.access_token);
+    expect(tokens.refreshToken).toBe(googleToken.refresh_token);
+    expect(tokens.expiresAt.getTime()).toBeGreaterThan(Date.now() + 3500 * 1000);
+
+    const request = requestAt(fetchMock, 0);
+    expect(request.url).toBe("https://oauth2.googleapis.com/token");
+    const form = new URLSearchParams(request.body);
+    expect(form.get("grant_type")).toBe("authorization_code");
+    expect(form.get("code")).toBe("auth-code");
+    expect(form.get("client_secret")).toBe("google-client-secret");
+  });
+
+  it("keeps the stored refresh token when Google doesn't return one", async () => {
+    const { refresh_token: _omitted, ...refreshed } = googleToken;
+    replay({ body: refreshed });
+
+    const tokens = await refreshAccessToken("google_calendar", "stored-refresh-token");
+
+    expect(tokens.refreshToken).toBe("stored-refresh-token");
+  });
+
+  it("takes the rotated refresh token from Microsoft", async () => {
+    const fetchMock = replay({ body: microsoftToken });
+
+    const tokens = await refreshAccessToken("microsoft_outlook", "old-refresh-token");
+
+    expect(tokens.refreshToken).toBe(microsoftToken.refresh_token);
+    expect(requestAt(fetchMock, 0).url).toBe("https://login.microsoftonline.com/common/oauth2/v2.0/token");
+  });
+
+  it("surfaces token endpoint errors", async () => {
+    replay({ status: 400, body: { error: "invalid_grant" } });
+
+    await expect(refreshAccessToken("microsoft_outlook", "revoked")).rejects.toThrow(
+      /Microsoft Outlook token error: 400/
+    );
+  });
+});
+
+describe("removeBusySlots", () => {
+  const slots = [
+    "2026-03-16T09:00:00",
+    "2026-03-16T09:30:00",
+    "2026-03-16T10:00:00",
+    "2026-03-16T10:30:00",
+    "2026-03-16T11:00:00",
+  ];
+
+  it("returns all slots when nothing is busy", () => {
+    expect(removeBusySlots(slots, [], 30, "America/New_York")).toEqual(slots);
+  });
+
+  it("removes slots overlapping a busy block, comparing absolute times", () => {
+    // 14:00–15:00Z is 10:00–11:00 in New York
+    const busy = [{ start: "2026-03-16T14:00:00Z", end: "2026-03-16T15:00:00Z" }];
+    expect(removeBusySlots(slots, busy, 30, "America/New_York")).toEqual([
+      "2026-03-16T09:00:00",
+      "2026-03-16T09:30:00",
+      "2026-03-16T11:00:00",
+    ]);
+  });
+
+  it("drops a slot whose longer duration runs into a busy block", () => {
+    const busy = [{ start: "2026-03-16T14:00:00Z", end: "2026-03-16T14:30:00Z" }];
+    expect(removeBusySlots(slots, busy, 60, "America/New_York")).toEqual([
+      "2026-03-16T09:00:00",
+      "2026-03-16T10:30:00",
+      "2026-03-16T11:00:00",
+    ]);
+  });
+
+  it("clears the whole day for an all-day block", () => {
+    const busy = [{ start: "2026-03-16T04:00:00Z", end: "2026-03-17T04:00:00Z" }];
+    expect(removeBusySlots(slots, busy, 30, "America/New_York")).toEqual([]);
+  });
+
+  it("keeps the service's buffers clear of busy blocks", () => {
+    // Busy 10:00-10:30 NY; 15 min cleanup drops 9:30, 15 min setup drops 10:30
+    const busy = [{ start: "2026-03-16T14:00:00Z", end: "2026-03-16T14:30:00Z" }];
+    expect(
+      removeBusySlots(slots, busy, 30, "America/New_York", {
+        bufferBeforeMinutes: 15,
+        bufferAfterMinutes: 15,
+      })
+    ).toEqual(["2026-03-16T09:00:00", "2026-03-16T11:00:00"]);
+  });
+});
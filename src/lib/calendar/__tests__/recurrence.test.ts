@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { describeFrequency, normalizeFrequency, occurrenceDates } from "../recurrence";
+
+describe("normalizeFrequency", () => {
+  it("accepts the tool's values and common phrasings", () => {
+    expect(normalizeFrequency("weekly")).toBe("weekly");
+    expect(normalizeFrequency("Every Week")).toBe("weekly");
+    expect(normalizeFrequency("fortnightly")).toBe("biweekly");
+    expect(normalizeFrequency("every other week")).toBe("biweekly");
+    expect(normalizeFrequency(" monthly ")).toBe("monthly");
+  });
+
+  it("returns null for anything else", () => {
+    expect(normalizeFrequency(undefined)).toBeNull();
+    expect(normalizeFrequency("sometimes")).toBeNull();
+  });
+});
+
+describe("occurrenceDates", () => {
+  it("repeats weekly from the first date", () => {
+    expect(occurrenceDates("2026-03-03", { frequency: "weekly", count: 6 })).toEqual([
+      "2026-03-03",
+      "2026-03-10",
+      "2026-03-17",
+      "2026-03-24",
+      "2026-03-31",
+      "2026-04-07",
+    ]);
+  });
+
+  it("keeps local dates across a DST change", () => {
+    // US clocks change on March 8, 2026
+    expect(occurrenceDates("2026-03-06", { frequency: "daily", count: 4 })).toEqual([
+      "2026-03-06",
+      "2026-03-07",
+      "2026-03-08",
+      "2026-03-09",
+    ]);
+  });
+
+  it("repeats every two weeks", () => {
+    expect(occurrenceDates("2026-12-22", { frequency: "biweekly", count: 3 })).toEqual([
+      "2026-12-22",
+      "2027-01-05",
+      "2027-01-19",
+    ]);
+  });
+
+  it("clamps monthly occurrences to the end of shorter months", () => {
+    expect(occurrenceDates("2026-01-31", { frequency: "monthly", count: 4 })).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ]);
+  });
+});
+
+describe("describeFrequency", () => {
+  it("reads naturally in a sentence", () => {
+    expect(describeFrequency("biweekly")).toBe("every two weeks");
+    expect(describeFrequency("monthly")).toBe("every month");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  dueReminderOffset,
+  isWithinCallingHours,
+  normalizeReminderOffsets,
+  parseReminderReply,
+  summarizeAttendance,
+} from "../reminders";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("parseReminderReply", () => {
+  it("reads C, R and X replies", () => {
+    expect(parseReminderReply("C")).toBe("confirm");
+    expect(parseReminderReply(" confirm! ")).toBe("confirm");
+    expect(parseReminderReply("r")).toBe("reschedule");
+    expect(parseReminderReply("X")).toBe("cancel");
+  });
+
+  it("leaves CANCEL to the opt-out handling and ignores anything else", () => {
+    expect(parseReminderReply("cancel")).toBeNull();
+    expect(parseReminderReply("yes")).toBeNull();
+    expect(parseReminderReply("can I come at 3?")).toBeNull();
+  });
+});
+
+describe("normalizeReminderOffsets", () => {
+  it("drops out-of-range and duplicate offsets and sorts largest first", () => {
+    expect(normalizeReminderOffsets([120, 1440, 120, 5, 99999])).toEqual([1440, 120]);
+  });
+
+  it("falls back to the defaults when unset", () => {
+    expect(normalizeReminderOffsets(null)).toEqual([1440, 120]);
+  });
+});
+
+describe("dueReminderOffset", () => {
+  const start = new Date("2026-03-10T15:00:00Z");
+  const bookedEarly = new Date("2026-03-01T10:00:00Z");
+  const offsets = [1440, 120];
+
+  it("returns nothing before the first reminder is due", () => {
+    expect(dueReminderOffset(offsets, start, bookedEarly, new Date(start.getTime() - 30 * HOUR))).toBeNull();
+  });
+
+  it("returns the latest offset whose time has passed", () => {
+    expect(dueReminderOffset(offsets, start, bookedEarly, new Date(start.getTime() - 20 * HOUR))).toBe(1440);
+    expect(dueReminderOffset(offsets, start, bookedEarly, new Date(start.getTime() - 1 * HOUR))).toBe(120);
+  });
+
+  it("skips reminders that would have gone out before the booking was made", () => {
+    const bookedLate = new Date(start.getTime() - 10 * HOUR);
+    expect(dueReminderOffset(offsets, start, bookedLate, new Date(start.getTime() - 9 * HOUR))).toBeNull();
+    expect(dueReminderOffset(offsets, start, bookedLate, new Date(start.getTime() - 1 * HOUR))).toBe(120);
+  });
+
+  it("returns nothing once the appointment has started", () => {
+    expect(dueReminderOffset(offsets, start, bookedEarly, start)).toBeNull();
+  });
+});
+
+describe("isWithinCallingHours", () => {
+  it("uses the local hour in the given timezone", () => {
+    // 14:00 UTC is 10:00 in New York and 01:00 in Sydney
+    const now = new Date("2026-03-10T14:00:00Z");
+    expect(isWithinCallingHours(now, "America/New_York")).toBe(true);
+    expect(isWithinCallingHours(now, "Australia/Sydney")).toBe(false);
+  });
+});
+
+describe("summarizeAttendance", () => {
+  it("computes no-show rates from recorded outcomes only", () => {
+    const summary = summarizeAttendance([
+      { status: "completed", confirmed_by_caller_at: "2026-03-09T10:00:00Z" },
+      { status: "completed", confirmed_by_caller_at: null },
+      { status: "no_show", confirmed_by_caller_at: null },
+      { status: "no_show", confirmed_by_caller_at: null },
+      { status: "confirmed", confirmed_by_caller_at: null },
+      { status: "cancelled", confirmed_by_caller_at: null },
+    ]);
+
+    expect(summary).toEqual({
+      attended: 2,
+      noShows: 2,
+      noShowRate: 50,
+      confirmedNoShowRate: 0,
+      unconfirmedNoShowRate: 67,
+    });
+  });
+
+  it("has no rates without outcomes", () => {
+    expect(summarizeAttendance([]).noShowRate).toBeNull();
+  });
+});
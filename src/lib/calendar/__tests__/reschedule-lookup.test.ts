@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { pickAppointmentByName } from "../tool-handlers";
+
+describe("pickAppointmentByName", () => {
+  const appointments = [
+    { id: "a", attendee_name: "Maria Lopez" },
+    { id: "b", attendee_name: "Daniel Lopez" },
+    { id: "c", attendee_name: null },
+  ];
+
+  it("returns null when there are no appointments", () => {
+    expect(pickAppointmentByName([], "Maria")).toBeNull();
+  });
+
+  it("falls back to the first (soonest) appointment without a name", () => {
+    expect(pickAppointmentByName(appointments)?.id).toBe("a");
+  });
+
+  it("matches the full name case-insensitively", () => {
+    expect(pickAppointmentByName(appointments, "daniel lopez")?.id).toBe("b");
+  });
+
+  it("matches a first name only", () => {
+    expect(pickAppointmentByName(appointments, "Daniel")?.id).toBe("b");
+  });
+
+  it("matches when the caller gives more than the booked name", () => {
+    const rows = [
+      { id: "a", attendee_name: "Sam" },
+      { id: "b", attendee_name: "Dan" },
+    ];
+    expect(pickAppointmentByName(rows, "Dan Smith")?.id).toBe("b");
+  });
+
+  it("falls back to the first appointment when no name matches", () => {
+    expect(pickAppointmentByName(appointments, "Priya")?.id).toBe("a");
+  });
+
+  it("ignores whitespace-only names", () => {
+    expect(pickAppointmentByName(appointments, "   ")?.id).toBe("a");
+  });
+});
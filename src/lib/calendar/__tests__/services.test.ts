@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { findService, listServicesForVoice, toBookableService } from "../services";
+
+const catalog = [
+  { name: "Nail Trim" },
+  { name: "Full Groom" },
+  { name: "Bath and Brush" },
+  { name: "Mini Groom" },
+];
+
+describe("findService", () => {
+  it("matches the exact name case-insensitively", () => {
+    expect(findService(catalog, "full groom")).toEqual({ name: "Full Groom" });
+  });
+
+  it("ignores punctuation and filler words", () => {
+    expect(findService(catalog, "a nail trim appointment, please")).toEqual({ name: "Nail Trim" });
+  });
+
+  it("matches a unique partial name", () => {
+    expect(findService(catalog, "bath")).toEqual({ name: "Bath and Brush" });
+  });
+
+  it("returns null when the name is ambiguous", () => {
+    expect(findService(catalog, "groom")).toBeNull();
+  });
+
+  it("picks the best word overlap among ambiguous candidates", () => {
+    expect(findService(catalog, "the full groom thing")).toEqual({ name: "Full Groom" });
+  });
+
+  it("returns null for an unknown service", () => {
+    expect(findService(catalog, "tooth cleaning")).toBeNull();
+    expect(findService(catalog, "   ")).toBeNull();
+  });
+});
+
+describe("listServicesForVoice", () => {
+  it("joins names with a final 'or'", () => {
+    expect(listServicesForVoice(catalog.slice(0, 3))).toBe("Nail Trim, Full Groom or Bath and Brush");
+  });
+
+  it("handles one or no services", () => {
+    expect(listServicesForVoice([{ name: "Checkup" }])).toBe("Checkup");
+    expect(listServicesForVoice([])).toBe("");
+  });
+});
+
+describe("toBookableService", () => {
+  it("defaults buffers and drops inactive staff", () => {
+    const service = toBookableService({
+      id: "svc-1",
+      name: "Checkup",
+      description: null,
+      duration_minutes: 30,
+      buffer_before_minutes: null,
+      buffer_after_minutes: 10,
+      service_staff: [
+        { staff_members: { id: "s1", name: "Dr. Smith", is_active: true } },
+        { staff_members: { id: "s2", name: "Dr. Gone", is_active: false } },
+        { staff_members: null },
+      ],
+    });
+    expect(service).toEqual({
+      id: "svc-1",
+      name: "Checkup",
+      description: null,
+      durationMinutes: 30,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 10,
+      staff: [{ id: "s1", name: "Dr. Smith" }],
+    });
+  });
+});
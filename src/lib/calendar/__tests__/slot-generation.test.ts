@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { generateSlots, validateBookingTime } from "../tool-handlers";
+import { bookingsOverlap, generateSlots, validateBookingTime } from "../tool-handlers";
 
 describe("generateSlots", () => {
   // 9:00 AM = 540 min, 5:00 PM = 1020 min
@@ -55,6 +55,45 @@ describe("generateSlots", () => {
     expect(slots[0]).toBe("2026-03-15T08:30:00");
     expect(slots[7]).toBe("2026-03-15T15:30:00");
   });
+
+  it("steps a 90-min service every 30 min when a step is given", () => {
+    // 9-12 window: 9:00, 9:30, 10:00, 10:30 (ends 12:00)
+    const slots = generateSlots("2026-03-15", 540, 720, 90, 30);
+    expect(slots).toEqual([
+      "2026-03-15T09:00:00",
+      "2026-03-15T09:30:00",
+      "2026-03-15T10:00:00",
+      "2026-03-15T10:30:00",
+    ]);
+  });
+});
+
+describe("bookingsOverlap", () => {
+  const min = 60_000;
+  const at = (minutes: number, length: number, before = 0, after = 0) => ({
+    start: minutes * min,
+    end: (minutes + length) * min,
+    before: before * min,
+    after: after * min,
+  });
+
+  it("treats back-to-back bookings without buffers as free", () => {
+    expect(bookingsOverlap(at(540, 30), at(570, 30))).toBe(false);
+  });
+
+  it("detects plain overlap", () => {
+    expect(bookingsOverlap(at(540, 60), at(570, 30))).toBe(true);
+  });
+
+  it("blocks a booking inside the existing appointment's cleanup buffer", () => {
+    // Existing 9:00-9:30 + 15 min cleanup; new one at 9:30 collides
+    expect(bookingsOverlap(at(570, 30), at(540, 30, 0, 15))).toBe(true);
+    expect(bookingsOverlap(at(585, 30), at(540, 30, 0, 15))).toBe(false);
+  });
+
+  it("blocks a booking whose own setup buffer reaches the previous one", () => {
+    expect(bookingsOverlap(at(570, 30, 10, 0), at(540, 30))).toBe(true);
+  });
 });
 
 describe("validateBookingTime", () => {
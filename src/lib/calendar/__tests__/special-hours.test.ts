@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  findSpecialHours,
+  isClosedAllDay,
+  todayInTimezone,
+  upcomingSpecialHours,
+  type SpecialHours,
+} from "../special-hours";
+
+const specialHours: SpecialHours[] = [
+  { date: "2026-12-25", name: "Christmas Day" },
+  { date: "2026-12-24", name: "Christmas Eve", open: "09:00", close: "13:00" },
+  { date: "2026-01-01", name: "New Year's Day" },
+];
+
+describe("findSpecialHours", () => {
+  it("finds the entry for a date", () => {
+    expect(findSpecialHours(specialHours, "2026-12-24")?.name).toBe("Christmas Eve");
+  });
+
+  it("returns undefined when the weekly hours apply", () => {
+    expect(findSpecialHours(specialHours, "2026-12-23")).toBeUndefined();
+    expect(findSpecialHours(null, "2026-12-25")).toBeUndefined();
+  });
+});
+
+describe("isClosedAllDay", () => {
+  it("treats an entry without hours as a closure", () => {
+    expect(isClosedAllDay(specialHours[0])).toBe(true);
+    expect(isClosedAllDay(specialHours[1])).toBe(false);
+  });
+});
+
+describe("upcomingSpecialHours", () => {
+  it("drops past dates and sorts the rest", () => {
+    expect(upcomingSpecialHours(specialHours, "2026-06-01").map((e) => e.date)).toEqual([
+      "2026-12-24",
+      "2026-12-25",
+    ]);
+  });
+
+  it("caps the list", () => {
+    expect(upcomingSpecialHours(specialHours, "2025-01-01", 1)).toHaveLength(1);
+  });
+});
+
+describe("todayInTimezone", () => {
+  it("uses the org's calendar date, not the server's", () => {
+    const now = new Date("2026-12-24T20:00:00Z");
+    expect(todayInTimezone("Australia/Sydney", now)).toBe("2026-12-25");
+    expect(todayInTimezone("America/New_York", now)).toBe("2026-12-24");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { findStaffMember, wantsAnyStaff } from "../staff";
+
+const staff = [{ name: "Dr. Smith" }, { name: "Dr. Lee" }, { name: "Maria Lopez" }];
+
+describe("wantsAnyStaff", () => {
+  it("treats a missing or blank preference as anyone", () => {
+    expect(wantsAnyStaff(undefined)).toBe(true);
+    expect(wantsAnyStaff("  ")).toBe(true);
+  });
+
+  it("recognises common no-preference phrases", () => {
+    for (const phrase of ["anyone", "Anyone available", "anybody", "no preference", "whoever is free", "first available."]) {
+      expect(wantsAnyStaff(phrase)).toBe(true);
+    }
+  });
+
+  it("returns false for a name", () => {
+    expect(wantsAnyStaff("Dr. Smith")).toBe(false);
+  });
+});
+
+describe("findStaffMember", () => {
+  it("matches the full name regardless of punctuation", () => {
+    expect(findStaffMember(staff, "Dr Smith")).toEqual({ name: "Dr. Smith" });
+  });
+
+  it("strips a leading 'with' and expands 'doctor'", () => {
+    expect(findStaffMember(staff, "with doctor Lee")).toEqual({ name: "Dr. Lee" });
+  });
+
+  it("matches a surname or first name alone", () => {
+    expect(findStaffMember(staff, "Smith")).toEqual({ name: "Dr. Smith" });
+    expect(findStaffMember(staff, "Maria")).toEqual({ name: "Maria Lopez" });
+  });
+
+  it("returns null for an ambiguous title or an unknown name", () => {
+    expect(findStaffMember(staff, "the doctor")).toBeNull();
+    expect(findStaffMember(staff, "Dr. Jones")).toBeNull();
+  });
+});
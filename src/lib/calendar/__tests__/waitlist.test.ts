@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { entryWantsSlot, isYesReply, phonesMatch } from "../waitlist";
+
+describe("isYesReply", () => {
+  it("accepts common ways of saying yes", () => {
+    expect(isYesReply("YES")).toBe(true);
+    expect(isYesReply(" y ")).toBe(true);
+    expect(isYesReply("Yes please!")).toBe(true);
+    expect(isYesReply("book it.")).toBe(true);
+  });
+
+  it("rejects anything else", () => {
+    expect(isYesReply("no")).toBe(false);
+    expect(isYesReply("yes but can it be later?")).toBe(false);
+    expect(isYesReply("")).toBe(false);
+  });
+});
+
+describe("phonesMatch", () => {
+  it("matches local and international forms of the same number", () => {
+    expect(phonesMatch("0412 345 678", "+61412345678")).toBe(true);
+    expect(phonesMatch("(555) 123-4567", "+15551234567")).toBe(true);
+  });
+
+  it("does not match different numbers", () => {
+    expect(phonesMatch("0412 345 678", "+61412345679")).toBe(false);
+    expect(phonesMatch("1234", "+61412341234")).toBe(false);
+    expect(phonesMatch("", "")).toBe(false);
+  });
+});
+
+describe("entryWantsSlot", () => {
+  const entry = {
+    earliestDate: "2026-03-02",
+    latestDate: "2026-03-06",
+    serviceId: null,
+    staffMemberId: null,
+  };
+  const slot = { date: "2026-03-04", serviceId: "svc-1", staffMemberId: "staff-1" };
+
+  it("wants any slot inside its dates when it has no preferences", () => {
+    expect(entryWantsSlot(entry, slot)).toBe(true);
+    expect(entryWantsSlot(entry, { ...slot, date: "2026-03-06" })).toBe(true);
+  });
+
+  it("skips slots outside its dates", () => {
+    expect(entryWantsSlot(entry, { ...slot, date: "2026-03-01" })).toBe(false);
+    expect(entryWantsSlot(entry, { ...slot, date: "2026-03-07" })).toBe(false);
+  });
+
+  it("only wants the service and staff member it asked for", () => {
+    expect(entryWantsSlot({ ...entry, serviceId: "svc-1" }, slot)).toBe(true);
+    expect(entryWantsSlot({ ...entry, serviceId: "svc-2" }, slot)).toBe(false);
+    expect(entryWantsSlot({ ...entry, staffMemberId: "staff-2" }, slot)).toBe(false);
+    expect(entryWantsSlot({ ...entry, staffMemberId: "staff-1" }, { ...slot, staffMemberId: null })).toBe(false);
+  });
+});
@@ -115,6 +115,7 @@ export async function saveCalendarIntegration(
         calendar_id: data.eventTypeId || null,
         booking_url: data.bookingUrl || null,
         settings: data.settings || {},
+        is_active: true,
         updated_at: new Date().toISOString(),
       })
       .eq("id", existing.id);
@@ -140,16 +141,19 @@ export async function saveCalendarIntegration(
 }
 
 /**
- * Delete calendar integration
+ * Delete calendar integration (Cal.com unless another provider is given)
  */
-export async function deleteCalendarIntegration(organizationId: string) {
+export async function deleteCalendarIntegration(
+  organizationId: string,
+  provider: string = "cal_com"
+) {
   const supabase = createAdminClient();
 
   const { error } = await (supabase as any)
     .from("calendar_integrations")
     .delete()
     .eq("organization_id", organizationId)
-    .eq("provider", "cal_com");
+    .eq("provider", provider);
 
   return !error;
 }
@@ -325,9 +329,13 @@ export const calendarTools = {
             type: "string",
             description: "Date to check availability for, in YYYY-MM-DD format",
           },
-          event_type: {
+          service: {
+            type: "string",
+            description: "The service the caller wants, by name from the business's services list (omit if the business lists no services)",
+          },
+          staff: {
             type: "string",
-            description: "Type of appointment (optional, uses default if not specified)",
+            description: "Who the caller wants to see (e.g. \"Dr. Smith\"), or \"anyone\" if they have no preference",
           },
         },
         required: ["date"],
@@ -339,7 +347,7 @@ export const calendarTools = {
     type: "function" as const,
     function: {
       name: "book_appointment",
-      description: "Book an appointment for the caller. Collect their name, phone, and preferred time first.",
+      description: "Book an appointment for the caller, or a repeating series of appointments. Collect their name, phone, and preferred time first.",
       parameters: {
         type: "object" as const,
         properties: {
@@ -363,6 +371,26 @@ export const calendarTools = {
             type: "string",
             description: "Any additional notes or reason for the appointment",
           },
+          service: {
+            type: "string",
+            description: "The service being booked, by name from the business's services list (omit if the business lists no services)",
+          },
+          staff: {
+            type: "string",
+            description: "Who the appointment is with (e.g. \"Dr. Smith\"), or \"anyone\" if the caller has no preference",
+          },
+          recurrence: {
+            type: "string",
+            description: "For repeating appointments, how often: \"daily\", \"weekly\", \"biweekly\" or \"monthly\" (omit for a single appointment)",
+          },
+          occurrences: {
+            type: "number",
+            description: "For repeating appointments, how many in total including the first (e.g. 6 for \"every Tuesday for six weeks\")",
+          },
+          skip_conflicts: {
+            type: "boolean",
+            description: "Set to true only after the caller agrees to book the remaining dates when some dates in a repeating booking aren't available",
+          },
         },
         required: ["datetime", "name", "phone"],
       },
@@ -391,6 +419,96 @@ export const calendarTools = {
     },
   },
 
+  confirmAppointment: {
+    type: "function" as const,
+    function: {
+      name: "confirm_appointment",
+      description: "Confirm that the caller will attend their next upcoming appointment, e.g. when reminding them about it.",
+      parameters: {
+        type: "object" as const,
+        properties: {
+          phone: {
+            type: "string",
+            description: "The caller's phone number to look up their appointment",
+          },
+        },
+        required: ["phone"],
+      },
+    },
+  },
+
+  rescheduleAppointment: {
+    type: "function" as const,
+    function: {
+      name: "reschedule_appointment",
+      description: "Move the caller's existing appointment to a new date and time. Check availability for the new date first.",
+      parameters: {
+        type: "object" as const,
+        properties: {
+          phone: {
+            type: "string",
+            description: "The caller's phone number to look up their appointment",
+          },
+          name: {
+            type: "string",
+            description: "The name the appointment was booked under (optional, helps pick the right booking)",
+          },
+          datetime: {
+            type: "string",
+            description: "The new appointment date and time in ISO format (e.g., 2024-01-15T10:00:00)",
+          },
+          reason: {
+            type: "string",
+            description: "Reason for rescheduling (optional)",
+          },
+        },
+        required: ["phone", "datetime"],
+      },
+    },
+  },
+
+  joinWaitlist: {
+    type: "function" as const,
+    function: {
+      name: "join_waitlist",
+      description: "Put the caller on the waitlist when no times work for them. If an appointment in their date range is cancelled, they get a text and can reply YES to book it.",
+      parameters: {
+        type: "object" as const,
+        properties: {
+          name: {
+            type: "string",
+            description: "The caller's full name",
+          },
+          phone: {
+            type: "string",
+            description: "The mobile number to text if a slot opens up",
+          },
+          start_date: {
+            type: "string",
+            description: "First date the caller could come in, in YYYY-MM-DD format",
+          },
+          end_date: {
+            type: "string",
+            description: "Last date the caller could come in, in YYYY-MM-DD format (omit for a single day)",
+          },
+          service: {
+            type: "string",
+            description: "The service the caller wants, by name from the business's services list (omit if the business lists no services)",
+          },
+          staff: {
+            type: "string",
+            description: "Who the caller wants to see (e.g. \"Dr. Smith\"), or \"anyone\" if they have no preference",
+          },
+          notes: {
+            type: "string",
+            description: "Any additional notes or reason for the appointment",
+          },
+        },
+        required: ["name", "phone", "start_date"],
+      },
+    },
+  },
+
   getCurrentDatetime: {
     type: "function" as const,
     function: {
@@ -410,7 +528,7 @@ export const calendarTools = {
  */
 export function formatAvailabilityForVoice(availability: CalComAvailability[], timezone?: string): string {
   if (availability.length === 0 || availability.every((a) => a.slots.length === 0)) {
-    return "I'm sorry, there are no available appointments on that date. Would you like to check a different day?";
+    return "I'm sorry, there are no available appointments on that date. Would you like to check a different day, or join the waitlist in case something opens up?";
   }
 
   const parts: string[] = [];
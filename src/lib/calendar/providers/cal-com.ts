@@ -0,0 +1,87 @@
+import { CalComClient } from "@/lib/calendar/cal-com";
+import {
+  CalendarSlotUnavailableError,
+  type CalendarProvider,
+  type ProviderAvailability,
+  type ProviderBooking,
+  type ProviderBookingRef,
+  type ProviderBookingRequest,
+} from "./types";
+
+/**
+ * Cal.com behind the CalendarProvider interface. Cal.com owns availability
+ * (event type schedules), so slots come back ready to offer.
+ */
+export class CalComProvider implements CalendarProvider {
+  readonly id = "cal_com" as const;
+  readonly managesAvailability = true;
+
+  constructor(
+    private client: CalComClient,
+    private eventTypeId: number
+  ) {}
+
+  async getAvailability(range: { start: string; end: string }): Promise<ProviderAvailability> {
+    const days = await this.client.getAvailability({
+      eventTypeId: this.eventTypeId,
+      startTime: range.start,
+      endTime: range.end,
+    });
+    return { type: "slots", days };
+  }
+
+  async createBooking(request: ProviderBookingRequest): Promise<ProviderBooking> {
+    try {
+      const booking = await this.client.createBooking({
+        eventTypeId: this.eventTypeId,
+        start: request.start,
+        name: request.name,
+        email: request.email,
+        phone: request.phone,
+        notes: request.notes,
+        metadata: {
+          source: "ai_receptionist",
+          organizationId: request.organizationId,
+        },
+      });
+
+      return {
+        externalId: booking.uid,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        metadata: { calComBookingId: booking.id, eventTypeId: this.eventTypeId },
+      };
+    } catch (error) {
+      throw toSlotError(error);
+    }
+  }
+
+  async cancelBooking(booking: ProviderBookingRef, reason?: string): Promise<void> {
+    const bookingId = booking.metadata?.calComBookingId;
+    if (!bookingId) {
+      throw new Error("Cal.com booking ID missing from appointment metadata");
+    }
+    await this.client.cancelBooking(bookingId, reason || "Cancelled by caller");
+  }
+
+  async rescheduleBooking(booking: ProviderBookingRef, newStart: string): Promise<ProviderBooking> {
+    try {
+      const moved = await this.client.rescheduleBooking(booking.externalId, newStart);
+      return {
+        externalId: moved.uid,
+        startTime: moved.startTime,
+        endTime: moved.endTime,
+        metadata: { calComBookingId: moved.id, eventTypeId: this.eventTypeId },
+      };
+    } catch (error) {
+      throw toSlotError(error);
+    }
+  }
+}
+
+function toSlotError(error: unknown): unknown {
+  if (error instanceof Error && error.message.includes("slot is not available")) {
+    return new CalendarSlotUnavailableError(error.message);
+  }
+  return error;
+}
@@ -0,0 +1,16 @@
+import type { ProviderBookingRequest } from "./types";
+
+export function addMinutes(iso: string, minutes: number): string {
+  return new Date(new Date(iso).getTime() + minutes * 60_000).toISOString();
+}
+
+/**
+ * Event body for calendars that don't know about our attendees. Placeholder
+ * emails generated for phone-only bookings are left out.
+ */
+export function describeBooking(request: ProviderBookingRequest): string {
+  const lines = [`Booked by phone: ${request.phone}`];
+  if (!request.email.endsWith("@noreply.holarecep.com")) lines.push(`Email: ${request.email}`);
+  if (request.notes) lines.push("", request.notes);
+  return lines.join("\n");
+}
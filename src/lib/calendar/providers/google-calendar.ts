@@ -0,0 +1,166 @@
+import {
+  CalendarSlotUnavailableError,
+  type BusyInterval,
+  type CalendarProvider,
+  type ProviderAvailability,
+  type ProviderBooking,
+  type ProviderBookingRef,
+  type ProviderBookingRequest,
+} from "./types";
+import { addMinutes, describeBooking } from "./event-helpers";
+
+const GOOGLE_CALENDAR_API_BASE = "https://www.googleapis.com/calendar/v3";
+
+interface GoogleEvent {
+  id: string;
+  htmlLink?: string;
+  start: { dateTime?: string; date?: string };
+  end: { dateTime?: string; date?: string };
+}
+
+/**
+ * Google Calendar via the Calendar v3 REST API. Reads free/busy for the
+ * connected calendar and writes bookings as events on it.
+ */
+export class GoogleCalendarProvider implements CalendarProvider {
+  readonly id = "google_calendar" as const;
+  readonly managesAvailability = false;
+
+  constructor(
+    private getAccessToken: () => Promise<string>,
+    private calendarId: string = "primary"
+  ) {}
+
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const accessToken = await this.getAccessToken();
+    const response = await fetch(`${GOOGLE_CALENDAR_API_BASE}${endpoint}`, {
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Google Calendar API error: ${response.status} - ${errorText}`);
+    }
+
+    // DELETE returns 204 with no body
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  }
+
+  private eventPath(eventId?: string): string {
+    const base = `/calendars/${encodeURIComponent(this.calendarId)}/events`;
+    return eventId ? `${base}/${encodeURIComponent(eventId)}` : base;
+  }
+
+  async getAvailability(range: { start: string; end: string }): Promise<ProviderAvailability> {
+    return { type: "busy", busy: await this.getBusy(range.start, range.end) };
+  }
+
+  async createBooking(request: ProviderBookingRequest): Promise<ProviderBooking> {
+    const end = addMinutes(request.start, request.durationMinutes);
+    await this.assertFree(request.start, end);
+
+    const event = await this.request<GoogleEvent>(`${this.eventPath()}?sendUpdates=none`, {
+      method: "POST",
+      body: JSON.stringify({
+        summary: `Appointment: ${request.name}`,
+        description: describeBooking(request),
+        start: { dateTime: request.start, timeZone: request.timezone },
+        end: { dateTime: end, timeZone: request.timezone },
+        extendedProperties: {
+          private: {
+            source: "ai_receptionist",
+            organizationId: request.organizationId,
+            attendeePhone: request.phone,
+          },
+        },
+      }),
+    });
+
+    return toBooking(event, this.calendarId);
+  }
+
+  async cancelBooking(booking: ProviderBookingRef): Promise<void> {
+    try {
+      await this.request(`${this.eventPath(booking.externalId)}?sendUpdates=none`, { method: "DELETE" });
+    } catch (error) {
+      // 410 Gone — the event was already deleted in Google
+      if (error instanceof Error && error.message.includes("API error: 410")) return;
+      throw error;
+    }
+  }
+
+  async rescheduleBooking(
+    booking: ProviderBookingRef,
+    newStart: string,
+    durationMinutes: number,
+    timezone: string
+  ): Promise<ProviderBooking> {
+    const end = addMinutes(newStart, durationMinutes);
+    await this.assertFree(newStart, end, booking.externalId);
+
+    const event = await this.request<GoogleEvent>(`${this.eventPath(booking.externalId)}?sendUpdates=none`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        start: { dateTime: newStart, timeZone: timezone },
+        end: { dateTime: end, timeZone: timezone },
+      }),
+    });
+
+    return toBooking(event, this.calendarId);
+  }
+
+  private async getBusy(start: string, end: string): Promise<BusyInterval[]> {
+    const response = await this.request<{
+      calendars: Record<string, { busy?: BusyInterval[]; errors?: { reason: string }[] }>;
+    }>("/freeBusy", {
+      method: "POST",
+      body: JSON.stringify({
+        timeMin: new Date(start).toISOString(),
+        timeMax: new Date(end).toISOString(),
+        items: [{ id: this.calendarId }],
+      }),
+    });
+
+    const calendar = response.calendars?.[this.calendarId];
+    if (calendar?.errors?.length) {
+      throw new Error(`Google Calendar free/busy error: ${calendar.errors.map((e) => e.reason).join(", ")}`);
+    }
+    return calendar?.busy ?? [];
+  }
+
+  /**
+   * Google happily double-books, so check free/busy before writing. When
+   * moving an event its own block is ignored.
+   */
+  private async assertFree(start: string, end: string, ignoreEventId?: string): Promise<void> {
+    const busy = await this.getBusy(start, end);
+    if (busy.length === 0) return;
+
+    if (ignoreEventId) {
+      const current = await this.request<GoogleEvent>(this.eventPath(ignoreEventId));
+      const ownStart = current.start.dateTime ? new Date(current.start.dateTime).getTime() : NaN;
+      const ownEnd = current.end.dateTime ? new Date(current.end.dateTime).getTime() : NaN;
+      const others = busy.filter(
+        (b) => !(new Date(b.start).getTime() >= ownStart && new Date(b.end).getTime() <= ownEnd)
+      );
+      if (others.length === 0) return;
+    }
+
+    throw new CalendarSlotUnavailableError();
+  }
+}
+
+function toBooking(event: GoogleEvent, calendarId: string): ProviderBooking {
+  return {
+    externalId: event.id,
+    startTime: event.start.dateTime ?? event.start.date ?? "",
+    endTime: event.end.dateTime ?? event.end.date ?? "",
+    metadata: { googleCalendarId: calendarId, htmlLink: event.htmlLink ?? null },
+  };
+}
@@ -0,0 +1,105 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { safeDecrypt } from "@/lib/security/encryption";
+import { CalComClient } from "@/lib/calendar/cal-com";
+import { CalComProvider } from "./cal-com";
+import { GoogleCalendarProvider } from "./google-calendar";
+import { MicrosoftGraphProvider } from "./microsoft-graph";
+import { getValidAccessToken, type StoredOAuthIntegration } from "./oauth";
+import type { CalendarProvider, CalendarProviderId } from "./types";
+
+export * from "./types";
+
+export const CALENDAR_PROVIDER_IDS: CalendarProviderId[] = ["cal_com", "google_calendar", "microsoft_outlook"];
+
+interface CalendarIntegrationRow {
+  id: string;
+  provider: CalendarProviderId;
+  access_token: string | null;
+  refresh_token: string | null;
+  token_expires_at: string | null;
+  calendar_id: string | null;
+}
+
+/**
+ * Resolve the org's active calendar provider.
+ *
+ * Returns null when no external calendar is connected (callers fall back to
+ * built-in booking). Throws when one is connected but unusable — missing
+ * event type, undecryptable key — so callers can tell the caller someone
+ * will follow up instead of silently booking around the real calendar.
+ */
+export async function getCalendarProvider(
+  organizationId: string,
+  assistantId?: string
+): Promise<CalendarProvider | null> {
+  const supabase = createAdminClient();
+
+  let query = (supabase as any)
+    .from("calendar_integrations")
+    .select("id, provider, access_token, refresh_token, token_expires_at, calendar_id")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true)
+    .in("provider", CALENDAR_PROVIDER_IDS);
+
+  if (assistantId) {
+    query = query.eq("assistant_id", assistantId);
+  }
+
+  const { data, error } = await query.order("updated_at", { ascending: false }).limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load calendar integration: ${error.message}`);
+  }
+
+  const integration = (data?.[0] ?? null) as CalendarIntegrationRow | null;
+  if (!integration) return null;
+
+  switch (integration.provider) {
+    case "cal_com": {
+      const apiKey = integration.access_token ? safeDecrypt(integration.access_token) : "";
+      if (!apiKey) {
+        throw new Error("Cal.com API key is missing or could not be decrypted");
+      }
+      const eventTypeId = parseInt(integration.calendar_id ?? "", 10);
+      if (isNaN(eventTypeId)) {
+        throw new Error("Cal.com integration has no valid event type configured");
+      }
+      return new CalComProvider(new CalComClient(apiKey), eventTypeId);
+    }
+
+    case "google_calendar":
+    case "microsoft_outlook": {
+      const getAccessToken = memoizeToken(integration as StoredOAuthIntegration);
+      const calendarId = integration.calendar_id || "primary";
+      return integration.provider === "google_calendar"
+        ? new GoogleCalendarProvider(getAccessToken, calendarId)
+        : new MicrosoftGraphProvider(getAccessToken, calendarId);
+    }
+  }
+}
+
+/**
+ * Only one calendar provider is active per org. Called after connecting a
+ * provider so the voice agent doesn't keep booking into the old one.
+ */
+export async function deactivateOtherCalendarProviders(
+  organizationId: string,
+  activeProvider: CalendarProviderId
+): Promise<void> {
+  const supabase = createAdminClient();
+  const { error } = await (supabase as any)
+    .from("calendar_integrations")
+    .update({ is_active: false })
+    .eq("organization_id", organizationId)
+    .neq("provider", activeProvider);
+
+  if (error) {
+    console.error("Failed to deactivate other calendar providers:", { organizationId, activeProvider, error });
+  }
+}
+
+// A provider instance lives for one tool call — refresh the token at most once
+function memoizeToken(integration: StoredOAuthIntegration): () => Promise<string> {
+  let token: Promise<string> | null = null;
+  return () => (token ??= getValidAccessToken(integration));
+}
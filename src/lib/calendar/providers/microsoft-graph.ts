@@ -0,0 +1,168 @@
+import {
+  CalendarSlotUnavailableError,
+  type BusyInterval,
+  type CalendarProvider,
+  type ProviderAvailability,
+  type ProviderBooking,
+  type ProviderBookingRef,
+  type ProviderBookingRequest,
+} from "./types";
+import { addMinutes, describeBooking } from "./event-helpers";
+
+const MICROSOFT_GRAPH_API_BASE = "https://graph.microsoft.com/v1.0";
+
+interface GraphDateTime {
+  dateTime: string; // "2026-03-16T14:00:00.0000000" — no offset, see timeZone
+  timeZone: string;
+}
+
+interface GraphEvent {
+  id: string;
+  webLink?: string;
+  showAs?: "free" | "tentative" | "busy" | "oof" | "workingElsewhere" | "unknown";
+  isCancelled?: boolean;
+  start: GraphDateTime;
+  end: GraphDateTime;
+}
+
+/**
+ * Outlook / Microsoft 365 calendars via Microsoft Graph. Every request asks
+ * Graph for UTC so event times can be compared without timezone lookups.
+ */
+export class MicrosoftGraphProvider implements CalendarProvider {
+  readonly id = "microsoft_outlook" as const;
+  readonly managesAvailability = false;
+
+  constructor(
+    private getAccessToken: () => Promise<string>,
+    private calendarId: string = "primary"
+  ) {}
+
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const accessToken = await this.getAccessToken();
+    const response = await fetch(`${MICROSOFT_GRAPH_API_BASE}${endpoint}`, {
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+        Prefer: 'outlook.timezone="UTC"',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Microsoft Graph API error: ${response.status} - ${errorText}`);
+    }
+
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  }
+
+  private get calendarPath(): string {
+    return this.calendarId === "primary"
+      ? "/me/calendar"
+      : `/me/calendars/${encodeURIComponent(this.calendarId)}`;
+  }
+
+  async getAvailability(range: { start: string; end: string }): Promise<ProviderAvailability> {
+    const events = await this.listEvents(range.start, range.end);
+    return { type: "busy", busy: events.map(toBusyInterval) };
+  }
+
+  async createBooking(request: ProviderBookingRequest): Promise<ProviderBooking> {
+    const end = addMinutes(request.start, request.durationMinutes);
+    await this.assertFree(request.start, end);
+
+    const event = await this.request<GraphEvent>(`${this.calendarPath}/events`, {
+      method: "POST",
+      body: JSON.stringify({
+        subject: `Appointment: ${request.name}`,
+        body: { contentType: "text", content: describeBooking(request) },
+        start: toGraphDateTime(request.start),
+        end: toGraphDateTime(end),
+        showAs: "busy",
+        // Idempotency key so a retried request doesn't create a duplicate event
+        transactionId: `${request.organizationId}:${request.phone}:${new Date(request.start).toISOString()}`,
+      }),
+    });
+
+    return toBooking(event);
+  }
+
+  async cancelBooking(booking: ProviderBookingRef): Promise<void> {
+    try {
+      await this.request(`/me/events/${encodeURIComponent(booking.externalId)}`, { method: "DELETE" });
+    } catch (error) {
+      // Already deleted in Outlook
+      if (error instanceof Error && error.message.includes("API error: 404")) return;
+      throw error;
+    }
+  }
+
+  async rescheduleBooking(
+    booking: ProviderBookingRef,
+    newStart: string,
+    durationMinutes: number
+  ): Promise<ProviderBooking> {
+    const end = addMinutes(newStart, durationMinutes);
+    await this.assertFree(newStart, end, booking.externalId);
+
+    const event = await this.request<GraphEvent>(`/me/events/${encodeURIComponent(booking.externalId)}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        start: toGraphDateTime(newStart),
+        end: toGraphDateTime(end),
+      }),
+    });
+
+    return toBooking(event);
+  }
+
+  /** Events that block time (anything not shown as free) within the range */
+  private async listEvents(start: string, end: string): Promise<GraphEvent[]> {
+    const query = new URLSearchParams({
+      startDateTime: new Date(start).toISOString(),
+      endDateTime: new Date(end).toISOString(),
+      $select: "id,showAs,isCancelled,start,end",
+      $top: "250",
+    });
+
+    const response = await this.request<{ value: GraphEvent[] }>(
+      `${this.calendarPath}/calendarView?${query.toString()}`
+    );
+
+    return (response.value || []).filter((e) => !e.isCancelled && e.showAs !== "free");
+  }
+
+  /** Graph doesn't stop double-booking, so look before writing */
+  private async assertFree(start: string, end: string, ignoreEventId?: string): Promise<void> {
+    const events = await this.listEvents(start, end);
+    if (events.some((e) => e.id !== ignoreEventId)) {
+      throw new CalendarSlotUnavailableError();
+    }
+  }
+}
+
+function toGraphDateTime(iso: string): GraphDateTime {
+  return { dateTime: new Date(iso).toISOString().replace(/Z$/, ""), timeZone: "UTC" };
+}
+
+/** Graph returns UTC wall-clock time without an offset (we asked for UTC) */
+function fromGraphDateTime(value: GraphDateTime): string {
+  if (value.timeZone !== "UTC") return value.dateTime;
+  return new Date(`${value.dateTime.replace(/\.\d+$/, "")}Z`).toISOString();
+}
+
+function toBusyInterval(event: GraphEvent): BusyInterval {
+  return { start: fromGraphDateTime(event.start), end: fromGraphDateTime(event.end) };
+}
+
+function toBooking(event: GraphEvent): ProviderBooking {
+  return {
+    externalId: event.id,
+    startTime: fromGraphDateTime(event.start),
+    endTime: fromGraphDateTime(event.end),
+    metadata: { webLink: event.webLink ?? null },
+  };
+}
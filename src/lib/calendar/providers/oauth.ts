@@ -0,0 +1,279 @@
+/**
+ * OAuth for Google Calendar and Microsoft Outlook
+ *
+ * Authorization-code flow with offline access. Tokens are stored encrypted
+ * on calendar_integrations (access_token / refresh_token / token_expires_at)
+ * and refreshed on demand shortly before they expire.
+ */
+import { createAdminClient } from "@/lib/supabase/admin";
+import { safeEncrypt, safeDecrypt } from "@/lib/security/encryption";
+import type { OAuthCalendarProviderId } from "./types";
+
+// Refresh this long before expiry so a token never dies mid-call
+const TOKEN_REFRESH_SKEW_MS = 60 * 1000;
+
+// Holds "<provider>:<state>" between the redirect and the callback
+export const OAUTH_STATE_COOKIE = "calendar_oauth_state";
+
+interface OAuthProviderConfig {
+  label: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  scopes: string[];
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  authorizeParams: Record<string, string>;
+  getEmail: (profile: Record<string, any>) => string | null;
+}
+
+export const OAUTH_PROVIDERS: Record<OAuthCalendarProviderId, OAuthProviderConfig> = {
+  google_calendar: {
+    label: "Google Calendar",
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    userInfoUrl: "https://openidconnect.googleapis.com/v1/userinfo",
+    scopes: [
+      "openid",
+      "email",
+      "https://www.googleapis.com/auth/calendar.events",
+      "https://www.googleapis.com/auth/calendar.freebusy",
+    ],
+    clientIdEnv: "GOOGLE_CLIENT_ID",
+    clientSecretEnv: "GOOGLE_CLIENT_SECRET",
+    // offline + consent so Google always returns a refresh token
+    authorizeParams: { access_type: "offline", prompt: "consent", include_granted_scopes: "true" },
+    getEmail: (profile) => profile.email ?? null,
+  },
+  microsoft_outlook: {
+    label: "Microsoft Outlook",
+    authorizeUrl: "https://login.microsoftonline.com/common/oauth2/v2.0/authorize",
+    tokenUrl: "https://login.microsoftonline.com/common/oauth2/v2.0/token",
+    userInfoUrl: "https://graph.microsoft.com/v1.0/me",
+    scopes: ["offline_access", "User.Read", "Calendars.ReadWrite"],
+    clientIdEnv: "MICROSOFT_CLIENT_ID",
+    clientSecretEnv: "MICROSOFT_CLIENT_SECRET",
+    authorizeParams: { response_mode: "query", prompt: "select_account" },
+    getEmail: (profile) => profile.mail ?? profile.userPrincipalName ?? null,
+  },
+};
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date;
+}
+
+/** The calendar_integrations columns needed to keep a token fresh */
+export interface StoredOAuthIntegration {
+  id: string;
+  provider: OAuthCalendarProviderId;
+  access_token: string | null;
+  refresh_token: string | null;
+  token_expires_at: string | null;
+}
+
+export function isOAuthCalendarProvider(value: string): value is OAuthCalendarProviderId {
+  return Object.prototype.hasOwnProperty.call(OAUTH_PROVIDERS, value);
+}
+
+export function isOAuthProviderConfigured(provider: OAuthCalendarProviderId): boolean {
+  const config = OAUTH_PROVIDERS[provider];
+  return !!process.env[config.clientIdEnv] && !!process.env[config.clientSecretEnv];
+}
+
+export function getOAuthRedirectUri(provider: OAuthCalendarProviderId): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/api/v1/calendar/oauth/${provider}/callback`;
+}
+
+export function buildAuthorizationUrl(provider: OAuthCalendarProviderId, state: string): string {
+  const config = OAUTH_PROVIDERS[provider];
+  const { clientId } = getClientCredentials(provider);
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: getOAuthRedirectUri(provider),
+    response_type: "code",
+    scope: config.scopes.join(" "),
+    state,
+    ...config.authorizeParams,
+  });
+
+  return `${config.authorizeUrl}?${params.toString()}`;
+}
+
+export async function exchangeAuthorizationCode(
+  provider: OAuthCalendarProviderId,
+  code: string
+): Promise<OAuthTokens> {
+  return requestTokens(provider, {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: getOAuthRedirectUri(provider),
+  });
+}
+
+/**
+ * Refresh an access token. Google omits refresh_token from the response,
+ * Microsoft rotates it — keep the old one unless a new one comes back.
+ */
+export async function refreshAccessToken(
+  provider: OAuthCalendarProviderId,
+  refreshToken: string
+): Promise<OAuthTokens> {
+  const tokens = await requestTokens(provider, {
+    grant_type: "refresh_token",
+    refresh_token: refreshToken,
+  });
+  return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+}
+
+export async function fetchAccountEmail(
+  provider: OAuthCalendarProviderId,
+  accessToken: string
+): Promise<string | null> {
+  const config = OAUTH_PROVIDERS[provider];
+  const response = await fetch(config.userInfoUrl, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    console.error(`[CalendarOAuth] Failed to fetch ${config.label} profile:`, response.status);
+    return null;
+  }
+
+  return config.getEmail(await response.json());
+}
+
+/**
+ * Return a usable access token for a stored integration, refreshing and
+ * persisting it first when it is about to expire.
+ */
+export async function getValidAccessToken(integration: StoredOAuthIntegration): Promise<string> {
+  const accessToken = integration.access_token ? safeDecrypt(integration.access_token) : "";
+  const expiresAt = integration.token_expires_at ? new Date(integration.token_expires_at).getTime() : 0;
+
+  if (accessToken && expiresAt - TOKEN_REFRESH_SKEW_MS > Date.now()) {
+    return accessToken;
+  }
+
+  const refreshToken = integration.refresh_token ? safeDecrypt(integration.refresh_token) : "";
+  if (!refreshToken) {
+    throw new Error(`No refresh token stored for ${integration.provider} integration ${integration.id}`);
+  }
+
+  const tokens = await refreshAccessToken(integration.provider, refreshToken);
+
+  const supabase = createAdminClient();
+  const { error } = await (supabase as any)
+    .from("calendar_integrations")
+    .update({
+      access_token: safeEncrypt(tokens.accessToken),
+      refresh_token: tokens.refreshToken ? safeEncrypt(tokens.refreshToken) : integration.refresh_token,
+      token_expires_at: tokens.expiresAt.toISOString(),
+    })
+    .eq("id", integration.id);
+
+  if (error) {
+    // The fresh token still works for this request; the next one refreshes again
+    console.error("[CalendarOAuth] Failed to persist refreshed token:", { integrationId: integration.id, error });
+  }
+
+  return tokens.accessToken;
+}
+
+/**
+ * Save (or refresh) an OAuth calendar connection after the callback.
+ * Bookings go to the account's primary calendar.
+ */
+export async function saveOAuthCalendarIntegration(
+  organizationId: string,
+  provider: OAuthCalendarProviderId,
+  tokens: OAuthTokens,
+  accountEmail: string | null
+): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data: existing } = await (supabase as any)
+    .from("calendar_integrations")
+    .select("id, refresh_token")
+    .eq("organization_id", organizationId)
+    .eq("provider", provider)
+    .single();
+
+  const row = {
+    access_token: safeEncrypt(tokens.accessToken),
+    // Reconnecting without a new refresh token keeps the stored one
+    refresh_token: tokens.refreshToken ? safeEncrypt(tokens.refreshToken) : existing?.refresh_token ?? null,
+    token_expires_at: tokens.expiresAt.toISOString(),
+    calendar_id: "primary",
+    settings: { accountEmail },
+    is_active: true,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (!row.refresh_token) {
+    console.error("[CalendarOAuth] No refresh token returned; cannot keep the connection alive", { organizationId, provider });
+    return false;
+  }
+
+  const { error } = existing
+    ? await (supabase as any).from("calendar_integrations").update(row).eq("id", existing.id)
+    : await (supabase as any).from("calendar_integrations").insert({ organization_id: organizationId, provider, ...row });
+
+  if (error) {
+    console.error("[CalendarOAuth] Failed to save calendar integration:", { organizationId, provider, error });
+    return false;
+  }
+
+  return true;
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+function getClientCredentials(provider: OAuthCalendarProviderId): { clientId: string; clientSecret: string } {
+  const config = OAUTH_PROVIDERS[provider];
+  const clientId = process.env[config.clientIdEnv];
+  const clientSecret = process.env[config.clientSecretEnv];
+
+  if (!clientId || !clientSecret) {
+    throw new Error(`${config.clientIdEnv} and ${config.clientSecretEnv} must be set to connect ${config.label}`);
+  }
+
+  return { clientId, clientSecret };
+}
+
+async function requestTokens(
+  provider: OAuthCalendarProviderId,
+  grant: Record<string, string>
+): Promise<OAuthTokens> {
+  const config = OAUTH_PROVIDERS[provider];
+  const { clientId, clientSecret } = getClientCredentials(provider);
+
+  const response = await fetch(config.tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      ...grant,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${config.label} token error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  if (!data.access_token) {
+    throw new Error(`${config.label} token response did not include an access token`);
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? null,
+    expiresAt: new Date(Date.now() + (Number(data.expires_in) || 3600) * 1000),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Calendar provider abstraction
+ *
+ * tool-handlers.ts talks to every external calendar through this interface,
+ * so the voice agent books the same way whether the org uses Cal.com,
+ * Google Calendar or Outlook. The built-in `appointments` table is always
+ * written as well — providers only mirror the booking upstream.
+ */
+import type { CalComAvailability } from "@/lib/calendar/cal-com";
+
+export type CalendarProviderId = "cal_com" | "google_calendar" | "microsoft_outlook";
+
+export type OAuthCalendarProviderId = Exclude<CalendarProviderId, "cal_com">;
+
+export interface BusyInterval {
+  start: string; // ISO datetime
+  end: string; // ISO datetime
+}
+
+/**
+ * Booking-page providers (Cal.com) return bookable slots directly.
+ * Plain calendars return busy blocks, which we subtract from the org's
+ * business hours.
+ */
+export type ProviderAvailability =
+  | { type: "slots"; days: CalComAvailability[] }
+  | { type: "busy"; busy: BusyInterval[] };
+
+export interface ProviderBookingRequest {
+  organizationId: string;
+  start: string; // ISO datetime with offset
+  durationMinutes: number;
+  timezone: string;
+  name: string;
+  email: string;
+  phone: string;
+  notes?: string;
+}
+
+export interface ProviderBooking {
+  /** Stored in appointments.external_id */
+  externalId: string;
+  startTime: string;
+  endTime: string;
+  /** Merged into appointments.metadata */
+  metadata: Record<string, unknown>;
+}
+
+/** The parts of an appointments row a provider needs to find its booking */
+export interface ProviderBookingRef {
+  externalId: string;
+  metadata: Record<string, any> | null;
+}
+
+export interface CalendarProvider {
+  readonly id: CalendarProviderId;
+  /**
+   * True when the provider enforces its own bookable hours (Cal.com event
+   * types). False for plain calendars, where org business hours apply.
+   */
+  readonly managesAvailability: boolean;
+
+  getAvailability(range: { start: string; end: string; timezone: string }): Promise<ProviderAvailability>;
+  createBooking(request: ProviderBookingRequest): Promise<ProviderBooking>;
+  cancelBooking(booking: ProviderBookingRef, reason?: string): Promise<void>;
+  rescheduleBooking(
+    booking: ProviderBookingRef,
+    newStart: string,
+    durationMinutes: number,
+    timezone: string
+  ): Promise<ProviderBooking>;
+}
+
+/** Thrown by providers when the requested time is already taken upstream */
+export class CalendarSlotUnavailableError extends Error {
+  constructor(message = "Calendar slot is not available") {
+    super(message);
+    this.name = "CalendarSlotUnavailableError";
+  }
+}
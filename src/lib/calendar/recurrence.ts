@@ -0,0 +1,96 @@
+/**
+ * Recurring appointments
+ *
+ * A recurrence rule expands a first occurrence into a list of local dates.
+ * Occurrences keep the same wall-clock time across DST changes, so the
+ * expansion works on calendar dates and callers convert each one to an
+ * instant in the org's timezone.
+ */
+
+export const RECURRENCE_FREQUENCIES = ["daily", "weekly", "biweekly", "monthly"] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/** Most occurrences booked in one series (a year of weekly visits) */
+export const MAX_OCCURRENCES = 52;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Total appointments in the series, including the first */
+  count: number;
+}
+
+const FREQUENCY_ALIASES: Record<string, RecurrenceFrequency> = {
+  daily: "daily",
+  "every day": "daily",
+  weekly: "weekly",
+  "every week": "weekly",
+  biweekly: "biweekly",
+  "bi-weekly": "biweekly",
+  fortnightly: "biweekly",
+  "every two weeks": "biweekly",
+  "every 2 weeks": "biweekly",
+  "every other week": "biweekly",
+  monthly: "monthly",
+  "every month": "monthly",
+};
+
+/** Map what the agent passes ("weekly", "every two weeks", ...) to a frequency */
+export function normalizeFrequency(input: string | undefined): RecurrenceFrequency | null {
+  if (!input) return null;
+  return FREQUENCY_ALIASES[input.trim().toLowerCase()] ?? null;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Same day of month, clamped to the month's last day (Jan 31 → Feb 28) */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Local dates ("YYYY-MM-DD") of every occurrence, starting with `firstDate`.
+ * Pure function with no DB calls.
+ */
+export function occurrenceDates(firstDate: string, rule: RecurrenceRule): string[] {
+  const dates: string[] = [];
+  for (let i = 0; i < rule.count; i++) {
+    switch (rule.frequency) {
+      case "daily":
+        dates.push(addDays(firstDate, i));
+        break;
+      case "weekly":
+        dates.push(addDays(firstDate, i * 7));
+        break;
+      case "biweekly":
+        dates.push(addDays(firstDate, i * 14));
+        break;
+      case "monthly":
+        dates.push(addMonths(firstDate, i));
+        break;
+    }
+  }
+  return dates;
+}
+
+/** "every week", "every two weeks", ... for voice and the dashboard */
+export function describeFrequency(frequency: RecurrenceFrequency): string {
+  switch (frequency) {
+    case "daily":
+      return "every day";
+    case "weekly":
+      return "every week";
+    case "biweekly":
+      return "every two weeks";
+    case "monthly":
+      return "every month";
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Appointment reminders
+ *
+ * A scheduled worker (see vercel.json) texts callers, and optionally has the
+ * AI call them, at the offsets each org configures before an appointment.
+ * Texts invite a reply: C to confirm, R to ask for a reschedule, X to cancel.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTwilioClient } from "@/lib/twilio/client";
+import { resolveOrgTwilioNumber, sendAppointmentReminderSMS } from "@/lib/sms/caller-sms";
+import { cancelAppointmentById } from "@/lib/calendar/tool-handlers";
+import { phonesMatch } from "@/lib/calendar/waitlist";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+/** 24 hours and 2 hours before */
+export const DEFAULT_REMINDER_OFFSETS = [1440, 120];
+
+export const MIN_REMINDER_OFFSET_MINUTES = 15;
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+/** Reminder calls are only placed between these local hours */
+export const CALLING_HOURS = { start: 8, end: 20 };
+
+/** A reply is matched to reminders texted within this many days */
+const REPLY_WINDOW_DAYS = 8;
+
+export type ReminderChannel = "sms" | "call";
+
+export type ReminderReply = "confirm" | "reschedule" | "cancel";
+
+export interface ReminderRunResult {
+  organizations: number;
+  sent: number;
+  failed: number;
+}
+
+interface ReminderAppointmentRow {
+  id: string;
+  attendee_phone: string;
+  start_time: string;
+  created_at: string;
+  event_type: string | null;
+}
+
+// "C", "confirm", "R", "reschedule", "X". CANCEL is a carrier opt-out
+// keyword, so cancelling is X only.
+const REPLY_PATTERNS: [RegExp, ReminderReply][] = [
+  [/^(c|confirm|confirmed)$/, "confirm"],
+  [/^(r|reschedule)$/, "reschedule"],
+  [/^x$/, "cancel"],
+];
+
+/** Parse a reply to a reminder text, or null when it isn't one */
+export function parseReminderReply(body: string): ReminderReply | null {
+  const cleaned = body.trim().toLowerCase().replace(/[.!]+$/, "");
+  const match = REPLY_PATTERNS.find(([pattern]) => pattern.test(cleaned));
+  return match ? match[1] : null;
+}
+
+/**
+ * Clean up configured offsets: whole minutes within the allowed range,
+ * without duplicates, largest first. Falls back to the defaults.
+ */
+export function normalizeReminderOffsets(value: unknown): number[] {
+  if (!Array.isArray(value)) return [...DEFAULT_REMINDER_OFFSETS];
+  const offsets = value
+    .map((v) => Math.round(Number(v)))
+    .filter((v) => v >= MIN_REMINDER_OFFSET_MINUTES && v <= MAX_REMINDER_OFFSET_MINUTES);
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+/**
+ * The reminder that's due now: the latest offset whose send time has
+ * passed. Offsets whose send time came before the booking are skipped (the
+ * booking confirmation covers them), and a missed earlier reminder is never
+ * sent late alongside a later one. Null when nothing is due.
+ */
+export function dueReminderOffset(
+  offsets: number[],
+  start: Date,
+  bookedAt: Date,
+  now: Date
+): number | null {
+  if (now.getTime() >= start.getTime()) return null;
+
+  let due: number | null = null;
+  for (const offset of offsets) {
+    const sendAt = start.getTime() - offset * 60_000;
+    if (sendAt > now.getTime()) continue;
+    if (due === null || offset < due) due = offset;
+  }
+
+  if (due === null) return null;
+  return bookedAt.getTime() < start.getTime() - due * 60_000 ? due : null;
+}
+
+/** Whether it's a reasonable hour to phone someone in this timezone */
+export function isWithinCallingHours(now: Date, timezone: string): boolean {
+  const hour = Number(
+    new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone: timezone }).format(now)
+  );
+  return hour >= CALLING_HOURS.start && hour < CALLING_HOURS.end;
+}
+
+export interface AttendanceSummary {
+  attended: number;
+  noShows: number;
+  /** Percentage of recorded outcomes that were no-shows, or null with none recorded */
+  noShowRate: number | null;
+  /** The same rate for appointments the caller confirmed from a reminder */
+  confirmedNoShowRate: number | null;
+  /** And for appointments they didn't confirm */
+  unconfirmedNoShowRate: number | null;
+}
+
+function rate(noShows: number, total: number): number | null {
+  return total > 0 ? Math.round((noShows / total) * 100) : null;
+}
+
+/**
+ * No-show figures for past appointments. Only appointments marked attended
+ * or no-show count towards the rates.
+ */
+export function summarizeAttendance(
+  appointments: { status: string; confirmed_by_caller_at?: string | null }[]
+): AttendanceSummary {
+  const outcomes = appointments.filter((a) => a.status === "completed" || a.status === "no_show");
+  const confirmed = outcomes.filter((a) => a.confirmed_by_caller_at);
+  const unconfirmed = outcomes.filter((a) => !a.confirmed_by_caller_at);
+  const noShows = (list: typeof outcomes) => list.filter((a) => a.status === "no_show").length;
+
+  return {
+    attended: outcomes.length - noShows(outcomes),
+    noShows: noShows(outcomes),
+    noShowRate: rate(noShows(outcomes), outcomes.length),
+    confirmedNoShowRate: rate(noShows(confirmed), confirmed.length),
+    unconfirmedNoShowRate: rate(noShows(unconfirmed), unconfirmed.length),
+  };
+}
+
+/**
+ * Send every reminder that's due across all orgs with reminders turned on.
+ * Each (appointment, offset, channel) is claimed with an insert first, so
+ * overlapping runs never send the same reminder twice.
+ */
+export async function processAppointmentReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+  const supabase = createAdminClient();
+
+  const { data: prefs, error } = await (supabase as any)
+    .from("notification_preferences")
+    .select("organization_id, sms_appointment_reminders, call_appointment_reminders, appointment_reminder_offsets")
+    .or("sms_appointment_reminders.eq.true,call_appointment_reminders.eq.true");
+
+  if (error) {
+    throw new Error(`Failed to load reminder settings: ${error.message}`);
+  }
+
+  const result: ReminderRunResult = { organizations: 0, sent: 0, failed: 0 };
+
+  for (const pref of prefs ?? []) {
+    const channels: ReminderChannel[] = [];
+    if (pref.sms_appointment_reminders) channels.push("sms");
+    if (pref.call_appointment_reminders) channels.push("call");
+
+    try {
+      const counts = await remindOrganization(
+        supabase,
+        pref.organization_id,
+        normalizeReminderOffsets(pref.appointment_reminder_offsets),
+        channels,
+        now
+      );
+      result.organizations++;
+      result.sent += counts.sent;
+      result.failed += counts.failed;
+    } catch (err) {
+      console.error("[Reminders] Failed to process organization:", {
+        organizationId: pref.organization_id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return result;
+}
+
+async function remindOrganization(
+  supabase: SupabaseAny,
+  organizationId: string,
+  offsets: number[],
+  channels: ReminderChannel[],
+  now: Date
+): Promise<{ sent: number; failed: number }> {
+  const counts = { sent: 0, failed: 0 };
+  if (offsets.length === 0 || channels.length === 0) return counts;
+
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("timezone")
+    .eq("id", organizationId)
+    .single();
+  const timezone = org?.timezone || "America/New_York";
+
+  // Callers who already confirmed aren't chased again
+  const horizon = new Date(now.getTime() + offsets[0] * 60_000);
+  const { data: appointments, error } = await supabase
+    .from("appointments")
+    .select("id, attendee_phone, start_time, created_at, event_type")
+    .eq("organization_id", organizationId)
+    .in("status", ["confirmed", "pending"])
+    .is("confirmed_by_caller_at", null)
+    .gt("start_time", now.toISOString())
+    .lte("start_time", horizon.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load upcoming appointments: ${error.message}`);
+  }
+  if (!appointments?.length) return counts;
+
+  for (const appointment of appointments as ReminderAppointmentRow[]) {
+    const start = new Date(appointment.start_time);
+    const offset = dueReminderOffset(offsets, start, new Date(appointment.created_at), now);
+    if (offset === null || !appointment.attendee_phone) continue;
+
+    for (const channel of channels) {
+      const { data: claim, error: claimError } = await supabase
+        .from("appointment_reminders")
+        .insert({
+          organization_id: organizationId,
+          appointment_id: appointment.id,
+          offset_minutes: offset,
+          channel,
+          recipient_phone: appointment.attendee_phone,
+        })
+        .select("id")
+        .single();
+
+      // 23505: already sent (or being sent) by an earlier run
+      if (claimError) {
+        if (claimError.code !== "23505") {
+          console.error("[Reminders] Failed to record reminder:", { organizationId, appointmentId: appointment.id, error: claimError });
+        }
+        continue;
+      }
+
+      let status: "sent" | "skipped" | "failed";
+      let errorMessage: string | null = null;
+      try {
+        if (channel === "sms") {
+          const sms = await sendAppointmentReminderSMS(
+            organizationId,
+            appointment.attendee_phone,
+            start,
+            timezone,
+            appointment.event_type
+          );
+          status = sms.sent ? "sent" : "skipped";
+          errorMessage = sms.reason ?? null;
+        } else if (!isWithinCallingHours(now, timezone)) {
+          status = "skipped";
+          errorMessage = "outside_calling_hours";
+        } else {
+          await placeReminderCall(organizationId, appointment.id, appointment.attendee_phone);
+          status = "sent";
+        }
+      } catch (err) {
+        status = "failed";
+        errorMessage = err instanceof Error ? err.message : String(err);
+        console.error("[Reminders] Failed to send reminder:", { organizationId, appointmentId: appointment.id, channel, error: errorMessage });
+      }
+
+      if (status === "sent") counts.sent++;
+      if (status === "failed") counts.failed++;
+
+      await supabase
+        .from("appointment_reminders")
+        .update({ status, error_message: errorMessage })
+        .eq("id", claim.id);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Have the AI phone the caller from the org's number. The voice server
+ * loads the appointment from the `reminder` parameter and opens with it.
+ */
+async function placeReminderCall(organizationId: string, appointmentId: string, to: string): Promise<void> {
+  const voiceServerUrl = process.env.VOICE_SERVER_PUBLIC_URL;
+  if (!voiceServerUrl) {
+    throw new Error("VOICE_SERVER_PUBLIC_URL is not configured");
+  }
+
+  const from = await resolveOrgTwilioNumber(organizationId);
+  if (!from) {
+    throw new Error("Organization has no active phone number");
+  }
+
+  await getTwilioClient().calls.create({
+    to,
+    from,
+    url: `${voiceServerUrl}/twiml?reminder=${encodeURIComponent(appointmentId)}`,
+  });
+}
+
+/**
+ * Act on a C/R/X reply for the caller's next reminded appointment. Returns
+ * the SMS reply, or null when the number has no reminded appointment.
+ */
+export async function handleReminderReply(
+  organizationId: string,
+  fromPhone: string,
+  reply: ReminderReply
+): Promise<string | null> {
+  const supabase = createAdminClient();
+  const now = new Date();
+  const since = new Date(now.getTime() - REPLY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data: reminders, error } = await (supabase as any)
+    .from("appointment_reminders")
+    .select("appointment_id, recipient_phone")
+    .eq("organization_id", organizationId)
+    .eq("channel", "sms")
+    .eq("status", "sent")
+    .gte("created_at", since.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load reminders: ${error.message}`);
+  }
+
+  const appointmentIds = Array.from(
+    new Set(
+      ((reminders ?? []) as { appointment_id: string; recipient_phone: string }[])
+        .filter((r) => phonesMatch(r.recipient_phone, fromPhone))
+        .map((r) => r.appointment_id)
+    )
+  );
+  if (appointmentIds.length === 0) return null;
+
+  const { data: appointments, error: appointmentError } = await (supabase as any)
+    .from("appointments")
+    .select("id, start_time")
+    .in("id", appointmentIds)
+    .in("status", ["confirmed", "pending"])
+    .gt("start_time", now.toISOString())
+    .order("start_time", { ascending: true })
+    .limit(1);
+
+  if (appointmentError) {
+    throw new Error(`Failed to load reminded appointment: ${appointmentError.message}`);
+  }
+
+  const appointment = appointments?.[0];
+  if (!appointment) return null;
+
+  const { data: org } = await (supabase as any)
+    .from("organizations")
+    .select("timezone")
+    .eq("id", organizationId)
+    .single();
+  const timezone = org?.timezone || "America/New_York";
+  const startTime = new Date(appointment.start_time);
+  const when = `${startTime.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: timezone,
+  })} at ${startTime.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone: timezone,
+  })}`;
+
+  if (reply === "cancel") {
+    const result = await cancelAppointmentById(organizationId, appointment.id, {
+      reason: "Cancelled by reply to reminder",
+      cancelledBy: "caller",
+    });
+    return result.success
+      ? `Your appointment on ${when} has been cancelled.`
+      : "Sorry, we couldn't cancel your appointment by text. Please call us on this number.";
+  }
+
+  const update =
+    reply === "confirm"
+      ? { status: "confirmed", confirmed_by_caller_at: now.toISOString(), reschedule_requested_at: null }
+      : { reschedule_requested_at: now.toISOString() };
+
+  const { error: updateError } = await (supabase as any)
+    .from("appointments")
+    .update(update)
+    .eq("id", appointment.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update appointment: ${updateError.message}`);
+  }
+
+  return reply === "confirm"
+    ? `Thanks! You're confirmed for ${when}. See you then.`
+    : `No problem. Call us on this number and we'll find a new time for your ${when} appointment.`;
+}
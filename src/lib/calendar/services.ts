@@ -0,0 +1,174 @@
+/**
+ * Services catalog
+ *
+ * Organizations can list the services callers book (a 15-minute check, a
+ * 90-minute colour). Each has its own duration, buffer time before/after and
+ * the staff who perform it. When an org has no services, scheduling falls
+ * back to organizations.default_appointment_duration.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+// Upper bound for buffers, matches the services table CHECK constraint
+export const MAX_SERVICE_BUFFER_MINUTES = 120;
+
+export interface BookableService {
+  id: string;
+  name: string;
+  description: string | null;
+  durationMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  staff: { id: string; name: string }[];
+}
+
+interface ServiceRow {
+  id: string;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  buffer_before_minutes: number | null;
+  buffer_after_minutes: number | null;
+  sort_order?: number;
+  is_active?: boolean;
+  service_staff?: { staff_members: { id: string; name: string; is_active: boolean } | null }[];
+}
+
+export const SERVICE_COLUMNS =
+  "id, name, description, duration_minutes, buffer_before_minutes, buffer_after_minutes, sort_order, is_active, service_staff(staff_members(id, name, is_active))";
+
+export function toBookableService(row: ServiceRow): BookableService {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    durationMinutes: row.duration_minutes,
+    bufferBeforeMinutes: row.buffer_before_minutes ?? 0,
+    bufferAfterMinutes: row.buffer_after_minutes ?? 0,
+    staff: (row.service_staff ?? [])
+      .map((link) => link.staff_members)
+      .filter((s): s is { id: string; name: string; is_active: boolean } => !!s && s.is_active)
+      .map((s) => ({ id: s.id, name: s.name })),
+  };
+}
+
+/**
+ * Shape returned by /api/v1/services: the DB row with the service_staff join
+ * flattened into a staff list (inactive staff included so the settings page
+ * can show them).
+ */
+export function toServiceResponse(row: ServiceRow) {
+  const { service_staff, ...rest } = row;
+  return {
+    ...rest,
+    staff: (service_staff ?? [])
+      .map((link) => link.staff_members)
+      .filter((s): s is { id: string; name: string; is_active: boolean } => !!s),
+  };
+}
+
+/**
+ * Check that every staff id belongs to the organization before linking it
+ * to a service.
+ */
+export async function staffBelongToOrg(
+  supabase: SupabaseAny,
+  organizationId: string,
+  staffIds: string[]
+): Promise<boolean> {
+  if (staffIds.length === 0) return true;
+
+  const { data, error } = await supabase
+    .from("staff_members")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .in("id", staffIds);
+
+  if (error) {
+    throw new Error(`Failed to load staff members: ${error.message}`);
+  }
+
+  return (data ?? []).length === new Set(staffIds).size;
+}
+
+/**
+ * Load the org's active services in display order. Throws on DB error so
+ * booking never silently ignores the catalog.
+ */
+export async function loadServices(
+  supabase: SupabaseAny,
+  organizationId: string
+): Promise<BookableService[]> {
+  const { data, error } = await supabase
+    .from("services")
+    .select(SERVICE_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load services: ${error.message}`);
+  }
+
+  return ((data ?? []) as ServiceRow[]).map(toBookableService);
+}
+
+// Words callers add that don't identify a service ("a haircut appointment")
+const FILLER_WORDS = new Set(["a", "an", "the", "for", "my", "appointment", "appt", "service", "session", "please"]);
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function significantWords(value: string): string[] {
+  return normalize(value)
+    .split(" ")
+    .filter((w) => w && !FILLER_WORDS.has(w));
+}
+
+/**
+ * Match what the caller (or LLM) said to a service in the catalog: exact
+ * name first, then a unique containment match, then the best unique word
+ * overlap. Returns null when nothing matches or the match is ambiguous.
+ */
+export function findService<T extends { name: string }>(services: T[], query: string): T | null {
+  const wanted = normalize(query);
+  if (!wanted) return null;
+
+  const exact = services.find((s) => normalize(s.name) === wanted);
+  if (exact) return exact;
+
+  const containing = services.filter((s) => {
+    const name = normalize(s.name);
+    return name.includes(wanted) || wanted.includes(name);
+  });
+  if (containing.length === 1) return containing[0];
+
+  const wantedWords = new Set(significantWords(query));
+  if (wantedWords.size === 0) return null;
+
+  let best: T | null = null;
+  let bestScore = 0;
+  let tied = false;
+  for (const service of containing.length > 1 ? containing : services) {
+    const score = significantWords(service.name).filter((w) => wantedWords.has(w)).length;
+    if (score > bestScore) {
+      best = service;
+      bestScore = score;
+      tied = false;
+    } else if (score > 0 && score === bestScore) {
+      tied = true;
+    }
+  }
+
+  return tied ? null : best;
+}
+
+/** "Nail Trim, Full Groom or Bath" style list for voice responses */
+export function listServicesForVoice(services: { name: string }[]): string {
+  const names = services.map((s) => s.name);
+  if (names.length <= 1) return names.join("");
+  return `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Holidays and special hours
+ *
+ * Dated exceptions to the weekly business hours (organizations.special_hours).
+ * An entry replaces the weekly hours for its date: without open/close the
+ * business is closed all day, with them it opens for those hours only.
+ */
+
+export interface SpecialHours {
+  /** Local date in the org's timezone, "YYYY-MM-DD" */
+  date: string;
+  /** Shown to callers, e.g. "Christmas Day" or "Stocktake" */
+  name: string;
+  open?: string | null;
+  close?: string | null;
+}
+
+/** The exception for a date, or undefined when the weekly hours apply */
+export function findSpecialHours(
+  specialHours: SpecialHours[] | null | undefined,
+  date: string
+): SpecialHours | undefined {
+  return (specialHours ?? []).find((entry) => entry.date === date);
+}
+
+export function isClosedAllDay(entry: SpecialHours): boolean {
+  return !entry.open || !entry.close;
+}
+
+/**
+ * Exceptions from `fromDate` onward, sorted by date. Used to tell the agent
+ * about upcoming holidays without listing ones that have passed.
+ */
+export function upcomingSpecialHours(
+  specialHours: SpecialHours[] | null | undefined,
+  fromDate: string,
+  limit = 20
+): SpecialHours[] {
+  return (specialHours ?? [])
+    .filter((entry) => entry.date >= fromDate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, limit);
+}
+
+/** Today's date ("YYYY-MM-DD") in the given timezone */
+export function todayInTimezone(timezone: string | undefined, now: Date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    ...(timezone && { timeZone: timezone }),
+  }).format(now);
+}
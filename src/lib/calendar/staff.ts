@@ -0,0 +1,100 @@
+/**
+ * Staff availability
+ *
+ * Staff members are bookable resources: each has working hours (or the
+ * business hours when unset), time off, and their own appointments. Orgs
+ * without staff keep scheduling the business as a single calendar.
+ */
+
+import { findService } from "@/lib/calendar/services";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+export type WeeklyHours = Record<string, { open: string; close: string } | null>;
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  /** Null means the member works the business hours */
+  workingHours: WeeklyHours | null;
+}
+
+export interface TimeOff {
+  staffMemberId: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * Load the org's active staff, ordered by name. Throws on DB error so
+ * availability never silently falls back to the single-calendar mode.
+ */
+export async function loadStaff(
+  supabase: SupabaseAny,
+  organizationId: string
+): Promise<StaffMember[]> {
+  const { data, error } = await supabase
+    .from("staff_members")
+    .select("id, name, working_hours")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load staff members: ${error.message}`);
+  }
+
+  return ((data ?? []) as { id: string; name: string; working_hours: WeeklyHours | null }[]).map(
+    (row) => ({
+      id: row.id,
+      name: row.name,
+      workingHours: row.working_hours && Object.keys(row.working_hours).length > 0 ? row.working_hours : null,
+    })
+  );
+}
+
+/**
+ * Time off for the given staff that overlaps [from, to). Throws on DB error.
+ */
+export async function loadTimeOff(
+  supabase: SupabaseAny,
+  staffIds: string[],
+  from: Date,
+  to: Date
+): Promise<TimeOff[]> {
+  if (staffIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("staff_time_off")
+    .select("staff_member_id, starts_at, ends_at")
+    .in("staff_member_id", staffIds)
+    .lt("starts_at", to.toISOString())
+    .gt("ends_at", from.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load staff time off: ${error.message}`);
+  }
+
+  return ((data ?? []) as { staff_member_id: string; starts_at: string; ends_at: string }[]).map(
+    (row) => ({ staffMemberId: row.staff_member_id, start: row.starts_at, end: row.ends_at })
+  );
+}
+
+// "anyone", "anyone available", "no preference", "whoever is free"
+const NO_PREFERENCE_PATTERN = /^(any(one|body)?( available| free)?|no preference|whoever( is)?( available| free)?|first available|doesn'?t matter)$/;
+
+/** True when the caller has no preference about who they see */
+export function wantsAnyStaff(requested: string | undefined): boolean {
+  if (!requested?.trim()) return true;
+  return NO_PREFERENCE_PATTERN.test(requested.trim().toLowerCase().replace(/[.!?]+$/, ""));
+}
+
+/**
+ * Match "with Dr. Smith", "Smith" or "doctor smith" to a staff member.
+ * Returns null when nothing matches or the name is ambiguous.
+ */
+export function findStaffMember<T extends { name: string }>(staff: T[], query: string): T | null {
+  const cleaned = query.replace(/^\s*with\s+/i, "").replace(/\bdoctor\b/gi, "Dr");
+  return findService(staff, cleaned);
+}
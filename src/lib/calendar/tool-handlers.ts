@@ -1,12 +1,48 @@
 import crypto from "crypto";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { formatAvailabilityForVoice } from "@/lib/calendar/cal-com";
 import {
-  getCalComClient,
-  formatBookingConfirmation,
-  formatAvailabilityForVoice,
-} from "@/lib/calendar/cal-com";
+  getCalendarProvider,
+  CalendarSlotUnavailableError,
+  type BusyInterval,
+  type CalendarProvider,
+} from "@/lib/calendar/providers";
+import {
+  loadServices,
+  findService,
+  listServicesForVoice,
+  MAX_SERVICE_BUFFER_MINUTES,
+  type BookableService,
+} from "@/lib/calendar/services";
+import {
+  loadStaff,
+  loadTimeOff,
+  wantsAnyStaff,
+  findStaffMember,
+  type StaffMember,
+} from "@/lib/calendar/staff";
+import {
+  findSpecialHours,
+  isClosedAllDay,
+  type SpecialHours,
+} from "@/lib/calendar/special-hours";
+import {
+  normalizeFrequency,
+  occurrenceDates,
+  describeFrequency,
+  MAX_OCCURRENCES,
+  type RecurrenceRule,
+} from "@/lib/calendar/recurrence";
+import {
+  offerSlotToWaitlist,
+  findOpenOffer,
+  CLEARED_OFFER,
+  MAX_WAITLIST_DAYS,
+} from "@/lib/calendar/waitlist";
 import { sendAppointmentNotification } from "@/lib/notifications/notification-service";
 import { sendAppointmentConfirmationSMS } from "@/lib/sms/caller-sms";
+import { deliverWebhookEvent, buildWebhookPayload } from "@/lib/integrations/webhook-delivery";
+import type { AppointmentEvent, WebhookEventDataMap } from "@/lib/integrations/types";
 import {
   sanitizeString,
   isValidPhoneNumber,
@@ -28,11 +64,21 @@ interface OrgSchedule {
   timezone: string;
   businessHours: Record<string, BusinessHours | null>;
   defaultAppointmentDuration: number;
+  /** Dated exceptions (holidays, closures, extended hours) */
+  specialHours: SpecialHours[];
 }
 
 // Fallback slot duration when no org-level default is configured
 const DEFAULT_SLOT_DURATION_MINUTES = 30;
 
+/** How long a booking holds the calendar and how far apart slots start */
+interface SlotShape {
+  durationMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  stepMinutes: number;
+}
+
 // ─── Shared helpers ─────────────────────────────────────────────────────────
 
 /**
@@ -47,7 +93,7 @@ async function getOrgSchedule(
   const supabase = createAdminClient();
   const { data: org, error } = await (supabase as any)
     .from("organizations")
-    .select("business_hours, timezone, default_appointment_duration")
+    .select("business_hours, special_hours, timezone, default_appointment_duration")
     .eq("id", organizationId)
     .single();
 
@@ -62,17 +108,47 @@ async function getOrgSchedule(
     timezone: org.timezone || "America/New_York",
     businessHours: org.business_hours ?? {},
     defaultAppointmentDuration: org.default_appointment_duration ?? 30,
+    specialHours: Array.isArray(org.special_hours) ? org.special_hours : [],
+  };
+}
+
+/**
+ * Slot shape for a service, or the org default when there is no catalog.
+ * Service slots start on a grid of at most 30 minutes, so a 90-minute
+ * colour can begin at 9:30 rather than only at 9:00 and 10:30.
+ */
+function slotShapeFor(
+  schedule: OrgSchedule | null,
+  service: BookableService | null
+): SlotShape {
+  if (!service) {
+    const durationMinutes = schedule?.defaultAppointmentDuration ?? DEFAULT_SLOT_DURATION_MINUTES;
+    return { durationMinutes, bufferBeforeMinutes: 0, bufferAfterMinutes: 0, stepMinutes: durationMinutes };
+  }
+
+  return {
+    durationMinutes: service.durationMinutes,
+    bufferBeforeMinutes: service.bufferBeforeMinutes,
+    bufferAfterMinutes: service.bufferAfterMinutes,
+    stepMinutes: Math.min(service.durationMinutes, DEFAULT_SLOT_DURATION_MINUTES),
   };
 }
 
 /**
  * Get the business hours for a specific date, resolving the day name
- * in the org's timezone. Returns null if closed that day.
+ * in the org's timezone. A special-hours entry for the date replaces the
+ * weekly hours. Returns null if closed that day.
  */
 function getHoursForDate(
   schedule: OrgSchedule,
   date: string
 ): { open: number; close: number } | null {
+  const special = findSpecialHours(schedule.specialHours, date);
+  if (special) {
+    if (isClosedAllDay(special)) return null;
+    return parseHours({ open: special.open!, close: special.close! });
+  }
+
   // Use noon to avoid DST-transition ambiguity at midnight boundaries
   const dateObj = new Date(`${date}T12:00:00`);
   const dayName = dateObj
@@ -82,11 +158,40 @@ function getHoursForDate(
   const hours: BusinessHours | null = schedule.businessHours[dayName];
   if (!hours || !hours.open || !hours.close) return null;
 
+  return parseHours(hours);
+}
+
+function parseHours(hours: BusinessHours): { open: number; close: number } {
   const [openH, openM] = hours.open.split(":").map(Number);
   const [closeH, closeM] = hours.close.split(":").map(Number);
   return { open: openH * 60 + openM, close: closeH * 60 + closeM };
 }
 
+/**
+ * The org schedule as seen by one staff member: their own working hours
+ * when set, otherwise the business hours. Special hours still apply.
+ */
+function scheduleFor(schedule: OrgSchedule, member: StaffMember | null): OrgSchedule {
+  if (!member?.workingHours) return schedule;
+  return { ...schedule, businessHours: member.workingHours };
+}
+
+/**
+ * The calendar date ("YYYY-MM-DD") of a Date in a specific timezone.
+ */
+function getDateInTimezone(d: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    timeZone: timezone,
+  }).formatToParts(d);
+  const yr = parts.find((p) => p.type === "year")!.value;
+  const mo = parts.find((p) => p.type === "month")!.value;
+  const da = parts.find((p) => p.type === "day")!.value;
+  return `${yr}-${mo}-${da}`;
+}
+
 /**
  * Extract the hour and minute of a Date in a specific timezone.
  */
@@ -131,20 +236,72 @@ function formatTime(h: number, m: number): string {
   return `${hour12}${mins} ${period}`;
 }
 
+/**
+ * Voice message when a special-hours entry closes the whole date, so the
+ * caller hears "closed for Christmas Day" rather than "fully booked".
+ */
+function specialClosureMessage(schedule: OrgSchedule | null, date: string): string | null {
+  const special = schedule && findSpecialHours(schedule.specialHours, date);
+  if (!special || !isClosedAllDay(special)) return null;
+  return `I'm sorry, we're closed on that day for ${special.name}. Would you like to check a different day?`;
+}
+
+/** "Full Groom appointment", or just "appointment" without a catalog */
+function describeBookedService(service: BookableService | null): string {
+  return service ? `${service.name} appointment` : "appointment";
+}
+
+/**
+ * Check that an appointment starting at startDate fits inside the org's
+ * business hours for that day. Returns null if it does, or a voice-ready
+ * message explaining why not.
+ */
+function checkBusinessHours(
+  schedule: OrgSchedule,
+  startDate: Date,
+  durationMinutes: number
+): string | null {
+  const localDate = getDateInTimezone(startDate, schedule.timezone);
+  const hours = getHoursForDate(schedule, localDate);
+  const special = findSpecialHours(schedule.specialHours, localDate);
+
+  if (!hours) {
+    const reason = special ? ` for ${special.name}` : "";
+    return `I'm sorry, we're closed on that day${reason}. Would you like to pick a different date?`;
+  }
+
+  // Extract hour:minute in the org's timezone, not the server's
+  const { h: reqH, m: reqM } = getTimeInTimezone(startDate, schedule.timezone);
+  const reqMinutes = reqH * 60 + reqM;
+
+  if (validateBookingTime(reqMinutes, durationMinutes, hours.open, hours.close)) {
+    const openStr = formatTime(Math.floor(hours.open / 60), hours.open % 60);
+    const closeStr = formatTime(Math.floor(hours.close / 60), hours.close % 60);
+    if (special) {
+      return `That time is outside our hours for ${special.name}. That day we're open from ${openStr} to ${closeStr}. Would you like to pick a time within those hours?`;
+    }
+    return `That time is outside our business hours. We're open from ${openStr} to ${closeStr}. Would you like to pick a time within those hours?`;
+  }
+
+  return null;
+}
+
 // ─── Pure slot helpers (exported for testing) ────────────────────────────────
 
 /**
  * Generate slot start-time strings for a given date and business-hours window.
+ * Slots start every stepMinutes (defaults to the duration, back to back).
  * Pure function with no DB calls.
  */
 export function generateSlots(
   date: string,
   hoursOpen: number,
   hoursClose: number,
-  durationMinutes: number
+  durationMinutes: number,
+  stepMinutes: number = durationMinutes
 ): string[] {
   const slots: string[] = [];
-  for (let m = hoursOpen; m + durationMinutes <= hoursClose; m += durationMinutes) {
+  for (let m = hoursOpen; m + durationMinutes <= hoursClose; m += stepMinutes) {
     const hh = String(Math.floor(m / 60)).padStart(2, "0");
     const mm = String(m % 60).padStart(2, "0");
     slots.push(`${date}T${hh}:${mm}:00`);
@@ -169,12 +326,89 @@ export function validateBookingTime(
   return null;
 }
 
+/**
+ * Whether two bookings clash once each one's setup and cleanup buffers are
+ * added around it. Any consistent unit works (minutes since midnight, ms).
+ */
+export function bookingsOverlap(
+  a: { start: number; end: number; before: number; after: number },
+  b: { start: number; end: number; before: number; after: number }
+): boolean {
+  return a.start - a.before < b.end + b.after && a.end + a.after > b.start - b.before;
+}
+
+/**
+ * When a caller has several upcoming bookings on one number, prefer the one
+ * whose attendee name matches what they told us. Falls back to the soonest.
+ */
+export function pickAppointmentByName<T extends { attendee_name: string | null }>(
+  appointments: T[],
+  name?: string
+): T | null {
+  if (appointments.length === 0) return null;
+
+  const wanted = name?.trim().toLowerCase();
+  if (wanted) {
+    const match = appointments.find((a) => {
+      const attendee = a.attendee_name?.trim().toLowerCase();
+      return !!attendee && (attendee === wanted || attendee.includes(wanted) || wanted.includes(attendee));
+    });
+    if (match) return match;
+  }
+
+  return appointments[0];
+}
+
+/**
+ * Drop org-local slot strings that overlap any busy interval from an
+ * external calendar. Compares absolute instants, so all-day and multi-day
+ * busy blocks are handled. A service's buffers must be free too.
+ */
+export function removeBusySlots(
+  slots: string[],
+  busy: BusyInterval[],
+  durationMinutes: number,
+  timezone: string,
+  buffers: { bufferBeforeMinutes?: number; bufferAfterMinutes?: number } = {}
+): string[] {
+  if (busy.length === 0) return slots;
+
+  const blocks = busy.map((b) => ({
+    start: new Date(b.start).getTime(),
+    end: new Date(b.end).getTime(),
+    before: 0,
+    after: 0,
+  }));
+  const before = (buffers.bufferBeforeMinutes ?? 0) * 60_000;
+  const after = (buffers.bufferAfterMinutes ?? 0) * 60_000;
+
+  return slots.filter((slot) => {
+    const start = new Date(ensureTimezoneOffset(slot, timezone)).getTime();
+    const candidate = { start, end: start + durationMinutes * 60_000, before, after };
+    return !blocks.some((b) => bookingsOverlap(candidate, b));
+  });
+}
+
 // ─── Built-in availability ──────────────────────────────────────────────────
 
+interface DayAppointment {
+  start_time: string;
+  duration_minutes: number | null;
+  end_time: string | null;
+  buffer_before_minutes: number | null;
+  buffer_after_minutes: number | null;
+  staff_member_id: string | null;
+}
+
 /**
  * Compute available time slots for a given date using the org's business
- * hours minus any existing (non-cancelled) appointments. Slot duration
- * defaults to 30 minutes but can be overridden via durationMinutes.
+ * hours minus any existing (non-cancelled) appointments. The slot shape
+ * (duration, buffers, spacing) defaults to the org's standard appointment
+ * but can be overridden for a service.
+ *
+ * When staff are given, each member is a separate calendar: their own
+ * working hours, time off and appointments. A slot is open if at least one
+ * of them is free. Appointments with no staff member block everyone.
  *
  * @returns ISO-like datetime strings in the org's local time (no TZ offset),
  *          e.g., "2025-03-15T09:00:00". Throws on DB errors.
@@ -183,17 +417,31 @@ async function getBuiltInAvailability(
   organizationId: string,
   date: string,
   schedule?: OrgSchedule | null,
-  durationMinutes: number = DEFAULT_SLOT_DURATION_MINUTES
+  shape?: SlotShape,
+  staff?: StaffMember[] | null
 ): Promise<string[]> {
   const resolvedSchedule = schedule ?? (await getOrgSchedule(organizationId));
   if (!resolvedSchedule) return [];
 
-  const hours = getHoursForDate(resolvedSchedule, date);
-  if (!hours) return []; // Closed
-
-  const slots = generateSlots(date, hours.open, hours.close, durationMinutes);
+  const resolvedShape = shape ?? slotShapeFor(resolvedSchedule, null);
+  const lanes: (StaffMember | null)[] = staff && staff.length > 0 ? staff : [null];
+
+  const lanesWithSlots = lanes
+    .map((member) => {
+      const hours = getHoursForDate(scheduleFor(resolvedSchedule, member), date);
+      if (!hours) return null; // Closed / not working
+      const slots = generateSlots(
+        date,
+        hours.open,
+        hours.close,
+        resolvedShape.durationMinutes,
+        resolvedShape.stepMinutes
+      );
+      return slots.length > 0 ? { member, slots } : null;
+    })
+    .filter((lane): lane is { member: StaffMember | null; slots: string[] } => lane !== null);
 
-  if (slots.length === 0) return [];
+  if (lanesWithSlots.length === 0) return [];
 
   // Get existing appointments for this date
   const supabase = createAdminClient();
@@ -202,7 +450,7 @@ async function getBuiltInAvailability(
 
   const { data: existing, error: apptError } = await (supabase as any)
     .from("appointments")
-    .select("start_time, duration_minutes, end_time")
+    .select("start_time, duration_minutes, end_time, buffer_before_minutes, buffer_after_minutes, staff_member_id")
     .eq("organization_id", organizationId)
     .gte("start_time", dayStart)
     .lte("start_time", dayEnd)
@@ -213,21 +461,56 @@ async function getBuiltInAvailability(
     throw new Error(`Failed to fetch appointments: ${apptError.message}`);
   }
 
-  const appointments = (existing || []) as {
-    start_time: string;
-    duration_minutes: number | null;
-    end_time: string | null;
-  }[];
-
-  // Filter out slots that overlap with existing appointments.
-  // Compare in org-local minutes-since-midnight to avoid server-TZ vs org-TZ mismatch.
+  const appointments = (existing || []) as DayAppointment[];
   const { timezone } = resolvedSchedule;
 
+  const staffIds = lanesWithSlots.flatMap((lane) => (lane.member ? [lane.member.id] : []));
+  const dayStartDate = new Date(ensureTimezoneOffset(`${date}T00:00:00`, timezone));
+  const timeOff = await loadTimeOff(
+    supabase,
+    staffIds,
+    dayStartDate,
+    new Date(dayStartDate.getTime() + 24 * 60 * 60_000)
+  );
+
+  const open = new Set<string>();
+  for (const { member, slots } of lanesWithSlots) {
+    const blocking = member
+      ? appointments.filter((a) => !a.staff_member_id || a.staff_member_id === member.id)
+      : appointments;
+    const free = removeBusySlots(
+      filterBookedSlots(slots, blocking, resolvedShape, timezone),
+      member ? timeOff.filter((t) => t.staffMemberId === member.id) : [],
+      resolvedShape.durationMinutes,
+      timezone,
+      resolvedShape
+    );
+    free.forEach((slot) => open.add(slot));
+  }
+
+  return Array.from(open).sort();
+}
+
+/**
+ * Drop slots that overlap existing appointments, buffers included.
+ * Compares in org-local minutes-since-midnight to avoid server-TZ vs org-TZ mismatch.
+ */
+function filterBookedSlots(
+  slots: string[],
+  appointments: DayAppointment[],
+  shape: SlotShape,
+  timezone: string
+): string[] {
   return slots.filter((slotIso) => {
     const [, timeStr] = slotIso.split("T");
     const [slotH, slotM] = timeStr.split(":").map(Number);
     const slotStartMin = slotH * 60 + slotM;
-    const slotEndMin = slotStartMin + durationMinutes;
+    const candidate = {
+      start: slotStartMin,
+      end: slotStartMin + shape.durationMinutes,
+      before: shape.bufferBeforeMinutes,
+      after: shape.bufferAfterMinutes,
+    };
 
     return !appointments.some((appt) => {
       const { h: aH, m: aM } = getTimeInTimezone(new Date(appt.start_time), timezone);
@@ -241,7 +524,12 @@ async function getBuiltInAvailability(
         apptEndMin = apptStartMin + (appt.duration_minutes || DEFAULT_SLOT_DURATION_MINUTES);
       }
 
-      return slotStartMin < apptEndMin && slotEndMin > apptStartMin;
+      return bookingsOverlap(candidate, {
+        start: apptStartMin,
+        end: apptEndMin,
+        before: appt.buffer_before_minutes ?? 0,
+        after: appt.buffer_after_minutes ?? 0,
+      });
     });
   });
 }
@@ -252,10 +540,13 @@ async function getBuiltInAvailability(
 function formatBuiltInAvailabilityForVoice(
   date: string,
   slots: string[],
-  timezone: string
+  timezone: string,
+  staffName?: string
 ): string {
   if (slots.length === 0) {
-    return "I'm sorry, there are no available appointments on that date. Would you like to check a different day?";
+    return staffName
+      ? `I'm sorry, ${staffName} has no available appointments on that date. Would you like to check a different day, see someone else, or join the waitlist in case something opens up?`
+      : "I'm sorry, there are no available appointments on that date. Would you like to check a different day, or join the waitlist in case something opens up?";
   }
 
   const dateObj = new Date(`${date}T12:00:00`);
@@ -278,7 +569,8 @@ function formatBuiltInAvailabilityForVoice(
   });
 
   const more = slots.length > 5 ? ` and ${slots.length - 5} more` : "";
-  return `On ${dateStr}, I have openings at ${timeStrings.join(", ")}${more}. Which time works best for you?`;
+  const who = staffName ? `${staffName} has` : "I have";
+  return `On ${dateStr}, ${who} openings at ${timeStrings.join(", ")}${more}. Which time works best for you?`;
 }
 
 // ─── Timezone helpers ────────────────────────────────────────────────────────
@@ -418,6 +710,11 @@ export async function handleBookAppointment(
     phone?: string;
     email?: string;
     notes?: string;
+    service?: string;
+    staff?: string;
+    recurrence?: string;
+    occurrences?: number | string;
+    skip_conflicts?: boolean | string;
   }
 ): Promise<ToolResult> {
   const { datetime, name, phone, email, notes } = args;
@@ -465,36 +762,86 @@ export async function handleBookAppointment(
   const sanitizedName = sanitizeString(name, 100);
   const sanitizedNotes = notes ? sanitizeString(notes, 500) : undefined;
 
-  // ── Try Cal.com first ─────────────────────────────────────────────────
-  const calClient = await getCalComClient(organizationId);
+  const recurrence = resolveRecurrence(args.recurrence, args.occurrences);
+  if (!recurrence.ok) return recurrence.result;
 
-  if (calClient) {
-    return bookViaCal(
-      calClient,
+  const serviceLookup = await resolveService(organizationId, args.service);
+  if (!serviceLookup.ok) return serviceLookup.result;
+  const { service } = serviceLookup;
+
+  // ── Try the connected calendar first ──────────────────────────────────
+  const lookup = await loadCalendarProvider(
+    organizationId,
+    "I'm sorry, there's a configuration issue with the calendar. Let me take your information and have someone call you back."
+  );
+  if (!lookup.ok) return lookup.result;
+
+  if (lookup.provider && recurrence.rule) {
+    return {
+      success: false,
+      message:
+        "I'm sorry, I can't set up repeating appointments in our calendar. I can book them one at a time. Would you like me to book the first one?",
+    };
+  }
+
+  // Staff schedules live in the built-in calendar only
+  if (lookup.provider && args.staff?.trim()) {
+    return {
+      success: false,
+      message:
+        "I'm sorry, I can't book with a specific person in our calendar. I can book you with whoever is available at that time. Would that work?",
+    };
+  }
+
+  if (lookup.provider) {
+    return bookViaProvider(
+      lookup.provider,
       organizationId,
       datetime,
       sanitizedName,
       phone,
       email,
-      sanitizedNotes
+      sanitizedNotes,
+      service
+    );
+  }
+
+  // ── Built-in booking (no external calendar connected) ─────────────────
+  const staffLookup = await resolveStaff(organizationId, service, args.staff);
+  if (!staffLookup.ok) return staffLookup.result;
+
+  console.log("Using built-in booking (no calendar provider):", { organizationId });
+  if (recurrence.rule) {
+    return bookSeriesInternal(
+      organizationId,
+      datetime,
+      sanitizedName,
+      phone,
+      email,
+      sanitizedNotes,
+      service,
+      staffLookup,
+      recurrence.rule,
+      // Models send the flag as a boolean or as "true"
+      String(args.skip_conflicts) === "true"
     );
   }
 
-  // ── Built-in booking (no Cal.com configured) ──────────────────────────
-  console.log("Using built-in booking (no Cal.com client):", { organizationId });
   return bookInternal(
     organizationId,
     datetime,
     sanitizedName,
     phone,
     email,
-    sanitizedNotes
+    sanitizedNotes,
+    service,
+    staffLookup
   );
 }
 
 export async function handleCheckAvailability(
   organizationId: string,
-  args: { date?: string }
+  args: { date?: string; service?: string; staff?: string }
 ): Promise<ToolResult> {
   const { date } = args;
 
@@ -512,23 +859,50 @@ export async function handleCheckAvailability(
     };
   }
 
-  // ── Try Cal.com first ─────────────────────────────────────────────────
-  const calClient = await getCalComClient(organizationId);
+  const serviceLookup = await resolveService(organizationId, args.service);
+  if (!serviceLookup.ok) return serviceLookup.result;
+  const { service } = serviceLookup;
+
+  // ── Try the connected calendar first ──────────────────────────────────
+  const lookup = await loadCalendarProvider(
+    organizationId,
+    "There's a configuration issue with the calendar."
+  );
+  if (!lookup.ok) return lookup.result;
+
+  if (lookup.provider && args.staff?.trim()) {
+    return {
+      success: false,
+      message:
+        "I'm sorry, I can't check a specific person's schedule in our calendar. Would you like me to check who's available that day instead?",
+    };
+  }
 
-  if (calClient) {
-    return checkAvailabilityViaCal(calClient, organizationId, date);
+  if (lookup.provider) {
+    return checkAvailabilityViaProvider(lookup.provider, organizationId, date, service);
   }
 
-  // ── Built-in availability (no Cal.com configured) ─────────────────────
-  console.log("Using built-in availability (no Cal.com client):", { organizationId });
+  // ── Built-in availability (no external calendar connected) ────────────
+  const staffLookup = await resolveStaff(organizationId, service, args.staff);
+  if (!staffLookup.ok) return staffLookup.result;
+
+  console.log("Using built-in availability (no calendar provider):", { organizationId });
   try {
     const schedule = await getOrgSchedule(organizationId);
     const timezone = schedule?.timezone || "America/New_York";
-    const durationMinutes = schedule?.defaultAppointmentDuration ?? DEFAULT_SLOT_DURATION_MINUTES;
-    const slots = await getBuiltInAvailability(organizationId, date, schedule, durationMinutes);
+    const closure = specialClosureMessage(schedule, date);
+    if (closure) return { success: true, message: closure };
+
+    const slots = await getBuiltInAvailability(
+      organizationId,
+      date,
+      schedule,
+      slotShapeFor(schedule, service),
+      staffLookup.candidates
+    );
     return {
       success: true,
-      message: formatBuiltInAvailabilityForVoice(date, slots, timezone),
+      message: formatBuiltInAvailabilityForVoice(date, slots, timezone, staffLookup.requested?.name),
     };
   } catch (error: any) {
     console.error("Built-in availability error:", { organizationId, date, message: error.message, stack: error.stack });
@@ -585,45 +959,12 @@ export async function handleCancelAppointment(
   }
 
   try {
-    if (appointment.external_id) {
-      const calClient = await getCalComClient(organizationId);
-      if (calClient && appointment.metadata?.calComBookingId) {
-        await calClient.cancelBooking(
-          appointment.metadata.calComBookingId,
-          reason || "Cancelled by caller"
-        );
-      } else {
-        console.error("Cannot cancel Cal.com booking: missing client or booking ID", {
-          organizationId,
-          appointmentId: appointment.id,
-          externalId: appointment.external_id,
-          hasCalClient: !!calClient,
-          hasBookingId: !!appointment.metadata?.calComBookingId,
-        });
-        return {
-          success: false,
-          message:
-            "I'm having trouble cancelling the external calendar booking. Let me have someone follow up with you to make sure this is fully cancelled.",
-        };
-      }
-    }
-
-    const { error: cancelDbError } = await (supabase as any)
-      .from("appointments")
-      .update({ status: "cancelled" })
-      .eq("id", appointment.id);
-
-    if (cancelDbError) {
-      console.error("Failed to update appointment status locally:", cancelDbError);
-      return {
-        success: false,
-        message:
-          "I'm having trouble cancelling the appointment right now. Would you like me to have someone call you back to help with this?",
-      };
-    }
-
     const schedule = await getOrgSchedule(organizationId).catch(() => null);
     const timezone = schedule?.timezone || "America/New_York";
+
+    const failure = await cancelAppointmentRow(organizationId, appointment, reason, "caller", timezone);
+    if (failure) return { success: false, message: failure };
+
     const { dateStr, timeStr } = formatDateTimeForVoice(
       new Date(appointment.start_time),
       timezone
@@ -643,233 +984,1469 @@ export async function handleCancelAppointment(
   }
 }
 
-// ─── Cal.com helpers ────────────────────────────────────────────────────────
-
-async function bookViaCal(
-  calClient: NonNullable<Awaited<ReturnType<typeof getCalComClient>>>,
+/**
+ * Record that the caller will attend their next appointment (e.g. when the
+ * AI calls with a reminder). Reminders stop once it's confirmed.
+ */
+export async function handleConfirmAppointment(
   organizationId: string,
-  datetime: string,
-  sanitizedName: string,
-  phone: string,
-  email: string | undefined,
-  sanitizedNotes: string | undefined
+  args: { phone?: string }
 ): Promise<ToolResult> {
-  const supabase = createAdminClient();
+  const { phone } = args;
 
-  const { data: integration, error: integrationError } = await (supabase as any)
-    .from("calendar_integrations")
-    .select("calendar_id, settings")
-    .eq("organization_id", organizationId)
-    .eq("provider", "cal_com")
-    .eq("is_active", true)
-    .single();
-
-  if (integrationError && integrationError.code !== "PGRST116") {
-    console.error("Failed to fetch calendar integration:", { organizationId, error: integrationError });
+  if (!phone) {
     return {
       success: false,
       message:
-        "I'm having trouble accessing the calendar system right now. Would you like me to take your information instead?",
+        "I need your phone number to look up your appointment. What's the phone number you booked with?",
     };
   }
 
-  if (!integration || !integration.calendar_id) {
+  const supabase = createAdminClient();
+
+  const { data: appointments, error: queryError } = await (supabase as any)
+    .from("appointments")
+    .select("id, start_time")
+    .eq("organization_id", organizationId)
+    .eq("attendee_phone", phone)
+    .in("status", ["confirmed", "pending"])
+    .gt("start_time", new Date().toISOString())
+    .order("start_time", { ascending: true })
+    .limit(1);
+
+  if (queryError) {
+    console.error("Failed to query appointments for confirmation:", { organizationId, phone, error: queryError });
     return {
       success: false,
-      message:
-        "I'm sorry, the calendar system isn't fully set up yet. Can I take your information and have someone call you back?",
+      message: "I'm having trouble looking up your appointment right now, but we'll see you then.",
     };
   }
 
-  const eventTypeId = parseInt(integration.calendar_id, 10);
-  if (isNaN(eventTypeId)) {
+  const appointment = appointments?.[0] ?? null;
+  if (!appointment) {
     return {
       success: false,
       message:
-        "I'm sorry, there's a configuration issue with the calendar. Let me take your information and have someone call you back.",
+        "I wasn't able to find an upcoming appointment with that phone number. Could you double-check the number you booked with?",
     };
   }
 
-  try {
-    // Fetch org timezone to ensure naive datetime gets proper offset
-    const calSchedule = await getOrgSchedule(organizationId).catch(() => null);
-    const timezone = calSchedule?.timezone || "America/New_York";
-    const tzAwareDatetime = ensureTimezoneOffset(datetime, timezone);
-
-    const bookingEmail =
-      email || `booking-${crypto.randomUUID()}@noreply.holarecep.com`;
+  const { error: updateError } = await (supabase as any)
+    .from("appointments")
+    .update({ status: "confirmed", confirmed_by_caller_at: new Date().toISOString(), reschedule_requested_at: null })
+    .eq("id", appointment.id);
 
-    const booking = await calClient.createBooking({
-      eventTypeId,
-      start: tzAwareDatetime,
-      name: sanitizedName,
-      email: bookingEmail,
-      phone,
-      notes: sanitizedNotes,
-      metadata: {
-        source: "ai_receptionist",
-        organizationId,
-      },
-    });
+  if (updateError) {
+    console.error("Failed to confirm appointment:", { organizationId, appointmentId: appointment.id, error: updateError });
+  }
 
-    // Record in our database — rollback Cal.com booking if this fails
-    const { error: dbError } = await (supabase as any)
-      .from("appointments")
-      .insert({
-        organization_id: organizationId,
-        external_id: booking.uid,
-        provider: "cal_com",
-        attendee_name: sanitizedName,
-        attendee_phone: phone,
-        attendee_email: bookingEmail,
-        start_time: tzAwareDatetime,
-        end_time: booking.endTime,
-        status: "confirmed",
-        notes: sanitizedNotes,
-        metadata: {
-          calComBookingId: booking.id,
-          eventTypeId,
-        },
-      });
+  const schedule = await getOrgSchedule(organizationId).catch(() => null);
+  const { dateStr, timeStr } = formatDateTimeForVoice(
+    new Date(appointment.start_time),
+    schedule?.timezone || "America/New_York"
+  );
 
-    if (dbError) {
-      console.error("Failed to record appointment locally, rolling back Cal.com booking:", dbError);
-      try {
-        await calClient.cancelBooking(booking.id, "Internal system error - rollback");
-      } catch (rollbackErr) {
-        console.error("CRITICAL: Failed to rollback Cal.com booking after DB failure:", rollbackErr);
-      }
-      return {
-        success: false,
-        message:
-          "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
-      };
-    }
+  return {
+    success: true,
+    message: `Thank you, you're confirmed for ${dateStr} at ${timeStr}. Is there anything else I can help you with?`,
+    data: { appointmentId: appointment.id },
+  };
+}
 
-    // Send notification
-    const appointmentDate = new Date(tzAwareDatetime);
-    sendNotification(organizationId, phone, sanitizedName, appointmentDate, timezone);
+export async function handleRescheduleAppointment(
+  organizationId: string,
+  args: { phone?: string; name?: string; datetime?: string; reason?: string }
+): Promise<ToolResult> {
+  const { phone, name, datetime, reason } = args;
 
+  if (!phone) {
     return {
-      success: true,
-      message: formatBookingConfirmation(booking, timezone),
-      data: {
-        bookingId: booking.id,
-        bookingUid: booking.uid,
-        startTime: booking.startTime,
-        endTime: booking.endTime,
-      },
+      success: false,
+      message:
+        "I need your phone number to look up your appointment. What's the phone number you booked with?",
     };
-  } catch (error: any) {
-    if (error.message?.includes("slot is not available")) {
-      return {
-        success: false,
-        message:
-          "I'm sorry, that time slot is no longer available. Would you like me to check for other available times?",
-      };
-    }
+  }
 
-    console.error("Book appointment error:", { organizationId, message: error.message, stack: error.stack });
+  if (!datetime) {
     return {
       success: false,
-      message:
-        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+      message: "What date and time would you like to move your appointment to?",
     };
   }
-}
 
-async function checkAvailabilityViaCal(
-  calClient: NonNullable<Awaited<ReturnType<typeof getCalComClient>>>,
-  organizationId: string,
-  date: string
-): Promise<ToolResult> {
   const supabase = createAdminClient();
 
-  const { data: integration, error: integrationError } = await (supabase as any)
-    .from("calendar_integrations")
-    .select("calendar_id")
+  const { data: appointments, error: queryError } = await (supabase as any)
+    .from("appointments")
+    .select("*")
     .eq("organization_id", organizationId)
-    .eq("provider", "cal_com")
-    .eq("is_active", true)
+    .eq("attendee_phone", phone)
+    .in("status", ["confirmed", "pending"])
+    .gte("start_time", new Date().toISOString())
+    .order("start_time", { ascending: true })
+    .limit(10);
+
+  if (queryError) {
+    console.error("Failed to query appointments for reschedule:", { organizationId, phone, error: queryError });
+    return {
+      success: false,
+      message:
+        "I'm having trouble looking up your appointment right now. Would you like me to have someone call you back?",
+    };
+  }
+
+  const appointment = pickAppointmentByName((appointments ?? []) as AppointmentRow[], name);
+
+  if (!appointment) {
+    return {
+      success: false,
+      message:
+        "I wasn't able to find an upcoming appointment with that phone number. Could you double-check the number you booked with?",
+    };
+  }
+
+  return moveAppointment(organizationId, appointment, datetime, reason);
+}
+
+/**
+ * Reschedule a specific appointment from the back office. Runs the same
+ * business-hours and calendar provider flow as the voice tool.
+ */
+export async function rescheduleAppointmentById(
+  organizationId: string,
+  appointmentId: string,
+  args: { datetime: string; reason?: string }
+): Promise<ToolResult> {
+  const supabase = createAdminClient();
+
+  const { data: appointment, error } = await (supabase as any)
+    .from("appointments")
+    .select("*")
+    .eq("id", appointmentId)
+    .eq("organization_id", organizationId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    console.error("Failed to load appointment for reschedule:", { organizationId, appointmentId, error });
+    return { success: false, message: "Failed to load the appointment." };
+  }
+
+  if (!appointment) {
+    return { success: false, message: "Appointment not found." };
+  }
+
+  if (appointment.status !== "confirmed" && appointment.status !== "pending") {
+    return {
+      success: false,
+      message: `Only upcoming appointments can be rescheduled (this one is ${appointment.status}).`,
+    };
+  }
+
+  return moveAppointment(organizationId, appointment, args.datetime, args.reason);
+}
+
+/**
+ * Cancel a specific appointment from the back office. With scope
+ * "following", the later occurrences of its recurring series are cancelled
+ * too.
+ */
+export async function cancelAppointmentById(
+  organizationId: string,
+  appointmentId: string,
+  args: { scope?: "this" | "following"; reason?: string; cancelledBy?: "caller" | "business" }
+): Promise<ToolResult> {
+  const supabase = createAdminClient();
+
+  const { data: appointment, error } = await (supabase as any)
+    .from("appointments")
+    .select("*")
+    .eq("id", appointmentId)
+    .eq("organization_id", organizationId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    console.error("Failed to load appointment for cancellation:", { organizationId, appointmentId, error });
+    return { success: false, message: "Failed to load the appointment." };
+  }
+
+  if (!appointment) {
+    return { success: false, message: "Appointment not found." };
+  }
+
+  if (appointment.status !== "confirmed" && appointment.status !== "pending") {
+    return {
+      success: false,
+      message: `Only upcoming appointments can be cancelled (this one is ${appointment.status}).`,
+    };
+  }
+
+  // Occurrences can be rescheduled out of order, so "following" goes by
+  // start time rather than series_index
+  let targets: AppointmentRow[] = [appointment];
+  if (args.scope === "following" && appointment.series_id) {
+    const { data: following, error: seriesError } = await (supabase as any)
+      .from("appointments")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .eq("series_id", appointment.series_id)
+      .in("status", ["confirmed", "pending"])
+      .gte("start_time", appointment.start_time)
+      .order("start_time", { ascending: true });
+
+    if (seriesError) {
+      console.error("Failed to load series for cancellation:", { organizationId, appointmentId, error: seriesError });
+      return { success: false, message: "Failed to load the rest of the series." };
+    }
+    targets = following?.length ? following : [appointment];
+  }
+
+  const schedule = await getOrgSchedule(organizationId).catch(() => null);
+  const timezone = schedule?.timezone || "America/New_York";
+  const reason = args.reason ? sanitizeString(args.reason, 500) : undefined;
+
+  const cancelledIds: string[] = [];
+  for (const target of targets) {
+    let failure: string | null;
+    try {
+      failure = await cancelAppointmentRow(organizationId, target, reason, args.cancelledBy ?? "business", timezone);
+    } catch (err: any) {
+      console.error("Cancel appointment error:", { organizationId, appointmentId: target.id, message: err.message });
+      failure = "Failed to cancel the appointment.";
+    }
+
+    if (failure) {
+      return {
+        success: false,
+        message: cancelledIds.length > 0
+          ? `Cancelled ${cancelledIds.length} of ${targets.length} appointments. ${failure}`
+          : failure,
+        data: { cancelledIds },
+      };
+    }
+    cancelledIds.push(target.id);
+  }
+
+  return {
+    success: true,
+    message: cancelledIds.length === 1 ? "Appointment cancelled." : `Cancelled ${cancelledIds.length} appointments.`,
+    data: { cancelledIds },
+  };
+}
+
+/**
+ * Cancel one appointment: upstream first for external calendar bookings,
+ * then the local row, then the webhook. Returns a voice-ready message when
+ * it couldn't be cancelled, or null.
+ */
+async function cancelAppointmentRow(
+  organizationId: string,
+  appointment: AppointmentRow,
+  reason: string | undefined,
+  cancelledBy: "caller" | "business",
+  timezone: string
+): Promise<string | null> {
+  const supabase = createAdminClient();
+
+  if (appointment.external_id) {
+    const provider = await getCalendarProvider(organizationId).catch(() => null);
+    if (provider && provider.id === appointment.provider) {
+      await provider.cancelBooking(
+        { externalId: appointment.external_id, metadata: appointment.metadata },
+        reason || (cancelledBy === "caller" ? "Cancelled by caller" : "Cancelled by the business")
+      );
+    } else {
+      console.error("Cannot cancel external booking: its calendar provider is not connected", {
+        organizationId,
+        appointmentId: appointment.id,
+        externalId: appointment.external_id,
+        bookedWith: appointment.provider,
+        activeProvider: provider?.id ?? null,
+      });
+      return "I'm having trouble cancelling the external calendar booking. Let me have someone follow up with you to make sure this is fully cancelled.";
+    }
+  }
+
+  const { error: cancelDbError } = await (supabase as any)
+    .from("appointments")
+    .update({ status: "cancelled" })
+    .eq("id", appointment.id);
+
+  if (cancelDbError) {
+    console.error("Failed to update appointment status locally:", cancelDbError);
+    return "I'm having trouble cancelling the appointment right now. Would you like me to have someone call you back to help with this?";
+  }
+
+  sendAppointmentWebhook(organizationId, "appointment.cancelled", {
+    appointment_id: appointment.id,
+    external_id: appointment.external_id ?? null,
+    provider: appointment.provider,
+    status: "cancelled",
+    service: appointment.event_type ?? null,
+    series_id: appointment.series_id ?? null,
+    attendee_name: appointment.attendee_name ?? null,
+    attendee_phone: appointment.attendee_phone,
+    attendee_email: appointment.attendee_email ?? null,
+    start_time: appointment.start_time,
+    end_time: appointment.end_time ?? null,
+    timezone,
+    notes: appointment.notes ?? null,
+    cancellation_reason: reason || null,
+  });
+
+  offerFreedSlot(organizationId, appointment, timezone);
+
+  return null;
+}
+
+// ─── Waitlist ───────────────────────────────────────────────────────────────
+
+/** "2026-03-05" → "Thursday, March 5" */
+function formatDateOnlyForVoice(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Put a caller who couldn't find a slot on the waitlist for a date range.
+ * When a matching appointment is cancelled they get a text and can reply
+ * YES to take it.
+ */
+export async function handleJoinWaitlist(
+  organizationId: string,
+  args: {
+    name?: string;
+    phone?: string;
+    start_date?: string;
+    end_date?: string;
+    service?: string;
+    staff?: string;
+    notes?: string;
+  }
+): Promise<ToolResult> {
+  const { name, phone, start_date } = args;
+  const endDate = args.end_date || start_date;
+
+  if (!start_date || !/^\d{4}-\d{2}-\d{2}$/.test(start_date) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate!)) {
+    return {
+      success: false,
+      message: "Which dates would work for you? I'll put you on the waitlist for those days.",
+    };
+  }
+
+  if (!name) {
+    return {
+      success: false,
+      message: "What name should I put on the waitlist?",
+    };
+  }
+
+  if (!phone || !isValidPhoneNumber(phone)) {
+    return {
+      success: false,
+      message: "What's the best number to text you at if a spot opens up?",
+    };
+  }
+
+  const schedule = await getOrgSchedule(organizationId).catch(() => null);
+  const timezone = schedule?.timezone || "America/New_York";
+  const today = getDateInTimezone(new Date(), timezone);
+  const earliest = start_date < today ? today : start_date;
+  const spanDays = (Date.parse(endDate!) - Date.parse(earliest)) / 86_400_000;
+
+  if (spanDays < 0) {
+    return {
+      success: false,
+      message: "Those dates have already passed. Which upcoming dates would work for you?",
+    };
+  }
+
+  if (spanDays > MAX_WAITLIST_DAYS) {
+    return {
+      success: false,
+      message: `I can only hold a waitlist spot for up to ${MAX_WAITLIST_DAYS} days. Could you narrow down the dates?`,
+    };
+  }
+
+  const serviceLookup = await resolveService(organizationId, args.service);
+  if (!serviceLookup.ok) return serviceLookup.result;
+  const { service } = serviceLookup;
+
+  const staffLookup = await resolveStaff(organizationId, service, args.staff);
+  if (!staffLookup.ok) return staffLookup.result;
+  const staffMember = staffLookup.requested;
+
+  const supabase = createAdminClient();
+  const { data: entry, error } = await (supabase as any)
+    .from("waitlist_entries")
+    .insert({
+      organization_id: organizationId,
+      caller_name: sanitizeString(name, 100),
+      caller_phone: phone,
+      service_id: service?.id ?? null,
+      staff_member_id: staffMember?.id ?? null,
+      earliest_date: earliest,
+      latest_date: endDate,
+      notes: args.notes ? sanitizeString(args.notes, 500) : null,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to add waitlist entry:", { organizationId, error });
+    return {
+      success: false,
+      message:
+        "I'm having trouble adding you to the waitlist right now. Let me take your information and have someone call you back.",
+    };
+  }
+
+  const range =
+    earliest === endDate
+      ? `on ${formatDateOnlyForVoice(earliest)}`
+      : `between ${formatDateOnlyForVoice(earliest)} and ${formatDateOnlyForVoice(endDate!)}`;
+  const what = service ? ` for a ${service.name}` : "";
+  const who = staffMember ? ` with ${staffMember.name}` : "";
+
+  return {
+    success: true,
+    message: `I've put you on the waitlist${what}${who} ${range}. If something opens up, we'll text you and you can reply YES to book it. Is there anything else I can help you with?`,
+    data: { waitlistEntryId: entry.id, earliestDate: earliest, latestDate: endDate },
+  };
+}
+
+/**
+ * Handle a YES text from a waitlisted caller: book the slot they were
+ * offered. Returns null when the number has no open offer. The message is
+ * the SMS reply.
+ */
+export async function handleWaitlistReply(
+  organizationId: string,
+  fromPhone: string
+): Promise<ToolResult | null> {
+  const supabase = createAdminClient();
+  const offer = await findOpenOffer(supabase, organizationId, fromPhone);
+  if (!offer) return null;
+
+  const result = await handleBookAppointment(organizationId, {
+    datetime: offer.offerStartTime!,
+    name: offer.callerName,
+    phone: offer.callerPhone,
+    notes: offer.notes ?? undefined,
+    service: offer.offerService ?? undefined,
+    staff: offer.offerStaff ?? undefined,
+  });
+
+  if (!result.success) {
+    await (supabase as any).from("waitlist_entries").update(CLEARED_OFFER).eq("id", offer.id);
+    // Booking messages are written for the voice assistant, so only the
+    // slot being gone is worth telling the caller by text
+    if (result.data?.slotUnavailable) {
+      return {
+        success: false,
+        message:
+          "Sorry, that slot has just been taken. You're still on the waitlist and we'll text you if another one opens up.",
+      };
+    }
+    console.error("Failed to book waitlist offer:", { organizationId, waitlistEntryId: offer.id, message: result.message });
+    return {
+      success: false,
+      message:
+        "Sorry, we couldn't book that slot for you. Please call us to book it. You're still on the waitlist and we'll text you if another one opens up.",
+    };
+  }
+
+  const appointmentId = (result.data?.appointmentId as string | undefined) ?? null;
+  await (supabase as any)
+    .from("waitlist_entries")
+    .update({ status: "booked", booked_appointment_id: appointmentId })
+    .eq("id", offer.id);
+
+  // Everyone else offered this slot goes back to waiting for the next one
+  await (supabase as any)
+    .from("waitlist_entries")
+    .update(CLEARED_OFFER)
+    .eq("organization_id", organizationId)
+    .eq("offer_appointment_id", offer.offerAppointmentId)
+    .eq("status", "offered");
+
+  const schedule = await getOrgSchedule(organizationId).catch(() => null);
+  const { dateStr, timeStr } = formatDateTimeForVoice(
+    new Date(offer.offerStartTime!),
+    schedule?.timezone || "America/New_York"
+  );
+
+  return {
+    success: true,
+    message: `You're booked for ${dateStr} at ${timeStr}. See you then!`,
+    data: { appointmentId, waitlistEntryId: offer.id },
+  };
+}
+
+/**
+ * Text the slot a cancellation freed to the waitlist. Fire-and-forget so
+ * the cancellation never waits on SMS delivery.
+ */
+function offerFreedSlot(organizationId: string, appointment: AppointmentRow, timezone: string): void {
+  const start = new Date(appointment.start_time);
+  if (start.getTime() <= Date.now()) return;
+
+  offerSlotToWaitlist(createAdminClient(), organizationId, {
+    appointmentId: appointment.id,
+    start,
+    date: getDateInTimezone(start, timezone),
+    timezone,
+    serviceId: appointment.service_id ?? null,
+    serviceName: appointment.event_type ?? null,
+    staffMemberId: appointment.staff_member_id ?? null,
+  }).catch((err) => {
+    console.error("Failed to offer freed slot to waitlist:", {
+      organizationId,
+      appointmentId: appointment.id,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  });
+}
+
+// ─── Service helpers ────────────────────────────────────────────────────────
+
+type ServiceLookup =
+  | { ok: true; service: BookableService | null }
+  | { ok: false; result: ToolResult };
+
+/**
+ * Pick the service for a check or booking. Orgs without a catalog use their
+ * default duration. With a catalog the caller has to choose one (unless
+ * there is only one), and an unknown name gets the list read back.
+ */
+async function resolveService(
+  organizationId: string,
+  requested: string | undefined
+): Promise<ServiceLookup> {
+  let services: BookableService[];
+  try {
+    services = await loadServices(createAdminClient(), organizationId);
+  } catch (error: any) {
+    console.error("Failed to load services:", { organizationId, message: error.message });
+    return {
+      ok: false,
+      result: {
+        success: false,
+        message:
+          "I'm having trouble accessing our schedule right now. Let me take your information and have someone call you back.",
+      },
+    };
+  }
+
+  if (services.length === 0) return { ok: true, service: null };
+
+  if (requested?.trim()) {
+    const service = findService(services, requested);
+    if (service) return { ok: true, service };
+    return {
+      ok: false,
+      result: {
+        success: false,
+        message: `I'm sorry, I couldn't find that service. We offer ${listServicesForVoice(services)}. Which one would you like?`,
+      },
+    };
+  }
+
+  if (services.length === 1) return { ok: true, service: services[0] };
+
+  return {
+    ok: false,
+    result: {
+      success: false,
+      message: `Which service would you like to book? We offer ${listServicesForVoice(services)}.`,
+    },
+  };
+}
+
+/**
+ * The overlap constraint only sees start and end times, so check setup and
+ * cleanup buffers (ours and the neighbouring bookings') before inserting.
+ * With a staff member, only that person's calendar is checked.
+ */
+async function hasBufferConflict(
+  organizationId: string,
+  startDate: Date,
+  endDate: Date,
+  shape: SlotShape,
+  excludeAppointmentId?: string,
+  staffMemberId?: string
+): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  // Widest gap at which a neighbour's buffer could still reach ours
+  const reachMs =
+    (MAX_SERVICE_BUFFER_MINUTES + Math.max(shape.bufferBeforeMinutes, shape.bufferAfterMinutes)) * 60_000;
+
+  let query = (supabase as any)
+    .from("appointments")
+    .select("id, start_time, end_time, buffer_before_minutes, buffer_after_minutes")
+    .eq("organization_id", organizationId)
+    .in("status", ["confirmed", "pending"])
+    .lt("start_time", new Date(endDate.getTime() + reachMs).toISOString())
+    .gt("end_time", new Date(startDate.getTime() - reachMs).toISOString());
+
+  if (excludeAppointmentId) {
+    query = query.neq("id", excludeAppointmentId);
+  }
+
+  // A staff member is blocked by their own bookings and by unassigned ones
+  if (staffMemberId) {
+    query = query.or(`staff_member_id.eq.${staffMemberId},staff_member_id.is.null`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to check for overlapping appointments: ${error.message}`);
+  }
+
+  const candidate = {
+    start: startDate.getTime(),
+    end: endDate.getTime(),
+    before: shape.bufferBeforeMinutes * 60_000,
+    after: shape.bufferAfterMinutes * 60_000,
+  };
+
+  return ((data ?? []) as {
+    start_time: string;
+    end_time: string;
+    buffer_before_minutes: number | null;
+    buffer_after_minutes: number | null;
+  }[]).some((appt) =>
+    bookingsOverlap(candidate, {
+      start: new Date(appt.start_time).getTime(),
+      end: new Date(appt.end_time).getTime(),
+      before: (appt.buffer_before_minutes ?? 0) * 60_000,
+      after: (appt.buffer_after_minutes ?? 0) * 60_000,
+    })
+  );
+}
+
+// ─── Staff helpers ──────────────────────────────────────────────────────────
+
+type StaffLookup =
+  | { ok: true; candidates: StaffMember[] | null; requested: StaffMember | null }
+  | { ok: false; result: ToolResult };
+
+/**
+ * Work out who can take the booking. Orgs without staff get null candidates
+ * (the business is one calendar). Otherwise candidates are the staff who
+ * perform the service, narrowed to one person when the caller asked for them.
+ */
+async function resolveStaff(
+  organizationId: string,
+  service: BookableService | null,
+  requested: string | undefined
+): Promise<StaffLookup> {
+  let staff: StaffMember[];
+  try {
+    staff = await loadStaff(createAdminClient(), organizationId);
+  } catch (error: any) {
+    console.error("Failed to load staff:", { organizationId, message: error.message });
+    return {
+      ok: false,
+      result: {
+        success: false,
+        message:
+          "I'm having trouble accessing our schedule right now. Let me take your information and have someone call you back.",
+      },
+    };
+  }
+
+  if (staff.length === 0) return { ok: true, candidates: null, requested: null };
+
+  const pool =
+    service && service.staff.length > 0
+      ? staff.filter((member) => service.staff.some((s) => s.id === member.id))
+      : staff;
+
+  if (pool.length === 0) return { ok: true, candidates: null, requested: null };
+  if (wantsAnyStaff(requested)) return { ok: true, candidates: pool, requested: null };
+
+  const match = findStaffMember(pool, requested!);
+  if (match) return { ok: true, candidates: [match], requested: match };
+
+  const elsewhere = findStaffMember(staff, requested!);
+  const names = listServicesForVoice(pool);
+  return {
+    ok: false,
+    result: {
+      success: false,
+      message:
+        elsewhere && service
+          ? `I'm sorry, ${elsewhere.name} doesn't do ${service.name} appointments. That's available with ${names}. Would one of them work, or would you like anyone available?`
+          : `I'm sorry, I couldn't find anyone by that name. You can book with ${names}, or with anyone available. Who would you prefer?`,
+    },
+  };
+}
+
+/**
+ * Whether a staff member can take [startDate, endDate): inside their hours,
+ * not on time off, and clear of their own and unassigned bookings.
+ */
+async function isStaffFree(
+  organizationId: string,
+  schedule: OrgSchedule | null,
+  member: StaffMember,
+  startDate: Date,
+  endDate: Date,
+  shape: SlotShape,
+  excludeAppointmentId?: string
+): Promise<boolean> {
+  if (schedule && checkBusinessHours(scheduleFor(schedule, member), startDate, shape.durationMinutes)) {
+    return false;
+  }
+
+  const timeOff = await loadTimeOff(
+    createAdminClient(),
+    [member.id],
+    new Date(startDate.getTime() - shape.bufferBeforeMinutes * 60_000),
+    new Date(endDate.getTime() + shape.bufferAfterMinutes * 60_000)
+  );
+  if (timeOff.length > 0) return false;
+
+  return !(await hasBufferConflict(organizationId, startDate, endDate, shape, excludeAppointmentId, member.id));
+}
+
+// ─── Calendar provider helpers ──────────────────────────────────────────────
+
+type ProviderLookup =
+  | { ok: true; provider: CalendarProvider | null }
+  | { ok: false; result: ToolResult };
+
+/**
+ * Resolve the org's calendar provider, turning a broken integration into a
+ * voice-ready failure rather than quietly falling back to built-in booking.
+ */
+async function loadCalendarProvider(
+  organizationId: string,
+  failureMessage: string
+): Promise<ProviderLookup> {
+  try {
+    return { ok: true, provider: await getCalendarProvider(organizationId) };
+  } catch (error: any) {
+    console.error("Failed to load calendar provider:", { organizationId, message: error.message });
+    return { ok: false, result: { success: false, message: failureMessage } };
+  }
+}
+
+async function bookViaProvider(
+  provider: CalendarProvider,
+  organizationId: string,
+  datetime: string,
+  sanitizedName: string,
+  phone: string,
+  email: string | undefined,
+  sanitizedNotes: string | undefined,
+  service: BookableService | null
+): Promise<ToolResult> {
+  const supabase = createAdminClient();
+
+  try {
+    // Fetch org timezone to ensure naive datetime gets proper offset
+    const schedule = await getOrgSchedule(organizationId).catch(() => null);
+    const timezone = schedule?.timezone || "America/New_York";
+    const shape = slotShapeFor(schedule, service);
+    const { durationMinutes } = shape;
+    const tzAwareDatetime = ensureTimezoneOffset(datetime, timezone);
+
+    const startDate = new Date(tzAwareDatetime);
+    if (isNaN(startDate.getTime())) {
+      return {
+        success: false,
+        message:
+          "I didn't understand that date and time. Could you say it again?",
+      };
+    }
+
+    // Plain calendars have no bookable hours of their own — apply ours
+    if (schedule && !provider.managesAvailability) {
+      const hoursError = checkBusinessHours(schedule, startDate, durationMinutes);
+      if (hoursError) return { success: false, message: hoursError };
+    }
+
+    const bookingEmail =
+      email || `booking-${crypto.randomUUID()}@noreply.holarecep.com`;
+
+    const booking = await provider.createBooking({
+      organizationId,
+      start: tzAwareDatetime,
+      durationMinutes,
+      timezone,
+      name: sanitizedName,
+      email: bookingEmail,
+      phone,
+      notes: sanitizedNotes,
+    });
+
+    // Record in our database — roll back the external booking if this fails
+    const { data: appointment, error: dbError } = await (supabase as any)
+      .from("appointments")
+      .insert({
+        organization_id: organizationId,
+        external_id: booking.externalId,
+        provider: provider.id,
+        event_type: service?.name ?? null,
+        service_id: service?.id ?? null,
+        attendee_name: sanitizedName,
+        attendee_phone: phone,
+        attendee_email: bookingEmail,
+        start_time: tzAwareDatetime,
+        end_time: booking.endTime,
+        duration_minutes: durationMinutes,
+        buffer_before_minutes: shape.bufferBeforeMinutes,
+        buffer_after_minutes: shape.bufferAfterMinutes,
+        status: "confirmed",
+        notes: sanitizedNotes,
+        metadata: booking.metadata,
+      })
+      .select("id")
+      .single();
+
+    if (dbError) {
+      console.error("Failed to record appointment locally, rolling back external booking:", dbError);
+      try {
+        await provider.cancelBooking(
+          { externalId: booking.externalId, metadata: booking.metadata },
+          "Internal system error - rollback"
+        );
+      } catch (rollbackErr) {
+        console.error("CRITICAL: Failed to rollback external booking after DB failure:", { provider: provider.id, error: rollbackErr });
+      }
+      return {
+        success: false,
+        message:
+          "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+      };
+    }
+
+    // Send notification
+    sendNotification(organizationId, phone, sanitizedName, startDate, timezone);
+    sendAppointmentWebhook(organizationId, "appointment.booked", {
+      appointment_id: appointment?.id ?? null,
+      external_id: booking.externalId,
+      provider: provider.id,
+      status: "confirmed",
+      service: service?.name ?? null,
+      attendee_name: sanitizedName,
+      attendee_phone: phone,
+      attendee_email: email ?? null,
+      start_time: startDate.toISOString(),
+      end_time: booking.endTime ?? null,
+      timezone,
+      notes: sanitizedNotes ?? null,
+    });
+
+    const { dateStr, timeStr } = formatDateTimeForVoice(startDate, timezone);
+
+    return {
+      success: true,
+      message: `I've booked your ${describeBookedService(service)} for ${dateStr} at ${timeStr}. Is there anything else I can help you with?`,
+      data: {
+        appointmentId: appointment?.id ?? null,
+        provider: provider.id,
+        externalId: booking.externalId,
+        service: service?.name ?? null,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+      },
+    };
+  } catch (error: any) {
+    if (error instanceof CalendarSlotUnavailableError) {
+      return {
+        success: false,
+        message:
+          "I'm sorry, that time slot is no longer available. Would you like me to check for other available times?",
+        data: { slotUnavailable: true },
+      };
+    }
+
+    console.error("Book appointment error:", { organizationId, provider: provider.id, message: error.message, stack: error.stack });
+    return {
+      success: false,
+      message:
+        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+    };
+  }
+}
+
+async function checkAvailabilityViaProvider(
+  provider: CalendarProvider,
+  organizationId: string,
+  date: string,
+  service: BookableService | null
+): Promise<ToolResult> {
+  try {
+    // Fetch org timezone so we can pass timezone-aware boundaries and format output
+    const schedule = await getOrgSchedule(organizationId).catch(() => null);
+    const timezone = schedule?.timezone || "America/New_York";
+
+    // The provider doesn't know about our holidays
+    const closure = specialClosureMessage(schedule, date);
+    if (closure) return { success: true, message: closure };
+
+    const startTime = ensureTimezoneOffset(`${date}T00:00:00`, timezone);
+    const endTime = ensureTimezoneOffset(`${date}T23:59:59`, timezone);
+
+    const availability = await provider.getAvailability({ start: startTime, end: endTime, timezone });
+
+    if (availability.type === "slots") {
+      return { success: true, message: formatAvailabilityForVoice(availability.days, timezone) };
+    }
+
+    // Busy blocks: offer business-hours slots that are free in both calendars
+    const shape = slotShapeFor(schedule, service);
+    const slots = await getBuiltInAvailability(organizationId, date, schedule, shape);
+    const freeSlots = removeBusySlots(slots, availability.busy, shape.durationMinutes, timezone, shape);
+
+    return { success: true, message: formatBuiltInAvailabilityForVoice(date, freeSlots, timezone) };
+  } catch (error: any) {
+    console.error("Check availability error:", { organizationId, date, provider: provider.id, message: error.message, stack: error.stack });
+    return {
+      success: false,
+      message:
+        "I'm having trouble checking the calendar right now. Would you like me to take your information instead?",
+    };
+  }
+}
+
+// ─── Built-in booking helper ────────────────────────────────────────────────
+
+async function bookInternal(
+  organizationId: string,
+  datetime: string,
+  sanitizedName: string,
+  phone: string,
+  email: string | undefined,
+  sanitizedNotes: string | undefined,
+  service: BookableService | null,
+  staff: { candidates: StaffMember[] | null; requested: StaffMember | null }
+): Promise<ToolResult> {
+  const supabase = createAdminClient();
+
+  // 1. Validate against business hours (fetch schedule first so we can apply TZ offset)
+  let schedule: OrgSchedule | null;
+  try {
+    schedule = await getOrgSchedule(organizationId);
+  } catch (error) {
+    console.error("Failed to get org schedule for booking:", { organizationId, error });
+    return {
+      success: false,
+      message:
+        "I'm having trouble accessing our schedule right now. Let me take your information and have someone call you back.",
+    };
+  }
+
+  const internalTimezone = schedule?.timezone || "America/New_York";
+  const shape = slotShapeFor(schedule, service);
+  const { durationMinutes } = shape;
+  // Ensure naive datetimes are interpreted in the org's timezone, not UTC
+  const tzAwareDatetime = ensureTimezoneOffset(datetime, internalTimezone);
+
+  const startDate = new Date(tzAwareDatetime);
+  if (isNaN(startDate.getTime())) {
+    return {
+      success: false,
+      message:
+        "I didn't understand that date and time. Could you say it again?",
+    };
+  }
+
+  const endDate = new Date(startDate.getTime() + durationMinutes * 60_000);
+
+  // "Anyone available" is checked against each candidate's own hours below
+  const anyStaff = !!staff.candidates && !staff.requested;
+  if (schedule && !anyStaff) {
+    const hoursError = checkBusinessHours(scheduleFor(schedule, staff.requested), startDate, durationMinutes);
+    if (hoursError) return { success: false, message: hoursError };
+  }
+
+  // With staff, book the first candidate who is free at that time
+  let staffMember: StaffMember | null = null;
+  try {
+    if (staff.candidates) {
+      for (const member of staff.candidates) {
+        if (await isStaffFree(organizationId, schedule, member, startDate, endDate, shape)) {
+          staffMember = member;
+          break;
+        }
+      }
+      if (!staffMember) {
+        const hoursError = !staff.requested && schedule && checkBusinessHours(schedule, startDate, durationMinutes);
+        return {
+          success: false,
+          message: staff.requested
+            ? `I'm sorry, ${staff.requested.name} isn't available at that time. Would you like me to check other times, or book with someone else?`
+            : hoursError ||
+              "I'm sorry, that time slot is no longer available. Would you like me to check for other available times?",
+          ...(!hoursError && { data: { slotUnavailable: true } }),
+        };
+      }
+    } else if (await hasBufferConflict(organizationId, startDate, endDate, shape)) {
+      return {
+        success: false,
+        message:
+          "I'm sorry, that time slot is no longer available. Would you like me to check for other available times?",
+        data: { slotUnavailable: true },
+      };
+    }
+  } catch (error: any) {
+    console.error("Failed to check appointment buffers:", { organizationId, message: error.message });
+    return {
+      success: false,
+      message:
+        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+    };
+  }
+
+  // 2. Insert appointment — the DB exclusion constraint (no_overlapping_appointments)
+  //    prevents double-bookings atomically, so we rely on INSERT failure for conflicts.
+  const bookingEmail =
+    email || `booking-${crypto.randomUUID()}@noreply.holarecep.com`;
+
+  const { data: appointment, error: dbError } = await (supabase as any)
+    .from("appointments")
+    .insert({
+      organization_id: organizationId,
+      provider: "internal",
+      event_type: service?.name ?? null,
+      service_id: service?.id ?? null,
+      staff_member_id: staffMember?.id ?? null,
+      attendee_name: sanitizedName,
+      attendee_phone: phone,
+      attendee_email: bookingEmail,
+      start_time: startDate.toISOString(),
+      end_time: endDate.toISOString(),
+      duration_minutes: durationMinutes,
+      buffer_before_minutes: shape.bufferBeforeMinutes,
+      buffer_after_minutes: shape.bufferAfterMinutes,
+      status: "confirmed",
+      notes: sanitizedNotes,
+      metadata: { source: "ai_receptionist" },
+    })
+    .select("id")
     .single();
 
-  if (integrationError && integrationError.code !== "PGRST116") {
-    console.error("Failed to fetch calendar integration:", { organizationId, error: integrationError });
+  if (dbError) {
+    // Exclusion constraint violation = overlapping appointment
+    if (dbError.code === "23P01") {
+      return {
+        success: false,
+        message:
+          "I'm sorry, that time slot is no longer available. Would you like me to check for other available times?",
+        data: { slotUnavailable: true },
+      };
+    }
+    console.error("Failed to insert internal appointment:", dbError);
+    return {
+      success: false,
+      message:
+        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+    };
+  }
+
+  // 3. Send notification
+  const timezone = schedule?.timezone || "America/New_York";
+  sendNotification(organizationId, phone, sanitizedName, startDate, timezone);
+  sendAppointmentWebhook(organizationId, "appointment.booked", {
+    appointment_id: appointment.id,
+    external_id: null,
+    provider: "internal",
+    status: "confirmed",
+    service: service?.name ?? null,
+    staff: staffMember?.name ?? null,
+    attendee_name: sanitizedName,
+    attendee_phone: phone,
+    attendee_email: email ?? null,
+    start_time: startDate.toISOString(),
+    end_time: endDate.toISOString(),
+    timezone,
+    notes: sanitizedNotes ?? null,
+  });
+  const { dateStr, timeStr } = formatDateTimeForVoice(startDate, timezone);
+
+  return {
+    success: true,
+    message: `I've booked your ${describeBookedService(service)}${staffMember ? ` with ${staffMember.name}` : ""} for ${dateStr} at ${timeStr}. Is there anything else I can help you with?`,
+    data: {
+      appointmentId: appointment.id,
+      service: service?.name ?? null,
+      staff: staffMember?.name ?? null,
+      startTime: startDate.toISOString(),
+      endTime: endDate.toISOString(),
+    },
+  };
+}
+
+// ─── Recurring booking helpers ──────────────────────────────────────────────
+
+type RecurrenceLookup =
+  | { ok: true; rule: RecurrenceRule | null }
+  | { ok: false; result: ToolResult };
+
+/**
+ * Turn the tool's recurrence/occurrences arguments into a rule. No
+ * recurrence (or a single occurrence) is an ordinary one-off booking.
+ */
+function resolveRecurrence(
+  recurrence: string | undefined,
+  occurrences: number | string | undefined
+): RecurrenceLookup {
+  if (!recurrence && occurrences === undefined) return { ok: true, rule: null };
+
+  const frequency = normalizeFrequency(recurrence);
+  if (!frequency) {
     return {
-      success: false,
-      message: "I'm having trouble accessing the calendar right now. Would you like me to take your information instead?",
+      ok: false,
+      result: {
+        success: false,
+        message: "How often should the appointment repeat: every week, every two weeks or every month?",
+      },
+    };
+  }
+
+  const count = typeof occurrences === "string" ? parseInt(occurrences, 10) : occurrences;
+  if (!count || !Number.isInteger(count) || count < 1) {
+    return {
+      ok: false,
+      result: {
+        success: false,
+        message: "How many appointments would you like in total, including the first one?",
+      },
+    };
+  }
+
+  if (count > MAX_OCCURRENCES) {
+    return {
+      ok: false,
+      result: {
+        success: false,
+        message: `I can book up to ${MAX_OCCURRENCES} appointments at a time. How many would you like?`,
+      },
     };
   }
 
-  if (!integration || !integration.calendar_id) {
+  return { ok: true, rule: count === 1 ? null : { frequency, count } };
+}
+
+interface OccurrenceConflict {
+  /** Local date of the occurrence, "YYYY-MM-DD" */
+  date: string;
+  reason: "closed" | "outside_hours" | "unavailable";
+}
+
+/**
+ * Why one occurrence can't be booked with `member` (or on the business
+ * calendar when null), or null when it's free.
+ */
+async function occurrenceConflict(
+  organizationId: string,
+  schedule: OrgSchedule | null,
+  member: StaffMember | null,
+  startDate: Date,
+  endDate: Date,
+  shape: SlotShape
+): Promise<OccurrenceConflict["reason"] | null> {
+  if (schedule) {
+    const memberSchedule = scheduleFor(schedule, member);
+    if (!getHoursForDate(memberSchedule, getDateInTimezone(startDate, schedule.timezone))) {
+      return "closed";
+    }
+    if (checkBusinessHours(memberSchedule, startDate, shape.durationMinutes)) {
+      return "outside_hours";
+    }
+  }
+
+  const free = member
+    ? await isStaffFree(organizationId, schedule, member, startDate, endDate, shape)
+    : !(await hasBufferConflict(organizationId, startDate, endDate, shape));
+  return free ? null : "unavailable";
+}
+
+/** "Tuesday, March 3, Tuesday, March 10 and Tuesday, March 17" */
+function listDatesForVoice(dates: Date[], timezone: string): string {
+  const labels = dates.map((d) => formatDateTimeForVoice(d, timezone).dateStr);
+  if (labels.length <= 1) return labels.join("");
+  return `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * Book every occurrence of a recurring appointment with one staff member
+ * (or on the business calendar). All dates are checked before anything is
+ * written: unless the caller agreed to skip them, any conflict books nothing
+ * and the failing dates are reported back so the agent can offer options.
+ */
+async function bookSeriesInternal(
+  organizationId: string,
+  datetime: string,
+  sanitizedName: string,
+  phone: string,
+  email: string | undefined,
+  sanitizedNotes: string | undefined,
+  service: BookableService | null,
+  staff: { candidates: StaffMember[] | null; requested: StaffMember | null },
+  rule: RecurrenceRule,
+  skipConflicts: boolean
+): Promise<ToolResult> {
+  const supabase = createAdminClient();
+
+  let schedule: OrgSchedule | null;
+  try {
+    schedule = await getOrgSchedule(organizationId);
+  } catch (error) {
+    console.error("Failed to get org schedule for series booking:", { organizationId, error });
     return {
       success: false,
-      message: "The calendar system isn't fully set up yet.",
+      message:
+        "I'm having trouble accessing our schedule right now. Let me take your information and have someone call you back.",
     };
   }
 
-  const eventTypeId = parseInt(integration.calendar_id, 10);
-  if (isNaN(eventTypeId)) {
+  const timezone = schedule?.timezone || "America/New_York";
+  const shape = slotShapeFor(schedule, service);
+  const { durationMinutes } = shape;
+
+  const firstStart = new Date(ensureTimezoneOffset(datetime, timezone));
+  if (isNaN(firstStart.getTime())) {
     return {
       success: false,
-      message: "There's a configuration issue with the calendar.",
+      message:
+        "I didn't understand that date and time. Could you say it again?",
     };
   }
 
+  // Expand on local dates so 10 AM stays 10 AM across a DST change
+  const { h, m } = getTimeInTimezone(firstStart, timezone);
+  const localTime = `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:00`;
+  const occurrences = occurrenceDates(getDateInTimezone(firstStart, timezone), rule).map(
+    (date, index) => {
+      const start = new Date(ensureTimezoneOffset(`${date}T${localTime}`, timezone));
+      return { index, date, start, end: new Date(start.getTime() + durationMinutes * 60_000) };
+    }
+  );
+
+  // Keep the whole series with one person: the first candidate who is free
+  // on every date, otherwise whoever has the fewest conflicts
+  const lanes: (StaffMember | null)[] = staff.candidates ?? [null];
+  let best: { member: StaffMember | null; conflicts: OccurrenceConflict[] } | null = null;
   try {
-    // Fetch org timezone so we can pass timezone-aware boundaries and format output
-    const schedule = await getOrgSchedule(organizationId).catch(() => null);
-    const timezone = schedule?.timezone || "America/New_York";
+    for (const member of lanes) {
+      const conflicts: OccurrenceConflict[] = [];
+      for (const occurrence of occurrences) {
+        const reason = await occurrenceConflict(
+          organizationId,
+          schedule,
+          member,
+          occurrence.start,
+          occurrence.end,
+          shape
+        );
+        if (reason) conflicts.push({ date: occurrence.date, reason });
+      }
+      if (!best || conflicts.length < best.conflicts.length) best = { member, conflicts };
+      if (conflicts.length === 0) break;
+    }
+  } catch (error: any) {
+    console.error("Failed to check series availability:", { organizationId, message: error.message });
+    return {
+      success: false,
+      message:
+        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+    };
+  }
 
-    const startTime = ensureTimezoneOffset(`${date}T00:00:00`, timezone);
-    const endTime = ensureTimezoneOffset(`${date}T23:59:59`, timezone);
+  const { member: staffMember, conflicts } = best!;
+  const withStaff = staffMember ? ` with ${staffMember.name}` : "";
+  const conflictDates = new Set(conflicts.map((c) => c.date));
+  const toBook = occurrences.filter((o) => !conflictDates.has(o.date));
+  const conflictList = listDatesForVoice(
+    occurrences.filter((o) => conflictDates.has(o.date)).map((o) => o.start),
+    timezone
+  );
 
-    const availability = await calClient.getAvailability({
-      eventTypeId,
-      startTime,
-      endTime,
-    });
+  if (toBook.length === 0) {
+    return {
+      success: false,
+      message: `I'm sorry, none of those dates are available at that time${withStaff}. Would you like to try a different time or day?`,
+      data: { conflicts },
+    };
+  }
 
-    return { success: true, message: formatAvailabilityForVoice(availability, timezone) };
-  } catch (error: any) {
-    console.error("Check availability error:", { organizationId, date, message: error.message, stack: error.stack });
+  if (conflicts.length > 0 && !skipConflicts) {
+    return {
+      success: false,
+      message: `I can book ${toBook.length} of the ${rule.count} appointments${withStaff}, but ${conflictList} ${conflicts.length === 1 ? "isn't" : "aren't"} available at that time. Would you like me to book the other dates, or try a different time?`,
+      data: { conflicts },
+    };
+  }
+
+  const { data: series, error: seriesError } = await (supabase as any)
+    .from("appointment_series")
+    .insert({ organization_id: organizationId, frequency: rule.frequency, occurrences: rule.count })
+    .select("id")
+    .single();
+
+  if (seriesError || !series) {
+    console.error("Failed to create appointment series:", { organizationId, error: seriesError });
     return {
       success: false,
       message:
-        "I'm having trouble checking the calendar right now. Would you like me to take your information instead?",
+        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+    };
+  }
+
+  // One insert for every occurrence, so a clash on any of them (the
+  // no_overlapping_appointments constraint) books none
+  const bookingEmail =
+    email || `booking-${crypto.randomUUID()}@noreply.holarecep.com`;
+
+  const { data: inserted, error: dbError } = await (supabase as any)
+    .from("appointments")
+    .insert(
+      toBook.map((occurrence) => ({
+        organization_id: organizationId,
+        provider: "internal",
+        event_type: service?.name ?? null,
+        service_id: service?.id ?? null,
+        staff_member_id: staffMember?.id ?? null,
+        series_id: series.id,
+        series_index: occurrence.index,
+        attendee_name: sanitizedName,
+        attendee_phone: phone,
+        attendee_email: bookingEmail,
+        start_time: occurrence.start.toISOString(),
+        end_time: occurrence.end.toISOString(),
+        duration_minutes: durationMinutes,
+        buffer_before_minutes: shape.bufferBeforeMinutes,
+        buffer_after_minutes: shape.bufferAfterMinutes,
+        status: "confirmed",
+        notes: sanitizedNotes,
+        metadata: { source: "ai_receptionist" },
+      }))
+    )
+    .select("id, start_time, end_time");
+
+  if (dbError) {
+    // Nothing was booked, so don't leave an empty series behind
+    await (supabase as any).from("appointment_series").delete().eq("id", series.id);
+
+    if (dbError.code === "23P01") {
+      return {
+        success: false,
+        message:
+          "I'm sorry, one of those times was just taken. Would you like me to check the dates again?",
+      };
+    }
+    console.error("Failed to insert appointment series:", dbError);
+    return {
+      success: false,
+      message:
+        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
     };
   }
+
+  const rows = (inserted ?? []) as { id: string; start_time: string; end_time: string }[];
+
+  sendNotification(organizationId, phone, sanitizedName, toBook[0].start, timezone);
+  for (const row of rows) {
+    sendAppointmentWebhook(organizationId, "appointment.booked", {
+      appointment_id: row.id,
+      external_id: null,
+      provider: "internal",
+      status: "confirmed",
+      service: service?.name ?? null,
+      staff: staffMember?.name ?? null,
+      series_id: series.id,
+      attendee_name: sanitizedName,
+      attendee_phone: phone,
+      attendee_email: email ?? null,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      timezone,
+      notes: sanitizedNotes ?? null,
+    });
+  }
+
+  const { dateStr, timeStr } = formatDateTimeForVoice(toBook[0].start, timezone);
+  const what = service ? `${service.name} appointments` : "appointments";
+  const skipped = conflicts.length > 0 ? ` I've left out ${conflictList}.` : "";
+
+  return {
+    success: true,
+    message: `I've booked ${toBook.length} ${what}${withStaff} ${describeFrequency(rule.frequency)} at ${timeStr}, starting ${dateStr}.${skipped} Is there anything else I can help you with?`,
+    data: {
+      seriesId: series.id,
+      appointmentIds: rows.map((row) => row.id),
+      service: service?.name ?? null,
+      staff: staffMember?.name ?? null,
+      frequency: rule.frequency,
+      startTimes: toBook.map((o) => o.start.toISOString()),
+      conflicts,
+    },
+  };
 }
 
-// ─── Built-in booking helper ────────────────────────────────────────────────
+// ─── Reschedule helpers ─────────────────────────────────────────────────────
+
+interface AppointmentRow {
+  id: string;
+  external_id: string | null;
+  provider: string;
+  event_type: string | null;
+  call_id: string | null;
+  attendee_name: string | null;
+  attendee_phone: string;
+  attendee_email: string | null;
+  start_time: string;
+  end_time: string | null;
+  duration_minutes?: number | null;
+  service_id?: string | null;
+  staff_member_id?: string | null;
+  series_id?: string | null;
+  series_index?: number | null;
+  buffer_before_minutes?: number | null;
+  buffer_after_minutes?: number | null;
+  status: string;
+  notes: string | null;
+  metadata: Record<string, any> | null;
+}
 
-async function bookInternal(
+/**
+ * Move an appointment to a new start time. The original row is marked
+ * `rescheduled` and linked to a new confirmed row via rescheduled_to_id, so
+ * history and the call that booked it are preserved. External calendar
+ * bookings are moved upstream first and moved back if the local update fails.
+ */
+async function moveAppointment(
   organizationId: string,
+  appointment: AppointmentRow,
   datetime: string,
-  sanitizedName: string,
-  phone: string,
-  email: string | undefined,
-  sanitizedNotes: string | undefined
+  reason: string | undefined
 ): Promise<ToolResult> {
   const supabase = createAdminClient();
 
-  // 1. Validate against business hours (fetch schedule first so we can apply TZ offset)
   let schedule: OrgSchedule | null;
   try {
     schedule = await getOrgSchedule(organizationId);
   } catch (error) {
-    console.error("Failed to get org schedule for booking:", { organizationId, error });
+    console.error("Failed to get org schedule for reschedule:", { organizationId, error });
     return {
       success: false,
       message:
-        "I'm having trouble accessing our schedule right now. Let me take your information and have someone call you back.",
+        "I'm having trouble accessing our schedule right now. Would you like me to have someone call you back to move your appointment?",
     };
   }
 
-  const internalTimezone = schedule?.timezone || "America/New_York";
-  const durationMinutes = schedule?.defaultAppointmentDuration ?? DEFAULT_SLOT_DURATION_MINUTES;
-  // Ensure naive datetimes are interpreted in the org's timezone, not UTC
-  const tzAwareDatetime = ensureTimezoneOffset(datetime, internalTimezone);
+  const timezone = schedule?.timezone || "America/New_York";
+  const tzAwareDatetime = ensureTimezoneOffset(datetime, timezone);
 
   const startDate = new Date(tzAwareDatetime);
   if (isNaN(startDate.getTime())) {
@@ -880,96 +2457,265 @@ async function bookInternal(
     };
   }
 
-  const endDate = new Date(startDate.getTime() + durationMinutes * 60_000);
+  if (startDate.getTime() <= Date.now()) {
+    return {
+      success: false,
+      message: "That time has already passed. What later date and time would work for you?",
+    };
+  }
+
+  const previousStart = new Date(appointment.start_time);
+  if (startDate.getTime() === previousStart.getTime()) {
+    const { dateStr, timeStr } = formatDateTimeForVoice(previousStart, timezone);
+    return {
+      success: false,
+      message: `Your appointment is already booked for ${dateStr} at ${timeStr}. Did you want a different time?`,
+    };
+  }
+
+  // Keep the original length so a 60-minute visit stays 60 minutes
+  const previousEnd = appointment.end_time ? new Date(appointment.end_time) : null;
+  const durationMinutes =
+    appointment.duration_minutes ??
+    (previousEnd ? Math.round((previousEnd.getTime() - previousStart.getTime()) / 60_000) : null) ??
+    schedule?.defaultAppointmentDuration ??
+    DEFAULT_SLOT_DURATION_MINUTES;
+
+  // The appointment stays with the same person; their hours and time off apply
+  let staffMember: StaffMember | null = null;
+  if (appointment.staff_member_id && !appointment.external_id) {
+    try {
+      const staff = await loadStaff(supabase, organizationId);
+      staffMember = staff.find((m) => m.id === appointment.staff_member_id) ?? null;
+    } catch (error: any) {
+      console.error("Failed to load staff for reschedule:", { organizationId, message: error.message });
+      return {
+        success: false,
+        message:
+          "I'm having trouble accessing our schedule right now. Would you like me to have someone call you back to move your appointment?",
+      };
+    }
+  }
 
   if (schedule) {
-    const parts = new Intl.DateTimeFormat("en-US", {
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      timeZone: schedule.timezone,
-    }).formatToParts(startDate);
-    const yr = parts.find((p) => p.type === "year")!.value;
-    const mo = parts.find((p) => p.type === "month")!.value;
-    const da = parts.find((p) => p.type === "day")!.value;
-    const localDate = `${yr}-${mo}-${da}`;
-
-    const hours = getHoursForDate(schedule, localDate);
-
-    if (!hours) {
+    const hoursError = checkBusinessHours(scheduleFor(schedule, staffMember), startDate, durationMinutes);
+    if (hoursError) return { success: false, message: hoursError };
+  }
+
+  // Buffers travel with the booking, as they were when it was made
+  const shape: SlotShape = {
+    durationMinutes,
+    bufferBeforeMinutes: appointment.buffer_before_minutes ?? 0,
+    bufferAfterMinutes: appointment.buffer_after_minutes ?? 0,
+    stepMinutes: durationMinutes,
+  };
+
+  if (!appointment.external_id) {
+    try {
+      const newEnd = new Date(startDate.getTime() + durationMinutes * 60_000);
+      const available = staffMember
+        ? await isStaffFree(organizationId, schedule, staffMember, startDate, newEnd, shape, appointment.id)
+        : !(await hasBufferConflict(organizationId, startDate, newEnd, shape, appointment.id));
+      if (!available) {
+        return {
+          success: false,
+          message:
+            "I'm sorry, that time slot isn't available. Would you like me to check for other available times?",
+        };
+      }
+    } catch (error: any) {
+      console.error("Failed to check appointment buffers for reschedule:", { organizationId, message: error.message });
       return {
         success: false,
         message:
-          "I'm sorry, we're closed on that day. Would you like to pick a different date?",
+          "I'm having trouble moving the appointment right now. Would you like me to have someone call you back to help with this?",
       };
     }
+  }
 
-    // Extract hour:minute in the org's timezone, not the server's
-    const { h: reqH, m: reqM } = getTimeInTimezone(startDate, schedule.timezone);
-    const reqMinutes = reqH * 60 + reqM;
+  let endTime = new Date(startDate.getTime() + durationMinutes * 60_000).toISOString();
+  let externalId = appointment.external_id;
+  let metadata: Record<string, any> = { ...(appointment.metadata ?? {}) };
+  let rollbackExternal: (() => Promise<void>) | null = null;
+
+  // 1. Move the external booking first — the provider owns availability
+  if (appointment.external_id) {
+    const provider = await getCalendarProvider(organizationId).catch(() => null);
+    if (!provider || provider.id !== appointment.provider) {
+      console.error("Cannot reschedule external booking: its calendar provider is not connected", {
+        organizationId,
+        appointmentId: appointment.id,
+        externalId: appointment.external_id,
+        bookedWith: appointment.provider,
+        activeProvider: provider?.id ?? null,
+      });
+      return {
+        success: false,
+        message:
+          "I'm having trouble reaching the external calendar. Let me have someone follow up with you to move this appointment.",
+      };
+    }
 
-    if (validateBookingTime(reqMinutes, durationMinutes, hours.open, hours.close)) {
-      const openStr = formatTime(Math.floor(hours.open / 60), hours.open % 60);
-      const closeStr = formatTime(Math.floor(hours.close / 60), hours.close % 60);
+    try {
+      const booking = await provider.rescheduleBooking(
+        { externalId: appointment.external_id, metadata: appointment.metadata },
+        tzAwareDatetime,
+        durationMinutes,
+        timezone
+      );
+      externalId = booking.externalId;
+      endTime = booking.endTime || endTime;
+      metadata = { ...metadata, ...booking.metadata };
+      rollbackExternal = async () => {
+        await provider.rescheduleBooking(
+          { externalId: booking.externalId, metadata },
+          previousStart.toISOString(),
+          durationMinutes,
+          timezone
+        );
+      };
+    } catch (error: any) {
+      if (error instanceof CalendarSlotUnavailableError) {
+        return {
+          success: false,
+          message:
+            "I'm sorry, that time slot isn't available. Would you like me to check for other available times?",
+        };
+      }
+      console.error("External calendar reschedule error:", { organizationId, appointmentId: appointment.id, provider: provider.id, message: error.message });
       return {
         success: false,
-        message: `That time is outside our business hours. We're open from ${openStr} to ${closeStr}. Would you like to pick a time within those hours?`,
+        message:
+          "I'm having trouble moving the appointment right now. Would you like me to have someone call you back to help with this?",
       };
     }
   }
 
-  // 2. Insert appointment — the DB exclusion constraint (no_overlapping_appointments)
-  //    prevents double-bookings atomically, so we rely on INSERT failure for conflicts.
-  const bookingEmail =
-    email || `booking-${crypto.randomUUID()}@noreply.holarecep.com`;
+  const rollback = async () => {
+    if (!rollbackExternal) return;
+    try {
+      await rollbackExternal();
+    } catch (rollbackErr) {
+      console.error("CRITICAL: Failed to roll back external reschedule after DB failure:", {
+        organizationId,
+        appointmentId: appointment.id,
+        error: rollbackErr,
+      });
+    }
+  };
 
-  const { data: appointment, error: dbError } = await (supabase as any)
+  // 2. Release the old slot before inserting the new row, so the overlap
+  //    constraint doesn't treat a small shift as a clash with itself.
+  //    Guard on status so two concurrent reschedules can't both win.
+  const { data: released, error: releaseError } = await (supabase as any)
+    .from("appointments")
+    .update({ status: "rescheduled" })
+    .eq("id", appointment.id)
+    .eq("status", appointment.status)
+    .select("id");
+
+  if (releaseError || !released || released.length === 0) {
+    if (releaseError) console.error("Failed to mark appointment rescheduled:", releaseError);
+    await rollback();
+    return {
+      success: false,
+      message:
+        "I'm having trouble moving the appointment right now. Would you like me to have someone call you back to help with this?",
+    };
+  }
+
+  // 3. Insert the replacement booking
+  const { data: newAppointment, error: insertError } = await (supabase as any)
     .from("appointments")
     .insert({
       organization_id: organizationId,
-      provider: "internal",
-      attendee_name: sanitizedName,
-      attendee_phone: phone,
-      attendee_email: bookingEmail,
+      call_id: appointment.call_id,
+      external_id: externalId,
+      provider: appointment.provider,
+      event_type: appointment.event_type,
+      attendee_name: appointment.attendee_name,
+      attendee_phone: appointment.attendee_phone,
+      attendee_email: appointment.attendee_email,
       start_time: startDate.toISOString(),
-      end_time: endDate.toISOString(),
+      end_time: endTime,
       duration_minutes: durationMinutes,
+      service_id: appointment.service_id ?? null,
+      staff_member_id: appointment.staff_member_id ?? null,
+      series_id: appointment.series_id ?? null,
+      series_index: appointment.series_index ?? null,
+      buffer_before_minutes: shape.bufferBeforeMinutes,
+      buffer_after_minutes: shape.bufferAfterMinutes,
       status: "confirmed",
-      notes: sanitizedNotes,
-      metadata: { source: "ai_receptionist" },
+      notes: appointment.notes,
+      metadata: { ...metadata, rescheduleReason: reason ? sanitizeString(reason, 500) : undefined },
+      rescheduled_from_id: appointment.id,
     })
     .select("id")
     .single();
 
-  if (dbError) {
-    // Exclusion constraint violation = overlapping appointment
-    if (dbError.code === "23P01") {
+  if (insertError || !newAppointment) {
+    await (supabase as any)
+      .from("appointments")
+      .update({ status: appointment.status })
+      .eq("id", appointment.id);
+    await rollback();
+
+    if (insertError?.code === "23P01") {
       return {
         success: false,
         message:
           "I'm sorry, that time slot is no longer available. Would you like me to check for other available times?",
       };
     }
-    console.error("Failed to insert internal appointment:", dbError);
+    console.error("Failed to insert rescheduled appointment:", insertError);
     return {
       success: false,
       message:
-        "I'm having trouble completing the booking right now. Let me take your information and have someone call you back to confirm the appointment.",
+        "I'm having trouble moving the appointment right now. Would you like me to have someone call you back to help with this?",
     };
   }
 
-  // 3. Send notification
-  const timezone = schedule?.timezone || "America/New_York";
-  sendNotification(organizationId, phone, sanitizedName, startDate, timezone);
-  const { dateStr, timeStr } = formatDateTimeForVoice(startDate, timezone);
+  // 4. Link the old row to the new one
+  const { error: linkError } = await (supabase as any)
+    .from("appointments")
+    .update({ rescheduled_to_id: newAppointment.id })
+    .eq("id", appointment.id);
+
+  if (linkError) {
+    console.error("Failed to link rescheduled appointment:", { appointmentId: appointment.id, error: linkError });
+  }
+
+  sendAppointmentConfirmationSMS(organizationId, appointment.attendee_phone, startDate, timezone)
+    .catch((err) => console.error("Reschedule confirmation SMS failed:", { organizationId, error: err }));
+  sendAppointmentWebhook(organizationId, "appointment.rescheduled", {
+    appointment_id: newAppointment.id,
+    external_id: externalId,
+    provider: appointment.provider,
+    status: "confirmed",
+    service: appointment.event_type,
+    attendee_name: appointment.attendee_name,
+    attendee_phone: appointment.attendee_phone,
+    attendee_email: appointment.attendee_email,
+    start_time: startDate.toISOString(),
+    end_time: endTime,
+    timezone,
+    notes: appointment.notes,
+    previous_appointment_id: appointment.id,
+    previous_start_time: previousStart.toISOString(),
+    previous_end_time: appointment.end_time,
+  });
+
+  const previous = formatDateTimeForVoice(previousStart, timezone);
+  const next = formatDateTimeForVoice(startDate, timezone);
 
   return {
     success: true,
-    message: `I've booked your appointment for ${dateStr} at ${timeStr}. Is there anything else I can help you with?`,
+    message: `I've moved your appointment from ${previous.dateStr} at ${previous.timeStr} to ${next.dateStr} at ${next.timeStr}. Is there anything else I can help you with?`,
     data: {
-      appointmentId: appointment.id,
+      appointmentId: newAppointment.id,
+      previousAppointmentId: appointment.id,
       startTime: startDate.toISOString(),
-      endTime: endDate.toISOString(),
+      endTime,
     },
   };
 }
@@ -1002,3 +2748,16 @@ function sendNotification(
   sendAppointmentConfirmationSMS(organizationId, phone, appointmentDate, timezone)
     .catch((err) => console.error("Appointment confirmation SMS failed:", { organizationId, error: err }));
 }
+
+/**
+ * Fan an appointment lifecycle event out to the org's Zapier/Make/webhook
+ * integrations. Fire-and-forget like the notifications above.
+ */
+function sendAppointmentWebhook<E extends AppointmentEvent>(
+  organizationId: string,
+  event: E,
+  data: WebhookEventDataMap[E]
+) {
+  deliverWebhookEvent(organizationId, buildWebhookPayload(event, data))
+    .catch((err) => console.error("[Webhooks] Failed to deliver appointment event:", { organizationId, event, error: err }));
+}
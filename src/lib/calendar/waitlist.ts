@@ -0,0 +1,244 @@
+/**
+ * Waitlist
+ *
+ * Callers who couldn't find a slot can wait for one in a date range. When an
+ * appointment is cancelled, the freed slot is texted to the matching callers
+ * in the order they joined, and the first to reply YES is booked into it
+ * (see handleWaitlistReply in tool-handlers).
+ */
+
+import { sendWaitlistOfferSMS } from "@/lib/sms/caller-sms";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+/** How many waiting callers are texted about one freed slot */
+export const MAX_OFFERS_PER_SLOT = 5;
+
+/** An unanswered offer lapses after this long and the caller can be offered another slot */
+export const OFFER_WINDOW_HOURS = 2;
+
+/** Longest date range a caller can wait for */
+export const MAX_WAITLIST_DAYS = 60;
+
+export interface WaitlistEntry {
+  id: string;
+  callerName: string;
+  callerPhone: string;
+  serviceId: string | null;
+  staffMemberId: string | null;
+  earliestDate: string;
+  latestDate: string;
+  notes: string | null;
+  offerAppointmentId: string | null;
+  offerStartTime: string | null;
+  offerService: string | null;
+  offerStaff: string | null;
+  offeredAt: string | null;
+}
+
+/** A slot freed by a cancellation */
+export interface FreedSlot {
+  appointmentId: string;
+  start: Date;
+  /** Local date of the slot in the org's timezone (YYYY-MM-DD) */
+  date: string;
+  timezone: string;
+  serviceId: string | null;
+  serviceName: string | null;
+  staffMemberId: string | null;
+}
+
+interface WaitlistRow {
+  id: string;
+  caller_name: string;
+  caller_phone: string;
+  service_id: string | null;
+  staff_member_id: string | null;
+  earliest_date: string;
+  latest_date: string;
+  notes: string | null;
+  offer_appointment_id: string | null;
+  offer_start_time: string | null;
+  offer_service: string | null;
+  offer_staff: string | null;
+  offered_at: string | null;
+}
+
+const ENTRY_COLUMNS =
+  "id, caller_name, caller_phone, service_id, staff_member_id, earliest_date, latest_date, notes, offer_appointment_id, offer_start_time, offer_service, offer_staff, offered_at";
+
+function toEntry(row: WaitlistRow): WaitlistEntry {
+  return {
+    id: row.id,
+    callerName: row.caller_name,
+    callerPhone: row.caller_phone,
+    serviceId: row.service_id,
+    staffMemberId: row.staff_member_id,
+    earliestDate: row.earliest_date,
+    latestDate: row.latest_date,
+    notes: row.notes,
+    offerAppointmentId: row.offer_appointment_id,
+    offerStartTime: row.offer_start_time,
+    offerService: row.offer_service,
+    offerStaff: row.offer_staff,
+    offeredAt: row.offered_at,
+  };
+}
+
+/** Offer fields cleared when an entry goes back to waiting */
+export const CLEARED_OFFER = {
+  status: "waiting",
+  offer_appointment_id: null,
+  offer_start_time: null,
+  offer_service: null,
+  offer_staff: null,
+  offered_at: null,
+};
+
+function offerCutoff(now: Date): string {
+  return new Date(now.getTime() - OFFER_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+// "yes", "y", "yes please", "yep", "book it", "ok"
+const YES_PATTERN = /^(y|yes|yes please|yes pls|yep|yeah|yea|sure|ok|okay|book it|book me in)$/;
+
+/** True when an SMS reply accepts an offer */
+export function isYesReply(body: string): boolean {
+  return YES_PATTERN.test(body.trim().toLowerCase().replace(/[.!]+$/, ""));
+}
+
+/**
+ * Whether two phone numbers are the same line. Callers give local numbers
+ * on the phone ("0412 345 678") while Twilio sends E.164 ("+61412345678"),
+ * so the last nine digits are compared.
+ */
+export function phonesMatch(a: string, b: string): boolean {
+  const da = a.replace(/\D/g, "");
+  const db = b.replace(/\D/g, "");
+  if (da.length < 9 || db.length < 9) return da.length > 0 && da === db;
+  return da.slice(-9) === db.slice(-9);
+}
+
+/**
+ * Whether a waiting entry wants this slot: inside its dates, and the same
+ * service and staff member when it asked for one.
+ */
+export function entryWantsSlot(
+  entry: Pick<WaitlistEntry, "earliestDate" | "latestDate" | "serviceId" | "staffMemberId">,
+  slot: Pick<FreedSlot, "date" | "serviceId" | "staffMemberId">
+): boolean {
+  if (slot.date < entry.earliestDate || slot.date > entry.latestDate) return false;
+  if (entry.serviceId && entry.serviceId !== slot.serviceId) return false;
+  if (entry.staffMemberId && entry.staffMemberId !== slot.staffMemberId) return false;
+  return true;
+}
+
+/**
+ * Text a freed slot to the waiting callers who want it, oldest first.
+ * Callers with an unanswered offer that has lapsed count as waiting again.
+ * Returns how many offers were sent.
+ */
+export async function offerSlotToWaitlist(
+  supabase: SupabaseAny,
+  organizationId: string,
+  slot: FreedSlot,
+  now: Date = new Date()
+): Promise<number> {
+  if (slot.start.getTime() <= now.getTime()) return 0;
+
+  const { data, error } = await supabase
+    .from("waitlist_entries")
+    .select(ENTRY_COLUMNS)
+    .eq("organization_id", organizationId)
+    .or(`status.eq.waiting,and(status.eq.offered,offered_at.lt.${offerCutoff(now)})`)
+    .lte("earliest_date", slot.date)
+    .gte("latest_date", slot.date)
+    .order("created_at", { ascending: true })
+    .limit(50);
+
+  if (error) {
+    throw new Error(`Failed to load waitlist: ${error.message}`);
+  }
+
+  const entries = ((data ?? []) as WaitlistRow[])
+    .map(toEntry)
+    .filter((entry) => entryWantsSlot(entry, slot))
+    .slice(0, MAX_OFFERS_PER_SLOT);
+  if (entries.length === 0) return 0;
+
+  // Booking by staff name keeps the reply on the same person's calendar
+  let staffName: string | null = null;
+  if (slot.staffMemberId) {
+    const { data: member } = await supabase
+      .from("staff_members")
+      .select("name")
+      .eq("id", slot.staffMemberId)
+      .maybeSingle();
+    staffName = member?.name ?? null;
+  }
+
+  let sent = 0;
+  for (const entry of entries) {
+    const { error: updateError } = await supabase
+      .from("waitlist_entries")
+      .update({
+        status: "offered",
+        offer_appointment_id: slot.appointmentId,
+        offer_start_time: slot.start.toISOString(),
+        offer_service: slot.serviceName,
+        offer_staff: staffName,
+        offered_at: now.toISOString(),
+      })
+      .eq("id", entry.id);
+
+    if (updateError) {
+      console.error("Failed to record waitlist offer:", { organizationId, entryId: entry.id, error: updateError });
+      continue;
+    }
+
+    const result = await sendWaitlistOfferSMS(
+      organizationId,
+      entry.callerPhone,
+      slot.start,
+      slot.timezone,
+      slot.serviceName
+    );
+
+    if (result.sent) {
+      sent++;
+    } else {
+      // Opted out or rate limited: they can't accept, so leave them waiting
+      await supabase.from("waitlist_entries").update(CLEARED_OFFER).eq("id", entry.id);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * The caller's live offer: the most recent one that hasn't lapsed and whose
+ * slot is still ahead. Null when there isn't one.
+ */
+export async function findOpenOffer(
+  supabase: SupabaseAny,
+  organizationId: string,
+  phone: string,
+  now: Date = new Date()
+): Promise<WaitlistEntry | null> {
+  const { data, error } = await supabase
+    .from("waitlist_entries")
+    .select(ENTRY_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("status", "offered")
+    .gte("offered_at", offerCutoff(now))
+    .gt("offer_start_time", now.toISOString())
+    .order("offered_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load waitlist offers: ${error.message}`);
+  }
+
+  const match = ((data ?? []) as WaitlistRow[]).find((row) => phonesMatch(row.caller_phone, phone));
+  return match ? toEntry(match) : null;
+}
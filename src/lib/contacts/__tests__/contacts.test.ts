@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildContactTimeline,
+  contactDetailsFromCall,
+  contactPhoneKey,
+  normalizeTags,
+  MAX_CONTACT_TAGS,
+} from "../contacts";
+
+describe("contactPhoneKey", () => {
+  it("gives local and international forms of a number the same key", () => {
+    expect(contactPhoneKey("0412 345 678")).toBe("412345678");
+    expect(contactPhoneKey("+61412345678")).toBe("412345678");
+    expect(contactPhoneKey("(555) 123-4567")).toBe(contactPhoneKey("+15551234567"));
+  });
+
+  it("has no key for withheld numbers", () => {
+    expect(contactPhoneKey("anonymous")).toBeNull();
+    expect(contactPhoneKey(null)).toBeNull();
+    expect(contactPhoneKey("")).toBeNull();
+  });
+});
+
+describe("contactDetailsFromCall", () => {
+  it("prefers the analysed caller name", () => {
+    expect(contactDetailsFromCall("Jane Doe", { full_name: "J Doe" }).name).toBe("Jane Doe");
+  });
+
+  it("falls back to collected name fields", () => {
+    expect(contactDetailsFromCall(null, { full_name: " Jane Doe " }).name).toBe("Jane Doe");
+    expect(contactDetailsFromCall(undefined, { first_name: "Jane", last_name: "Doe" }).name).toBe("Jane Doe");
+    expect(contactDetailsFromCall(null, null).name).toBeNull();
+  });
+
+  it("keeps only valid emails", () => {
+    expect(contactDetailsFromCall(null, { email_address: "Jane@Example.com" }).email).toBe("jane@example.com");
+    expect(contactDetailsFromCall(null, { email: "jane at example dot com" }).email).toBeNull();
+  });
+});
+
+describe("normalizeTags", () => {
+  it("trims and drops empty and duplicate tags", () => {
+    expect(normalizeTags([" VIP ", "vip", "", "new patient"])).toEqual(["VIP", "new patient"]);
+  });
+
+  it("caps the number of tags", () => {
+    const tags = Array.from({ length: 30 }, (_, i) => `tag-${i}`);
+    expect(normalizeTags(tags)).toHaveLength(MAX_CONTACT_TAGS);
+  });
+});
+
+describe("buildContactTimeline", () => {
+  it("merges records newest first", () => {
+    const timeline = buildContactTimeline({
+      calls: [{ id: "c1", created_at: "2026-03-01T10:00:00Z", status: "completed", summary: null, duration_seconds: 60 }],
+      appointments: [
+        { id: "a1", created_at: "2026-03-01T10:02:00Z", status: "confirmed", start_time: "2026-03-05T10:00:00Z", event_type: null },
+      ],
+      messages: [{ id: "m1", created_at: "2026-03-02T09:00:00Z", direction: "inbound", author: "caller", body: "Running late" }],
+      notes: [{ id: "n1", created_at: "2026-02-20T12:00:00Z", body: "Prefers mornings" }],
+    });
+
+    expect(timeline.map((item) => `${item.type}:${item.id}`)).toEqual([
+      "message:m1",
+      "appointment:a1",
+      "call:c1",
+      "note:n1",
+    ]);
+  });
+});
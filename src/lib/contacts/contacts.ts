@@ -0,0 +1,209 @@
+/**
+ * Contacts
+ *
+ * One profile per caller phone number, upserted after every call from the
+ * caller's number, name and collected data. Calls, appointments and text
+ * threads link to it (see the set_contact_from_phone trigger and
+ * link_contact_records in the contacts migration), so the contact page can
+ * show a caller's whole history and the voice server can greet returning
+ * callers.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+/** Most tags a contact can have */
+export const MAX_CONTACT_TAGS = 20;
+
+/** Longest tag */
+export const MAX_TAG_LENGTH = 30;
+
+export interface CallContactInput {
+  organizationId: string;
+  callId: string | null;
+  callerPhone: string | null | undefined;
+  callerName?: string | null;
+  collectedData?: Record<string, unknown> | null;
+  calledAt?: Date;
+}
+
+export type TimelineItem =
+  | { type: "call"; at: string; id: string; status: string; summary: string | null; durationSeconds: number | null }
+  | { type: "appointment"; at: string; id: string; status: string; startTime: string; service: string | null }
+  | { type: "message"; at: string; id: string; direction: "inbound" | "outbound"; author: string; body: string }
+  | { type: "note"; at: string; id: string; body: string };
+
+/**
+ * Key used to match the same caller across number formats: the last nine
+ * digits (all of them for short numbers). Null when the number has no
+ * digits, e.g. "anonymous" or "Unknown".
+ * Mirrors contact_phone_key() in the contacts migration.
+ */
+export function contactPhoneKey(phone: string | null | undefined): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  if (!digits) return null;
+  return digits.slice(-9);
+}
+
+function stringValue(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Name and email for the contact from what the assistant collected on the
+ * call. The analysed caller name wins over collected fields.
+ */
+export function contactDetailsFromCall(
+  callerName: string | null | undefined,
+  collectedData: Record<string, unknown> | null | undefined
+): { name: string | null; email: string | null } {
+  const data = collectedData ?? {};
+  const firstLast = [stringValue(data.first_name), stringValue(data.last_name)].filter(Boolean).join(" ");
+  const name =
+    stringValue(callerName) ??
+    stringValue(data.full_name) ??
+    stringValue(data.name) ??
+    (firstLast || null);
+
+  const emailCandidate = stringValue(data.email_address) ?? stringValue(data.email);
+  const email = emailCandidate && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailCandidate) ? emailCandidate.toLowerCase() : null;
+
+  return { name: name ? name.substring(0, 100) : null, email };
+}
+
+/** Trim, drop empties and case-insensitive duplicates, and cap count and length */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim().substring(0, MAX_TAG_LENGTH);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+    if (result.length === MAX_CONTACT_TAGS) break;
+  }
+  return result;
+}
+
+/** A contact's calls, appointments, texts and notes, newest first */
+export function buildContactTimeline(records: {
+  calls: { id: string; created_at: string; status: string; summary: string | null; duration_seconds: number | null }[];
+  appointments: { id: string; created_at: string; status: string; start_time: string; event_type: string | null }[];
+  messages: { id: string; created_at: string; direction: "inbound" | "outbound"; author: string; body: string }[];
+  notes: { id: string; created_at: string; body: string }[];
+}): TimelineItem[] {
+  const items: TimelineItem[] = [
+    ...records.calls.map((c): TimelineItem => ({
+      type: "call",
+      at: c.created_at,
+      id: c.id,
+      status: c.status,
+      summary: c.summary,
+      durationSeconds: c.duration_seconds,
+    })),
+    ...records.appointments.map((a): TimelineItem => ({
+      type: "appointment",
+      at: a.created_at,
+      id: a.id,
+      status: a.status,
+      startTime: a.start_time,
+      service: a.event_type,
+    })),
+    ...records.messages.map((m): TimelineItem => ({
+      type: "message",
+      at: m.created_at,
+      id: m.id,
+      direction: m.direction,
+      author: m.author,
+      body: m.body,
+    })),
+    ...records.notes.map((n): TimelineItem => ({ type: "note", at: n.created_at, id: n.id, body: n.body })),
+  ];
+
+  return items.sort((a, b) => b.at.localeCompare(a.at));
+}
+
+/**
+ * Create or update the caller's contact after a call and link the call to
+ * it. Names and emails the caller gave only fill in blanks, so edits made on
+ * the contact page aren't overwritten. Returns the contact id, or null for
+ * callers without a usable number.
+ */
+export async function upsertContactFromCall(
+  supabase: SupabaseAny,
+  input: CallContactInput
+): Promise<string | null> {
+  const { organizationId, callId, callerPhone } = input;
+  const phoneKey = contactPhoneKey(callerPhone);
+  if (!callerPhone || !phoneKey) return null;
+
+  const { name, email } = contactDetailsFromCall(input.callerName, input.collectedData);
+  const calledAt = (input.calledAt ?? new Date()).toISOString();
+
+  const { data: existing, error: loadError } = await supabase
+    .from("contacts")
+    .select("id, name, email, call_count")
+    .eq("organization_id", organizationId)
+    .eq("phone_key", phoneKey)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(`Failed to load contact: ${loadError.message}`);
+  }
+
+  let contactId: string;
+  let isNew = false;
+
+  if (existing) {
+    contactId = existing.id;
+    const { error: updateError } = await supabase
+      .from("contacts")
+      .update({
+        call_count: (existing.call_count ?? 0) + 1,
+        last_call_at: calledAt,
+        ...(!existing.name && name && { name }),
+        ...(!existing.email && email && { email }),
+      })
+      .eq("id", contactId);
+    if (updateError) {
+      throw new Error(`Failed to update contact: ${updateError.message}`);
+    }
+  } else {
+    const { data: created, error: insertError } = await supabase
+      .from("contacts")
+      .insert({
+        organization_id: organizationId,
+        phone: callerPhone,
+        phone_key: phoneKey,
+        name,
+        email,
+        call_count: 1,
+        first_seen_at: calledAt,
+        last_call_at: calledAt,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      // Another call from the same number created it first: count this one on a retry
+      if (insertError.code === "23505") {
+        return upsertContactFromCall(supabase, input);
+      }
+      throw new Error(`Failed to create contact: ${insertError.message}`);
+    }
+    contactId = created.id;
+    isNew = true;
+  }
+
+  if (isNew) {
+    // Picks up this call too, and anything booked during it
+    const { error: linkError } = await supabase.rpc("link_contact_records", { p_contact_id: contactId });
+    if (linkError) {
+      console.error("[Contacts] Failed to link records to new contact:", { organizationId, contactId, error: linkError });
+    }
+  } else if (callId) {
+    await supabase.from("calls").update({ contact_id: contactId }).eq("id", callId).is("contact_id", null);
+  }
+
+  return contactId;
+}
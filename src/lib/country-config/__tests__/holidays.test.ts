@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { getPublicHolidays } from "../index";
+import { easterSunday, lastWeekday, nthWeekday, observedNextWeekday } from "../holidays";
+
+function dateOf(holidays: { date: string; name: string }[], name: string): string | undefined {
+  return holidays.find((h) => h.name === name)?.date;
+}
+
+describe("holiday date helpers", () => {
+  it("finds the nth and last weekday of a month", () => {
+    expect(nthWeekday(2026, 11, 4, 4)).toBe("2026-11-26"); // 4th Thursday
+    expect(nthWeekday(2026, 9, 1, 1)).toBe("2026-09-07"); // 1st Monday
+    expect(lastWeekday(2026, 5, 1)).toBe("2026-05-25"); // last Monday
+  });
+
+  it("computes Easter Sunday", () => {
+    expect(easterSunday(2025)).toBe("2025-04-20");
+    expect(easterSunday(2026)).toBe("2026-04-05");
+    expect(easterSunday(2027)).toBe("2027-03-28");
+  });
+
+  it("moves weekend holidays to the next free weekday", () => {
+    expect(observedNextWeekday("2027-12-25")).toBe("2027-12-27");
+    expect(observedNextWeekday("2027-12-26", ["2027-12-27"])).toBe("2027-12-28");
+  });
+});
+
+describe("getPublicHolidays", () => {
+  it("returns US federal holidays on their observed dates", () => {
+    const holidays = getPublicHolidays("US", 2026);
+    expect(holidays).toHaveLength(11);
+    expect(dateOf(holidays, "Thanksgiving Day")).toBe("2026-11-26");
+    // July 4, 2026 is a Saturday
+    expect(dateOf(holidays, "Independence Day")).toBe("2026-07-03");
+    expect(holidays.map((h) => h.date)).toEqual([...holidays.map((h) => h.date)].sort());
+  });
+
+  it("returns AU national holidays with Easter and substitute days", () => {
+    const holidays = getPublicHolidays("AU", 2026);
+    expect(dateOf(holidays, "Good Friday")).toBe("2026-04-03");
+    expect(dateOf(holidays, "Easter Monday")).toBe("2026-04-06");
+    expect(dateOf(holidays, "King's Birthday")).toBe("2026-06-08");
+    // Boxing Day 2026 is a Saturday
+    expect(dateOf(holidays, "Boxing Day")).toBe("2026-12-28");
+  });
+
+  it("shifts Boxing Day past a substituted Christmas", () => {
+    const holidays = getPublicHolidays("au", 2027);
+    expect(dateOf(holidays, "Christmas Day")).toBe("2027-12-27");
+    expect(dateOf(holidays, "Boxing Day")).toBe("2027-12-28");
+  });
+});
@@ -1,4 +1,12 @@
 import type { CountryConfig } from "../index";
+import {
+  addDays,
+  easterSunday,
+  isoDate,
+  nthWeekday,
+  observedNextWeekday,
+  sortHolidays,
+} from "../holidays";
 
 export const AU_CONFIG: CountryConfig = {
   code: "AU",
@@ -159,4 +167,21 @@ export const AU_CONFIG: CountryConfig = {
   locale: "en-AU",
   phoneProvider: "twilio",
   twilioCountryCode: "AU",
+  // National holidays only; state-specific days (Melbourne Cup, Labour Day,
+  // King's Birthday in WA/QLD) are added by hand.
+  publicHolidays(year: number) {
+    const easter = easterSunday(year);
+    const christmas = observedNextWeekday(isoDate(year, 12, 25));
+    return sortHolidays([
+      { date: observedNextWeekday(isoDate(year, 1, 1)), name: "New Year's Day" },
+      { date: observedNextWeekday(isoDate(year, 1, 26)), name: "Australia Day" },
+      { date: addDays(easter, -2), name: "Good Friday" },
+      { date: addDays(easter, -1), name: "Easter Saturday" },
+      { date: addDays(easter, 1), name: "Easter Monday" },
+      { date: isoDate(year, 4, 25), name: "Anzac Day" },
+      { date: nthWeekday(year, 6, 1, 2), name: "King's Birthday" },
+      { date: christmas, name: "Christmas Day" },
+      { date: observedNextWeekday(isoDate(year, 12, 26), [christmas]), name: "Boxing Day" },
+    ]);
+  },
 };
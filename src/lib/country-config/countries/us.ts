@@ -1,4 +1,11 @@
 import type { CountryConfig } from "../index";
+import {
+  isoDate,
+  lastWeekday,
+  nthWeekday,
+  observedNearestWeekday,
+  sortHolidays,
+} from "../holidays";
 
 export const US_CONFIG: CountryConfig = {
   code: "US",
@@ -144,4 +151,20 @@ export const US_CONFIG: CountryConfig = {
   locale: "en-US",
   phoneProvider: "twilio",
   twilioCountryCode: "US",
+  // Federal holidays (5 U.S.C. 6103)
+  publicHolidays(year: number) {
+    return sortHolidays([
+      { date: observedNearestWeekday(isoDate(year, 1, 1)), name: "New Year's Day" },
+      { date: nthWeekday(year, 1, 1, 3), name: "Martin Luther King Jr. Day" },
+      { date: nthWeekday(year, 2, 1, 3), name: "Presidents' Day" },
+      { date: lastWeekday(year, 5, 1), name: "Memorial Day" },
+      { date: observedNearestWeekday(isoDate(year, 6, 19)), name: "Juneteenth" },
+      { date: observedNearestWeekday(isoDate(year, 7, 4)), name: "Independence Day" },
+      { date: nthWeekday(year, 9, 1, 1), name: "Labor Day" },
+      { date: nthWeekday(year, 10, 1, 2), name: "Columbus Day" },
+      { date: observedNearestWeekday(isoDate(year, 11, 11)), name: "Veterans Day" },
+      { date: nthWeekday(year, 11, 4, 4), name: "Thanksgiving Day" },
+      { date: observedNearestWeekday(isoDate(year, 12, 25)), name: "Christmas Day" },
+    ]);
+  },
 };
@@ -0,0 +1,77 @@
+import type { PublicHoliday } from "./index";
+
+// Date helpers for the per-country public holiday presets. Everything works
+// on calendar dates (UTC midnight) and returns "YYYY-MM-DD" strings, so the
+// results don't depend on the server's timezone.
+
+export function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** nth (1-based) occurrence of a weekday (0 = Sunday) in a month */
+export function nthWeekday(year: number, month: number, dayOfWeek: number, n: number): string {
+  const first = isoDate(year, month, 1);
+  const offset = (dayOfWeek - weekday(first) + 7) % 7;
+  return addDays(first, offset + (n - 1) * 7);
+}
+
+/** Last occurrence of a weekday (0 = Sunday) in a month */
+export function lastWeekday(year: number, month: number, dayOfWeek: number): string {
+  const last = isoDate(year, month + 1, 0);
+  const offset = (weekday(last) - dayOfWeek + 7) % 7;
+  return addDays(last, -offset);
+}
+
+/** Easter Sunday (Gregorian calendar, anonymous algorithm) */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+}
+
+/** US rule: Saturday holidays are observed on Friday, Sunday ones on Monday */
+export function observedNearestWeekday(date: string): string {
+  const day = weekday(date);
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * AU rule: weekend holidays move to the following Monday. `taken` holds
+ * dates already used by other holidays (Christmas pushes Boxing Day to
+ * Tuesday).
+ */
+export function observedNextWeekday(date: string, taken: string[] = []): string {
+  let observed = date;
+  while (weekday(observed) === 0 || weekday(observed) === 6 || taken.includes(observed)) {
+    observed = addDays(observed, 1);
+  }
+  return observed;
+}
+
+export function sortHolidays(holidays: PublicHoliday[]): PublicHoliday[] {
+  return [...holidays].sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -33,6 +33,12 @@ export interface AreaCodeSuggestion {
   location: string;
 }
 
+export interface PublicHoliday {
+  /** Observed date, "YYYY-MM-DD" */
+  date: string;
+  name: string;
+}
+
 export interface CountryConfig {
   code: CountryCode;
   name: string;
@@ -46,6 +52,8 @@ export interface CountryConfig {
   locale: string;
   phoneProvider: "vapi" | "twilio";
   twilioCountryCode: string;
+  /** National public holidays for a year, on their observed dates */
+  publicHolidays(year: number): PublicHoliday[];
 }
 
 // ── Registry ───────────────────────────────────────────────────────
@@ -86,6 +94,10 @@ export function getTimezonesForCountry(countryCode: CountryCode | string = "US")
   return getCountryConfig(countryCode).timezones;
 }
 
+export function getPublicHolidays(countryCode: CountryCode | string, year: number): PublicHoliday[] {
+  return getCountryConfig(countryCode).publicHolidays(year);
+}
+
 export function formatInstructions(template: string, destinationNumber: string): string {
   return template.replace(/\{destination_number\}/g, destinationNumber);
 }
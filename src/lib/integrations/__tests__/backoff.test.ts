@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  getNextRetryAt,
+  shouldAutoPause,
+  RETRY_BACKOFF_MINUTES,
+  MAX_RETRIES,
+  AUTO_PAUSE_THRESHOLD,
+} from "../backoff";
+
+const MINUTE = 60 * 1000;
+const from = new Date("2025-06-01T12:00:00.000Z");
+
+describe("getNextRetryAt", () => {
+  it("follows the 1m, 5m, 30m, 2h, 12h schedule", () => {
+    const delays = RETRY_BACKOFF_MINUTES.map(
+      (_, retryCount) => (getNextRetryAt(retryCount, from)!.getTime() - from.getTime()) / MINUTE
+    );
+    expect(delays).toEqual([1, 5, 30, 120, 720]);
+  });
+
+  it("schedules the first retry one minute after the initial failure", () => {
+    expect(getNextRetryAt(0, from)?.toISOString()).toBe("2025-06-01T12:01:00.000Z");
+  });
+
+  it("returns null once MAX_RETRIES retries have been made", () => {
+    expect(getNextRetryAt(MAX_RETRIES, from)).toBeNull();
+    expect(getNextRetryAt(MAX_RETRIES + 3, from)).toBeNull();
+  });
+
+  it("returns null for a negative retry count", () => {
+    expect(getNextRetryAt(-1, from)).toBeNull();
+  });
+
+  it("defaults to scheduling from now", () => {
+    const before = Date.now();
+    const next = getNextRetryAt(0)!.getTime();
+    expect(next).toBeGreaterThanOrEqual(before + MINUTE);
+    expect(next).toBeLessThanOrEqual(Date.now() + MINUTE);
+  });
+});
+
+describe("shouldAutoPause", () => {
+  it("pauses at the threshold", () => {
+    expect(shouldAutoPause(AUTO_PAUSE_THRESHOLD - 1)).toBe(false);
+    expect(shouldAutoPause(AUTO_PAUSE_THRESHOLD)).toBe(true);
+    expect(shouldAutoPause(AUTO_PAUSE_THRESHOLD + 1)).toBe(true);
+  });
+});
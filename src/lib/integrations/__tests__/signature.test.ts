@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import crypto from "crypto";
+import {
+  buildSignatureHeader,
+  parseSignatureHeader,
+  verifyWebhookSignature,
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+} from "../signature";
+
+const body = '{"event":"call.completed","schema_version":2}';
+const t = 1718000000;
+
+describe("buildSignatureHeader", () => {
+  it("signs the timestamp and raw body together", () => {
+    const expected = crypto.createHmac("sha256", "secret").update(`${t}.${body}`).digest("hex");
+    expect(buildSignatureHeader(body, ["secret"], t)).toBe(`t=${t},v1=${expected}`);
+  });
+
+  it("adds one v1 signature per active secret", () => {
+    const header = buildSignatureHeader(body, ["new-secret", "old-secret"], t);
+    expect(parseSignatureHeader(header)?.signatures).toHaveLength(2);
+  });
+});
+
+describe("parseSignatureHeader", () => {
+  it("returns null without a timestamp", () => {
+    expect(parseSignatureHeader("v1=abc")).toBeNull();
+  });
+
+  it("returns null without a signature", () => {
+    expect(parseSignatureHeader(`t=${t}`)).toBeNull();
+  });
+
+  it("rejects the legacy bare-hex format", () => {
+    expect(parseSignatureHeader("a".repeat(64))).toBeNull();
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const header = buildSignatureHeader(body, ["secret"], t);
+
+  it("accepts a fresh, correctly signed payload", () => {
+    expect(verifyWebhookSignature(body, header, "secret", { now: t + 10 })).toEqual({
+      valid: true,
+      timestamp: t,
+    });
+  });
+
+  it("rejects a replay outside the tolerance window", () => {
+    const result = verifyWebhookSignature(body, header, "secret", {
+      now: t + DEFAULT_SIGNATURE_TOLERANCE_SECONDS + 1,
+    });
+    expect(result).toEqual({ valid: false, error: "timestamp_out_of_tolerance" });
+  });
+
+  it("honours a custom tolerance", () => {
+    expect(verifyWebhookSignature(body, header, "secret", { now: t + 60, toleranceSeconds: 30 }).valid).toBe(false);
+  });
+
+  it("rejects a tampered body", () => {
+    const result = verifyWebhookSignature(body.replace("2", "3"), header, "secret", { now: t });
+    expect(result).toEqual({ valid: false, error: "no_matching_signature" });
+  });
+
+  it("rejects a timestamp swapped onto an old signature", () => {
+    const forged = header.replace(`t=${t}`, `t=${t + 1000}`);
+    expect(verifyWebhookSignature(body, forged, "secret", { now: t + 1000 }).valid).toBe(false);
+  });
+
+  it("verifies with either secret during rotation", () => {
+    const rotating = buildSignatureHeader(body, ["new-secret", "old-secret"], t);
+    expect(verifyWebhookSignature(body, rotating, "new-secret", { now: t }).valid).toBe(true);
+    expect(verifyWebhookSignature(body, rotating, "old-secret", { now: t }).valid).toBe(true);
+    expect(verifyWebhookSignature(body, rotating, "other-secret", { now: t }).valid).toBe(false);
+  });
+
+  it("reports a missing header", () => {
+    expect(verifyWebhookSignature(body, null, "secret")).toEqual({ valid: false, error: "missing_header" });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { signPayload, buildCallPayload } from "../webhook-delivery";
+import { signPayload, buildCallPayload, buildWebhookPayload } from "../webhook-delivery";
+import { WEBHOOK_SCHEMA_VERSION, INTEGRATION_EVENTS, INTEGRATION_EVENT_VALUES } from "../types";
 import crypto from "crypto";
 
 describe("signPayload", () => {
@@ -77,6 +78,7 @@ describe("buildCallPayload", () => {
     expect(payload.data.outcome).toBeNull();
     expect(payload.data.recording_url).toBeNull();
     expect(payload.data.collected_data).toBeNull();
+    expect(payload.data.language).toBeNull();
   });
 
   it("includes a valid ISO timestamp", () => {
@@ -89,3 +91,49 @@ describe("buildCallPayload", () => {
     expect(date.toISOString()).toBe(payload.timestamp);
   });
 });
+
+describe("buildWebhookPayload", () => {
+  it("stamps every payload with the current schema version", () => {
+    const payload = buildCallPayload("call.completed", { callId: "abc", caller: "+1234567890" });
+    expect(payload.schema_version).toBe(WEBHOOK_SCHEMA_VERSION);
+  });
+
+  it("wraps appointment data in the shared envelope", () => {
+    const payload = buildWebhookPayload("appointment.cancelled", {
+      appointment_id: "appt-1",
+      external_id: null,
+      provider: "internal",
+      status: "cancelled",
+      attendee_name: "Jane Doe",
+      attendee_phone: "+61400000000",
+      attendee_email: null,
+      start_time: "2025-06-02T09:00:00.000Z",
+      end_time: "2025-06-02T09:30:00.000Z",
+      timezone: "Australia/Sydney",
+      notes: null,
+      cancellation_reason: "Feeling better",
+    });
+
+    expect(payload.event).toBe("appointment.cancelled");
+    expect(payload.schema_version).toBe(WEBHOOK_SCHEMA_VERSION);
+    expect(new Date(payload.timestamp).toISOString()).toBe(payload.timestamp);
+    expect(payload.data.cancellation_reason).toBe("Feeling better");
+  });
+
+  it("passes spam.blocked data through unchanged", () => {
+    const data = {
+      call_id: null,
+      caller_phone: "+15550001111",
+      spam_score: 92,
+      confidence: "high" as const,
+      reasons: ["Known robocaller"],
+    };
+    expect(buildWebhookPayload("spam.blocked", data).data).toEqual(data);
+  });
+});
+
+describe("integration events", () => {
+  it("offers a label for every event the API accepts", () => {
+    expect(INTEGRATION_EVENTS.map((e) => e.value).sort()).toEqual([...INTEGRATION_EVENT_VALUES].sort());
+  });
+});
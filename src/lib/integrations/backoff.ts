@@ -0,0 +1,21 @@
+// Delay before each automatic retry: 1m, 5m, 30m, 2h, 12h
+export const RETRY_BACKOFF_MINUTES = [1, 5, 30, 120, 720];
+
+export const MAX_RETRIES = RETRY_BACKOFF_MINUTES.length;
+
+// Dead-lettered deliveries in a row before the integration is paused
+export const AUTO_PAUSE_THRESHOLD = 3;
+
+/**
+ * When to attempt a failed delivery again, given how many retries it has
+ * already had. Returns null once the schedule is exhausted — the delivery
+ * should then be dead-lettered.
+ */
+export function getNextRetryAt(retryCount: number, from: Date = new Date()): Date | null {
+  if (retryCount < 0 || retryCount >= MAX_RETRIES) return null;
+  return new Date(from.getTime() + RETRY_BACKOFF_MINUTES[retryCount] * 60 * 1000);
+}
+
+export function shouldAutoPause(consecutiveFailures: number): boolean {
+  return consecutiveFailures >= AUTO_PAUSE_THRESHOLD;
+}
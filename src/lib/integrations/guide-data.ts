@@ -72,13 +72,15 @@ export const INTEGRATION_GUIDES: PlatformGuide[] = [
     steps: [
       'Click "Add Integration" and enter your server\'s endpoint URL.',
       "A signing secret will be auto-generated — use it to verify payloads.",
-      'Each delivery includes an "X-HolaRecep-Signature" header (HMAC-SHA256 of the body).',
-      "Verify the signature server-side to ensure the payload is authentic.",
+      'Each delivery includes an "X-HolaRecep-Signature: t=<unix time>,v1=<hex>" header — an HMAC-SHA256 of "<t>.<raw body>".',
+      "Verify the signature server-side and reject timestamps more than 5 minutes old to block replayed requests.",
+      'Use "Rotate secret" to replace the secret; for 24 hours each delivery carries a v1 signature for both the old and new secret.',
       'Click "Test" to send a sample payload and verify your endpoint responds with 2xx.',
     ],
-    payloadNote: `Example payload:
+    payloadNote: `Every event shares the same envelope (event, schema_version, timestamp, data); appointment.*, call.transferred and spam.blocked events carry their own data fields. Example payload:
 {
   "event": "call.completed",
+  "schema_version": 2,
   "timestamp": "2025-01-15T10:30:00Z",
   "data": {
     "call_id": "uuid",
@@ -90,15 +92,21 @@ export const INTEGRATION_GUIDES: PlatformGuide[] = [
     "assistant_name": "Dental Reception",
     "outcome": "completed",
     "recording_url": "https://...",
-    "collected_data": { "service": "cleaning", "preferred_date": "next Monday" }
+    "collected_data": { "service": "cleaning", "preferred_date": "next Monday" },
+    "language": "en"
   }
 }
 
 Signature verification (Node.js):
 const crypto = require('crypto');
-const signature = req.headers['x-holarecep-signature'];
-const expected = crypto.createHmac('sha256', SIGNING_SECRET).update(rawBody).digest('hex');
-if (signature !== expected) throw new Error('Invalid signature');`,
+const header = req.headers['x-holarecep-signature']; // "t=1718000000,v1=abc...,v1=def..."
+const parts = header.split(',').map((p) => p.split('='));
+const t = Number(parts.find(([k]) => k === 't')[1]);
+if (Math.abs(Date.now() / 1000 - t) > 300) throw new Error('Stale webhook');
+const expected = crypto.createHmac('sha256', SIGNING_SECRET).update(t + '.' + rawBody).digest('hex');
+const ok = parts.some(([k, v]) => k === 'v1' && v.length === expected.length &&
+  crypto.timingSafeEqual(Buffer.from(v), Buffer.from(expected)));
+if (!ok) throw new Error('Invalid signature');`,
   },
 ];
 
@@ -1,5 +1,41 @@
-export { deliverWebhooks, signPayload, buildCallPayload } from "./webhook-delivery";
-export { retryFailedWebhook } from "./retry";
+export {
+  deliverWebhooks,
+  deliverWebhookEvent,
+  signPayload,
+  buildCallPayload,
+  buildWebhookPayload,
+  getSigningSecrets,
+} from "./webhook-delivery";
+export {
+  buildSignatureHeader,
+  parseSignatureHeader,
+  verifyWebhookSignature,
+  SIGNATURE_HEADER,
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+} from "./signature";
+export type { SignatureVerification } from "./signature";
+export { retryFailedWebhook, processWebhookRetryQueue } from "./retry";
+export { getNextRetryAt, RETRY_BACKOFF_MINUTES, MAX_RETRIES, AUTO_PAUSE_THRESHOLD } from "./backoff";
 export { getRecommendedPlatforms, INTEGRATION_GUIDES, INDUSTRY_RECOMMENDATIONS, DISCOVERY_TIPS } from "./guide-data";
-export { SUPPORTED_PLATFORMS, INTEGRATION_EVENTS } from "./types";
-export type { Integration, IntegrationLog, IntegrationEvent, WebhookPayload, PlatformInfo } from "./types";
+export {
+  SUPPORTED_PLATFORMS,
+  INTEGRATION_EVENTS,
+  INTEGRATION_EVENT_VALUES,
+  WEBHOOK_SCHEMA_VERSION,
+} from "./types";
+export type {
+  Integration,
+  IntegrationLog,
+  IntegrationEvent,
+  CallEvent,
+  AppointmentEvent,
+  CallEventData,
+  AppointmentEventData,
+  AppointmentCancelledEventData,
+  AppointmentRescheduledEventData,
+  CallTransferredEventData,
+  SpamBlockedEventData,
+  WebhookEventDataMap,
+  WebhookPayload,
+  PlatformInfo,
+} from "./types";
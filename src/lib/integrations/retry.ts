@@ -1,10 +1,47 @@
 import { createAdminClient } from "@/lib/supabase/admin";
 import { safeDecrypt } from "@/lib/security/encryption";
-import { isUrlAllowed } from "@/lib/security/validation";
-import { signPayload } from "./webhook-delivery";
+import { isUrlAllowed, sanitizeString } from "@/lib/security/validation";
+import { sendIntegrationPausedNotification } from "@/lib/notifications/notification-service";
+import { getSigningSecrets, type SigningSecretFields } from "./webhook-delivery";
+import { buildSignatureHeader, SIGNATURE_HEADER } from "./signature";
+import { getNextRetryAt, shouldAutoPause } from "./backoff";
 
 const DELIVERY_TIMEOUT_MS = 5000;
-const MAX_RETRIES = 5;
+const RETRY_BATCH_SIZE = 25;
+// How long a claimed row is hidden from other worker runs while it is being retried
+const RETRY_LEASE_MS = 5 * 60 * 1000;
+
+interface RetryLog {
+  id: string;
+  integration_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  retry_count: number;
+  dead_lettered_at: string | null;
+}
+
+interface RetryIntegration extends SigningSecretFields {
+  id: string;
+  organization_id: string;
+  name: string;
+  webhook_url: string;
+  is_active: boolean;
+  consecutive_failures: number;
+}
+
+interface AttemptResult {
+  success: boolean;
+  status?: number;
+  error?: string;
+  deadLettered?: boolean;
+}
+
+export interface RetryQueueResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  deadLettered: number;
+}
 
 export async function retryFailedWebhook(logId: string, integrationId: string): Promise<{
   success: boolean;
@@ -16,7 +53,7 @@ export async function retryFailedWebhook(logId: string, integrationId: string):
   // Get the failed log entry — enforce it belongs to the expected integration
   const { data: log, error: logError } = await (supabase as any)
     .from("integration_logs")
-    .select("id, integration_id, event_type, payload, retry_count")
+    .select("id, integration_id, event_type, payload, retry_count, dead_lettered_at")
     .eq("id", logId)
     .eq("integration_id", integrationId)
     .eq("success", false)
@@ -26,38 +63,168 @@ export async function retryFailedWebhook(logId: string, integrationId: string):
     return { success: false, error: "Log entry not found or already successful" };
   }
 
-  if (log.retry_count >= MAX_RETRIES) {
-    return { success: false, error: `Maximum retries (${MAX_RETRIES}) exceeded` };
+  const integration = await getIntegration(supabase, integrationId);
+  if (!integration) {
+    return { success: false, error: "Integration not found" };
+  }
+
+  if (!integration.is_active) {
+    return { success: false, error: "Integration is paused" };
+  }
+
+  const { success, status, error } = await attemptRetry(supabase, log, integration);
+  return { success, status, error };
+}
+
+/**
+ * Retry every failed delivery whose next_retry_at has passed.
+ * Called by the scheduled worker at /api/cron/webhook-retries.
+ *
+ * Rows are processed one at a time so the consecutive-failure counter on a
+ * shared integration is never updated concurrently.
+ */
+export async function processWebhookRetryQueue(
+  limit: number = RETRY_BATCH_SIZE
+): Promise<RetryQueueResult> {
+  const supabase = createAdminClient();
+  const result: RetryQueueResult = { processed: 0, succeeded: 0, failed: 0, deadLettered: 0 };
+
+  const { data: due, error } = await (supabase as any)
+    .from("integration_logs")
+    .select("id, integration_id, event_type, payload, retry_count, dead_lettered_at, next_retry_at, integrations!inner(is_active)")
+    .eq("success", false)
+    .is("dead_lettered_at", null)
+    .lte("next_retry_at", new Date().toISOString())
+    .eq("integrations.is_active", true)
+    .order("next_retry_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("[Webhooks] Failed to load retry queue:", error);
+    return result;
+  }
+
+  const integrations = new Map<string, RetryIntegration | null>();
+
+  for (const log of (due || []) as (RetryLog & { next_retry_at: string })[]) {
+    // Claim the row by pushing next_retry_at out; skip it if another run got there first
+    const { data: claimed } = await (supabase as any)
+      .from("integration_logs")
+      .update({ next_retry_at: new Date(Date.now() + RETRY_LEASE_MS).toISOString() })
+      .eq("id", log.id)
+      .eq("next_retry_at", log.next_retry_at)
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    if (!integrations.has(log.integration_id)) {
+      integrations.set(log.integration_id, await getIntegration(supabase, log.integration_id));
+    }
+    const integration = integrations.get(log.integration_id);
+
+    // Paused earlier in this batch (or deleted) — leave the row for when it is resumed
+    if (!integration || !integration.is_active) continue;
+
+    const attempt = await attemptRetry(supabase, log, integration);
+    result.processed++;
+    if (attempt.success) result.succeeded++;
+    else if (attempt.deadLettered) result.deadLettered++;
+    else result.failed++;
   }
 
-  // Get the integration details
-  const { data: integration, error: intError } = await (supabase as any)
+  return result;
+}
+
+async function getIntegration(
+  supabase: ReturnType<typeof createAdminClient>,
+  integrationId: string
+): Promise<RetryIntegration | null> {
+  const { data: integration, error } = await (supabase as any)
     .from("integrations")
-    .select("id, webhook_url, signing_secret, is_active")
+    .select("id, organization_id, name, webhook_url, signing_secret, previous_signing_secret, previous_secret_expires_at, is_active, consecutive_failures")
     .eq("id", integrationId)
     .single();
 
-  if (intError || !integration) {
-    return { success: false, error: "Integration not found" };
+  if (error || !integration) return null;
+  return integration as RetryIntegration;
+}
+
+/**
+ * Re-send a logged delivery and record the outcome: success clears the
+ * schedule, failure books the next backoff slot or dead-letters the row.
+ * A dead-lettered row can still be replayed manually, but a failed replay
+ * does not put it back in the queue.
+ */
+async function attemptRetry(
+  supabase: ReturnType<typeof createAdminClient>,
+  log: RetryLog,
+  integration: RetryIntegration
+): Promise<AttemptResult> {
+  const { status, body, error } = await sendRetry(log, integration);
+  const success = !error;
+  const retryCount = log.retry_count + 1;
+  const now = new Date();
+
+  const update: Record<string, unknown> = {
+    response_body: body,
+    success,
+    retry_count: retryCount,
+    attempted_at: now.toISOString(),
+  };
+  if (status !== undefined) update.response_status = status;
+
+  let deadLettered = false;
+  if (success) {
+    update.next_retry_at = null;
+    update.dead_lettered_at = null;
+  } else if (!log.dead_lettered_at) {
+    const nextRetryAt = getNextRetryAt(retryCount, now);
+    update.next_retry_at = nextRetryAt?.toISOString() ?? null;
+    if (!nextRetryAt) {
+      update.dead_lettered_at = now.toISOString();
+      deadLettered = true;
+    }
   }
 
-  if (!integration.is_active) {
-    return { success: false, error: "Integration is paused" };
+  const { error: updateError } = await (supabase as any)
+    .from("integration_logs")
+    .update(update)
+    .eq("id", log.id);
+
+  if (updateError) {
+    console.error("[Webhooks] Failed to update retry log:", updateError);
+  }
+
+  if (success && integration.consecutive_failures > 0) {
+    await (supabase as any)
+      .from("integrations")
+      .update({ consecutive_failures: 0 })
+      .eq("id", integration.id);
+    integration.consecutive_failures = 0;
+  } else if (deadLettered) {
+    await recordDeadLetter(supabase, integration, error ?? null);
   }
 
+  return { success, status, error, deadLettered };
+}
+
+async function sendRetry(
+  log: RetryLog,
+  integration: RetryIntegration
+): Promise<{ status?: number; body: string; error?: string }> {
   const url = safeDecrypt(integration.webhook_url);
-  const secret = safeDecrypt(integration.signing_secret);
+  const secrets = getSigningSecrets(integration);
 
   if (!url || !isUrlAllowed(url)) {
-    return { success: false, error: "URL blocked by security policy" };
+    return { body: "URL blocked by SSRF policy", error: "URL blocked by security policy" };
   }
 
-  if (!secret) {
-    return { success: false, error: "Signing secret decryption failed" };
+  if (secrets.length === 0) {
+    return { body: "Signing secret decryption failed", error: "Signing secret decryption failed" };
   }
 
   const payloadStr = JSON.stringify(log.payload);
-  const signature = signPayload(payloadStr, secret);
+  const signature = buildSignatureHeader(payloadStr, secrets);
 
   try {
     const controller = new AbortController();
@@ -67,7 +234,7 @@ export async function retryFailedWebhook(logId: string, integrationId: string):
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "X-HolaRecep-Signature": signature,
+        [SIGNATURE_HEADER]: signature,
         "X-HolaRecep-Event": log.event_type,
         "User-Agent": "HolaRecep-Webhooks/1.0",
       },
@@ -79,44 +246,64 @@ export async function retryFailedWebhook(logId: string, integrationId: string):
 
     const responseBody = await response.text().catch((err: Error) => `[Failed to read response: ${err.message}]`);
 
-    // Update the log entry
-    const { error: updateError } = await (supabase as any)
-      .from("integration_logs")
-      .update({
-        response_status: response.status,
-        response_body: responseBody.slice(0, 1000),
-        success: response.ok,
-        retry_count: log.retry_count + 1,
-        attempted_at: new Date().toISOString(),
-      })
-      .eq("id", logId);
-
-    if (updateError) {
-      console.error("[Webhooks] Failed to update retry log:", updateError);
-    }
-
     return {
-      success: response.ok,
       status: response.status,
+      body: responseBody.slice(0, 1000),
       error: response.ok ? undefined : `HTTP ${response.status}`,
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
+    return { body: message, error: message };
+  }
+}
 
-    const { error: updateError } = await (supabase as any)
-      .from("integration_logs")
-      .update({
-        response_body: message,
-        success: false,
-        retry_count: log.retry_count + 1,
-        attempted_at: new Date().toISOString(),
-      })
-      .eq("id", logId);
-
-    if (updateError) {
-      console.error("[Webhooks] Failed to update retry log:", updateError);
-    }
+/**
+ * Count a dead-lettered delivery against the integration and pause it once
+ * it has failed AUTO_PAUSE_THRESHOLD deliveries in a row, emailing the owner.
+ */
+async function recordDeadLetter(
+  supabase: ReturnType<typeof createAdminClient>,
+  integration: RetryIntegration,
+  lastError: string | null
+): Promise<void> {
+  const consecutiveFailures = integration.consecutive_failures + 1;
+  const pause = integration.is_active && shouldAutoPause(consecutiveFailures);
+
+  const update: Record<string, unknown> = { consecutive_failures: consecutiveFailures };
+  if (pause) {
+    update.is_active = false;
+    update.auto_paused_at = new Date().toISOString();
+  }
 
-    return { success: false, error: message };
+  const { error } = await (supabase as any)
+    .from("integrations")
+    .update(update)
+    .eq("id", integration.id);
+
+  if (error) {
+    console.error("[Webhooks] Failed to record dead-lettered delivery:", { integrationId: integration.id, error });
+    return;
+  }
+
+  integration.consecutive_failures = consecutiveFailures;
+  if (!pause) return;
+
+  integration.is_active = false;
+  console.warn("[Webhooks] Auto-paused integration after repeated failures:", {
+    integrationId: integration.id,
+    consecutiveFailures,
+  });
+
+  try {
+    await sendIntegrationPausedNotification({
+      organizationId: integration.organization_id,
+      integrationName: integration.name,
+      consecutiveFailures,
+      // Text from the remote endpoint: bounded here, HTML-escaped with the
+      // rest of the template data by the notification service
+      lastError: lastError ? sanitizeString(lastError, 500) : null,
+    });
+  } catch (err) {
+    console.error("[Webhooks] Failed to send integration paused email:", err);
   }
 }
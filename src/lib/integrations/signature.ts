@@ -0,0 +1,93 @@
+/**
+ * Webhook signatures
+ *
+ * Every delivery carries a Stripe-style header:
+ *
+ *   X-HolaRecep-Signature: t=1718000000,v1=<hex>[,v1=<hex>]
+ *
+ * where each v1 is HMAC-SHA256(secret, `${t}.${rawBody}`). While a secret is
+ * being rotated we sign with both the new and the previous secret, so
+ * receivers keep verifying whichever one they have configured.
+ *
+ * This module has no server-only imports so receivers can reuse
+ * verifyWebhookSignature() as-is.
+ */
+import crypto from "crypto";
+
+export const SIGNATURE_HEADER = "X-HolaRecep-Signature";
+
+// How far a signature timestamp may drift from the receiver's clock
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function signPayload(payload: string, secret: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(payload)
+    .digest("hex");
+}
+
+/**
+ * Build the signature header value for a raw JSON body.
+ * Pass every active secret — the current one first.
+ */
+export function buildSignatureHeader(
+  payload: string,
+  secrets: string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signatures = secrets.map((secret) => `v1=${signPayload(`${timestamp}.${payload}`, secret)}`);
+  return [`t=${timestamp}`, ...signatures].join(",");
+}
+
+export function parseSignatureHeader(
+  header: string
+): { timestamp: number; signatures: string[] } | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (!value) continue;
+    if (key === "t" && /^\d+$/.test(value)) timestamp = parseInt(value, 10);
+    if (key === "v1") signatures.push(value);
+  }
+
+  if (timestamp === null || signatures.length === 0) return null;
+  return { timestamp, signatures };
+}
+
+export type SignatureVerification =
+  | { valid: true; timestamp: number }
+  | { valid: false; error: "missing_header" | "malformed_header" | "timestamp_out_of_tolerance" | "no_matching_signature" };
+
+/**
+ * Verify a webhook we sent. Use the raw request body (not re-serialized
+ * JSON) and reject anything outside the tolerance window to stop replays.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | null | undefined,
+  secret: string,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): SignatureVerification {
+  if (!header) return { valid: false, error: "missing_header" };
+
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) return { valid: false, error: "malformed_header" };
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    return { valid: false, error: "timestamp_out_of_tolerance" };
+  }
+
+  const expected = Buffer.from(signPayload(`${parsed.timestamp}.${payload}`, secret), "hex");
+  const matched = parsed.signatures.some((signature) => {
+    const candidate = Buffer.from(signature, "hex");
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+  });
+
+  return matched
+    ? { valid: true, timestamp: parsed.timestamp }
+    : { valid: false, error: "no_matching_signature" };
+}
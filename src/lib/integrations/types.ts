@@ -10,8 +10,13 @@ export interface Integration {
   platform: string;
   webhook_url: string;
   signing_secret: string;
+  previous_signing_secret: string | null;
+  previous_secret_expires_at: string | null;
+  secret_rotated_at: string | null;
   events: string[];
   is_active: boolean;
+  consecutive_failures: number;
+  auto_paused_at: string | null;
   metadata: Record<string, unknown>;
   created_at: string;
   updated_at: string;
@@ -27,36 +32,139 @@ export interface IntegrationLog {
   success: boolean;
   attempted_at: string;
   retry_count: number;
+  next_retry_at: string | null;
+  dead_lettered_at: string | null;
 }
 
-export type IntegrationEvent =
+export type CallEvent =
   | "call.completed"
   | "call.started"
   | "call.missed"
   | "voicemail.received";
 
+export type AppointmentEvent =
+  | "appointment.booked"
+  | "appointment.cancelled"
+  | "appointment.rescheduled";
+
+export type IntegrationEvent =
+  | CallEvent
+  | AppointmentEvent
+  | "call.transferred"
+  | "spam.blocked";
+
+// Tuple form for z.enum() in the integration API routes
+export const INTEGRATION_EVENT_VALUES = [
+  "call.completed",
+  "call.started",
+  "call.missed",
+  "voicemail.received",
+  "call.transferred",
+  "appointment.booked",
+  "appointment.cancelled",
+  "appointment.rescheduled",
+  "spam.blocked",
+] as const satisfies readonly IntegrationEvent[];
+
 export const INTEGRATION_EVENTS: { value: IntegrationEvent; label: string }[] = [
   { value: "call.completed", label: "Call Completed" },
   { value: "call.started", label: "Call Started" },
   { value: "call.missed", label: "Call Missed" },
   { value: "voicemail.received", label: "Voicemail Received" },
+  { value: "call.transferred", label: "Call Transferred" },
+  { value: "appointment.booked", label: "Appointment Booked" },
+  { value: "appointment.cancelled", label: "Appointment Cancelled" },
+  { value: "appointment.rescheduled", label: "Appointment Rescheduled" },
+  { value: "spam.blocked", label: "Spam Call Blocked" },
 ];
 
-export interface WebhookPayload {
-  event: IntegrationEvent;
+/**
+ * Version of the `data` shapes below. Bump it whenever a field is renamed,
+ * removed or changes type; adding a new nullable field does not need a bump.
+ * Receivers can branch on `schema_version` to handle old and new payloads.
+ */
+export const WEBHOOK_SCHEMA_VERSION = 2;
+
+export interface CallEventData {
+  call_id: string;
+  caller_phone: string;
+  caller_name: string | null;
+  summary: string | null;
+  transcript: string | null;
+  duration_seconds: number | null;
+  assistant_name: string | null;
+  outcome: string | null;
+  recording_url: string | null;
+  collected_data: Record<string, unknown> | null;
+  /** Language the caller spoke (en, es, zh, vi), when known */
+  language: string | null;
+}
+
+export interface AppointmentEventData {
+  appointment_id: string | null;
+  /** Booking id in the external calendar (e.g. Cal.com uid); null for built-in bookings */
+  external_id: string | null;
+  provider: string;
+  status: string;
+  /** Service from the org's catalog (e.g. "Full Groom"); null when none was chosen */
+  service?: string | null;
+  /** Staff member the appointment is with; null when unassigned */
+  staff?: string | null;
+  /** Recurring series this occurrence belongs to; null for one-off bookings */
+  series_id?: string | null;
+  attendee_name: string | null;
+  attendee_phone: string;
+  attendee_email: string | null;
+  start_time: string;
+  end_time: string | null;
+  timezone: string;
+  notes: string | null;
+}
+
+export interface AppointmentCancelledEventData extends AppointmentEventData {
+  cancellation_reason: string | null;
+}
+
+export interface AppointmentRescheduledEventData extends AppointmentEventData {
+  /** The appointment that was moved; `appointment_id` is the new booking */
+  previous_appointment_id: string | null;
+  previous_start_time: string;
+  previous_end_time: string | null;
+}
+
+export interface CallTransferredEventData {
+  call_id: string | null;
+  caller_phone: string;
+  transfer_to: string;
+  transfer_to_name: string | null;
+  reason: string | null;
+}
+
+export interface SpamBlockedEventData {
+  call_id: string | null;
+  caller_phone: string;
+  spam_score: number;
+  confidence: "high" | "medium" | "low";
+  reasons: string[];
+}
+
+export interface WebhookEventDataMap {
+  "call.completed": CallEventData;
+  "call.started": CallEventData;
+  "call.missed": CallEventData;
+  "voicemail.received": CallEventData;
+  "call.transferred": CallTransferredEventData;
+  "appointment.booked": AppointmentEventData;
+  "appointment.cancelled": AppointmentCancelledEventData;
+  "appointment.rescheduled": AppointmentRescheduledEventData;
+  "spam.blocked": SpamBlockedEventData;
+}
+
+export interface WebhookPayload<E extends IntegrationEvent = IntegrationEvent> {
+  event: E;
+  schema_version: number;
   timestamp: string;
-  data: {
-    call_id: string;
-    caller_phone: string;
-    caller_name: string | null;
-    summary: string | null;
-    transcript: string | null;
-    duration_seconds: number | null;
-    assistant_name: string | null;
-    outcome: string | null;
-    recording_url: string | null;
-    collected_data: Record<string, unknown> | null;
-  };
+  data: WebhookEventDataMap[E];
 }
 
 export interface PlatformInfo {
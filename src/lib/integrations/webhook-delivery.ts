@@ -1,20 +1,65 @@
-import crypto from "crypto";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { safeDecrypt } from "@/lib/security/encryption";
 import { isUrlAllowed } from "@/lib/security/validation";
-import type { IntegrationEvent, WebhookPayload } from "./types";
+import { getNextRetryAt } from "./backoff";
+import { buildSignatureHeader, SIGNATURE_HEADER } from "./signature";
+import {
+  WEBHOOK_SCHEMA_VERSION,
+  type CallEvent,
+  type CallEventData,
+  type IntegrationEvent,
+  type WebhookEventDataMap,
+  type WebhookPayload,
+} from "./types";
 
 const DELIVERY_TIMEOUT_MS = 5000;
 
-export function signPayload(payload: string, secret: string): string {
-  return crypto
-    .createHmac("sha256", secret)
-    .update(payload)
-    .digest("hex");
+// How long the previous signing secret keeps signing after a rotation
+export const SECRET_ROTATION_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export { signPayload } from "./signature";
+
+export interface SigningSecretFields {
+  signing_secret: string;
+  previous_signing_secret?: string | null;
+  previous_secret_expires_at?: string | null;
+}
+
+/**
+ * Decrypt the secrets a delivery should be signed with: the current one,
+ * plus the previous one while its rotation grace period lasts.
+ * Returns an empty array if the current secret cannot be decrypted.
+ */
+export function getSigningSecrets(integration: SigningSecretFields, now: Date = new Date()): string[] {
+  const current = safeDecrypt(integration.signing_secret);
+  if (!current) return [];
+
+  const secrets = [current];
+  if (
+    integration.previous_signing_secret &&
+    integration.previous_secret_expires_at &&
+    new Date(integration.previous_secret_expires_at).getTime() > now.getTime()
+  ) {
+    const previous = safeDecrypt(integration.previous_signing_secret);
+    if (previous) secrets.push(previous);
+  }
+  return secrets;
+}
+
+export function buildWebhookPayload<E extends IntegrationEvent>(
+  event: E,
+  data: WebhookEventDataMap[E]
+): WebhookPayload<E> {
+  return {
+    event,
+    schema_version: WEBHOOK_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    data,
+  };
 }
 
-export function buildCallPayload(
-  event: IntegrationEvent,
+export function buildCallPayload<E extends CallEvent>(
+  event: E,
   callData: {
     callId: string;
     caller: string;
@@ -26,37 +71,49 @@ export function buildCallPayload(
     outcome?: string | null;
     recordingUrl?: string | null;
     collectedData?: Record<string, unknown> | null;
+    language?: string | null;
   }
-): WebhookPayload {
-  return {
-    event,
-    timestamp: new Date().toISOString(),
-    data: {
-      call_id: callData.callId,
-      caller_phone: callData.caller,
-      caller_name: callData.callerName ?? null,
-      summary: callData.summary ?? null,
-      transcript: callData.transcript ?? null,
-      duration_seconds: callData.duration ?? null,
-      assistant_name: callData.assistantName ?? null,
-      outcome: callData.outcome ?? null,
-      recording_url: callData.recordingUrl ?? null,
-      collected_data: callData.collectedData ?? null,
-    },
+): WebhookPayload<E> {
+  const data: CallEventData = {
+    call_id: callData.callId,
+    caller_phone: callData.caller,
+    caller_name: callData.callerName ?? null,
+    summary: callData.summary ?? null,
+    transcript: callData.transcript ?? null,
+    duration_seconds: callData.duration ?? null,
+    assistant_name: callData.assistantName ?? null,
+    outcome: callData.outcome ?? null,
+    recording_url: callData.recordingUrl ?? null,
+    collected_data: callData.collectedData ?? null,
+    language: callData.language ?? null,
   };
+
+  return buildWebhookPayload(event, data as WebhookEventDataMap[E]);
 }
 
 export async function deliverWebhooks(
   orgId: string,
-  event: IntegrationEvent,
+  event: CallEvent,
   callData: Parameters<typeof buildCallPayload>[1]
 ): Promise<void> {
+  return deliverWebhookEvent(orgId, buildCallPayload(event, callData));
+}
+
+/**
+ * Send any event to the org's active integrations subscribed to it.
+ * Use buildWebhookPayload() to construct the payload.
+ */
+export async function deliverWebhookEvent(
+  orgId: string,
+  payload: WebhookPayload
+): Promise<void> {
+  const { event } = payload;
   const supabase = createAdminClient();
 
   // Fetch active integrations for this org that subscribe to this event
   const { data: integrations, error } = await (supabase as any)
     .from("integrations")
-    .select("id, webhook_url, signing_secret, events")
+    .select("id, webhook_url, signing_secret, previous_signing_secret, previous_secret_expires_at, events, consecutive_failures")
     .eq("organization_id", orgId)
     .eq("is_active", true);
 
@@ -74,13 +131,16 @@ export async function deliverWebhooks(
 
   if (matching.length === 0) return;
 
-  const payload = buildCallPayload(event, callData);
   const payloadStr = JSON.stringify(payload);
 
   const deliveries = matching.map(
-    async (integration: { id: string; webhook_url: string; signing_secret: string }) => {
+    async (integration: SigningSecretFields & {
+      id: string;
+      webhook_url: string;
+      consecutive_failures: number;
+    }) => {
       const url = safeDecrypt(integration.webhook_url);
-      const secret = safeDecrypt(integration.signing_secret);
+      const secrets = getSigningSecrets(integration);
 
       // SSRF protection
       if (!url || !isUrlAllowed(url)) {
@@ -89,13 +149,13 @@ export async function deliverWebhooks(
         return;
       }
 
-      if (!secret) {
+      if (secrets.length === 0) {
         console.error("[Webhooks] Failed to decrypt signing secret for integration:", integration.id);
         await logDelivery(supabase, integration.id, event, payload, null, "Signing secret decryption failed", false);
         return;
       }
 
-      const signature = signPayload(payloadStr, secret);
+      const signature = buildSignatureHeader(payloadStr, secrets);
 
       try {
         const controller = new AbortController();
@@ -105,7 +165,7 @@ export async function deliverWebhooks(
           method: "POST",
           headers: {
             "Content-Type": "application/json",
-            "X-HolaRecep-Signature": signature,
+            [SIGNATURE_HEADER]: signature,
             "X-HolaRecep-Event": event,
             "User-Agent": "HolaRecep-Webhooks/1.0",
           },
@@ -127,6 +187,14 @@ export async function deliverWebhooks(
           responseBody.slice(0, 1000),
           success
         );
+
+        // A delivery getting through ends any failure streak toward auto-pause
+        if (success && integration.consecutive_failures > 0) {
+          await (supabase as any)
+            .from("integrations")
+            .update({ consecutive_failures: 0 })
+            .eq("id", integration.id);
+        }
       } catch (err) {
         const message = err instanceof Error ? err.message : "Unknown error";
         await logDelivery(supabase, integration.id, event, payload, null, message, false);
@@ -137,6 +205,10 @@ export async function deliverWebhooks(
   await Promise.allSettled(deliveries);
 }
 
+/**
+ * Record a first delivery attempt. Failures are queued for the retry
+ * worker on the backoff schedule in ./backoff.
+ */
 async function logDelivery(
   supabase: ReturnType<typeof createAdminClient>,
   integrationId: string,
@@ -153,6 +225,7 @@ async function logDelivery(
     response_status: responseStatus,
     response_body: responseBody,
     success,
+    next_retry_at: success ? null : getNextRetryAt(0)?.toISOString(),
   });
 
   if (error) {
@@ -1,8 +1,15 @@
 import { getVapiClient, ensureCalendarTools } from "@/lib/vapi";
-import { buildPromptFromConfig, buildSchedulingSection, buildAnalysisPlan } from "@/lib/prompt-builder";
+import { buildPromptFromConfig, buildSchedulingSection, buildAnalysisPlan, upgradePromptConfig } from "@/lib/prompt-builder";
 import type { PromptContext } from "@/lib/prompt-builder";
-import type { PromptConfig } from "@/lib/prompt-builder/types";
+import type { PromptConfig, PromptConfigV1 } from "@/lib/prompt-builder/types";
 import { getOrgScheduleContext } from "@/lib/supabase/get-org-schedule-context";
+import { buildFirstMessageWithDisclosure, resolveRecordingSettings } from "@/lib/templates";
+import {
+  buildLanguageSection,
+  buildSummaryPrompt,
+  buildVapiTranscriber,
+  resolveAssistantLanguages,
+} from "@/lib/languages/languages";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SupabaseAny = any;
@@ -19,6 +26,7 @@ interface AssistantRow {
   id: string;
   vapi_assistant_id: string | null;
   system_prompt: string;
+  first_message: string;
   prompt_config: Record<string, any> | null;
   settings: Record<string, any> | null;
   model_provider: string;
@@ -82,8 +90,9 @@ export async function getAggregatedKnowledgeBase(
 }
 
 /**
- * After any KB mutation, rebuild the system prompt for every active assistant
- * in the org and push the updated prompt to Vapi.
+ * After any KB mutation (or a prompt rollback, or a change to the owner's
+ * summary language), rebuild the system prompt for every active assistant in
+ * the org and push the updated prompt, greeting and analysis plan to Vapi.
  */
 export async function resyncOrgAssistants(
   supabase: SupabaseAny,
@@ -91,14 +100,14 @@ export async function resyncOrgAssistants(
 ): Promise<void> {
   const aggregatedKB = await getAggregatedKnowledgeBase(supabase, organizationId);
 
-  // Fetch org timezone, business hours, and appointment duration for prompt context
-  const { timezone: orgTimezone, businessHours: orgBusinessHours, defaultAppointmentDuration } =
+  // Fetch org timezone, business hours, appointment duration, services and staff for prompt context
+  const { timezone: orgTimezone, businessHours: orgBusinessHours, defaultAppointmentDuration, services, staffNames, specialHours, ownerLanguage } =
     await getOrgScheduleContext(supabase, organizationId, "KB resync");
 
   const { data: assistants, error } = await (supabase as any)
     .from("assistants")
     .select(
-      "id, vapi_assistant_id, system_prompt, prompt_config, settings, model_provider, model, name, is_active"
+      "id, vapi_assistant_id, system_prompt, first_message, prompt_config, settings, model_provider, model, name, is_active"
     )
     .eq("organization_id", organizationId)
     .eq("is_active", true);
@@ -128,10 +137,11 @@ export async function resyncOrgAssistants(
     let systemPrompt: string;
 
     let analysisPlan: ReturnType<typeof buildAnalysisPlan> = null;
+    const languages = resolveAssistantLanguages(assistant.settings);
 
     if (assistant.prompt_config) {
       // Guided prompt builder — rebuild with KB + timezone context
-      const config = assistant.prompt_config as unknown as PromptConfig;
+      const config = upgradePromptConfig(assistant.prompt_config as unknown as PromptConfig | PromptConfigV1);
       const industry = assistant.settings?.industry || "other";
       const promptContext: PromptContext = {
         businessName: assistant.name,
@@ -140,6 +150,10 @@ export async function resyncOrgAssistants(
         timezone: orgTimezone,
         businessHours: orgBusinessHours,
         defaultAppointmentDuration,
+        services,
+        staffNames,
+        specialHours,
+        languages,
       };
       systemPrompt = buildPromptFromConfig(config, promptContext);
       analysisPlan = buildAnalysisPlan(config);
@@ -156,18 +170,24 @@ export async function resyncOrgAssistants(
         systemPrompt = assistant.system_prompt;
       }
       // For legacy prompts, append scheduling context
-      systemPrompt += `\n\n${buildSchedulingSection(orgTimezone, orgBusinessHours, defaultAppointmentDuration)}`;
+      systemPrompt += `\n\n${buildSchedulingSection(orgTimezone, orgBusinessHours, defaultAppointmentDuration, services, staffNames, specialHours)}`;
+      const languageSection = buildLanguageSection(languages[0], languages);
+      if (languageSection) systemPrompt += `\n\n${languageSection}`;
     }
 
+    const { recordingDisclosure } = resolveRecordingSettings(assistant.settings ?? undefined);
+
     try {
       await vapi.updateAssistant(assistant.vapi_assistant_id, {
+        firstMessage: buildFirstMessageWithDisclosure(assistant.first_message, recordingDisclosure, assistant.name),
         model: {
           provider: assistant.model_provider,
           model: assistant.model,
           messages: [{ role: "system", content: systemPrompt }],
           ...(toolIds && { toolIds }),
         },
-        ...(analysisPlan && { analysisPlan }),
+        transcriber: buildVapiTranscriber(languages),
+        analysisPlan: { ...analysisPlan, summaryPrompt: buildSummaryPrompt(ownerLanguage) },
       });
     } catch (err) {
       console.error(
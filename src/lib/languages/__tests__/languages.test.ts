@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  assistantLanguagesSchema,
+  buildLanguageSection,
+  buildSummaryPrompt,
+  buildVapiTranscriber,
+  languageName,
+  resolveAssistantLanguages,
+} from "../languages";
+
+describe("resolveAssistantLanguages", () => {
+  it("defaults to English", () => {
+    expect(resolveAssistantLanguages(undefined)).toEqual(["en"]);
+    expect(resolveAssistantLanguages({ languages: "es" })).toEqual(["en"]);
+  });
+
+  it("keeps supported languages in order without repeats", () => {
+    expect(resolveAssistantLanguages({ languages: ["zh", "fr", "en", "zh"] })).toEqual(["zh", "en"]);
+  });
+});
+
+describe("assistantLanguagesSchema", () => {
+  it("rejects empty, unknown and repeated languages", () => {
+    expect(assistantLanguagesSchema.safeParse(["en", "es"]).success).toBe(true);
+    expect(assistantLanguagesSchema.safeParse([]).success).toBe(false);
+    expect(assistantLanguagesSchema.safeParse(["en", "fr"]).success).toBe(false);
+    expect(assistantLanguagesSchema.safeParse(["es", "es"]).success).toBe(false);
+  });
+});
+
+describe("buildLanguageSection", () => {
+  it("is empty for English-only assistants", () => {
+    expect(buildLanguageSection("en", ["en"])).toBe("");
+  });
+
+  it("always names the language for other assistants", () => {
+    expect(buildLanguageSection("es", ["es"])).toContain("Speak Spanish");
+    expect(buildLanguageSection("es", ["es"])).not.toContain("You can also speak");
+  });
+});
+
+describe("languageName", () => {
+  it("falls back to English for unknown codes", () => {
+    expect(languageName("vi")).toBe("Vietnamese");
+    expect(languageName("xx")).toBe("English");
+    expect(languageName(null)).toBe("English");
+  });
+});
+
+describe("buildSummaryPrompt", () => {
+  it("asks for the summary in the owner's language", () => {
+    expect(buildSummaryPrompt("es")).toContain("Write the summary in Spanish.");
+    expect(buildSummaryPrompt(undefined)).toContain("Write the summary in English.");
+  });
+});
+
+describe("buildVapiTranscriber", () => {
+  it("transcribes English and Spanish together", () => {
+    expect(buildVapiTranscriber(["es", "en"]).language).toBe("multi");
+  });
+
+  it("keeps other assistants in their primary language", () => {
+    expect(buildVapiTranscriber(["en"]).language).toBe("en");
+    expect(buildVapiTranscriber(["vi", "en"]).language).toBe("vi");
+  });
+});
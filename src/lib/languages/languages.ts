@@ -0,0 +1,114 @@
+/**
+ * Languages
+ *
+ * The languages an assistant can speak, stored in assistants.settings.languages
+ * with the primary language first. The self-hosted voice server detects the
+ * caller's language on their first utterance and switches the prompt, STT
+ * model and TTS voice mid-call (voice-server/lib/languages.js mirrors this
+ * file). Vapi numbers can only follow a caller between English and Spanish
+ * (see buildVapiTranscriber). Calls are tagged with the language the caller
+ * spoke, and summaries are written in organizations.owner_language.
+ */
+
+import { z } from "zod";
+
+export type LanguageCode = "en" | "es" | "zh" | "vi";
+
+export interface LanguageInfo {
+  name: string;
+  /** The language's name for itself, shown next to the English name */
+  nativeName: string;
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+/** Most languages one assistant can speak */
+export const MAX_LANGUAGES = 4;
+
+export const SUPPORTED_LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { name: "English", nativeName: "English" },
+  es: { name: "Spanish", nativeName: "Español" },
+  zh: { name: "Mandarin Chinese", nativeName: "普通话" },
+  vi: { name: "Vietnamese", nativeName: "Tiếng Việt" },
+};
+
+export const LANGUAGE_CODES = Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[];
+
+export const languageCodeSchema = z.enum(["en", "es", "zh", "vi"]);
+
+/** assistants.settings.languages: primary first, no repeats */
+export const assistantLanguagesSchema = z
+  .array(languageCodeSchema)
+  .min(1)
+  .max(MAX_LANGUAGES)
+  .refine((codes) => new Set(codes).size === codes.length, "Languages must not repeat");
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === "string" && value in SUPPORTED_LANGUAGES;
+}
+
+export function languageName(code: string | null | undefined): string {
+  return isLanguageCode(code) ? SUPPORTED_LANGUAGES[code].name : SUPPORTED_LANGUAGES[DEFAULT_LANGUAGE].name;
+}
+
+/**
+ * The assistant's languages, primary first. Unknown codes are dropped and an
+ * assistant without any speaks English.
+ */
+export function resolveAssistantLanguages(settings: Record<string, any> | null | undefined): LanguageCode[] {
+  const configured: unknown[] = Array.isArray(settings?.languages) ? settings.languages : [];
+  const languages = [...new Set(configured.filter(isLanguageCode))].slice(0, MAX_LANGUAGES);
+  return languages.length > 0 ? languages : [DEFAULT_LANGUAGE];
+}
+
+/**
+ * Prompt section telling the assistant which language to speak. Empty for
+ * English-only assistants. The voice server's version also points the
+ * assistant at its switch_language tool.
+ */
+export function buildLanguageSection(current: LanguageCode, languages: LanguageCode[]): string {
+  if (languages.length === 1 && current === DEFAULT_LANGUAGE) return "";
+
+  const lines = [
+    "LANGUAGE:",
+    `Speak ${languageName(current)} for the rest of the call, whatever language the instructions above are written in.`,
+  ];
+  const others = languages.filter((code) => code !== current);
+  if (others.length > 0) {
+    lines.push(
+      `- You can also speak ${others.map(languageName).join(", ")}. If the caller speaks or asks for one of those, switch to it for the rest of the call.`
+    );
+  }
+  lines.push("- Say names, phone numbers, emails and addresses the way the caller gave them.");
+  return lines.join("\n");
+}
+
+/**
+ * Vapi's call summary prompt. Like the voice server's post-call analysis, it
+ * asks for the summary in the owner's language whatever the caller spoke.
+ */
+export function buildSummaryPrompt(ownerLanguage: string | null | undefined): string {
+  return [
+    "You are an expert note-taker. Summarize the call in 1-2 sentences: who called, what they wanted and how it was resolved.",
+    `The call may not be in English. Write the summary in ${languageName(ownerLanguage)}.`,
+  ].join("\n");
+}
+
+/** Languages Deepgram can transcribe together when the caller switches mid-call */
+const MULTILINGUAL_TRANSCRIBER_LANGUAGES: LanguageCode[] = ["en", "es"];
+
+/**
+ * Vapi's transcriber for an assistant. Deepgram's multilingual mode follows a
+ * caller between English and Spanish; other combinations are transcribed in
+ * the primary language, so only self-hosted numbers can switch to them.
+ */
+export function buildVapiTranscriber(languages: LanguageCode[]): { provider: string; model: string; language: string } {
+  const multilingual =
+    languages.length > 1 && languages.every((code) => MULTILINGUAL_TRANSCRIBER_LANGUAGES.includes(code));
+  return { provider: "deepgram", model: "nova-2", language: multilingual ? "multi" : languages[0] };
+}
+
+/** Whether Vapi numbers can follow a caller between all of these languages */
+export function vapiSupportsLanguageSwitching(languages: LanguageCode[]): boolean {
+  return buildVapiTranscriber(languages).language === "multi";
+}
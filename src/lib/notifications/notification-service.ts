@@ -7,6 +7,8 @@
  * - Voicemails
  * - Appointment bookings
  * - Daily summaries
+ * - Integrations auto-paused after repeated webhook failures
+ * - Text conversations handed off to staff by the AI
  */
 
 import { createAdminClient } from "@/lib/supabase/admin";
@@ -29,6 +31,11 @@ export interface NotificationPreferences {
   webhook_url: string | null;
   sms_textback_on_missed_call: boolean;
   sms_appointment_confirmation: boolean;
+  sms_appointment_reminders: boolean;
+  call_appointment_reminders: boolean;
+  /** Minutes before the appointment */
+  appointment_reminder_offsets: number[];
+  sms_ai_conversations: boolean;
 }
 
 export interface CallNotificationData {
@@ -74,6 +81,20 @@ export interface DailySummaryData {
   topCallerIntents: string[];
 }
 
+export interface IntegrationPausedNotificationData {
+  organizationId: string;
+  integrationName: string;
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+export interface SmsHandoffNotificationData {
+  organizationId: string;
+  callerPhone: string;
+  reason: string;
+  lastMessage?: string;
+}
+
 /**
  * Get notification preferences for an organization
  */
@@ -111,6 +132,10 @@ export async function getNotificationPreferences(
     webhook_url: data.webhook_url,
     sms_textback_on_missed_call: data.sms_textback_on_missed_call ?? false,
     sms_appointment_confirmation: data.sms_appointment_confirmation ?? false,
+    sms_appointment_reminders: data.sms_appointment_reminders ?? false,
+    call_appointment_reminders: data.call_appointment_reminders ?? false,
+    appointment_reminder_offsets: data.appointment_reminder_offsets ?? [1440, 120],
+    sms_ai_conversations: data.sms_ai_conversations ?? true,
   };
 }
 
@@ -413,6 +438,67 @@ export async function sendDailySummaryNotification(
   }
 }
 
+/**
+ * Tell the owner that an integration was paused after repeated delivery failures.
+ * Always sent by email — this is an operational alert, not an opt-in notification.
+ */
+export async function sendIntegrationPausedNotification(
+  data: IntegrationPausedNotificationData
+): Promise<void> {
+  const email = await getOrganizationOwnerEmail(data.organizationId);
+  if (!email) return;
+
+  await sendEmail({
+    to: email,
+    subject: `Integration Paused - ${data.integrationName}`,
+    template: "integration-paused",
+    data: {
+      integrationName: data.integrationName,
+      consecutiveFailures: data.consecutiveFailures,
+      lastError: data.lastError,
+    },
+  });
+}
+
+/**
+ * Tell the owner a caller's text thread needs a person. Sent by email, and by
+ * SMS when an alert number is set — the caller is waiting on a reply.
+ */
+export async function sendSmsHandoffNotification(
+  data: SmsHandoffNotificationData
+): Promise<void> {
+  const prefs = await getNotificationPreferences(data.organizationId);
+  const email = await getOrganizationOwnerEmail(data.organizationId);
+
+  const channels: Promise<void>[] = [];
+
+  if (email) {
+    channels.push(sendEmail({
+      to: email,
+      subject: `Text from ${data.callerPhone} needs a reply`,
+      template: "sms-handoff",
+      data: {
+        callerPhone: data.callerPhone,
+        reason: data.reason,
+        lastMessage: data.lastMessage,
+      },
+    }));
+  }
+
+  if (prefs?.sms_phone_number) {
+    channels.push(sendSMS({
+      to: prefs.sms_phone_number,
+      message: `Text from ${data.callerPhone} needs a reply: ${data.reason}. Answer it in Messages.`,
+    }));
+  }
+
+  const results = await Promise.allSettled(channels);
+  const failures = results.filter((r) => r.status === "rejected");
+  if (failures.length > 0) {
+    throw new Error(`${failures.length}/${results.length} notification channels failed: ${(failures[0] as PromiseRejectedResult).reason}`);
+  }
+}
+
 // ============================================================
 // Email, SMS, and Webhook sending functions
 // These are abstractions that can be replaced with actual providers
@@ -582,6 +668,19 @@ function generateEmailHtml(template: string, data: Record<string, any>): string
       <p><strong>Time:</strong> ${d.appointmentTime}</p>
       ${d.serviceName ? `<p><strong>Service:</strong> ${d.serviceName}</p>` : ""}
     `,
+    "integration-paused": (d) => `
+      <h2 style="color: #dc2626;">Integration Paused</h2>
+      <p>We paused <strong>${d.integrationName}</strong> after ${d.consecutiveFailures} webhook deliveries failed every retry.</p>
+      ${d.lastError ? `<p><strong>Last error:</strong> ${d.lastError}</p>` : ""}
+      <p>Check that the webhook URL is reachable, then turn the integration back on from Settings &gt; Integrations. Failed deliveries can be retried from the delivery log.</p>
+    `,
+    "sms-handoff": (d) => `
+      <h2>A Text Needs a Reply</h2>
+      <p>Your AI receptionist handed a text conversation with <strong>${d.callerPhone}</strong> to your team.</p>
+      <p><strong>Why:</strong> ${d.reason}</p>
+      ${d.lastMessage ? `<p><strong>Their last message:</strong><br/>${d.lastMessage}</p>` : ""}
+      <p>Reply from Messages in your dashboard. The AI won't answer this caller until you hand the thread back.</p>
+    `,
     "daily-summary": (d) => `
       <h2>Daily Call Summary - ${d.date}</h2>
       <table style="width: 100%; border-collapse: collapse;">
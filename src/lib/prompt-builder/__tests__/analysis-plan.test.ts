@@ -1,11 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { buildAnalysisPlan } from "../generate-prompt";
+import { buildAnalysisPlan, CALL_INTENT_KEY } from "../generate-prompt";
 import type { PromptConfig, CollectionField } from "../types";
 
 function makeConfig(fields: CollectionField[]): PromptConfig {
   return {
-    version: 1,
+    version: 2,
     fields,
+    intents: [],
     behaviors: {
       scheduleAppointments: false,
       handleEmergencies: false,
@@ -141,4 +142,60 @@ describe("buildAnalysisPlan", () => {
     expect(plan!.structuredDataPrompt).toContain("full_name");
     expect(plan!.structuredDataPrompt).toContain("phone_number");
   });
+
+  it("adds the call intent and each intent's fields without requiring them", () => {
+    const config = makeConfig([makeField({ id: "1", label: "Full Name" })]);
+    config.intents = [
+      {
+        id: "new_booking",
+        label: "New booking",
+        description: "",
+        outcome: "book",
+        fields: [
+          makeField({ id: "has_insurance", label: "Has Insurance", type: "select" }),
+          makeField({
+            id: "insurance_provider",
+            label: "Insurance Provider",
+            condition: { fieldId: "has_insurance", equals: "yes" },
+          }),
+        ],
+      },
+    ];
+
+    const plan = buildAnalysisPlan(config);
+    expect(plan!.structuredDataSchema.properties[CALL_INTENT_KEY].enum).toEqual(["new_booking", "other"]);
+    expect(plan!.structuredDataSchema.properties.insurance_provider).toBeDefined();
+    expect(plan!.structuredDataSchema.required).toEqual(["full_name"]);
+    expect(plan!.structuredDataPrompt).toContain("- For New booking calls:");
+  });
+
+  it("does not require conditional shared fields", () => {
+    const config = makeConfig([
+      makeField({ id: "1", label: "Full Name" }),
+      makeField({ id: "2", label: "Company", condition: { fieldId: "1", equals: "a business" } }),
+    ]);
+
+    expect(buildAnalysisPlan(config)!.structuredDataSchema.required).toEqual(["full_name"]);
+  });
+
+  it("constrains select fields to their options", () => {
+    const config = makeConfig([
+      makeField({
+        id: "1",
+        label: "Urgency",
+        type: "select",
+        options: [{ value: "Routine" }, { value: "Urgent", synonyms: ["soon"] }],
+      }),
+      makeField({ id: "2", label: "Extras", type: "multiselect", options: [{ value: "Highchair" }] }),
+    ]);
+
+    const plan = buildAnalysisPlan(config);
+    expect(plan!.structuredDataSchema.properties.urgency.enum).toEqual(["Routine", "Urgent"]);
+    expect(plan!.structuredDataSchema.properties.extras).toEqual({
+      type: "array",
+      description: "Extras",
+      items: { type: "string", enum: ["Highchair"] },
+    });
+    expect(plan!.structuredDataPrompt).toContain("- Urgency (urgency): Urgency (one of: Routine, Urgent)");
+  });
 });
@@ -79,4 +79,65 @@ describe("appointment duration in prompts", () => {
       expect(prompt).not.toContain("Standard appointment duration");
     });
   });
+
+  describe("services catalog", () => {
+    const services = [
+      { name: "Checkup", durationMinutes: 30, staffNames: ["Dr. Smith", "Dr. Lee"] },
+      { name: "Whitening", durationMinutes: 90, description: "In-chair whitening" },
+    ];
+
+    it("should list each service with its duration and staff", () => {
+      const section = buildSchedulingSection("America/New_York", undefined, 45, services);
+      expect(section).toContain("Services offered:");
+      expect(section).toContain("- Checkup (30 minutes) with Dr. Smith, Dr. Lee");
+      expect(section).toContain("- Whitening (90 minutes) \u2013 In-chair whitening");
+      expect(section).toContain("service argument");
+    });
+
+    it("should replace the standard duration line when services exist", () => {
+      const section = buildSchedulingSection("America/New_York", undefined, 45, services);
+      expect(section).not.toContain("Standard appointment duration");
+    });
+
+    it("should pass services through PromptContext", () => {
+      const config = getDefaultConfig("dental");
+      const prompt = buildPromptFromConfig(config, {
+        businessName: "Happy Smiles Dental",
+        industry: "dental",
+        services,
+      });
+      expect(prompt).toContain("- Checkup (30 minutes)");
+    });
+  });
+
+  describe("staff", () => {
+    it("should name the staff and explain the staff argument", () => {
+      const section = buildSchedulingSection(undefined, undefined, undefined, undefined, ["Dr. Lee", "Dr. Smith"]);
+      expect(section).toContain("Staff: Dr. Lee, Dr. Smith.");
+      expect(section).toContain('pass "anyone"');
+    });
+
+    it("should leave the staff lines out when there are no staff", () => {
+      const section = buildSchedulingSection("America/New_York", undefined, 30, undefined, []);
+      expect(section).not.toContain("Staff:");
+    });
+  });
+
+  describe("special hours", () => {
+    it("should list closures and extended hours as overriding the weekly hours", () => {
+      const section = buildSchedulingSection("America/New_York", undefined, undefined, undefined, undefined, [
+        { date: "2026-12-24", name: "Christmas Eve", open: "09:00", close: "13:00" },
+        { date: "2026-12-25", name: "Christmas Day" },
+      ]);
+      expect(section).toContain("override the weekly hours");
+      expect(section).toContain("- Thursday, December 24, 2026: 9 AM \u2013 1 PM (Christmas Eve)");
+      expect(section).toContain("- Friday, December 25, 2026: Closed (Christmas Day)");
+      expect(section).toContain("we're closed for the holiday");
+    });
+
+    it("should leave the section out when there are no special hours", () => {
+      const section = buildSchedulingSection("America/New_York", undefined, undefined, undefined, undefined, []);
+      expect(section).not.toContain("Special Hours");
+    });
+  });
 });
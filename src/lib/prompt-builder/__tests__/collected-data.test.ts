@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { checkCollectedData } from "../collected-data";
+import { getDefaultConfig } from "../defaults";
+import { getIntentPresets } from "../intent-presets";
+import type { PromptConfig } from "../types";
+
+function makeConfig(): PromptConfig {
+  const config = getDefaultConfig("restaurant");
+  config.fields = [
+    ...config.fields,
+    {
+      id: "extras",
+      label: "Extras",
+      type: "multiselect",
+      required: false,
+      verification: "none",
+      category: "other",
+      options: [{ value: "Highchair" }, { value: "Birthday cake", synonyms: ["cake"] }],
+    },
+  ];
+  config.intents = getIntentPresets("dental");
+  return config;
+}
+
+describe("checkCollectedData", () => {
+  it("maps synonyms to the option value, ignoring case", () => {
+    const { data, invalidKeys } = checkCollectedData(makeConfig(), {
+      seating_preference: "Patio.",
+      has_insurance: "YEAH",
+    });
+    expect(data.seating_preference).toBe("Outdoor");
+    expect(data.has_insurance).toBe("Yes");
+    expect(invalidKeys).toEqual([]);
+  });
+
+  it("checks each multiselect answer", () => {
+    expect(checkCollectedData(makeConfig(), { extras: ["cake", "highchair"] }).data.extras).toEqual([
+      "Birthday cake",
+      "Highchair",
+    ]);
+    expect(checkCollectedData(makeConfig(), { extras: "cake, balloons" }).invalidKeys).toEqual(["extras"]);
+  });
+
+  it("keeps unmatched answers and reports their keys", () => {
+    const { data, invalidKeys } = checkCollectedData(makeConfig(), {
+      seating_preference: "rooftop",
+      call_intent: "complaint",
+      full_name: "Jane Smith",
+    });
+    expect(data.seating_preference).toBe("rooftop");
+    expect(invalidKeys).toEqual(["seating_preference", "call_intent"]);
+  });
+
+  it("ignores missing answers and fields without options", () => {
+    const { invalidKeys } = checkCollectedData(makeConfig(), {
+      seating_preference: null,
+      party_size: "a dozen",
+      call_intent: "other",
+    });
+    expect(invalidKeys).toEqual([]);
+  });
+});
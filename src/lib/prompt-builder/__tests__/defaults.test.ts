@@ -19,8 +19,9 @@ describe("defaults", () => {
     it("should return a valid PromptConfig for every industry", () => {
       allIndustries.forEach((industry) => {
         const config = getDefaultConfig(industry);
-        expect(config.version).toBe(1);
+        expect(config.version).toBe(2);
         expect(Array.isArray(config.fields)).toBe(true);
+        expect(config.intents).toEqual([]);
         expect(config.fields.length).toBeGreaterThan(0);
         expect(config.behaviors).toBeDefined();
         expect(["professional", "friendly", "casual"]).toContain(config.tone);
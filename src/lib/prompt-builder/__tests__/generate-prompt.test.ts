@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { buildPromptFromConfig, generateGreeting } from "../generate-prompt";
 import { getDefaultConfig } from "../defaults";
+import { getIntentPresets } from "../intent-presets";
 import type { PromptConfig, CollectionField } from "../types";
 
 describe("generate-prompt", () => {
@@ -101,7 +102,7 @@ describe("generate-prompt", () => {
 
     it("should skip verification instruction for 'none' method", () => {
       const config: PromptConfig = {
-        version: 1,
+        version: 2,
         fields: [
           {
             id: "test",
@@ -112,6 +113,7 @@ describe("generate-prompt", () => {
             category: "other",
           },
         ],
+        intents: [],
         behaviors: {
           scheduleAppointments: false,
           handleEmergencies: false,
@@ -133,8 +135,9 @@ describe("generate-prompt", () => {
 
     it("should handle empty fields array", () => {
       const config: PromptConfig = {
-        version: 1,
+        version: 2,
         fields: [],
+        intents: [],
         behaviors: {
           scheduleAppointments: false,
           handleEmergencies: false,
@@ -367,5 +370,92 @@ describe("generate-prompt", () => {
       const greeting = generateGreeting("friendly", "");
       expect(greeting).toContain("{business_name}");
     });
+
+    it("should greet in the given language", () => {
+      const greeting = generateGreeting("professional", "Clínica Sol", "es");
+      expect(greeting).toBe("Gracias por llamar a Clínica Sol. ¿En qué puedo ayudarle hoy?");
+    });
+  });
+
+  describe("languages", () => {
+    it("should leave English-only prompts unchanged", () => {
+      const config = getDefaultConfig("dental");
+      const context = { businessName: "Test Dental", industry: "dental" };
+      expect(buildPromptFromConfig(config, { ...context, languages: ["en"] })).toBe(
+        buildPromptFromConfig(config, context)
+      );
+      expect(buildPromptFromConfig(config, context)).not.toContain("LANGUAGE:");
+    });
+
+    it("should answer in the primary language and offer the others", () => {
+      const prompt = buildPromptFromConfig(getDefaultConfig("dental"), {
+        businessName: "Test Dental",
+        industry: "dental",
+        languages: ["vi", "en"],
+      });
+      expect(prompt).toContain("Speak Vietnamese for the rest of the call");
+      expect(prompt).toContain("You can also speak English");
+    });
+  });
+
+  describe("field options", () => {
+    it("should list allowed answers with their synonyms", () => {
+      const prompt = buildPromptFromConfig(getDefaultConfig("restaurant"), baseContext);
+      expect(prompt).toContain(
+        'Allowed answers (one): Indoor (or "inside"), Outdoor (or "outside", "patio"), Bar, Private room'
+      );
+    });
+
+    it("should list allowed answers for intent fields", () => {
+      const config: PromptConfig = { ...getDefaultConfig("dental"), intents: getIntentPresets("dental") };
+      const prompt = buildPromptFromConfig(config, baseContext);
+      expect(prompt).toContain('     Allowed answers (one): Yes (or "yeah", "yep", "I do", "correct")');
+    });
+  });
+
+  describe("intents", () => {
+    const withIntents = (): PromptConfig => ({
+      ...getDefaultConfig("dental"),
+      intents: getIntentPresets("dental"),
+    });
+
+    it("should leave the prompt unchanged when there are no intents", () => {
+      const prompt = buildPromptFromConfig(getDefaultConfig("dental"), baseContext);
+      expect(prompt).not.toContain("CALL TYPES:");
+    });
+
+    it("should list each intent with its fields and outcome", () => {
+      const prompt = buildPromptFromConfig(withIntents(), baseContext);
+      expect(prompt).toContain("CALL TYPES:");
+      expect(prompt).toContain("1. New booking \u2013 A new patient wants to book their first appointment");
+      expect(prompt).toContain("   - Has Insurance (required)");
+      expect(prompt).toContain("   Outcome: Book an appointment");
+      expect(prompt).toContain("3. Emergency");
+      expect(prompt).toContain("   Outcome: Transfer the call to a team member.");
+      expect(prompt).toContain("   Outcome: Take a message");
+    });
+
+    it("should render conditions with the label of the field they depend on", () => {
+      const prompt = buildPromptFromConfig(withIntents(), baseContext);
+      expect(prompt).toContain('   - Insurance Provider (required, only ask if Has Insurance is "Yes")');
+    });
+
+    it("should render conditions on shared fields", () => {
+      const config = getDefaultConfig("other");
+      config.fields = [
+        ...config.fields,
+        {
+          id: "callback_time",
+          label: "Best Callback Time",
+          type: "text",
+          required: false,
+          verification: "none",
+          category: "other",
+          condition: { fieldId: "phone_number", equals: "a mobile" },
+        },
+      ];
+      const prompt = buildPromptFromConfig(config, baseContext);
+      expect(prompt).toContain('- Best Callback Time (only ask if Phone Number is "a mobile")');
+    });
   });
 });
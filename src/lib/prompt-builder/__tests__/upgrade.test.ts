@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { upgradePromptConfig } from "../upgrade";
+import { buildPromptFromConfig } from "../generate-prompt";
+import { getDefaultConfig } from "../defaults";
+import { getIntentPresets } from "../intent-presets";
+import { promptConfigSchema } from "../types";
+import type { PromptConfig, PromptConfigV1 } from "../types";
+
+function makeV1(): PromptConfigV1 {
+  const { intents: _intents, ...rest } = getDefaultConfig("dental");
+  return { ...rest, version: 1 };
+}
+
+describe("upgradePromptConfig", () => {
+  it("upgrades v1 to v2 with no intents", () => {
+    const upgraded = upgradePromptConfig(makeV1());
+    expect(upgraded.version).toBe(2);
+    expect(upgraded.intents).toEqual([]);
+    expect(upgraded.fields).toEqual(makeV1().fields);
+  });
+
+  it("renders the same prompt after upgrading", () => {
+    const context = { businessName: "Test Dental", industry: "dental" };
+    expect(buildPromptFromConfig(upgradePromptConfig(makeV1()), context)).toBe(
+      buildPromptFromConfig(getDefaultConfig("dental"), context)
+    );
+  });
+
+  it("leaves v2 configs alone", () => {
+    const config = getDefaultConfig("dental");
+    expect(upgradePromptConfig(config)).toBe(config);
+  });
+});
+
+describe("promptConfigSchema", () => {
+  it("accepts v1 and returns v2", () => {
+    const result = promptConfigSchema.safeParse(makeV1());
+    expect(result.success).toBe(true);
+    expect(result.data?.version).toBe(2);
+    expect(result.data?.intents).toEqual([]);
+  });
+
+  it("accepts the intent presets", () => {
+    const config: PromptConfig = { ...getDefaultConfig("medical"), intents: getIntentPresets("medical") };
+    expect(promptConfigSchema.safeParse(config).success).toBe(true);
+  });
+
+  it("rejects duplicate intent ids", () => {
+    const [preset] = getIntentPresets("dental");
+    const config: PromptConfig = { ...getDefaultConfig("dental"), intents: [preset, preset] };
+    expect(promptConfigSchema.safeParse(config).success).toBe(false);
+  });
+
+  it("rejects conditions on a field that is not asked earlier", () => {
+    const [preset] = getIntentPresets("dental");
+    const config: PromptConfig = {
+      ...getDefaultConfig("dental"),
+      intents: [{ ...preset, fields: [...preset.fields].reverse() }],
+    };
+    expect(promptConfigSchema.safeParse(config).success).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import type { CollectionField, PromptConfig } from "./types";
+import { CALL_INTENT_KEY, labelToKey } from "./generate-prompt";
+
+export interface CollectedDataCheck {
+  /** The collected data with each matched answer replaced by its option value */
+  data: Record<string, unknown>;
+  /** Keys whose value matched none of the field's options */
+  invalidKeys: string[];
+}
+
+function normalizeAnswer(answer: string): string {
+  return answer.trim().toLowerCase().replace(/[.!?]+$/, "");
+}
+
+/** The option an answer matches by value or synonym, ignoring case */
+function matchOption(field: CollectionField, answer: unknown): string | null {
+  if (typeof answer !== "string") return null;
+  const normalized = normalizeAnswer(answer);
+  const option = field.options?.find((o) =>
+    [o.value, ...(o.synonyms ?? [])].some((candidate) => normalizeAnswer(candidate) === normalized)
+  );
+  return option?.value ?? null;
+}
+
+/**
+ * Check post-call collected data against the select fields' options (and the
+ * intent list). Matched answers are stored as the option value; anything
+ * else is kept as collected and reported in invalidKeys so the call can be
+ * flagged for review.
+ */
+export function checkCollectedData(config: PromptConfig, data: Record<string, unknown>): CollectedDataCheck {
+  const checked = { ...data };
+  const invalidKeys: string[] = [];
+  const checkedKeys = new Set<string>();
+
+  // Same key rules as buildAnalysisPlan: the first field with a key wins
+  for (const field of [...config.fields, ...config.intents.flatMap((intent) => intent.fields)]) {
+    const key = labelToKey(field.label);
+    if (!key || checkedKeys.has(key)) continue;
+    checkedKeys.add(key);
+
+    const value = data[key];
+    if (!field.options?.length || value === null || value === undefined || value === "") continue;
+
+    if (field.type === "multiselect") {
+      const answers = Array.isArray(value) ? value : String(value).split(",");
+      const matched = answers.map((answer) => matchOption(field, answer));
+      if (matched.some((match) => match === null)) {
+        invalidKeys.push(key);
+      } else {
+        checked[key] = [...new Set(matched)];
+      }
+      continue;
+    }
+
+    const match = matchOption(field, value);
+    if (match === null) {
+      invalidKeys.push(key);
+    } else {
+      checked[key] = match;
+    }
+  }
+
+  const intent = data[CALL_INTENT_KEY];
+  if (config.intents.length > 0 && intent !== null && intent !== undefined && intent !== "") {
+    const intentIds = [...config.intents.map((i) => i.id), "other"];
+    if (typeof intent !== "string" || !intentIds.includes(intent)) {
+      invalidKeys.push(CALL_INTENT_KEY);
+    }
+  }
+
+  return { data: checked, invalidKeys };
+}
@@ -52,8 +52,9 @@ export function getDefaultConfig(industry: string): PromptConfig {
   const industryFields = fieldPresetsByIndustry[category as keyof typeof fieldPresetsByIndustry] || [];
 
   return {
-    version: 1,
+    version: 2,
     fields: [...universalFields, ...industryFields],
+    intents: [],
     behaviors: getDefaultBehaviors(industry),
     tone: getDefaultTone(industry),
     customInstructions: "",
@@ -1,4 +1,9 @@
-import type { CollectionField, FieldCategory } from "./types";
+import type { CollectionField, FieldCategory, FieldOption } from "./types";
+
+export const yesNoOptions: FieldOption[] = [
+  { value: "Yes", synonyms: ["yeah", "yep", "I do", "correct"] },
+  { value: "No", synonyms: ["nope", "I don't", "not really"] },
+];
 
 // Universal fields — shown for all industries
 export const universalFields: CollectionField[] = [
@@ -210,6 +215,11 @@ const homeServicesFields: CollectionField[] = [
     verification: "none",
     category: "home_services",
     description: "Routine, Urgent, or Emergency",
+    options: [
+      { value: "Routine" },
+      { value: "Urgent", synonyms: ["soon", "as soon as possible"] },
+      { value: "Emergency" },
+    ],
   },
   {
     id: "preferred_date_time",
@@ -264,6 +274,11 @@ const realEstateFields: CollectionField[] = [
     required: true,
     verification: "none",
     category: "real_estate",
+    options: [
+      { value: "Buying", synonyms: ["buy", "purchase"] },
+      { value: "Selling", synonyms: ["sell"] },
+      { value: "Renting", synonyms: ["rent", "lease"] },
+    ],
   },
   {
     id: "timeline",
@@ -376,6 +391,7 @@ const automotiveFields: CollectionField[] = [
     required: false,
     verification: "none",
     category: "automotive",
+    options: yesNoOptions,
   },
 ];
 
@@ -437,6 +453,7 @@ const veterinaryFields: CollectionField[] = [
     required: false,
     verification: "none",
     category: "veterinary",
+    options: yesNoOptions,
   },
 ];
 
@@ -483,6 +500,12 @@ const restaurantFields: CollectionField[] = [
     verification: "none",
     category: "restaurant",
     description: "Indoor, Outdoor, Bar, Private room",
+    options: [
+      { value: "Indoor", synonyms: ["inside"] },
+      { value: "Outdoor", synonyms: ["outside", "patio"] },
+      { value: "Bar" },
+      { value: "Private room" },
+    ],
   },
 ];
 
@@ -1,4 +1,5 @@
-import type { PromptConfig, CollectionField, TonePreset, VerificationMethod, FieldType } from "./types";
+import type { PromptConfig, CollectionField, TonePreset, VerificationMethod, FieldType, IntentOutcome } from "./types";
+import { buildLanguageSection, DEFAULT_LANGUAGE, type LanguageCode } from "@/lib/languages/languages";
 
 export interface PromptContext {
   businessName: string;
@@ -7,6 +8,29 @@ export interface PromptContext {
   timezone?: string;
   businessHours?: Record<string, { open: string; close: string } | null>;
   defaultAppointmentDuration?: number;
+  services?: PromptService[];
+  /** Active staff the caller can ask for by name */
+  staffNames?: string[];
+  /** Upcoming holidays, closures and extended hours */
+  specialHours?: PromptSpecialHours[];
+  /** Languages the assistant speaks, primary first (default English only) */
+  languages?: LanguageCode[];
+}
+
+/** A dated exception to the weekly hours; no open/close means closed */
+export interface PromptSpecialHours {
+  date: string;
+  name: string;
+  open?: string | null;
+  close?: string | null;
+}
+
+/** A bookable service as described to the agent */
+export interface PromptService {
+  name: string;
+  durationMinutes: number;
+  description?: string | null;
+  staffNames?: string[];
 }
 
 const toneDescriptions: Record<TonePreset, string> = {
@@ -50,6 +74,59 @@ function formatHourForPrompt(time: string): string {
   return `${hour12}${mins} ${period}`;
 }
 
+/**
+ * List the services catalog so the agent knows what can be booked and asks
+ * the caller which one they want.
+ */
+function buildServicesLines(services: PromptService[]): string[] {
+  const lines = ["", "Services offered:"];
+  for (const service of services) {
+    let line = `- ${service.name} (${service.durationMinutes} minutes)`;
+    if (service.staffNames && service.staffNames.length > 0) {
+      line += ` with ${service.staffNames.join(", ")}`;
+    }
+    if (service.description) {
+      line += ` \u2013 ${service.description}`;
+    }
+    lines.push(line);
+  }
+  lines.push("");
+  lines.push(
+    "Ask which service the caller wants before checking availability, and pass its exact name as the service argument to check_availability and book_appointment."
+  );
+  return lines;
+}
+
+/**
+ * List upcoming holidays and special hours. These override the weekly
+ * hours, so the agent tells callers "we're closed for Christmas Day"
+ * instead of offering times.
+ */
+function buildSpecialHoursLines(specialHours: PromptSpecialHours[]): string[] {
+  const lines = ["", "Holidays & Special Hours (these override the weekly hours above):"];
+  for (const entry of specialHours) {
+    const dateLabel = new Date(`${entry.date}T12:00:00Z`).toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+    if (entry.open && entry.close) {
+      lines.push(
+        `- ${dateLabel}: ${formatHourForPrompt(entry.open)} \u2013 ${formatHourForPrompt(entry.close)} (${entry.name})`
+      );
+    } else {
+      lines.push(`- ${dateLabel}: Closed (${entry.name})`);
+    }
+  }
+  lines.push("");
+  lines.push(
+    "If the caller asks about one of these dates, or calls on a day we're closed, tell them we're closed for the holiday and offer another day."
+  );
+  return lines;
+}
+
 /**
  * Build the scheduling section for the system prompt.
  * Always includes the datetime tool instruction, regardless of whether
@@ -58,7 +135,10 @@ function formatHourForPrompt(time: string): string {
 export function buildSchedulingSection(
   timezone?: string,
   businessHours?: Record<string, { open: string; close: string } | null>,
-  defaultAppointmentDuration?: number
+  defaultAppointmentDuration?: number,
+  services?: PromptService[],
+  staffNames?: string[],
+  specialHours?: PromptSpecialHours[]
 ): string {
   const lines: string[] = [];
   lines.push("TIMEZONE & SCHEDULING:");
@@ -84,10 +164,24 @@ export function buildSchedulingSection(
     lines.push("Do NOT suggest appointment times outside of these business hours.");
   }
 
-  if (defaultAppointmentDuration && defaultAppointmentDuration !== 30) {
+  if (specialHours && specialHours.length > 0) {
+    lines.push(...buildSpecialHoursLines(specialHours));
+  }
+
+  if (services && services.length > 0) {
+    lines.push(...buildServicesLines(services));
+  } else if (defaultAppointmentDuration && defaultAppointmentDuration !== 30) {
     lines.push(`Standard appointment duration is ${defaultAppointmentDuration} minutes.`);
   }
 
+  if (staffNames && staffNames.length > 0) {
+    lines.push("");
+    lines.push(`Staff: ${staffNames.join(", ")}.`);
+    lines.push(
+      `If the caller asks for someone specific, pass their name as the staff argument to check_availability and book_appointment. If they have no preference, pass "anyone".`
+    );
+  }
+
   lines.push(
     `CRITICAL: Before interpreting ANY relative date or time reference (such as "today", "tomorrow", "next week", "this afternoon", etc.), you MUST call the get_current_datetime tool FIRST to get the actual current date and time. ` +
     `NEVER guess or assume what today's date is. Always call the tool. Use the YYYY-MM-DD date returned by the tool when calling check_availability or book_appointment.`
@@ -183,7 +277,54 @@ General Guidelines:
   }
 }
 
-function buildFieldCollectionSection(fields: CollectionField[]): string {
+/** Field labels by id, so conditions can name the field they depend on */
+function getFieldLabels(config: PromptConfig): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const field of [...config.fields, ...config.intents.flatMap((intent) => intent.fields)]) {
+    labels.set(field.id, field.label);
+  }
+  return labels;
+}
+
+function getConditionNote(field: CollectionField, labels: Map<string, string>): string {
+  if (!field.condition) return "";
+  const dependsOn = labels.get(field.condition.fieldId) ?? field.condition.fieldId;
+  return `only ask if ${dependsOn} is "${field.condition.equals}"`;
+}
+
+/**
+ * The allowed answers for a select field, with the synonyms callers use, e.g.
+ * 'Allowed answers (one): Yes (or "yeah", "I do"), No'.
+ */
+function getOptionsNote(field: CollectionField): string {
+  if (!field.options || field.options.length === 0) return "";
+  const choices = field.options.map((option) =>
+    option.synonyms && option.synonyms.length > 0
+      ? `${option.value} (or ${option.synonyms.map((synonym) => `"${synonym}"`).join(", ")})`
+      : option.value
+  );
+  const count = field.type === "multiselect" ? "any that apply" : "one";
+  return `Allowed answers (${count}): ${choices.join(", ")}`;
+}
+
+function buildFieldLine(field: CollectionField, labels: Map<string, string>): string {
+  let line = `- ${field.label}`;
+  const conditionNote = getConditionNote(field, labels);
+  if (conditionNote) {
+    line += ` (${conditionNote})`;
+  }
+  const optionsNote = getOptionsNote(field);
+  if (optionsNote) {
+    line += `\n  ${optionsNote}`;
+  }
+  const verifyNote = getVerificationInstruction(field.verification, field.label);
+  if (verifyNote) {
+    line += `\n  ${verifyNote}`;
+  }
+  return `${line}\n`;
+}
+
+function buildFieldCollectionSection(fields: CollectionField[], labels: Map<string, string>): string {
   if (fields.length === 0) return "";
 
   const required = fields.filter((f) => f.required);
@@ -194,30 +335,65 @@ function buildFieldCollectionSection(fields: CollectionField[]): string {
   if (required.length > 0) {
     section += "Required information:\n";
     for (const field of required) {
-      section += `- ${field.label}`;
-      const verifyNote = getVerificationInstruction(field.verification, field.label);
-      if (verifyNote) {
-        section += `\n  ${verifyNote}`;
-      }
-      section += "\n";
+      section += buildFieldLine(field, labels);
     }
   }
 
   if (optional.length > 0) {
     section += "\nOptional (collect if relevant):\n";
     for (const field of optional) {
-      section += `- ${field.label}`;
-      const verifyNote = getVerificationInstruction(field.verification, field.label);
-      if (verifyNote) {
-        section += `\n  ${verifyNote}`;
-      }
-      section += "\n";
+      section += buildFieldLine(field, labels);
     }
   }
 
   return section;
 }
 
+const intentOutcomes: Record<IntentOutcome, string> = {
+  book: "Book an appointment, confirming the date and time with the caller.",
+  transfer: "Transfer the call to a team member. If nobody can take it, take a message.",
+  take_message: "Take a message and let the caller know someone will call them back.",
+};
+
+/**
+ * One entry per intent: how to recognize it, what to collect on top of the
+ * shared fields, and how the call should end.
+ */
+function buildIntentsSection(config: PromptConfig, labels: Map<string, string>): string {
+  if (config.intents.length === 0) return "";
+
+  const lines = [
+    "CALL TYPES:",
+    "Work out early in the call which of these the caller needs. Collect that call type's information as well as the information above, then finish with its outcome. If none fit, help the caller as usual.",
+  ];
+
+  config.intents.forEach((intent, index) => {
+    lines.push("");
+    const description = intent.description.trim();
+    lines.push(`${index + 1}. ${intent.label}${description ? ` \u2013 ${description}` : ""}`);
+
+    if (intent.fields.length > 0) {
+      lines.push("   Collect:");
+      for (const field of intent.fields) {
+        const notes = [field.required ? "required" : "optional", getConditionNote(field, labels)].filter(Boolean);
+        lines.push(`   - ${field.label} (${notes.join(", ")})`);
+        const optionsNote = getOptionsNote(field);
+        if (optionsNote) {
+          lines.push(`     ${optionsNote}`);
+        }
+        const verifyNote = getVerificationInstruction(field.verification, field.label);
+        if (verifyNote) {
+          lines.push(`     ${verifyNote}`);
+        }
+      }
+    }
+
+    lines.push(`   Outcome: ${intentOutcomes[intent.outcome]}`);
+  });
+
+  return lines.join("\n");
+}
+
 function buildBehaviorsSection(behaviors: PromptConfig["behaviors"]): string {
   const lines: string[] = [];
 
@@ -225,7 +401,7 @@ function buildBehaviorsSection(behaviors: PromptConfig["behaviors"]): string {
 
   if (behaviors.scheduleAppointments) {
     lines.push(
-      "- SCHEDULING: You can help callers schedule, reschedule, or cancel appointments. Offer available times and confirm all details."
+      "- SCHEDULING: You can help callers schedule, reschedule, or cancel appointments. Offer available times and confirm all details. If no times work, offer to add them to the waitlist."
     );
   }
 
@@ -275,17 +451,28 @@ export function buildPromptFromConfig(config: PromptConfig, context: PromptConte
   const kb = context.knowledgeBase || "No additional business information provided yet.";
   sections.push(`Business Information:\n${kb}`);
 
-  // 3. Data collection with verification
-  const fieldSection = buildFieldCollectionSection(config.fields);
+  // 3. Data collection with verification, then per-intent fields and outcomes
+  const labels = getFieldLabels(config);
+  const fieldSection = buildFieldCollectionSection(config.fields, labels);
   if (fieldSection) {
     sections.push(fieldSection);
   }
+  sections.push(buildIntentsSection(config, labels));
 
   // 4. Behaviors
   sections.push(buildBehaviorsSection(config.behaviors));
 
   // 5. Timezone, business hours & scheduling instructions (always included)
-  sections.push(buildSchedulingSection(context.timezone, context.businessHours, context.defaultAppointmentDuration));
+  sections.push(
+    buildSchedulingSection(
+      context.timezone,
+      context.businessHours,
+      context.defaultAppointmentDuration,
+      context.services,
+      context.staffNames,
+      context.specialHours
+    )
+  );
 
   // 6. Industry guidelines
   const guidelines = getIndustryGuidelines(context.industry);
@@ -298,22 +485,43 @@ export function buildPromptFromConfig(config: PromptConfig, context: PromptConte
     sections.push(`ADDITIONAL INSTRUCTIONS:\n${config.customInstructions.trim()}`);
   }
 
+  // 8. Language (answers in the primary language)
+  const languages = context.languages?.length ? context.languages : [DEFAULT_LANGUAGE];
+  sections.push(buildLanguageSection(languages[0], languages));
+
   return sections.filter(Boolean).join("\n\n");
 }
 
+const GREETINGS: Record<LanguageCode, Record<TonePreset, (name: string) => string>> = {
+  en: {
+    professional: (name) => `Thank you for calling ${name}. How may I assist you today?`,
+    friendly: (name) => `Hi there! Thanks for calling ${name}. How can I help you today?`,
+    casual: (name) => `Hey! You've reached ${name}. What can I do for you?`,
+  },
+  es: {
+    professional: (name) => `Gracias por llamar a ${name}. ¿En qué puedo ayudarle hoy?`,
+    friendly: (name) => `¡Hola! Gracias por llamar a ${name}. ¿Cómo le puedo ayudar hoy?`,
+    casual: (name) => `¡Hola! Se comunicó con ${name}. ¿Qué puedo hacer por usted?`,
+  },
+  zh: {
+    professional: (name) => `感谢您致电${name}。请问今天有什么可以帮您？`,
+    friendly: (name) => `您好！感谢您致电${name}。今天有什么可以帮您的吗？`,
+    casual: (name) => `嗨！这里是${name}。有什么可以帮您的？`,
+  },
+  vi: {
+    professional: (name) => `Cảm ơn quý khách đã gọi đến ${name}. Tôi có thể giúp gì cho quý khách hôm nay?`,
+    friendly: (name) => `Xin chào! Cảm ơn bạn đã gọi đến ${name}. Hôm nay tôi có thể giúp gì cho bạn?`,
+    casual: (name) => `Chào bạn! Đây là ${name}. Mình có thể giúp gì cho bạn?`,
+  },
+};
+
 export function generateGreeting(
   tone: TonePreset,
-  businessName: string
+  businessName: string,
+  language: LanguageCode = DEFAULT_LANGUAGE
 ): string {
   const name = businessName || "{business_name}";
-  switch (tone) {
-    case "professional":
-      return `Thank you for calling ${name}. How may I assist you today?`;
-    case "friendly":
-      return `Hi there! Thanks for calling ${name}. How can I help you today?`;
-    case "casual":
-      return `Hey! You've reached ${name}. What can I do for you?`;
-  }
+  return GREETINGS[language][tone](name);
 }
 
 // Maps FieldType to JSON Schema type
@@ -331,6 +539,8 @@ function fieldTypeToJsonSchema(fieldType: FieldType): string {
       return "string";
     case "select":
       return "string";
+    case "multiselect":
+      return "array";
     case "text":
     default:
       return "string";
@@ -338,7 +548,7 @@ function fieldTypeToJsonSchema(fieldType: FieldType): string {
 }
 
 // Converts a field label to a snake_case key for the JSON schema
-function labelToKey(label: string): string {
+export function labelToKey(label: string): string {
   return label
     .toLowerCase()
     .replace(/[^a-z0-9\s]/g, "")
@@ -347,42 +557,104 @@ function labelToKey(label: string): string {
     .replace(/^_|_$/g, "");
 }
 
+export interface AnalysisProperty {
+  type: string;
+  description: string;
+  enum?: string[];
+  /** Item schema for multiselect fields */
+  items?: { type: string; enum?: string[] };
+}
+
+/**
+ * Schema for one field. Select fields with options only accept those values,
+ * and multiselect fields are arrays of them.
+ */
+function buildAnalysisProperty(field: CollectionField): AnalysisProperty {
+  const description = field.description || field.label;
+  const values = field.options?.map((option) => option.value);
+  if (field.type === "multiselect") {
+    return {
+      type: "array",
+      description,
+      items: { type: "string", ...(values?.length && { enum: values }) },
+    };
+  }
+  return {
+    type: fieldTypeToJsonSchema(field.type),
+    description,
+    ...(values?.length && { enum: values }),
+  };
+}
+
+/** e.g. "Urgency Level (urgency_level): How urgent (one of: Routine, Urgent, Emergency)" */
+function describeAnalysisField(field: CollectionField, key: string): string {
+  const description = field.description || field.label;
+  const values = field.options?.map((option) => option.value);
+  const allowed = values?.length
+    ? ` (${field.type === "multiselect" ? "any of" : "one of"}: ${values.join(", ")})`
+    : "";
+  return `${field.label} (${key}): ${description}${allowed}`;
+}
+
 export interface AnalysisPlan {
   structuredDataPrompt: string;
   structuredDataSchema: {
     type: "object";
-    properties: Record<string, { type: string; description: string }>;
+    properties: Record<string, AnalysisProperty>;
     required?: string[];
   };
   successEvaluationRubric: "PassFail";
 }
 
+/** Key the analysis plan stores the recognized intent under */
+export const CALL_INTENT_KEY = "call_intent";
+
 export function buildAnalysisPlan(config: PromptConfig): AnalysisPlan | null {
-  if (!config.fields || config.fields.length === 0) {
+  if (config.fields.length === 0 && config.intents.length === 0) {
     return null;
   }
 
-  const properties: Record<string, { type: string; description: string }> = {};
+  const properties: AnalysisPlan["structuredDataSchema"]["properties"] = {};
   const required: string[] = [];
   const fieldDescriptions: string[] = [];
 
+  // Shared fields; conditional ones are only required when asked
   for (const field of config.fields) {
     const key = labelToKey(field.label);
     if (!key) continue;
 
-    const jsonType = fieldTypeToJsonSchema(field.type);
-    const description = field.description || field.label;
+    properties[key] = buildAnalysisProperty(field);
 
-    properties[key] = {
-      type: jsonType,
-      description,
-    };
-
-    if (field.required) {
+    if (field.required && !field.condition) {
       required.push(key);
     }
 
-    fieldDescriptions.push(`- ${field.label} (${key}): ${description}`);
+    fieldDescriptions.push(`- ${describeAnalysisField(field, key)}`);
+  }
+
+  // Intent fields only apply to calls of that intent, so none are required
+  if (config.intents.length > 0) {
+    properties[CALL_INTENT_KEY] = {
+      type: "string",
+      description: "Which call type this was",
+      enum: [...config.intents.map((intent) => intent.id), "other"],
+    };
+    const intentList = config.intents.map((intent) => `${intent.id} (${intent.label})`).join(", ");
+    fieldDescriptions.push(`- Call type (${CALL_INTENT_KEY}): one of ${intentList}, or other`);
+
+    for (const intent of config.intents) {
+      const intentDescriptions: string[] = [];
+      for (const field of intent.fields) {
+        const key = labelToKey(field.label);
+        if (!key || key in properties) continue;
+
+        properties[key] = buildAnalysisProperty(field);
+        intentDescriptions.push(`  - ${describeAnalysisField(field, key)}`);
+      }
+      if (intentDescriptions.length > 0) {
+        fieldDescriptions.push(`- For ${intent.label} calls:`, ...intentDescriptions);
+      }
+    }
   }
 
   if (Object.keys(properties).length === 0) {
@@ -1,6 +1,11 @@
 export type {
   PromptConfig,
+  PromptConfigV1,
   CollectionField,
+  FieldCondition,
+  FieldOption,
+  CallIntent,
+  IntentOutcome,
   BehaviorToggles,
   TonePreset,
   FieldType,
@@ -11,6 +16,10 @@ export type {
 export { promptConfigSchema } from "./types";
 
 export { fieldPresetsByIndustry, universalFields, getFieldsForIndustry } from "./field-presets";
-export { buildPromptFromConfig, generateGreeting, buildAnalysisPlan, buildSchedulingSection } from "./generate-prompt";
-export type { AnalysisPlan, PromptContext } from "./generate-prompt";
+export { getIntentPresets } from "./intent-presets";
+export { buildPromptFromConfig, generateGreeting, buildAnalysisPlan, buildSchedulingSection, CALL_INTENT_KEY } from "./generate-prompt";
+export type { AnalysisPlan, AnalysisProperty, PromptContext, PromptService } from "./generate-prompt";
+export { checkCollectedData } from "./collected-data";
+export type { CollectedDataCheck } from "./collected-data";
 export { getDefaultConfig } from "./defaults";
+export { upgradePromptConfig } from "./upgrade";
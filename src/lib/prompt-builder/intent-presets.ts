@@ -0,0 +1,100 @@
+import type { CallIntent, CollectionField, FieldCategory } from "./types";
+import { fieldPresetsByIndustry, yesNoOptions } from "./field-presets";
+
+// Industries whose callers are patients rather than clients
+const patientIndustries = ["medical", "dental", "veterinary"];
+
+// Industries that ask about insurance before booking
+const insuranceIndustries = ["medical", "dental"];
+
+function getInsuranceFields(category: FieldCategory): CollectionField[] {
+  return [
+    {
+      id: "has_insurance",
+      label: "Has Insurance",
+      type: "select",
+      required: true,
+      verification: "none",
+      category,
+      description: "Whether the caller has insurance",
+      options: yesNoOptions,
+    },
+    {
+      id: "insurance_provider",
+      label: "Insurance Provider",
+      type: "text",
+      required: true,
+      verification: "repeat-confirm",
+      category,
+      condition: { fieldId: "has_insurance", equals: "Yes" },
+    },
+  ];
+}
+
+/**
+ * Starting points for the intents editor: new booking, existing
+ * patient/client, emergency and billing question, worded for the industry.
+ */
+export function getIntentPresets(industry: string): CallIntent[] {
+  const category = (industry in fieldPresetsByIndustry ? industry : "other") as FieldCategory;
+  const who = patientIndustries.includes(industry) ? "patient" : "client";
+
+  return [
+    {
+      id: "new_booking",
+      label: "New booking",
+      description: `A new ${who} wants to book their first appointment`,
+      fields: [
+        ...(insuranceIndustries.includes(industry) ? getInsuranceFields(category) : []),
+        {
+          id: "preferred_date_time",
+          label: "Preferred Date/Time",
+          type: "text",
+          required: false,
+          verification: "repeat-confirm",
+          category,
+        },
+      ],
+      outcome: "book",
+    },
+    {
+      id: `existing_${who}`,
+      label: `Existing ${who}`,
+      description: `A returning ${who} wants to book, change or ask about an appointment`,
+      fields: [],
+      outcome: "book",
+    },
+    {
+      id: "emergency",
+      label: "Emergency",
+      description: "The caller describes something urgent or dangerous",
+      fields: [
+        {
+          id: "emergency_description",
+          label: "Emergency Description",
+          type: "text",
+          required: true,
+          verification: "none",
+          category,
+        },
+      ],
+      outcome: "transfer",
+    },
+    {
+      id: "billing_question",
+      label: "Billing question",
+      description: "The caller has a question about a bill, invoice or payment",
+      fields: [
+        {
+          id: "billing_question",
+          label: "Billing Question",
+          type: "text",
+          required: true,
+          verification: "none",
+          category,
+        },
+      ],
+      outcome: "take_message",
+    },
+  ];
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { upgradePromptConfig } from "./upgrade";
 
 export type VerificationMethod =
   | "read-back-digits"
@@ -14,6 +15,7 @@ export type FieldType =
   | "date"
   | "number"
   | "select"
+  | "multiselect"
   | "address";
 
 export type FieldCategory =
@@ -31,6 +33,23 @@ export type FieldCategory =
 
 export type TonePreset = "professional" | "friendly" | "casual";
 
+/**
+ * Ask a field only when an earlier answer matches, e.g. "Insurance Provider"
+ * only if has_insurance = "yes". fieldId is a shared field or an earlier
+ * field of the same intent.
+ */
+export interface FieldCondition {
+  fieldId: string;
+  equals: string;
+}
+
+/** An allowed answer for a select or multiselect field */
+export interface FieldOption {
+  value: string;
+  /** Other ways callers say it, e.g. "yeah" and "I do" for "Yes" */
+  synonyms?: string[];
+}
+
 export interface CollectionField {
   id: string;
   label: string;
@@ -39,6 +58,26 @@ export interface CollectionField {
   verification: VerificationMethod;
   category: FieldCategory;
   description?: string;
+  condition?: FieldCondition;
+  /** Allowed answers for select and multiselect fields; omit to accept anything */
+  options?: FieldOption[];
+}
+
+/** How a call of a given intent should end */
+export type IntentOutcome = "book" | "transfer" | "take_message";
+
+/**
+ * A reason for calling (new booking, emergency, billing question...). Once
+ * the assistant recognizes it, it collects the intent's fields on top of the
+ * shared ones and finishes with its outcome.
+ */
+export interface CallIntent {
+  id: string;
+  label: string;
+  /** How the assistant recognizes the intent, e.g. "Caller wants their first appointment" */
+  description: string;
+  fields: CollectionField[];
+  outcome: IntentOutcome;
 }
 
 export interface BehaviorToggles {
@@ -50,7 +89,8 @@ export interface BehaviorToggles {
   afterHoursHandling: boolean;
 }
 
-export interface PromptConfig {
+/** The original flat schema. Stored configs are upgraded to v2 (see upgrade.ts) */
+export interface PromptConfigV1 {
   version: 1;
   fields: CollectionField[];
   behaviors: BehaviorToggles;
@@ -59,28 +99,115 @@ export interface PromptConfig {
   isManuallyEdited: boolean;
 }
 
-export const promptConfigSchema = z.object({
-  version: z.literal(1),
-  fields: z.array(
-    z.object({
-      id: z.string().min(1),
-      label: z.string().min(1),
-      type: z.enum(["text", "phone", "email", "date", "number", "select", "address"]),
-      required: z.boolean(),
-      verification: z.enum(["read-back-digits", "spell-out", "repeat-confirm", "read-back-characters", "none"]),
-      category: z.enum(["universal", "medical", "dental", "legal", "home_services", "real_estate", "salon", "automotive", "veterinary", "restaurant", "other"]),
-      description: z.string().optional(),
+export interface PromptConfig {
+  version: 2;
+  /** Collected on every call, whatever the intent */
+  fields: CollectionField[];
+  intents: CallIntent[];
+  behaviors: BehaviorToggles;
+  tone: TonePreset;
+  customInstructions: string;
+  isManuallyEdited: boolean;
+}
+
+const collectionFieldSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  type: z.enum(["text", "phone", "email", "date", "number", "select", "multiselect", "address"]),
+  required: z.boolean(),
+  verification: z.enum(["read-back-digits", "spell-out", "repeat-confirm", "read-back-characters", "none"]),
+  category: z.enum(["universal", "medical", "dental", "legal", "home_services", "real_estate", "salon", "automotive", "veterinary", "restaurant", "other"]),
+  description: z.string().optional(),
+  condition: z
+    .object({
+      fieldId: z.string().min(1),
+      equals: z.string().min(1),
     })
-  ),
-  behaviors: z.object({
-    scheduleAppointments: z.boolean(),
-    handleEmergencies: z.boolean(),
-    providePricingInfo: z.boolean(),
-    takeMessages: z.boolean(),
-    transferToHuman: z.boolean(),
-    afterHoursHandling: z.boolean(),
-  }),
+    .optional(),
+  options: z
+    .array(
+      z.object({
+        value: z.string().trim().min(1),
+        synonyms: z.array(z.string().trim().min(1)).optional(),
+      })
+    )
+    .max(50)
+    .optional(),
+}).superRefine((field, ctx) => {
+  if (!field.options) return;
+  if (field.type !== "select" && field.type !== "multiselect") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Only select fields can have options", path: ["options"] });
+  }
+  const values = field.options.map((option) => option.value.toLowerCase());
+  if (new Set(values).size !== values.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Options must not repeat", path: ["options"] });
+  }
+});
+
+const behaviorTogglesSchema = z.object({
+  scheduleAppointments: z.boolean(),
+  handleEmergencies: z.boolean(),
+  providePricingInfo: z.boolean(),
+  takeMessages: z.boolean(),
+  transferToHuman: z.boolean(),
+  afterHoursHandling: z.boolean(),
+});
+
+const promptConfigV1Schema = z.object({
+  version: z.literal(1),
+  fields: z.array(collectionFieldSchema),
+  behaviors: behaviorTogglesSchema,
   tone: z.enum(["professional", "friendly", "casual"]),
   customInstructions: z.string(),
   isManuallyEdited: z.boolean(),
 });
+
+const promptConfigV2Schema = promptConfigV1Schema
+  .extend({
+    version: z.literal(2),
+    intents: z.array(
+      z.object({
+        id: z.string().min(1),
+        label: z.string().min(1),
+        description: z.string(),
+        fields: z.array(collectionFieldSchema),
+        outcome: z.enum(["book", "transfer", "take_message"]),
+      })
+    ),
+  })
+  .superRefine((config, ctx) => {
+    const intentIds = new Set<string>();
+    config.intents.forEach((intent, index) => {
+      if (intentIds.has(intent.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Intent ids must be unique", path: ["intents", index, "id"] });
+      }
+      intentIds.add(intent.id);
+    });
+
+    // Conditions may only point at a field asked before the conditional one
+    const checkConditions = (fields: CollectionField[], asked: Set<string>, path: (string | number)[]) => {
+      fields.forEach((field, index) => {
+        if (field.condition && !asked.has(field.condition.fieldId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Condition on "${field.label}" must refer to an earlier field`,
+            path: [...path, index, "condition", "fieldId"],
+          });
+        }
+        asked.add(field.id);
+      });
+    };
+    const shared = new Set<string>();
+    checkConditions(config.fields, shared, ["fields"]);
+    config.intents.forEach((intent, index) => {
+      checkConditions(intent.fields, new Set(shared), ["intents", index, "fields"]);
+    });
+  });
+
+/**
+ * Accepts v1 and v2 configs and always yields v2, so clients that still send
+ * v1 keep working.
+ */
+export const promptConfigSchema = z
+  .union([promptConfigV1Schema, promptConfigV2Schema])
+  .transform((config): PromptConfig => upgradePromptConfig(config));
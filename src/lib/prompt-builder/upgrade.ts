@@ -0,0 +1,11 @@
+import type { PromptConfig, PromptConfigV1 } from "./types";
+
+/**
+ * Bring a prompt_config up to the current version. A v1 config becomes v2
+ * with no intents, which renders exactly the same prompt. Mirrors
+ * supabase/migrations/00043_prompt_config_v2.sql for configs written since.
+ */
+export function upgradePromptConfig(config: PromptConfigV1 | PromptConfig): PromptConfig {
+  if (config.version === 2) return config;
+  return { ...config, version: 2, intents: [] };
+}
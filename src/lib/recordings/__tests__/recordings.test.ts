@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createRecordingUrl,
+  purgeExpiredRecordings,
+  retentionCutoff,
+  RECORDINGS_BUCKET,
+  VOICEMAIL_BUCKET,
+} from "../recordings";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+function query(result: unknown) {
+  const chain: Record<string, unknown> = {};
+  for (const method of ["select", "eq", "not", "or", "lt", "limit", "update", "in"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return chain;
+}
+
+describe("retentionCutoff", () => {
+  it("goes back the given number of days", () => {
+    expect(retentionCutoff(30, NOW).toISOString()).toBe("2026-02-08T12:00:00.000Z");
+  });
+});
+
+describe("createRecordingUrl", () => {
+  it("signs the path in the recordings bucket", async () => {
+    const createSignedUrl = vi.fn().mockResolvedValue({ data: { signedUrl: "https://signed" }, error: null });
+    const from = vi.fn(() => ({ createSignedUrl }));
+    const supabase = { storage: { from } };
+
+    expect(await createRecordingUrl(supabase, "org/call.wav")).toBe("https://signed");
+    expect(from).toHaveBeenCalledWith(RECORDINGS_BUCKET);
+    expect(createSignedUrl).toHaveBeenCalledWith("org/call.wav", 3600);
+  });
+
+  it("returns null when signing fails", async () => {
+    const createSignedUrl = vi.fn().mockResolvedValue({ data: null, error: { message: "not found" } });
+    const supabase = { storage: { from: () => ({ createSignedUrl }) } };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await createRecordingUrl(supabase, "org/missing.wav")).toBeNull();
+  });
+});
+
+describe("purgeExpiredRecordings", () => {
+  it("deletes expired files from both buckets and clears their paths", async () => {
+    const orgs = query({ data: [{ id: "org-1", recording_retention_days: 30 }], error: null });
+    const calls = query({
+      data: [
+        { id: "call-1", recording_path: "org-1/call-1.wav", voicemail_path: null },
+        { id: "call-2", recording_path: "org-1/call-2.wav", voicemail_path: "org-1/call-2.wav" },
+      ],
+      error: null,
+    });
+    const update = query({ error: null });
+    const remove = vi.fn().mockResolvedValue({ error: null });
+    const buckets: string[] = [];
+    const tables = [orgs, calls, update];
+    const supabase = {
+      from: vi.fn(() => tables.shift()),
+      storage: { from: vi.fn((bucket: string) => (buckets.push(bucket), { remove })) },
+    };
+
+    const result = await purgeExpiredRecordings(supabase, NOW);
+
+    expect(result).toEqual({ organizations: 1, calls: 2, files: 3 });
+    expect(calls.lt).toHaveBeenCalledWith("created_at", "2026-02-08T12:00:00.000Z");
+    expect(buckets).toEqual([RECORDINGS_BUCKET, VOICEMAIL_BUCKET]);
+    expect(remove).toHaveBeenCalledWith(["org-1/call-1.wav", "org-1/call-2.wav"]);
+    expect(update.update).toHaveBeenCalledWith({ recording_path: null, voicemail_path: null });
+    expect(update.in).toHaveBeenCalledWith("id", ["call-1", "call-2"]);
+  });
+});
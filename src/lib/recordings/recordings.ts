@@ -0,0 +1,130 @@
+/**
+ * Call Recordings
+ *
+ * Recordings made by the self-hosted voice server (calls.recording_path) and
+ * voicemails (calls.voicemail_path) live in private storage buckets. They are
+ * only ever exposed through signed, expiring URLs, and are deleted once older
+ * than the org's recording_retention_days.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+export const RECORDINGS_BUCKET = "call-recordings";
+export const VOICEMAIL_BUCKET = "voicemails";
+
+/** How long a playback URL on the call page stays valid */
+export const PLAYBACK_URL_TTL_SECONDS = 60 * 60;
+
+/** How long a recording URL sent in a webhook stays valid */
+export const WEBHOOK_RECORDING_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const DEFAULT_RECORDING_RETENTION_DAYS = 90;
+
+/** Retention choices offered in settings; null keeps recordings indefinitely */
+export const RECORDING_RETENTION_OPTIONS: (number | null)[] = [7, 30, 90, 365, null];
+
+/** Calls purged per org per run, to keep each cron run short */
+const PURGE_BATCH_SIZE = 200;
+
+export interface RecordingPurgeResult {
+  organizations: number;
+  calls: number;
+  files: number;
+}
+
+/** Signed URL for a file in a private bucket, or null if it can't be created */
+export async function createSignedStorageUrl(
+  supabase: SupabaseAny,
+  bucket: string,
+  path: string,
+  expiresInSeconds: number
+): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds);
+
+  if (error || !data?.signedUrl) {
+    console.error("[Recordings] Failed to sign URL:", { bucket, path, error });
+    return null;
+  }
+  return data.signedUrl;
+}
+
+/** Signed playback URL for a call recording */
+export function createRecordingUrl(
+  supabase: SupabaseAny,
+  path: string,
+  expiresInSeconds = PLAYBACK_URL_TTL_SECONDS
+): Promise<string | null> {
+  return createSignedStorageUrl(supabase, RECORDINGS_BUCKET, path, expiresInSeconds);
+}
+
+/** Calls created before this have outlived the retention period */
+export function retentionCutoff(retentionDays: number, now: Date): Date {
+  return new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Delete recordings and voicemails older than each org's retention period,
+ * and clear the paths on their calls. Orgs with more than a batch of expired
+ * calls are finished on later runs.
+ */
+export async function purgeExpiredRecordings(
+  supabase: SupabaseAny,
+  now = new Date()
+): Promise<RecordingPurgeResult> {
+  const result: RecordingPurgeResult = { organizations: 0, calls: 0, files: 0 };
+
+  const { data: orgs, error } = await supabase
+    .from("organizations")
+    .select("id, recording_retention_days")
+    .not("recording_retention_days", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to load recording retention settings: ${error.message}`);
+  }
+
+  for (const org of (orgs || []) as { id: string; recording_retention_days: number }[]) {
+    const { data: calls, error: callsError } = await supabase
+      .from("calls")
+      .select("id, recording_path, voicemail_path")
+      .eq("organization_id", org.id)
+      .or("recording_path.not.is.null,voicemail_path.not.is.null")
+      .lt("created_at", retentionCutoff(org.recording_retention_days, now).toISOString())
+      .limit(PURGE_BATCH_SIZE);
+
+    if (callsError) {
+      console.error("[Recordings] Failed to load expired recordings:", { organizationId: org.id, error: callsError });
+      continue;
+    }
+    if (!calls || calls.length === 0) continue;
+
+    const rows = calls as { id: string; recording_path: string | null; voicemail_path: string | null }[];
+    const recordingPaths = rows.map((c) => c.recording_path).filter((p): p is string => Boolean(p));
+    const voicemailPaths = rows.map((c) => c.voicemail_path).filter((p): p is string => Boolean(p));
+
+    const removals = await Promise.all([
+      recordingPaths.length > 0 ? supabase.storage.from(RECORDINGS_BUCKET).remove(recordingPaths) : { error: null },
+      voicemailPaths.length > 0 ? supabase.storage.from(VOICEMAIL_BUCKET).remove(voicemailPaths) : { error: null },
+    ]);
+    const removeError = removals.find((r: { error: unknown }) => r.error)?.error;
+    if (removeError) {
+      console.error("[Recordings] Failed to delete expired files:", { organizationId: org.id, error: removeError });
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("calls")
+      .update({ recording_path: null, voicemail_path: null })
+      .in("id", rows.map((c) => c.id));
+
+    if (updateError) {
+      console.error("[Recordings] Failed to clear purged recording paths:", { organizationId: org.id, error: updateError });
+    }
+
+    result.organizations++;
+    result.calls += rows.length;
+    result.files += recordingPaths.length + voicemailPaths.length;
+  }
+
+  return result;
+}
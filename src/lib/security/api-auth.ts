@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { rateLimit, withRateLimit } from "@/lib/security/rate-limiter";
+import {
+  extractBearerApiKey,
+  getApiKeyPrefix,
+  hasScope,
+  isApiKeyUsable,
+  type ApiKeyRecord,
+  type ApiKeyScope,
+} from "@/lib/security/api-keys";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+export interface ApiAuthContext {
+  /**
+   * Client to run org-scoped queries with. For API keys this is the admin
+   * client (there is no auth.uid() for RLS), so every query MUST filter on
+   * organizationId.
+   */
+  supabase: SupabaseAny;
+  organizationId: string;
+  /** org_members role for session auth; null for API keys */
+  role: string | null;
+  userId: string | null;
+  apiKeyId: string | null;
+}
+
+export type ApiAuthResult =
+  | { ok: true; context: ApiAuthContext }
+  | { ok: false; response: NextResponse };
+
+function deny(error: string, status: number, headers?: Record<string, string>): ApiAuthResult {
+  return { ok: false, response: NextResponse.json({ error }, { status, headers }) };
+}
+
+/**
+ * Authenticate a public API request.
+ *
+ * Accepts either an `Authorization: Bearer hr_...` API key (checked against
+ * the hashed `api_keys` table and the required scope, rate limited per key)
+ * or the dashboard's Supabase session cookie.
+ */
+export async function authenticateApiRequest(
+  request: Request,
+  scope: ApiKeyScope,
+  endpoint: string
+): Promise<ApiAuthResult> {
+  const apiKey = extractBearerApiKey(new Headers(request.headers));
+
+  if (!apiKey) {
+    return authenticateSession();
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: candidates, error } = await (supabase as any)
+    .from("api_keys")
+    .select("id, organization_id, key_hash, scopes, is_active, expires_at")
+    .eq("key_prefix", getApiKeyPrefix(apiKey))
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("[ApiAuth] Failed to look up API key:", error);
+    return deny("Internal server error", 500);
+  }
+
+  const record = ((candidates || []) as ApiKeyRecord[]).find((c) => isApiKeyUsable(apiKey, c));
+
+  if (!record) {
+    // Failed attempts share the auth limit per IP so key guessing is bounded
+    const ipLimit = withRateLimit(request, "/api/v1/auth/api-key", "auth");
+    if (!ipLimit.allowed) {
+      return deny("Too many requests", 429, ipLimit.headers);
+    }
+    return deny("Invalid API key", 401);
+  }
+
+  if (!hasScope(record.scopes, scope)) {
+    return deny(`API key is missing the "${scope}" scope`, 403);
+  }
+
+  const { allowed, headers } = rateLimit(`api-key:${record.id}`, endpoint, "apiKey");
+  if (!allowed) {
+    return deny("Too many requests", 429, headers);
+  }
+
+  (supabase as any)
+    .from("api_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", record.id)
+    .then(({ error: touchError }: { error: unknown }) => {
+      if (touchError) {
+        console.error("[ApiAuth] Failed to update last_used_at:", { keyId: record.id, error: touchError });
+      }
+    });
+
+  return {
+    ok: true,
+    context: {
+      supabase,
+      organizationId: record.organization_id,
+      role: null,
+      userId: null,
+      apiKeyId: record.id,
+    },
+  };
+}
+
+async function authenticateSession(): Promise<ApiAuthResult> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return deny("Unauthorized", 401);
+  }
+
+  const { data: membership } = await supabase
+    .from("org_members")
+    .select("organization_id, role")
+    .eq("user_id", user.id)
+    .single() as { data: { organization_id: string; role: string } | null };
+
+  if (!membership) {
+    return deny("No organization found", 404);
+  }
+
+  return {
+    ok: true,
+    context: {
+      supabase,
+      organizationId: membership.organization_id,
+      role: membership.role,
+      userId: user.id,
+      apiKeyId: null,
+    },
+  };
+}
+
+/**
+ * Owner/admin check that also lets through API keys, whose scope was
+ * already verified by authenticateApiRequest.
+ */
+export function canManageOrg(context: ApiAuthContext): boolean {
+  if (context.apiKeyId) return true;
+  return ["owner", "admin"].includes(context.role || "");
+}
@@ -0,0 +1,24 @@
+// Client-safe scope definitions for public API keys (no Node imports)
+
+export type ApiKeyScope = "calls:read" | "appointments:write" | "assistants:manage";
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  {
+    value: "calls:read",
+    label: "Read calls",
+    description: "List calls and fetch call details, transcripts and summaries",
+  },
+  {
+    value: "appointments:write",
+    label: "Write appointments",
+    description: "List appointments and book new ones",
+  },
+  {
+    value: "assistants:manage",
+    label: "Manage assistants",
+    description: "List, create, update and delete assistants",
+  },
+];
+
+/** Scope values as a non-empty tuple, for z.enum() in the API key routes */
+export const API_KEY_SCOPE_VALUES = API_KEY_SCOPES.map((s) => s.value) as [ApiKeyScope, ...ApiKeyScope[]];
@@ -0,0 +1,89 @@
+/**
+ * Public API key helpers
+ *
+ * Keys are shown to the user exactly once. We persist only a SHA-256 hash
+ * plus a short, non-secret prefix used to find the row without scanning.
+ */
+import crypto from "crypto";
+import { generateApiKey } from "@/lib/utils";
+import { timingSafeCompare } from "@/lib/security/validation";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/security/api-key-scopes";
+
+export { API_KEY_SCOPES, type ApiKeyScope };
+
+// "hr_" + 8 characters — enough to make prefix collisions rare
+export const API_KEY_PREFIX_LENGTH = 11;
+
+// How long a rotated-out key keeps working so scripts can be switched over
+export const ROTATION_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export interface ApiKeyRecord {
+  id: string;
+  organization_id: string;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  scopes: string[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function getApiKeyPrefix(key: string): string {
+  return key.slice(0, API_KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Create a new plaintext key and the values to store for it.
+ * The plaintext must be returned to the caller once and then discarded.
+ */
+export function issueApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = generateApiKey();
+  return { key, keyHash: hashApiKey(key), keyPrefix: getApiKeyPrefix(key) };
+}
+
+/**
+ * Extract an API key from an `Authorization: Bearer hr_...` header.
+ * Returns null when the header is missing or is not one of our keys
+ * (e.g. a Supabase JWT), so callers can fall back to session auth.
+ */
+export function extractBearerApiKey(headers: Headers): string | null {
+  const authorization = headers.get("authorization");
+  if (!authorization) return null;
+
+  const match = authorization.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return null;
+
+  const token = match[1];
+  if (!token.startsWith("hr_") || token.length <= API_KEY_PREFIX_LENGTH) return null;
+
+  return token;
+}
+
+/**
+ * Check a presented key against a stored row: hash, active flag and expiry.
+ */
+export function isApiKeyUsable(
+  key: string,
+  record: Pick<ApiKeyRecord, "key_hash" | "is_active" | "expires_at">,
+  now: Date = new Date()
+): boolean {
+  if (!record.is_active) return false;
+  if (record.expires_at && new Date(record.expires_at).getTime() <= now.getTime()) {
+    return false;
+  }
+  return timingSafeCompare(hashApiKey(key), record.key_hash);
+}
+
+export function hasScope(scopes: string[], required: ApiKeyScope): boolean {
+  return scopes.includes(required);
+}
+
+export function isValidScope(scope: string): scope is ApiKeyScope {
+  return API_KEY_SCOPES.some((s) => s.value === scope);
+}
@@ -0,0 +1,19 @@
+import { timingSafeCompare } from "@/lib/security/validation";
+
+/**
+ * Whether a request to a scheduled worker under /api/cron carries the
+ * `Authorization: Bearer <CRON_SECRET>` header the scheduler sends (see
+ * vercel.json). Rejects everything when CRON_SECRET is not configured.
+ */
+export function verifyCronSecret(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("[Cron] CRON_SECRET is not configured — all cron requests will be rejected");
+    return false;
+  }
+
+  const authorization = request.headers.get("Authorization");
+  if (!authorization) return false;
+
+  return timingSafeCompare(authorization, `Bearer ${secret}`);
+}
@@ -0,0 +1,13 @@
+/**
+ * Platform admins: operators of the service itself (not org owners), listed
+ * by email in PLATFORM_ADMIN_EMAILS. They manage cross-tenant data such as
+ * the shared spam reputation.
+ */
+export function isPlatformAdmin(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const admins = (process.env.PLATFORM_ADMIN_EMAILS || "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
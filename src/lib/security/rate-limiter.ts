@@ -70,6 +70,11 @@ export const rateLimitConfigs = {
     windowMs: 60 * 1000,
     maxRequests: 5,
   },
+  // Public API requests authenticated by API key - 60 per minute per key
+  apiKey: {
+    windowMs: 60 * 1000,
+    maxRequests: 60,
+  },
 } as const;
 
 export type RateLimitType = keyof typeof rateLimitConfigs;
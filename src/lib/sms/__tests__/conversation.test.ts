@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { buildSmsChannelSection, cleanSmsReply, SMS_REPLY_MAX_CHARS, toChatHistory } from "../conversation";
+
+describe("toChatHistory", () => {
+  it("makes the caller's texts user turns and replies assistant turns", () => {
+    expect(
+      toChatHistory([
+        { direction: "inbound", author: "caller", body: "Do you have anything Friday?" },
+        { direction: "outbound", author: "ai", body: "We have 10am or 2pm." },
+        { direction: "outbound", author: "staff", body: "Hi, it's Sam. 2pm is yours." },
+      ])
+    ).toEqual([
+      { role: "user", content: "Do you have anything Friday?" },
+      { role: "assistant", content: "We have 10am or 2pm." },
+      { role: "assistant", content: "[Sent by a team member] Hi, it's Sam. 2pm is yours." },
+    ]);
+  });
+});
+
+describe("cleanSmsReply", () => {
+  it("strips markdown", () => {
+    expect(cleanSmsReply("**Friday** works. See [our site](https://example.com)\n\n\n\n## Thanks")).toBe(
+      "Friday works. See our site https://example.com\n\nThanks"
+    );
+  });
+
+  it("cuts long replies at a sentence boundary", () => {
+    const sentence = "This is a sentence that goes on for a while. ";
+    const reply = cleanSmsReply(sentence.repeat(30));
+    expect(reply.length).toBeLessThanOrEqual(SMS_REPLY_MAX_CHARS);
+    expect(reply.endsWith("a while.")).toBe(true);
+  });
+
+  it("falls back to a word boundary", () => {
+    const reply = cleanSmsReply("word ".repeat(200));
+    expect(reply.length).toBeLessThanOrEqual(SMS_REPLY_MAX_CHARS);
+    expect(reply.endsWith("word…")).toBe(true);
+  });
+});
+
+describe("buildSmsChannelSection", () => {
+  it("includes the caller's number and the last automated text", () => {
+    const section = buildSmsChannelSection("+15551234567", "Reminder: your appointment is tomorrow at 3pm.");
+    expect(section).toContain("+15551234567");
+    expect(section).toContain("Reminder: your appointment is tomorrow at 3pm.");
+  });
+
+  it("leaves out the automated text line when there isn't one", () => {
+    expect(buildSmsChannelSection("+15551234567", null)).not.toContain("last automated text");
+  });
+});
@@ -4,6 +4,8 @@
  * Sends SMS messages TO CALLERS (not business owners):
  * - Missed-call text-back with booking link + callback number
  * - Appointment confirmation after AI books
+ * - Waitlist offer when a cancellation frees a slot
+ * - Appointment reminders with confirm/reschedule/cancel replies
  *
  * Guards: feature toggle, opt-out check, rate limiting.
  * Spam protection applies to missed-call text-back only (caller provides isSpam).
@@ -14,7 +16,11 @@ import { createAdminClient } from "@/lib/supabase/admin";
 import { getNotificationPreferences } from "@/lib/notifications/notification-service";
 import { getTwilioClient } from "@/lib/twilio/client";
 
-type MessageType = "missed_call_textback" | "appointment_confirmation";
+type MessageType =
+  | "missed_call_textback"
+  | "appointment_confirmation"
+  | "appointment_reminder"
+  | "waitlist_offer";
 
 type SMSStatus = "sent" | "skipped" | "blocked_spam" | "blocked_optout" | "blocked_ratelimit" | "failed";
 
@@ -26,7 +32,7 @@ interface SMSSendResult {
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
-async function resolveOrgTwilioNumber(
+export async function resolveOrgTwilioNumber(
   orgId: string
 ): Promise<string | null> {
   const supabase = createAdminClient();
@@ -68,7 +74,7 @@ async function isRateLimited(
   const supabase = createAdminClient();
 
   // missed_call_textback: max 1 per caller per org per 24h
-  // appointment_confirmation: max 1 per caller per org per 1h
+  // appointment_confirmation, appointment_reminder, waitlist_offer: max 1 per caller per org per 1h
   const windowHours = messageType === "missed_call_textback" ? 24 : 1;
   const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
 
@@ -137,15 +143,19 @@ async function sendCallerSMS(params: {
 }): Promise<SMSSendResult> {
   const { orgId, callerPhone, messageType, messageBody, isSpam } = params;
 
-  // 1. Check feature toggle
-  const prefs = await getNotificationPreferences(orgId);
-  const toggleKey =
-    messageType === "missed_call_textback"
-      ? "sms_textback_on_missed_call"
-      : "sms_appointment_confirmation";
-
-  if (!prefs || !prefs[toggleKey]) {
-    return { sent: false, status: "skipped", reason: "feature_disabled" };
+  // 1. Check feature toggle (waitlist offers were asked for by the caller)
+  if (messageType !== "waitlist_offer") {
+    const prefs = await getNotificationPreferences(orgId);
+    const toggleKey =
+      messageType === "missed_call_textback"
+        ? "sms_textback_on_missed_call"
+        : messageType === "appointment_reminder"
+          ? "sms_appointment_reminders"
+          : "sms_appointment_confirmation";
+
+    if (!prefs || !prefs[toggleKey]) {
+      return { sent: false, status: "skipped", reason: "feature_disabled" };
+    }
   }
 
   // 2. Spam protection
@@ -306,3 +316,87 @@ export async function sendAppointmentConfirmationSMS(
     messageBody: message,
   });
 }
+
+export async function sendAppointmentReminderSMS(
+  orgId: string,
+  callerPhone: string,
+  startTime: Date,
+  timezone: string,
+  serviceName?: string | null
+): Promise<SMSSendResult> {
+  const supabase = createAdminClient();
+
+  const { data: org } = await (supabase as any)
+    .from("organizations")
+    .select("business_name")
+    .eq("id", orgId)
+    .single();
+
+  const businessName = org?.business_name || "our office";
+  const dateStr = startTime.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: timezone,
+  });
+  const timeStr = startTime.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone: timezone,
+  });
+
+  const what = serviceName ? `your ${serviceName} appointment` : "your appointment";
+  let message = `Reminder: ${what} at ${businessName} is on ${dateStr} at ${timeStr}.`;
+  message += " Reply C to confirm, R to reschedule or X to cancel.";
+  message += "\n\nReply STOP to opt-out.";
+
+  return sendCallerSMS({
+    orgId,
+    callerPhone,
+    messageType: "appointment_reminder",
+    messageBody: message,
+  });
+}
+
+export async function sendWaitlistOfferSMS(
+  orgId: string,
+  callerPhone: string,
+  startTime: Date,
+  timezone: string,
+  serviceName?: string | null
+): Promise<SMSSendResult> {
+  const supabase = createAdminClient();
+
+  const { data: org } = await (supabase as any)
+    .from("organizations")
+    .select("business_name")
+    .eq("id", orgId)
+    .single();
+
+  const businessName = org?.business_name || "our office";
+  const dateStr = startTime.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: timezone,
+  });
+  const timeStr = startTime.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone: timezone,
+  });
+
+  const what = serviceName ? `A ${serviceName} appointment` : "An appointment";
+  let message = `${what} at ${businessName} just opened up on ${dateStr} at ${timeStr}.`;
+  message += " Reply YES to book it. First to reply gets the slot.";
+  message += "\n\nReply STOP to opt-out.";
+
+  return sendCallerSMS({
+    orgId,
+    callerPhone,
+    messageType: "waitlist_offer",
+    messageBody: message,
+  });
+}
@@ -0,0 +1,635 @@
+/**
+ * SMS Conversations
+ *
+ * Inbound texts that aren't opt-outs or reminder/waitlist replies are answered
+ * by the assistant on the number they were sent to. It gets the same prompt as
+ * on the phone (buildPromptFromConfig with the knowledge base and schedule),
+ * the calendar tools, and a hand_off_to_staff tool that passes the thread to
+ * the team. Threads are stored per caller and shown on the Messages page,
+ * where staff can reply and hand the thread back to the AI.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getAggregatedKnowledgeBase } from "@/lib/knowledge-base";
+import { buildPromptFromConfig, buildSchedulingSection, upgradePromptConfig } from "@/lib/prompt-builder";
+import type { PromptConfig, PromptConfigV1, PromptContext } from "@/lib/prompt-builder";
+import { getOrgScheduleContext } from "@/lib/supabase/get-org-schedule-context";
+import { calendarTools } from "@/lib/calendar/cal-com";
+import {
+  handleGetCurrentDatetime,
+  handleCheckAvailability,
+  handleBookAppointment,
+  handleCancelAppointment,
+  handleConfirmAppointment,
+  handleRescheduleAppointment,
+  handleJoinWaitlist,
+} from "@/lib/calendar/tool-handlers";
+import {
+  getNotificationPreferences,
+  sendSmsHandoffNotification,
+} from "@/lib/notifications/notification-service";
+import { getTwilioClient } from "@/lib/twilio/client";
+import { resolveOrgTwilioNumber } from "./caller-sms";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+type ToolResult = Awaited<ReturnType<typeof handleGetCurrentDatetime>>;
+
+export type ConversationStatus = "active" | "handed_off" | "closed";
+
+export interface StoredSmsMessage {
+  direction: "inbound" | "outbound";
+  author: "caller" | "ai" | "staff";
+  body: string;
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface AssistantRow {
+  id: string;
+  name: string;
+  system_prompt: string;
+  prompt_config: Record<string, any> | null;
+  settings: Record<string, any> | null;
+  model_provider: string;
+  model: string;
+}
+
+/** Messages of the thread sent to the model with each new text */
+export const HISTORY_LIMIT = 20;
+
+/** Tool calls the model can make before it has to reply */
+export const MAX_TOOL_ROUNDS = 4;
+
+/** Longest reply sent (about four SMS segments) */
+export const SMS_REPLY_MAX_CHARS = 640;
+
+/** AI replies to one caller per day before the thread goes to staff (stops bot loops) */
+export const MAX_AI_REPLIES_PER_DAY = 30;
+
+// Twilio gives up on the webhook after 15 seconds
+const REPLY_DEADLINE_MS = 12000;
+
+const DEFAULT_MODEL = "gpt-4.1-nano";
+
+const ASSISTANT_COLUMNS = "id, name, system_prompt, prompt_config, settings, model_provider, model";
+
+const handOffTool = {
+  type: "function" as const,
+  function: {
+    name: "hand_off_to_staff",
+    description:
+      "Pass the conversation to a person on the team. Use this when the customer asks for a person, has a complaint, or needs something you can't help with by text.",
+    parameters: {
+      type: "object" as const,
+      properties: {
+        reason: {
+          type: "string",
+          description: "One short sentence for the team on what the customer needs",
+        },
+      },
+      required: ["reason"],
+    },
+  },
+};
+
+const SMS_TOOLS = [...Object.values(calendarTools), handOffTool];
+
+/**
+ * The conversation so far as chat messages: the caller's texts are the user
+ * turns, and replies from the AI or staff are the assistant's.
+ */
+export function toChatHistory(messages: StoredSmsMessage[]): ChatMessage[] {
+  return messages.map((message) =>
+    message.direction === "inbound"
+      ? { role: "user", content: message.body }
+      : {
+          role: "assistant",
+          content: message.author === "staff" ? `[Sent by a team member] ${message.body}` : message.body,
+        }
+  );
+}
+
+/**
+ * Make a model reply fit for a text: no markdown, no blank-line runs, and
+ * cut at a sentence (or word) boundary when it runs long.
+ */
+export function cleanSmsReply(text: string): string {
+  let reply = text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^#+\s*/gm, "")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 $2")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  if (reply.length <= SMS_REPLY_MAX_CHARS) return reply;
+
+  reply = reply.slice(0, SMS_REPLY_MAX_CHARS);
+  const sentenceEnd = Math.max(reply.lastIndexOf(". "), reply.lastIndexOf("? "), reply.lastIndexOf("! "));
+  if (sentenceEnd > SMS_REPLY_MAX_CHARS / 2) return reply.slice(0, sentenceEnd + 1);
+  const wordEnd = reply.lastIndexOf(" ");
+  return `${reply.slice(0, wordEnd > 0 ? wordEnd : SMS_REPLY_MAX_CHARS - 1).trimEnd()}…`;
+}
+
+/** Instructions for answering by text rather than on a call */
+export function buildSmsChannelSection(callerPhone: string, lastAutomatedText?: string | null): string {
+  const lines = [
+    "TEXT MESSAGE CONVERSATION:",
+    "You are replying to text messages, not speaking on a call. Ignore any instructions above about speaking, greetings on the phone or transferring calls.",
+    "- Keep replies short: one to three sentences, plain text, no markdown or bullet lists.",
+    `- The customer is texting from ${callerPhone}. Use this number for bookings, cancellations and the waitlist unless they give you another one.`,
+    "- Don't ask for information you already have from earlier in the conversation.",
+    "- If they ask for a person, have a complaint, or need something you can't do by text, use hand_off_to_staff and tell them someone from the team will text them back.",
+    "- Messages marked [Sent by a team member] were written by staff; stay consistent with them.",
+  ];
+
+  if (lastAutomatedText) {
+    lines.push(
+      `- The last automated text we sent them was: "${lastAutomatedText}". Their message may be a reply to it.`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// ─── Prompt ─────────────────────────────────────────────────────────────────
+
+async function loadAssistant(
+  supabase: SupabaseAny,
+  organizationId: string,
+  assistantId: string | null
+): Promise<AssistantRow | null> {
+  if (assistantId) {
+    const { data } = await supabase
+      .from("assistants")
+      .select(ASSISTANT_COLUMNS)
+      .eq("id", assistantId)
+      .eq("organization_id", organizationId)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (data) return data as AssistantRow;
+  }
+
+  const { data, error } = await supabase
+    .from("assistants")
+    .select(ASSISTANT_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("is_active", true)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load assistant: ${error.message}`);
+  }
+  return ((data ?? [])[0] as AssistantRow | undefined) ?? null;
+}
+
+/** The assistant's system prompt, built the same way as for its calls */
+async function buildSystemPrompt(
+  supabase: SupabaseAny,
+  organizationId: string,
+  assistant: AssistantRow
+): Promise<string> {
+  const aggregatedKB = await getAggregatedKnowledgeBase(supabase, organizationId);
+  const { timezone, businessHours, defaultAppointmentDuration, services, staffNames, specialHours } =
+    await getOrgScheduleContext(supabase, organizationId, "SMS conversation");
+
+  if (assistant.prompt_config) {
+    const promptContext: PromptContext = {
+      businessName: assistant.name,
+      industry: assistant.settings?.industry || "other",
+      knowledgeBase: aggregatedKB || undefined,
+      timezone,
+      businessHours,
+      defaultAppointmentDuration,
+      services,
+      staffNames,
+      specialHours,
+    };
+    const config = upgradePromptConfig(assistant.prompt_config as unknown as PromptConfig | PromptConfigV1);
+    return buildPromptFromConfig(config, promptContext);
+  }
+
+  let systemPrompt: string;
+  if (assistant.system_prompt.includes("{knowledge_base}")) {
+    systemPrompt = assistant.system_prompt.replace(
+      /{knowledge_base}/g,
+      aggregatedKB || "No additional business information provided yet."
+    );
+  } else if (aggregatedKB) {
+    systemPrompt = `${assistant.system_prompt}\n\nBusiness Information:\n${aggregatedKB}`;
+  } else {
+    systemPrompt = assistant.system_prompt;
+  }
+  return `${systemPrompt}\n\n${buildSchedulingSection(timezone, businessHours, defaultAppointmentDuration, services, staffNames, specialHours)}`;
+}
+
+// ─── Tools ──────────────────────────────────────────────────────────────────
+
+async function runCalendarTool(
+  organizationId: string,
+  name: string,
+  args: Record<string, string | undefined>
+): Promise<ToolResult> {
+  switch (name) {
+    case "get_current_datetime":
+      return handleGetCurrentDatetime(organizationId);
+    case "check_availability":
+      return handleCheckAvailability(organizationId, {
+        date: args.date,
+        service: args.service,
+        staff: args.staff,
+      });
+    case "book_appointment":
+      return handleBookAppointment(organizationId, {
+        datetime: args.datetime,
+        name: args.name,
+        phone: args.phone,
+        email: args.email,
+        notes: args.notes,
+        service: args.service,
+        staff: args.staff,
+        recurrence: args.recurrence,
+        occurrences: args.occurrences,
+        skip_conflicts: args.skip_conflicts,
+      });
+    case "cancel_appointment":
+      return handleCancelAppointment(organizationId, { phone: args.phone, reason: args.reason });
+    case "confirm_appointment":
+      return handleConfirmAppointment(organizationId, { phone: args.phone });
+    case "reschedule_appointment":
+      return handleRescheduleAppointment(organizationId, {
+        phone: args.phone,
+        name: args.name,
+        datetime: args.datetime,
+        reason: args.reason,
+      });
+    case "join_waitlist":
+      return handleJoinWaitlist(organizationId, {
+        name: args.name,
+        phone: args.phone,
+        start_date: args.start_date,
+        end_date: args.end_date,
+        service: args.service,
+        staff: args.staff,
+        notes: args.notes,
+      });
+    default:
+      return { success: false, message: `Unknown tool: ${name}` };
+  }
+}
+
+function parseToolArguments(raw: string, callerPhone: string): Record<string, string | undefined> {
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(raw || "{}");
+  } catch {
+    // Fall through with no arguments; the handler asks for what's missing
+  }
+  const parsed: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (value !== null && value !== undefined) parsed[key] = String(value);
+  }
+  // The caller is texting from their own phone
+  if (!parsed.phone) parsed.phone = callerPhone;
+  return parsed;
+}
+
+// ─── OpenAI ─────────────────────────────────────────────────────────────────
+
+async function requestCompletion(
+  model: string,
+  messages: ChatMessage[],
+  deadline: number
+): Promise<ChatMessage> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), Math.max(deadline - Date.now(), 1000));
+
+  try {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        tools: SMS_TOOLS,
+        temperature: 0.4,
+        max_tokens: 400,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => "<unreadable>");
+      throw new Error(`OpenAI API returned ${response.status}: ${errorBody.substring(0, 300)}`);
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      throw new Error("OpenAI returned no message");
+    }
+    return message as ChatMessage;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// ─── Threads ────────────────────────────────────────────────────────────────
+
+async function findOrCreateConversation(
+  supabase: SupabaseAny,
+  organizationId: string,
+  callerPhone: string,
+  assistantId: string | null
+): Promise<{ id: string; status: ConversationStatus }> {
+  const select = () =>
+    supabase
+      .from("sms_conversations")
+      .select("id, status")
+      .eq("organization_id", organizationId)
+      .eq("caller_phone", callerPhone)
+      .maybeSingle();
+
+  const { data: existing, error: loadError } = await select();
+  if (loadError) {
+    throw new Error(`Failed to load SMS conversation: ${loadError.message}`);
+  }
+  if (existing) return existing;
+
+  const { data: created, error: insertError } = await supabase
+    .from("sms_conversations")
+    .insert({ organization_id: organizationId, caller_phone: callerPhone, assistant_id: assistantId })
+    .select("id, status")
+    .single();
+
+  if (insertError) {
+    // Two texts arrived together and the other one created the thread
+    if (insertError.code === "23505") {
+      const { data: raced } = await select();
+      if (raced) return raced;
+    }
+    throw new Error(`Failed to create SMS conversation: ${insertError.message}`);
+  }
+  return created;
+}
+
+async function appendMessage(
+  supabase: SupabaseAny,
+  organizationId: string,
+  conversationId: string,
+  message: StoredSmsMessage & { twilioMessageSid?: string | null; sentBy?: string | null }
+): Promise<void> {
+  const { error } = await supabase.from("sms_messages").insert({
+    conversation_id: conversationId,
+    organization_id: organizationId,
+    direction: message.direction,
+    author: message.author,
+    body: message.body,
+    twilio_message_sid: message.twilioMessageSid ?? null,
+    sent_by: message.sentBy ?? null,
+  });
+  if (error) {
+    throw new Error(`Failed to store SMS message: ${error.message}`);
+  }
+
+  await supabase
+    .from("sms_conversations")
+    .update({
+      last_message_at: new Date().toISOString(),
+      last_message_preview: message.body.substring(0, 160),
+    })
+    .eq("id", conversationId);
+}
+
+async function handOff(
+  supabase: SupabaseAny,
+  organizationId: string,
+  conversationId: string,
+  callerPhone: string,
+  reason: string,
+  lastMessage: string
+): Promise<void> {
+  await supabase
+    .from("sms_conversations")
+    .update({ status: "handed_off", handoff_reason: reason })
+    .eq("id", conversationId);
+
+  sendSmsHandoffNotification({ organizationId, callerPhone, reason, lastMessage }).catch((err) =>
+    console.error("[SMSConversation] Failed to notify staff of hand-off:", {
+      organizationId,
+      conversationId,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  );
+}
+
+async function countAiRepliesToday(supabase: SupabaseAny, conversationId: string): Promise<number> {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const { count } = await supabase
+    .from("sms_messages")
+    .select("id", { count: "exact", head: true })
+    .eq("conversation_id", conversationId)
+    .eq("author", "ai")
+    .gte("created_at", since);
+  return count ?? 0;
+}
+
+async function loadLastAutomatedText(
+  supabase: SupabaseAny,
+  organizationId: string,
+  callerPhone: string
+): Promise<string | null> {
+  const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  const { data } = await supabase
+    .from("caller_sms_log")
+    .select("message_body")
+    .eq("organization_id", organizationId)
+    .eq("caller_phone", callerPhone)
+    .eq("status", "sent")
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(1);
+  return data?.[0]?.message_body ?? null;
+}
+
+/**
+ * Store an inbound text and, unless the thread is with staff, answer it with
+ * the assistant. Returns the reply to send back, or null for no reply.
+ */
+export async function handleInboundSms(
+  organizationId: string,
+  params: { from: string; body: string; assistantId: string | null }
+): Promise<string | null> {
+  const { from, body, assistantId } = params;
+  const supabase = createAdminClient();
+
+  const conversation = await findOrCreateConversation(supabase, organizationId, from, assistantId);
+  await appendMessage(supabase, organizationId, conversation.id, {
+    direction: "inbound",
+    author: "caller",
+    body,
+  });
+
+  if (conversation.status === "handed_off") return null;
+  if (conversation.status === "closed") {
+    await (supabase as any).from("sms_conversations").update({ status: "active" }).eq("id", conversation.id);
+  }
+
+  const prefs = await getNotificationPreferences(organizationId);
+  if (prefs && !prefs.sms_ai_conversations) return null;
+
+  if ((await countAiRepliesToday(supabase, conversation.id)) >= MAX_AI_REPLIES_PER_DAY) {
+    await handOff(supabase, organizationId, conversation.id, from, "Lots of texts today, so the AI stopped replying", body);
+    return null;
+  }
+
+  const assistant = await loadAssistant(supabase, organizationId, assistantId);
+  if (!assistant) {
+    console.warn("[SMSConversation] No active assistant to answer texts:", { organizationId });
+    return null;
+  }
+
+  let reply: string | null = null;
+  let handoffReason: string | null = null;
+
+  try {
+    const [systemPrompt, lastAutomatedText, { data: recent }] = await Promise.all([
+      buildSystemPrompt(supabase, organizationId, assistant),
+      loadLastAutomatedText(supabase, organizationId, from),
+      (supabase as any)
+        .from("sms_messages")
+        .select("direction, author, body")
+        .eq("conversation_id", conversation.id)
+        .order("created_at", { ascending: false })
+        .limit(HISTORY_LIMIT),
+    ]);
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: `${systemPrompt}\n\n${buildSmsChannelSection(from, lastAutomatedText)}` },
+      ...toChatHistory(((recent ?? []) as StoredSmsMessage[]).reverse()),
+    ];
+    const model = assistant.model_provider === "openai" && assistant.model ? assistant.model : DEFAULT_MODEL;
+    const deadline = Date.now() + REPLY_DEADLINE_MS;
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const message = await requestCompletion(model, messages, deadline);
+      if (!message.tool_calls?.length || round === MAX_TOOL_ROUNDS) {
+        reply = message.content ? cleanSmsReply(message.content) : null;
+        break;
+      }
+
+      messages.push({ role: "assistant", content: message.content ?? null, tool_calls: message.tool_calls });
+      for (const call of message.tool_calls) {
+        const args = parseToolArguments(call.function.arguments, from);
+        let content: string;
+        if (call.function.name === "hand_off_to_staff") {
+          handoffReason = args.reason || "The customer asked for a person";
+          content = "The team has been told and will reply by text.";
+        } else {
+          const result = await runCalendarTool(organizationId, call.function.name, args);
+          content = result.message;
+        }
+        messages.push({ role: "tool", tool_call_id: call.id, content });
+      }
+    }
+  } catch (err) {
+    console.error("[SMSConversation] Failed to generate reply:", {
+      organizationId,
+      conversationId: conversation.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    handoffReason = "The AI couldn't answer this text";
+    reply = `Thanks for your message. Someone from ${assistant.name} will text you back shortly.`;
+  }
+
+  if (handoffReason) {
+    await handOff(supabase, organizationId, conversation.id, from, handoffReason, body);
+  }
+
+  if (reply) {
+    await appendMessage(supabase, organizationId, conversation.id, {
+      direction: "outbound",
+      author: "ai",
+      body: reply,
+    });
+  }
+
+  return reply;
+}
+
+/**
+ * Send a staff member's reply from the org's number and add it to the
+ * thread, taking the thread over from the AI. Throws when the text can't
+ * be sent.
+ */
+export async function sendStaffReply(
+  supabase: SupabaseAny,
+  organizationId: string,
+  conversationId: string,
+  body: string,
+  userId: string
+): Promise<void> {
+  const { data: conversation, error } = await supabase
+    .from("sms_conversations")
+    .select("id, caller_phone")
+    .eq("id", conversationId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load SMS conversation: ${error.message}`);
+  }
+  if (!conversation) {
+    throw new Error("Conversation not found");
+  }
+
+  const fromNumber = await resolveOrgTwilioNumber(organizationId);
+  if (!fromNumber) {
+    throw new Error("This organization has no active phone number to text from");
+  }
+
+  const message = await getTwilioClient().messages.create({
+    body,
+    to: conversation.caller_phone,
+    from: fromNumber,
+  });
+
+  await appendMessage(supabase, organizationId, conversationId, {
+    direction: "outbound",
+    author: "staff",
+    body,
+    twilioMessageSid: message.sid,
+    sentBy: userId,
+  });
+
+  // Once staff have stepped in, the AI stops answering this caller until handed back
+  await supabase
+    .from("sms_conversations")
+    .update({ status: "handed_off", handoff_reason: "A team member replied" })
+    .eq("id", conversationId)
+    .eq("status", "active");
+}
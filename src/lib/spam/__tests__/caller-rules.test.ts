@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { matchCallerRule, normalizeRulePattern, type CallerRule } from "../caller-rules";
+
+function rule(overrides: Partial<CallerRule>): CallerRule {
+  return {
+    id: overrides.phone_pattern ?? "rule",
+    match_type: "exact",
+    phone_pattern: "+61412345678",
+    action: "block",
+    transfer_to_phone: null,
+    transfer_to_name: null,
+    label: null,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+describe("normalizeRulePattern", () => {
+  it("keeps the digits of exact numbers and their leading +", () => {
+    expect(normalizeRulePattern("exact", "+61 412 345 678")).toBe("+61412345678");
+    expect(normalizeRulePattern("exact", "(0412) 345-678")).toBe("0412345678");
+    expect(normalizeRulePattern("exact", "123")).toBeNull();
+  });
+
+  it("requires prefixes to start with + and the country code", () => {
+    expect(normalizeRulePattern("prefix", "+1 900")).toBe("+1900");
+    expect(normalizeRulePattern("prefix", "1900")).toBeNull();
+    expect(normalizeRulePattern("prefix", "+")).toBeNull();
+  });
+});
+
+describe("matchCallerRule", () => {
+  it("matches exact numbers across local and E.164 formats", () => {
+    const rules = [rule({ phone_pattern: "0412345678", action: "transfer" })];
+    expect(matchCallerRule(rules, "+61412345678")?.action).toBe("transfer");
+    expect(matchCallerRule(rules, "+61412345679")).toBeNull();
+  });
+
+  it("prefers an exact number over a prefix, and the longest prefix", () => {
+    const rules = [
+      rule({ match_type: "prefix", phone_pattern: "+1", action: "allow" }),
+      rule({ match_type: "prefix", phone_pattern: "+1900", action: "block" }),
+      rule({ match_type: "exact", phone_pattern: "+19005550100", action: "transfer" }),
+    ];
+    expect(matchCallerRule(rules, "+19005550100")?.action).toBe("transfer");
+    expect(matchCallerRule(rules, "+19005550199")?.action).toBe("block");
+    expect(matchCallerRule(rules, "+12125550100")?.action).toBe("allow");
+  });
+
+  it("ignores inactive rules and callers without a number", () => {
+    const rules = [rule({ is_active: false })];
+    expect(matchCallerRule(rules, "+61412345678")).toBeNull();
+    expect(matchCallerRule([rule({})], "anonymous")).toBeNull();
+    expect(matchCallerRule([rule({})], null)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeReputation,
+  MAX_REPUTATION_SCORE,
+  reportWeight,
+  reputationPhoneHash,
+  reputationPhoneHint,
+  type ReputationReport,
+} from "../reputation";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function report(verdict: ReputationReport["verdict"], daysAgo: number): ReputationReport {
+  return { verdict, reported_at: new Date(NOW.getTime() - daysAgo * DAY).toISOString() };
+}
+
+describe("reputationPhoneHash", () => {
+  it("hashes the digits so formatting doesn't matter", () => {
+    expect(reputationPhoneHash("+1 (900) 555-0100", "secret")).toBe(reputationPhoneHash("+19005550100", "secret"));
+    expect(reputationPhoneHash("+19005550100", "secret")).not.toBe(reputationPhoneHash("+19005550100", "other"));
+  });
+
+  it("ignores numbers too short to be a caller", () => {
+    expect(reputationPhoneHash("anonymous", "secret")).toBeNull();
+    expect(reputationPhoneHash("12345", "secret")).toBeNull();
+  });
+
+  it("only keeps the last four digits as a hint", () => {
+    expect(reputationPhoneHint("+19005550100")).toBe("••• 0100");
+  });
+});
+
+describe("reportWeight", () => {
+  it("halves every half-life", () => {
+    expect(reportWeight(NOW, NOW)).toBe(1);
+    expect(reportWeight(new Date(NOW.getTime() - 30 * DAY), NOW)).toBeCloseTo(0.5);
+  });
+});
+
+describe("computeReputation", () => {
+  it("needs several independent orgs before scoring", () => {
+    expect(computeReputation([report("spam", 0), report("spam", 1)], null, NOW).score).toBe(0);
+    expect(computeReputation([report("spam", 0), report("spam", 1), report("spam", 2)], null, NOW).score).toBeGreaterThan(0);
+  });
+
+  it("stops counting reports once they have decayed", () => {
+    const old = [report("spam", 200), report("spam", 200), report("spam", 200)];
+    expect(computeReputation(old, null, NOW).score).toBe(0);
+  });
+
+  it("offsets spam reports with not-spam reports", () => {
+    const reports = [report("spam", 0), report("spam", 0), report("spam", 0)];
+    const withClean = [...reports, report("not_spam", 0), report("not_spam", 0), report("not_spam", 0)];
+    expect(computeReputation(reports, null, NOW).score).toBe(30);
+    expect(computeReputation(withClean, null, NOW).score).toBe(0);
+  });
+
+  it("caps the score and lets an admin override it", () => {
+    const many = Array.from({ length: 20 }, () => report("spam", 0));
+    expect(computeReputation(many, null, NOW).score).toBe(MAX_REPUTATION_SCORE);
+    expect(computeReputation(many, "not_spam", NOW)).toMatchObject({ score: 0, spamOrgs: 20, override: "not_spam" });
+    expect(computeReputation([], "spam", NOW).score).toBe(MAX_REPUTATION_SCORE);
+  });
+});
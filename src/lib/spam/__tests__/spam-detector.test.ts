@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { previewSpamPolicy, screenCall, screeningAction, type SpamPreviewCall } from "../spam-detector";
+import { DEFAULT_SPAM_POLICY, type SpamPolicy } from "../spam-policy";
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, Record<string, any>[]> }));
+
+vi.mock("@/lib/supabase/admin", () => ({
+  createAdminClient: () => ({ from: (table: string) => fakeQuery(db.tables[table] || []) }),
+}));
+
+/** Value of a PostgREST column or JSON path such as metadata->screening->>outcome */
+function columnValue(row: Record<string, any>, path: string): any {
+  return path.split(/->>?/).reduce((value, key) => (value == null ? undefined : value[key]), row);
+}
+
+/** Evaluate the `or` filters the detector uses: is.null, neq and not.in */
+function matchesOr(row: Record<string, any>, filter: string): boolean {
+  return filter.split(/,(?![^(]*\))/).some((condition) => {
+    const [, path, operator, operand] = condition.match(/^(.+?)\.(is|neq|not\.in)\.(.+)$/)!;
+    const value = columnValue(row, path);
+    if (operator === "is") return value == null;
+    if (operator === "neq") return value != null && String(value) !== operand;
+    return value != null && !operand.slice(1, -1).split(",").includes(String(value));
+  });
+}
+
+/** In-memory stand-in for the supabase query builder over one table */
+function fakeQuery(rows: Record<string, any>[]) {
+  let result = rows;
+  let head = false;
+  const chain: any = {
+    select: vi.fn((_columns: string, options?: { head?: boolean }) => {
+      head = Boolean(options?.head);
+      return chain;
+    }),
+    eq: vi.fn((column: string, value: unknown) => {
+      result = result.filter((row) => columnValue(row, column) === value);
+      return chain;
+    }),
+    gte: vi.fn((column: string, value: string) => {
+      result = result.filter((row) => columnValue(row, column) >= value);
+      return chain;
+    }),
+    or: vi.fn((filter: string) => {
+      result = result.filter((row) => matchesOr(row, filter));
+      return chain;
+    }),
+    limit: vi.fn((count: number) => {
+      result = result.slice(0, count);
+      return chain;
+    }),
+    single: vi.fn(() => Promise.resolve({ data: result[0] ?? null, error: null })),
+    maybeSingle: vi.fn(() => Promise.resolve({ data: result[0] ?? null, error: null })),
+    then: (resolve: (value: unknown) => unknown) =>
+      Promise.resolve(head ? { count: result.length, error: null } : { data: result, error: null }).then(resolve),
+  };
+  return chain;
+}
+
+function call(
+  id: string,
+  spamScore: number | null,
+  transcript: string | null = null,
+  baseScore: number | null = null
+): SpamPreviewCall {
+  return {
+    id,
+    created_at: `2026-03-0${id}T12:00:00Z`,
+    caller_phone: "+15555550100",
+    spam_score: spamScore,
+    spam_base_score: baseScore,
+    transcript,
+    caller_rule_action: null,
+  };
+}
+
+describe("screeningAction", () => {
+  it("answers low-scoring callers", () => {
+    expect(screeningAction(0, DEFAULT_SPAM_POLICY)).toBe("answer");
+    expect(screeningAction(39, DEFAULT_SPAM_POLICY)).toBe("answer");
+  });
+
+  it("challenges possible spam and rejects likely spam", () => {
+    expect(screeningAction(40, DEFAULT_SPAM_POLICY)).toBe("challenge");
+    expect(screeningAction(69, DEFAULT_SPAM_POLICY)).toBe("challenge");
+    expect(screeningAction(70, DEFAULT_SPAM_POLICY)).toBe("reject");
+    expect(screeningAction(100, DEFAULT_SPAM_POLICY)).toBe("reject");
+  });
+
+  it("follows the org's chosen actions", () => {
+    const lenient: SpamPolicy = { ...DEFAULT_SPAM_POLICY, actions: { block: "flag", flag: "allow" } };
+    expect(screeningAction(100, lenient)).toBe("challenge");
+    expect(screeningAction(50, lenient)).toBe("answer");
+  });
+});
+
+describe("previewSpamPolicy", () => {
+  it("reports no changes for the same policy", () => {
+    const preview = previewSpamPolicy([call("1", 80), call("2", 10)], DEFAULT_SPAM_POLICY, DEFAULT_SPAM_POLICY);
+    expect(preview).toMatchObject({ totalCalls: 2, changedCount: 0, before: { block: 1, flag: 0, allow: 1 } });
+  });
+
+  it("re-scores transcripts with the new keywords", () => {
+    const calls = [call("1", 40, "I'm calling about your timeshare")];
+    const policy: SpamPolicy = { ...DEFAULT_SPAM_POLICY, removedKeywords: ["timeshare"] };
+    const preview = previewSpamPolicy(calls, DEFAULT_SPAM_POLICY, policy);
+    expect(preview.changes).toEqual([
+      expect.objectContaining({ callId: "1", scoreBefore: 40, scoreAfter: 30, actionBefore: "flag", actionAfter: "allow" }),
+    ]);
+  });
+
+  it("applies the new sensitivity", () => {
+    const policy: SpamPolicy = { ...DEFAULT_SPAM_POLICY, sensitivity: "high" };
+    const preview = previewSpamPolicy([call("1", 30), call("2", 60)], DEFAULT_SPAM_POLICY, policy);
+    expect(preview.after).toEqual({ block: 1, flag: 1, allow: 0 });
+    expect(preview.changedCount).toBe(2);
+  });
+
+  it("re-scores from the stored base score when the call has one", () => {
+    // Scored under an older keyword list, and capped at 100
+    const calls = [call("1", 100, "I'm calling about your timeshare", 60)];
+    const policy: SpamPolicy = { ...DEFAULT_SPAM_POLICY, removedKeywords: ["timeshare"] };
+    const preview = previewSpamPolicy(calls, DEFAULT_SPAM_POLICY, policy);
+    expect(preview.estimatedCount).toBe(0);
+    expect(preview.changes).toEqual([
+      expect.objectContaining({ callId: "1", scoreBefore: 100, scoreAfter: 60, actionBefore: "block", actionAfter: "flag" }),
+    ]);
+  });
+
+  it("counts calls without a base score as estimates", () => {
+    const preview = previewSpamPolicy([call("1", 40, "Hello"), call("2", 40, "Hello", 40)], DEFAULT_SPAM_POLICY, DEFAULT_SPAM_POLICY);
+    expect(preview.estimatedCount).toBe(1);
+  });
+
+  it("skips unscored calls and calls decided by a caller rule", () => {
+    const ruled = { ...call("2", 100), caller_rule_action: "block" };
+    const preview = previewSpamPolicy([call("1", null), ruled], DEFAULT_SPAM_POLICY, DEFAULT_SPAM_POLICY);
+    expect(preview.totalCalls).toBe(0);
+  });
+});
+
+describe("screenCall", () => {
+  const ORG_ID = "00000000-0000-0000-0000-000000000001";
+  const CALLER = "+12125550147";
+
+  function priorCall(overrides: Record<string, any>) {
+    return {
+      organization_id: ORG_ID,
+      caller_phone: CALLER,
+      created_at: new Date().toISOString(),
+      is_spam: false,
+      caller_rule_action: null,
+      metadata: { voice_provider: "self_hosted" },
+      ...overrides,
+    };
+  }
+
+  const metadata = { organizationId: ORG_ID, callerPhone: CALLER, timestamp: new Date() };
+
+  beforeEach(() => {
+    db.tables = { organizations: [{ id: ORG_ID, spam_policy: null }], caller_rules: [], calls: [] };
+  });
+
+  it("answers a caller whose earlier call failed the challenge", async () => {
+    const screening = { outcome: "challenge_failed", spamScore: 55, reasons: [] };
+    db.tables.calls = [
+      priorCall({ spam_score: 55, metadata: { voice_provider: "self_hosted", screening } }),
+      // Recorded before screening-stopped calls stopped being flagged as spam
+      priorCall({ is_spam: true, spam_score: 55, metadata: { voice_provider: "self_hosted", screening } }),
+    ];
+
+    const result = await screenCall(metadata);
+    expect(result).toEqual({ action: "answer", spamScore: 0, reasons: [] });
+  });
+
+  it("leaves calls stopped before answer out of the call frequency", async () => {
+    const screening = { outcome: "rejected", spamScore: 80, reasons: [] };
+    db.tables.calls = Array.from({ length: 6 }, () =>
+      priorCall({ metadata: { voice_provider: "self_hosted", screening } })
+    );
+    expect((await screenCall(metadata)).spamScore).toBe(0);
+
+    db.tables.calls = Array.from({ length: 6 }, () => priorCall({}));
+    expect((await screenCall(metadata)).spamScore).toBe(20);
+  });
+
+  it("answers a caller once their block rule is deleted", async () => {
+    db.tables.calls = Array.from({ length: 6 }, () =>
+      priorCall({ is_spam: true, spam_score: 100, caller_rule_action: "block" })
+    );
+    const result = await screenCall(metadata);
+    expect(result).toEqual({ action: "answer", spamScore: 0, reasons: [] });
+  });
+
+  it("still rejects numbers marked as spam after an answered call", async () => {
+    db.tables.calls = [priorCall({ is_spam: true, spam_score: 90 })];
+    const result = await screenCall(metadata);
+    expect(result).toMatchObject({ action: "reject", reasons: ["Previously marked as spam"] });
+  });
+});
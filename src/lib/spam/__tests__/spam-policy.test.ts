@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  decideSpamAction,
+  DEFAULT_SPAM_KEYWORDS,
+  DEFAULT_SPAM_POLICY,
+  normalizeSpamPolicy,
+  policyKeywords,
+  spamThresholds,
+  type SpamPolicy,
+} from "../spam-policy";
+
+describe("normalizeSpamPolicy", () => {
+  it("falls back to the defaults", () => {
+    expect(normalizeSpamPolicy(null)).toEqual(DEFAULT_SPAM_POLICY);
+    expect(normalizeSpamPolicy({ sensitivity: "extreme", actions: { block: "delete" } })).toEqual(DEFAULT_SPAM_POLICY);
+  });
+
+  it("lowercases and de-duplicates keywords", () => {
+    const policy = normalizeSpamPolicy({ addedKeywords: [" Solar Panels ", "solar panels", "", 5] });
+    expect(policy.addedKeywords).toEqual(["solar panels"]);
+  });
+});
+
+describe("spamThresholds", () => {
+  it("moves every threshold with sensitivity", () => {
+    expect(spamThresholds("standard")).toEqual({ flag: 40, spam: 50, block: 70 });
+    expect(spamThresholds("low").block).toBeGreaterThan(70);
+    expect(spamThresholds("high").flag).toBeLessThan(40);
+  });
+});
+
+describe("policyKeywords", () => {
+  it("removes and adds to the default keywords", () => {
+    const keywords = policyKeywords({ ...DEFAULT_SPAM_POLICY, removedKeywords: ["irs"], addedKeywords: ["solar panels"] });
+    expect(keywords).not.toContain("irs");
+    expect(keywords).toContain("solar panels");
+    expect(keywords).toHaveLength(DEFAULT_SPAM_KEYWORDS.length);
+  });
+});
+
+describe("decideSpamAction", () => {
+  it("matches the original fixed thresholds by default", () => {
+    expect(decideSpamAction(39, DEFAULT_SPAM_POLICY)).toEqual({ recommendation: "allow", action: "allow", isSpam: false });
+    expect(decideSpamAction(45, DEFAULT_SPAM_POLICY)).toEqual({ recommendation: "flag", action: "flag", isSpam: false });
+    expect(decideSpamAction(50, DEFAULT_SPAM_POLICY)).toEqual({ recommendation: "flag", action: "flag", isSpam: true });
+    expect(decideSpamAction(70, DEFAULT_SPAM_POLICY)).toEqual({ recommendation: "block", action: "block", isSpam: true });
+  });
+
+  it("never marks allowed calls as spam", () => {
+    const policy: SpamPolicy = { ...DEFAULT_SPAM_POLICY, actions: { block: "allow", flag: "allow" } };
+    expect(decideSpamAction(100, policy)).toEqual({ recommendation: "block", action: "allow", isSpam: false });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { stoppedCallWebhook, type StoppedCall } from "../stopped-calls";
+
+function stoppedCall(overrides: Partial<StoppedCall>): StoppedCall {
+  return {
+    id: "call-1",
+    organization_id: "org-1",
+    caller_phone: "+12125550147",
+    spam_score: null,
+    caller_rule_id: null,
+    caller_rule_action: null,
+    metadata: { screening: { outcome: "rejected", spamScore: 85, reasons: ["Known spam number", "7 calls in the last 24 hours"] } },
+    ...overrides,
+  };
+}
+
+describe("stoppedCallWebhook", () => {
+  it("sends spam.blocked for callers rejected by screening", () => {
+    const payload = stoppedCallWebhook(stoppedCall({ spam_score: 85 }));
+    expect(payload?.event).toBe("spam.blocked");
+    expect(payload?.data).toEqual({
+      call_id: "call-1",
+      caller_phone: "+12125550147",
+      spam_score: 85,
+      confidence: "medium",
+      reasons: ["Known spam number", "7 calls in the last 24 hours"],
+    });
+  });
+
+  it("sends spam.blocked for callers who failed the challenge", () => {
+    const payload = stoppedCallWebhook(stoppedCall({
+      caller_phone: null,
+      metadata: { screening: { outcome: "challenge_failed", spamScore: 45, reasons: ["Repetitive number pattern"] } },
+    }));
+    expect(payload?.data).toMatchObject({
+      caller_phone: "Unknown",
+      spam_score: 45,
+      reasons: ["Repetitive number pattern", "Did not press 1 to be connected"],
+    });
+  });
+
+  it("sends spam.blocked for callers on the block list", () => {
+    const payload = stoppedCallWebhook(stoppedCall({ caller_rule_id: "rule-1", caller_rule_action: "block", metadata: null }));
+    expect(payload?.event).toBe("spam.blocked");
+    expect(payload?.data).toMatchObject({ spam_score: 100, confidence: "high", reasons: ["On the organization's block list"] });
+  });
+
+  it("sends call.transferred for callers a transfer rule put through", () => {
+    const call = stoppedCall({ caller_rule_id: "rule-1", caller_rule_action: "transfer", metadata: null });
+    const payload = stoppedCallWebhook(call, { transfer_to_phone: "+12125550100", transfer_to_name: "Front desk", label: "VIP" });
+    expect(payload?.event).toBe("call.transferred");
+    expect(payload?.data).toEqual({
+      call_id: "call-1",
+      caller_phone: "+12125550147",
+      transfer_to: "+12125550100",
+      transfer_to_name: "Front desk",
+      reason: "VIP",
+    });
+    expect(stoppedCallWebhook(call, null)).toBeNull();
+  });
+
+  it("sends nothing for calls the assistant answered", () => {
+    expect(stoppedCallWebhook(stoppedCall({ metadata: { screening: { outcome: "challenge_passed", spamScore: 45 } } }))).toBeNull();
+    expect(stoppedCallWebhook(stoppedCall({ metadata: null }))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Caller Rules
+ *
+ * Org-managed numbers and prefixes that are handled before the assistant
+ * answers: block them, let them through without spam scoring, or put them
+ * straight through to a person. The voice server's /twiml handler (via its
+ * mirror in voice-server/lib/caller-rules.js) and the Vapi status-update
+ * webhook enforce them, and analyzeCall honours them after the call.
+ */
+
+import { contactPhoneKey } from "@/lib/contacts/contacts";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+export const CALLER_RULE_ACTIONS = ["block", "allow", "transfer"] as const;
+export type CallerRuleAction = (typeof CALLER_RULE_ACTIONS)[number];
+
+export const CALLER_RULE_MATCH_TYPES = ["exact", "prefix"] as const;
+export type CallerRuleMatchType = (typeof CALLER_RULE_MATCH_TYPES)[number];
+
+/** Most rules an organization can have */
+export const MAX_CALLER_RULES = 500;
+
+export const CALLER_RULE_COLUMNS =
+  "id, match_type, phone_pattern, action, transfer_to_phone, transfer_to_name, label, is_active, created_at";
+
+export interface CallerRule {
+  id: string;
+  match_type: CallerRuleMatchType;
+  phone_pattern: string;
+  action: CallerRuleAction;
+  transfer_to_phone: string | null;
+  transfer_to_name: string | null;
+  label: string | null;
+  is_active: boolean;
+}
+
+/**
+ * Canonical form of a rule's number. Exact numbers keep a leading + and their
+ * digits and need at least six digits; prefixes must start with + and the
+ * country code. Null when the pattern isn't usable.
+ */
+export function normalizeRulePattern(matchType: CallerRuleMatchType, pattern: string): string | null {
+  const trimmed = pattern.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  const plus = trimmed.startsWith("+") ? "+" : "";
+
+  if (matchType === "exact") {
+    return digits.length >= 6 ? `${plus}${digits}` : null;
+  }
+  return plus && digits.length >= 2 ? `+${digits}` : null;
+}
+
+/**
+ * The active rule for a caller: an exact number beats any prefix, and a
+ * longer prefix beats a shorter one. Exact numbers match on the last nine
+ * digits like contacts do; prefixes match the start of the E.164 number.
+ * Callers without a number (withheld, "anonymous") never match.
+ */
+export function matchCallerRule<T extends Pick<CallerRule, "match_type" | "phone_pattern" | "is_active">>(
+  rules: T[],
+  callerPhone: string | null | undefined
+): T | null {
+  const callerKey = contactPhoneKey(callerPhone);
+  if (!callerKey) return null;
+  const callerDigits = (callerPhone ?? "").replace(/\D/g, "");
+
+  const active = rules.filter((r) => r.is_active);
+  const exact = active.find((r) => r.match_type === "exact" && contactPhoneKey(r.phone_pattern) === callerKey);
+  if (exact) return exact;
+
+  let best: T | null = null;
+  let bestLength = 0;
+  for (const rule of active) {
+    if (rule.match_type !== "prefix") continue;
+    const prefix = rule.phone_pattern.replace(/\D/g, "");
+    if (prefix && callerDigits.startsWith(prefix) && prefix.length > bestLength) {
+      best = rule;
+      bestLength = prefix.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Load the org's active rules and match the caller. Errors are logged and
+ * treated as no match, so a lookup failure never stops a call being answered.
+ */
+export async function findCallerRule(
+  supabase: SupabaseAny,
+  organizationId: string,
+  callerPhone: string | null | undefined
+): Promise<CallerRule | null> {
+  if (!contactPhoneKey(callerPhone)) return null;
+
+  const { data, error } = await supabase
+    .from("caller_rules")
+    .select(CALLER_RULE_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("[CallerRules] Failed to load rules:", { organizationId, error });
+    return null;
+  }
+
+  return matchCallerRule((data || []) as CallerRule[], callerPhone);
+}
@@ -0,0 +1,241 @@
+/**
+ * Shared Spam Reputation
+ *
+ * A platform-wide reputation for caller numbers, built from every org's
+ * spam / not-spam feedback on calls. Numbers are stored only as keyed hashes,
+ * each org has one vote per number (its latest), votes fade with age, and a
+ * number only counts against callers once several independent orgs have
+ * reported it. Platform admins can override a number either way.
+ */
+
+import crypto from "crypto";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+export type ReputationVerdict = "spam" | "not_spam";
+
+/** A report's weight halves every this many days */
+export const REPUTATION_HALF_LIFE_DAYS = 30;
+
+/** Independent orgs that must have recently reported a number as spam */
+export const MIN_REPORTING_ORGS = 3;
+
+/** Most a number's reputation adds to a spam score */
+export const MAX_REPUTATION_SCORE = 50;
+
+/** Reports weighing less than this (about 100 days old) no longer count towards MIN_REPORTING_ORGS */
+const ACTIVE_REPORT_WEIGHT = 0.1;
+
+export interface ReputationReport {
+  verdict: ReputationVerdict;
+  reported_at: string;
+}
+
+export interface NumberReputation {
+  score: number;
+  spamOrgs: number;
+  notSpamOrgs: number;
+  override: ReputationVerdict | null;
+}
+
+export interface ReputationSummary extends NumberReputation {
+  phoneHash: string;
+  phoneHint: string | null;
+  lastReportedAt: string;
+  overrideNote: string | null;
+}
+
+/**
+ * Keyed hash of a caller number, so the shared tables never hold a number
+ * that can be looked up by brute force. Null for numbers too short to be a
+ * real caller.
+ */
+export function reputationPhoneHash(phone: string | null | undefined, secret: string): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  if (digits.length < 7) return null;
+  return crypto.createHmac("sha256", secret).update(digits).digest("hex");
+}
+
+/** Masked number for the admin view, e.g. "••• 0100" */
+export function reputationPhoneHint(phone: string): string {
+  return `••• ${phone.replace(/\D/g, "").slice(-4)}`;
+}
+
+function reputationSecret(): string | null {
+  return process.env.SPAM_REPUTATION_SECRET || process.env.ENCRYPTION_KEY || null;
+}
+
+export function reportWeight(reportedAt: Date, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - reportedAt.getTime()) / (24 * 60 * 60 * 1000));
+  return Math.pow(0.5, ageDays / REPUTATION_HALF_LIFE_DAYS);
+}
+
+/**
+ * Reputation score from a number's reports: the age-weighted spam votes less
+ * the not-spam votes, 10 points per fresh net vote up to MAX_REPUTATION_SCORE.
+ * Zero until MIN_REPORTING_ORGS orgs have reported it recently. An admin
+ * override replaces the computed score.
+ */
+export function computeReputation(
+  reports: ReputationReport[],
+  override: ReputationVerdict | null,
+  now: Date
+): NumberReputation {
+  let spamWeight = 0;
+  let notSpamWeight = 0;
+  let activeSpamOrgs = 0;
+
+  for (const report of reports) {
+    const weight = reportWeight(new Date(report.reported_at), now);
+    if (report.verdict === "spam") {
+      spamWeight += weight;
+      if (weight >= ACTIVE_REPORT_WEIGHT) activeSpamOrgs++;
+    } else {
+      notSpamWeight += weight;
+    }
+  }
+
+  const spamOrgs = reports.filter((r) => r.verdict === "spam").length;
+  const notSpamOrgs = reports.length - spamOrgs;
+
+  if (override) {
+    return { score: override === "spam" ? MAX_REPUTATION_SCORE : 0, spamOrgs, notSpamOrgs, override };
+  }
+
+  const net = spamWeight - notSpamWeight;
+  const score = activeSpamOrgs >= MIN_REPORTING_ORGS && net > 0
+    ? Math.min(MAX_REPUTATION_SCORE, Math.round(net * 10))
+    : 0;
+
+  return { score, spamOrgs, notSpamOrgs, override: null };
+}
+
+/**
+ * Record an org's verdict on a caller number, replacing its earlier vote.
+ * Never throws: reputation is best effort and must not fail the user's action.
+ */
+export async function recordSpamReport(
+  supabase: SupabaseAny,
+  organizationId: string,
+  phone: string | null | undefined,
+  verdict: ReputationVerdict
+): Promise<void> {
+  const secret = reputationSecret();
+  const phoneHash = secret ? reputationPhoneHash(phone, secret) : null;
+  if (!phone || !phoneHash) return;
+
+  const { error } = await supabase
+    .from("spam_reports")
+    .upsert(
+      {
+        phone_hash: phoneHash,
+        phone_hint: reputationPhoneHint(phone),
+        organization_id: organizationId,
+        verdict,
+        reported_at: new Date().toISOString(),
+      },
+      { onConflict: "phone_hash,organization_id" }
+    );
+
+  if (error) {
+    console.error("[Reputation] Failed to record spam report:", { organizationId, verdict, error });
+  }
+}
+
+/** The shared reputation for a caller number, or null if it can't be looked up */
+export async function getNumberReputation(
+  supabase: SupabaseAny,
+  phone: string | null | undefined
+): Promise<NumberReputation | null> {
+  const secret = reputationSecret();
+  const phoneHash = secret ? reputationPhoneHash(phone, secret) : null;
+  if (!phoneHash) return null;
+
+  const [{ data: reports, error: reportsError }, { data: override }] = await Promise.all([
+    supabase.from("spam_reports").select("verdict, reported_at").eq("phone_hash", phoneHash),
+    supabase.from("spam_reputation_overrides").select("verdict").eq("phone_hash", phoneHash).maybeSingle(),
+  ]);
+
+  if (reportsError) {
+    console.error("[Reputation] Failed to load reports:", reportsError);
+    return null;
+  }
+
+  return computeReputation(reports || [], override?.verdict ?? null, new Date());
+}
+
+/** Most-reported numbers and overridden numbers, for the platform admin view */
+export async function listReputation(supabase: SupabaseAny, limit = 100): Promise<ReputationSummary[]> {
+  const [{ data: summaries, error }, { data: overrides }] = await Promise.all([
+    supabase
+      .from("spam_reputation_summary")
+      .select("phone_hash, phone_hint, last_reported_at")
+      .order("spam_orgs", { ascending: false })
+      .order("last_reported_at", { ascending: false })
+      .limit(limit),
+    supabase.from("spam_reputation_overrides").select("phone_hash, phone_hint, verdict, note, updated_at"),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load spam reputation: ${error.message}`);
+  }
+
+  const overrideByHash = new Map<string, { phone_hint: string | null; verdict: ReputationVerdict; note: string | null; updated_at: string }>(
+    (overrides || []).map((o: { phone_hash: string }) => [o.phone_hash, o])
+  );
+  const rows = new Map<string, { phone_hint: string | null; last_reported_at: string }>(
+    (summaries || []).map((s: { phone_hash: string }) => [s.phone_hash, s])
+  );
+  for (const [hash, override] of overrideByHash) {
+    if (!rows.has(hash)) rows.set(hash, { phone_hint: override.phone_hint, last_reported_at: override.updated_at });
+  }
+
+  const hashes = [...rows.keys()];
+  const { data: reports } = hashes.length > 0
+    ? await supabase.from("spam_reports").select("phone_hash, verdict, reported_at").in("phone_hash", hashes)
+    : { data: [] };
+
+  const reportsByHash = new Map<string, ReputationReport[]>();
+  for (const report of (reports || []) as (ReputationReport & { phone_hash: string })[]) {
+    reportsByHash.set(report.phone_hash, [...(reportsByHash.get(report.phone_hash) ?? []), report]);
+  }
+
+  const now = new Date();
+  return hashes.map((hash) => {
+    const row = rows.get(hash)!;
+    const override = overrideByHash.get(hash);
+    return {
+      phoneHash: hash,
+      phoneHint: row.phone_hint,
+      lastReportedAt: row.last_reported_at,
+      overrideNote: override?.note ?? null,
+      ...computeReputation(reportsByHash.get(hash) ?? [], override?.verdict ?? null, now),
+    };
+  });
+}
+
+/** Set a platform admin's verdict on a number. Returns false for unusable numbers. */
+export async function setReputationOverride(
+  supabase: SupabaseAny,
+  phone: string,
+  verdict: ReputationVerdict,
+  note: string | null,
+  userId: string
+): Promise<boolean> {
+  const secret = reputationSecret();
+  const phoneHash = secret ? reputationPhoneHash(phone, secret) : null;
+  if (!phoneHash) return false;
+
+  const { error } = await supabase
+    .from("spam_reputation_overrides")
+    .upsert(
+      { phone_hash: phoneHash, phone_hint: reputationPhoneHint(phone), verdict, note, created_by: userId },
+      { onConflict: "phone_hash" }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save override: ${error.message}`);
+  }
+  return true;
+}
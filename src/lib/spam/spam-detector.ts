@@ -3,22 +3,50 @@
  *
  * Analyzes incoming calls and call patterns to detect potential spam.
  * Uses multiple signals:
- * - Known spam phone number databases
+ * - Shared reputation from other orgs' spam reports
  * - Call frequency patterns
  * - Call duration patterns (very short calls)
  * - Time of day patterns (unusual hours)
  * - Geographic patterns
+ *
+ * Thresholds, keywords and what happens at each recommendation follow the
+ * org's spam policy (see spam-policy.ts).
  */
 
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getCountryConfig } from "@/lib/country-config";
+import { findCallerRule } from "./caller-rules";
+import { getNumberReputation, recordSpamReport } from "./reputation";
+import {
+  decideSpamAction,
+  loadSpamPolicy,
+  policyKeywords,
+  type SpamAction,
+  type SpamPolicy,
+  type SpamRecommendation,
+} from "./spam-policy";
 
 export interface SpamAnalysisResult {
   isSpam: boolean;
   spamScore: number; // 0-100, higher = more likely spam
   reasons: string[];
   confidence: "high" | "medium" | "low";
-  recommendation: "block" | "flag" | "allow";
+  recommendation: SpamRecommendation;
+  /** What the org's spam policy does at this recommendation */
+  action: SpamAction;
+  /**
+   * Uncapped score from every signal but the transcript, stored on the call
+   * so previewSpamPolicy can re-score the transcript with other keywords
+   */
+  baseScore: number;
+}
+
+export type ScreeningAction = "answer" | "challenge" | "reject";
+
+export interface ScreeningResult {
+  action: ScreeningAction;
+  spamScore: number;
+  reasons: string[];
 }
 
 export interface CallMetadata {
@@ -45,48 +73,15 @@ const SPAM_INDICATORS = {
 
   // Short call durations (in seconds) that might indicate robocalls
   suspiciousCallDuration: 5, // Calls under 5 seconds
-
-  // Keywords in transcript that suggest spam
-  spamKeywords: [
-    "warranty",
-    "extended warranty",
-    "car warranty",
-    "auto warranty",
-    "social security",
-    "irs",
-    "microsoft",
-    "apple support",
-    "tech support",
-    "virus detected",
-    "computer compromised",
-    "amazon order",
-    "debt collection",
-    "free vacation",
-    "timeshare",
-    "lower interest rate",
-    "student loan forgiveness",
-    "medicare",
-    "health insurance",
-    "final notice",
-    "legal action",
-    "won a prize",
-    "bitcoin",
-    "cryptocurrency investment",
-    "press 1",
-    "press one",
-    "act now",
-    "limited time",
-    "urgent",
-  ],
 };
 
 /**
  * Analyze a phone number for spam indicators
  */
-function analyzePhoneNumber(phone: string, countryCode: string = "US"): {
+async function analyzePhoneNumber(phone: string, countryCode: string = "US"): Promise<{
   score: number;
   reasons: string[];
-} {
+}> {
   let score = 0;
   const reasons: string[] = [];
 
@@ -123,9 +118,32 @@ function analyzePhoneNumber(phone: string, countryCode: string = "US"): {
     reasons.push("Sequential number pattern");
   }
 
+  // Reports from businesses across the platform
+  const reputation = await getNumberReputation(createAdminClient(), phone);
+  if (reputation?.score) {
+    score += reputation.score;
+    reasons.push(
+      reputation.override === "spam"
+        ? "Known spam number"
+        : `Reported as spam by ${reputation.spamOrgs} businesses`
+    );
+  }
+
   return { score, reasons };
 }
 
+/**
+ * Leave out calls that a block rule or screening stopped before the assistant
+ * answered. They are the outcome of an earlier rule or score, so counting them
+ * again would let one failed challenge snowball into rejecting every later
+ * call from the number, and keep rejecting it after its block rule is deleted.
+ */
+function excludeStoppedBeforeAnswer(query: any) {
+  return query
+    .or("caller_rule_action.is.null,caller_rule_action.neq.block")
+    .or("metadata->screening->>outcome.is.null,metadata->screening->>outcome.not.in.(rejected,challenge_failed)");
+}
+
 /**
  * Analyze call frequency from a number
  */
@@ -140,12 +158,14 @@ async function analyzeCallFrequency(
   windowStart.setHours(windowStart.getHours() - timeWindowHours);
 
   // Count calls from this number in the time window
-  const { count, error } = await (supabase as any)
-    .from("calls")
-    .select("*", { count: "exact", head: true })
-    .eq("organization_id", organizationId)
-    .eq("caller_phone", phone)
-    .gte("created_at", windowStart.toISOString());
+  const { count, error } = await excludeStoppedBeforeAnswer(
+    (supabase as any)
+      .from("calls")
+      .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
+      .eq("caller_phone", phone)
+      .gte("created_at", windowStart.toISOString())
+  );
 
   if (error || count === null) {
     return { score: 0, reasons: [] };
@@ -172,7 +192,7 @@ async function analyzeCallFrequency(
 /**
  * Analyze transcript for spam keywords
  */
-function analyzeTranscript(transcript: string): {
+function analyzeTranscript(transcript: string, keywords: string[]): {
   score: number;
   reasons: string[];
 } {
@@ -185,7 +205,7 @@ function analyzeTranscript(transcript: string): {
   const reasons: string[] = [];
   const foundKeywords: string[] = [];
 
-  for (const keyword of SPAM_INDICATORS.spamKeywords) {
+  for (const keyword of keywords) {
     if (lowerTranscript.includes(keyword.toLowerCase())) {
       foundKeywords.push(keyword);
       score += 10;
@@ -270,14 +290,17 @@ async function checkBlocklist(
 ): Promise<boolean> {
   const supabase = createAdminClient();
 
-  // Check for previously marked spam calls from this number
-  const { data, error } = await (supabase as any)
-    .from("calls")
-    .select("id")
-    .eq("organization_id", organizationId)
-    .eq("caller_phone", phone)
-    .eq("is_spam", true)
-    .limit(1);
+  // Check for previously marked spam calls from this number. Calls stopped by
+  // a block rule or (before they were recorded unflagged) by screening were
+  // flagged too, so they are skipped here.
+  const { data, error } = await excludeStoppedBeforeAnswer(
+    (supabase as any)
+      .from("calls")
+      .select("id")
+      .eq("organization_id", organizationId)
+      .eq("caller_phone", phone)
+      .eq("is_spam", true)
+  ).limit(1);
 
   return !error && data && data.length > 0;
 }
@@ -289,20 +312,47 @@ export async function analyzeCall(metadata: CallMetadata): Promise<SpamAnalysisR
   const allReasons: string[] = [];
   let totalScore = 0;
 
-  // Check blocklist first
+  // The org's own caller rules override scoring
+  const rule = await findCallerRule(createAdminClient(), metadata.organizationId, metadata.callerPhone);
+  if (rule?.action === "block") {
+    return {
+      isSpam: true,
+      spamScore: 100,
+      reasons: ["On the organization's block list"],
+      confidence: "high",
+      recommendation: "block",
+      action: "block",
+      baseScore: 100,
+    };
+  }
+  if (rule) {
+    return {
+      isSpam: false,
+      spamScore: 0,
+      reasons: [rule.action === "allow" ? "On the organization's allow list" : "Matched a transfer rule"],
+      confidence: "high",
+      recommendation: "allow",
+      action: "allow",
+      baseScore: 0,
+    };
+  }
+
+  const policy = await loadSpamPolicy(createAdminClient(), metadata.organizationId);
+
+  // Then numbers previously marked as spam
   const isBlocked = await checkBlocklist(metadata.callerPhone, metadata.organizationId);
   if (isBlocked) {
     return {
-      isSpam: true,
+      ...decideSpamAction(100, policy),
       spamScore: 100,
       reasons: ["Previously marked as spam"],
       confidence: "high",
-      recommendation: "block",
+      baseScore: 100,
     };
   }
 
   // Analyze phone number
-  const phoneAnalysis = analyzePhoneNumber(metadata.callerPhone, metadata.countryCode);
+  const phoneAnalysis = await analyzePhoneNumber(metadata.callerPhone, metadata.countryCode);
   totalScore += phoneAnalysis.score;
   allReasons.push(...phoneAnalysis.reasons);
 
@@ -315,8 +365,10 @@ export async function analyzeCall(metadata: CallMetadata): Promise<SpamAnalysisR
   allReasons.push(...frequencyAnalysis.reasons);
 
   // Analyze transcript if available
+  let transcriptScore = 0;
   if (metadata.transcript) {
-    const transcriptAnalysis = analyzeTranscript(metadata.transcript);
+    const transcriptAnalysis = analyzeTranscript(metadata.transcript, policyKeywords(policy));
+    transcriptScore = transcriptAnalysis.score;
     totalScore += transcriptAnalysis.score;
     allReasons.push(...transcriptAnalysis.reasons);
   }
@@ -336,37 +388,165 @@ export async function analyzeCall(metadata: CallMetadata): Promise<SpamAnalysisR
   // Cap total score at 100
   const spamScore = Math.min(totalScore, 100);
 
-  // Determine confidence level
-  let confidence: SpamAnalysisResult["confidence"];
-  if (allReasons.length >= 4 && spamScore >= 60) {
-    confidence = "high";
-  } else if (allReasons.length >= 2 && spamScore >= 40) {
-    confidence = "medium";
-  } else {
-    confidence = "low";
+  return {
+    ...decideSpamAction(spamScore, policy),
+    spamScore,
+    reasons: allReasons,
+    confidence: spamConfidence(spamScore, allReasons),
+    baseScore: totalScore - transcriptScore,
+  };
+}
+
+/** How sure a score is, from how high it is and how many signals add up to it */
+export function spamConfidence(spamScore: number, reasons: string[]): SpamAnalysisResult["confidence"] {
+  if (reasons.length >= 4 && spamScore >= 60) return "high";
+  if (reasons.length >= 2 && spamScore >= 40) return "medium";
+  return "low";
+}
+
+/** Before the call is answered: blocked calls are rejected, flagged callers must press 1 */
+export function screeningAction(spamScore: number, policy: SpamPolicy): ScreeningAction {
+  const { action } = decideSpamAction(spamScore, policy);
+  if (action === "block") return "reject";
+  if (action === "flag") return "challenge";
+  return "answer";
+}
+
+/**
+ * Fast check before the assistant answers, using only what is known when the
+ * phone rings: the org's caller rules, numbers already marked as spam, the
+ * number itself and how often it has called. Transcript, duration and timing
+ * are left to analyzeCall after the call.
+ */
+export async function screenCall(metadata: Omit<CallMetadata, "duration" | "transcript">): Promise<ScreeningResult> {
+  const rule = await findCallerRule(createAdminClient(), metadata.organizationId, metadata.callerPhone);
+  if (rule?.action === "block") {
+    return { action: "reject", spamScore: 100, reasons: ["On the organization's block list"] };
+  }
+  if (rule) {
+    return { action: "answer", spamScore: 0, reasons: [] };
   }
 
-  // Determine recommendation
-  let recommendation: SpamAnalysisResult["recommendation"];
-  if (spamScore >= 70) {
-    recommendation = "block";
-  } else if (spamScore >= 40) {
-    recommendation = "flag";
-  } else {
-    recommendation = "allow";
+  const policy = await loadSpamPolicy(createAdminClient(), metadata.organizationId);
+
+  if (await checkBlocklist(metadata.callerPhone, metadata.organizationId)) {
+    return { action: screeningAction(100, policy), spamScore: 100, reasons: ["Previously marked as spam"] };
   }
 
+  const phoneAnalysis = await analyzePhoneNumber(metadata.callerPhone, metadata.countryCode);
+  const frequencyAnalysis = await analyzeCallFrequency(metadata.callerPhone, metadata.organizationId);
+  const spamScore = Math.min(phoneAnalysis.score + frequencyAnalysis.score, 100);
+
   return {
-    isSpam: spamScore >= 50,
+    action: screeningAction(spamScore, policy),
     spamScore,
-    reasons: allReasons,
-    confidence,
-    recommendation,
+    reasons: [...phoneAnalysis.reasons, ...frequencyAnalysis.reasons],
+  };
+}
+
+export interface SpamPreviewCall {
+  id: string;
+  created_at: string;
+  caller_phone: string | null;
+  spam_score: number | null;
+  spam_base_score: number | null;
+  transcript: string | null;
+  caller_rule_action: string | null;
+}
+
+export interface SpamPreviewChange {
+  callId: string;
+  createdAt: string;
+  callerPhone: string | null;
+  scoreBefore: number;
+  scoreAfter: number;
+  actionBefore: SpamAction;
+  actionAfter: SpamAction;
+}
+
+export interface SpamPolicyPreview {
+  totalCalls: number;
+  before: Record<SpamAction, number>;
+  after: Record<SpamAction, number>;
+  changedCount: number;
+  /**
+   * Calls scored before the non-transcript part of the score was kept. Their
+   * re-score assumes the stored score came from the current keywords and was
+   * not capped at 100, so it is an estimate.
+   */
+  estimatedCount: number;
+  /** The most recent calls whose outcome would change */
+  changes: SpamPreviewChange[];
+  /** Set by the preview route when only the most recent calls were scored */
+  truncated?: boolean;
+}
+
+/** Most changed calls returned by previewSpamPolicy */
+const MAX_PREVIEW_CHANGES = 50;
+
+/**
+ * What-if for a policy change: re-score past calls under a new policy. The
+ * call's stored non-transcript score is added to its transcript re-scored
+ * with the new policy's keywords. Calls decided by a caller rule, and calls
+ * that were never scored, are left out.
+ */
+export function previewSpamPolicy(
+  calls: SpamPreviewCall[],
+  currentPolicy: SpamPolicy,
+  newPolicy: SpamPolicy
+): SpamPolicyPreview {
+  const currentKeywords = policyKeywords(currentPolicy);
+  const newKeywords = policyKeywords(newPolicy);
+  const before: Record<SpamAction, number> = { block: 0, flag: 0, allow: 0 };
+  const after: Record<SpamAction, number> = { block: 0, flag: 0, allow: 0 };
+  const changes: SpamPreviewChange[] = [];
+  let totalCalls = 0;
+  let estimatedCount = 0;
+
+  const sorted = [...calls].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  for (const call of sorted) {
+    if (call.spam_score === null || call.caller_rule_action) continue;
+    totalCalls++;
+
+    const transcript = call.transcript ?? "";
+    let baseScore = call.spam_base_score;
+    if (baseScore === null) {
+      estimatedCount++;
+      baseScore = Math.max(0, call.spam_score - analyzeTranscript(transcript, currentKeywords).score);
+    }
+    const scoreAfter = Math.min(baseScore + analyzeTranscript(transcript, newKeywords).score, 100);
+
+    const actionBefore = decideSpamAction(call.spam_score, currentPolicy).action;
+    const actionAfter = decideSpamAction(scoreAfter, newPolicy).action;
+    before[actionBefore]++;
+    after[actionAfter]++;
+
+    if (actionBefore !== actionAfter) {
+      changes.push({
+        callId: call.id,
+        createdAt: call.created_at,
+        callerPhone: call.caller_phone,
+        scoreBefore: call.spam_score,
+        scoreAfter,
+        actionBefore,
+        actionAfter,
+      });
+    }
+  }
+
+  return {
+    totalCalls,
+    before,
+    after,
+    changedCount: changes.length,
+    estimatedCount,
+    changes: changes.slice(0, MAX_PREVIEW_CHANGES),
   };
 }
 
 /**
- * Mark a call as spam (for user reporting)
+ * Mark a call as spam (for user reporting).
+ * Also counts as the org's vote in the shared number reputation.
  */
 export async function markCallAsSpam(
   callId: string,
@@ -374,17 +554,24 @@ export async function markCallAsSpam(
 ): Promise<boolean> {
   const supabase = createAdminClient();
 
-  const { error } = await (supabase as any)
+  const { data, error } = await (supabase as any)
     .from("calls")
     .update({ is_spam: true })
     .eq("id", callId)
-    .eq("organization_id", organizationId);
+    .eq("organization_id", organizationId)
+    .select("caller_phone")
+    .maybeSingle();
+
+  if (!error && data) {
+    await recordSpamReport(supabase, organizationId, data.caller_phone, "spam");
+  }
 
   return !error;
 }
 
 /**
- * Mark a call as not spam (for false positives)
+ * Mark a call as not spam (for false positives).
+ * Also counts as the org's vote in the shared number reputation.
  */
 export async function markCallAsNotSpam(
   callId: string,
@@ -392,11 +579,17 @@ export async function markCallAsNotSpam(
 ): Promise<boolean> {
   const supabase = createAdminClient();
 
-  const { error } = await (supabase as any)
+  const { data, error } = await (supabase as any)
     .from("calls")
     .update({ is_spam: false })
     .eq("id", callId)
-    .eq("organization_id", organizationId);
+    .eq("organization_id", organizationId)
+    .select("caller_phone")
+    .maybeSingle();
+
+  if (!error && data) {
+    await recordSpamReport(supabase, organizationId, data.caller_phone, "not_spam");
+  }
 
   return !error;
 }
@@ -0,0 +1,189 @@
+/**
+ * Spam Policy
+ *
+ * Per-organization tuning for spam detection, stored in
+ * organizations.spam_policy: how sensitive scoring is, which transcript
+ * keywords count, and what happens to calls at each recommendation. Orgs
+ * without a policy get the defaults, which match the original fixed
+ * thresholds.
+ */
+
+import { z } from "zod";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+export type SpamSensitivity = "low" | "standard" | "high";
+export type SpamRecommendation = "block" | "flag" | "allow";
+
+/**
+ * What happens to a call: "block" rejects it before it is answered and marks
+ * it as spam; "flag" asks the caller to press 1 first and marks it as spam
+ * once it scores past the spam threshold; "allow" answers it and never marks it.
+ */
+export type SpamAction = "block" | "flag" | "allow";
+
+export interface SpamPolicy {
+  sensitivity: SpamSensitivity;
+  addedKeywords: string[];
+  removedKeywords: string[];
+  actions: {
+    block: SpamAction;
+    flag: SpamAction;
+  };
+}
+
+export interface SpamThresholds {
+  flag: number;
+  spam: number;
+  block: number;
+}
+
+export interface SpamDecision {
+  recommendation: SpamRecommendation;
+  action: SpamAction;
+  isSpam: boolean;
+}
+
+/** Transcript phrases that suggest spam, before an org adds or removes any */
+export const DEFAULT_SPAM_KEYWORDS = [
+  "warranty",
+  "extended warranty",
+  "car warranty",
+  "auto warranty",
+  "social security",
+  "irs",
+  "microsoft",
+  "apple support",
+  "tech support",
+  "virus detected",
+  "computer compromised",
+  "amazon order",
+  "debt collection",
+  "free vacation",
+  "timeshare",
+  "lower interest rate",
+  "student loan forgiveness",
+  "medicare",
+  "health insurance",
+  "final notice",
+  "legal action",
+  "won a prize",
+  "bitcoin",
+  "cryptocurrency investment",
+  "press 1",
+  "press one",
+  "act now",
+  "limited time",
+  "urgent",
+];
+
+/** Most keywords an org can add */
+export const MAX_ADDED_KEYWORDS = 100;
+
+export const DEFAULT_SPAM_POLICY: SpamPolicy = {
+  sensitivity: "standard",
+  addedKeywords: [],
+  removedKeywords: [],
+  actions: { block: "block", flag: "flag" },
+};
+
+const spamActionSchema = z.enum(["block", "flag", "allow"]);
+const keywordListSchema = z.array(z.string().trim().min(1).max(50)).max(MAX_ADDED_KEYWORDS);
+
+/** Request body for saving or previewing a policy */
+export const spamPolicySchema = z.object({
+  sensitivity: z.enum(["low", "standard", "high"]),
+  addedKeywords: keywordListSchema,
+  removedKeywords: keywordListSchema,
+  actions: z.object({
+    block: spamActionSchema,
+    flag: spamActionSchema,
+  }),
+});
+
+const STANDARD_THRESHOLDS: SpamThresholds = { flag: 40, spam: 50, block: 70 };
+
+/** Points each threshold moves: low sensitivity needs higher scores, high catches more */
+const SENSITIVITY_OFFSET: Record<SpamSensitivity, number> = { low: 15, standard: 0, high: -15 };
+
+const ACTIONS: SpamAction[] = ["block", "flag", "allow"];
+
+function normalizeKeywordList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    if (typeof item !== "string") continue;
+    const keyword = item.trim().toLowerCase().substring(0, 50);
+    if (keyword) seen.add(keyword);
+  }
+  return [...seen].slice(0, MAX_ADDED_KEYWORDS);
+}
+
+/** A stored policy with anything missing or invalid replaced by the default */
+export function normalizeSpamPolicy(raw: unknown): SpamPolicy {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const actions = (value.actions && typeof value.actions === "object" ? value.actions : {}) as Record<string, unknown>;
+  const pickAction = (action: unknown, fallback: SpamAction) =>
+    ACTIONS.includes(action as SpamAction) ? (action as SpamAction) : fallback;
+
+  return {
+    sensitivity: ["low", "standard", "high"].includes(value.sensitivity as string)
+      ? (value.sensitivity as SpamSensitivity)
+      : DEFAULT_SPAM_POLICY.sensitivity,
+    addedKeywords: normalizeKeywordList(value.addedKeywords),
+    removedKeywords: normalizeKeywordList(value.removedKeywords),
+    actions: {
+      block: pickAction(actions.block, DEFAULT_SPAM_POLICY.actions.block),
+      flag: pickAction(actions.flag, DEFAULT_SPAM_POLICY.actions.flag),
+    },
+  };
+}
+
+export function spamThresholds(sensitivity: SpamSensitivity): SpamThresholds {
+  const offset = SENSITIVITY_OFFSET[sensitivity];
+  return {
+    flag: STANDARD_THRESHOLDS.flag + offset,
+    spam: STANDARD_THRESHOLDS.spam + offset,
+    block: STANDARD_THRESHOLDS.block + offset,
+  };
+}
+
+/** The default keywords less the org's removals, plus its additions */
+export function policyKeywords(policy: SpamPolicy): string[] {
+  const removed = new Set(policy.removedKeywords);
+  const keywords = DEFAULT_SPAM_KEYWORDS.filter((k) => !removed.has(k));
+  for (const keyword of policy.addedKeywords) {
+    if (!keywords.includes(keyword)) keywords.push(keyword);
+  }
+  return keywords;
+}
+
+/** Recommendation for a score, and what the org's policy does about it */
+export function decideSpamAction(spamScore: number, policy: SpamPolicy): SpamDecision {
+  const thresholds = spamThresholds(policy.sensitivity);
+  const recommendation: SpamRecommendation =
+    spamScore >= thresholds.block ? "block" : spamScore >= thresholds.flag ? "flag" : "allow";
+  const action = recommendation === "allow" ? "allow" : policy.actions[recommendation];
+
+  return {
+    recommendation,
+    action,
+    isSpam: action === "block" || (action === "flag" && spamScore >= thresholds.spam),
+  };
+}
+
+/** The org's spam policy, or the default if it has none or it can't be loaded */
+export async function loadSpamPolicy(supabase: SupabaseAny, organizationId: string): Promise<SpamPolicy> {
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("spam_policy")
+    .eq("id", organizationId)
+    .single();
+
+  if (error) {
+    console.error("[SpamPolicy] Failed to load policy, using defaults:", { organizationId, error });
+  }
+
+  return normalizeSpamPolicy(data?.spam_policy);
+}
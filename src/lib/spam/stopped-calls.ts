@@ -0,0 +1,79 @@
+/**
+ * Stopped Calls
+ *
+ * Webhooks for self-hosted calls that a caller rule or screening handled
+ * before the assistant answered. These calls never reach call-completed, so
+ * the voice server reports them to /api/internal/call-stopped once they are
+ * recorded and the event is built from the call record.
+ */
+
+import { buildWebhookPayload } from "@/lib/integrations/webhook-delivery";
+import type { WebhookPayload } from "@/lib/integrations/types";
+import { spamConfidence } from "./spam-detector";
+import type { CallerRule } from "./caller-rules";
+
+export const STOPPED_CALL_COLUMNS =
+  "id, organization_id, caller_phone, spam_score, caller_rule_id, caller_rule_action, metadata";
+
+export interface StoppedCall {
+  id: string;
+  organization_id: string;
+  caller_phone: string | null;
+  spam_score: number | null;
+  caller_rule_id: string | null;
+  caller_rule_action: string | null;
+  metadata: {
+    screening?: { outcome?: string; spamScore?: number; reasons?: string[] };
+  } | null;
+}
+
+export type StoppedCallRule = Pick<CallerRule, "transfer_to_phone" | "transfer_to_name" | "label">;
+
+/**
+ * The webhook to send for a call stopped before answer, matching what the
+ * Vapi path sends: spam.blocked when a block rule or screening rejected the
+ * caller or they failed the press-1 challenge, and call.transferred when a
+ * transfer rule put them through (`rule` is the call's transfer rule).
+ * Returns null for calls that were not stopped.
+ */
+export function stoppedCallWebhook(call: StoppedCall, rule: StoppedCallRule | null = null): WebhookPayload | null {
+  if (call.caller_rule_action === "block") {
+    return buildWebhookPayload("spam.blocked", {
+      call_id: call.id,
+      caller_phone: call.caller_phone || "Unknown",
+      spam_score: 100,
+      confidence: "high",
+      reasons: ["On the organization's block list"],
+    });
+  }
+
+  if (call.caller_rule_action === "transfer") {
+    if (!rule?.transfer_to_phone) return null;
+    return buildWebhookPayload("call.transferred", {
+      call_id: call.id,
+      caller_phone: call.caller_phone || "Unknown",
+      transfer_to: rule.transfer_to_phone,
+      transfer_to_name: rule.transfer_to_name ?? null,
+      reason: rule.label || "Matched a transfer rule",
+    });
+  }
+
+  const screening = call.metadata?.screening;
+  if (!screening || (screening.outcome !== "rejected" && screening.outcome !== "challenge_failed")) {
+    return null;
+  }
+
+  const spamScore = call.spam_score ?? screening.spamScore ?? 0;
+  const reasons = [
+    ...(screening.reasons || []),
+    ...(screening.outcome === "challenge_failed" ? ["Did not press 1 to be connected"] : []),
+  ];
+
+  return buildWebhookPayload("spam.blocked", {
+    call_id: call.id,
+    caller_phone: call.caller_phone || "Unknown",
+    spam_score: spamScore,
+    confidence: spamConfidence(spamScore, reasons),
+    reasons,
+  });
+}
@@ -1,3 +1,8 @@
+import { loadServices } from "@/lib/calendar/services";
+import { loadStaff } from "@/lib/calendar/staff";
+import { todayInTimezone, upcomingSpecialHours } from "@/lib/calendar/special-hours";
+import type { PromptService, PromptSpecialHours } from "@/lib/prompt-builder/generate-prompt";
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SupabaseAny = any;
 
@@ -5,11 +10,17 @@ export interface OrgScheduleContext {
   timezone: string | undefined;
   businessHours: Record<string, { open: string; close: string } | null> | undefined;
   defaultAppointmentDuration: number | undefined;
+  services: PromptService[];
+  staffNames: string[];
+  specialHours: PromptSpecialHours[];
+  /** Language call summaries are written in (organizations.owner_language) */
+  ownerLanguage: string | undefined;
 }
 
 /**
- * Fetch the organization's timezone, business_hours, and
- * default_appointment_duration from the DB.
+ * Fetch the organization's timezone, business_hours,
+ * default_appointment_duration, upcoming special hours, services catalog,
+ * staff and summary language from the DB.
  * Logs on failure and returns undefineds so callers degrade gracefully.
  */
 export async function getOrgScheduleContext(
@@ -19,7 +30,7 @@ export async function getOrgScheduleContext(
 ): Promise<OrgScheduleContext> {
   const { data: orgRow, error: orgError } = await (supabase as any)
     .from("organizations")
-    .select("timezone, business_hours, default_appointment_duration")
+    .select("timezone, business_hours, special_hours, default_appointment_duration, owner_language")
     .eq("id", organizationId)
     .single();
 
@@ -30,9 +41,38 @@ export async function getOrgScheduleContext(
     });
   }
 
+  let services: PromptService[] = [];
+  try {
+    services = (await loadServices(supabase, organizationId)).map((s) => ({
+      name: s.name,
+      durationMinutes: s.durationMinutes,
+      description: s.description,
+      staffNames: s.staff.map((m) => m.name),
+    }));
+  } catch (error) {
+    console.error(`Failed to fetch services for ${caller}:`, {
+      organizationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  let staffNames: string[] = [];
+  try {
+    staffNames = (await loadStaff(supabase, organizationId)).map((m) => m.name);
+  } catch (error) {
+    console.error(`Failed to fetch staff for ${caller}:`, {
+      organizationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
   return {
     timezone: orgRow?.timezone || undefined,
     businessHours: orgRow?.business_hours || undefined,
     defaultAppointmentDuration: orgRow?.default_appointment_duration ?? undefined,
+    services,
+    staffNames,
+    specialHours: upcomingSpecialHours(orgRow?.special_hours, todayInTimezone(orgRow?.timezone || undefined)),
+    ownerLanguage: orgRow?.owner_language || undefined,
   };
 }
@@ -49,8 +49,11 @@ export async function updateSession(request: NextRequest) {
     request.nextUrl.pathname.startsWith("/dashboard") ||
     request.nextUrl.pathname.startsWith("/assistants") ||
     request.nextUrl.pathname.startsWith("/calls") ||
+    request.nextUrl.pathname.startsWith("/messages") ||
+    request.nextUrl.pathname.startsWith("/contacts") ||
     request.nextUrl.pathname.startsWith("/phone-numbers") ||
     request.nextUrl.pathname.startsWith("/settings") ||
+    request.nextUrl.pathname.startsWith("/admin") ||
     request.nextUrl.pathname.startsWith("/billing");
 
   // Redirect unauthenticated users from dashboard to login
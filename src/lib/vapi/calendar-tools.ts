@@ -51,6 +51,9 @@ async function resolveCalendarTools(): Promise<string[]> {
     calendarTools.checkAvailability,
     calendarTools.bookAppointment,
     calendarTools.cancelAppointment,
+    calendarTools.confirmAppointment,
+    calendarTools.rescheduleAppointment,
+    calendarTools.joinWaitlist,
     calendarTools.getCurrentDatetime,
   ];
 
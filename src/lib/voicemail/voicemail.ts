@@ -0,0 +1,23 @@
+/**
+ * Voicemail Playback
+ *
+ * Voicemails recorded by the self-hosted voice server live in the private
+ * "voicemails" storage bucket (calls.voicemail_path). They are played back
+ * through short-lived signed URLs, and notifications link to the call page
+ * rather than to the file so the link never expires or leaks the recording.
+ */
+
+import { createSignedStorageUrl, PLAYBACK_URL_TTL_SECONDS, VOICEMAIL_BUCKET } from "@/lib/recordings/recordings";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAny = any;
+
+/** Signed playback URL for a stored voicemail, or null if it can't be created */
+export function createVoicemailUrl(supabase: SupabaseAny, path: string): Promise<string | null> {
+  return createSignedStorageUrl(supabase, VOICEMAIL_BUCKET, path, PLAYBACK_URL_TTL_SECONDS);
+}
+
+/** Dashboard page where a voicemail can be played, for emails and texts */
+export function voicemailCallUrl(callId: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || "https://holarecep.com"}/calls/${callId}`;
+}
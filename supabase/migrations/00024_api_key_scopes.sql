@@ -0,0 +1,35 @@
+-- Public REST API keys: granular scopes, audit columns and hash lookup
+-- Keys are issued from Settings > API Keys; only the SHA-256 hash is stored.
+
+-- Replace the coarse read/write default with explicit per-resource scopes
+ALTER TABLE api_keys ALTER COLUMN scopes SET DEFAULT ARRAY['calls:read'];
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+-- Set on the old key when it is rotated, pointing at its replacement
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+
+-- Map keys issued under the baseline read/write scopes onto the new ones so
+-- they keep their access: read covered calls, write covered everything else.
+-- Unknown scopes are dropped.
+UPDATE api_keys
+SET scopes = ARRAY(
+  SELECT DISTINCT mapped
+  FROM unnest(scopes) AS legacy(scope),
+    LATERAL unnest(CASE legacy.scope
+      WHEN 'read' THEN ARRAY['calls:read']
+      WHEN 'write' THEN ARRAY['appointments:write', 'assistants:manage']
+      ELSE ARRAY[legacy.scope]
+    END) AS mapped
+  WHERE mapped = ANY(ARRAY['calls:read', 'appointments:write', 'assistants:manage'])
+)
+WHERE NOT (scopes <@ ARRAY['calls:read', 'appointments:write', 'assistants:manage']::TEXT[]);
+
+ALTER TABLE api_keys ADD CONSTRAINT check_api_key_scopes
+  CHECK (scopes <@ ARRAY['calls:read', 'appointments:write', 'assistants:manage']::TEXT[]);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_hash ON api_keys(key_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_prefix_active ON api_keys(key_prefix) WHERE is_active = true;
+
+COMMENT ON COLUMN api_keys.key_prefix IS 'First 11 characters of the key (hr_ + 8), shown in the UI and used for lookup';
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 hex digest of the full key; the plaintext is never stored';
@@ -0,0 +1,18 @@
+-- Automatic webhook retries: backoff schedule, dead-lettering and auto-pause
+-- Failed deliveries are picked up by /api/cron/webhook-retries when next_retry_at is due.
+
+ALTER TABLE integration_logs ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+ALTER TABLE integration_logs ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_integration_logs_retry_due
+  ON integration_logs(next_retry_at)
+  WHERE success = false AND next_retry_at IS NOT NULL AND dead_lettered_at IS NULL;
+
+COMMENT ON COLUMN integration_logs.next_retry_at IS 'When the retry worker should attempt this delivery again; NULL once delivered or dead-lettered';
+COMMENT ON COLUMN integration_logs.dead_lettered_at IS 'Set when all automatic retries are exhausted; manual retry is still possible';
+
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS auto_paused_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN integrations.consecutive_failures IS 'Dead-lettered deliveries since the last successful one';
+COMMENT ON COLUMN integrations.auto_paused_at IS 'Set when the integration was paused automatically after repeated failures';
@@ -0,0 +1,10 @@
+-- Webhook signing secret rotation
+-- After a rotation deliveries are signed with both the new and the previous
+-- secret until previous_secret_expires_at, so receivers can switch over.
+
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS previous_signing_secret TEXT;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMPTZ;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS secret_rotated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN integrations.previous_signing_secret IS 'Encrypted secret replaced by the last rotation; still used to sign until previous_secret_expires_at';
+COMMENT ON COLUMN integrations.previous_secret_expires_at IS 'End of the rotation grace period for previous_signing_secret';
@@ -0,0 +1,13 @@
+-- Appointment rescheduling
+-- Moving a booking marks the original row 'rescheduled' and inserts a new
+-- confirmed row; the two are linked in both directions for history.
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS rescheduled_to_id UUID REFERENCES appointments(id) ON DELETE SET NULL;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS rescheduled_from_id UUID REFERENCES appointments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_rescheduled_from
+  ON appointments(rescheduled_from_id)
+  WHERE rescheduled_from_id IS NOT NULL;
+
+COMMENT ON COLUMN appointments.rescheduled_to_id IS 'The appointment this one was moved to (set when status = rescheduled)';
+COMMENT ON COLUMN appointments.rescheduled_from_id IS 'The appointment this one replaced after a reschedule';
@@ -0,0 +1,13 @@
+-- Google Calendar and Microsoft Outlook calendar providers
+-- Both connect over OAuth; tokens live in the existing access_token /
+-- refresh_token / token_expires_at columns (encrypted by the app).
+
+ALTER TABLE calendar_integrations DROP CONSTRAINT IF EXISTS calendar_integrations_provider_check;
+ALTER TABLE calendar_integrations ADD CONSTRAINT calendar_integrations_provider_check
+  CHECK (provider IN ('cal_com', 'calendly', 'google_calendar', 'microsoft_outlook'));
+
+-- One row per provider per org, so reconnecting updates instead of duplicating
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_integrations_org_provider
+  ON calendar_integrations(organization_id, provider);
+
+COMMENT ON COLUMN calendar_integrations.calendar_id IS 'Cal.com event type ID, or the Google/Outlook calendar ID ("primary" for the default calendar)';
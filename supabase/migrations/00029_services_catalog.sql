@@ -0,0 +1,120 @@
+-- Bookable services catalog
+-- Each organization can offer several services with their own length and
+-- buffer time before/after (setup, cleanup). Staff members who can perform a
+-- service are linked through service_staff. Appointments keep a snapshot of
+-- the service's buffers so editing a service doesn't move existing bookings.
+
+CREATE TABLE IF NOT EXISTS staff_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_members_org ON staff_members(organization_id) WHERE is_active = true;
+
+CREATE TABLE IF NOT EXISTS services (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes >= 5 AND duration_minutes <= 480),
+  buffer_before_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_before_minutes >= 0 AND buffer_before_minutes <= 120),
+  buffer_after_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_after_minutes >= 0 AND buffer_after_minutes <= 120),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The voice agent matches services by name, so names must be unique per org
+CREATE UNIQUE INDEX IF NOT EXISTS idx_services_org_name ON services(organization_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS service_staff (
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  staff_member_id UUID NOT NULL REFERENCES staff_members(id) ON DELETE CASCADE,
+  PRIMARY KEY (service_id, staff_member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_staff_staff ON service_staff(staff_member_id);
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS service_id UUID REFERENCES services(id) ON DELETE SET NULL;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS buffer_after_minutes INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_service ON appointments(service_id) WHERE service_id IS NOT NULL;
+
+-- RLS: all org members can read, owners/admins manage
+ALTER TABLE staff_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_staff ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org staff members"
+  ON staff_members FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their org staff members"
+  ON staff_members FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Users can view their org services"
+  ON services FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their org services"
+  ON services FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Users can view their org service staff"
+  ON service_staff FOR SELECT
+  USING (
+    service_id IN (
+      SELECT id FROM services WHERE organization_id IN (
+        SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Admins can manage their org service staff"
+  ON service_staff FOR ALL
+  USING (
+    service_id IN (
+      SELECT id FROM services WHERE organization_id IN (
+        SELECT organization_id FROM org_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+      )
+    )
+  );
+
+CREATE TRIGGER update_staff_members_updated_at
+  BEFORE UPDATE ON staff_members
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_services_updated_at
+  BEFORE UPDATE ON services
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE services IS 'Bookable services offered by an organization (name, length, buffers)';
+COMMENT ON TABLE staff_members IS 'People who perform services; linked to services via service_staff';
+COMMENT ON COLUMN appointments.buffer_before_minutes IS 'Setup time blocked before start_time, copied from the service at booking';
+COMMENT ON COLUMN appointments.buffer_after_minutes IS 'Cleanup time blocked after end_time, copied from the service at booking';
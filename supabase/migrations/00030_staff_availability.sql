@@ -0,0 +1,66 @@
+-- Per-staff availability
+-- Staff members get their own working hours (same shape as
+-- organizations.business_hours; NULL means "same as the business") and time
+-- off. Appointments record who they are with, so two staff members can be
+-- booked at the same time.
+
+ALTER TABLE staff_members ADD COLUMN IF NOT EXISTS working_hours JSONB;
+
+CREATE TABLE IF NOT EXISTS staff_time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  staff_member_id UUID NOT NULL REFERENCES staff_members(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_time_off_member ON staff_time_off(staff_member_id, starts_at, ends_at);
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS staff_member_id UUID REFERENCES staff_members(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_staff ON appointments(staff_member_id, start_time) WHERE staff_member_id IS NOT NULL;
+
+-- The overlap constraint treated the whole organization as one calendar.
+-- Scope it per staff member; unassigned bookings still share one lane.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'no_overlapping_appointments') THEN
+    ALTER TABLE appointments DROP CONSTRAINT no_overlapping_appointments;
+    ALTER TABLE appointments ADD CONSTRAINT no_overlapping_appointments
+      EXCLUDE USING gist (
+        organization_id WITH =,
+        (COALESCE(staff_member_id, '00000000-0000-0000-0000-000000000000'::uuid)) WITH =,
+        tstzrange(start_time, end_time) WITH &&
+      )
+      WHERE (status IN ('confirmed', 'pending'));
+  END IF;
+END $$;
+
+-- RLS: all org members can read, owners/admins manage
+ALTER TABLE staff_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org staff time off"
+  ON staff_time_off FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their org staff time off"
+  ON staff_time_off FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+COMMENT ON COLUMN staff_members.working_hours IS 'Weekly hours like organizations.business_hours; NULL uses the business hours';
+COMMENT ON TABLE staff_time_off IS 'Periods a staff member cannot be booked (vacation, sick days, training)';
+COMMENT ON COLUMN appointments.staff_member_id IS 'Who the appointment is with; NULL for bookings made before staff were set up';
@@ -0,0 +1,12 @@
+-- Holidays and special hours
+-- Dated exceptions to the weekly business_hours map: public holidays,
+-- one-off closures and extended hours. Stored next to business_hours as a
+-- JSON array of { date: "YYYY-MM-DD", name, open?: "HH:MM", close?: "HH:MM" }.
+-- An entry without open/close means closed all day.
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS special_hours JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE organizations ADD CONSTRAINT organizations_special_hours_is_array
+  CHECK (jsonb_typeof(special_hours) = 'array');
+
+COMMENT ON COLUMN organizations.special_hours IS 'Dated overrides of business_hours: [{date, name, open?, close?}]; no open/close = closed';
@@ -0,0 +1,45 @@
+-- Recurring appointments
+-- A series groups the occurrences booked together ("every Tuesday at 10 for
+-- six weeks"). Each occurrence is an ordinary appointment row, so slot
+-- checks, reminders and the overlap constraint treat them like any other
+-- booking; the series only records the rule and lets them be cancelled
+-- together.
+
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'biweekly', 'monthly')),
+  occurrences INTEGER NOT NULL CHECK (occurrences BETWEEN 2 AND 52),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_series_org ON appointment_series(organization_id);
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES appointment_series(id) ON DELETE SET NULL;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS series_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series ON appointments(series_id, series_index) WHERE series_id IS NOT NULL;
+
+-- RLS: all org members can read, owners/admins manage
+ALTER TABLE appointment_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org appointment series"
+  ON appointment_series FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their org appointment series"
+  ON appointment_series FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+COMMENT ON TABLE appointment_series IS 'Recurrence rule shared by appointments booked as a series';
+COMMENT ON COLUMN appointments.series_id IS 'The series this occurrence belongs to; NULL for one-off bookings';
+COMMENT ON COLUMN appointments.series_index IS 'Position in the series as booked (0 = first occurrence)';
@@ -0,0 +1,59 @@
+-- Waitlist
+-- Callers who couldn't get a slot can wait for one in a date range. When an
+-- appointment is cancelled, matching waiting callers are texted the freed
+-- slot in the order they joined; the first to reply YES is booked into it.
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  caller_name TEXT NOT NULL,
+  caller_phone TEXT NOT NULL,
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  staff_member_id UUID REFERENCES staff_members(id) ON DELETE SET NULL,
+  earliest_date DATE NOT NULL,
+  latest_date DATE NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'removed')),
+  -- The slot currently offered by SMS (set while status = 'offered')
+  offer_appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  offer_start_time TIMESTAMPTZ,
+  offer_service TEXT,
+  offer_staff TEXT,
+  offered_at TIMESTAMPTZ,
+  booked_appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (latest_date >= earliest_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_open
+  ON waitlist_entries(organization_id, status, created_at)
+  WHERE status IN ('waiting', 'offered');
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: all org members can read, owners/admins manage
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org waitlist"
+  ON waitlist_entries FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their org waitlist"
+  ON waitlist_entries FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+COMMENT ON TABLE waitlist_entries IS 'Callers waiting for a slot to open up between earliest_date and latest_date';
+COMMENT ON COLUMN waitlist_entries.offer_start_time IS 'Start of the freed slot texted to the caller; a YES reply books it';
@@ -0,0 +1,47 @@
+-- Appointment reminders
+-- Reminders go out at configurable offsets before each appointment by SMS
+-- and optionally an outbound AI call. Callers reply C to confirm, R to ask
+-- for a reschedule or X to cancel.
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS sms_appointment_reminders BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS call_appointment_reminders BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS appointment_reminder_offsets INTEGER[] DEFAULT '{1440,120}';
+
+COMMENT ON COLUMN notification_preferences.appointment_reminder_offsets IS 'Minutes before the appointment at which reminders are sent';
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS confirmed_by_caller_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reschedule_requested_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN appointments.confirmed_by_caller_at IS 'When the caller confirmed they will attend (reminder reply or call)';
+COMMENT ON COLUMN appointments.reschedule_requested_at IS 'When the caller asked to move the appointment from a reminder';
+
+-- One row per reminder sent, so each offset goes out once per channel
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'call')),
+  recipient_phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'skipped', 'failed')),
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (appointment_id, offset_minutes, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_org_created
+  ON appointment_reminders(organization_id, created_at DESC);
+
+-- RLS: org members can read; writes come from the service role
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org appointment reminders"
+  ON appointment_reminders FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,87 @@
+-- Two-way SMS conversations
+-- Inbound texts that aren't opt-outs or reminder/waitlist replies are
+-- answered by the org's assistant, with one thread per caller. Staff can
+-- reply from the dashboard, and the AI stays quiet once a thread has been
+-- handed off to them.
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS sms_ai_conversations BOOLEAN DEFAULT true;
+
+COMMENT ON COLUMN notification_preferences.sms_ai_conversations IS 'Whether the assistant answers inbound texts';
+
+CREATE TABLE IF NOT EXISTS sms_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  assistant_id UUID REFERENCES assistants(id) ON DELETE SET NULL,
+  caller_phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'handed_off', 'closed')),
+  handoff_reason TEXT,
+  last_message_at TIMESTAMPTZ DEFAULT NOW(),
+  last_message_preview TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, caller_phone)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_org_last_message
+  ON sms_conversations(organization_id, last_message_at DESC);
+
+CREATE TRIGGER update_sms_conversations_updated_at
+  BEFORE UPDATE ON sms_conversations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES sms_conversations(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  author TEXT NOT NULL CHECK (author IN ('caller', 'ai', 'staff')),
+  body TEXT NOT NULL,
+  twilio_message_sid TEXT,
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_conversation_created
+  ON sms_messages(conversation_id, created_at);
+
+-- RLS: org members can read threads, reply and hand threads back and forth
+ALTER TABLE sms_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org SMS conversations"
+  ON sms_conversations FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their org SMS conversations"
+  ON sms_conversations FOR UPDATE
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their org SMS messages"
+  ON sms_messages FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can send SMS messages for their org"
+  ON sms_messages FOR INSERT
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+    AND author = 'staff'
+  );
+
+COMMENT ON TABLE sms_conversations IS 'One text thread per caller phone number per organization';
+COMMENT ON COLUMN sms_conversations.status IS 'active: the assistant replies; handed_off: staff reply; closed: reopened by the next inbound text';
@@ -0,0 +1,203 @@
+-- Contacts
+-- One profile per caller phone number per organization, upserted after every
+-- call. Calls, appointments and text threads link to it so a returning caller
+-- is recognised, and staff can keep notes and tags on the contact page.
+
+-- Callers give local numbers on the phone ("0412 345 678") while Twilio sends
+-- E.164 ("+61412345678"), so numbers are matched on their last nine digits
+-- (mirrors contactPhoneKey in src/lib/contacts/contacts.ts)
+CREATE OR REPLACE FUNCTION contact_phone_key(phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(RIGHT(regexp_replace(COALESCE(phone, ''), '\D', '', 'g'), 9), '');
+$$;
+
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  phone TEXT NOT NULL,
+  phone_key TEXT NOT NULL,
+  name TEXT,
+  email TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  call_count INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_call_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, phone_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_org_last_call
+  ON contacts(organization_id, last_call_at DESC NULLS LAST);
+
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS contact_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_notes_contact_created
+  ON contact_notes(contact_id, created_at DESC);
+
+-- Links from a caller's records to their contact
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+ALTER TABLE sms_conversations
+  ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calls_contact ON calls(contact_id) WHERE contact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_appointments_contact ON appointments(contact_id) WHERE contact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_contact ON sms_conversations(contact_id) WHERE contact_id IS NOT NULL;
+
+-- New records from a known caller link to their contact as they're inserted.
+-- TG_ARGV[0] names the record's phone column.
+CREATE OR REPLACE FUNCTION set_contact_from_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.contact_id IS NULL THEN
+    SELECT id INTO NEW.contact_id
+    FROM contacts
+    WHERE organization_id = NEW.organization_id
+      AND phone_key = contact_phone_key(to_jsonb(NEW) ->> TG_ARGV[0]);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_calls_contact
+  BEFORE INSERT ON calls
+  FOR EACH ROW EXECUTE FUNCTION set_contact_from_phone('caller_phone');
+
+CREATE TRIGGER set_appointments_contact
+  BEFORE INSERT ON appointments
+  FOR EACH ROW EXECUTE FUNCTION set_contact_from_phone('attendee_phone');
+
+CREATE TRIGGER set_sms_conversations_contact
+  BEFORE INSERT ON sms_conversations
+  FOR EACH ROW EXECUTE FUNCTION set_contact_from_phone('caller_phone');
+
+-- A new contact picks up the caller's earlier records (e.g. an appointment
+-- booked during their first call, before the contact existed)
+CREATE OR REPLACE FUNCTION link_contact_records(p_contact_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_org UUID;
+  v_key TEXT;
+BEGIN
+  SELECT organization_id, phone_key INTO v_org, v_key
+  FROM contacts
+  WHERE id = p_contact_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE calls SET contact_id = p_contact_id
+  WHERE organization_id = v_org AND contact_id IS NULL AND contact_phone_key(caller_phone) = v_key;
+
+  UPDATE appointments SET contact_id = p_contact_id
+  WHERE organization_id = v_org AND contact_id IS NULL AND contact_phone_key(attendee_phone) = v_key;
+
+  UPDATE sms_conversations SET contact_id = p_contact_id
+  WHERE organization_id = v_org AND contact_id IS NULL AND contact_phone_key(caller_phone) = v_key;
+END;
+$$;
+
+COMMENT ON FUNCTION link_contact_records(UUID) IS 'Links unlinked calls, appointments and text threads with the contact''s phone number to it';
+
+GRANT EXECUTE ON FUNCTION link_contact_records(UUID) TO service_role;
+
+-- Backfill contacts from existing non-spam calls
+INSERT INTO contacts (organization_id, phone, phone_key, name, call_count, first_seen_at, last_call_at)
+SELECT
+  organization_id,
+  (ARRAY_AGG(caller_phone ORDER BY created_at DESC))[1],
+  contact_phone_key(caller_phone),
+  (ARRAY_AGG(caller_name ORDER BY created_at DESC) FILTER (WHERE caller_name IS NOT NULL))[1],
+  COUNT(*),
+  MIN(created_at),
+  MAX(created_at)
+FROM calls
+WHERE contact_phone_key(caller_phone) IS NOT NULL
+  AND COALESCE(is_spam, false) = false
+GROUP BY organization_id, contact_phone_key(caller_phone)
+ON CONFLICT (organization_id, phone_key) DO NOTHING;
+
+UPDATE calls c SET contact_id = ct.id
+FROM contacts ct
+WHERE c.contact_id IS NULL
+  AND ct.organization_id = c.organization_id
+  AND ct.phone_key = contact_phone_key(c.caller_phone);
+
+UPDATE appointments a SET contact_id = ct.id
+FROM contacts ct
+WHERE a.contact_id IS NULL
+  AND ct.organization_id = a.organization_id
+  AND ct.phone_key = contact_phone_key(a.attendee_phone);
+
+UPDATE sms_conversations s SET contact_id = ct.id
+FROM contacts ct
+WHERE s.contact_id IS NULL
+  AND ct.organization_id = s.organization_id
+  AND ct.phone_key = contact_phone_key(s.caller_phone);
+
+-- RLS: org members can read and edit contacts and keep notes on them
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org contacts"
+  ON contacts FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their org contacts"
+  ON contacts FOR UPDATE
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their org contact notes"
+  ON contact_notes FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add notes to their org contacts"
+  ON contact_notes FOR INSERT
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Users can delete their own contact notes"
+  ON contact_notes FOR DELETE
+  USING (created_by = auth.uid());
+
+COMMENT ON TABLE contacts IS 'Caller profiles, one per phone number per organization';
+COMMENT ON COLUMN contacts.phone_key IS 'Last nine digits of the phone number, used to match the same caller across formats';
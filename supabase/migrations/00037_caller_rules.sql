@@ -0,0 +1,60 @@
+-- Caller rules
+-- Numbers and prefixes the org handles before the assistant answers: always
+-- block them, always let them through without spam scoring, or always put
+-- them straight through to a person (e.g. VIP clients or family). Enforced by
+-- the voice server's /twiml handler and the Vapi status-update webhook, and
+-- recorded on the call.
+
+CREATE TABLE IF NOT EXISTS caller_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  match_type TEXT NOT NULL CHECK (match_type IN ('exact', 'prefix')),
+  phone_pattern TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('block', 'allow', 'transfer')),
+  transfer_to_phone TEXT,
+  transfer_to_name TEXT,
+  label TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, match_type, phone_pattern),
+  CHECK (action <> 'transfer' OR transfer_to_phone IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_caller_rules_org_active
+  ON caller_rules(organization_id) WHERE is_active = true;
+
+CREATE TRIGGER update_caller_rules_updated_at
+  BEFORE UPDATE ON caller_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The rule a call matched, kept even if the rule is later deleted
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS caller_rule_id UUID REFERENCES caller_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS caller_rule_action TEXT
+    CHECK (caller_rule_action IS NULL OR caller_rule_action IN ('block', 'allow', 'transfer'));
+
+-- RLS: org members can see the rules, owners and admins manage them
+ALTER TABLE caller_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org caller rules"
+  ON caller_rules FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their org caller rules"
+  ON caller_rules FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+COMMENT ON TABLE caller_rules IS 'Per-number and per-prefix call handling applied before the assistant answers';
+COMMENT ON COLUMN caller_rules.phone_pattern IS 'exact: any format, matched on the last nine digits; prefix: + and country code, matched on the start of the E.164 number';
+COMMENT ON COLUMN calls.caller_rule_action IS 'What the matched caller rule did: block, allow (skipped spam scoring) or transfer';
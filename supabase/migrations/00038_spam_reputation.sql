@@ -0,0 +1,52 @@
+-- Shared spam reputation
+-- Every org's spam / not-spam feedback on calls feeds a platform-wide number
+-- reputation. Numbers are stored only as keyed hashes (with a masked hint for
+-- the admin view), each org has one vote per number, and the score is
+-- computed with decay and a minimum number of reporting orgs in
+-- src/lib/spam/reputation.ts. Only the service role reads or writes these.
+
+CREATE TABLE IF NOT EXISTS spam_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone_hash TEXT NOT NULL,
+  phone_hint TEXT,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  verdict TEXT NOT NULL CHECK (verdict IN ('spam', 'not_spam')),
+  reported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (phone_hash, organization_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_spam_reports_phone_hash ON spam_reports(phone_hash);
+
+CREATE TABLE IF NOT EXISTS spam_reputation_overrides (
+  phone_hash TEXT PRIMARY KEY,
+  phone_hint TEXT,
+  verdict TEXT NOT NULL CHECK (verdict IN ('spam', 'not_spam')),
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER update_spam_reputation_overrides_updated_at
+  BEFORE UPDATE ON spam_reputation_overrides
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Per-number report counts for the admin view
+CREATE OR REPLACE VIEW spam_reputation_summary AS
+SELECT
+  phone_hash,
+  (ARRAY_AGG(phone_hint ORDER BY reported_at DESC))[1] AS phone_hint,
+  COUNT(*) FILTER (WHERE verdict = 'spam') AS spam_orgs,
+  COUNT(*) FILTER (WHERE verdict = 'not_spam') AS not_spam_orgs,
+  MAX(reported_at) AS last_reported_at
+FROM spam_reports
+GROUP BY phone_hash;
+
+-- No policies: reports from other orgs must never be visible to members
+ALTER TABLE spam_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE spam_reputation_overrides ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON spam_reputation_summary FROM anon, authenticated;
+
+COMMENT ON TABLE spam_reports IS 'One spam / not-spam vote per organization per caller number, keyed by a hash of the number';
+COMMENT ON TABLE spam_reputation_overrides IS 'Platform admin verdicts that replace the computed reputation for a number';
@@ -0,0 +1,7 @@
+-- Per-organization spam policy
+-- Sensitivity, added / removed transcript keywords and the action taken at
+-- each recommendation. NULL means the defaults in src/lib/spam/spam-policy.ts.
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS spam_policy JSONB;
+
+COMMENT ON COLUMN organizations.spam_policy IS 'Spam detection tuning: { sensitivity, addedKeywords, removedKeywords, actions: { block, flag } }';
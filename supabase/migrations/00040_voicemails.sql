@@ -0,0 +1,14 @@
+-- Voicemail recordings from the self-hosted voice server
+-- When a call switches to voicemail (caller request, LLM failure or the org
+-- being over its call limit) the caller's message is uploaded as a WAV to the
+-- private "voicemails" bucket under <organization_id>/<call_id>.wav, and the
+-- call is marked with outcome 'voicemail'. Members play it back through
+-- short-lived signed URLs created server-side.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('voicemails', 'voicemails', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS voicemail_path TEXT;
+
+COMMENT ON COLUMN calls.voicemail_path IS 'Storage path of the recorded voicemail in the voicemails bucket';
@@ -0,0 +1,23 @@
+-- Call recordings from the self-hosted voice server
+-- Both legs of the call are mixed into a stereo WAV (caller left, assistant
+-- right) and uploaded to the private "call-recordings" bucket under
+-- <organization_id>/<call_id>.wav. Members play recordings back through
+-- short-lived signed URLs created server-side. Recordings and voicemails are
+-- deleted once they are older than the org's retention period (NULL keeps
+-- them), by the recording-retention cron.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('call-recordings', 'call-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS recording_path TEXT;
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS recording_retention_days INTEGER DEFAULT 90
+  CHECK (recording_retention_days IS NULL OR recording_retention_days BETWEEN 1 AND 3650);
+
+CREATE INDEX IF NOT EXISTS idx_calls_stored_audio
+  ON calls(organization_id, created_at)
+  WHERE recording_path IS NOT NULL OR voicemail_path IS NOT NULL;
+
+COMMENT ON COLUMN calls.recording_path IS 'Storage path of the stereo call recording in the call-recordings bucket';
+COMMENT ON COLUMN organizations.recording_retention_days IS 'Days to keep call recordings and voicemails; NULL keeps them indefinitely';
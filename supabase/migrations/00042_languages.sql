@@ -0,0 +1,13 @@
+-- Multilingual receptionist
+-- Assistants list the languages they speak in settings.languages (primary
+-- first). The voice server detects the caller's language on their first
+-- utterance and can switch mid-call; the language the call ended in is
+-- stored on the call. Call summaries are written in the owner's language.
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS owner_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (owner_language IN ('en', 'es', 'zh', 'vi'));
+
+COMMENT ON COLUMN calls.language IS 'Language the caller spoke (en, es, zh, vi), as detected by the voice server';
+COMMENT ON COLUMN organizations.owner_language IS 'Language call summaries are written in';
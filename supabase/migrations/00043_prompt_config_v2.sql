@@ -0,0 +1,12 @@
+-- Prompt config v2: intents with their own fields, conditional fields and an
+-- outcome action (book, transfer, take message).
+-- v1 configs become v2 with no intents, which renders the same prompt.
+
+UPDATE assistants
+SET prompt_config = jsonb_set(prompt_config, '{version}', '2'::jsonb)
+  || jsonb_build_object('intents', COALESCE(prompt_config->'intents', '[]'::jsonb))
+WHERE prompt_config IS NOT NULL
+  AND COALESCE(prompt_config->>'version', '1') = '1';
+
+COMMENT ON COLUMN assistants.prompt_config IS
+  'Guided prompt builder config (version 2: fields, intents, behaviors, tone). NULL for legacy prompts.';
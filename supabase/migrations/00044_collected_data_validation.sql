@@ -0,0 +1,11 @@
+-- Flag calls whose collected answers didn't match a select field's options
+-- (or the assistant's intents), so they can be reviewed.
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS has_invalid_collected_data BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS invalid_collected_fields TEXT[];
+
+COMMENT ON COLUMN calls.has_invalid_collected_data IS
+  'True when a collected_data value matched none of its field''s options';
+COMMENT ON COLUMN calls.invalid_collected_fields IS
+  'collected_data keys whose values matched none of the field''s options';
@@ -0,0 +1,160 @@
+-- Assistant revisions
+-- Every save of an assistant's prompt snapshots its system_prompt and
+-- prompt_config as an immutable revision with its author and a short note, so
+-- a change that makes the receptionist worse can be diffed and rolled back.
+-- Calls record the revision that answered them.
+
+CREATE TABLE IF NOT EXISTS assistant_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assistant_id UUID NOT NULL REFERENCES assistants(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  prompt_config JSONB,
+  note TEXT,
+  -- NULL for saves made with an API key
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  -- Set when the revision was created by rolling back to an earlier one.
+  -- Both belong to the same assistant, so they're only ever deleted together
+  -- (SET NULL would trip the immutability trigger below).
+  restored_from_revision_id UUID REFERENCES assistant_revisions(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (assistant_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assistant_revisions_assistant
+  ON assistant_revisions(assistant_id, revision_number DESC);
+
+-- Revisions are never edited; they go away only with their assistant. The
+-- one exception is clearing the author when their account is deleted.
+CREATE OR REPLACE FUNCTION prevent_assistant_revision_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.created_by IS NULL AND (to_jsonb(NEW) - 'created_by') = (to_jsonb(OLD) - 'created_by') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'assistant revisions are immutable';
+END;
+$$;
+
+CREATE TRIGGER assistant_revisions_immutable
+  BEFORE UPDATE ON assistant_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_assistant_revision_update();
+
+ALTER TABLE assistants
+  ADD COLUMN IF NOT EXISTS current_revision_id UUID REFERENCES assistant_revisions(id) ON DELETE SET NULL;
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS assistant_revision_id UUID REFERENCES assistant_revisions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calls_assistant_revision
+  ON calls(assistant_revision_id) WHERE assistant_revision_id IS NOT NULL;
+
+COMMENT ON COLUMN assistants.current_revision_id IS 'The assistant_revisions row matching the live prompt';
+COMMENT ON COLUMN calls.assistant_revision_id IS 'The assistant revision that answered the call';
+
+-- Snapshot the assistant's current prompt as its next revision and make it
+-- current. The assistant row is locked so concurrent saves get distinct
+-- numbers. Runs as the caller, so RLS applies to dashboard users.
+CREATE OR REPLACE FUNCTION create_assistant_revision(
+  p_assistant_id UUID,
+  p_note TEXT,
+  p_created_by UUID,
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS assistant_revisions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assistant assistants%ROWTYPE;
+  v_revision assistant_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_assistant
+  FROM assistants
+  WHERE id = p_assistant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assistant % not found', p_assistant_id;
+  END IF;
+
+  INSERT INTO assistant_revisions (
+    assistant_id, organization_id, revision_number, system_prompt, prompt_config,
+    note, created_by, restored_from_revision_id
+  )
+  SELECT
+    v_assistant.id,
+    v_assistant.organization_id,
+    COALESCE(MAX(revision_number), 0) + 1,
+    v_assistant.system_prompt,
+    v_assistant.prompt_config,
+    NULLIF(TRIM(p_note), ''),
+    p_created_by,
+    p_restored_from
+  FROM assistant_revisions
+  WHERE assistant_id = v_assistant.id
+  RETURNING * INTO v_revision;
+
+  UPDATE assistants SET current_revision_id = v_revision.id WHERE id = v_assistant.id;
+
+  RETURN v_revision;
+END;
+$$;
+
+COMMENT ON FUNCTION create_assistant_revision(UUID, TEXT, UUID, UUID) IS 'Snapshots an assistant''s prompt as its next revision and makes it current';
+
+GRANT EXECUTE ON FUNCTION create_assistant_revision(UUID, TEXT, UUID, UUID) TO authenticated, service_role;
+
+-- New calls record the revision answering them. Both self-hosted and Vapi
+-- calls are inserted as they start, so this is the prompt the caller heard.
+CREATE OR REPLACE FUNCTION set_call_assistant_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.assistant_revision_id IS NULL AND NEW.assistant_id IS NOT NULL THEN
+    SELECT current_revision_id INTO NEW.assistant_revision_id
+    FROM assistants
+    WHERE id = NEW.assistant_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_calls_assistant_revision
+  BEFORE INSERT ON calls
+  FOR EACH ROW EXECUTE FUNCTION set_call_assistant_revision();
+
+-- Backfill: each existing assistant's live prompt becomes revision 1
+INSERT INTO assistant_revisions (assistant_id, organization_id, revision_number, system_prompt, prompt_config, note)
+SELECT id, organization_id, 1, system_prompt, prompt_config, 'Prompt before revision history'
+FROM assistants
+ON CONFLICT (assistant_id, revision_number) DO NOTHING;
+
+UPDATE assistants a SET current_revision_id = r.id
+FROM assistant_revisions r
+WHERE r.assistant_id = a.id
+  AND r.revision_number = 1
+  AND a.current_revision_id IS NULL;
+
+-- RLS: org members can read their assistants' history and add to it
+ALTER TABLE assistant_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org assistant revisions"
+  ON assistant_revisions FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add revisions to their org assistants"
+  ON assistant_revisions FOR INSERT
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+    AND created_by = auth.uid()
+  );
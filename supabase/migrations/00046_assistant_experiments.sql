@@ -0,0 +1,160 @@
+-- Prompt experiments
+-- An experiment splits an assistant's inbound calls by weight between prompt
+-- revisions (e.g. two greetings or two tone presets) and records the variant
+-- on each call so the analytics page can compare them. Only one experiment
+-- per assistant runs at a time; stopping it can promote a winning variant.
+
+-- Revisions also keep the greeting, so greetings can be tested. Revisions
+-- from before this migration have no greeting (NULL) and answer with the
+-- assistant's current one.
+ALTER TABLE assistant_revisions
+  ADD COLUMN IF NOT EXISTS first_message TEXT;
+
+CREATE OR REPLACE FUNCTION create_assistant_revision(
+  p_assistant_id UUID,
+  p_note TEXT,
+  p_created_by UUID,
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS assistant_revisions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_assistant assistants%ROWTYPE;
+  v_revision assistant_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_assistant
+  FROM assistants
+  WHERE id = p_assistant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'assistant % not found', p_assistant_id;
+  END IF;
+
+  INSERT INTO assistant_revisions (
+    assistant_id, organization_id, revision_number, system_prompt, prompt_config,
+    first_message, note, created_by, restored_from_revision_id
+  )
+  SELECT
+    v_assistant.id,
+    v_assistant.organization_id,
+    COALESCE(MAX(revision_number), 0) + 1,
+    v_assistant.system_prompt,
+    v_assistant.prompt_config,
+    v_assistant.first_message,
+    NULLIF(TRIM(p_note), ''),
+    p_created_by,
+    p_restored_from
+  FROM assistant_revisions
+  WHERE assistant_id = v_assistant.id
+  RETURNING * INTO v_revision;
+
+  UPDATE assistants SET current_revision_id = v_revision.id WHERE id = v_assistant.id;
+
+  RETURN v_revision;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS assistant_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assistant_id UUID NOT NULL REFERENCES assistants(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'stopped')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  stopped_at TIMESTAMPTZ,
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assistant_experiments_one_running
+  ON assistant_experiments(assistant_id) WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_assistant_experiments_org_started
+  ON assistant_experiments(organization_id, started_at DESC);
+
+CREATE TRIGGER update_assistant_experiments_updated_at
+  BEFORE UPDATE ON assistant_experiments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS assistant_experiment_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id UUID NOT NULL REFERENCES assistant_experiments(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  revision_id UUID NOT NULL REFERENCES assistant_revisions(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  -- Share of calls, relative to the experiment's other variants
+  weight INTEGER NOT NULL CHECK (weight BETWEEN 1 AND 100),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (experiment_id, revision_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assistant_experiment_variants_experiment
+  ON assistant_experiment_variants(experiment_id, position);
+
+ALTER TABLE assistant_experiments
+  ADD COLUMN IF NOT EXISTS winner_variant_id UUID REFERENCES assistant_experiment_variants(id) ON DELETE SET NULL;
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS experiment_variant_id UUID REFERENCES assistant_experiment_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calls_experiment_variant
+  ON calls(experiment_variant_id) WHERE experiment_variant_id IS NOT NULL;
+
+COMMENT ON COLUMN calls.experiment_variant_id IS 'The experiment variant that answered the call (self-hosted calls only)';
+COMMENT ON COLUMN assistant_experiments.winner_variant_id IS 'Variant promoted to the live prompt when the experiment was stopped';
+
+-- RLS: org members can run experiments on their assistants
+ALTER TABLE assistant_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assistant_experiment_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their org experiments"
+  ON assistant_experiments FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create their org experiments"
+  ON assistant_experiments FOR INSERT
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their org experiments"
+  ON assistant_experiments FOR UPDATE
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their org experiment variants"
+  ON assistant_experiment_variants FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add variants to their org experiments"
+  ON assistant_experiment_variants FOR INSERT
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their org experiments"
+  ON assistant_experiments FOR DELETE
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM org_members WHERE user_id = auth.uid()
+    )
+  );
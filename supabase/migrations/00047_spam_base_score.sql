@@ -0,0 +1,8 @@
+-- Keep the part of each call's spam score that doesn't come from the
+-- transcript, so the spam policy preview can re-score transcripts with other
+-- keywords without guessing what the stored score was made of.
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS spam_base_score INTEGER;
+
+COMMENT ON COLUMN calls.spam_base_score IS
+  'Uncapped spam score from every signal but the transcript; NULL for calls scored before it was kept';
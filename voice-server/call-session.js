@@ -1,7 +1,10 @@
 const { WebSocket } = require("ws");
 const { validateInput, getBufferConfig } = require("./lib/input-validators");
+const { VOICEMAIL_MAX_BYTES } = require("./lib/voicemail");
+const { DEFAULT_LANGUAGE, buildLanguageSection } = require("./lib/languages");
 
 const MAX_MESSAGES = 21; // system prompt + up to 20 messages (user/assistant turns + tool call/result messages)
+const LANGUAGE_DETECTION_MAX_BYTES = 8 * 8000; // last 8 seconds of caller audio (mulaw 8kHz)
 
 class CallSession {
   constructor(callSid) {
@@ -26,6 +29,18 @@ class CallSession {
     this.holdPreset = "neutral";
     this.callFailed = false;
     this.endedReason = null;
+    this.transfer = null; // { transferTo, transferToName, reason } once transfer_call hands off
+    this.organizationName = null;
+    this.voicemailEnabled = false; // inbound calls only — reminder calls never switch to voicemail
+    this.voicemail = null; // { reason, recording, full, chunks, bytes, transcript } once the call switches to voicemail
+    this.recorder = null; // CallRecorder for both legs, unless the assistant has recording turned off
+    this.languages = [DEFAULT_LANGUAGE]; // languages the assistant speaks, primary first
+    this.language = DEFAULT_LANGUAGE; // language the call is in right now
+    this.summaryLanguage = DEFAULT_LANGUAGE; // the business owner's language, for the post-call summary
+    this.promptConfig = null; // guided prompt config, for the post-call collected_data keys
+    this.basePrompt = null; // system prompt without the language section
+    this.languageDetection = null; // { chunks, bytes, held, pending } until the caller's first utterance is checked
+    this.sttCallbacks = null; // kept so the STT stream can be reopened in another language
 
     // Utterance buffering — accumulate STT finals before sending to LLM
     this._utteranceBuffer = [];
@@ -49,6 +64,54 @@ class CallSession {
     }
   }
 
+  /**
+   * Set the system prompt, followed by the instructions for the call's
+   * current language. setLanguage re-applies it.
+   */
+  setBasePrompt(prompt) {
+    this.basePrompt = prompt;
+    const section = buildLanguageSection(this.language, this.languages);
+    this.setSystemPrompt(section ? `${prompt}\n\n${section}` : prompt);
+  }
+
+  /**
+   * Move the call to another of the assistant's languages.
+   * @returns {boolean} true if the language changed
+   */
+  setLanguage(language) {
+    if (language === this.language || !this.languages.includes(language)) return false;
+    this.language = language;
+    if (this.basePrompt !== null) this.setBasePrompt(this.basePrompt);
+    return true;
+  }
+
+  /**
+   * Check the caller's language on their first utterance — only worth doing
+   * when the assistant speaks more than one.
+   */
+  startLanguageDetection() {
+    if (this.languages.length > 1) {
+      this.languageDetection = { chunks: [], bytes: 0, held: [], pending: false };
+    }
+  }
+
+  /**
+   * Keep the most recent caller audio for language detection, until it starts.
+   */
+  appendDetectionAudio(audio) {
+    const detection = this.languageDetection;
+    if (!detection || detection.pending) return;
+    detection.chunks.push(audio);
+    detection.bytes += audio.length;
+    while (detection.chunks.length > 1 && detection.bytes - detection.chunks[0].length >= LANGUAGE_DETECTION_MAX_BYTES) {
+      detection.bytes -= detection.chunks.shift().length;
+    }
+  }
+
+  getDetectionAudio() {
+    return this.languageDetection ? Buffer.concat(this.languageDetection.chunks) : Buffer.alloc(0);
+  }
+
   addMessage(role, content) {
     this.messages.push({ role, content });
     // Sliding window: keep system prompt + last N messages
@@ -194,6 +257,47 @@ class CallSession {
     }
   }
 
+  /**
+   * Switch the call to voicemail: drop any buffered or queued speech so
+   * nothing more reaches the LLM. Recording starts once the tone has played.
+   * @param {"caller-request"|"llm-error"|"over-limit"} reason
+   */
+  startVoicemail(reason) {
+    if (this._utteranceTimer) clearTimeout(this._utteranceTimer);
+    if (this._maxWaitTimer) clearTimeout(this._maxWaitTimer);
+    this._utteranceTimer = null;
+    this._maxWaitTimer = null;
+    this._bufferStartedAt = null;
+    this._utteranceBuffer = [];
+    this._utteranceCallback = null;
+    this._pendingTranscript = null;
+    this.languageDetection = null;
+    this.voicemail = { reason, recording: false, full: false, chunks: [], bytes: 0, transcript: [] };
+  }
+
+  /**
+   * Keep caller audio while recording, up to VOICEMAIL_MAX_BYTES.
+   * @returns {boolean} true once the message has reached the maximum length
+   */
+  appendVoicemailAudio(audio) {
+    const vm = this.voicemail;
+    if (!vm || !vm.recording) return false;
+    const room = VOICEMAIL_MAX_BYTES - vm.bytes;
+    if (room <= 0) return true;
+    const chunk = audio.length > room ? audio.subarray(0, room) : audio;
+    vm.chunks.push(chunk);
+    vm.bytes += chunk.length;
+    return vm.bytes >= VOICEMAIL_MAX_BYTES;
+  }
+
+  getVoicemailAudio() {
+    return this.voicemail ? Buffer.concat(this.voicemail.chunks) : Buffer.alloc(0);
+  }
+
+  getVoicemailTranscript() {
+    return this.voicemail ? this.voicemail.transcript.join(" ").trim() : "";
+  }
+
   destroy() {
     if (this._utteranceTimer) clearTimeout(this._utteranceTimer);
     if (this._maxWaitTimer) clearTimeout(this._maxWaitTimer);
@@ -202,6 +306,9 @@ class CallSession {
     }
     this.deepgramWs = null;
     this.messages = [];
+    if (this.voicemail) this.voicemail.chunks = [];
+    this.recorder = null;
+    this.languageDetection = null;
   }
 }
 
@@ -1,12 +1,147 @@
 const { getSupabase } = require("./supabase");
 
+/**
+ * Load the org's active services for the prompt's scheduling section
+ * (mirrors loadServices in src/lib/calendar/services.ts). Non-fatal: returns
+ * an empty list on error so the call proceeds with the default duration.
+ */
+async function loadServices(supabase, organizationId, logPrefix) {
+  const { data, error } = await supabase
+    .from("services")
+    .select("name, description, duration_minutes, service_staff(staff_members(name, is_active))")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error(`${logPrefix} Services lookup error:`, error);
+    return [];
+  }
+
+  return (data || []).map((s) => ({
+    name: s.name,
+    description: s.description,
+    durationMinutes: s.duration_minutes,
+    staffNames: (s.service_staff || [])
+      .map((link) => link.staff_members)
+      .filter((m) => m && m.is_active)
+      .map((m) => m.name),
+  }));
+}
+
+/**
+ * Load the names of the org's active staff so the caller can ask for someone
+ * by name. Non-fatal: returns an empty list on error.
+ */
+async function loadStaffNames(supabase, organizationId, logPrefix) {
+  const { data, error } = await supabase
+    .from("staff_members")
+    .select("name")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error(`${logPrefix} Staff lookup error:`, error);
+    return [];
+  }
+
+  return (data || []).map((m) => m.name);
+}
+
+/**
+ * Holidays and special hours from today onward in the org's timezone
+ * (mirrors upcomingSpecialHours in src/lib/calendar/special-hours.ts).
+ */
+function upcomingSpecialHours(specialHours, timezone) {
+  if (!Array.isArray(specialHours)) return [];
+  const today = new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    ...(timezone && { timeZone: timezone }),
+  }).format(new Date());
+  return specialHours
+    .filter((entry) => entry.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, 20);
+}
+
+/**
+ * Last nine digits of a phone number, so "0412 345 678" and "+61412345678"
+ * match (mirrors contactPhoneKey in src/lib/contacts/contacts.ts).
+ */
+function contactPhoneKey(phone) {
+  const digits = (phone || "").replace(/\D/g, "");
+  return digits ? digits.slice(-9) : null;
+}
+
+/**
+ * Look up the caller's contact so the assistant can greet them as a returning
+ * caller: their name, when they last visited and their next appointment.
+ * Non-fatal: returns null for new callers or on error.
+ */
+async function loadReturningCaller(supabase, organizationId, callerPhone) {
+  const phoneKey = contactPhoneKey(callerPhone);
+  if (!phoneKey) return null;
+
+  const { data: contact, error } = await supabase
+    .from("contacts")
+    .select("id, name, call_count, last_call_at, tags")
+    .eq("organization_id", organizationId)
+    .eq("phone_key", phoneKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[CallContext] Contact lookup error:", error);
+    return null;
+  }
+  if (!contact || !contact.call_count) return null;
+
+  const now = new Date().toISOString();
+  const [{ data: lastVisit }, { data: nextAppointment }] = await Promise.all([
+    supabase
+      .from("appointments")
+      .select("start_time, event_type")
+      .eq("contact_id", contact.id)
+      .in("status", ["completed", "confirmed"])
+      .lt("start_time", now)
+      .order("start_time", { ascending: false })
+      .limit(1),
+    supabase
+      .from("appointments")
+      .select("start_time, event_type")
+      .eq("contact_id", contact.id)
+      .in("status", ["confirmed", "pending"])
+      .gte("start_time", now)
+      .order("start_time", { ascending: true })
+      .limit(1),
+  ]);
+
+  return {
+    contactId: contact.id,
+    name: contact.name,
+    callCount: contact.call_count,
+    lastCallAt: contact.last_call_at,
+    tags: contact.tags || [],
+    lastVisit: lastVisit && lastVisit[0]
+      ? { startTime: lastVisit[0].start_time, service: lastVisit[0].event_type }
+      : null,
+    nextAppointment: nextAppointment && nextAppointment[0]
+      ? { startTime: nextAppointment[0].start_time, service: nextAppointment[0].event_type }
+      : null,
+  };
+}
+
 /**
  * Load all context needed to handle a call on a self-hosted phone number.
  *
  * @param {string} calledNumber - E.164 phone number (e.g. "+61299999999")
+ * @param {string} [callerPhone] - The caller's number, to recognise returning callers
  * @returns {Promise<object|null>} Combined context or null if not found/not active
  */
-async function loadCallContext(calledNumber) {
+async function loadCallContext(calledNumber, callerPhone) {
   const supabase = getSupabase();
 
   // 1. Look up the phone number — must be active (accepts any voice_provider
@@ -50,7 +185,7 @@ async function loadCallContext(calledNumber) {
   // 3. Load organization
   const { data: org, error: orgError } = await supabase
     .from("organizations")
-    .select("id, name, industry, timezone, business_hours, default_appointment_duration")
+    .select("id, name, industry, timezone, business_hours, special_hours, default_appointment_duration, owner_language")
     .eq("id", phone.organization_id)
     .single();
 
@@ -118,6 +253,13 @@ async function loadCallContext(calledNumber) {
     }));
   }
 
+  // 8. Load services catalog and staff
+  const services = await loadServices(supabase, phone.organization_id, "[CallContext]");
+  const staffNames = await loadStaffNames(supabase, phone.organization_id, "[CallContext]");
+
+  // 9. Recognise a returning caller
+  const returningCaller = await loadReturningCaller(supabase, phone.organization_id, callerPhone);
+
   // Aggregate KB content (mirrors src/lib/knowledge-base/aggregate.ts)
   let knowledgeBase = "";
   if (kbEntries && kbEntries.length > 0) {
@@ -167,10 +309,47 @@ async function loadCallContext(calledNumber) {
       timezone: org.timezone || undefined,
       businessHours: org.business_hours || undefined,
       defaultAppointmentDuration: org.default_appointment_duration ?? undefined,
+      services,
+      staffNames,
+      specialHours: upcomingSpecialHours(org.special_hours, org.timezone),
+      ownerLanguage: org.owner_language || "en",
     },
     knowledgeBase,
     calendarEnabled,
     transferRules,
+    returningCaller,
+  };
+}
+
+/**
+ * Load the appointment an outbound reminder call is about. Returns null
+ * unless it belongs to the org and is still upcoming.
+ *
+ * @param {string} organizationId
+ * @param {string} appointmentId
+ */
+async function loadReminderAppointment(organizationId, appointmentId) {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("appointments")
+    .select("id, attendee_name, attendee_phone, start_time, event_type, status")
+    .eq("id", appointmentId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[CallContext] Reminder appointment lookup error:", error);
+    return null;
+  }
+  if (!data || !["confirmed", "pending"].includes(data.status)) return null;
+  if (new Date(data.start_time).getTime() <= Date.now()) return null;
+
+  return {
+    id: data.id,
+    attendeeName: data.attendee_name,
+    attendeePhone: data.attendee_phone,
+    startTime: data.start_time,
+    service: data.event_type,
   };
 }
 
@@ -196,7 +375,7 @@ async function loadTestCallContext(assistantId, organizationId) {
   // 2. Load organization
   const { data: org, error: orgError } = await supabase
     .from("organizations")
-    .select("id, name, industry, timezone, business_hours, default_appointment_duration")
+    .select("id, name, industry, timezone, business_hours, special_hours, default_appointment_duration, owner_language")
     .eq("id", organizationId)
     .single();
 
@@ -250,6 +429,10 @@ async function loadTestCallContext(assistantId, organizationId) {
     }));
   }
 
+  // 6. Load services catalog and staff
+  const services = await loadServices(supabase, organizationId, "[TestCallContext]");
+  const staffNames = await loadStaffNames(supabase, organizationId, "[TestCallContext]");
+
   // Aggregate KB
   let knowledgeBase = "";
   if (kbEntries && kbEntries.length > 0) {
@@ -290,6 +473,10 @@ async function loadTestCallContext(assistantId, organizationId) {
       timezone: org.timezone || undefined,
       businessHours: org.business_hours || undefined,
       defaultAppointmentDuration: org.default_appointment_duration ?? undefined,
+      services,
+      staffNames,
+      specialHours: upcomingSpecialHours(org.special_hours, org.timezone),
+      ownerLanguage: org.owner_language || "en",
     },
     knowledgeBase,
     calendarEnabled,
@@ -297,4 +484,4 @@ async function loadTestCallContext(assistantId, organizationId) {
   };
 }
 
-module.exports = { loadCallContext, loadTestCallContext };
+module.exports = { loadCallContext, loadTestCallContext, loadReminderAppointment, contactPhoneKey };
@@ -1,28 +1,68 @@
 const { getSupabase } = require("./supabase");
 
+/**
+ * Build the calls row inserted by createCallRecord.
+ * Calls stopped by screening keep their score and calls blocked by a rule
+ * keep the rule, but neither is flagged as spam: is_spam would put the number
+ * on the blocklist, so one failed challenge would reject every later call
+ * from it and deleting a block rule would not unblock the caller.
+ */
+function buildCallRecord({ orgId, assistantId, phoneNumberId, callerPhone, callSid, callerRule, screening, experimentVariant, now }) {
+  const stoppedByScreening = Boolean(screening && ["rejected", "challenge_failed"].includes(screening.outcome));
+  const blocked = (callerRule && callerRule.action === "block") || stoppedByScreening;
+
+  return {
+    organization_id: orgId,
+    assistant_id: assistantId,
+    phone_number_id: phoneNumberId,
+    vapi_call_id: `sh_${callSid}`, // prefix to distinguish from Vapi call IDs
+    caller_phone: callerPhone,
+    direction: "inbound",
+    status: blocked ? "no-answer" : "in-progress",
+    started_at: now,
+    metadata: { voice_provider: "self_hosted", ...(screening && { screening }) },
+    ...(callerRule && { caller_rule_id: callerRule.id, caller_rule_action: callerRule.action }),
+    ...(experimentVariant && {
+      experiment_variant_id: experimentVariant.variantId,
+      assistant_revision_id: experimentVariant.revisionId,
+    }),
+    ...(blocked && { ended_at: now, duration_seconds: 0 }),
+    ...(stoppedByScreening && {
+      spam_score: screening.spamScore,
+      // Screening has no transcript part, so the whole score is the base
+      spam_base_score: screening.spamScore,
+    }),
+  };
+}
+
 /**
  * Create a call record when the call starts.
  * Stores the Twilio CallSid prefixed with "sh_" in the vapi_call_id column
  * (NOT NULL UNIQUE) to distinguish self-hosted calls from Vapi-originated ones.
+ * A matched caller rule and the pre-answer screening result are recorded on
+ * the call. Calls blocked by a rule or stopped by screening never reach the
+ * assistant, so they are logged as unanswered. Calls answered by an
+ * experiment variant record it and its revision (otherwise the database
+ * records the assistant's live revision).
  *
  * @returns {Promise<string|null>} The call record UUID, or null on failure
  */
-async function createCallRecord({ orgId, assistantId, phoneNumberId, callerPhone, callSid }) {
+async function createCallRecord({ orgId, assistantId, phoneNumberId, callerPhone, callSid, callerRule, screening, experimentVariant }) {
   const supabase = getSupabase();
 
   const { data, error } = await supabase
     .from("calls")
-    .insert({
-      organization_id: orgId,
-      assistant_id: assistantId,
-      phone_number_id: phoneNumberId,
-      vapi_call_id: `sh_${callSid}`, // prefix to distinguish from Vapi call IDs
-      caller_phone: callerPhone,
-      direction: "inbound",
-      status: "in-progress",
-      started_at: new Date().toISOString(),
-      metadata: { voice_provider: "self_hosted" },
-    })
+    .insert(buildCallRecord({
+      orgId,
+      assistantId,
+      phoneNumberId,
+      callerPhone,
+      callSid,
+      callerRule,
+      screening,
+      experimentVariant,
+      now: new Date().toISOString(),
+    }))
     .select("id")
     .single();
 
@@ -40,7 +80,8 @@ async function createCallRecord({ orgId, assistantId, phoneNumberId, callerPhone
 
 /**
  * Update the call record when the call ends.
- * Accepts optional post-call analysis results.
+ * Accepts optional post-call analysis results, the outcome and storage path
+ * of a recorded voicemail, and the storage path of the call recording.
  * Throws on failure so the caller can handle it.
  */
 async function completeCallRecord(callId, {
@@ -51,6 +92,10 @@ async function completeCallRecord(callId, {
   callerName,
   collectedData,
   successEvaluation,
+  outcome,
+  voicemailPath,
+  recordingPath,
+  language,
 }) {
   const supabase = getSupabase();
 
@@ -65,6 +110,10 @@ async function completeCallRecord(callId, {
   if (summary) updatePayload.summary = summary;
   if (callerName) updatePayload.caller_name = callerName;
   if (collectedData) updatePayload.collected_data = collectedData;
+  if (outcome) updatePayload.outcome = outcome;
+  if (voicemailPath) updatePayload.voicemail_path = voicemailPath;
+  if (recordingPath) updatePayload.recording_path = recordingPath;
+  if (language) updatePayload.language = language;
 
   const { error } = await supabase
     .from("calls")
@@ -147,8 +196,38 @@ async function notifyCallCompleted(internalApiUrl, secret, payload) {
   }
 }
 
+/**
+ * POST to the Next.js internal endpoint that sends the webhook for a call
+ * stopped before the assistant answered (these never reach call-completed).
+ * Errors are caught internally — this function never throws.
+ */
+async function notifyCallStopped(internalApiUrl, secret, callId) {
+  if (!internalApiUrl || !secret || !callId) return;
+
+  try {
+    const res = await fetch(`${internalApiUrl}/api/internal/call-stopped`, {
+      method: "POST",
+      signal: AbortSignal.timeout(15_000),
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Secret": secret,
+      },
+      body: JSON.stringify({ callId }),
+    });
+
+    if (!res.ok) {
+      const text = (await res.text()).slice(0, 500);
+      console.error("[CallLogger] Internal API error — stopped call webhook lost:", { status: res.status, body: text, callId });
+    }
+  } catch (err) {
+    console.error("[CallLogger] Failed to report stopped call — webhook lost:", { callId, error: err.message });
+  }
+}
+
 module.exports = {
+  buildCallRecord,
   createCallRecord,
   completeCallRecord,
   notifyCallCompleted,
+  notifyCallStopped,
 };
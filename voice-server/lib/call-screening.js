@@ -0,0 +1,43 @@
+/**
+ * Pre-answer spam screening. Asks the Next.js app to score the caller from
+ * the org's caller rules, numbers already marked as spam, the number itself
+ * and its recent call frequency (see screenCall in
+ * src/lib/spam/spam-detector.ts).
+ */
+
+// Twilio waits on /twiml, so a slow check must not hold up real callers
+const SCREENING_TIMEOUT_MS = 2500;
+
+/**
+ * @returns {Promise<{action: "answer"|"challenge"|"reject", spamScore: number, reasons: string[]}|null>}
+ *   The screening result, or null if the check failed or timed out (the call
+ *   is then answered as usual). Never throws.
+ */
+async function screenCall(internalApiUrl, secret, { organizationId, callerPhone }) {
+  if (!internalApiUrl || !secret) return null;
+
+  try {
+    const res = await fetch(`${internalApiUrl}/api/internal/screen-call`, {
+      method: "POST",
+      signal: AbortSignal.timeout(SCREENING_TIMEOUT_MS),
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Secret": secret,
+      },
+      body: JSON.stringify({ organizationId, callerPhone }),
+    });
+
+    if (!res.ok) {
+      const text = (await res.text()).slice(0, 500);
+      console.error(`[Screening] Internal API error ${res.status} — answering unscreened:`, text);
+      return null;
+    }
+
+    return await res.json();
+  } catch (err) {
+    console.error("[Screening] Check failed — answering unscreened:", err.message);
+    return null;
+  }
+}
+
+module.exports = { screenCall };
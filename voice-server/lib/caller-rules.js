@@ -0,0 +1,73 @@
+const { getSupabase } = require("./supabase");
+const { contactPhoneKey } = require("./call-context");
+
+/**
+ * The active rule for a caller: an exact number beats any prefix, and a
+ * longer prefix beats a shorter one (mirrors matchCallerRule in
+ * src/lib/spam/caller-rules.ts).
+ */
+function matchCallerRule(rules, callerPhone) {
+  const callerKey = contactPhoneKey(callerPhone);
+  if (!callerKey) return null;
+  const callerDigits = (callerPhone || "").replace(/\D/g, "");
+
+  const active = rules.filter((r) => r.is_active);
+  const exact = active.find((r) => r.match_type === "exact" && contactPhoneKey(r.phone_pattern) === callerKey);
+  if (exact) return exact;
+
+  let best = null;
+  let bestLength = 0;
+  for (const rule of active) {
+    if (rule.match_type !== "prefix") continue;
+    const prefix = rule.phone_pattern.replace(/\D/g, "");
+    if (prefix && callerDigits.startsWith(prefix) && prefix.length > bestLength) {
+      best = rule;
+      bestLength = prefix.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Look up the called number's org, assistant and phone number record before
+ * an inbound call is answered, with the caller rule that matches the caller
+ * (rule is null when none does). Non-fatal: returns null for unknown numbers
+ * or on error, and the call is handled as usual.
+ */
+async function loadCallerRule(calledNumber, callerPhone) {
+  if (!calledNumber || !contactPhoneKey(callerPhone)) return null;
+  const supabase = getSupabase();
+
+  const { data: phone, error: phoneError } = await supabase
+    .from("phone_numbers")
+    .select("id, organization_id, assistant_id")
+    .eq("phone_number", calledNumber)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (phoneError) {
+    console.error("[CallerRules] Phone lookup error:", phoneError);
+    return null;
+  }
+  if (!phone) return null;
+
+  const { data: rules, error: rulesError } = await supabase
+    .from("caller_rules")
+    .select("id, match_type, phone_pattern, action, transfer_to_phone, transfer_to_name, is_active")
+    .eq("organization_id", phone.organization_id)
+    .eq("is_active", true);
+
+  if (rulesError) {
+    console.error("[CallerRules] Rules lookup error:", rulesError);
+    return null;
+  }
+
+  return {
+    rule: matchCallerRule(rules || [], callerPhone),
+    organizationId: phone.organization_id,
+    assistantId: phone.assistant_id,
+    phoneNumberId: phone.id,
+  };
+}
+
+module.exports = { matchCallerRule, loadCallerRule };
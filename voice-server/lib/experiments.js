@@ -0,0 +1,79 @@
+const { getSupabase } = require("./supabase");
+
+/**
+ * Pick a variant with probability proportional to its weight.
+ * `random` returns a number in [0, 1), like Math.random.
+ */
+function pickVariant(variants, random = Math.random) {
+  const eligible = (variants || []).filter((v) => v.weight > 0);
+  const total = eligible.reduce((sum, v) => sum + v.weight, 0);
+  if (total === 0) return null;
+
+  let point = random() * total;
+  for (const variant of eligible) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return eligible[eligible.length - 1];
+}
+
+/**
+ * The prompt variant to answer an inbound call with when the assistant has a
+ * running experiment (see src/lib/assistants/experiments.ts), or null.
+ * Non-fatal: lookup errors answer with the live prompt.
+ *
+ * @returns {Promise<{ variantId: string, label: string, revisionId: string,
+ *   systemPrompt: string, promptConfig: object|null, firstMessage: string|null }|null>}
+ */
+async function loadExperimentVariant(assistantId) {
+  const supabase = getSupabase();
+
+  const { data: experiment, error } = await supabase
+    .from("assistant_experiments")
+    .select(`
+      id,
+      assistant_experiment_variants (
+        id, label, weight,
+        assistant_revisions (id, system_prompt, prompt_config, first_message)
+      )
+    `)
+    .eq("assistant_id", assistantId)
+    .eq("status", "running")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Experiments] Experiment lookup error:", error);
+    return null;
+  }
+  if (!experiment) return null;
+
+  const variant = pickVariant(
+    experiment.assistant_experiment_variants.filter((v) => v.assistant_revisions)
+  );
+  if (!variant) return null;
+
+  const revision = variant.assistant_revisions;
+  return {
+    variantId: variant.id,
+    label: variant.label,
+    revisionId: revision.id,
+    systemPrompt: revision.system_prompt,
+    promptConfig: revision.prompt_config,
+    firstMessage: revision.first_message,
+  };
+}
+
+/**
+ * The call context's assistant with a variant's prompt in place of the live
+ * one. Revisions saved before greetings were kept use the live greeting.
+ */
+function applyExperimentVariant(assistant, variant) {
+  return {
+    ...assistant,
+    systemPrompt: variant.systemPrompt,
+    promptConfig: variant.promptConfig,
+    firstMessage: variant.firstMessage || assistant.firstMessage,
+  };
+}
+
+module.exports = { pickVariant, loadExperimentVariant, applyExperimentVariant };
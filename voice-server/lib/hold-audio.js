@@ -181,4 +181,4 @@ function getHoldPreset(industry) {
   return INDUSTRY_DEFAULTS[industry] || "neutral";
 }
 
-module.exports = { generateHoldAudio, getHoldPreset, PRESETS, INDUSTRY_DEFAULTS };
+module.exports = { generateHoldAudio, getHoldPreset, linearToMulaw, PRESETS, INDUSTRY_DEFAULTS };
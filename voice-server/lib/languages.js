@@ -0,0 +1,113 @@
+/**
+ * Languages
+ *
+ * Mirrors src/lib/languages/languages.ts. An assistant speaks the languages in
+ * settings.languages (the first is the one it answers in). When it has more
+ * than one, the caller's first utterance is checked with Deepgram's language
+ * detection, and the assistant can switch mid-call with the switch_language
+ * tool. Each switch changes the prompt's language section, the STT model
+ * language and the TTS voice.
+ *
+ * Deepgram Aura only has English and Spanish voices, so Mandarin and
+ * Vietnamese are spoken with OpenAI TTS.
+ */
+
+const DEFAULT_LANGUAGE = "en";
+
+/** Most languages one assistant can speak */
+const MAX_LANGUAGES = 4;
+
+const SUPPORTED_LANGUAGES = {
+  en: { name: "English", stt: "en" },
+  es: { name: "Spanish", stt: "es" },
+  zh: { name: "Mandarin Chinese", stt: "zh-CN" },
+  vi: { name: "Vietnamese", stt: "vi" },
+};
+
+const MALE_DEEPGRAM_VOICES = ["aura-orion-en", "aura-arcas-en", "aura-orpheus-en", "aura-angus-en", "aura-perseus-en"];
+
+/** Spanish Aura voices, picked to match the gender of the assistant's English voice */
+const SPANISH_VOICES = { female: "aura-2-estrella-es", male: "aura-2-javier-es" };
+
+/** OpenAI voices for languages Deepgram can't speak */
+const OPENAI_VOICES = { female: "nova", male: "onyx" };
+
+function isSupportedLanguage(code) {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, code);
+}
+
+/**
+ * The assistant's languages, primary first. Unknown codes are dropped and an
+ * assistant without any speaks English.
+ */
+function getAssistantLanguages(settings) {
+  const configured = Array.isArray(settings?.languages) ? settings.languages : [];
+  const languages = [...new Set(configured.filter(isSupportedLanguage))].slice(0, MAX_LANGUAGES);
+  return languages.length > 0 ? languages : [DEFAULT_LANGUAGE];
+}
+
+/**
+ * Map a detected language tag ("es-419", "zh-TW", "EN") to one the
+ * assistant speaks, or null.
+ */
+function matchLanguage(detected, languages) {
+  if (!detected || typeof detected !== "string") return null;
+  const base = detected.toLowerCase().split(/[-_]/)[0];
+  return languages.includes(base) ? base : null;
+}
+
+function getLanguageName(code) {
+  return (SUPPORTED_LANGUAGES[code] || SUPPORTED_LANGUAGES[DEFAULT_LANGUAGE]).name;
+}
+
+/** Deepgram STT language parameter */
+function getSttLanguage(code) {
+  return (SUPPORTED_LANGUAGES[code] || SUPPORTED_LANGUAGES[DEFAULT_LANGUAGE]).stt;
+}
+
+/**
+ * TTS voice for a language, keeping the gender of the assistant's Deepgram voice.
+ * @returns {{ provider: "deepgram"|"openai", voice: string }}
+ */
+function getTtsVoice(code, deepgramVoice) {
+  const gender = MALE_DEEPGRAM_VOICES.includes(deepgramVoice) ? "male" : "female";
+  switch (code) {
+    case "es":
+      return { provider: "deepgram", voice: SPANISH_VOICES[gender] };
+    case "zh":
+    case "vi":
+      return { provider: "openai", voice: OPENAI_VOICES[gender] };
+    default:
+      return { provider: "deepgram", voice: deepgramVoice };
+  }
+}
+
+/**
+ * Prompt section telling the assistant which language to speak. Only needed
+ * when it speaks more than English.
+ */
+function buildLanguageSection(current, languages) {
+  if (languages.length === 1 && current === DEFAULT_LANGUAGE) return "";
+
+  const lines = ["LANGUAGE:", `Speak ${getLanguageName(current)} for the rest of the call, whatever language the instructions above are written in.`];
+  const others = languages.filter((code) => code !== current);
+  if (others.length > 0) {
+    lines.push(
+      `- You can also speak ${others.map(getLanguageName).join(", ")}. If the caller speaks or asks for one of those, call switch_language first, then carry on in that language.`
+    );
+  }
+  lines.push("- Say names, phone numbers, emails and addresses the way the caller gave them.");
+  return lines.join("\n");
+}
+
+module.exports = {
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  buildLanguageSection,
+  getAssistantLanguages,
+  getLanguageName,
+  getSttLanguage,
+  getTtsVoice,
+  isSupportedLanguage,
+  matchLanguage,
+};
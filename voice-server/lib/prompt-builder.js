@@ -51,6 +51,62 @@ function formatHourForPrompt(time) {
   return `${hour12}${mins} ${period}`;
 }
 
+/**
+ * List the services catalog (mirrors buildServicesLines in
+ * src/lib/prompt-builder/generate-prompt.ts).
+ *
+ * @param {{ name: string, durationMinutes: number, description?: string|null, staffNames?: string[] }[]} services
+ */
+function buildServicesLines(services) {
+  const lines = ["", "Services offered:"];
+  for (const service of services) {
+    let line = `- ${service.name} (${service.durationMinutes} minutes)`;
+    if (service.staffNames && service.staffNames.length > 0) {
+      line += ` with ${service.staffNames.join(", ")}`;
+    }
+    if (service.description) {
+      line += ` \u2013 ${service.description}`;
+    }
+    lines.push(line);
+  }
+  lines.push("");
+  lines.push(
+    "Ask which service the caller wants before checking availability, and pass its exact name as the service argument to check_availability and book_appointment."
+  );
+  return lines;
+}
+
+/**
+ * List upcoming holidays and special hours (mirrors buildSpecialHoursLines
+ * in src/lib/prompt-builder/generate-prompt.ts).
+ *
+ * @param {{ date: string, name: string, open?: string|null, close?: string|null }[]} specialHours
+ */
+function buildSpecialHoursLines(specialHours) {
+  const lines = ["", "Holidays & Special Hours (these override the weekly hours above):"];
+  for (const entry of specialHours) {
+    const dateLabel = new Date(`${entry.date}T12:00:00Z`).toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+    if (entry.open && entry.close) {
+      lines.push(
+        `- ${dateLabel}: ${formatHourForPrompt(entry.open)} \u2013 ${formatHourForPrompt(entry.close)} (${entry.name})`
+      );
+    } else {
+      lines.push(`- ${dateLabel}: Closed (${entry.name})`);
+    }
+  }
+  lines.push("");
+  lines.push(
+    "If the caller asks about one of these dates, or calls on a day we're closed, tell them we're closed for the holiday and offer another day."
+  );
+  return lines;
+}
+
 /**
  * Build the scheduling/timezone section appended to every prompt.
  * When calendarEnabled is true, includes real tool-calling instructions;
@@ -60,8 +116,11 @@ function formatHourForPrompt(time) {
  * @param {object} [businessHours]
  * @param {number} [defaultAppointmentDuration]
  * @param {boolean} [calendarEnabled=false]
+ * @param {object[]} [services]
+ * @param {string[]} [staffNames]
+ * @param {object[]} [specialHours]
  */
-function buildSchedulingSection(timezone, businessHours, defaultAppointmentDuration, calendarEnabled) {
+function buildSchedulingSection(timezone, businessHours, defaultAppointmentDuration, calendarEnabled, services, staffNames, specialHours) {
   const lines = [];
   lines.push("TIMEZONE & SCHEDULING:");
 
@@ -86,25 +145,44 @@ function buildSchedulingSection(timezone, businessHours, defaultAppointmentDurat
     lines.push("Do NOT suggest appointment times outside of these business hours.");
   }
 
-  if (defaultAppointmentDuration && defaultAppointmentDuration !== 30) {
+  if (specialHours && specialHours.length > 0) {
+    lines.push(...buildSpecialHoursLines(specialHours));
+  }
+
+  if (services && services.length > 0) {
+    lines.push(...buildServicesLines(services));
+  } else if (defaultAppointmentDuration && defaultAppointmentDuration !== 30) {
     lines.push(`Standard appointment duration is ${defaultAppointmentDuration} minutes.`);
   }
 
+  if (staffNames && staffNames.length > 0) {
+    lines.push("");
+    lines.push(`Staff: ${staffNames.join(", ")}.`);
+    lines.push(
+      `If the caller asks for someone specific, pass their name as the staff argument to check_availability and book_appointment. If they have no preference, pass "anyone".`
+    );
+  }
+
   if (calendarEnabled) {
     lines.push(
       "SCHEDULING TOOLS:",
       "You have access to the following scheduling functions. Use them to help callers with appointments:",
       "- get_current_datetime: Call this FIRST to know today's date before checking availability or booking.",
-      "- check_availability: Check available appointment slots for a specific date (YYYY-MM-DD format).",
-      "- book_appointment: Book an appointment. Requires datetime (ISO format), caller name, and phone number.",
+      "- check_availability: Check available appointment slots for a specific date (YYYY-MM-DD format) and service.",
+      "- book_appointment: Book an appointment. Requires datetime (ISO format), caller name, and phone number, plus the service when services are listed.",
       "- cancel_appointment: Cancel an existing appointment by the caller's phone number.",
+      "- confirm_appointment: Confirm the caller will attend their next appointment, by their phone number.",
+      "- reschedule_appointment: Move an existing appointment to a new time. Requires the caller's phone number and the new datetime (ISO format).",
+      "- join_waitlist: Add the caller to the waitlist for a date range (YYYY-MM-DD). They get a text if a slot opens up and reply YES to book it.",
       "",
       "SCHEDULING WORKFLOW:",
       "1. When a caller wants to book, first call get_current_datetime to know today's date.",
       "2. Ask what date they prefer, then call check_availability for that date.",
       "3. Present the available times and let the caller choose.",
       "4. Collect their name and phone number, then call book_appointment.",
-      "5. Confirm the booking details with the caller."
+      "5. Confirm the booking details with the caller.",
+      "6. If a caller wants to move an existing appointment, check availability for the new date, then call reschedule_appointment instead of cancelling and rebooking.",
+      "7. If no times work for the caller, offer to put them on the waitlist for the dates they could make, then call join_waitlist."
     );
   } else {
     lines.push(
@@ -204,7 +282,55 @@ General Guidelines:
   }
 }
 
-function buildFieldCollectionSection(fields) {
+/** Field labels by id, so conditions can name the field they depend on */
+function getFieldLabels(config) {
+  const labels = new Map();
+  const intentFields = (config.intents || []).flatMap((intent) => intent.fields || []);
+  for (const field of [...(config.fields || []), ...intentFields]) {
+    labels.set(field.id, field.label);
+  }
+  return labels;
+}
+
+function getConditionNote(field, labels) {
+  if (!field.condition) return "";
+  const dependsOn = labels.get(field.condition.fieldId) || field.condition.fieldId;
+  return `only ask if ${dependsOn} is "${field.condition.equals}"`;
+}
+
+/**
+ * The allowed answers for a select field, with the synonyms callers use, e.g.
+ * 'Allowed answers (one): Yes (or "yeah", "I do"), No'.
+ */
+function getOptionsNote(field) {
+  if (!field.options || field.options.length === 0) return "";
+  const choices = field.options.map((option) =>
+    option.synonyms && option.synonyms.length > 0
+      ? `${option.value} (or ${option.synonyms.map((synonym) => `"${synonym}"`).join(", ")})`
+      : option.value
+  );
+  const count = field.type === "multiselect" ? "any that apply" : "one";
+  return `Allowed answers (${count}): ${choices.join(", ")}`;
+}
+
+function buildFieldLine(field, labels) {
+  let line = `- ${field.label}`;
+  const conditionNote = getConditionNote(field, labels);
+  if (conditionNote) {
+    line += ` (${conditionNote})`;
+  }
+  const optionsNote = getOptionsNote(field);
+  if (optionsNote) {
+    line += `\n  ${optionsNote}`;
+  }
+  const verifyNote = getVerificationInstruction(field.verification, field.label);
+  if (verifyNote) {
+    line += `\n  ${verifyNote}`;
+  }
+  return `${line}\n`;
+}
+
+function buildFieldCollectionSection(fields, labels) {
   if (!fields || fields.length === 0) return "";
 
   const required = fields.filter((f) => f.required);
@@ -215,37 +341,74 @@ function buildFieldCollectionSection(fields) {
   if (required.length > 0) {
     section += "Required information:\n";
     for (const field of required) {
-      section += `- ${field.label}`;
-      const verifyNote = getVerificationInstruction(field.verification, field.label);
-      if (verifyNote) {
-        section += `\n  ${verifyNote}`;
-      }
-      section += "\n";
+      section += buildFieldLine(field, labels);
     }
   }
 
   if (optional.length > 0) {
     section += "\nOptional (collect if relevant):\n";
     for (const field of optional) {
-      section += `- ${field.label}`;
-      const verifyNote = getVerificationInstruction(field.verification, field.label);
-      if (verifyNote) {
-        section += `\n  ${verifyNote}`;
-      }
-      section += "\n";
+      section += buildFieldLine(field, labels);
     }
   }
 
   return section;
 }
 
+const intentOutcomes = {
+  book: "Book an appointment, confirming the date and time with the caller.",
+  transfer: "Transfer the call to a team member. If nobody can take it, take a message.",
+  take_message: "Take a message and let the caller know someone will call them back.",
+};
+
+/**
+ * One entry per intent (prompt config v2): how to recognize it, what to
+ * collect on top of the shared fields, and how the call should end.
+ */
+function buildIntentsSection(config, labels) {
+  const intents = config.intents || [];
+  if (intents.length === 0) return "";
+
+  const lines = [
+    "CALL TYPES:",
+    "Work out early in the call which of these the caller needs. Collect that call type's information as well as the information above, then finish with its outcome. If none fit, help the caller as usual.",
+  ];
+
+  intents.forEach((intent, index) => {
+    lines.push("");
+    const description = (intent.description || "").trim();
+    lines.push(`${index + 1}. ${intent.label}${description ? ` \u2013 ${description}` : ""}`);
+
+    const fields = intent.fields || [];
+    if (fields.length > 0) {
+      lines.push("   Collect:");
+      for (const field of fields) {
+        const notes = [field.required ? "required" : "optional", getConditionNote(field, labels)].filter(Boolean);
+        lines.push(`   - ${field.label} (${notes.join(", ")})`);
+        const optionsNote = getOptionsNote(field);
+        if (optionsNote) {
+          lines.push(`     ${optionsNote}`);
+        }
+        const verifyNote = getVerificationInstruction(field.verification, field.label);
+        if (verifyNote) {
+          lines.push(`     ${verifyNote}`);
+        }
+      }
+    }
+
+    lines.push(`   Outcome: ${intentOutcomes[intent.outcome] || intentOutcomes.take_message}`);
+  });
+
+  return lines.join("\n");
+}
+
 function buildBehaviorsSection(behaviors, options) {
   const lines = [];
   lines.push("CAPABILITIES:");
 
   if (behaviors.scheduleAppointments) {
     lines.push(
-      "- SCHEDULING: You can help callers schedule, reschedule, or cancel appointments. Offer available times and confirm all details."
+      "- SCHEDULING: You can help callers schedule, reschedule, or cancel appointments. Offer available times and confirm all details. If no times work, offer to add them to the waitlist."
     );
   }
 
@@ -289,10 +452,10 @@ function buildBehaviorsSection(behaviors, options) {
 }
 
 /**
- * Build a full system prompt from a guided PromptConfig + context.
+ * Build a full system prompt from a guided PromptConfig (v1 or v2) + context.
  *
  * @param {object} config
- * @param {{ businessName?: string, industry?: string, knowledgeBase?: string, timezone?: string, businessHours?: object, defaultAppointmentDuration?: number, calendarEnabled?: boolean }} context
+ * @param {{ businessName?: string, industry?: string, knowledgeBase?: string, timezone?: string, businessHours?: object, defaultAppointmentDuration?: number, services?: object[], staffNames?: string[], specialHours?: object[], calendarEnabled?: boolean }} context
  */
 function buildPromptFromConfig(config, context) {
   const sections = [];
@@ -308,11 +471,13 @@ function buildPromptFromConfig(config, context) {
   const kb = context.knowledgeBase || "No additional business information provided yet.";
   sections.push(`Business Information:\n${kb}`);
 
-  // 3. Data collection with verification
-  const fieldSection = buildFieldCollectionSection(config.fields);
+  // 3. Data collection with verification, then per-intent fields and outcomes
+  const labels = getFieldLabels(config);
+  const fieldSection = buildFieldCollectionSection(config.fields, labels);
   if (fieldSection) {
     sections.push(fieldSection);
   }
+  sections.push(buildIntentsSection(config, labels));
 
   // 4. Behaviors
   sections.push(buildBehaviorsSection(config.behaviors, {
@@ -320,7 +485,7 @@ function buildPromptFromConfig(config, context) {
   }));
 
   // 5. Timezone, business hours & scheduling
-  sections.push(buildSchedulingSection(context.timezone, context.businessHours, context.defaultAppointmentDuration, context.calendarEnabled));
+  sections.push(buildSchedulingSection(context.timezone, context.businessHours, context.defaultAppointmentDuration, context.calendarEnabled, context.services, context.staffNames, context.specialHours));
 
   // 6. Industry guidelines
   const guidelines = getIndustryGuidelines(context.industry);
@@ -336,21 +501,37 @@ function buildPromptFromConfig(config, context) {
   return sections.filter(Boolean).join("\n\n");
 }
 
+/** Greetings by language and tone (mirrors GREETINGS in generate-prompt.ts) */
+const GREETINGS = {
+  en: {
+    professional: (name) => `Thank you for calling ${name}. How may I assist you today?`,
+    friendly: (name) => `Hi there! Thanks for calling ${name}. How can I help you today?`,
+    casual: (name) => `Hey! You've reached ${name}. What can I do for you?`,
+  },
+  es: {
+    professional: (name) => `Gracias por llamar a ${name}. ¿En qué puedo ayudarle hoy?`,
+    friendly: (name) => `¡Hola! Gracias por llamar a ${name}. ¿Cómo le puedo ayudar hoy?`,
+    casual: (name) => `¡Hola! Se comunicó con ${name}. ¿Qué puedo hacer por usted?`,
+  },
+  zh: {
+    professional: (name) => `感谢您致电${name}。请问今天有什么可以帮您？`,
+    friendly: (name) => `您好！感谢您致电${name}。今天有什么可以帮您的吗？`,
+    casual: (name) => `嗨！这里是${name}。有什么可以帮您的？`,
+  },
+  vi: {
+    professional: (name) => `Cảm ơn quý khách đã gọi đến ${name}. Tôi có thể giúp gì cho quý khách hôm nay?`,
+    friendly: (name) => `Xin chào! Cảm ơn bạn đã gọi đến ${name}. Hôm nay tôi có thể giúp gì cho bạn?`,
+    casual: (name) => `Chào bạn! Đây là ${name}. Mình có thể giúp gì cho bạn?`,
+  },
+};
+
 /**
- * Generate a greeting based on tone and business name.
+ * Generate a greeting based on tone, business name and language.
  */
-function generateGreeting(tone, businessName) {
+function generateGreeting(tone, businessName, language = "en") {
   const name = businessName || "{business_name}";
-  switch (tone) {
-    case "professional":
-      return `Thank you for calling ${name}. How may I assist you today?`;
-    case "friendly":
-      return `Hi there! Thanks for calling ${name}. How can I help you today?`;
-    case "casual":
-      return `Hey! You've reached ${name}. What can I do for you?`;
-    default:
-      return `Hi there! Thanks for calling ${name}. How can I help you today?`;
-  }
+  const greetings = GREETINGS[language] || GREETINGS.en;
+  return (greetings[tone] || greetings.friendly)(name);
 }
 
 /**
@@ -382,6 +563,9 @@ function buildSystemPrompt(assistant, organization, knowledgeBase, options) {
       timezone: organization.timezone,
       businessHours: organization.businessHours,
       defaultAppointmentDuration: organization.defaultAppointmentDuration,
+      services: organization.services,
+      staffNames: organization.staffNames,
+      specialHours: organization.specialHours,
       calendarEnabled,
       transferRules,
     };
@@ -405,15 +589,16 @@ function buildSystemPrompt(assistant, organization, knowledgeBase, options) {
   }
 
   // Append scheduling section
-  systemPrompt += `\n\n${buildSchedulingSection(organization.timezone, organization.businessHours, organization.defaultAppointmentDuration, calendarEnabled)}`;
+  systemPrompt += `\n\n${buildSchedulingSection(organization.timezone, organization.businessHours, organization.defaultAppointmentDuration, calendarEnabled, organization.services, organization.staffNames, organization.specialHours)}`;
 
   return systemPrompt;
 }
 
 /**
- * Get the greeting for a call — uses first_message if set, otherwise generates from tone.
+ * Get the greeting for a call — uses first_message if set, otherwise generates
+ * from tone in the assistant's primary language.
  */
-function getGreeting(assistant, organizationName) {
+function getGreeting(assistant, organizationName, language = "en") {
   if (assistant.firstMessage) {
     let greeting = assistant.firstMessage;
     if (greeting.includes("{business_name}")) {
@@ -422,17 +607,109 @@ function getGreeting(assistant, organizationName) {
     return greeting;
   }
 
-  if (assistant.promptConfig) {
-    return generateGreeting(assistant.promptConfig.tone, organizationName);
+  return generateGreeting(assistant.promptConfig?.tone || "friendly", organizationName, language);
+}
+
+/**
+ * "Tuesday, March 3 at 2:30 PM" in the org's timezone
+ */
+function formatAppointmentTime(startTime, timezone) {
+  const start = new Date(startTime);
+  const tzOption = timezone ? { timeZone: timezone } : {};
+  const date = start.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", ...tzOption });
+  const time = start.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true, ...tzOption });
+  return `${date} at ${time}`;
+}
+
+/**
+ * "March 3" in the org's timezone
+ */
+function formatShortDate(date, timezone) {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    ...(timezone ? { timeZone: timezone } : {}),
+  });
+}
+
+/**
+ * Tells the assistant it can hand the caller over to voicemail.
+ */
+function buildVoicemailSection() {
+  return [
+    "VOICEMAIL:",
+    "- If the caller asks to leave a message or voicemail, call the leave_voicemail function instead of taking the message yourself. Don't say anything first — they will be prompted to record after a tone.",
+  ].join("\n");
+}
+
+/**
+ * What the assistant knows about a returning caller, e.g.
+ * "Returning caller: Jane, last visit March 3".
+ */
+function buildReturningCallerSection(returningCaller, timezone) {
+  const who = returningCaller.name || "name not on file";
+  const details = [];
+  if (returningCaller.lastVisit) {
+    const what = returningCaller.lastVisit.service ? ` (${returningCaller.lastVisit.service})` : "";
+    details.push(`last visit ${formatShortDate(returningCaller.lastVisit.startTime, timezone)}${what}`);
+  } else if (returningCaller.lastCallAt) {
+    details.push(`last called ${formatShortDate(returningCaller.lastCallAt, timezone)}`);
+  }
+  if (returningCaller.nextAppointment) {
+    const what = returningCaller.nextAppointment.service ? `${returningCaller.nextAppointment.service} ` : "";
+    details.push(`upcoming ${what}appointment ${formatAppointmentTime(returningCaller.nextAppointment.startTime, timezone)}`);
   }
 
-  return `Hi there! Thanks for calling ${organizationName}. How can I help you today?`;
+  const lines = [
+    "CALLER HISTORY:",
+    `Returning caller: ${who}${details.length > 0 ? `, ${details.join(", ")}` : ""}.`,
+  ];
+  if (returningCaller.tags && returningCaller.tags.length > 0) {
+    lines.push(`Tags from the team: ${returningCaller.tags.join(", ")}.`);
+  }
+  lines.push(
+    returningCaller.name
+      ? `- Greet them by first name once they speak, but confirm it's ${returningCaller.name.split(" ")[0]} before sharing any appointment details — someone else may be using the phone.`
+      : "- Welcome them back, and ask for their name as usual."
+  );
+  lines.push("- Don't ask again for details you already have unless you need to confirm them.");
+  return lines.join("\n");
+}
+
+/**
+ * Extra instructions for an outbound reminder call: the AI rang the caller,
+ * so it leads with the appointment and asks them to confirm.
+ */
+function buildReminderCallSection(appointment, timezone) {
+  const what = appointment.service ? `${appointment.service} appointment` : "appointment";
+  return [
+    "REMINDER CALL:",
+    `This is an outbound call you placed to ${appointment.attendeeName || "the caller"} to remind them of their ${what} on ${formatAppointmentTime(appointment.startTime, timezone)}. Their phone number is ${appointment.attendeePhone}.`,
+    "- If they will attend, call confirm_appointment with their phone number.",
+    "- If they want a different time, check availability and call reschedule_appointment.",
+    "- If they want to cancel, call cancel_appointment.",
+    "- If you reached voicemail or the wrong person, leave a short reminder without personal details and end the call.",
+    "Keep the call brief.",
+  ].join("\n");
+}
+
+/**
+ * Opening line for an outbound reminder call.
+ */
+function getReminderGreeting(appointment, organizationName, timezone) {
+  const name = appointment.attendeeName ? `Hi ${appointment.attendeeName.split(" ")[0]}, this` : "Hi, this";
+  const what = appointment.service ? `${appointment.service} appointment` : "appointment";
+  return `${name} is ${organizationName} calling to remind you about your ${what} on ${formatAppointmentTime(appointment.startTime, timezone)}. Will you be able to make it?`;
 }
 
 module.exports = {
   buildPromptFromConfig,
+  buildReminderCallSection,
+  buildReturningCallerSection,
   buildSchedulingSection,
   buildSystemPrompt,
+  buildVoicemailSection,
   generateGreeting,
   getGreeting,
+  getReminderGreeting,
 };
@@ -0,0 +1,126 @@
+/**
+ * Call Recording
+ *
+ * Records both legs of a Twilio media stream into a stereo WAV: the caller
+ * (inbound frames, placed by Twilio's media timestamp) on the left channel,
+ * and everything played to the caller — assistant speech, hold audio, the
+ * voicemail tone — on the right. Outbound audio is sent faster than real time
+ * and queued by Twilio, so it is laid out on a playback clock, and a barge-in
+ * "clear" cuts off whatever had not been played yet.
+ *
+ * When the call ends the WAV is uploaded to the private "call-recordings"
+ * bucket as <orgId>/<callId>.wav. Assistants with recordingEnabled: false
+ * (see resolveRecordingSettings in the Next.js app) are never recorded.
+ */
+
+const { getSupabase } = require("./supabase");
+const { SAMPLE_RATE, MULAW_SILENCE, mulawToWav, interleaveStereo } = require("./wav");
+
+const RECORDINGS_BUCKET = "call-recordings";
+
+/** Longest call kept in memory; anything after this is not recorded */
+const MAX_RECORDING_SECONDS = 60 * 60;
+const MAX_RECORDING_SAMPLES = MAX_RECORDING_SECONDS * SAMPLE_RATE;
+
+const SAMPLES_PER_MS = SAMPLE_RATE / 1000;
+
+/** Mirrors resolveRecordingSettings: recording is on unless turned off */
+function isRecordingEnabled(settings) {
+  return settings?.recordingEnabled ?? true;
+}
+
+class CallRecorder {
+  constructor(now = Date.now()) {
+    this.startedAt = now;
+    this.inbound = []; // { offset, audio } with offset in samples from stream start
+    this.outbound = [];
+    this.outboundCursor = 0; // sample at which queued outbound audio finishes playing
+  }
+
+  _elapsedSamples(now) {
+    return Math.max(0, Math.round((now - this.startedAt) * SAMPLES_PER_MS));
+  }
+
+  /**
+   * Caller audio. Twilio's media timestamp (ms since the stream started)
+   * places each frame; frames without one use the wall clock.
+   */
+  addInbound(audio, timestampMs, now = Date.now()) {
+    const ts = Number(timestampMs);
+    const offset = Number.isFinite(ts) ? Math.round(ts * SAMPLES_PER_MS) : this._elapsedSamples(now);
+    if (offset >= MAX_RECORDING_SAMPLES) return;
+    this.inbound.push({ offset, audio });
+  }
+
+  /**
+   * Audio sent to the caller. It plays after anything already queued, or
+   * straight away if Twilio's buffer has drained.
+   */
+  addOutbound(audio, now = Date.now()) {
+    const offset = Math.max(this.outboundCursor, this._elapsedSamples(now));
+    if (offset >= MAX_RECORDING_SAMPLES) return;
+    this.outbound.push({ offset, audio });
+    this.outboundCursor = offset + audio.length;
+  }
+
+  /**
+   * Twilio dropped its queued audio (barge-in): keep only what had played.
+   */
+  clearOutbound(now = Date.now()) {
+    const cut = this._elapsedSamples(now);
+    if (this.outboundCursor <= cut) return;
+
+    this.outbound = this.outbound
+      .filter((chunk) => chunk.offset < cut)
+      .map((chunk) => (chunk.offset + chunk.audio.length > cut
+        ? { offset: chunk.offset, audio: chunk.audio.subarray(0, cut - chunk.offset) }
+        : chunk));
+    this.outboundCursor = cut;
+  }
+
+  get hasAudio() {
+    return this.inbound.length > 0 || this.outbound.length > 0;
+  }
+
+  /**
+   * Stereo WAV of the call: caller left, assistant right.
+   */
+  toWav() {
+    const end = (chunks) => chunks.reduce((max, c) => Math.max(max, c.offset + c.audio.length), 0);
+    const length = Math.min(Math.max(end(this.inbound), end(this.outbound)), MAX_RECORDING_SAMPLES);
+
+    const track = (chunks) => {
+      const buf = Buffer.alloc(length, MULAW_SILENCE);
+      for (const { offset, audio } of chunks) {
+        if (offset < length) audio.copy(buf, offset, 0, Math.min(audio.length, length - offset));
+      }
+      return buf;
+    };
+
+    return mulawToWav(interleaveStereo(track(this.inbound), track(this.outbound)), 2);
+  }
+}
+
+/**
+ * Upload a call recording as <orgId>/<callId>.wav.
+ * @returns {Promise<string|null>} The storage path, or null on failure
+ */
+async function uploadRecording(organizationId, callId, wav) {
+  const path = `${organizationId}/${callId}.wav`;
+  const { error } = await getSupabase()
+    .storage
+    .from(RECORDINGS_BUCKET)
+    .upload(path, wav, { contentType: "audio/wav", upsert: true });
+
+  if (error) {
+    console.error("[Recording] Failed to upload recording:", { organizationId, callId, error: error.message });
+    return null;
+  }
+  return path;
+}
+
+module.exports = {
+  CallRecorder,
+  isRecordingEnabled,
+  uploadRecording,
+};
@@ -0,0 +1,121 @@
+/**
+ * Voicemail Mode
+ *
+ * When the caller asks to leave a message, the LLM fails, or the org is over
+ * its monthly call limit, the call switches from the assistant to recording:
+ * the caller hears a prompt and a tone, their audio is kept in memory and
+ * transcribed by the same Deepgram stream, and when the call ends the
+ * recording is uploaded to the private "voicemails" storage bucket as a
+ * mulaw WAV.
+ */
+
+const { getSupabase } = require("./supabase");
+const { linearToMulaw } = require("./hold-audio");
+const { SAMPLE_RATE, mulawToWav } = require("./wav");
+const VOICEMAIL_BUCKET = "voicemails";
+
+/** Longest message kept; the caller is thanked and the call ends after this */
+const VOICEMAIL_MAX_SECONDS = 120;
+
+/** Twilio sends 8-bit mulaw at 8kHz, so one byte per sample */
+const VOICEMAIL_MAX_BYTES = VOICEMAIL_MAX_SECONDS * SAMPLE_RATE;
+
+/** @typedef {"caller-request"|"llm-error"|"over-limit"} VoicemailReason */
+
+/** What the caller hears before the tone, by language and reason */
+const VOICEMAIL_PROMPTS = {
+  en: {
+    "caller-request": () => "Of course. Please leave your message after the tone, and just hang up when you're done.",
+    "llm-error": () => "I'm sorry, I'm having trouble right now. Please leave your name, number and a short message after the tone, and we'll get back to you.",
+    "over-limit": (name) => `Thanks for calling ${name}. We can't take your call right now, so please leave your name, number and a short message after the tone.`,
+    saved: () => "Thank you, your message has been saved. Goodbye.",
+  },
+  es: {
+    "caller-request": () => "Por supuesto. Deje su mensaje después del tono y cuelgue cuando termine.",
+    "llm-error": () => "Lo siento, estoy teniendo problemas en este momento. Deje su nombre, número y un breve mensaje después del tono, y le devolveremos la llamada.",
+    "over-limit": (name) => `Gracias por llamar a ${name}. No podemos atender su llamada en este momento; deje su nombre, número y un breve mensaje después del tono.`,
+    saved: () => "Gracias, su mensaje ha sido guardado. Adiós.",
+  },
+  zh: {
+    "caller-request": () => "好的。请在提示音后留言，说完后直接挂断即可。",
+    "llm-error": () => "抱歉，我现在遇到了一些问题。请在提示音后留下您的姓名、电话和简短留言，我们会尽快回复您。",
+    "over-limit": (name) => `感谢您致电${name}。我们现在无法接听您的电话，请在提示音后留下您的姓名、电话和简短留言。`,
+    saved: () => "谢谢，您的留言已保存。再见。",
+  },
+  vi: {
+    "caller-request": () => "Vâng ạ. Xin vui lòng để lại lời nhắn sau tiếng bíp, và gác máy khi bạn nói xong.",
+    "llm-error": () => "Xin lỗi, hiện tôi đang gặp sự cố. Xin vui lòng để lại tên, số điện thoại và lời nhắn ngắn sau tiếng bíp, chúng tôi sẽ gọi lại cho bạn.",
+    "over-limit": (name) => `Cảm ơn bạn đã gọi đến ${name}. Hiện chúng tôi không thể nghe máy, xin vui lòng để lại tên, số điện thoại và lời nhắn ngắn sau tiếng bíp.`,
+    saved: () => "Cảm ơn bạn, lời nhắn của bạn đã được lưu. Tạm biệt.",
+  },
+};
+
+function getVoicemailPrompt(reason, organizationName, language = "en") {
+  const prompts = VOICEMAIL_PROMPTS[language] || VOICEMAIL_PROMPTS.en;
+  return (prompts[reason] || prompts["over-limit"])(organizationName);
+}
+
+/** Played when the message reaches VOICEMAIL_MAX_SECONDS, just before hanging up */
+function getVoicemailSavedMessage(language = "en") {
+  return (VOICEMAIL_PROMPTS[language] || VOICEMAIL_PROMPTS.en).saved();
+}
+
+/**
+ * A 440Hz beep (mulaw 8kHz) played before recording starts.
+ */
+function generateTone(durationMs = 500) {
+  const count = Math.floor((SAMPLE_RATE * durationMs) / 1000);
+  const buf = Buffer.alloc(count);
+  for (let i = 0; i < count; i++) {
+    const sample = Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 8000);
+    buf[i] = linearToMulaw(sample);
+  }
+  return buf;
+}
+
+/**
+ * Upload a recorded message as <orgId>/<callId>.wav.
+ * @returns {Promise<string|null>} The storage path, or null on failure
+ */
+async function uploadVoicemail(organizationId, callId, audio) {
+  const path = `${organizationId}/${callId}.wav`;
+  const { error } = await getSupabase()
+    .storage
+    .from(VOICEMAIL_BUCKET)
+    .upload(path, mulawToWav(audio), { contentType: "audio/wav", upsert: true });
+
+  if (error) {
+    console.error("[Voicemail] Failed to upload recording:", { organizationId, callId, error: error.message });
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Whether the org has used up this period's calls. Fails open: an org
+ * without a subscription, or a failed lookup, gets the assistant.
+ */
+async function isOverCallLimit(organizationId) {
+  const { data, error } = await getSupabase()
+    .from("subscriptions")
+    .select("calls_used, calls_limit")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Voicemail] Failed to check call limit:", { organizationId, error: error.message });
+    return false;
+  }
+  if (!data || data.calls_limit === null || data.calls_limit === -1) return false;
+  return (data.calls_used || 0) >= data.calls_limit;
+}
+
+module.exports = {
+  VOICEMAIL_MAX_SECONDS,
+  VOICEMAIL_MAX_BYTES,
+  getVoicemailPrompt,
+  getVoicemailSavedMessage,
+  generateTone,
+  uploadVoicemail,
+  isOverCallLimit,
+};
@@ -0,0 +1,70 @@
+/**
+ * WAV containers for Twilio's 8kHz mulaw audio (format 7, G.711 mu-law),
+ * which browsers and email clients can play without conversion, and
+ * conversion of other TTS output to that format.
+ */
+
+const { linearToMulaw } = require("./hold-audio");
+
+const SAMPLE_RATE = 8000;
+
+/** mulaw byte for a zero sample */
+const MULAW_SILENCE = 0xff;
+
+/**
+ * Wrap raw mulaw audio (interleaved if stereo) in a WAV header.
+ */
+function mulawToWav(audio, channels = 1) {
+  const header = Buffer.alloc(58);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(50 + audio.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(18, 16); // fmt chunk size
+  header.writeUInt16LE(7, 20); // mu-law
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * channels, 28); // byte rate
+  header.writeUInt16LE(channels, 32); // block align
+  header.writeUInt16LE(8, 34); // bits per sample
+  header.writeUInt16LE(0, 36); // no extra format bytes
+  header.write("fact", 38);
+  header.writeUInt32LE(4, 42);
+  header.writeUInt32LE(Math.floor(audio.length / channels), 46); // samples per channel
+  header.write("data", 50);
+  header.writeUInt32LE(audio.length, 54);
+  return Buffer.concat([header, audio]);
+}
+
+/**
+ * Interleave two mono mulaw tracks into stereo frames (left, right),
+ * padding the shorter one with silence.
+ */
+function interleaveStereo(left, right) {
+  const length = Math.max(left.length, right.length);
+  const stereo = Buffer.alloc(length * 2, MULAW_SILENCE);
+  for (let i = 0; i < length; i++) {
+    if (i < left.length) stereo[i * 2] = left[i];
+    if (i < right.length) stereo[i * 2 + 1] = right[i];
+  }
+  return stereo;
+}
+
+/**
+ * Convert 16-bit little-endian mono PCM at a multiple of 8kHz (e.g. OpenAI's
+ * 24kHz output) to 8kHz mulaw, averaging each group of samples so the
+ * downsampling doesn't alias.
+ */
+function pcm16ToMulaw(pcm, sourceRate) {
+  const ratio = Math.round(sourceRate / SAMPLE_RATE);
+  const sourceSamples = Math.floor(pcm.length / 2);
+  const out = Buffer.alloc(Math.floor(sourceSamples / ratio));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < ratio; j++) sum += pcm.readInt16LE((i * ratio + j) * 2);
+    out[i] = linearToMulaw(Math.round(sum / ratio));
+  }
+  return out;
+}
+
+module.exports = { SAMPLE_RATE, MULAW_SILENCE, mulawToWav, interleaveStereo, pcm16ToMulaw };
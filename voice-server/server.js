@@ -5,18 +5,25 @@ const express = require("express");
 const http = require("http");
 const { WebSocketServer, WebSocket } = require("ws");
 const { CallSession } = require("./call-session");
-const { openDeepgramStream } = require("./services/deepgram-stt");
+const { openDeepgramStream, detectLanguage } = require("./services/deepgram-stt");
 const { getChatResponse, streamChatResponse } = require("./services/openai-llm");
 const { synthesizeSpeech, chunkAudioForTwilio } = require("./services/deepgram-tts");
-const { loadCallContext, loadTestCallContext } = require("./lib/call-context");
-const { buildSystemPrompt, getGreeting } = require("./lib/prompt-builder");
-const { createCallRecord, completeCallRecord, notifyCallCompleted } = require("./lib/call-logger");
-const { calendarToolDefinitions, transferToolDefinition, executeToolCall } = require("./services/tool-executor");
+const { synthesizeSpeechOpenAI } = require("./services/openai-tts");
+const { loadCallContext, loadTestCallContext, loadReminderAppointment } = require("./lib/call-context");
+const { buildSystemPrompt, getGreeting, buildReminderCallSection, buildReturningCallerSection, buildVoicemailSection, getReminderGreeting } = require("./lib/prompt-builder");
+const { createCallRecord, completeCallRecord, notifyCallCompleted, notifyCallStopped } = require("./lib/call-logger");
+const { loadCallerRule } = require("./lib/caller-rules");
+const { screenCall } = require("./lib/call-screening");
+const { calendarToolDefinitions, transferToolDefinition, voicemailToolDefinition, getSwitchLanguageToolDefinition, executeToolCall } = require("./services/tool-executor");
 const { analyzeCallTranscript } = require("./services/post-call-analysis");
 const { getDeepgramVoice } = require("./lib/voice-mapping");
 const { generateHoldAudio, getHoldPreset } = require("./lib/hold-audio");
 const { detectExpectedInput } = require("./lib/input-type-detector");
 const { getSupabase } = require("./lib/supabase");
+const { getVoicemailPrompt, getVoicemailSavedMessage, generateTone, uploadVoicemail, isOverCallLimit } = require("./lib/voicemail");
+const { CallRecorder, isRecordingEnabled, uploadRecording } = require("./lib/recording");
+const { getAssistantLanguages, getSttLanguage, getTtsVoice, matchLanguage } = require("./lib/languages");
+const { loadExperimentVariant, applyExperimentVariant } = require("./lib/experiments");
 
 // Validate required env vars before deriving any constants
 const REQUIRED_ENV = [
@@ -46,6 +53,8 @@ const INTERNAL_API_SECRET = process.env.INTERNAL_API_SECRET;
 
 const TEST_CALL_SECRET = process.env.TEST_CALL_SECRET;
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 if (!INTERNAL_API_URL || !INTERNAL_API_SECRET) {
   console.warn("[Startup] INTERNAL_API_URL or INTERNAL_API_SECRET not set — post-call notifications will be skipped");
 }
@@ -103,22 +112,24 @@ function validateTwilioSignature(req) {
 }
 
 // Pending tokens: issued at /twiml, consumed at WebSocket start. Expire after 30s.
-// Stores { issuedAt, calledNumber, callerPhone } so the WebSocket handler uses
-// server-side values instead of trusting client-provided parameters.
+// Stores { issuedAt, calledNumber, callerPhone, reminderAppointmentId,
+// callerRule, screening } so the WebSocket handler uses server-side values
+// instead of trusting client-provided parameters.
 const pendingTokens = new Map();
 const TOKEN_TTL_MS = 30_000;
 
-function issueStreamToken(calledNumber, callerPhone) {
+function issueStreamToken(calledNumber, callerPhone, { reminderAppointmentId = null, callerRule = null, screening = null } = {}) {
   const ts = Date.now().toString();
   const hmac = crypto.createHmac("sha256", WS_SECRET).update(ts).digest("hex");
   const token = `${ts}.${hmac}`;
-  pendingTokens.set(token, { issuedAt: Date.now(), calledNumber, callerPhone });
+  pendingTokens.set(token, { issuedAt: Date.now(), calledNumber, callerPhone, reminderAppointmentId, callerRule, screening });
   return token;
 }
 
 /**
  * Verify and consume a stream token. Returns the stored call metadata
- * (calledNumber, callerPhone) or null if invalid/expired.
+ * (calledNumber, callerPhone, reminderAppointmentId, callerRule, screening)
+ * or null if invalid/expired.
  */
 function consumeStreamToken(token) {
   try {
@@ -133,21 +144,51 @@ function consumeStreamToken(token) {
     const expectedBuf = Buffer.from(expected);
     if (hmacBuf.length !== expectedBuf.length) return null;
     if (!crypto.timingSafeEqual(hmacBuf, expectedBuf)) return null;
-    return { calledNumber: entry.calledNumber, callerPhone: entry.callerPhone };
+    return {
+      calledNumber: entry.calledNumber,
+      callerPhone: entry.callerPhone,
+      reminderAppointmentId: entry.reminderAppointmentId,
+      callerRule: entry.callerRule,
+      screening: entry.screening,
+    };
   } catch (err) {
     console.error("[Auth] Token verification threw unexpectedly — if this repeats, all calls will be rejected:", err);
     return null;
   }
 }
 
-// Clean up expired tokens every 60s
+// Calls waiting for the caller to press 1, keyed by CallSid: the screening
+// result and call lookup from /twiml, used when Twilio posts the keypress
+const pendingChallenges = new Map();
+const CHALLENGE_TTL_MS = 60_000;
+
+// Clean up expired tokens and challenges every 60s
 setInterval(() => {
   const now = Date.now();
   for (const [token, entry] of pendingTokens) {
     if (now - entry.issuedAt > TOKEN_TTL_MS) pendingTokens.delete(token);
   }
+  for (const [callSid, entry] of pendingChallenges) {
+    if (now - entry.issuedAt > CHALLENGE_TTL_MS) pendingChallenges.delete(callSid);
+  }
 }, 60_000).unref();
 
+function streamTwiml(token) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Connect>
+    <Stream url="${escapeXml(WS_URL)}">
+      <Parameter name="auth_token" value="${escapeXml(token)}" />
+    </Stream>
+  </Connect>
+</Response>`;
+}
+
+const REJECT_TWIML = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Reject reason="rejected" />
+</Response>`;
+
 const app = express();
 app.use(express.urlencoded({ extended: false }));
 app.use(express.json());
@@ -155,25 +196,179 @@ app.use(express.json());
 // TwiML endpoint — tells Twilio to connect a bidirectional media stream.
 // Validates the Twilio request signature, then stores call metadata server-side
 // with the token (never sent back in the XML response to prevent spoofing).
-app.post("/twiml", (req, res) => {
+// Inbound callers matching one of the org's caller rules are rejected or
+// dialled straight through to a person instead, and the rest are screened for
+// spam: likely robocalls are rejected or must press 1 before the assistant
+// answers. Calls stopped here never reach call-completed, so they are never
+// billed and their spam.blocked or call.transferred webhook is sent through
+// call-stopped instead.
+app.post("/twiml", async (req, res) => {
   if (!validateTwilioSignature(req)) {
     console.warn("[TwiML] Rejected request — invalid Twilio signature");
     return res.status(403).send("Forbidden");
   }
 
-  const called = req.body.Called || "";
-  const from = req.body.From || "";
+  // Reminder calls are placed by the app from the org's number, so the org
+  // is on the From side and the person being called is on the To side
+  const outbound = req.body.Direction === "outbound-api";
+  const called = (outbound ? req.body.From : req.body.Called) || "";
+  const from = (outbound ? req.body.To : req.body.From) || "";
+  const reminder = typeof req.query.reminder === "string" && UUID_PATTERN.test(req.query.reminder)
+    ? req.query.reminder
+    : null;
+
+  let match = null;
+  if (!outbound) {
+    try {
+      match = await loadCallerRule(called, from);
+    } catch (err) {
+      console.error("[TwiML] Caller rule lookup failed — answering as usual:", err);
+    }
+  }
+
+  if (match && match.rule && match.rule.action !== "allow") {
+    const { rule } = match;
+    const callRecordId = await createCallRecord({
+      orgId: match.organizationId,
+      assistantId: match.assistantId,
+      phoneNumberId: match.phoneNumberId,
+      callerPhone: from,
+      callSid: req.body.CallSid,
+      callerRule: rule,
+    });
+
+    notifyCallStopped(INTERNAL_API_URL, INTERNAL_API_SECRET, callRecordId);
+
+    if (rule.action === "block") {
+      console.log(`[TwiML] Blocked call from=${from} to=${called} (rule=${rule.id})`);
+      return res.type("text/xml").send(REJECT_TWIML);
+    }
+
+    console.log(`[TwiML] Transferring call from=${from} to=${called} straight to ${rule.transfer_to_phone} (rule=${rule.id})`);
+    const statusUrl = `${PUBLIC_URL}/twiml/transfer-status${callRecordId ? `?call=${callRecordId}` : ""}`;
+    return res.type("text/xml").send(`<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Dial answerOnBridge="true" action="${escapeXml(statusUrl)}">
+    <Number>${escapeXml(rule.transfer_to_phone)}</Number>
+  </Dial>
+</Response>`);
+  }
+
+  // Allow-listed callers skip screening
+  const screening = match && !match.rule
+    ? await screenCall(INTERNAL_API_URL, INTERNAL_API_SECRET, { organizationId: match.organizationId, callerPhone: from })
+    : null;
+
+  if (screening && screening.action === "reject") {
+    console.log(`[TwiML] Rejected likely spam from=${from} to=${called} (score=${screening.spamScore})`);
+    const callRecordId = await createCallRecord({
+      orgId: match.organizationId,
+      assistantId: match.assistantId,
+      phoneNumberId: match.phoneNumberId,
+      callerPhone: from,
+      callSid: req.body.CallSid,
+      screening: { ...screening, outcome: "rejected" },
+    });
+    notifyCallStopped(INTERNAL_API_URL, INTERNAL_API_SECRET, callRecordId);
+    return res.type("text/xml").send(REJECT_TWIML);
+  }
+
+  if (screening && screening.action === "challenge") {
+    console.log(`[TwiML] Challenging possible spam from=${from} to=${called} (score=${screening.spamScore})`);
+    pendingChallenges.set(req.body.CallSid, { issuedAt: Date.now(), called, from, match, screening });
+    return res.type("text/xml").send(`<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather numDigits="1" timeout="6" actionOnEmptyResult="true" action="${escapeXml(`${PUBLIC_URL}/twiml/challenge`)}">
+    <Say>Thanks for calling. To be connected, please press 1.</Say>
+  </Gather>
+</Response>`);
+  }
+
   // Store call metadata server-side with the token — NOT in the TwiML response
-  const token = issueStreamToken(called, from);
-  console.log(`[TwiML] Incoming call from=${from} to=${called}, streaming to ${WS_URL}`);
+  const token = issueStreamToken(called, from, {
+    reminderAppointmentId: outbound ? reminder : null,
+    callerRule: match ? match.rule : null,
+    screening: screening ? { ...screening, outcome: "answered" } : null,
+  });
+  console.log(`[TwiML] ${outbound ? "Outbound" : "Incoming"} call from=${from} to=${called}, streaming to ${WS_URL}`);
 
+  res.type("text/xml").send(streamTwiml(token));
+});
+
+// Gather action for screened calls: pressing 1 connects the assistant,
+// anything else (or nothing) ends the call and sends spam.blocked
+app.post("/twiml/challenge", async (req, res) => {
+  if (!validateTwilioSignature(req)) {
+    console.warn("[TwiML] Rejected challenge response — invalid Twilio signature");
+    return res.status(403).send("Forbidden");
+  }
+
+  const pending = pendingChallenges.get(req.body.CallSid);
+  pendingChallenges.delete(req.body.CallSid);
+  if (!pending) {
+    console.warn(`[TwiML] Challenge response for unknown or expired call (callSid=${req.body.CallSid})`);
+    return res.type("text/xml").send(`<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Hangup />
+</Response>`);
+  }
+
+  const { called, from, match, screening } = pending;
+
+  if (req.body.Digits === "1") {
+    console.log(`[TwiML] Challenge passed from=${from} to=${called}, streaming to ${WS_URL}`);
+    const token = issueStreamToken(called, from, { screening: { ...screening, outcome: "challenge_passed" } });
+    return res.type("text/xml").send(streamTwiml(token));
+  }
+
+  console.log(`[TwiML] Challenge failed from=${from} to=${called}`);
+  const callRecordId = await createCallRecord({
+    orgId: match.organizationId,
+    assistantId: match.assistantId,
+    phoneNumberId: match.phoneNumberId,
+    callerPhone: from,
+    callSid: req.body.CallSid,
+    screening: { ...screening, outcome: "challenge_failed" },
+  });
+  notifyCallStopped(INTERNAL_API_URL, INTERNAL_API_SECRET, callRecordId);
   res.type("text/xml").send(`<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Connect>
-    <Stream url="${escapeXml(WS_URL)}">
-      <Parameter name="auth_token" value="${escapeXml(token)}" />
-    </Stream>
-  </Connect>
+  <Hangup />
+</Response>`);
+});
+
+// Dial action for calls a caller rule put straight through: records how the
+// transfer went, and apologises to the caller if nobody picked up
+app.post("/twiml/transfer-status", async (req, res) => {
+  if (!validateTwilioSignature(req)) {
+    console.warn("[TwiML] Rejected transfer status — invalid Twilio signature");
+    return res.status(403).send("Forbidden");
+  }
+
+  const dialStatus = req.body.DialCallStatus;
+  const connected = dialStatus === "completed" || dialStatus === "answered";
+  const callRecordId = typeof req.query.call === "string" && UUID_PATTERN.test(req.query.call)
+    ? req.query.call
+    : null;
+
+  if (callRecordId) {
+    try {
+      await completeCallRecord(callRecordId, {
+        status: connected ? "completed" : ["busy", "failed"].includes(dialStatus) ? dialStatus : "no-answer",
+        durationSeconds: parseInt(req.body.DialCallDuration, 10) || 0,
+      });
+    } catch (err) {
+      console.error("[TwiML] Failed to record transfer outcome:", err);
+    }
+  }
+
+  res.type("text/xml").send(connected
+    ? `<?xml version="1.0" encoding="UTF-8"?>
+<Response />`
+    : `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say>Sorry, no one is available to take your call right now. Please try again later.</Say>
+  <Hangup />
 </Response>`);
 });
 
@@ -206,16 +401,32 @@ wss.on("connection", (twilioWs) => {
     session = null;
     sessions.delete(s.streamSid);
 
-    const transcript = s.getTranscript();
+    const voicemailTranscript = s.getVoicemailTranscript();
+    const transcript = [s.getTranscript(), voicemailTranscript && `Voicemail: ${voicemailTranscript}`]
+      .filter(Boolean)
+      .join("\n");
     const durationSeconds = s.getDurationSeconds();
     const callStatus = s.callFailed ? "failed" : "completed";
     const endedReason = s.endedReason || "caller-hangup";
 
+    // Save the recorded message and the call recording before the call record points at them
+    let voicemailPath = null;
+    if (s.voicemail && s.voicemail.bytes > 0 && s.callRecordId) {
+      voicemailPath = await uploadVoicemail(s.organizationId, s.callRecordId, s.getVoicemailAudio());
+    }
+    let recordingPath = null;
+    if (s.recorder && s.recorder.hasAudio && s.callRecordId) {
+      recordingPath = await uploadRecording(s.organizationId, s.callRecordId, s.recorder.toWav());
+    }
+
     // Run post-call analysis (best-effort, awaited because results feed into the call record)
     let analysis = null;
     if (transcript && durationSeconds > 5) {
       try {
-        analysis = await analyzeCallTranscript(transcript);
+        analysis = await analyzeCallTranscript(transcript, {
+          summaryLanguage: s.summaryLanguage,
+          promptConfig: s.promptConfig,
+        });
         if (analysis) {
           console.log(`[PostCall] Analysis complete: caller=${analysis.callerName || "unknown"}, reason=${analysis.callerPhoneReason || "unknown"}, success=${analysis.successEvaluation}`);
         }
@@ -235,6 +446,10 @@ wss.on("connection", (twilioWs) => {
           callerName: analysis?.callerName || null,
           collectedData: analysis?.collectedData || null,
           successEvaluation: analysis?.successEvaluation || null,
+          outcome: s.voicemail ? "voicemail" : null,
+          voicemailPath,
+          recordingPath,
+          language: s.language,
         });
       } catch (err) {
         console.error("[Cleanup] Failed to complete call record:", err);
@@ -263,6 +478,12 @@ wss.on("connection", (twilioWs) => {
         callerName: analysis?.callerName || undefined,
         collectedData: analysis?.collectedData || undefined,
         successEvaluation: analysis?.successEvaluation || undefined,
+        transfer: s.transfer || undefined,
+        recordingPath: recordingPath || undefined,
+        language: s.language,
+        voicemail: s.voicemail
+          ? { reason: s.voicemail.reason, recorded: Boolean(voicemailPath), transcript: voicemailTranscript || null }
+          : undefined,
       }).catch((err) =>
         console.error("[Cleanup] Failed to notify call completed:", err)
       );
@@ -298,11 +519,13 @@ wss.on("connection", (twilioWs) => {
             return;
           }
 
-          const { calledNumber, callerPhone } = tokenData;
+          const { calledNumber, callerPhone, reminderAppointmentId, callerRule, screening } = tokenData;
 
           session = new CallSession(callSid);
           session.streamSid = streamSid;
           session.callerPhone = callerPhone;
+          // Start the clock now so both legs line up with Twilio's media timestamps
+          session.recorder = new CallRecorder();
           sessions.set(streamSid, session);
           console.log(`[Twilio] Stream started — callSid=${callSid} streamSid=${streamSid} called=${calledNumber} from=${callerPhone}`);
 
@@ -310,7 +533,7 @@ wss.on("connection", (twilioWs) => {
           let context = null;
           if (calledNumber) {
             try {
-              context = await loadCallContext(calledNumber);
+              context = await loadCallContext(calledNumber, callerPhone);
             } catch (err) {
               console.error("[Context] Failed to load call context:", err);
             }
@@ -327,6 +550,13 @@ wss.on("connection", (twilioWs) => {
             return;
           }
 
+          // A running experiment answers inbound calls with one of its prompt variants
+          const experimentVariant = reminderAppointmentId ? null : await loadExperimentVariant(context.assistantId);
+          if (experimentVariant) {
+            context.assistant = applyExperimentVariant(context.assistant, experimentVariant);
+            console.log(`[Experiments] Answering with variant ${experimentVariant.label} (callSid=${callSid})`);
+          }
+
           // Store context on session
           session.organizationId = context.organizationId;
           session.assistantId = context.assistantId;
@@ -335,9 +565,22 @@ wss.on("connection", (twilioWs) => {
           session.transferRules = context.transferRules || [];
           session.deepgramVoice = getDeepgramVoice(context.assistant.voiceId);
           session.holdPreset = getHoldPreset(context.organization.industry);
+          session.organizationName = context.organization.name;
+          session.voicemailEnabled = !reminderAppointmentId;
+          if (!isRecordingEnabled(context.assistant.settings)) {
+            session.recorder = null;
+          }
+          session.languages = getAssistantLanguages(context.assistant.settings);
+          session.language = session.languages[0];
+          session.summaryLanguage = context.organization.ownerLanguage;
+          session.promptConfig = context.assistant.promptConfig || null;
+          session.startLanguageDetection();
+
+          // Over this period's call limit: take a message instead of answering
+          const overCallLimit = session.voicemailEnabled && await isOverCallLimit(context.organizationId);
 
           // Build system prompt (guided or legacy)
-          const systemPrompt = buildSystemPrompt(
+          let systemPrompt = buildSystemPrompt(
             context.assistant,
             context.organization,
             context.knowledgeBase,
@@ -346,7 +589,23 @@ wss.on("connection", (twilioWs) => {
               transferRules: session.transferRules,
             }
           );
-          session.setSystemPrompt(systemPrompt);
+
+          // Returning caller: what we know from earlier calls and visits
+          if (context.returningCaller) {
+            systemPrompt += `\n\n${buildReturningCallerSection(context.returningCaller, context.organization.timezone)}`;
+          }
+
+          // Outbound reminder call: lead with the appointment
+          const reminderAppointment = reminderAppointmentId
+            ? await loadReminderAppointment(context.organizationId, reminderAppointmentId)
+            : null;
+          if (reminderAppointment) {
+            systemPrompt += `\n\n${buildReminderCallSection(reminderAppointment, context.organization.timezone)}`;
+          }
+          if (session.voicemailEnabled) {
+            systemPrompt += `\n\n${buildVoicemailSection()}`;
+          }
+          session.setBasePrompt(systemPrompt);
 
           // Create call record in database
           try {
@@ -356,6 +615,9 @@ wss.on("connection", (twilioWs) => {
               phoneNumberId: context.phoneNumberId,
               callerPhone,
               callSid,
+              callerRule,
+              screening,
+              experimentVariant,
             });
             session.callRecordId = callRecordId;
           } catch (err) {
@@ -363,12 +625,17 @@ wss.on("connection", (twilioWs) => {
             // Non-fatal — continue handling the call
           }
 
-          // Open Deepgram STT WebSocket
-          session.deepgramWs = openDeepgramStream(DEEPGRAM_API_KEY, {
+          // Open Deepgram STT WebSocket (reopened with the same callbacks on a language switch)
+          session.sttCallbacks = {
             onTranscript: ({ transcript, isFinal }) => {
               if (!isFinal) return;
               console.log(`[STT] Final: "${transcript}"`);
-              session.bufferTranscript(transcript, (combined) => {
+              // Voicemail: keep what the caller says for the message, never reply
+              if (session.voicemail) {
+                if (session.voicemail.recording) session.voicemail.transcript.push(transcript);
+                return;
+              }
+              bufferFinalTranscript(session, transcript, (combined) => {
                 console.log(`[STT] Buffered: "${combined}"`);
                 session.queueOrProcess(combined, (text) => handleUserSpeech(session, twilioWs, text));
               });
@@ -396,10 +663,21 @@ wss.on("connection", (twilioWs) => {
                 console.error(`[STT] Connection lost during active call (callSid=${session.callSid})`);
               }
             },
+          };
+          session.deepgramWs = openDeepgramStream(DEEPGRAM_API_KEY, session.sttCallbacks, {
+            language: getSttLanguage(session.language),
           });
 
+          if (overCallLimit) {
+            console.log(`[Voicemail] Organization ${context.organizationId} is over its call limit — taking a message`);
+            await enterVoicemail(session, twilioWs, "over-limit");
+            break;
+          }
+
           // Send greeting
-          const greeting = getGreeting(context.assistant, context.organization.name);
+          const greeting = reminderAppointment
+            ? getReminderGreeting(reminderAppointment, context.organization.name, context.organization.timezone)
+            : getGreeting(context.assistant, context.organization.name, session.language);
           try {
             await sendTTS(session, twilioWs, greeting);
           } catch (err) {
@@ -414,9 +692,16 @@ wss.on("connection", (twilioWs) => {
         }
 
         case "media": {
-          if (!session || !session.deepgramWs) break;
-          // Forward raw mulaw audio to Deepgram (no conversion needed)
+          if (!session) break;
           const audio = Buffer.from(msg.media.payload, "base64");
+          if (session.recorder) session.recorder.addInbound(audio, msg.media.timestamp);
+          if (session.languageDetection) session.appendDetectionAudio(audio);
+          if (session.voicemail && session.appendVoicemailAudio(audio) && !session.voicemail.full) {
+            session.voicemail.full = true;
+            endVoicemail(session, twilioWs);
+          }
+          if (!session.deepgramWs) break;
+          // Forward raw mulaw audio to Deepgram (no conversion needed)
           if (session.deepgramWs.readyState === WebSocket.OPEN) {
             session.deepgramWs.send(audio);
           } else if (!session._sttDropWarned) {
@@ -431,6 +716,11 @@ wss.on("connection", (twilioWs) => {
           if (session && msg.mark && msg.mark.name === "tts-done") {
             session.isSpeaking = false;
           }
+          // The beep has played — start recording the message
+          if (session && session.voicemail && msg.mark && msg.mark.name === "voicemail-tone") {
+            session.isSpeaking = false;
+            session.voicemail.recording = true;
+          }
           break;
         }
 
@@ -470,7 +760,7 @@ wss.on("connection", (twilioWs) => {
  * synthesizing and sending TTS for each sentence as it arrives.
  */
 async function handleUserSpeech(session, twilioWs, transcript) {
-  if (!session) return;
+  if (!session || session.voicemail) return;
   session.isProcessing = true;
 
   // Barge-in: if assistant is speaking, clear Twilio's audio buffer
@@ -490,6 +780,8 @@ async function handleUserSpeech(session, twilioWs, transcript) {
     const tools = [];
     if (session.calendarEnabled) tools.push(...calendarToolDefinitions);
     if (session.transferRules && session.transferRules.length > 0) tools.push(transferToolDefinition);
+    if (session.voicemailEnabled) tools.push(voicemailToolDefinition);
+    if (session.languages.length > 1) tools.push(getSwitchLanguageToolDefinition(session.languages));
     if (tools.length > 0) llmOptions.tools = tools;
 
     const MAX_TOOL_ITERATIONS = 3;
@@ -565,6 +857,11 @@ async function handleUserSpeech(session, twilioWs, transcript) {
             await sendTTS(session, twilioWs, resultMessage);
             session.addMessage("assistant", resultMessage);
             session.endedReason = "transferred";
+            session.transfer = {
+              transferTo: toolResult.transferTo,
+              transferToName: toolResult.transferToName || null,
+              reason: fnArgs.reason || null,
+            };
             if (session.deepgramWs) {
               session.deepgramWs.close();
               session.deepgramWs = null;
@@ -572,6 +869,18 @@ async function handleUserSpeech(session, twilioWs, transcript) {
             return;
           }
 
+          // Caller wants to leave a message — hand over to voicemail
+          if (toolResult.action === "voicemail") {
+            hold.stop();
+            await enterVoicemail(session, twilioWs, "caller-request");
+            return;
+          }
+
+          // Caller speaks another of the assistant's languages — the reply comes in it
+          if (toolResult.action === "switch_language") {
+            switchLanguage(session, toolResult.language);
+          }
+
           session.messages.push({
             role: "tool",
             tool_call_id: toolCall.id,
@@ -601,14 +910,19 @@ async function handleUserSpeech(session, twilioWs, transcript) {
     }
   } catch (err) {
     hold.stop();
-    const errorSource = err.message?.includes("OpenAI") ? "llm"
-      : err.message?.includes("Deepgram TTS") ? "tts"
+    const errorSource = err.message?.includes("TTS") ? "tts"
+      : err.message?.includes("OpenAI") ? "llm"
       : "unknown";
     console.error(`[Pipeline] ${errorSource} error (callSid=${session.callSid}):`, err);
     // Remove the user message that never got a reply
     if (session.messages.length > 0 && session.messages[session.messages.length - 1].role === "user") {
       session.messages.pop();
     }
+    // Without the LLM the assistant can't continue, so take a message instead
+    if (errorSource === "llm" && session.voicemailEnabled) {
+      await enterVoicemail(session, twilioWs, "llm-error");
+      return;
+    }
     try {
       await sendTTS(session, twilioWs, "I'm sorry, I'm having a little trouble right now. Could you repeat that?");
     } catch (ttsErr) {
@@ -620,18 +934,106 @@ async function handleUserSpeech(session, twilioWs, transcript) {
   }
 }
 
+/**
+ * Synthesize speech with the voice for the call's current language:
+ * Deepgram Aura where it has one, OpenAI TTS otherwise.
+ *
+ * @returns {Promise<Buffer>} Raw mulaw 8kHz audio
+ */
+function synthesize(session, text) {
+  const tts = getTtsVoice(session?.language, session?.deepgramVoice);
+  return tts.provider === "openai"
+    ? synthesizeSpeechOpenAI(OPENAI_API_KEY, text, { voice: tts.voice })
+    : synthesizeSpeech(DEEPGRAM_API_KEY, text, { voice: tts.voice });
+}
+
+/**
+ * Move the call to another of the assistant's languages: the prompt's
+ * language section, the STT stream and the TTS voice all follow.
+ *
+ * @returns {boolean} true if the language changed
+ */
+function switchLanguage(session, language) {
+  if (!session.setLanguage(language)) return false;
+  console.log(`[Language] Switched to ${language} (callSid=${session.callSid})`);
+
+  if (session.deepgramWs && session.sttCallbacks) {
+    const previous = session.deepgramWs;
+    session.deepgramWs = openDeepgramStream(DEEPGRAM_API_KEY, session.sttCallbacks, {
+      language: getSttLanguage(language),
+    });
+    session._sttDropWarned = false;
+    previous.close();
+  }
+  return true;
+}
+
+/** Below this Deepgram confidence the call stays in its current language */
+const LANGUAGE_DETECTION_MIN_CONFIDENCE = 0.5;
+
+/**
+ * Which of the assistant's languages the caller is speaking, judged from the
+ * audio buffered so far. Null if detection fails or isn't sure.
+ */
+async function detectCallerLanguage(session) {
+  try {
+    const result = await detectLanguage(
+      DEEPGRAM_API_KEY,
+      session.getDetectionAudio(),
+      session.languages.map(getSttLanguage)
+    );
+    console.log(`[Language] Detected ${result?.language || "nothing"} (confidence=${result?.confidence ?? "n/a"}, callSid=${session.callSid})`);
+    const language = matchLanguage(result?.language, session.languages);
+    if (!language || (result.confidence !== null && result.confidence < LANGUAGE_DETECTION_MIN_CONFIDENCE)) {
+      return null;
+    }
+    return { language, transcript: result.transcript };
+  } catch (err) {
+    console.error("[Language] Detection failed — staying in the primary language:", err.message);
+    return null;
+  }
+}
+
+/**
+ * Buffer a final transcript for the LLM. On the caller's first utterance the
+ * language is checked first, and transcripts are held until that finishes.
+ */
+function bufferFinalTranscript(session, transcript, dispatch) {
+  const detection = session.languageDetection;
+  if (!detection) {
+    session.bufferTranscript(transcript, dispatch);
+    return;
+  }
+
+  detection.held.push(transcript);
+  if (detection.pending) return;
+  detection.pending = true;
+
+  detectCallerLanguage(session).then((detected) => {
+    // The call ended or went to voicemail while we were waiting
+    if (session.languageDetection !== detection) return;
+    session.languageDetection = null;
+
+    let text = detection.held.join(" ");
+    // What was held came from the wrong language's model; use the detection transcript
+    if (detected && switchLanguage(session, detected.language) && detected.transcript) {
+      text = detected.transcript;
+    }
+    session.bufferTranscript(text, dispatch);
+  });
+}
+
 /**
  * Synthesize text and stream mulaw chunks back to Twilio.
  */
 async function sendTTS(session, twilioWs, text) {
   const t0 = Date.now();
-  const audioBuffer = await synthesizeSpeech(DEEPGRAM_API_KEY, text, {
-    voice: session?.deepgramVoice,
-  });
+  const audioBuffer = await synthesize(session, text);
   console.log(`[TTS] (${Date.now() - t0}ms) ${audioBuffer.length} bytes`);
 
   const chunks = chunkAudioForTwilio(audioBuffer);
   session.isSpeaking = true;
+  if (session.recorder && twilioWs.readyState === WebSocket.OPEN) session.recorder.addOutbound(audioBuffer);
 
   for (const chunk of chunks) {
     if (twilioWs.readyState !== WebSocket.OPEN) break;
@@ -656,11 +1058,55 @@ async function sendTTS(session, twilioWs, text) {
   }
 }
 
+/**
+ * Switch a call to voicemail: play the prompt and a tone, then record the
+ * caller (see the "mark" and "media" handlers) until they hang up or the
+ * message reaches VOICEMAIL_MAX_SECONDS.
+ *
+ * @param {"caller-request"|"llm-error"|"over-limit"} reason
+ */
+async function enterVoicemail(session, twilioWs, reason) {
+  if (!session || session.voicemail) return;
+  console.log(`[Voicemail] Recording a message — reason=${reason} callSid=${session.callSid}`);
+  session.startVoicemail(reason);
+  session.endedReason = "voicemail";
+  const prompt = getVoicemailPrompt(reason, session.organizationName, session.language);
+  session.addMessage("assistant", prompt);
+
+  try {
+    await sendTTS(session, twilioWs, prompt);
+    const tone = generateTone();
+    if (session.recorder) session.recorder.addOutbound(tone);
+    for (const chunk of chunkAudioForTwilio(tone)) {
+      if (twilioWs.readyState !== WebSocket.OPEN) break;
+      twilioWs.send(JSON.stringify({ event: "media", streamSid: session.streamSid, media: { payload: chunk } }));
+    }
+    if (twilioWs.readyState === WebSocket.OPEN) {
+      twilioWs.send(JSON.stringify({ event: "mark", streamSid: session.streamSid, mark: { name: "voicemail-tone" } }));
+    }
+  } catch (err) {
+    console.error("[Voicemail] Failed to play the voicemail prompt — recording without it:", err);
+    session.voicemail.recording = true;
+  }
+}
+
+/**
+ * The message has reached its maximum length: thank the caller and hang up.
+ */
+function endVoicemail(session, twilioWs) {
+  console.log(`[Voicemail] Maximum message length reached — ending call (callSid=${session.callSid})`);
+  session.voicemail.recording = false;
+  sendTTS(session, twilioWs, getVoicemailSavedMessage(session.language))
+    .catch((err) => console.error("[Voicemail] Failed to send goodbye:", err))
+    .finally(() => setTimeout(() => twilioWs.close(), 3000));
+}
+
 /**
  * Send clear event to flush Twilio's audio buffer (barge-in).
  */
 function sendClear(session, twilioWs) {
   if (twilioWs.readyState !== WebSocket.OPEN) return;
+  if (session.recorder) session.recorder.clearOutbound();
   twilioWs.send(
     JSON.stringify({
       event: "clear",
@@ -693,6 +1139,7 @@ function startHoldAudio(session, ws, mode) {
 
     try {
       if (mode === "twilio") {
+        if (session.recorder) session.recorder.addOutbound(holdBuf);
         const chunks = chunkAudioForTwilio(holdBuf);
         for (const chunk of chunks) {
           if (stopped || ws.readyState !== WebSocket.OPEN) return;
@@ -844,6 +1291,9 @@ testWss.on("connection", (ws, req) => {
       session.transferRules = context.transferRules || [];
       session.deepgramVoice = getDeepgramVoice(context.assistant.voiceId);
       session.holdPreset = getHoldPreset(context.organization.industry);
+      session.languages = getAssistantLanguages(context.assistant.settings);
+      session.language = session.languages[0];
+      session.startLanguageDetection();
 
       // Build system prompt
       const systemPrompt = buildSystemPrompt(
@@ -855,10 +1305,10 @@ testWss.on("connection", (ws, req) => {
           transferRules: session.transferRules,
         }
       );
-      session.setSystemPrompt(systemPrompt);
+      session.setBasePrompt(systemPrompt);
 
       // Open Deepgram STT
-      session.deepgramWs = openDeepgramStream(DEEPGRAM_API_KEY, {
+      session.sttCallbacks = {
         onTranscript: ({ transcript, isFinal }) => {
           // Send partial transcripts to browser
           if (ws.readyState === WebSocket.OPEN) {
@@ -871,7 +1321,7 @@ testWss.on("connection", (ws, req) => {
           }
           if (!isFinal) return;
           console.log(`[TestSTT] Final: "${transcript}"`);
-          session.bufferTranscript(transcript, (combined) => {
+          bufferFinalTranscript(session, transcript, (combined) => {
             console.log(`[TestSTT] Buffered: "${combined}"`);
             session.queueOrProcess(combined, (text) => handleTestUserSpeech(session, ws, text));
           });
@@ -890,14 +1340,15 @@ testWss.on("connection", (ws, req) => {
             console.error(`[TestSTT] Deepgram connection closed unexpectedly (code=${code})`);
           }
         },
+      };
+      session.deepgramWs = openDeepgramStream(DEEPGRAM_API_KEY, session.sttCallbacks, {
+        language: getSttLanguage(session.language),
       });
 
       // Send greeting
-      const greeting = getGreeting(context.assistant, context.organization.name);
+      const greeting = getGreeting(context.assistant, context.organization.name, session.language);
       try {
-        const audioBuffer = await synthesizeSpeech(DEEPGRAM_API_KEY, greeting, {
-          voice: session.deepgramVoice,
-        });
+        const audioBuffer = await synthesize(session, greeting);
         // Send greeting transcript
         if (ws.readyState === WebSocket.OPEN) {
           ws.send(JSON.stringify({
@@ -937,6 +1388,7 @@ testWss.on("connection", (ws, req) => {
 
     if (isBinary) {
       // Raw mulaw audio from browser — forward to Deepgram
+      if (session.languageDetection) session.appendDetectionAudio(data);
       if (session.deepgramWs && session.deepgramWs.readyState === WebSocket.OPEN) {
         session.deepgramWs.send(data);
       }
@@ -988,6 +1440,7 @@ async function handleTestUserSpeech(session, ws, transcript) {
     const llmOptions = {};
     const tools = [];
     if (session.calendarEnabled) tools.push(...calendarToolDefinitions);
+    if (session.languages.length > 1) tools.push(getSwitchLanguageToolDefinition(session.languages));
     if (tools.length > 0) llmOptions.tools = tools;
 
     const MAX_TOOL_ITERATIONS = 3;
@@ -1008,9 +1461,7 @@ async function handleTestUserSpeech(session, ws, transcript) {
             holdStopped = true;
           }
           ttsChain = ttsChain.then(async () => {
-            const audioBuffer = await synthesizeSpeech(DEEPGRAM_API_KEY, sentence, {
-              voice: session?.deepgramVoice,
-            });
+            const audioBuffer = await synthesize(session, sentence);
             if (ws.readyState === WebSocket.OPEN) {
               ws.send(JSON.stringify({ type: "speaking", speaking: true }));
               ws.send(audioBuffer);
@@ -1064,6 +1515,9 @@ async function handleTestUserSpeech(session, ws, transcript) {
           });
 
           const resultMessage = typeof toolResult === "string" ? toolResult : toolResult.message;
+          if (toolResult.action === "switch_language") {
+            switchLanguage(session, toolResult.language);
+          }
           session.messages.push({
             role: "tool",
             tool_call_id: toolCall.id,
@@ -1078,7 +1532,7 @@ async function handleTestUserSpeech(session, ws, transcript) {
       hold.stop();
       reply = "I apologize, I'm having trouble processing that. Could you repeat what you said?";
       console.warn(`[TestPipeline] Tool call loop exhausted after ${MAX_TOOL_ITERATIONS} iterations (assistantId=${session.assistantId})`);
-      const audioBuffer = await synthesizeSpeech(DEEPGRAM_API_KEY, reply, { voice: session?.deepgramVoice });
+      const audioBuffer = await synthesize(session, reply);
       if (ws.readyState === WebSocket.OPEN) {
         ws.send(JSON.stringify({ type: "speaking", speaking: true }));
         ws.send(audioBuffer);
@@ -1101,9 +1555,7 @@ async function handleTestUserSpeech(session, ws, transcript) {
     try {
       if (ws.readyState === WebSocket.OPEN) {
         const fallback = "I'm sorry, I'm having a little trouble right now. Could you repeat that?";
-        const audioBuffer = await synthesizeSpeech(DEEPGRAM_API_KEY, fallback, {
-          voice: session?.deepgramVoice,
-        });
+        const audioBuffer = await synthesize(session, fallback);
         ws.send(JSON.stringify({ type: "transcript", role: "assistant", content: fallback, isFinal: true }));
         ws.send(audioBuffer);
       }
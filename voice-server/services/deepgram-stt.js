@@ -6,13 +6,15 @@ const WebSocket = require("ws");
  *
  * @param {string} apiKey
  * @param {{ onTranscript, onUtteranceEnd, onError, onClose }} callbacks
+ * @param {{ language?: string }} [options] - Deepgram language code, default "en"
  * @returns {WebSocket}
  */
-function openDeepgramStream(apiKey, { onTranscript, onUtteranceEnd, onError, onClose }) {
+function openDeepgramStream(apiKey, { onTranscript, onUtteranceEnd, onError, onClose }, options) {
   const url =
     "wss://api.deepgram.com/v1/listen?" +
     "encoding=mulaw&sample_rate=8000&channels=1" +
     "&model=nova-2" +
+    `&language=${encodeURIComponent(options?.language || "en")}` +
     "&punctuate=true" +
     "&interim_results=true" +
     "&endpointing=300" +
@@ -69,4 +71,48 @@ function openDeepgramStream(apiKey, { onTranscript, onUtteranceEnd, onError, onC
   return ws;
 }
 
-module.exports = { openDeepgramStream };
+/**
+ * Detect the language of a short clip of caller audio (mulaw 8kHz) with
+ * Deepgram's pre-recorded API, choosing between the given languages.
+ *
+ * @param {string} apiKey
+ * @param {Buffer} audio
+ * @param {string[]} languages - Deepgram language codes to choose from
+ * @returns {Promise<{ language: string, confidence: number|null, transcript: string }|null>}
+ *   null when nothing was detected
+ */
+async function detectLanguage(apiKey, audio, languages) {
+  const url =
+    "https://api.deepgram.com/v1/listen?" +
+    "encoding=mulaw&sample_rate=8000&channels=1" +
+    "&model=nova-2" +
+    "&punctuate=true" +
+    languages.map((code) => `&detect_language=${encodeURIComponent(code)}`).join("");
+
+  const res = await fetch(url, {
+    method: "POST",
+    signal: AbortSignal.timeout(5_000),
+    headers: {
+      Authorization: `Token ${apiKey}`,
+      "Content-Type": "application/octet-stream",
+    },
+    body: audio,
+  });
+
+  if (!res.ok) {
+    const errText = (await res.text()).slice(0, 500);
+    throw new Error(`Deepgram language detection error ${res.status}: ${errText}`);
+  }
+
+  const data = await res.json();
+  const channel = data.results?.channels?.[0];
+  if (!channel?.detected_language) return null;
+
+  return {
+    language: channel.detected_language,
+    confidence: typeof channel.language_confidence === "number" ? channel.language_confidence : null,
+    transcript: channel.alternatives?.[0]?.transcript || "",
+  };
+}
+
+module.exports = { openDeepgramStream, detectLanguage };
@@ -0,0 +1,49 @@
+/**
+ * OpenAI TTS — used for languages Deepgram Aura has no voice for.
+ * Requests raw 24kHz PCM and converts it to the mulaw 8kHz Twilio expects.
+ */
+
+const { pcm16ToMulaw } = require("../lib/wav");
+
+const TTS_MODEL = "gpt-4o-mini-tts";
+const DEFAULT_VOICE = "nova";
+
+/** OpenAI's "pcm" format: 24kHz 16-bit signed little-endian mono */
+const PCM_SAMPLE_RATE = 24000;
+
+/**
+ * @param {string} apiKey
+ * @param {string} text
+ * @param {{ voice?: string }} [options]
+ * @returns {Promise<Buffer>} Raw mulaw audio bytes
+ */
+async function synthesizeSpeechOpenAI(apiKey, text, options) {
+  if (!text || !text.trim()) {
+    throw new Error("synthesizeSpeechOpenAI called with empty text");
+  }
+
+  const res = await fetch("https://api.openai.com/v1/audio/speech", {
+    method: "POST",
+    signal: AbortSignal.timeout(10_000),
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: TTS_MODEL,
+      voice: options?.voice || DEFAULT_VOICE,
+      input: text,
+      response_format: "pcm",
+    }),
+  });
+
+  if (!res.ok) {
+    const errText = (await res.text()).slice(0, 500);
+    throw new Error(`OpenAI TTS error ${res.status}: ${errText}`);
+  }
+
+  const arrayBuffer = await res.arrayBuffer();
+  return pcm16ToMulaw(Buffer.from(arrayBuffer), PCM_SAMPLE_RATE);
+}
+
+module.exports = { synthesizeSpeechOpenAI };
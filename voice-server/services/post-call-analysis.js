@@ -5,6 +5,8 @@
  * - summary, success_evaluation, collected_data
  */
 
+const { getLanguageName } = require("../lib/languages");
+
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const ANALYSIS_MODEL = "gpt-4.1-nano";
 
@@ -21,13 +23,60 @@ Return a JSON object with these fields:
 
 Return ONLY valid JSON, no other text.`;
 
+/** Same snake_case keys as labelToKey in src/lib/prompt-builder/generate-prompt.ts */
+function labelToKey(label) {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+/**
+ * The collected_data keys for an assistant's guided fields and intents, with
+ * the allowed answers for select fields, so the app can check them against
+ * the field options (src/lib/prompt-builder/collected-data.ts).
+ *
+ * @param {object|null} [promptConfig]
+ * @returns {string} Empty when the assistant has no guided fields
+ */
+function describeCollectedFields(promptConfig) {
+  if (!promptConfig) return "";
+
+  const intents = promptConfig.intents || [];
+  const fields = [...(promptConfig.fields || []), ...intents.flatMap((intent) => intent.fields || [])];
+  const lines = [];
+  const seen = new Set();
+  for (const field of fields) {
+    const key = labelToKey(field.label || "");
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    const values = (field.options || []).map((option) => option.value);
+    const allowed = values.length > 0
+      ? ` (${field.type === "multiselect" ? "array, any of" : "one of"}: ${values.join(", ")})`
+      : "";
+    lines.push(`- ${key}: ${field.label}${allowed}`);
+  }
+  if (intents.length > 0) {
+    lines.push(`- call_intent: which call type this was, one of ${[...intents.map((intent) => intent.id), "other"].join(", ")}`);
+  }
+
+  if (lines.length === 0) return "";
+  return `In collected_data, use these keys for information the caller gave, and the exact allowed answers where listed:\n${lines.join("\n")}`;
+}
+
 /**
  * Analyze a completed call transcript and extract structured data.
+ * The summary is written in the business owner's language, whatever
+ * language the call was in.
  *
  * @param {string} transcript - The full call transcript
+ * @param {{ summaryLanguage?: string, promptConfig?: object|null }} [options]
  * @returns {Promise<object|null>} Extracted data or null if analysis fails
  */
-async function analyzeCallTranscript(transcript) {
+async function analyzeCallTranscript(transcript, options) {
   if (!transcript || transcript.trim().length < 20) {
     return null; // Too short to analyze meaningfully
   }
@@ -38,8 +87,16 @@ async function analyzeCallTranscript(transcript) {
   }
 
   try {
+    const fieldsSection = describeCollectedFields(options?.promptConfig);
     const messages = [
-      { role: "system", content: ANALYSIS_PROMPT },
+      {
+        role: "system",
+        content: [
+          ANALYSIS_PROMPT,
+          `The call may not be in English. Write summary and caller_phone_reason in ${getLanguageName(options?.summaryLanguage || "en")}.`,
+          fieldsSection,
+        ].filter(Boolean).join("\n\n"),
+      },
       {
         role: "user",
         content: `Analyze this call transcript:\n\n${transcript.slice(0, 4000)}`,
@@ -99,4 +156,4 @@ async function analyzeCallTranscript(transcript) {
   }
 }
 
-module.exports = { analyzeCallTranscript };
+module.exports = { analyzeCallTranscript, describeCollectedFields };
@@ -2,11 +2,12 @@
  * Routes tool calls to appropriate handlers.
  *
  * Calendar tools (check_availability, book_appointment, cancel_appointment,
- * get_current_datetime) are delegated to the Next.js app via internal API.
+ * confirm_appointment, reschedule_appointment, join_waitlist, get_current_datetime) are delegated to the Next.js app via internal API.
  * Transfer tool (transfer_call) is handled locally via Twilio REST API.
  */
 
 const { transferCall } = require("./twilio-transfer");
+const { getLanguageName } = require("../lib/languages");
 
 const INTERNAL_API_URL = process.env.INTERNAL_API_URL;
 const INTERNAL_API_SECRET = process.env.INTERNAL_API_SECRET;
@@ -16,6 +17,18 @@ const CALENDAR_FUNCTIONS = [
   "check_availability",
   "book_appointment",
   "cancel_appointment",
+  "confirm_appointment",
+  "reschedule_appointment",
+  "join_waitlist",
+];
+
+// Calendar functions that change bookings — simulated during test calls
+const CALENDAR_WRITE_FUNCTIONS = [
+  "book_appointment",
+  "cancel_appointment",
+  "confirm_appointment",
+  "reschedule_appointment",
+  "join_waitlist",
 ];
 
 /**
@@ -49,6 +62,16 @@ const calendarToolDefinitions = [
             type: "string",
             description: "The date to check in YYYY-MM-DD format",
           },
+          service: {
+            type: "string",
+            description:
+              "The service the caller wants, by name from the services list (omit if the business lists no services)",
+          },
+          staff: {
+            type: "string",
+            description:
+              "Who the caller wants to see (e.g. \"Dr. Smith\"), or \"anyone\" if they have no preference",
+          },
         },
         required: ["date"],
       },
@@ -59,7 +82,7 @@ const calendarToolDefinitions = [
     function: {
       name: "book_appointment",
       description:
-        "Book an appointment at a specific date and time. Requires the caller's name and phone number.",
+        "Book an appointment, or a repeating series of appointments, at a specific date and time. Requires the caller's name and phone number.",
       parameters: {
         type: "object",
         properties: {
@@ -85,6 +108,31 @@ const calendarToolDefinitions = [
             description:
               "Any additional notes about the appointment (optional)",
           },
+          service: {
+            type: "string",
+            description:
+              "The service being booked, by name from the services list (omit if the business lists no services)",
+          },
+          staff: {
+            type: "string",
+            description:
+              "Who the appointment is with (e.g. \"Dr. Smith\"), or \"anyone\" if the caller has no preference",
+          },
+          recurrence: {
+            type: "string",
+            description:
+              "For repeating appointments, how often: \"daily\", \"weekly\", \"biweekly\" or \"monthly\" (omit for a single appointment)",
+          },
+          occurrences: {
+            type: "number",
+            description:
+              "For repeating appointments, how many in total including the first (e.g. 6 for \"every Tuesday for six weeks\")",
+          },
+          skip_conflicts: {
+            type: "boolean",
+            description:
+              "Set to true only after the caller agrees to book the remaining dates when some dates in a repeating booking aren't available",
+          },
         },
         required: ["datetime", "name", "phone"],
       },
@@ -113,6 +161,103 @@ const calendarToolDefinitions = [
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "confirm_appointment",
+      description:
+        "Confirm that the caller will attend their next upcoming appointment, e.g. when reminding them about it.",
+      parameters: {
+        type: "object",
+        properties: {
+          phone: {
+            type: "string",
+            description:
+              "The phone number used when the appointment was booked",
+          },
+        },
+        required: ["phone"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "reschedule_appointment",
+      description:
+        "Move the caller's existing appointment to a new date and time. Looks up the appointment by the caller's phone number. Check availability for the new date first.",
+      parameters: {
+        type: "object",
+        properties: {
+          phone: {
+            type: "string",
+            description:
+              "The phone number used when the appointment was booked",
+          },
+          name: {
+            type: "string",
+            description:
+              "The name the appointment was booked under (optional, helps when several bookings share a number)",
+          },
+          datetime: {
+            type: "string",
+            description:
+              "The new appointment date and time in ISO format (e.g., 2026-03-15T14:00:00)",
+          },
+          reason: {
+            type: "string",
+            description: "Reason for rescheduling (optional)",
+          },
+        },
+        required: ["phone", "datetime"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "join_waitlist",
+      description:
+        "Put the caller on the waitlist when no times work for them. If an appointment in their date range is cancelled, they get a text and can reply YES to book it.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "The caller's full name",
+          },
+          phone: {
+            type: "string",
+            description: "The mobile number to text if a slot opens up",
+          },
+          start_date: {
+            type: "string",
+            description: "First date the caller could come in, in YYYY-MM-DD format",
+          },
+          end_date: {
+            type: "string",
+            description:
+              "Last date the caller could come in, in YYYY-MM-DD format (omit for a single day)",
+          },
+          service: {
+            type: "string",
+            description:
+              "The service the caller wants, by name from the business's services list (omit if the business lists no services)",
+          },
+          staff: {
+            type: "string",
+            description:
+              'Who the caller wants to see (e.g. "Dr. Smith"), or "anyone" if they have no preference',
+          },
+          notes: {
+            type: "string",
+            description: "Any additional notes or reason for the appointment",
+          },
+        },
+        required: ["name", "phone", "start_date"],
+      },
+    },
+  },
 ];
 
 /**
@@ -150,13 +295,51 @@ const transferToolDefinition = {
   },
 };
 
+const voicemailToolDefinition = {
+  type: "function",
+  function: {
+    name: "leave_voicemail",
+    description:
+      "Let the caller record a voicemail for the business. Use this when the caller asks to leave a message rather than talk it through with you.",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+};
+
+/**
+ * Switch the call's language, limited to the languages the assistant speaks.
+ */
+function getSwitchLanguageToolDefinition(languages) {
+  return {
+    type: "function",
+    function: {
+      name: "switch_language",
+      description:
+        "Switch the call to another language. Use this as soon as the caller speaks, or asks to speak, one of the languages listed.",
+      parameters: {
+        type: "object",
+        properties: {
+          language: {
+            type: "string",
+            enum: languages,
+            description: `Language code: ${languages.map((code) => `${code} = ${getLanguageName(code)}`).join(", ")}`,
+          },
+        },
+        required: ["language"],
+      },
+    },
+  };
+}
+
 /**
  * Execute a tool call by routing to the appropriate handler.
  *
  * @param {string} functionName
  * @param {object} args - parsed arguments from the LLM
  * @param {{ organizationId: string, assistantId: string, callSid?: string, transferRules?: object[], testMode?: boolean }} context
- * @returns {Promise<{ message: string, action?: string, transferTo?: string }>}
+ * @returns {Promise<{ message: string, action?: string, transferTo?: string, transferToName?: string | null }>}
  */
 async function executeToolCall(functionName, args, context) {
   // ── Transfer call (handled locally via Twilio) ──
@@ -164,9 +347,23 @@ async function executeToolCall(functionName, args, context) {
     return executeTransferCall(args, context);
   }
 
+  // ── Voicemail (the voice server switches to recording) ──
+  if (functionName === "leave_voicemail") {
+    return { message: "Caller is leaving a voicemail.", action: "voicemail" };
+  }
+
+  // ── Language switch (the voice server changes prompt, STT and TTS voice) ──
+  if (functionName === "switch_language") {
+    return {
+      message: `The call is now in ${getLanguageName(args.language)}. Reply in ${getLanguageName(args.language)} from now on.`,
+      action: "switch_language",
+      language: args.language,
+    };
+  }
+
   if (CALENDAR_FUNCTIONS.includes(functionName)) {
     // In test mode, simulate write operations instead of hitting the real API
-    if (context.testMode && (functionName === "book_appointment" || functionName === "cancel_appointment")) {
+    if (context.testMode && CALENDAR_WRITE_FUNCTIONS.includes(functionName)) {
       return simulateCalendarWrite(functionName, args);
     }
     return executeCalendarCall(functionName, args, context);
@@ -282,6 +479,7 @@ async function executeTransferCall(args, context) {
       message: announcement,
       action: "transfer",
       transferTo: matchedRule.transferToPhone,
+      transferToName: matchedRule.transferToName || null,
     };
   }
 
@@ -295,18 +493,19 @@ async function executeTransferCall(args, context) {
     message: result.message,
     action: result.success ? "transfer" : "callback",
     transferTo: matchedRule.transferToPhone,
+    transferToName: matchedRule.transferToName || null,
   };
 }
 
 /**
- * Return a simulated response for booking/cancellation during test calls.
+ * Return a simulated response for booking changes during test calls.
  * Reads (get_current_datetime, check_availability) still hit the real API
  * so the LLM gets realistic data, but writes are faked.
  */
 function simulateCalendarWrite(functionName, args) {
   if (functionName === "book_appointment") {
     return {
-      message: `Appointment confirmed for ${args.name} at ${args.datetime}. A confirmation will be sent shortly.`,
+      message: `${args.service ? `${args.service} appointment` : "Appointment"} confirmed for ${args.name}${args.staff && !/^any/i.test(args.staff) ? ` with ${args.staff}` : ""} at ${args.datetime}${args.recurrence && Number(args.occurrences) > 1 ? `, repeating ${args.recurrence} for ${args.occurrences} appointments` : ""}. A confirmation will be sent shortly.`,
     };
   }
   if (functionName === "cancel_appointment") {
@@ -314,11 +513,28 @@ function simulateCalendarWrite(functionName, args) {
       message: `The appointment associated with ${args.phone} has been cancelled successfully.`,
     };
   }
+  if (functionName === "confirm_appointment") {
+    return {
+      message: `The appointment associated with ${args.phone} has been confirmed.`,
+    };
+  }
+  if (functionName === "reschedule_appointment") {
+    return {
+      message: `The appointment associated with ${args.phone} has been moved to ${args.datetime}. A confirmation will be sent shortly.`,
+    };
+  }
+  if (functionName === "join_waitlist") {
+    return {
+      message: `${args.name} has been added to the waitlist from ${args.start_date}${args.end_date && args.end_date !== args.start_date ? ` to ${args.end_date}` : ""}. They'll get a text if a slot opens up.`,
+    };
+  }
   return { message: "Done." };
 }
 
 module.exports = {
   calendarToolDefinitions,
   transferToolDefinition,
+  voicemailToolDefinition,
+  getSwitchLanguageToolDefinition,
   executeToolCall,
 };
@@ -0,0 +1,55 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { buildCallRecord } = require("../lib/call-logger");
+
+const NOW = "2026-03-02T12:00:00.000Z";
+
+function record(overrides) {
+  return buildCallRecord({
+    orgId: "org-1",
+    assistantId: "assistant-1",
+    phoneNumberId: "number-1",
+    callerPhone: "+12125550147",
+    callSid: "CA123",
+    now: NOW,
+    ...overrides,
+  });
+}
+
+describe("buildCallRecord", () => {
+  it("starts answered calls in progress", () => {
+    const row = record({ screening: { outcome: "answered", spamScore: 10, reasons: [] } });
+    assert.equal(row.vapi_call_id, "sh_CA123");
+    assert.equal(row.status, "in-progress");
+    assert.equal(row.metadata.screening.outcome, "answered");
+    assert.equal(row.ended_at, undefined);
+    assert.equal(row.spam_score, undefined);
+  });
+
+  it("keeps the score of a failed challenge without flagging the caller as spam", () => {
+    const screening = { outcome: "challenge_failed", spamScore: 55, reasons: ["5 calls in the last 24 hours"] };
+    const row = record({ screening });
+    assert.equal(row.status, "no-answer");
+    assert.equal(row.duration_seconds, 0);
+    assert.deepEqual(row.metadata.screening, screening);
+    assert.equal(row.spam_score, 55);
+    assert.equal(row.spam_base_score, 55);
+    assert.equal(row.is_spam, undefined);
+  });
+
+  it("does not flag calls rejected by screening as spam", () => {
+    const row = record({ screening: { outcome: "rejected", spamScore: 80, reasons: [] } });
+    assert.equal(row.status, "no-answer");
+    assert.equal(row.spam_score, 80);
+    assert.equal(row.is_spam, undefined);
+  });
+
+  it("records the rule that blocked a call without flagging the caller as spam", () => {
+    const row = record({ callerRule: { id: "rule-1", action: "block" } });
+    assert.equal(row.status, "no-answer");
+    assert.equal(row.caller_rule_id, "rule-1");
+    assert.equal(row.caller_rule_action, "block");
+    assert.equal(row.is_spam, undefined);
+    assert.equal(row.spam_score, undefined);
+  });
+});
@@ -0,0 +1,53 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { pickVariant, applyExperimentVariant } = require("../lib/experiments");
+
+describe("pickVariant", () => {
+  const variants = [
+    { id: "a", weight: 75 },
+    { id: "b", weight: 25 },
+  ];
+
+  it("splits by weight", () => {
+    assert.equal(pickVariant(variants, () => 0).id, "a");
+    assert.equal(pickVariant(variants, () => 0.74).id, "a");
+    assert.equal(pickVariant(variants, () => 0.75).id, "b");
+    assert.equal(pickVariant(variants, () => 0.999).id, "b");
+  });
+
+  it("returns null without weighted variants", () => {
+    assert.equal(pickVariant([], () => 0.5), null);
+    assert.equal(pickVariant([{ id: "a", weight: 0 }], () => 0.5), null);
+  });
+});
+
+describe("applyExperimentVariant", () => {
+  const assistant = {
+    name: "Front Desk",
+    systemPrompt: "Live prompt",
+    promptConfig: null,
+    firstMessage: "Hi, thanks for calling {business_name}!",
+    voiceId: "aura-asteria-en",
+  };
+
+  it("swaps in the variant's prompt and greeting", () => {
+    const applied = applyExperimentVariant(assistant, {
+      systemPrompt: "Variant prompt",
+      promptConfig: { version: 2, tone: "casual" },
+      firstMessage: "Hey there!",
+    });
+    assert.equal(applied.systemPrompt, "Variant prompt");
+    assert.deepEqual(applied.promptConfig, { version: 2, tone: "casual" });
+    assert.equal(applied.firstMessage, "Hey there!");
+    assert.equal(applied.voiceId, "aura-asteria-en");
+  });
+
+  it("keeps the live greeting for revisions without one", () => {
+    const applied = applyExperimentVariant(assistant, {
+      systemPrompt: "Variant prompt",
+      promptConfig: null,
+      firstMessage: null,
+    });
+    assert.equal(applied.firstMessage, assistant.firstMessage);
+  });
+});
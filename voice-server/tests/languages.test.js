@@ -0,0 +1,105 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  buildLanguageSection,
+  getAssistantLanguages,
+  getTtsVoice,
+  matchLanguage,
+} = require("../lib/languages");
+const { generateGreeting } = require("../lib/prompt-builder");
+const { getVoicemailPrompt } = require("../lib/voicemail");
+const { pcm16ToMulaw } = require("../lib/wav");
+const { CallSession } = require("../call-session");
+
+describe("getAssistantLanguages", () => {
+  it("defaults to English", () => {
+    assert.deepEqual(getAssistantLanguages(undefined), ["en"]);
+    assert.deepEqual(getAssistantLanguages({ languages: [] }), ["en"]);
+  });
+
+  it("keeps supported languages in order and drops the rest", () => {
+    assert.deepEqual(getAssistantLanguages({ languages: ["es", "fr", "en", "es"] }), ["es", "en"]);
+  });
+});
+
+describe("matchLanguage", () => {
+  it("matches regional tags to the assistant's languages", () => {
+    assert.equal(matchLanguage("es-419", ["en", "es"]), "es");
+    assert.equal(matchLanguage("zh-TW", ["en", "zh"]), "zh");
+    assert.equal(matchLanguage("vi", ["en", "es"]), null);
+    assert.equal(matchLanguage(undefined, ["en"]), null);
+  });
+});
+
+describe("getTtsVoice", () => {
+  it("keeps Deepgram for English and Spanish, matching the voice's gender", () => {
+    assert.deepEqual(getTtsVoice("en", "aura-luna-en"), { provider: "deepgram", voice: "aura-luna-en" });
+    assert.deepEqual(getTtsVoice("es", "aura-orion-en"), { provider: "deepgram", voice: "aura-2-javier-es" });
+  });
+
+  it("uses OpenAI for languages Deepgram can't speak", () => {
+    assert.deepEqual(getTtsVoice("vi", "aura-asteria-en"), { provider: "openai", voice: "nova" });
+  });
+});
+
+describe("buildLanguageSection", () => {
+  it("is empty for English-only assistants", () => {
+    assert.equal(buildLanguageSection("en", ["en"]), "");
+  });
+
+  it("names the current language and offers the others", () => {
+    const section = buildLanguageSection("es", ["en", "es", "zh"]);
+    assert.match(section, /Speak Spanish/);
+    assert.match(section, /English, Mandarin Chinese/);
+    assert.match(section, /switch_language/);
+  });
+});
+
+describe("localized phrases", () => {
+  it("greets and takes messages in the call's language", () => {
+    assert.equal(generateGreeting("professional", "Acme", "es"), "Gracias por llamar a Acme. ¿En qué puedo ayudarle hoy?");
+    assert.equal(generateGreeting("friendly", "Acme", "xx"), generateGreeting("friendly", "Acme"));
+    assert.match(getVoicemailPrompt("over-limit", "Acme", "vi"), /Acme/);
+  });
+});
+
+describe("pcm16ToMulaw", () => {
+  it("downsamples 24kHz PCM to 8kHz mulaw", () => {
+    const pcm = Buffer.alloc(24000 * 2);
+    assert.equal(pcm16ToMulaw(pcm, 24000).length, 8000);
+  });
+});
+
+describe("CallSession languages", () => {
+  it("re-applies the language section when the language changes", () => {
+    const session = new CallSession("CA123");
+    session.languages = ["en", "es"];
+    session.setBasePrompt("You are a receptionist.");
+    assert.match(session.messages[0].content, /Speak English/);
+
+    assert.equal(session.setLanguage("es"), true);
+    assert.match(session.messages[0].content, /Speak Spanish/);
+    assert.equal(session.setLanguage("es"), false);
+    assert.equal(session.setLanguage("vi"), false);
+  });
+
+  it("only detects the language for multilingual assistants", () => {
+    const session = new CallSession("CA123");
+    session.startLanguageDetection();
+    assert.equal(session.languageDetection, null);
+
+    session.languages = ["en", "zh"];
+    session.startLanguageDetection();
+    assert.ok(session.languageDetection);
+  });
+
+  it("keeps the most recent audio for detection", () => {
+    const session = new CallSession("CA123");
+    session.languages = ["en", "es"];
+    session.startLanguageDetection();
+    for (let i = 0; i < 500; i++) session.appendDetectionAudio(Buffer.alloc(160, i % 256));
+    const audio = session.getDetectionAudio();
+    assert.ok(audio.length <= 8 * 8000 + 160);
+    assert.equal(audio[audio.length - 1], 499 % 256);
+  });
+});
@@ -0,0 +1,29 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { describeCollectedFields } = require("../services/post-call-analysis");
+
+describe("describeCollectedFields", () => {
+  it("is empty without a guided prompt config", () => {
+    assert.equal(describeCollectedFields(null), "");
+    assert.equal(describeCollectedFields({ fields: [], intents: [] }), "");
+  });
+
+  it("lists field keys, allowed answers and intents", () => {
+    const text = describeCollectedFields({
+      fields: [
+        { label: "Full Name", type: "text" },
+        { label: "Seating Preference", type: "select", options: [{ value: "Indoor" }, { value: "Outdoor" }] },
+      ],
+      intents: [
+        {
+          id: "new_booking",
+          fields: [{ label: "Extras", type: "multiselect", options: [{ value: "Highchair" }] }],
+        },
+      ],
+    });
+    assert.match(text, /- full_name: Full Name\n/);
+    assert.match(text, /- seating_preference: Seating Preference \(one of: Indoor, Outdoor\)/);
+    assert.match(text, /- extras: Extras \(array, any of: Highchair\)/);
+    assert.match(text, /- call_intent: which call type this was, one of new_booking, other/);
+  });
+});
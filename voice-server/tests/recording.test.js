@@ -0,0 +1,79 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { mulawToWav, interleaveStereo } = require("../lib/wav");
+const { CallRecorder, isRecordingEnabled } = require("../lib/recording");
+
+const T0 = 1_000_000;
+
+describe("mulawToWav", () => {
+  it("wraps mono mulaw audio in an 8kHz mu-law WAV header", () => {
+    const audio = Buffer.alloc(800, 0xff);
+    const wav = mulawToWav(audio);
+    assert.equal(wav.length, 58 + audio.length);
+    assert.equal(wav.toString("ascii", 0, 4), "RIFF");
+    assert.equal(wav.readUInt32LE(4), wav.length - 8);
+    assert.equal(wav.toString("ascii", 8, 12), "WAVE");
+    assert.equal(wav.readUInt16LE(20), 7);
+    assert.equal(wav.readUInt16LE(22), 1);
+    assert.equal(wav.readUInt32LE(24), 8000);
+    assert.equal(wav.toString("ascii", 50, 54), "data");
+    assert.equal(wav.readUInt32LE(54), audio.length);
+  });
+
+  it("describes stereo frames", () => {
+    const wav = mulawToWav(Buffer.alloc(400), 2);
+    assert.equal(wav.readUInt16LE(22), 2);
+    assert.equal(wav.readUInt32LE(28), 16000);
+    assert.equal(wav.readUInt16LE(32), 2);
+    assert.equal(wav.readUInt32LE(46), 200);
+  });
+});
+
+describe("interleaveStereo", () => {
+  it("pads the shorter track with silence", () => {
+    const stereo = interleaveStereo(Buffer.from([1, 2, 3]), Buffer.from([9]));
+    assert.deepEqual([...stereo], [1, 9, 2, 0xff, 3, 0xff]);
+  });
+});
+
+describe("CallRecorder", () => {
+  it("places caller audio by Twilio's media timestamp", () => {
+    const recorder = new CallRecorder(T0);
+    recorder.addInbound(Buffer.alloc(160, 1), "20", T0);
+    const wav = recorder.toWav();
+    const frames = wav.subarray(58);
+    assert.equal(frames.length, (160 + 160) * 2);
+    assert.equal(frames[0], 0xff); // silence before the first frame
+    assert.equal(frames[160 * 2], 1); // left channel at 20ms
+    assert.equal(frames[160 * 2 + 1], 0xff); // nothing on the right
+  });
+
+  it("queues outbound audio behind what is still playing", () => {
+    const recorder = new CallRecorder(T0);
+    recorder.addOutbound(Buffer.alloc(800, 2), T0);
+    recorder.addOutbound(Buffer.alloc(800, 3), T0 + 10);
+    assert.deepEqual(recorder.outbound.map((c) => c.offset), [0, 800]);
+
+    // After the queue has drained, new audio starts at the current time
+    recorder.addOutbound(Buffer.alloc(160, 4), T0 + 1000);
+    assert.equal(recorder.outbound[2].offset, 8000);
+  });
+
+  it("drops outbound audio that a barge-in cut off", () => {
+    const recorder = new CallRecorder(T0);
+    recorder.addOutbound(Buffer.alloc(8000, 2), T0); // one second of speech
+    recorder.addOutbound(Buffer.alloc(8000, 3), T0);
+    recorder.clearOutbound(T0 + 500);
+
+    assert.equal(recorder.outbound.length, 1);
+    assert.equal(recorder.outbound[0].audio.length, 4000);
+    recorder.addOutbound(Buffer.alloc(160, 4), T0 + 500);
+    assert.equal(recorder.outbound[1].offset, 4000);
+  });
+
+  it("follows the assistant's recordingEnabled setting", () => {
+    assert.equal(isRecordingEnabled(undefined), true);
+    assert.equal(isRecordingEnabled({}), true);
+    assert.equal(isRecordingEnabled({ recordingEnabled: false }), false);
+  });
+});
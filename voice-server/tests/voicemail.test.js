@@ -0,0 +1,41 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const { generateTone, VOICEMAIL_MAX_BYTES } = require("../lib/voicemail");
+const { CallSession } = require("../call-session");
+
+describe("generateTone", () => {
+  it("is one mulaw byte per sample", () => {
+    assert.equal(generateTone(500).length, 4000);
+  });
+});
+
+describe("CallSession voicemail", () => {
+  it("only records once the tone has played", () => {
+    const session = new CallSession("CA123");
+    session.startVoicemail("caller-request");
+    session.appendVoicemailAudio(Buffer.alloc(160));
+    assert.equal(session.getVoicemailAudio().length, 0);
+
+    session.voicemail.recording = true;
+    session.appendVoicemailAudio(Buffer.alloc(160));
+    assert.equal(session.getVoicemailAudio().length, 160);
+  });
+
+  it("stops at the maximum message length", () => {
+    const session = new CallSession("CA123");
+    session.startVoicemail("over-limit");
+    session.voicemail.recording = true;
+    assert.equal(session.appendVoicemailAudio(Buffer.alloc(VOICEMAIL_MAX_BYTES - 100)), false);
+    assert.equal(session.appendVoicemailAudio(Buffer.alloc(160)), true);
+    assert.equal(session.getVoicemailAudio().length, VOICEMAIL_MAX_BYTES);
+  });
+
+  it("drops speech queued for the assistant", () => {
+    const session = new CallSession("CA123");
+    session._pendingTranscript = "hello";
+    session.startVoicemail("llm-error");
+    assert.equal(session._pendingTranscript, null);
+    session.voicemail.transcript.push("Hi, it's Sam.", "Call me back.");
+    assert.equal(session.getVoicemailTranscript(), "Hi, it's Sam. Call me back.");
+  });
+});